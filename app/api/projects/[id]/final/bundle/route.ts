@@ -43,6 +43,8 @@ export async function GET(_: Request, context: { params: Promise<{ id: string }>
   const { id } = await context.params;
   const { loadAuthorizedFinalDesign } = await import("@/lib/final-deliverables-api");
   const { buildFinalBundle } = await import("@/lib/final-deliverables");
+  const { renderPodcastDeliverable } = await import("@/lib/podcast-variant-generator");
+  const { renderSeriesMarkAvatars } = await import("@/lib/series-mark-generator");
   const { buildProductionBlockedMessage } = await import("@/lib/production-valid-option");
   const JSZip = (await import("jszip")).default;
   const finalDesign = await loadAuthorizedFinalDesign(id);
@@ -64,7 +66,7 @@ export async function GET(_: Request, context: { params: Promise<{ id: string }>
     );
   }
 
-  const baseZipBuffer = await buildFinalBundle(finalDesign.designDoc);
+  const baseZipBuffer = await buildFinalBundle(finalDesign.designDoc, { fontScope: finalDesign.organizationId });
   const zip = await JSZip.loadAsync(baseZipBuffer);
   const findAssetPath = (slots: string[], kinds?: string[]): string | null => {
     const normalizedSlots = slots.map((slot) => slot.trim().toLowerCase());
@@ -120,6 +122,64 @@ export async function GET(_: Request, context: { params: Promise<{ id: string }>
     });
   }
 
+  // The podcast square and series mark avatars are extras: when one can't be built, the
+  // canonical files above still ship without it.
+  const squareBackgroundPath = findAssetPath(["square_bg"]);
+  try {
+    if (!squareBackgroundPath || !finalDesign.generationId) {
+      throw new Error("Missing canonical square background for the podcast export.");
+    }
+    const podcast = await renderPodcastDeliverable({
+      seriesTitle: finalDesign.seriesTitle,
+      squareBackgroundPath,
+      // The series mark is the series' own icon, so it leads over the church logo on the podcast square.
+      logoPath: finalDesign.seriesMarkPath || finalDesign.logoPath,
+      generationId: finalDesign.generationId,
+      generationOutput: finalDesign.generationOutput,
+      fontScope: finalDesign.organizationId
+    });
+    zip.file("podcast/square-podcast.png", podcast.png);
+    zip.file("podcast/square-podcast-300.png", podcast.thumbnailPng);
+    zip.file("podcast/square-podcast-3000.png", podcast.largePng);
+    zip.file(
+      "podcast/legibility.json",
+      JSON.stringify(
+        {
+          shortTitle: podcast.variant.shortTitle,
+          usesMark: podcast.variant.usesMark,
+          ...podcast.variant.legibility
+        },
+        null,
+        2
+      )
+    );
+  } catch (error) {
+    console.warn(`[final-bundle] Skipped the podcast square: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  if (finalDesign.seriesMarkPath) {
+    try {
+      await addAssetFileOrThrow({
+        zip,
+        filePath: finalDesign.seriesMarkPath,
+        archivePath: "mark/series-mark.svg",
+        label: "series mark"
+      });
+      const avatars = squareBackgroundPath
+        ? await renderSeriesMarkAvatars({
+            markPath: finalDesign.seriesMarkPath,
+            squareBackgroundPath
+          })
+        : null;
+      if (avatars) {
+        zip.file("social/avatar-1080.png", avatars.png);
+        zip.file("social/avatar-400.png", avatars.smallPng);
+      }
+    } catch (error) {
+      console.warn(`[final-bundle] Skipped the series mark files: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
   const zipBuffer = await zip.generateAsync({ type: "nodebuffer", compression: "DEFLATE" });
   const responseBody = new Uint8Array(zipBuffer);
 
@@ -8,7 +8,7 @@ export async function GET(_: Request, context: { params: Promise<{ id: string }>
     return finalDesign.response;
   }
 
-  const pdfBuffer = await buildFinalPdf(finalDesign.designDoc);
+  const pdfBuffer = await buildFinalPdf(finalDesign.designDoc, { fontScope: finalDesign.organizationId });
   const responseBody = new Uint8Array(pdfBuffer);
 
   return new Response(responseBody, {
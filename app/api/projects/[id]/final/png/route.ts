@@ -8,7 +8,7 @@ export async function GET(_: Request, context: { params: Promise<{ id: string }>
     return finalDesign.response;
   }
 
-  const pngBuffer = await buildFinalPng(finalDesign.designDoc);
+  const pngBuffer = await buildFinalPng(finalDesign.designDoc, { fontScope: finalDesign.organizationId });
   const responseBody = new Uint8Array(pngBuffer);
 
   return new Response(responseBody, {
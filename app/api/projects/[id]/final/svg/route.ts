@@ -8,7 +8,7 @@ export async function GET(_: Request, context: { params: Promise<{ id: string }>
     return finalDesign.response;
   }
 
-  const svg = await buildFinalSvg(finalDesign.designDoc);
+  const svg = await buildFinalSvg(finalDesign.designDoc, { fontScope: finalDesign.organizationId });
 
   return new Response(svg, {
     status: 200,
@@ -89,7 +89,7 @@ export async function GET(request: Request, context: { params: Promise<{ id: str
 
   const { buildFinalSvg } = await import("@/lib/final-deliverables");
   const sharp = (await import("sharp")).default;
-  const svg = await buildFinalSvg(designDoc);
+  const svg = await buildFinalSvg(designDoc, { fontScope: session.organizationId });
   const { width, height } = SLOT_DIMENSIONS[slot];
   const pngBuffer = await sharp(Buffer.from(svg))
     .resize({
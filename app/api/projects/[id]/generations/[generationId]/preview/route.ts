@@ -1,7 +1,7 @@
 import { readFile } from "fs/promises";
 import path from "path";
 import { getSession } from "@/lib/auth";
-import { resolveEffectiveBrandKit } from "@/lib/brand-kit";
+import { resolveGenerationBrandKit } from "@/lib/brand-kit";
 import { buildFallbackDesignDoc, normalizeDesignDoc, type DesignDoc } from "@/lib/design-doc";
 import { prisma } from "@/lib/prisma";
 import type { LockupIntegrationMode } from "@/lib/lockup-compositor";
@@ -507,6 +507,7 @@ export async function GET(request: Request, context: { params: Promise<{ id: str
       status: true,
       input: true,
       output: true,
+      brandKitVersionId: true,
       preset: {
         select: {
           key: true
@@ -532,7 +533,10 @@ export async function GET(request: Request, context: { params: Promise<{ id: str
               websiteUrl: true,
               typographyDirection: true,
               logoPath: true,
-              paletteJson: true
+              paletteJson: true,
+              paletteMode: true,
+              logoMode: true,
+              typographyMode: true
             }
           }
         }
@@ -561,10 +565,11 @@ export async function GET(request: Request, context: { params: Promise<{ id: str
     );
   }
 
-  const effectiveBrandKit = await resolveEffectiveBrandKit({
+  const effectiveBrandKit = await resolveGenerationBrandKit({
     organizationId: generation.project.organizationId,
     projectId,
-    projectBrandKit: generation.project.brandKit
+    projectBrandKit: generation.project.brandKit,
+    brandKitVersionId: generation.brandKitVersionId
   });
 
   const lockupAssetPath = readLockupAssetPath(generation.assets);
@@ -723,7 +728,7 @@ export async function GET(request: Request, context: { params: Promise<{ id: str
 
   const { buildFinalSvg } = await import("@/lib/final-deliverables");
   const sharp = (await import("sharp")).default;
-  const svg = await buildFinalSvg(sourceDesignDoc);
+  const svg = await buildFinalSvg(sourceDesignDoc, { fontScope: session.organizationId });
   const pngBuffer = await sharp(Buffer.from(svg))
     .resize({
       width,
@@ -0,0 +1,161 @@
+import { getSession } from "@/lib/auth";
+import {
+  deriveGenerationProgress,
+  formatServerSentEvent,
+  type GenerationProgressSnapshot
+} from "@/lib/graphics-domain/generation-progress";
+import { prisma } from "@/lib/prisma";
+
+export const dynamic = "force-dynamic";
+
+const POLL_INTERVAL_MS = 1_000;
+const KEEPALIVE_INTERVAL_MS = 15_000;
+// Clients reconnect automatically; capping the stream keeps abandoned tabs from holding a poller.
+const MAX_STREAM_DURATION_MS = 10 * 60_000;
+
+function noStoreHeaders(): HeadersInit {
+  return {
+    "Cache-Control": "no-store, max-age=0"
+  };
+}
+
+async function loadGenerationProgress(params: {
+  projectId: string;
+  generationId: string;
+  organizationId: string;
+}): Promise<GenerationProgressSnapshot | null> {
+  const generation = await prisma.generation.findFirst({
+    where: {
+      id: params.generationId,
+      projectId: params.projectId,
+      project: {
+        organizationId: params.organizationId
+      }
+    },
+    select: {
+      id: true,
+      status: true,
+      input: true,
+      scoutRuns: {
+        select: {
+          status: true,
+          eval: {
+            select: {
+              hardReject: true
+            }
+          }
+        }
+      },
+      rebuildAttempts: {
+        select: {
+          status: true,
+          attemptOrder: true
+        }
+      }
+    }
+  });
+  if (!generation) {
+    return null;
+  }
+
+  return deriveGenerationProgress({
+    generation: {
+      id: generation.id,
+      status: generation.status,
+      input: generation.input
+    },
+    scoutRuns: generation.scoutRuns,
+    rebuildAttempts: generation.rebuildAttempts
+  });
+}
+
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal.aborted) {
+      resolve();
+      return;
+    }
+    const timeoutId = setTimeout(() => {
+      signal.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      resolve();
+    };
+    signal.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+export async function GET(request: Request, context: { params: Promise<{ id: string; generationId: string }> }) {
+  const session = await getSession();
+  if (!session) {
+    return new Response("Unauthorized", { status: 401, headers: noStoreHeaders() });
+  }
+
+  const { id: projectId, generationId } = await context.params;
+  const lookup = { projectId, generationId, organizationId: session.organizationId };
+  const initial = await loadGenerationProgress(lookup);
+  if (!initial) {
+    return new Response("Generation not found", { status: 404, headers: noStoreHeaders() });
+  }
+
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const startedAt = Date.now();
+      let lastSentAt = startedAt;
+      let lastPayload = "";
+      let snapshot: GenerationProgressSnapshot | null = initial;
+
+      try {
+        while (!request.signal.aborted) {
+          if (!snapshot) {
+            controller.enqueue(encoder.encode(formatServerSentEvent("gone", { generationId })));
+            break;
+          }
+
+          const payload = JSON.stringify(snapshot);
+          if (payload !== lastPayload) {
+            controller.enqueue(encoder.encode(formatServerSentEvent("progress", snapshot)));
+            lastPayload = payload;
+            lastSentAt = Date.now();
+          } else if (Date.now() - lastSentAt >= KEEPALIVE_INTERVAL_MS) {
+            controller.enqueue(encoder.encode(": keepalive\n\n"));
+            lastSentAt = Date.now();
+          }
+
+          if (snapshot.settled || Date.now() - startedAt >= MAX_STREAM_DURATION_MS) {
+            break;
+          }
+
+          await sleep(POLL_INTERVAL_MS, request.signal);
+          if (request.signal.aborted) {
+            break;
+          }
+          snapshot = await loadGenerationProgress(lookup);
+        }
+      } catch (error) {
+        console.error(`[generation-progress] stream failed generation=${generationId}`, error);
+        if (!request.signal.aborted) {
+          controller.enqueue(encoder.encode(formatServerSentEvent("error", { generationId })));
+        }
+      }
+
+      try {
+        controller.close();
+      } catch {
+        // The client already disconnected.
+      }
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      ...noStoreHeaders(),
+      "Content-Type": "text/event-stream; charset=utf-8",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no"
+    }
+  });
+}
@@ -0,0 +1,158 @@
+export const dynamic = "force-dynamic";
+
+import { notFound } from "next/navigation";
+import { isPlatformAdmin, requireSession } from "@/lib/auth";
+import { listBenchmarkCodeVersions, listBenchmarkRunsByCodeVersion } from "@/lib/ai-harness/storage/benchmark-runs";
+import {
+  BENCHMARK_METRIC_LABELS,
+  compareBenchmarkSetsByProviderConfig,
+  formatBenchmarkMetric,
+  type BenchmarkFixtureComparison,
+  type BenchmarkMetricKey
+} from "@/lib/round1-v2/bench/compare";
+import { ROUND1_V2_BENCHMARK_FEATURE_KEY } from "@/lib/round1-v2/bench/run-pack";
+
+const METRIC_KEYS = Object.keys(BENCHMARK_METRIC_LABELS) as BenchmarkMetricKey[];
+
+function MetricCell({ fixture, metric }: { fixture: BenchmarkFixtureComparison; metric: BenchmarkMetricKey }) {
+  const regressed = fixture.regressions.includes(metric);
+  return (
+    <td className={`px-4 py-3 text-right ${regressed ? "bg-rose-50 text-rose-700" : ""}`}>
+      <div className="text-xs text-slate-500">{formatBenchmarkMetric(metric, fixture.baseline?.[metric] ?? null)}</div>
+      <div className={regressed ? "font-semibold" : "font-medium"}>{formatBenchmarkMetric(metric, fixture.candidate?.[metric] ?? null)}</div>
+    </td>
+  );
+}
+
+export default async function AdminBenchmarksPage({
+  searchParams
+}: {
+  searchParams: Promise<{ base?: string; head?: string }>;
+}) {
+  const session = await requireSession();
+  // Benchmark runs are platform-wide, not per organization.
+  if (!isPlatformAdmin(session)) {
+    notFound();
+  }
+
+  const versions = await listBenchmarkCodeVersions({ featureKey: ROUND1_V2_BENCHMARK_FEATURE_KEY });
+  const params = await searchParams;
+  // Default to the two most recent code versions: previous as baseline, latest as candidate.
+  const head = params.head || versions[0]?.codeVersion || null;
+  const base = params.base || versions.find((version) => version.codeVersion !== head)?.codeVersion || null;
+
+  const groups =
+    base && head
+      ? compareBenchmarkSetsByProviderConfig({
+          baseline: await listBenchmarkRunsByCodeVersion({ codeVersion: base, featureKey: ROUND1_V2_BENCHMARK_FEATURE_KEY }),
+          candidate: await listBenchmarkRunsByCodeVersion({ codeVersion: head, featureKey: ROUND1_V2_BENCHMARK_FEATURE_KEY })
+        })
+      : null;
+
+  return (
+    <section className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-semibold">Benchmarks</h1>
+        <p className="text-sm text-slate-600">
+          Compare Round 1 V2 benchmark runs between two code versions. Log runs with <code>npm run bench:v2</code>.
+        </p>
+      </div>
+
+      {versions.length < 2 ? (
+        <div className="rounded-xl border border-dashed border-slate-300 bg-white p-6 text-center text-sm text-slate-600">
+          At least two code versions need benchmark runs before they can be compared.
+        </div>
+      ) : (
+        <form method="get" className="flex flex-wrap items-end gap-3 text-sm">
+          {(
+            [
+              ["base", "Baseline", base],
+              ["head", "Candidate", head]
+            ] as const
+          ).map(([name, label, value]) => (
+            <label key={name} className="space-y-1">
+              <span className="block text-xs uppercase tracking-wide text-slate-500">{label}</span>
+              <select name={name} defaultValue={value ?? undefined} className="rounded-md border border-slate-300 bg-white px-3 py-1.5">
+                {versions.map((version) => (
+                  <option key={version.codeVersion} value={version.codeVersion}>
+                    {version.codeVersion} · {version.runCount} runs · {version.latestAt.toISOString().slice(0, 10)}
+                  </option>
+                ))}
+              </select>
+            </label>
+          ))}
+          <button type="submit" className="rounded-md bg-slate-900 px-3 py-1.5 text-white">
+            Compare
+          </button>
+        </form>
+      )}
+
+      {groups?.map(({ providerConfigVersion, comparison }) => (
+        <div key={providerConfigVersion ?? "unversioned"} className="space-y-4">
+          <h2 className="text-lg font-semibold">
+            {providerConfigVersion ? (
+              <>
+                Provider config <code>{providerConfigVersion}</code>
+              </>
+            ) : (
+              "Unversioned provider config"
+            )}
+          </h2>
+          <div className="grid gap-4 sm:grid-cols-3">
+            <div className="rounded-xl border border-slate-200 bg-white p-4">
+              <div className="text-xs uppercase tracking-wide text-slate-500">Fixtures</div>
+              <div className="text-2xl font-semibold">{comparison.fixtures.length}</div>
+            </div>
+            <div className="rounded-xl border border-slate-200 bg-white p-4">
+              <div className="text-xs uppercase tracking-wide text-slate-500">Regressed</div>
+              <div className={`text-2xl font-semibold ${comparison.regressedCaseKeys.length > 0 ? "text-rose-700" : ""}`}>
+                {comparison.regressedCaseKeys.length}
+              </div>
+            </div>
+            <div className="rounded-xl border border-slate-200 bg-white p-4">
+              <div className="text-xs uppercase tracking-wide text-slate-500">Unmatched</div>
+              <div className="text-2xl font-semibold">{comparison.unmatchedCaseKeys.length}</div>
+              <div className="text-xs text-slate-500">Only run under one version with this provider config</div>
+            </div>
+          </div>
+
+          <div className="overflow-x-auto rounded-xl border border-slate-200 bg-white">
+            <table className="min-w-full divide-y divide-slate-200 text-sm">
+              <thead className="bg-slate-50">
+                <tr>
+                  <th className="px-4 py-3 text-left font-medium text-slate-700">Fixture</th>
+                  {METRIC_KEYS.map((metric) => (
+                    <th key={metric} className="px-4 py-3 text-right font-medium text-slate-700">
+                      {BENCHMARK_METRIC_LABELS[metric]}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-200">
+                {comparison.fixtures.map((fixture) => (
+                  <tr key={fixture.caseKey}>
+                    <td className="px-4 py-3">
+                      <code className="text-xs">{fixture.caseKey}</code>
+                      {fixture.regressions.length > 0 ? (
+                        <span className="ml-2 rounded bg-rose-100 px-1.5 py-0.5 text-xs font-medium text-rose-700">Regressed</span>
+                      ) : null}
+                      <div className="text-xs text-slate-500">
+                        {fixture.baseline?.runCount ?? 0} → {fixture.candidate?.runCount ?? 0} runs
+                      </div>
+                    </td>
+                    {METRIC_KEYS.map((metric) => (
+                      <MetricCell key={metric} fixture={fixture} metric={metric} />
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <p className="text-xs text-slate-500">
+            Each cell shows baseline <code>{base}</code> above candidate <code>{head}</code>, averaged over all runs of the fixture.
+          </p>
+        </div>
+      ))}
+    </section>
+  );
+}
@@ -0,0 +1,80 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { requireSession } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { DESIGN_MODES, isDesignMode } from "@/lib/round1-v2/design-modes";
+import { DESIGN_MODE_LANES, type DesignModeFlagSettings } from "@/lib/round1-v2/design-mode-flags";
+import { saveDesignModeFlagSettings } from "@/lib/round1-v2/storage";
+
+export type DesignModeFlagActionState = {
+  error?: string;
+  success?: string;
+};
+
+function readFlagSettings(formData: FormData): DesignModeFlagSettings | "invalid" {
+  const settings: DesignModeFlagSettings = { enabledModes: [], excludedModes: [], forcedLaneModes: {} };
+
+  for (const mode of DESIGN_MODES) {
+    const state = String(formData.get(`mode_${mode}`) ?? "default");
+    if (state === "enabled") {
+      settings.enabledModes.push(mode);
+    } else if (state === "excluded") {
+      settings.excludedModes.push(mode);
+    } else if (state !== "default") {
+      return "invalid";
+    }
+  }
+
+  for (const lane of DESIGN_MODE_LANES) {
+    const mode = String(formData.get(`force_${lane}`) ?? "");
+    if (!mode) continue;
+    if (!isDesignMode(mode)) return "invalid";
+    settings.forcedLaneModes[lane] = mode;
+  }
+
+  return settings;
+}
+
+export async function updateDesignModeFlagsAction(
+  _: DesignModeFlagActionState,
+  formData: FormData
+): Promise<DesignModeFlagActionState> {
+  const session = await requireSession();
+  if (session.role !== "OWNER" && session.role !== "ADMIN") {
+    return { error: "Only owners and admins can change design-mode flags." };
+  }
+
+  const projectId = String(formData.get("project_id") ?? "") || null;
+  if (projectId) {
+    const project = await prisma.project.findFirst({
+      where: {
+        id: projectId,
+        organizationId: session.organizationId
+      },
+      select: {
+        id: true
+      }
+    });
+    if (!project) {
+      return { error: "Project not found." };
+    }
+  }
+
+  const settings = readFlagSettings(formData);
+  if (settings === "invalid") {
+    return { error: "Unknown design mode in the submitted flags." };
+  }
+
+  await saveDesignModeFlagSettings({
+    organizationId: session.organizationId,
+    projectId,
+    settings
+  });
+
+  revalidatePath("/app/admin/design-modes");
+
+  return {
+    success: projectId ? "Saved project design-mode flags." : "Saved organization design-mode flags."
+  };
+}
@@ -0,0 +1,66 @@
+export const dynamic = "force-dynamic";
+
+import { notFound } from "next/navigation";
+import { DesignModeFlagsForm } from "@/components/design-mode-flags-form";
+import { requireSession } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { listDesignModeFlagSettings } from "@/lib/round1-v2/storage";
+
+export default async function AdminDesignModesPage() {
+  const session = await requireSession();
+  if (session.role !== "OWNER" && session.role !== "ADMIN") {
+    notFound();
+  }
+
+  const [flags, projects] = await Promise.all([
+    listDesignModeFlagSettings(session.organizationId),
+    prisma.project.findMany({
+      where: { organizationId: session.organizationId },
+      orderBy: { updatedAt: "desc" },
+      select: { id: true, series_title: true }
+    })
+  ]);
+  const overriddenProjectIds = new Set(flags.projects.map((project) => project.projectId));
+  const projectOptions = projects
+    .filter((project) => !overriddenProjectIds.has(project.id))
+    .map((project) => ({ id: project.id, title: project.series_title }));
+
+  return (
+    <section className="mx-auto max-w-3xl space-y-6">
+      <div>
+        <h1 className="text-2xl font-semibold">Design Modes</h1>
+        <p className="text-sm text-slate-600">
+          Turn Round 1 V2 design modes on or off, or force a mode onto a lane. Project settings override the organization&apos;s.
+          Each generation records how the flags were applied.
+        </p>
+      </div>
+
+      <DesignModeFlagsForm
+        title="Organization"
+        description="Applies to every project without its own setting for a mode or lane."
+        initialSettings={flags.organization}
+        projectId={null}
+      />
+
+      {flags.projects.map((project) => (
+        <DesignModeFlagsForm
+          key={project.projectId}
+          title={project.projectTitle}
+          description="Project override. Set everything back to default to remove it."
+          initialSettings={project.settings}
+          projectId={project.projectId}
+        />
+      ))}
+
+      {projectOptions.length > 0 ? (
+        <DesignModeFlagsForm
+          title="Add project override"
+          description="Flags for a single project, layered on top of the organization's."
+          initialSettings={null}
+          projectId={null}
+          projectOptions={projectOptions}
+        />
+      ) : null}
+    </section>
+  );
+}
@@ -0,0 +1,47 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { requireSession } from "@/lib/auth";
+import { parseQuotaInput } from "@/lib/org-quotas";
+import { prisma } from "@/lib/prisma";
+
+export type OrganizationQuotaActionState = {
+  error?: string;
+  success?: string;
+};
+
+export async function updateOrganizationQuotasAction(
+  _: OrganizationQuotaActionState,
+  formData: FormData
+): Promise<OrganizationQuotaActionState> {
+  const session = await requireSession();
+  if (session.role !== "OWNER" && session.role !== "ADMIN") {
+    return { error: "Only owners and admins can change quotas." };
+  }
+
+  const monthlyGenerationQuota = parseQuotaInput(formData.get("monthly_generation_quota"), { integer: true });
+  if (monthlyGenerationQuota === "invalid") {
+    return { error: "Monthly generation quota must be a whole number of zero or more, or blank for unlimited." };
+  }
+
+  const monthlySpendQuotaUsd = parseQuotaInput(formData.get("monthly_spend_quota_usd"), { integer: false });
+  if (monthlySpendQuotaUsd === "invalid") {
+    return { error: "Monthly spend quota must be a dollar amount of zero or more, or blank for unlimited." };
+  }
+
+  await prisma.organization.update({
+    where: {
+      id: session.organizationId
+    },
+    data: {
+      monthlyGenerationQuota,
+      monthlySpendQuotaUsd
+    }
+  });
+
+  revalidatePath("/app/admin/quotas");
+
+  return {
+    success: "Saved organization quotas."
+  };
+}
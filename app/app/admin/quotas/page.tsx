@@ -0,0 +1,70 @@
+export const dynamic = "force-dynamic";
+
+import { notFound } from "next/navigation";
+import { OrganizationQuotaForm } from "@/components/organization-quota-form";
+import { requireSession } from "@/lib/auth";
+import { formatUsd } from "@/lib/ai-spend";
+import { loadOrganizationQuotaStatus } from "@/lib/org-quota-store";
+import { prisma } from "@/lib/prisma";
+import { formatProductionInvalidReason } from "@/lib/production-valid-option";
+
+function UsageCard({ label, used, limit }: { label: string; used: string; limit: string | null }) {
+  return (
+    <div className="rounded-xl border border-slate-200 bg-white p-4">
+      <div className="text-xs uppercase tracking-wide text-slate-500">{label}</div>
+      <div className="text-2xl font-semibold">{used}</div>
+      <div className="text-xs text-slate-500">{limit ? `of ${limit} this month` : "No limit"}</div>
+    </div>
+  );
+}
+
+export default async function AdminQuotasPage() {
+  const session = await requireSession();
+  if (session.role !== "OWNER" && session.role !== "ADMIN") {
+    notFound();
+  }
+
+  const status = await loadOrganizationQuotaStatus({
+    db: prisma,
+    organizationId: session.organizationId
+  });
+  const periodLabel = status.periodStart.toLocaleDateString("en-US", { month: "long", year: "numeric", timeZone: "UTC" });
+
+  return (
+    <section className="mx-auto max-w-2xl space-y-6">
+      <div>
+        <h1 className="text-2xl font-semibold">Quotas</h1>
+        <p className="text-sm text-slate-600">Monthly generation and AI spend limits for your organization. Usage shown for {periodLabel}.</p>
+      </div>
+
+      <div className="grid gap-4 sm:grid-cols-2">
+        <UsageCard
+          label="Generations"
+          used={String(status.usage.generationCount)}
+          limit={status.settings.monthlyGenerationQuota === null ? null : String(status.settings.monthlyGenerationQuota)}
+        />
+        <UsageCard
+          label="Estimated AI spend"
+          used={formatUsd(status.usage.spendUsd)}
+          limit={status.settings.monthlySpendQuotaUsd === null ? null : formatUsd(status.settings.monthlySpendQuotaUsd)}
+        />
+      </div>
+
+      {status.blockingReasons.length > 0 ? (
+        <div className="rounded-lg border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-800">
+          <p className="font-medium">New rounds are blocked until the limit is raised or the month resets.</p>
+          <ul className="list-disc pl-5">
+            {status.blockingReasons.map((reason) => (
+              <li key={reason}>{formatProductionInvalidReason(reason)}</li>
+            ))}
+          </ul>
+        </div>
+      ) : null}
+
+      <OrganizationQuotaForm
+        initialMonthlyGenerationQuota={status.settings.monthlyGenerationQuota}
+        initialMonthlySpendQuotaUsd={status.settings.monthlySpendQuotaUsd}
+      />
+    </section>
+  );
+}
@@ -0,0 +1,204 @@
+export const dynamic = "force-dynamic";
+
+import Image from "next/image";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { requireSession } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { formatProductionInvalidReason } from "@/lib/production-valid-option";
+import {
+  buildShadowComparisons,
+  readRound1V2ShadowMarker,
+  resolveRound1V2ShadowSamplingRate,
+  type ShadowOptionSummary
+} from "@/lib/round1-v2/shadow";
+
+const SHADOW_GENERATION_LIMIT = 60;
+
+function formatScore(value: number | null | undefined): string {
+  return typeof value === "number" ? value.toFixed(2) : "-";
+}
+
+function OptionCard({ projectId, option, engine }: { projectId: string; option: ShadowOptionSummary; engine: "V1" | "V2" }) {
+  return (
+    <div className="space-y-2 rounded-lg border border-slate-200 bg-white p-3 text-xs">
+      <Image
+        src={`/api/projects/${projectId}/generations/${option.generationId}/preview?shape=wide`}
+        alt={`${engine} option ${option.label}`}
+        width={640}
+        height={360}
+        unoptimized
+        className="aspect-video w-full rounded bg-slate-100 object-cover"
+      />
+      <div className="flex items-center justify-between">
+        <span className="font-semibold">
+          {engine} {option.label}
+          {option.designMode ? <span className="ml-1 font-normal text-slate-500">{option.designMode}</span> : null}
+        </span>
+        <span
+          className={`rounded px-1.5 py-0.5 font-medium ${
+            option.productionValid === true
+              ? "bg-emerald-100 text-emerald-800"
+              : option.productionValid === false
+                ? "bg-rose-100 text-rose-700"
+                : "bg-slate-100 text-slate-600"
+          }`}
+        >
+          {option.productionValid === true ? "Valid" : option.productionValid === false ? "Invalid" : option.status}
+        </span>
+      </div>
+      <dl className="grid grid-cols-2 gap-x-2 gap-y-0.5 text-slate-600">
+        <dt>Background checks</dt>
+        <dd className="text-right font-medium text-slate-900">{formatScore(option.backgroundScore)}</dd>
+        {engine === "V2" ? (
+          <>
+            <dt>Scout composite</dt>
+            <dd className="text-right font-medium text-slate-900">{formatScore(option.scoutCompositeScore)}</dd>
+            <dt>Rebuild composite</dt>
+            <dd className="text-right font-medium text-slate-900">{formatScore(option.rebuildEval?.compositeScore)}</dd>
+            <dt>Rebuild tone / grammar</dt>
+            <dd className="text-right font-medium text-slate-900">
+              {formatScore(option.rebuildEval?.toneScore)} / {formatScore(option.rebuildEval?.grammarScore)}
+            </dd>
+          </>
+        ) : null}
+      </dl>
+      {option.invalidReasons.length > 0 ? (
+        <ul className="list-disc pl-4 text-rose-700">
+          {option.invalidReasons.slice(0, 3).map((reason) => (
+            <li key={reason}>{formatProductionInvalidReason(reason)}</li>
+          ))}
+        </ul>
+      ) : null}
+    </div>
+  );
+}
+
+export default async function AdminShadowPage() {
+  const session = await requireSession();
+  if (session.role !== "OWNER" && session.role !== "ADMIN") {
+    notFound();
+  }
+
+  const shadowGenerations = await prisma.generation.findMany({
+    where: {
+      shadow: true,
+      project: {
+        organizationId: session.organizationId
+      }
+    },
+    orderBy: { createdAt: "desc" },
+    take: SHADOW_GENERATION_LIMIT,
+    select: {
+      id: true,
+      projectId: true,
+      status: true,
+      input: true,
+      output: true,
+      createdAt: true,
+      rebuildAttempts: {
+        orderBy: { attemptOrder: "asc" },
+        select: {
+          evals: {
+            orderBy: { createdAt: "asc" },
+            select: {
+              accepted: true,
+              compositeScore: true,
+              toneScore: true,
+              grammarScore: true
+            }
+          }
+        }
+      }
+    }
+  });
+  const v1GenerationIds = [
+    ...new Set(shadowGenerations.flatMap((generation) => readRound1V2ShadowMarker(generation.input)?.generationIds ?? []))
+  ];
+  const [v1Generations, projects] = await Promise.all([
+    prisma.generation.findMany({
+      where: {
+        id: { in: v1GenerationIds },
+        project: {
+          organizationId: session.organizationId
+        }
+      },
+      select: {
+        id: true,
+        status: true,
+        input: true,
+        output: true
+      }
+    }),
+    prisma.project.findMany({
+      where: {
+        id: { in: [...new Set(shadowGenerations.map((generation) => generation.projectId))] }
+      },
+      select: {
+        id: true,
+        series_title: true
+      }
+    })
+  ]);
+  const projectTitles = new Map<string, string>(projects.map((project) => [project.id, project.series_title]));
+  const comparisons = buildShadowComparisons({
+    shadowGenerations: shadowGenerations.map((generation) => ({
+      ...generation,
+      rebuildEvals: generation.rebuildAttempts.flatMap((attempt) => attempt.evals)
+    })),
+    v1GenerationsById: new Map(v1Generations.map((generation) => [generation.id, generation]))
+  });
+  const samplingRate = resolveRound1V2ShadowSamplingRate();
+
+  return (
+    <section className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-semibold">Round 1 V2 Shadow Runs</h1>
+        <p className="text-sm text-slate-600">
+          {samplingRate > 0
+            ? `${Math.round(samplingRate * 100)}% of V1 Round 1 launches also run V2 in the background.`
+            : "Shadow runs are disabled (ROUND1_V2_SHADOW_SAMPLING_RATE=0)."}{" "}
+          Shadow options are never shown on the project.
+        </p>
+      </div>
+
+      {comparisons.length === 0 ? (
+        <div className="rounded-xl border border-dashed border-slate-300 bg-white p-6 text-center text-sm text-slate-600">
+          No shadow runs yet.
+        </div>
+      ) : (
+        comparisons.map((comparison) => (
+          <div key={comparison.key} className="space-y-3 rounded-xl border border-slate-200 bg-slate-50 p-4">
+            <div className="flex flex-wrap items-baseline justify-between gap-2">
+              <Link href={`/app/projects/${comparison.projectId}`} className="font-semibold underline">
+                {projectTitles.get(comparison.projectId) ?? comparison.projectId}
+              </Link>
+              <span className="text-xs text-slate-500">{comparison.createdAt.toISOString().replace("T", " ").slice(0, 16)} UTC</span>
+            </div>
+            <div className="grid gap-4 lg:grid-cols-2">
+              {(
+                [
+                  ["V1", comparison.v1],
+                  ["V2", comparison.v2]
+                ] as const
+              ).map(([engine, options]) => (
+                <div key={engine} className="space-y-2">
+                  <h2 className="text-sm font-semibold text-slate-700">{engine}</h2>
+                  {options.length === 0 ? (
+                    <p className="text-xs text-slate-500">No options recorded.</p>
+                  ) : (
+                    <div className="grid grid-cols-3 gap-2">
+                      {options.map((option) => (
+                        <OptionCard key={option.generationId} projectId={comparison.projectId} option={option} engine={engine} />
+                      ))}
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        ))
+      )}
+    </section>
+  );
+}
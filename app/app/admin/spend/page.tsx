@@ -0,0 +1,165 @@
+export const dynamic = "force-dynamic";
+
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { requireSession } from "@/lib/auth";
+import { AI_SPEND_SOURCE_LABELS, formatUsd, type AiSpendBucket, type AiSpendSource } from "@/lib/ai-spend";
+import { loadOrganizationSpendReport } from "@/lib/ai-spend-report";
+
+const WINDOW_DAYS = [7, 30, 90] as const;
+const DEFAULT_WINDOW_DAYS = 30;
+
+function readWindowDays(value: string | undefined): number {
+  const parsed = Number(value);
+  return (WINDOW_DAYS as readonly number[]).includes(parsed) ? parsed : DEFAULT_WINDOW_DAYS;
+}
+
+function SpendTable({
+  title,
+  keyLabel,
+  buckets,
+  renderKey
+}: {
+  title: string;
+  keyLabel: string;
+  buckets: AiSpendBucket[];
+  renderKey: (bucket: AiSpendBucket) => React.ReactNode;
+}) {
+  return (
+    <div className="space-y-2">
+      <h2 className="text-lg font-semibold">{title}</h2>
+      {buckets.length === 0 ? (
+        <div className="rounded-xl border border-dashed border-slate-300 bg-white p-6 text-center text-sm text-slate-600">
+          No AI calls in this window.
+        </div>
+      ) : (
+        <div className="overflow-hidden rounded-xl border border-slate-200 bg-white">
+          <table className="min-w-full divide-y divide-slate-200 text-sm">
+            <thead className="bg-slate-50">
+              <tr>
+                <th className="px-4 py-3 text-left font-medium text-slate-700">{keyLabel}</th>
+                <th className="px-4 py-3 text-right font-medium text-slate-700">Estimated spend</th>
+                <th className="px-4 py-3 text-right font-medium text-slate-700">Calls</th>
+                <th className="px-4 py-3 text-right font-medium text-slate-700">Unpriced</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-200">
+              {buckets.map((bucket) => (
+                <tr key={bucket.key}>
+                  <td className="px-4 py-3">{renderKey(bucket)}</td>
+                  <td className="px-4 py-3 text-right font-medium">{formatUsd(bucket.totalUsd)}</td>
+                  <td className="px-4 py-3 text-right">{bucket.callCount}</td>
+                  <td className="px-4 py-3 text-right">{bucket.unpricedCount > 0 ? bucket.unpricedCount : "-"}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default async function AdminSpendPage({
+  searchParams
+}: {
+  searchParams: Promise<{ days?: string; projectId?: string }>;
+}) {
+  const session = await requireSession();
+  if (session.role !== "OWNER" && session.role !== "ADMIN") {
+    notFound();
+  }
+
+  const { days, projectId } = await searchParams;
+  const windowDays = readWindowDays(days);
+  const report = await loadOrganizationSpendReport({
+    organizationId: session.organizationId,
+    windowDays,
+    projectId: projectId || null
+  });
+  const projectTitle = projectId ? report.projectTitles[projectId] : null;
+  if (projectId && !projectTitle) {
+    notFound();
+  }
+
+  const windowHref = (value: number) =>
+    `/app/admin/spend?days=${value}${projectId ? `&projectId=${encodeURIComponent(projectId)}` : ""}`;
+
+  return (
+    <section className="space-y-6">
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-semibold">AI Spend</h1>
+          <p className="text-sm text-slate-600">
+            {projectTitle ? (
+              <>
+                Estimated provider spend for <span className="font-medium">{projectTitle}</span> over the last {windowDays} days.{" "}
+                <Link href={`/app/admin/spend?days=${windowDays}`} className="underline">
+                  All projects
+                </Link>
+              </>
+            ) : (
+              <>Estimated provider spend for your organization over the last {windowDays} days.</>
+            )}
+          </p>
+        </div>
+        <div className="flex gap-2 text-sm">
+          {WINDOW_DAYS.map((value) => (
+            <Link
+              key={value}
+              href={windowHref(value)}
+              className={`rounded-md border px-3 py-1 ${value === windowDays ? "border-slate-900 bg-slate-900 text-white" : "border-slate-300 bg-white text-slate-700"}`}
+            >
+              {value}d
+            </Link>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid gap-4 sm:grid-cols-4">
+        <div className="rounded-xl border border-slate-200 bg-white p-4">
+          <div className="text-xs uppercase tracking-wide text-slate-500">Total</div>
+          <div className="text-2xl font-semibold">{formatUsd(report.totalUsd)}</div>
+          <div className="text-xs text-slate-500">{report.callCount} calls</div>
+        </div>
+        {(Object.keys(AI_SPEND_SOURCE_LABELS) as AiSpendSource[]).map((source) => {
+          const bucket = report.bySource.find((entry) => entry.key === source);
+          return (
+            <div key={source} className="rounded-xl border border-slate-200 bg-white p-4">
+              <div className="text-xs uppercase tracking-wide text-slate-500">{AI_SPEND_SOURCE_LABELS[source]}</div>
+              <div className="text-2xl font-semibold">{formatUsd(bucket?.totalUsd ?? 0)}</div>
+              <div className="text-xs text-slate-500">{bucket?.callCount ?? 0} calls</div>
+            </div>
+          );
+        })}
+      </div>
+
+      {report.unpricedCount > 0 ? (
+        <p className="rounded-lg border border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-800">
+          {report.unpricedCount} successful calls used models without a price entry and are not included in the totals.
+          Add them to <code>lib/ai-harness/core/pricing.ts</code>.
+        </p>
+      ) : null}
+
+      {projectTitle ? null : (
+        <SpendTable
+          title="By project"
+          keyLabel="Project"
+          buckets={report.byProject}
+          renderKey={(bucket) => (
+            <Link href={`/app/admin/spend?days=${windowDays}&projectId=${encodeURIComponent(bucket.key)}`} className="font-medium underline">
+              {report.projectTitles[bucket.key] ?? bucket.key}
+            </Link>
+          )}
+        />
+      )}
+
+      <SpendTable
+        title="By model"
+        keyLabel="Model"
+        buckets={report.byModel}
+        renderKey={(bucket) => <code className="text-xs">{bucket.key}</code>}
+      />
+    </section>
+  );
+}
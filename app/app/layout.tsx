@@ -1,6 +1,6 @@
 import Link from "next/link";
 import { Settings } from "lucide-react";
-import { requireSession } from "@/lib/auth";
+import { isPlatformAdmin, requireSession } from "@/lib/auth";
 import { logoutAction } from "@/app/app/actions";
 
 export default async function AuthenticatedLayout({ children }: { children: React.ReactNode }) {
@@ -17,6 +17,15 @@ export default async function AuthenticatedLayout({ children }: { children: Reac
 
           <nav className="flex items-center gap-4 text-sm">
             <Link href="/app/projects">Projects</Link>
+            {session.role === "OWNER" || session.role === "ADMIN" ? (
+              <>
+                <Link href="/app/admin/spend">Spend</Link>
+                <Link href="/app/admin/quotas">Quotas</Link>
+                {isPlatformAdmin(session) ? <Link href="/app/admin/benchmarks">Benchmarks</Link> : null}
+                <Link href="/app/admin/shadow">Shadow</Link>
+                <Link href="/app/admin/design-modes">Design Modes</Link>
+              </>
+            ) : null}
             <Link
               href="/app/settings"
               aria-label="Settings"
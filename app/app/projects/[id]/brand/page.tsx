@@ -1,6 +1,10 @@
 import Link from "next/link";
 import { notFound } from "next/navigation";
+import { BrandKitForm } from "@/components/brand-kit-form";
+import { BrandKitHistory } from "@/components/brand-kit-history";
 import { requireSession } from "@/lib/auth";
+import { listBrandKitVersions, parsePaletteJson } from "@/lib/brand-kit";
+import { readBrandKitFieldModes } from "@/lib/brand-kit-inheritance";
 import { prisma } from "@/lib/prisma";
 
 export default async function ProjectBrandKitPage({ params }: { params: Promise<{ id: string }> }) {
@@ -13,7 +17,19 @@ export default async function ProjectBrandKitPage({ params }: { params: Promise<
       organizationId: session.organizationId
     },
     select: {
-      id: true
+      id: true,
+      series_title: true,
+      brandKit: {
+        select: {
+          websiteUrl: true,
+          logoPath: true,
+          paletteJson: true,
+          typographyDirection: true,
+          paletteMode: true,
+          logoMode: true,
+          typographyMode: true
+        }
+      }
     }
   });
 
@@ -21,20 +37,45 @@ export default async function ProjectBrandKitPage({ params }: { params: Promise<
     notFound();
   }
 
+  const organizationBrandKit = await prisma.organizationBrandKit.findUnique({
+    where: {
+      organizationId: session.organizationId
+    },
+    select: {
+      logoPath: true,
+      paletteJson: true,
+      typographyDirection: true
+    }
+  });
+
+  const brandKitVersions = await listBrandKitVersions({ organizationId: session.organizationId, projectId: project.id });
+
   return (
     <section className="mx-auto max-w-2xl space-y-4">
       <Link href={`/app/projects/${project.id}`} className="text-sm text-slate-600">
         Back to project
       </Link>
 
-      <div className="rounded-xl border border-amber-200 bg-amber-50 p-5 text-sm text-amber-900">
-        <p>Brand Kit is now managed in Settings.</p>
-        <div className="mt-3">
-          <Link href="/app/settings" className="inline-flex rounded-md border border-amber-300 bg-white px-3 py-1.5 font-medium">
-            Go to Settings
-          </Link>
-        </div>
-      </div>
+      <BrandKitForm
+        projectId={project.id}
+        projectTitle={project.series_title}
+        churchBrandKit={
+          organizationBrandKit
+            ? {
+                logoPath: organizationBrandKit.logoPath,
+                palette: parsePaletteJson(organizationBrandKit.paletteJson),
+                typographyDirection: organizationBrandKit.typographyDirection
+              }
+            : null
+        }
+        initialModes={readBrandKitFieldModes(project.brandKit)}
+        initialWebsiteUrl={project.brandKit?.websiteUrl}
+        initialLogoPath={project.brandKit?.logoPath}
+        initialPalette={project.brandKit ? parsePaletteJson(project.brandKit.paletteJson) : undefined}
+        initialTypographyDirection={project.brandKit?.typographyDirection}
+      />
+
+      <BrandKitHistory versions={brandKitVersions} showInheritance={Boolean(organizationBrandKit)} />
     </section>
   );
 }
@@ -45,7 +45,8 @@ export default async function GenerationFeedbackPage({
     ? await prisma.generation.findFirst({
         where: {
           id: generationId,
-          projectId: project.id
+          projectId: project.id,
+          shadow: false
         },
         select: {
           id: true,
@@ -58,7 +59,8 @@ export default async function GenerationFeedbackPage({
       ? await prisma.generation.findMany({
           where: {
             projectId: project.id,
-            round: chosenGeneration.round
+            round: chosenGeneration.round,
+            shadow: false
           },
           orderBy: {
             createdAt: "asc"
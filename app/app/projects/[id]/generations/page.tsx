@@ -5,7 +5,13 @@ import Link from "next/link";
 import { notFound } from "next/navigation";
 import { approveFinalDesignAction } from "@/app/app/projects/actions";
 import { DirectionOptionCard } from "@/components/direction-option-card";
+import { GenerationProgress } from "@/components/generation-progress";
 import { requireSession } from "@/lib/auth";
+import {
+  GENERATION_JOB_KIND_LABELS,
+  SHADOW_GENERATION_JOB_KINDS,
+  isGenerationJobKind
+} from "@/lib/graphics-domain/generation-jobs";
 import {
   type GenerationFailureReason,
   type GenerationLifecycleState,
@@ -20,6 +26,7 @@ import {
   isProviderFailureReason,
   resolveGenerationLifecycleState
 } from "@/lib/generation-state";
+import type { TextFitReport } from "@/lib/lockups/renderer";
 import { optionLabel } from "@/lib/option-label";
 import { prisma } from "@/lib/prisma";
 import {
@@ -71,6 +78,7 @@ type OptionDesignSpecSummary = {
   motifScope: "whole_book" | "multi_passage" | "specific_passage" | null;
   styleFamilyName: string | null;
   lockupLayout: string | null;
+  textFit: TextFitReport | null;
   motifFocus: string[];
   referenceId: string | null;
   referenceCluster: string | null;
@@ -234,6 +242,28 @@ function deriveAspectAssetsFromPreview(output: unknown): DebugAspectAssets | nul
   };
 }
 
+function parseTextFitReport(debug: unknown): TextFitReport | null {
+  if (!debug || typeof debug !== "object" || Array.isArray(debug)) {
+    return null;
+  }
+
+  const textFit = (debug as { textFit?: unknown }).textFit;
+  if (!textFit || typeof textFit !== "object" || Array.isArray(textFit)) {
+    return null;
+  }
+
+  const step = (textFit as { step?: unknown }).step;
+  const warning = (textFit as { warning?: unknown }).warning;
+  if (step !== "fit" && step !== "resized" && step !== "added_lines" && step !== "quote_card" && step !== "legibility_warning") {
+    return null;
+  }
+
+  return {
+    step,
+    warning: typeof warning === "string" && warning.trim() ? warning.trim() : null
+  };
+}
+
 function parseDebugFinalistCanonicalization(debug: unknown): DebugFinalistCanonicalization | null {
   if (!debug || typeof debug !== "object" || Array.isArray(debug)) {
     return null;
@@ -355,6 +385,7 @@ function readDesignSpecSummary(
     motifScope: null,
     styleFamilyName: null,
     lockupLayout: null,
+    textFit: null,
     motifFocus: [],
     referenceId: null,
     referenceCluster: null,
@@ -414,6 +445,7 @@ function readDesignSpecSummary(
     : null;
   const debugAspectAssets = parseDebugAspectAssets(output) || deriveAspectAssetsFromPreview(output);
   const debugFinalistCanonicalization = parseDebugFinalistCanonicalization(debugObject);
+  const textFit = parseTextFitReport(debugObject);
   const warningsCandidate = debugObject ? (debugObject as { warnings?: unknown }).warnings : null;
   const warnings = Array.isArray(warningsCandidate)
     ? warningsCandidate.filter((value): value is string => typeof value === "string" && value.trim().length > 0)
@@ -679,6 +711,7 @@ function readDesignSpecSummary(
       debugBackgroundFailureReason: isGenerationFailureReason(debugBackgroundFailureReasonCandidate) ? debugBackgroundFailureReasonCandidate : null,
       debugAspectAssets,
       debugFinalistCanonicalization,
+      textFit,
       debugWarning: debugWarning && debugWarning.trim() ? debugWarning.trim() : null,
       debugImageCalls,
       debugRateLimitWaitMs,
@@ -925,6 +958,7 @@ function readDesignSpecSummary(
     debugBackgroundFailureReason: isGenerationFailureReason(debugBackgroundFailureReasonCandidate) ? debugBackgroundFailureReasonCandidate : null,
     debugAspectAssets,
     debugFinalistCanonicalization,
+    textFit,
     debugWarning: debugWarning && debugWarning.trim() ? debugWarning.trim() : null,
     debugImageCalls,
     debugRateLimitWaitMs,
@@ -1050,7 +1084,8 @@ export default async function ProjectGenerationsPage({
 
   const generations = await prisma.generation.findMany({
     where: {
-      projectId: project.id
+      projectId: project.id,
+      shadow: false
     },
     select: {
       id: true,
@@ -1059,6 +1094,11 @@ export default async function ProjectGenerationsPage({
       output: true,
       createdAt: true,
       updatedAt: true,
+      brandKitVersion: {
+        select: {
+          version: true
+        }
+      },
       assets: {
         select: {
           kind: true,
@@ -1069,6 +1109,27 @@ export default async function ProjectGenerationsPage({
     },
     orderBy: [{ round: "desc" }, { createdAt: "asc" }]
   });
+  const recentGenerationJobs = await prisma.generationJob.findMany({
+    where: {
+      projectId: project.id,
+      kind: {
+        notIn: [...SHADOW_GENERATION_JOB_KINDS]
+      }
+    },
+    select: {
+      id: true,
+      kind: true,
+      status: true,
+      attempts: true,
+      maxAttempts: true,
+      lastError: true
+    },
+    orderBy: [{ createdAt: "desc" }],
+    take: 5
+  });
+  const activeGenerationJobs = recentGenerationJobs.filter((job) => job.status === "QUEUED" || job.status === "RUNNING");
+  const failedGenerationJob = recentGenerationJobs[0]?.status === "FAILED" ? recentGenerationJobs[0] : null;
+  const generationJobLabel = (kind: string) => (isGenerationJobKind(kind) ? GENERATION_JOB_KIND_LABELS[kind] : kind);
   const generationValidationById = new Map(
     generations.map((generation) => [
       generation.id,
@@ -1152,6 +1213,20 @@ export default async function ProjectGenerationsPage({
         </div>
       </div>
 
+      {activeGenerationJobs.map((job) => (
+        <div key={job.id} className="rounded-lg border border-sky-200 bg-sky-50 px-4 py-3 text-sm text-sky-900">
+          {job.status === "QUEUED"
+            ? `${generationJobLabel(job.kind)} is queued${job.attempts > 0 ? ` for retry ${job.attempts + 1} of ${job.maxAttempts}` : ""}. A generation worker will pick it up shortly.`
+            : `${generationJobLabel(job.kind)} is running. Refresh to see options as they settle.`}
+        </div>
+      ))}
+      {failedGenerationJob ? (
+        <div className="rounded-lg border border-rose-200 bg-rose-50 px-4 py-3 text-sm text-rose-900">
+          {generationJobLabel(failedGenerationJob.kind)} could not run
+          {failedGenerationJob.lastError ? `: ${failedGenerationJob.lastError}` : "."}
+        </div>
+      ) : null}
+
       {roundEntries.length === 0 ? (
         <div className="rounded-xl border border-dashed border-slate-300 bg-white p-8 text-center">
           <p className="text-slate-600">No generations yet. Start Round 1 from the project overview page.</p>
@@ -1186,6 +1261,8 @@ export default async function ProjectGenerationsPage({
                   ? "PARTIAL"
                   : "FAILED";
             const roundHasFallback = roundDesignSummaries.some((summary) => summary.optionStatus === "FALLBACK");
+            const roundBrandKitVersion =
+              roundGenerations.find((generation) => generation.brandKitVersion)?.brandKitVersion?.version ?? null;
             const roundNeedsRetry =
               computedRoundStatus !== "RUNNING" &&
               (computedRoundStatus === "FAILED" || roundCompletedCount < persistedRequiredCompletedCount);
@@ -1208,6 +1285,11 @@ export default async function ProjectGenerationsPage({
                   {roundIndex === 0 ? (
                     <span className="rounded-full bg-pine/10 px-2 py-0.5 text-xs font-medium text-pine">Latest</span>
                   ) : null}
+                  {roundBrandKitVersion !== null ? (
+                    <span className="rounded-full border border-slate-300 px-2 py-0.5 text-xs font-medium text-slate-600">
+                      Brand kit v{roundBrandKitVersion}
+                    </span>
+                  ) : null}
                   {computedRoundStatus === "RUNNING" ? (
                     <span className="rounded-full border border-sky-300 bg-sky-50 px-2 py-0.5 text-xs font-medium text-sky-800">
                       In progress
@@ -1239,6 +1321,20 @@ export default async function ProjectGenerationsPage({
                     Round work is still in flight. In-progress options are intentionally shown as generating instead of settled fallback failures.
                   </div>
                 ) : null}
+                {computedRoundStatus === "RUNNING" ? (
+                  <div className="grid gap-3 md:grid-cols-3">
+                    {roundGenerations.map((generation, optionIndex) =>
+                      roundDesignSummaries[optionIndex]?.optionStatus === "IN_PROGRESS" ? (
+                        <GenerationProgress
+                          key={generation.id}
+                          projectId={project.id}
+                          generationId={generation.id}
+                          optionLabel={optionLabel(optionIndex)}
+                        />
+                      ) : null
+                    )}
+                  </div>
+                ) : null}
                 {roundNeedsRetry ? (
                   <div className="flex flex-wrap items-center justify-between gap-3 rounded-lg border border-rose-200 bg-rose-50 px-3 py-2">
                     <p className="text-sm text-rose-900">
@@ -1316,6 +1412,7 @@ export default async function ProjectGenerationsPage({
                       motifScope={designSpecSummary.motifScope}
                       styleFamilyName={designSpecSummary.styleFamilyName}
                       lockupLayout={designSpecSummary.lockupLayout}
+                      textFit={designSpecSummary.textFit}
                       motifFocus={designSpecSummary.motifFocus}
                       brandMode={project.brandMode === "brand" ? "brand" : "fresh"}
                       debugReferenceId={designSpecSummary.referenceId}
@@ -1,9 +1,44 @@
 import Link from "next/link";
 import { notFound } from "next/navigation";
-import { DesignDirectionsForm } from "@/components/design-directions-form";
+import { DesignDirectionsForm, type DesignModeOption } from "@/components/design-directions-form";
+import { SeriesMarkForm } from "@/components/series-mark-form";
+import { getMotifBankContext } from "@/lib/bible-motif-bank";
 import { resolveEffectiveBrandKit } from "@/lib/brand-kit";
+import { BRAND_KIT_FIELD_LABELS } from "@/lib/brand-kit-inheritance";
 import { requireSession } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
+import { getCuratedReferences } from "@/lib/referenceCuration";
+import { DESIGN_MODES, DESIGN_MODE_META } from "@/lib/round1-v2/design-modes";
+import { getDesignModePinAvailability, readDesignModePins } from "@/lib/round1-v2/design-mode-pins";
+import { resolveRound1Engine } from "@/lib/round1-v2/orchestrator";
+import { loadResolvedDesignModeFlags } from "@/lib/round1-v2/storage";
+import { findSeriesMark } from "@/lib/series-mark-generator";
+
+const DESIGN_MODE_THUMB_COUNT = 3;
+const SERIES_MARK_IDEA_COUNT = 6;
+
+async function loadDesignModeOptions(organizationId: string, projectId: string): Promise<DesignModeOption[]> {
+  const [references, flags] = await Promise.all([
+    getCuratedReferences(),
+    loadResolvedDesignModeFlags({ organizationId, projectId })
+  ]);
+  const thumbUrlById = new Map(references.map((reference) => [reference.id, reference.thumbUrl]));
+
+  return DESIGN_MODES.map((mode) => {
+    const meta = DESIGN_MODE_META[mode];
+    const availability = getDesignModePinAvailability(mode, flags);
+    return {
+      mode,
+      label: meta.label,
+      description: meta.description,
+      thumbUrls: meta.referenceAnchors
+        .map((id) => thumbUrlById.get(id))
+        .filter((thumbUrl): thumbUrl is string => Boolean(thumbUrl))
+        .slice(0, DESIGN_MODE_THUMB_COUNT),
+      unavailable: availability === "available" ? null : availability
+    };
+  });
+}
 
 export default async function ProjectDetailPage({ params }: { params: Promise<{ id: string }> }) {
   const session = await requireSession();
@@ -16,11 +51,23 @@ export default async function ProjectDetailPage({ params }: { params: Promise<{
     },
     include: {
       brandKit: true,
+      finalDesign: {
+        select: {
+          id: true
+        }
+      },
+      _count: {
+        select: {
+          weeks: true
+        }
+      },
       generations: {
+        where: { shadow: false },
         orderBy: { createdAt: "desc" },
         take: 10
       },
       assets: {
+        where: { OR: [{ generationId: null }, { generation: { shadow: false } }] },
         orderBy: { createdAt: "desc" },
         take: 10
       }
@@ -39,6 +86,22 @@ export default async function ProjectDetailPage({ params }: { params: Promise<{
   const isBrandMode = project.brandMode === "brand";
   const showSeriesPreferences = Boolean(project.preferredAccentColors || project.avoidColors || project.designNotes);
   const showGlobalBrandKitCallout = isBrandMode && effectiveBrandKit?.source !== "organization";
+  // Design-mode pins only steer the V2 planner.
+  const designModes =
+    resolveRound1Engine(project.round1EngineOverride) === "v2"
+      ? await loadDesignModeOptions(session.organizationId, project.id)
+      : undefined;
+  const seriesMark = await findSeriesMark(project.id);
+  const markIdeas = getMotifBankContext({
+    title: project.series_title,
+    subtitle: project.series_subtitle,
+    scripturePassages: project.scripture_passages,
+    description: project.series_description,
+    designNotes: project.designNotes
+  }).markIdeaCandidates.slice(0, SERIES_MARK_IDEA_COUNT);
+  const pinnedModes = readDesignModePins(project.round1DesignModePins).filter((mode) =>
+    designModes?.some((option) => option.mode === mode && !option.unavailable)
+  );
 
   return (
     <section className="space-y-6">
@@ -115,6 +178,11 @@ export default async function ProjectDetailPage({ params }: { params: Promise<{
                 <Link href="/app/settings" className="underline">
                   {effectiveBrandKit ? "Using Church Brand Kit guidance" : "No Church Brand Kit configured"}
                 </Link>
+                {effectiveBrandKit && effectiveBrandKit.overriddenFields.length > 0
+                  ? ` (series overrides: ${effectiveBrandKit.overriddenFields
+                      .map((field) => BRAND_KIT_FIELD_LABELS[field].toLowerCase())
+                      .join(", ")})`
+                  : null}
               </li>
             ) : (
               <li>Brand Kit: Optional in fresh mode (not applied to prompts).</li>
@@ -124,6 +192,7 @@ export default async function ProjectDetailPage({ params }: { params: Promise<{
             ) : null}
             <li>Generations: {project.generations.length}</li>
             <li>Assets: {project.assets.length}</li>
+            <li>Weeks: {project._count.weeks}</li>
           </ul>
           <div className="mt-4">
             <Link
@@ -132,17 +201,40 @@ export default async function ProjectDetailPage({ params }: { params: Promise<{
             >
               Manage Church Brand Kit
             </Link>
+            {isBrandMode ? (
+              <Link
+                href={`/app/projects/${project.id}/brand`}
+                className="ml-2 inline-flex rounded-md border border-slate-300 px-3 py-1.5 text-sm text-slate-700"
+              >
+                Series Brand Kit
+              </Link>
+            ) : null}
             <Link
               href={`/app/projects/${project.id}/generations`}
               className="ml-2 inline-flex rounded-md border border-slate-300 px-3 py-1.5 text-sm text-slate-700"
             >
               View Generations
             </Link>
+            {project.finalDesign ? (
+              <Link
+                href={`/app/projects/${project.id}/weeks`}
+                className="ml-2 inline-flex rounded-md border border-slate-300 px-3 py-1.5 text-sm text-slate-700"
+              >
+                Weekly Slides
+              </Link>
+            ) : null}
           </div>
         </div>
       </div>
 
-      <DesignDirectionsForm projectId={project.id} showGlobalBrandKitCallout={showGlobalBrandKitCallout} />
+      <DesignDirectionsForm
+        projectId={project.id}
+        showGlobalBrandKitCallout={showGlobalBrandKitCallout}
+        designModes={designModes}
+        pinnedModes={pinnedModes}
+      />
+
+      <SeriesMarkForm projectId={project.id} markIdeas={markIdeas} markPath={seriesMark?.filePath || null} />
     </section>
   );
 }
@@ -0,0 +1,162 @@
+import Image from "next/image";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { deleteWeekAction } from "@/app/app/projects/week-actions";
+import { WeekForm, WeekVariantsButton } from "@/components/week-form";
+import { requireSession } from "@/lib/auth";
+import { PREVIEW_DIMENSIONS, type PreviewShape } from "@/lib/lockup-compositor";
+import { prisma } from "@/lib/prisma";
+import { toAssetUrl } from "@/lib/production-valid-option";
+import { WEEKLY_OUTPUT_SLOT_BY_SHAPE, readWeeklyTextFitWarnings } from "@/lib/weekly-variants";
+
+const WEEKLY_SLOT_LABELS: Array<{ shape: PreviewShape; slot: string; label: string }> = [
+  { shape: "wide", slot: WEEKLY_OUTPUT_SLOT_BY_SHAPE.wide, label: "Widescreen" },
+  { shape: "square", slot: WEEKLY_OUTPUT_SLOT_BY_SHAPE.square, label: "Square" },
+  { shape: "tall", slot: WEEKLY_OUTPUT_SLOT_BY_SHAPE.tall, label: "Vertical" }
+];
+
+export default async function ProjectWeeksPage({ params }: { params: Promise<{ id: string }> }) {
+  const session = await requireSession();
+  const { id } = await params;
+
+  const project = await prisma.project.findFirst({
+    where: {
+      id,
+      organizationId: session.organizationId
+    },
+    select: {
+      id: true,
+      series_title: true,
+      finalDesign: {
+        select: {
+          optionLabel: true,
+          round: true
+        }
+      },
+      weeks: {
+        orderBy: { sortOrder: "asc" },
+        select: {
+          id: true,
+          sortOrder: true,
+          week_title: true,
+          scripture_ref: true,
+          quote: true,
+          output: true,
+          assets: {
+            select: {
+              slot: true,
+              file_path: true,
+              width: true,
+              height: true
+            }
+          }
+        }
+      }
+    }
+  });
+
+  if (!project) {
+    notFound();
+  }
+
+  return (
+    <section className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <p className="text-sm text-slate-500">Weekly Slides</p>
+          <h1 className="text-2xl font-semibold">{project.series_title}</h1>
+          {project.finalDesign ? (
+            <p className="text-sm text-slate-600">
+              Built from approved {project.finalDesign.optionLabel} (round {project.finalDesign.round}).
+            </p>
+          ) : null}
+        </div>
+        <Link href={`/app/projects/${project.id}`} className="text-sm text-slate-600">
+          Back to project
+        </Link>
+      </div>
+
+      {!project.finalDesign ? (
+        <div className="rounded-xl border border-dashed border-slate-300 bg-white p-8 text-center">
+          <p className="text-slate-600">Approve a final series design on the generations page to start adding weeks.</p>
+        </div>
+      ) : (
+        <WeekForm projectId={project.id} />
+      )}
+
+      {project.weeks.length > 0 ? (
+        <div className="space-y-4">
+          {project.weeks.map((week) => {
+            const deleteAction = deleteWeekAction.bind(null, project.id, week.id);
+            const textFitWarnings = readWeeklyTextFitWarnings(week.output);
+            const overflowLabels = WEEKLY_SLOT_LABELS.filter(({ shape }) => textFitWarnings[shape]).map(({ label }) => label);
+            return (
+              <article key={week.id} className="space-y-4 rounded-xl border border-slate-200 bg-white p-5">
+                <div className="flex flex-wrap items-start justify-between gap-4">
+                  <div>
+                    <p className="text-xs font-semibold uppercase tracking-wide text-slate-500">Week {week.sortOrder}</p>
+                    <h2 className="text-base font-semibold text-slate-900">{week.week_title || "Untitled week"}</h2>
+                    {week.scripture_ref ? <p className="text-sm text-slate-600">{week.scripture_ref}</p> : null}
+                    {week.quote ? <p className="text-sm italic text-slate-600">“{week.quote}”</p> : null}
+                  </div>
+                  <div className="flex flex-wrap items-start gap-2">
+                    {project.finalDesign ? (
+                      <WeekVariantsButton projectId={project.id} weekId={week.id} hasOutput={Boolean(week.output)} />
+                    ) : null}
+                    <form action={deleteAction}>
+                      <button
+                        type="submit"
+                        className="inline-flex rounded-md border border-red-300 px-3 py-1.5 text-sm font-medium text-red-700 hover:bg-red-50"
+                      >
+                        Delete
+                      </button>
+                    </form>
+                  </div>
+                </div>
+
+                {overflowLabels.length > 0 ? (
+                  <p className="rounded-md border border-amber-200 bg-amber-50 px-3 py-2 text-xs text-amber-900">
+                    The week text is too long to fit at the minimum size on the {overflowLabels.join(", ")} slide
+                    {overflowLabels.length > 1 ? "s" : ""}, so it may run past its space. Shorten the quote or title and regenerate.
+                  </p>
+                ) : null}
+
+                {week.assets.length > 0 ? (
+                  <div className="grid gap-4 md:grid-cols-3">
+                    {WEEKLY_SLOT_LABELS.map(({ shape, slot, label }) => {
+                      const asset = week.assets.find((item) => item.slot === slot);
+                      if (!asset) {
+                        return null;
+                      }
+                      const url = toAssetUrl(asset.file_path);
+                      return (
+                        <figure key={slot} className="space-y-2">
+                          <Image
+                            src={url}
+                            alt={`${label} weekly slide`}
+                            width={asset.width ?? PREVIEW_DIMENSIONS[shape].width}
+                            height={asset.height ?? PREVIEW_DIMENSIONS[shape].height}
+                            unoptimized
+                            className="h-auto w-full rounded-md border border-slate-200"
+                          />
+                          <figcaption className="flex items-center justify-between text-xs text-slate-600">
+                            <span>{label}</span>
+                            <a href={url} download className="underline">
+                              Download PNG
+                            </a>
+                          </figcaption>
+                        </figure>
+                      );
+                    })}
+                  </div>
+                ) : (
+                  <p className="text-sm text-slate-500">No weekly slides generated yet.</p>
+                )}
+              </article>
+            );
+          })}
+        </div>
+      ) : null}
+    </section>
+  );
+}
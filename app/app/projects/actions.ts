@@ -8,6 +8,9 @@ import { revalidatePath } from "next/cache";
 import { redirect } from "next/navigation";
 import { z } from "zod";
 import { requireSession } from "@/lib/auth";
+import { getMotifBankContext } from "@/lib/bible-motif-bank";
+import { recordBrandKitVersion, resolveEffectiveBrandKit } from "@/lib/brand-kit";
+import { readBrandKitFieldModes } from "@/lib/brand-kit-inheritance";
 import { optionLabel } from "@/lib/option-label";
 import { prisma } from "@/lib/prisma";
 import {
@@ -15,6 +18,8 @@ import {
   readCanonicalDesignDocFromOutput,
   resolveProductionValidOption
 } from "@/lib/production-valid-option";
+import { recordScoutChoice } from "@/lib/round1-v2/storage";
+import { generateSeriesMark } from "@/lib/series-mark-generator";
 
 export type ProjectActionState = {
   error?: string;
@@ -24,6 +29,11 @@ export type BrandKitActionState = {
   error?: string;
 };
 
+export type SeriesMarkActionState = {
+  error?: string;
+  success?: string;
+};
+
 const createProjectSchema = z.object({
   series_title: z.string().trim().min(1),
   series_subtitle: z.string().trim().optional(),
@@ -41,12 +51,6 @@ const ALLOWED_LOGO_MIME_TYPES = new Set(["image/png", "image/jpeg", "image/svg+x
 const WEBSITE_URL_ERROR_MESSAGE =
   "Please enter a valid website URL (example: https://www.restorationmandeville.com)";
 
-const saveBrandKitSchema = z.object({
-  websiteUrl: z.string().trim().min(1, WEBSITE_URL_ERROR_MESSAGE),
-  typographyDirection: z.enum(["match_site", "graceled_defaults"]),
-  palette: z.array(z.string().regex(HEX_COLOR_REGEX, "Palette colors must be valid hex values."))
-});
-
 function normalizeWebsiteUrl(input: string): string | null {
   const trimmed = input.trim();
   if (!trimmed) {
@@ -82,6 +86,11 @@ function normalizeWebsiteUrl(input: string): string | null {
   return parsed.toString();
 }
 
+const brandKitPaletteSchema = z
+  .array(z.string().regex(HEX_COLOR_REGEX, "Palette colors must be valid hex values."))
+  .min(1, "Add at least one color to override the palette.");
+const typographyDirectionSchema = z.enum(["match_site", "graceled_defaults"]);
+
 function parsePalette(raw: FormDataEntryValue | null): string[] | null {
   if (typeof raw !== "string") {
     return null;
@@ -199,6 +208,12 @@ export async function deleteProjectAction(projectId: string): Promise<void> {
       }
     });
 
+    await tx.week.deleteMany({
+      where: {
+        projectId: project.id
+      }
+    });
+
     await tx.finalDesign.deleteMany({
       where: {
         projectId: project.id
@@ -228,6 +243,13 @@ export async function deleteProjectAction(projectId: string): Promise<void> {
   redirect("/app/projects");
 }
 
+/**
+ * Saves which brand kit fields this project overrides (palette, logo, typography) and their
+ * values. Inherited fields keep any earlier series values so switching back to override restores
+ * them. Without a Church Brand Kit the series kit stands on its own: every field, including the
+ * website URL, is the project's. Each save that changes the resolved kit adds a project brand kit
+ * version.
+ */
 export async function saveBrandKitAction(
   projectId: string,
   _: BrandKitActionState,
@@ -247,63 +269,158 @@ export async function saveBrandKitAction(
     return { error: "Project not found." };
   }
 
-  const rawPalette = parsePalette(formData.get("palette_json"));
-  if (!rawPalette) {
-    return { error: "Palette data is invalid. Please re-add your colors." };
-  }
-
-  const parsed = saveBrandKitSchema.safeParse({
-    websiteUrl: formData.get("website_url"),
-    typographyDirection: formData.get("typography_direction"),
-    palette: rawPalette
+  const organizationBrandKit = await prisma.organizationBrandKit.findUnique({
+    where: { organizationId: session.organizationId },
+    select: { websiteUrl: true, logoPath: true, paletteJson: true, typographyDirection: true }
+  });
+  const modes = organizationBrandKit
+    ? readBrandKitFieldModes({
+        paletteMode: String(formData.get("palette_mode") || ""),
+        logoMode: String(formData.get("logo_mode") || ""),
+        typographyMode: String(formData.get("typography_mode") || "")
+      })
+    : readBrandKitFieldModes({ paletteMode: "override", logoMode: "override", typographyMode: "override" });
+  const existingBrandKit = await prisma.brandKit.findUnique({
+    where: { projectId },
+    select: { websiteUrl: true, logoPath: true, paletteJson: true, typographyDirection: true }
   });
 
-  if (!parsed.success) {
-    return { error: parsed.error.issues[0]?.message || "Please correct the brand kit fields and try again." };
+  let websiteUrl = existingBrandKit?.websiteUrl || organizationBrandKit?.websiteUrl || "";
+  if (!organizationBrandKit) {
+    const normalizedWebsiteUrl = normalizeWebsiteUrl(String(formData.get("website_url") || ""));
+    if (!normalizedWebsiteUrl) {
+      return { error: WEBSITE_URL_ERROR_MESSAGE };
+    }
+    websiteUrl = normalizedWebsiteUrl;
   }
 
-  const normalizedWebsiteUrl = normalizeWebsiteUrl(parsed.data.websiteUrl);
-  if (!normalizedWebsiteUrl) {
-    return { error: WEBSITE_URL_ERROR_MESSAGE };
+  let paletteJson = existingBrandKit?.paletteJson || organizationBrandKit?.paletteJson || "[]";
+  let typographyDirection =
+    existingBrandKit?.typographyDirection || organizationBrandKit?.typographyDirection || "match_site";
+  if (modes.palette === "override") {
+    const rawPalette = parsePalette(formData.get("palette_json"));
+    if (!rawPalette) {
+      return { error: "Palette data is invalid. Please re-add your colors." };
+    }
+    const parsedPalette = brandKitPaletteSchema.safeParse(rawPalette);
+    if (!parsedPalette.success) {
+      return { error: parsedPalette.error.issues[0]?.message || "Please correct the palette and try again." };
+    }
+    paletteJson = JSON.stringify(parsedPalette.data);
+  }
+  if (modes.typography === "override") {
+    const parsedTypography = typographyDirectionSchema.safeParse(formData.get("typography_direction"));
+    if (!parsedTypography.success) {
+      return { error: "Choose a typography direction for this series." };
+    }
+    typographyDirection = parsedTypography.data;
   }
 
   const logoUpload = formData.get("logo_upload");
-  if (logoUpload && logoUpload instanceof File && logoUpload.size > 0 && !isAllowedLogoUpload(logoUpload)) {
+  const hasLogoUpload = modes.logo === "override" && logoUpload instanceof File && logoUpload.size > 0;
+  if (hasLogoUpload && !isAllowedLogoUpload(logoUpload)) {
     return { error: "Logo must be a PNG, JPG, or SVG file." };
   }
-
-  const existingBrandKit = await prisma.brandKit.findUnique({
-    where: { projectId },
-    select: { logoPath: true }
-  });
-
   let logoPath = existingBrandKit?.logoPath || null;
-  if (logoUpload && logoUpload instanceof File && logoUpload.size > 0) {
+  if (hasLogoUpload) {
     logoPath = await saveLogoUpload(logoUpload);
   }
+  if (organizationBrandKit && modes.logo === "override" && !logoPath) {
+    return { error: "Upload a logo to override the church logo." };
+  }
+  if (!organizationBrandKit && !logoPath) {
+    // The logo stays optional for a standalone series kit; leaving it unset lets a later Church Brand Kit logo through.
+    modes.logo = "inherit";
+  }
 
+  const brandKit = {
+    organizationId: session.organizationId,
+    websiteUrl,
+    logoPath,
+    paletteJson,
+    typographyDirection,
+    paletteMode: modes.palette,
+    logoMode: modes.logo,
+    typographyMode: modes.typography
+  };
   await prisma.brandKit.upsert({
     where: { projectId },
     create: {
-      organizationId: session.organizationId,
       projectId,
-      websiteUrl: normalizedWebsiteUrl,
-      logoPath,
-      paletteJson: JSON.stringify(parsed.data.palette),
-      typographyDirection: parsed.data.typographyDirection
+      ...brandKit
     },
-    update: {
-      organizationId: session.organizationId,
-      websiteUrl: normalizedWebsiteUrl,
-      logoPath,
-      paletteJson: JSON.stringify(parsed.data.palette),
-      typographyDirection: parsed.data.typographyDirection
-    }
+    update: brandKit
+  });
+
+  const effectiveBrandKit = await resolveEffectiveBrandKit({
+    organizationId: session.organizationId,
+    projectId,
+    projectBrandKit: brandKit
   });
+  if (effectiveBrandKit) {
+    await recordBrandKitVersion({ organizationId: session.organizationId, projectId, brandKit: effectiveBrandKit });
+  }
 
+  revalidatePath(`/app/projects/${projectId}`);
   redirect(`/app/projects/${projectId}`);
 }
 
+export async function generateSeriesMarkAction(
+  projectId: string,
+  _: SeriesMarkActionState,
+  formData: FormData
+): Promise<SeriesMarkActionState> {
+  const session = await requireSession();
+
+  const project = await prisma.project.findFirst({
+    where: {
+      id: projectId,
+      organizationId: session.organizationId
+    },
+    select: {
+      id: true,
+      series_title: true,
+      series_subtitle: true,
+      scripture_passages: true,
+      series_description: true,
+      designNotes: true
+    }
+  });
+
+  if (!project) {
+    return { error: "Project not found." };
+  }
+
+  const customIdea = typeof formData.get("custom_mark_idea") === "string" ? String(formData.get("custom_mark_idea")).trim() : "";
+  const pickedIdea = typeof formData.get("mark_idea") === "string" ? String(formData.get("mark_idea")).trim() : "";
+  const markIdea = (customIdea || pickedIdea).slice(0, 120);
+  if (!markIdea) {
+    return { error: "Pick a mark idea or describe your own." };
+  }
+
+  const motifBankContext = getMotifBankContext({
+    title: project.series_title,
+    subtitle: project.series_subtitle,
+    scripturePassages: project.scripture_passages,
+    description: project.series_description,
+    designNotes: project.designNotes
+  });
+  const mark = await generateSeriesMark({
+    projectId: project.id,
+    seriesTitle: project.series_title,
+    markIdea,
+    motifs: motifBankContext.motifCandidates
+  });
+
+  revalidatePath(`/app/projects/${project.id}`);
+  return {
+    success:
+      mark.source === "ai"
+        ? `Series mark created from "${markIdea}".`
+        : `Series mark created from "${markIdea}" using the built-in geometric mark.`
+  };
+}
+
 export async function approveFinalDesignAction(projectId: string, generationId: string, optionKeyRaw: string): Promise<void> {
   const session = await requireSession();
   const normalizedOptionKey = optionKeyRaw.trim().toUpperCase().slice(0, 1);
@@ -341,7 +458,8 @@ export async function approveFinalDesignAction(projectId: string, generationId:
   const generation = await prisma.generation.findFirst({
     where: {
       id: generationId,
-      projectId: project.id
+      projectId: project.id,
+      shadow: false
     },
     select: {
       id: true,
@@ -399,5 +517,15 @@ export async function approveFinalDesignAction(projectId: string, generationId:
     }
   });
 
+  try {
+    await recordScoutChoice({
+      projectId: project.id,
+      chosenGenerationId: generation.id,
+      source: "approve_final"
+    });
+  } catch (error) {
+    console.warn(`[scout-choice] record failed project=${project.id}`, error);
+  }
+
   revalidatePath(`/app/projects/${project.id}/generations`);
 }
@@ -1,4 +1,6 @@
-"use server";
+// Plain server module, not "use server": generation-actions.ts is the action boundary, and the
+// generation worker imports the run* entry points directly. Exporting them as actions would let
+// clients run a round without a session.
 
 import { createHash, randomUUID } from "crypto";
 import { mkdir, readFile, writeFile } from "fs/promises";
@@ -52,6 +54,8 @@ import {
 } from "@/lib/graphics-domain/generation";
 import { resolveClaimedGenerationExecutionTimeoutMs } from "@/lib/graphics-domain/claim-timeout";
 import { settleUnexpectedClaimedGenerationFailure } from "@/lib/graphics-domain/claimed-generation-failure-settlement";
+import { enqueueGenerationJob } from "@/lib/graphics-domain/generation-job-queue";
+import { buildGenerationJobDedupeKey } from "@/lib/graphics-domain/generation-jobs";
 import {
   acquireRoundOneLaunchSingleFlight,
   attachRoundOneLaunchGenerationIds,
@@ -85,8 +89,18 @@ import { resolveRecipeFocalPoint } from "@/lib/lockups/renderer";
 import { getOpenAI } from "@/lib/openai";
 import { buildOverlayDisplayContent, normalizeLine } from "@/lib/overlay-lines";
 import { buildSymbolDirectives, SYMBOL_ONLY_TEXT_BAN_DIRECTIVE } from "@/lib/motif-symbol-directives";
-import { resolveEffectiveBrandKit } from "@/lib/brand-kit";
+import { readBrandKitLockupFontPairing, recordBrandKitVersion, resolveEffectiveBrandKit } from "@/lib/brand-kit";
+import type { FontPairing } from "@/lib/lockups/fonts";
+import type { LockupLogo, LockupLogoVariant } from "@/lib/lockups/logo";
+import {
+  loadLockupLogoSource,
+  prepareCornerBugForBackground,
+  prepareLockupLogoForBackground,
+  type LockupLogoSource
+} from "@/lib/lockups/logo-variants";
+import { registerOrganizationFonts } from "@/lib/organization-fonts";
 import { prisma } from "@/lib/prisma";
+import { findSeriesMark } from "@/lib/series-mark-generator";
 import {
   loadIndex,
   resolveReferenceAbsolutePath,
@@ -132,6 +146,7 @@ import {
 } from "@/lib/lockup-compositor";
 import {
   ASPECT_ASSET_PLACEHOLDER_PATH_PATTERN,
+  buildProductionBlockedMessage,
   evaluateBackgroundAcceptance,
   evaluateLockupAcceptance,
   isProductionValidOption,
@@ -147,6 +162,7 @@ import {
   type ProductionValidationSnapshot,
   toPersistedProductionValidationSnapshot
 } from "@/lib/production-valid-option";
+import { loadOrganizationQuotaStatus } from "@/lib/org-quota-store";
 import { resolvePromptProfile } from "@/lib/prompt-profiles";
 import {
   detectPlannerToneFamilyIncompatibility,
@@ -157,6 +173,13 @@ import {
   type PlannerRescueState
 } from "@/lib/round1-rescue-policy";
 import { resolveRound1Engine, runRoundOneV2 } from "@/lib/round1-v2/orchestrator";
+import { recordScoutChoice } from "@/lib/round1-v2/storage";
+import { MAX_PINNED_DESIGN_MODES, readDesignModePins } from "@/lib/round1-v2/design-mode-pins";
+import {
+  readRound1V2ShadowPayload,
+  shouldSampleRound1V2Shadow,
+  type Round1V2ShadowPayload
+} from "@/lib/round1-v2/shadow";
 
 export type GenerationActionState = {
   error?: string;
@@ -182,6 +205,7 @@ const generateRoundTwoSchema = z.object({
   regenerateBackground: z.boolean().optional(),
   styleDirection: z.unknown().optional()
 });
+type GenerateRoundTwoRequest = z.infer<typeof generateRoundTwoSchema>;
 const ROUND_OPTION_COUNT = 3;
 const ROUND1_NON_FALLBACK_MAX_ATTEMPTS = 8;
 const FINALIST_ASPECT_RECOVERY_LIMIT = 2;
@@ -3117,6 +3141,9 @@ async function renderValidatedLockupPng(params: {
   lockupPresetId?: string | null;
   styleFamily: StyleFamily;
   fontSeed: string;
+  fontPairing?: FontPairing | null;
+  fontScope?: string | null;
+  logo?: LockupLogo | null;
   lockupPrompt: string;
 }): Promise<{
   renderResult: { png: Buffer; width: number; height: number };
@@ -3151,6 +3178,9 @@ async function renderValidatedLockupPng(params: {
       lockupPresetId: lockupPresetIdForAttempt,
       styleFamily: params.styleFamily,
       fontSeed: params.fontSeed,
+      fontPairing: params.fontPairing,
+      fontScope: params.fontScope,
+      logo: params.logo,
       // Keep lockup generation text-only; integration treatment is applied in compositor.
       integrationMode: "NONE"
     });
@@ -3788,6 +3818,7 @@ function pickAssetPathBySlots(
 async function loadReusableAssetsFromGeneration(params: {
   projectId: string;
   generationId: string;
+  fontScope?: string | null;
 }): Promise<ReusableGenerationAssets | null> {
   const generation = await prisma.generation.findFirst({
     where: {
@@ -3841,7 +3872,8 @@ async function loadReusableAssetsFromGeneration(params: {
           : (async () => {
               const lockupSvg = await buildFinalSvg(reusableDesignDoc, {
                 includeBackground: false,
-                includeImages: false
+                includeImages: false,
+                fontScope: params.fontScope
               });
               const lockupResult = await renderTrimmedLockupPngFromSvg(lockupSvg);
               return lockupResult.png;
@@ -4689,7 +4721,8 @@ function deriveRecentStyleBuckets(recentStyleFamilies: readonly StyleFamilyKey[]
 async function loadRecentProjectMotifs(projectId: string): Promise<string[]> {
   const recentGenerations = await prisma.generation.findMany({
     where: {
-      projectId
+      projectId,
+      shadow: false
     },
     orderBy: [{ round: "desc" }, { createdAt: "desc" }],
     take: 12,
@@ -4736,7 +4769,8 @@ async function loadRecentStyleFamilies(params: {
   const [projectGenerations, organizationGenerations] = await Promise.all([
     prisma.generation.findMany({
       where: {
-        projectId: params.projectId
+        projectId: params.projectId,
+        shadow: false
       },
       orderBy: [{ round: "desc" }, { createdAt: "desc" }],
       take: 24,
@@ -4752,7 +4786,8 @@ async function loadRecentStyleFamilies(params: {
           id: {
             not: params.projectId
           }
-        }
+        },
+        shadow: false
       },
       orderBy: [{ createdAt: "desc" }],
       take: 60,
@@ -4800,7 +4835,8 @@ async function loadRecentReferenceIds(params: {
   const [projectGenerations, organizationGenerations] = await Promise.all([
     prisma.generation.findMany({
       where: {
-        projectId: params.projectId
+        projectId: params.projectId,
+        shadow: false
       },
       orderBy: [{ round: "desc" }, { createdAt: "desc" }],
       take: 40,
@@ -4816,7 +4852,8 @@ async function loadRecentReferenceIds(params: {
           id: {
             not: params.projectId
           }
-        }
+        },
+        shadow: false
       },
       orderBy: [{ createdAt: "desc" }],
       take: 100,
@@ -4851,7 +4888,8 @@ async function loadRecentLockupRecipeIds(params: {
   const [projectGenerations, organizationGenerations] = await Promise.all([
     prisma.generation.findMany({
       where: {
-        projectId: params.projectId
+        projectId: params.projectId,
+        shadow: false
       },
       orderBy: [{ round: "desc" }, { createdAt: "desc" }],
       take: 24,
@@ -4867,7 +4905,8 @@ async function loadRecentLockupRecipeIds(params: {
           id: {
             not: params.projectId
           }
-        }
+        },
+        shadow: false
       },
       orderBy: [{ createdAt: "desc" }],
       take: 60,
@@ -4905,7 +4944,8 @@ async function loadRecentExplorationSetKeys(params: {
   const target = Math.max(1, Math.min(params.limit || 8, 20));
   const recentGenerations = await prisma.generation.findMany({
     where: {
-      projectId: params.projectId
+      projectId: params.projectId,
+      shadow: false
     },
     orderBy: [{ round: "desc" }, { createdAt: "desc" }],
     take: 24,
@@ -6088,6 +6128,7 @@ type GenerationProjectContext = {
     paletteJson: string;
     logoPath: string | null;
     typographyDirection: "match_site" | "graceled_defaults";
+    fontPairingJson?: string | null;
     source: "organization" | "project" | "project_fallback";
   } | null;
 };
@@ -6210,6 +6251,7 @@ type FinalistCanonicalizationResult = {
   aspectRecoveryReasonsByShape: Record<PreviewShape, string[]>;
   canonicalAssetPathsByShape: Record<PreviewShape, string | null>;
   canonicalizationFailureReasons: string[];
+  cornerBugVariantsByShape: Record<PreviewShape, LockupLogoVariant | null>;
 };
 
 type TextScrubDebug = {
@@ -6761,7 +6803,10 @@ async function getProjectForGeneration(projectId: string, organizationId: string
           websiteUrl: true,
           typographyDirection: true,
           paletteJson: true,
-          logoPath: true
+          logoPath: true,
+          paletteMode: true,
+          logoMode: true,
+          typographyMode: true
         }
       }
     }
@@ -6780,11 +6825,19 @@ async function getProjectForGeneration(projectId: string, organizationId: string
           projectBrandKit: project.brandKit
         })
       : null;
+  // Uploaded fonts belong to the organization whichever kit is in effect; registering also refreshes
+  // this process (often the worker) with fonts uploaded since it last loaded them.
+  await registerOrganizationFonts(organizationId);
+  // New generations point at this version, so later brand kit edits don't change how they re-render.
+  const brandKitVersion = effectiveBrandKit
+    ? await recordBrandKitVersion({ organizationId, projectId: project.id, brandKit: effectiveBrandKit })
+    : null;
 
   return {
     ...project,
     brandMode,
-    brandKit: effectiveBrandKit
+    brandKit: effectiveBrandKit,
+    brandKitVersionId: brandKitVersion?.id || null
   };
 }
 
@@ -8321,11 +8374,12 @@ async function renderCompositedPreviewPng(
   designDoc: DesignDoc,
   options: {
     renderDebugGuides?: boolean;
+    fontScope?: string | null;
   } = {}
 ): Promise<Buffer> {
   const renderDebugGuides = options.renderDebugGuides ?? false;
   void renderDebugGuides;
-  const svg = await buildFinalSvg(designDoc);
+  const svg = await buildFinalSvg(designDoc, { fontScope: options.fontScope });
   return sharp(Buffer.from(svg))
     .resize({
       width: designDoc.width,
@@ -8456,6 +8510,18 @@ function formatCanonicalizationStatusReason(shape: PreviewShape, status: AspectA
   return `${shapeLabel} canonical asset status=${status} after ${attemptLabel}`;
 }
 
+function formatLockupLogoTrace(
+  lockupRecipe: LockupRecipe,
+  lockupVariant: LockupLogoVariant | null,
+  cornerBugVariantsByShape: Record<PreviewShape, LockupLogoVariant | null>
+): string {
+  const placement = lockupRecipe.logo?.placement || "corner_bug";
+  if (placement !== "corner_bug") {
+    return `${placement} ${lockupVariant || "none"}`;
+  }
+  return `corner_bug ${PREVIEW_SHAPES.map((shape) => `${shape}=${cornerBugVariantsByShape[shape] || "skipped"}`).join(" ")}`;
+}
+
 async function ensureCanonicalFinalistOutputs(params: {
   generationId: string;
   optionIndex: number;
@@ -8468,12 +8534,25 @@ async function ensureCanonicalFinalistOutputs(params: {
   lockupRecipe: LockupRecipe;
   lockupPresetId?: string | null;
   fontSeed: string;
+  fontPairing?: FontPairing | null;
   lockupIntegrationMode: LockupIntegrationMode;
   directionSpec: PlannedDirectionSpec | null;
   masterBackgroundPng: Buffer;
   lockupPng: Buffer;
   resolvedLockupPalette: ResolvedLockupPalette;
+  logoSource?: LockupLogoSource | null;
+  /** The logo variant rendered into the lockup; stacked and inline placements only. */
+  lockupLogo?: LockupLogo | null;
 }): Promise<FinalistCanonicalizationResult> {
+  // Design docs place the logo the way the rendered lockup did, so exports keep it.
+  const logoPlacement = params.lockupRecipe.logo?.placement || "corner_bug";
+  const designDocBrief: TemplateBrief = {
+    ...params.templateBrief,
+    lockupRecipe: {
+      ...(params.templateBrief.lockupRecipe || params.lockupRecipe),
+      logo: params.lockupRecipe.logo
+    }
+  };
   const createFallbackDesignDoc = (shape: PreviewShape): DesignDoc =>
     renderTemplate(params.optionStyleFamily, params.templateBrief, params.optionIndex, shape, {
       backgroundImagePath: null,
@@ -8507,6 +8586,11 @@ async function ensureCanonicalFinalistOutputs(params: {
     wide: [],
     tall: []
   };
+  const cornerBugVariantsByShape: Record<PreviewShape, LockupLogoVariant | null> = {
+    square: null,
+    wide: null,
+    tall: null
+  };
 
   const renderShape = async (shape: PreviewShape, recoveryAttempt: number): Promise<void> => {
     const dimensions = PREVIEW_DIMENSIONS[shape];
@@ -8521,7 +8605,8 @@ async function ensureCanonicalFinalistOutputs(params: {
       lockupRecipe: params.lockupRecipe,
       lockupPresetId: params.lockupPresetId,
       styleFamily: params.optionStyleFamily,
-      fontSeed: params.fontSeed
+      fontSeed: params.fontSeed,
+      fontPairing: params.fontPairing
     });
     const textPalette = await chooseTextPaletteForBackground({
       backgroundPng,
@@ -8541,6 +8626,16 @@ async function ensureCanonicalFinalistOutputs(params: {
           : selectedVariationTemplate.typeRegion === "center" || selectedVariationTemplate.overlayAnchor === "center"
             ? "center"
             : "left";
+    const cornerBug = await prepareCornerBugForBackground({
+      source: params.logoSource,
+      lockupRecipe: params.lockupRecipe,
+      backgroundPng,
+      shape,
+      width: dimensions.width,
+      height: dimensions.height,
+      safeRegion: shapeSafeBox
+    });
+    cornerBugVariantsByShape[shape] = cornerBug?.variant || null;
     const finalPng = await composeLockupOnBackground({
       backgroundPng,
       lockupPng: params.lockupPng,
@@ -8550,7 +8645,8 @@ async function ensureCanonicalFinalistOutputs(params: {
       align: templateAlign || titleBlock?.align || "left",
       integrationMode: params.lockupIntegrationMode,
       safeRegionOverride: shapeSafeBox,
-      renderDebugGuides: false
+      renderDebugGuides: false,
+      cornerBug
     });
     const recoverySuffix = recoveryAttempt > 0 ? `-recovery-${recoveryAttempt}` : "";
     const backgroundPath = await writeGenerationPreviewFiles({
@@ -8565,9 +8661,11 @@ async function ensureCanonicalFinalistOutputs(params: {
     byShape[shape] = {
       backgroundPath,
       finalPath,
-      designDoc: renderTemplate(params.optionStyleFamily, params.templateBrief, params.optionIndex, shape, {
+      designDoc: renderTemplate(params.optionStyleFamily, designDocBrief, params.optionIndex, shape, {
         backgroundImagePath: backgroundPath,
-        textPalette
+        textPalette,
+        logo: logoPlacement === "corner_bug" ? null : params.lockupLogo,
+        logoLayout: cornerBug?.layout || null
       })
     };
   };
@@ -8646,7 +8744,8 @@ async function ensureCanonicalFinalistOutputs(params: {
     aspectRecoveryAttemptsByShape,
     aspectRecoveryReasonsByShape,
     canonicalAssetPathsByShape,
-    canonicalizationFailureReasons
+    canonicalizationFailureReasons,
+    cornerBugVariantsByShape
   };
 }
 
@@ -9019,23 +9118,29 @@ async function completeGenerationWithFallbackOutput(params: {
   failureReason?: BackgroundAttemptFailureReason;
   providerPreflight?: ImageProviderPreflightResult | null;
   attemptOwner?: GenerationAttemptOwner | null;
+  /** Organization whose uploaded fonts the lockup may use. */
+  fontScope?: string | null;
 }): Promise<GenerationOptionStatus> {
   const designDocByShape = params.output.designDocByShape;
   const [squarePng, widePng, tallPng, lockupResult] = await Promise.all([
     renderCompositedPreviewPng(designDocByShape.square, {
-      renderDebugGuides: false
+      renderDebugGuides: false,
+      fontScope: params.fontScope
     }),
     renderCompositedPreviewPng(designDocByShape.wide, {
-      renderDebugGuides: false
+      renderDebugGuides: false,
+      fontScope: params.fontScope
     }),
     renderCompositedPreviewPng(designDocByShape.tall, {
-      renderDebugGuides: false
+      renderDebugGuides: false,
+      fontScope: params.fontScope
     }),
     (async () =>
       renderTrimmedLockupPngFromSvg(
         await buildFinalSvg(designDocByShape.wide, {
           includeBackground: false,
-          includeImages: false
+          includeImages: false,
+          fontScope: params.fontScope
         })
       ))()
   ]);
@@ -9182,6 +9287,7 @@ function readTerminalGenerationOutputStatus(output: Prisma.JsonValue | null): Ex
 
 async function reconcileRoundOneAuthoritativeSettlement(params: {
   projectId: string;
+  organizationId: string;
   lease: Parameters<typeof finalizeRoundOneAuthoritativeSettlement>[0]["lease"];
   plannedGenerations: PlannedGeneration[];
   results: PlannedGenerationRunResult[];
@@ -9246,6 +9352,7 @@ async function reconcileRoundOneAuthoritativeSettlement(params: {
         projectId: params.projectId,
         generationId: plannedGeneration.id,
         output: plannedGeneration.fallbackOutput,
+        fontScope: params.organizationId,
         failureReason: roundResult?.failureReason || "UNKNOWN",
         providerPreflight: params.providerPreflight
       });
@@ -9515,6 +9622,7 @@ async function persistFinalRoundOutcome(params: {
 
 async function abortRoundForProviderFailure(params: {
   projectId: string;
+  organizationId: string;
   plannedGenerations: PlannedGeneration[];
   providerPreflight: ImageProviderPreflightResult;
 }): Promise<PlannedGenerationRunResult[]> {
@@ -9525,6 +9633,7 @@ async function abortRoundForProviderFailure(params: {
         projectId: params.projectId,
         generationId: plannedGeneration.id,
         output: plannedGeneration.fallbackOutput,
+        fontScope: params.organizationId,
         failureReason,
         providerPreflight: params.providerPreflight
       });
@@ -9602,6 +9711,13 @@ async function createOpenAiPreviewAssetsForPlannedGenerations(params: {
       params.project.brandMode === "brand" && params.project.brandKit?.source === "organization"
         ? params.project.brandKit.typographyDirection
         : null;
+    // Fonts extracted from the church's site snapshot replace the seeded lockup pairing under match_site.
+    const brandLockupFontPairing = organizationTypographyDirection
+      ? readBrandKitLockupFontPairing(params.project.brandKit, params.organizationId)
+      : null;
+    const brandLogoSource =
+      params.project.brandMode === "brand" ? await loadLockupLogoSource(params.project.brandKit?.logoPath) : null;
+    const seriesMarkSource = await loadLockupLogoSource((await findSeriesMark(params.project.id))?.filePath);
     const round1SelectedVariationTemplateUsage = new Map<string, number>();
     let round1SelectedDefaultBiasCount = 0;
     const layoutDiversityPenaltyForTemplate = (round: number, templateKey: string | null): number => {
@@ -9642,6 +9758,7 @@ async function createOpenAiPreviewAssetsForPlannedGenerations(params: {
           projectId: params.project.id,
           generationId: plannedGeneration.id,
           output: fallbackOutput,
+          fontScope: params.organizationId,
           failureReason: "PROVIDER_AUTH_OR_CONFIG_ERROR",
           providerPreflight: params.providerPreflight,
           attemptOwner: plannedGeneration.attemptOwner
@@ -9902,7 +10019,8 @@ async function createOpenAiPreviewAssetsForPlannedGenerations(params: {
             feedbackControls.chosenGenerationId,
             await loadReusableAssetsFromGeneration({
               projectId: params.project.id,
-              generationId: feedbackControls.chosenGenerationId
+              generationId: feedbackControls.chosenGenerationId,
+              fontScope: params.organizationId
             })
           );
         }
@@ -11311,6 +11429,7 @@ async function createOpenAiPreviewAssetsForPlannedGenerations(params: {
           projectId: params.project.id,
           generationId: plannedGeneration.id,
           output: fallbackOutput,
+          fontScope: params.organizationId,
           backgroundValidation: fallbackParams.backgroundValidation || null,
           failureReason: resolvedFailureReason,
           providerPreflight: params.providerPreflight,
@@ -11438,7 +11557,8 @@ async function createOpenAiPreviewAssetsForPlannedGenerations(params: {
         lockupRecipe: lockupRecipeForRender,
         lockupPresetId,
         styleFamily: optionStyleFamily,
-        fontSeed: fontSeedBase
+        fontSeed: fontSeedBase,
+        fontPairing: brandLockupFontPairing
       });
       const resolvedLockupPalette =
         designBrief.resolvedLockupPalette ||
@@ -11459,6 +11579,22 @@ async function createOpenAiPreviewAssetsForPlannedGenerations(params: {
         ...lockupPaletteForMaster,
         autoScrim: false
       };
+      // Directions that call for a series mark stack the project's mark above the title in place of the church logo.
+      const usesSeriesMark = Boolean(seriesMarkSource) && (backgroundDirectionSpec || directionSpec)?.wantsSeriesMark === true;
+      const lockupLogoSource = usesSeriesMark ? seriesMarkSource : brandLogoSource;
+      if (usesSeriesMark && !lockupRecipeForRender.logo) {
+        lockupRecipeForRender = { ...lockupRecipeForRender, logo: { placement: "stacked_above_title" } };
+      }
+      // Stacked and inline logos render inside the lockup, so their variant follows the master text region.
+      const lockupLogoForRender = lockupLogoSource
+        ? await prepareLockupLogoForBackground({
+            source: lockupLogoSource,
+            backgroundPng: masterAttempt.backgroundPng,
+            sampleRegion: masterLayout.textRegion,
+            width: masterDimensions.width,
+            height: masterDimensions.height
+          })
+        : null;
       const renderLockupAttempt = async (fontSeed: string) => {
         imageCallSummary.byStage.lockup += 1;
         return renderValidatedLockupPng({
@@ -11470,6 +11606,9 @@ async function createOpenAiPreviewAssetsForPlannedGenerations(params: {
           lockupPresetId,
           styleFamily: optionStyleFamily,
           fontSeed,
+          fontPairing: brandLockupFontPairing,
+          fontScope: params.organizationId,
+          logo: lockupLogoForRender?.logo,
           lockupPrompt
         });
       };
@@ -11584,6 +11723,9 @@ async function createOpenAiPreviewAssetsForPlannedGenerations(params: {
                   lockupPresetId,
                   styleFamily: optionStyleFamily,
                   fontSeed: `${fontSeedBase}|lockup-compact`,
+                  fontPairing: brandLockupFontPairing,
+                  fontScope: params.organizationId,
+                  logo: lockupLogoForRender?.logo,
                   lockupPrompt
                 });
                 const compactFit = evaluateLockupFit({
@@ -11658,6 +11800,9 @@ async function createOpenAiPreviewAssetsForPlannedGenerations(params: {
                   lockupPresetId,
                   styleFamily: optionStyleFamily,
                   fontSeed: `${fontSeedBase}|lockup-compact`,
+                  fontPairing: brandLockupFontPairing,
+                  fontScope: params.organizationId,
+                  logo: lockupLogoForRender?.logo,
                   lockupPrompt
                 });
                 const compactFit = evaluateLockupFit({
@@ -11718,11 +11863,14 @@ async function createOpenAiPreviewAssetsForPlannedGenerations(params: {
         lockupRecipe: lockupRecipeForRender,
         lockupPresetId,
         fontSeed: fontSeedBase,
+        fontPairing: brandLockupFontPairing,
         lockupIntegrationMode,
         directionSpec: finalDirectionSpec,
         masterBackgroundPng: masterAttempt.backgroundPng,
         lockupPng: lockupPngForComposite,
-        resolvedLockupPalette
+        resolvedLockupPalette,
+        logoSource: lockupLogoSource,
+        lockupLogo: lockupLogoForRender?.logo || null
       });
       const aspectRecoverySummary = PREVIEW_SHAPES.flatMap((shape) => {
         const attempts = finalistCanonicalization.aspectRecoveryAttemptsByShape[shape];
@@ -11750,6 +11898,9 @@ async function createOpenAiPreviewAssetsForPlannedGenerations(params: {
         `[lockup-style-mode: ${lockupStyleMode}]`,
         `[lockup-layout: ${lockupLayout}]`,
         `[lockup-integration: ${lockupIntegrationMode}]`,
+        lockupLogoSource
+          ? `[${usesSeriesMark ? "series-mark" : "logo"}: ${formatLockupLogoTrace(lockupRecipeForRender, lockupLogoForRender?.logo.variant || null, finalistCanonicalization.cornerBugVariantsByShape)}]`
+          : "",
         `[title-integration-mode: ${resolveDesignSpecTitleIntegrationMode({
           designSpec: activeDesignSpec,
           directionSpec: finalDirectionSpec
@@ -12027,6 +12178,7 @@ async function createOpenAiPreviewAssetsForPlannedGenerations(params: {
             lockupTextValidation,
             lockupTextOverrideRetried,
             resolvedLockupPalette,
+            textFit: masterLayout.textFit,
             lockupAssetPath: lockupPath,
             paletteComplianceScore: masterAttempt.paletteComplianceScore,
             reusedBackgroundFromGenerationId:
@@ -12296,7 +12448,7 @@ async function createOpenAiPreviewAssetsForPlannedGenerations(params: {
 export async function generateRoundOneAction(
   projectId: string,
   _: GenerationActionState,
-  _formData: FormData
+  formData: FormData
 ): Promise<GenerationActionState> {
   const session = await requireSession();
 
@@ -12305,20 +12457,125 @@ export async function generateRoundOneAction(
     return { error: "Project not found." };
   }
 
+  // Only the V2 form renders the design-mode picker; without it the stored pins stay as they are.
+  const hasDesignModePicker = formData.has("design_mode_picker");
+  const pinnedModes = readDesignModePins(formData.getAll("pinned_mode"));
+  if (hasDesignModePicker && formData.getAll("pinned_mode").length > MAX_PINNED_DESIGN_MODES) {
+    return { error: `Pin up to ${MAX_PINNED_DESIGN_MODES} design modes.` };
+  }
+
+  const quotaStatus = await loadOrganizationQuotaStatus({ db: prisma, organizationId: session.organizationId });
+  if (quotaStatus.blockingReasons.length > 0) {
+    return { error: buildProductionBlockedMessage("Round 1", quotaStatus.blockingReasons) };
+  }
+
+  if (hasDesignModePicker) {
+    await prisma.project.update({
+      where: { id: project.id },
+      data: { round1DesignModePins: pinnedModes.length > 0 ? pinnedModes : Prisma.DbNull }
+    });
+  }
+
+  await enqueueGenerationJob({
+    prisma,
+    kind: "ROUND_ONE",
+    projectId: project.id,
+    organizationId: session.organizationId,
+    dedupeKey: buildGenerationJobDedupeKey({ kind: "ROUND_ONE", projectId: project.id, round: 1 })
+  });
+  redirect(`/app/projects/${projectId}/generations`);
+}
+
+/**
+ * Queues a shadow V2 run for a sampled share of V1 Round 1 launches. Best-effort: a failed enqueue
+ * is logged and never surfaces to the user.
+ */
+async function enqueueRoundOneV2ShadowIfSampled(params: {
+  projectId: string;
+  organizationId: string;
+  v1GenerationIds: string[];
+}): Promise<void> {
+  if (params.v1GenerationIds.length === 0 || !shouldSampleRound1V2Shadow()) {
+    return;
+  }
+
+  try {
+    const payload: Round1V2ShadowPayload = { v1GenerationIds: params.v1GenerationIds };
+    await enqueueGenerationJob({
+      prisma,
+      kind: "ROUND_ONE_V2_SHADOW",
+      projectId: params.projectId,
+      organizationId: params.organizationId,
+      dedupeKey: buildGenerationJobDedupeKey({ kind: "ROUND_ONE_V2_SHADOW", projectId: params.projectId, round: 1 }),
+      payload: payload as unknown as Prisma.InputJsonValue,
+      // A retry would start a second shadow run and double the provider spend.
+      maxAttempts: 1
+    });
+    console.log(`[round1-v2-shadow] queued project=${params.projectId} v1=${params.v1GenerationIds.join(",")}`);
+  } catch (error) {
+    console.warn(`[round1-v2-shadow] enqueue failed project=${params.projectId}`, error);
+  }
+}
+
+/**
+ * Executes a shadow V2 run queued by enqueueRoundOneV2ShadowIfSampled. Called by the generation worker.
+ */
+export async function runRoundOneV2ShadowGeneration(params: {
+  projectId: string;
+  payload: unknown;
+  signal?: AbortSignal;
+}): Promise<GenerationActionState> {
+  const shadow = readRound1V2ShadowPayload(params.payload);
+  if (!shadow) {
+    return { error: "Invalid shadow payload." };
+  }
+  return runRoundOneV2(params.projectId, { shadow, signal: params.signal });
+}
+
+/**
+ * Executes a queued Round 1 launch. Called by the generation worker, never from a request, so
+ * the organization comes from the job row instead of a session. The quota is re-checked inside
+ * the single-flight transaction because usage may have moved while the job was queued. The job id
+ * keys the launch, so a worker reclaiming a dead worker's job fails that worker's leftover rows and
+ * relaunches. An aborted signal (the worker lost the job's lease) stops the round without touching
+ * the launch marker, which now belongs to the worker holding the lease.
+ */
+export async function runRoundOneGeneration(params: {
+  projectId: string;
+  organizationId: string;
+  jobId?: string;
+  signal?: AbortSignal;
+}): Promise<GenerationActionState> {
+  const { projectId, organizationId } = params;
+  const project = await getProjectForGeneration(projectId, organizationId);
+  if (!project) {
+    return { error: "Project not found." };
+  }
+
   const brandKit = project.brandKit;
-  const roundOneLaunchTarget = `/app/projects/${projectId}/generations`;
   const roundOneLaunchState = await acquireRoundOneLaunchSingleFlight({
     prisma,
-    projectId: project.id
+    projectId: project.id,
+    launchKey: params.jobId,
+    checkQuota: async (tx) => (await loadOrganizationQuotaStatus({ db: tx, organizationId })).blockingReasons
   });
   if (roundOneLaunchState.kind === "duplicate") {
-    redirect(roundOneLaunchTarget);
+    return {};
+  }
+  if (roundOneLaunchState.kind === "quota_blocked") {
+    return { error: buildProductionBlockedMessage("Round 1", roundOneLaunchState.reasons) };
+  }
+  if (roundOneLaunchState.reclaimedGenerationIds.length > 0) {
+    console.warn(
+      `[round1-single-flight] resuming launch project=${project.id} failed_leftovers=${roundOneLaunchState.reclaimedGenerationIds.join(",")}`
+    );
   }
   const roundOneLaunchLease = roundOneLaunchState.lease;
   let roundOneLaunchGenerationIds: string[] = [];
   let roundOneLaunchReleased = false;
   const releaseRoundOneLaunch = async (terminalStatus: "COMPLETED" | "FAILED", note?: string | null): Promise<void> => {
-    if (roundOneLaunchReleased) {
+    // After losing the job lease the launch belongs to the worker that reclaimed the job.
+    if (roundOneLaunchReleased || params.signal?.aborted) {
       return;
     }
 
@@ -12342,10 +12599,10 @@ export async function generateRoundOneAction(
 
   try {
     if (resolveRound1Engine(project.round1EngineOverride) === "v2") {
-      return await runRoundOneV2(projectId);
+      return await runRoundOneV2(projectId, { signal: params.signal });
     }
 
-    const enabledPresets = await findEnabledPresetsForOrganization(session.organizationId);
+    const enabledPresets = await findEnabledPresetsForOrganization(organizationId);
     const presetIdByKey = new Map(enabledPresets.map((preset) => [preset.key, preset.id] as const));
     const runSeed = randomUUID();
     const seriesMarkRequested = shouldRequestSeriesMarkFromNotes([project.designNotes]);
@@ -12362,13 +12619,13 @@ export async function generateRoundOneAction(
       await Promise.all([
         loadRecentProjectMotifs(project.id),
         loadRecentStyleFamilies({
-          organizationId: session.organizationId,
+          organizationId,
           projectId: project.id,
           limit: 20
         }),
         explorationMode
           ? loadRecentLockupRecipeIds({
-              organizationId: session.organizationId,
+              organizationId,
               projectId: project.id,
               limit: 20
             })
@@ -12381,7 +12638,7 @@ export async function generateRoundOneAction(
           : Promise.resolve([]),
         explorationMode
           ? loadRecentReferenceIds({
-              organizationId: session.organizationId,
+              organizationId,
               projectId: project.id,
               projectLimit: 12,
               globalLimit: 30
@@ -12517,7 +12774,8 @@ export async function generateRoundOneAction(
             presetId: generationPresetId,
             round: 1,
             status: "QUEUED",
-            input: generationInput
+            input: generationInput,
+            brandKitVersionId: project.brandKitVersionId
           }
         })
       )
@@ -12536,11 +12794,12 @@ export async function generateRoundOneAction(
     if (!providerPreflight.ok) {
       await abortRoundForProviderFailure({
         projectId: project.id,
+        organizationId,
         plannedGenerations,
         providerPreflight
       });
       await releaseRoundOneLaunch("FAILED", "provider_preflight_aborted");
-      redirect(roundOneLaunchTarget);
+      return {};
     }
     const firstAttemptGenerations = await claimPlannedGenerationAttempts({
       plannedGenerations,
@@ -12562,7 +12821,7 @@ export async function generateRoundOneAction(
       plannedGenerations.filter((generation) => optionResultByGenerationId.get(generation.id)?.optionStatus === "COMPLETED").length;
 
     const firstAttemptResults = await createOpenAiPreviewAssetsForPlannedGenerations({
-      organizationId: session.organizationId,
+      organizationId,
       project,
       plannedGenerations: firstAttemptGenerations,
       providerPreflight,
@@ -12578,6 +12837,7 @@ export async function generateRoundOneAction(
     if (shouldEnforceRound1NonFallbackRequirement) {
       while (
         !hardStopFailureReason &&
+        !params.signal?.aborted &&
         countCompleted() < ROUND_OPTION_COUNT &&
         totalRoundAttemptCount < ROUND1_NON_FALLBACK_MAX_ATTEMPTS
       ) {
@@ -12603,7 +12863,7 @@ export async function generateRoundOneAction(
           mode: "retry"
         });
         const retryResults = await createOpenAiPreviewAssetsForPlannedGenerations({
-          organizationId: session.organizationId,
+          organizationId,
           project,
           plannedGenerations: claimedRetryBatch,
           providerPreflight,
@@ -12622,6 +12882,10 @@ export async function generateRoundOneAction(
       }
     }
 
+    if (params.signal?.aborted) {
+      return {};
+    }
+
     const finalResults = plannedGenerations.map((generation) => {
       const known = optionResultByGenerationId.get(generation.id);
       return (
@@ -12634,6 +12898,7 @@ export async function generateRoundOneAction(
     });
     const authoritativeSettlement = await reconcileRoundOneAuthoritativeSettlement({
       projectId: project.id,
+      organizationId,
       lease: roundOneLaunchLease,
       plannedGenerations,
       results: finalResults,
@@ -12649,7 +12914,12 @@ export async function generateRoundOneAction(
         "round_authoritative_settlement_retry"
       );
     }
-    redirect(roundOneLaunchTarget);
+    await enqueueRoundOneV2ShadowIfSampled({
+      projectId: project.id,
+      organizationId,
+      v1GenerationIds: roundOneLaunchGenerationIds
+    });
+    return {};
   } catch (error) {
     if (!roundOneLaunchReleased) {
       await releaseRoundOneLaunch("FAILED", summarizeRoundOneLaunchError(error));
@@ -12658,6 +12928,45 @@ export async function generateRoundOneAction(
   }
 }
 
+async function loadRoundTwoChosenGeneration(projectId: string, request: GenerateRoundTwoRequest) {
+  const chosenGenerationId = request.chosenGenerationId || null;
+  const chosenGeneration = chosenGenerationId
+    ? await prisma.generation.findFirst({
+        where: {
+          id: chosenGenerationId,
+          projectId,
+          shadow: false
+        },
+        select: {
+          id: true,
+          round: true,
+          status: true,
+          input: true,
+          output: true
+        }
+      })
+    : null;
+
+  if (chosenGenerationId && !chosenGeneration) {
+    return { error: "Selected direction was not found for this project." } as const;
+  }
+
+  if (chosenGeneration && chosenGeneration.round !== request.currentRound) {
+    return { error: "Selected direction must come from the current round." } as const;
+  }
+  if (
+    chosenGeneration &&
+    resolveGenerationOptionStatus({
+      output: chosenGeneration.output,
+      dbStatus: chosenGeneration.status
+    }) !== "COMPLETED"
+  ) {
+    return { error: "Selected direction is not eligible for refinement. Retry generation and choose a completed option." } as const;
+  }
+
+  return { chosenGenerationId, chosenGeneration } as const;
+}
+
 export async function generateRoundTwoAction(
   projectId: string,
   _: RoundFeedbackActionState,
@@ -12670,7 +12979,10 @@ export async function generateRoundTwoAction(
     return { error: "Project not found." };
   }
 
-  const brandKit = project.brandKit;
+  const quotaStatus = await loadOrganizationQuotaStatus({ db: prisma, organizationId: session.organizationId });
+  if (quotaStatus.blockingReasons.length > 0) {
+    return { error: buildProductionBlockedMessage("Round 2", quotaStatus.blockingReasons) };
+  }
 
   const parsed = generateRoundTwoSchema.safeParse({
     currentRound: formData.get("currentRound"),
@@ -12689,46 +13001,71 @@ export async function generateRoundTwoAction(
     return { error: "Please review your feedback inputs and try again." };
   }
 
-  const chosenGenerationId = parsed.data.chosenGenerationId || null;
-  const chosenGeneration = chosenGenerationId
-    ? await prisma.generation.findFirst({
-        where: {
-          id: chosenGenerationId,
-          projectId: project.id
-        },
-        select: {
-          id: true,
-          round: true,
-          status: true,
-          input: true,
-          output: true
-        }
-      })
-    : null;
+  const selection = await loadRoundTwoChosenGeneration(project.id, parsed.data);
+  if ("error" in selection) {
+    return { error: selection.error };
+  }
 
-  if (chosenGenerationId && !chosenGeneration) {
-    return { error: "Selected direction was not found for this project." };
+  if (selection.chosenGenerationId) {
+    try {
+      await recordScoutChoice({
+        projectId: project.id,
+        chosenGenerationId: selection.chosenGenerationId,
+        source: "round_two_carry"
+      });
+    } catch (error) {
+      console.warn(`[scout-choice] record failed project=${project.id}`, error);
+    }
+  }
+
+  await enqueueGenerationJob({
+    prisma,
+    kind: "ROUND_TWO",
+    projectId: project.id,
+    organizationId: session.organizationId,
+    dedupeKey: buildGenerationJobDedupeKey({ kind: "ROUND_TWO", projectId: project.id, round: parsed.data.currentRound + 1 }),
+    payload: parsed.data as Prisma.InputJsonValue
+  });
+  redirect(`/app/projects/${projectId}/generations`);
+}
+
+/**
+ * Executes a queued refinement round from the validated feedback payload stored on the job.
+ * The chosen direction is re-validated because it may have changed while the job was queued.
+ * An aborted signal (the worker lost the job's lease) skips persisting the round outcome.
+ */
+export async function runRoundTwoGeneration(params: {
+  projectId: string;
+  organizationId: string;
+  request: unknown;
+  signal?: AbortSignal;
+}): Promise<RoundFeedbackActionState> {
+  const { projectId, organizationId } = params;
+  const project = await getProjectForGeneration(projectId, organizationId);
+  if (!project) {
+    return { error: "Project not found." };
   }
 
-  if (chosenGeneration && chosenGeneration.round !== parsed.data.currentRound) {
-    return { error: "Selected direction must come from the current round." };
+  const brandKit = project.brandKit;
+
+  const parsed = generateRoundTwoSchema.safeParse(params.request);
+  if (!parsed.success) {
+    return { error: "Queued feedback payload is invalid." };
   }
-  if (
-    chosenGeneration &&
-    resolveGenerationOptionStatus({
-      output: chosenGeneration.output,
-      dbStatus: chosenGeneration.status
-    }) !== "COMPLETED"
-  ) {
-    return { error: "Selected direction is not eligible for refinement. Retry generation and choose a completed option." };
+
+  const selection = await loadRoundTwoChosenGeneration(project.id, parsed.data);
+  if ("error" in selection) {
+    return { error: selection.error };
   }
+  const { chosenGenerationId, chosenGeneration } = selection;
 
   let selectedOptionIndex: number | null = null;
   if (chosenGeneration) {
     const roundGenerations = await prisma.generation.findMany({
       where: {
         projectId: project.id,
-        round: chosenGeneration.round
+        round: chosenGeneration.round,
+        shadow: false
       },
       orderBy: [{ createdAt: "asc" }, { id: "asc" }],
       select: {
@@ -12753,7 +13090,7 @@ export async function generateRoundTwoAction(
   const priorRefinementLineage = chosenGeneration
     ? readRefinementLineageFromInput(chosenGeneration.input) || readRefinementLineageFromGenerationOutput(chosenGeneration.output)
     : null;
-  const enabledPresets = await findEnabledPresetsForOrganization(session.organizationId);
+  const enabledPresets = await findEnabledPresetsForOrganization(organizationId);
   const presetIdByKey = new Map(enabledPresets.map((preset) => [preset.key, preset.id] as const));
   const round = parsed.data.currentRound + 1;
   const useRefinementFunnel =
@@ -12776,13 +13113,13 @@ export async function generateRoundTwoAction(
   const [recentMotifs, recentStyleFamilies, recentRecipeIds, recentExplorationSetKeys] = await Promise.all([
     loadRecentProjectMotifs(project.id),
     loadRecentStyleFamilies({
-      organizationId: session.organizationId,
+      organizationId,
       projectId: project.id,
       limit: 20
     }),
     explorationMode
       ? loadRecentLockupRecipeIds({
-          organizationId: session.organizationId,
+          organizationId,
           projectId: project.id,
           limit: 20
         })
@@ -13020,7 +13357,8 @@ export async function generateRoundTwoAction(
           presetId: generationPresetId,
           round,
           status: "QUEUED",
-          input: generationInput
+          input: generationInput,
+          brandKitVersionId: project.brandKitVersionId
         }
       })
     )
@@ -13030,10 +13368,11 @@ export async function generateRoundTwoAction(
   if (!providerPreflight.ok) {
     await abortRoundForProviderFailure({
       projectId: project.id,
+      organizationId,
       plannedGenerations,
       providerPreflight
     });
-    redirect(`/app/projects/${projectId}/generations`);
+    return {};
   }
   const claimedGenerations = await claimPlannedGenerationAttempts({
     plannedGenerations,
@@ -13041,13 +13380,16 @@ export async function generateRoundTwoAction(
   });
 
   const results = await createOpenAiPreviewAssetsForPlannedGenerations({
-    organizationId: session.organizationId,
+    organizationId,
     project,
     plannedGenerations: claimedGenerations,
     providerPreflight,
     bibleCreativeBrief,
     motifBankContext
   });
+  if (params.signal?.aborted) {
+    return {};
+  }
   await persistFinalRoundOutcome({
     generationIds: plannedGenerations.map((generation) => generation.id),
     results,
@@ -13055,7 +13397,7 @@ export async function generateRoundTwoAction(
     roundRequiredCompletedCount: ROUND_OPTION_COUNT
   });
 
-  redirect(`/app/projects/${projectId}/generations`);
+  return {};
 }
 
 // ---------------------------------------------------------------------------
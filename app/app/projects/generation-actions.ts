@@ -1,7 +1,5 @@
 "use server";
 
-import { redirect } from "next/navigation";
-
 export type GenerationActionState = {
   error?: string;
 };
@@ -10,21 +8,15 @@ export type RoundFeedbackActionState = {
   error?: string;
 };
 
+// Both actions validate and enqueue a GenerationJob, then redirect to the generations page;
+// the round itself runs in the generation worker (scripts/generation-worker.ts).
 export async function generateRoundOneAction(
   projectId: string,
   state: GenerationActionState,
   formData: FormData
 ): Promise<GenerationActionState> {
   const { generateRoundOneAction: generateRoundOneActionImpl } = await import("./generation-actions.impl");
-  const result = await generateRoundOneActionImpl(projectId, state, formData);
-  // The V1 path calls redirect() inside the impl (throws NEXT_REDIRECT — never reaches here).
-  // The V2 path returns a plain GenerationActionState object.
-  // On V2 success, redirect so the page re-renders with fresh generation data.
-  // On V2 error, return the error state so the form can display it.
-  if (!result.error) {
-    redirect(`/app/projects/${projectId}/generations`);
-  }
-  return result;
+  return generateRoundOneActionImpl(projectId, state, formData);
 }
 
 export async function generateRoundTwoAction(
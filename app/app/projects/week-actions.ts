@@ -0,0 +1,148 @@
+"use server";
+
+import { Prisma } from "@prisma/client";
+import { revalidatePath } from "next/cache";
+import { z } from "zod";
+import { requireSession } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+
+export type WeekActionState = {
+  error?: string;
+};
+
+const CREATE_WEEK_ATTEMPTS = 3;
+
+const saveWeekSchema = z.object({
+  week_title: z.string().trim().max(160).optional(),
+  scripture_ref: z.string().trim().max(120).optional(),
+  quote: z.string().trim().max(400).optional()
+});
+
+function isUniqueConstraintError(error: unknown): boolean {
+  return error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002";
+}
+
+async function findProjectForSession(projectId: string, organizationId: string) {
+  return prisma.project.findFirst({
+    where: {
+      id: projectId,
+      organizationId
+    },
+    select: {
+      id: true,
+      finalDesign: {
+        select: {
+          id: true
+        }
+      }
+    }
+  });
+}
+
+export async function createWeekAction(projectId: string, _: WeekActionState, formData: FormData): Promise<WeekActionState> {
+  const session = await requireSession();
+  const project = await findProjectForSession(projectId, session.organizationId);
+  if (!project) {
+    return { error: "Project not found." };
+  }
+  if (!project.finalDesign) {
+    return { error: "Approve a final series design before adding weeks." };
+  }
+
+  const parsed = saveWeekSchema.safeParse({
+    week_title: formData.get("week_title") || undefined,
+    scripture_ref: formData.get("scripture_ref") || undefined,
+    quote: formData.get("quote") || undefined
+  });
+  if (!parsed.success) {
+    return { error: parsed.error.issues[0]?.message || "Please correct the week fields and try again." };
+  }
+
+  // Concurrent adds race for the next sortOrder; the unique index rejects the loser, which re-reads and retries.
+  for (let attempt = 1; ; attempt += 1) {
+    const lastWeek = await prisma.week.findFirst({
+      where: {
+        projectId: project.id
+      },
+      orderBy: {
+        sortOrder: "desc"
+      },
+      select: {
+        sortOrder: true
+      }
+    });
+
+    try {
+      await prisma.week.create({
+        data: {
+          projectId: project.id,
+          sortOrder: (lastWeek?.sortOrder ?? 0) + 1,
+          week_title: parsed.data.week_title || null,
+          scripture_ref: parsed.data.scripture_ref || null,
+          quote: parsed.data.quote || null
+        }
+      });
+      break;
+    } catch (error) {
+      if (!isUniqueConstraintError(error)) {
+        throw error;
+      }
+      if (attempt >= CREATE_WEEK_ATTEMPTS) {
+        return { error: "Another week was added at the same time. Please try again." };
+      }
+    }
+  }
+
+  revalidatePath(`/app/projects/${project.id}/weeks`);
+  return {};
+}
+
+// Bound into useActionState; the previous state is not needed, so it is not declared.
+export async function generateWeekVariantsAction(projectId: string, weekId: string): Promise<WeekActionState> {
+  const session = await requireSession();
+  const { generateWeeklyVariants } = await import("@/lib/weekly-variant-generator");
+
+  try {
+    await generateWeeklyVariants({
+      organizationId: session.organizationId,
+      projectId,
+      weekId
+    });
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : "Weekly slides could not be generated." };
+  }
+
+  revalidatePath(`/app/projects/${projectId}/weeks`);
+  return {};
+}
+
+export async function deleteWeekAction(projectId: string, weekId: string): Promise<void> {
+  const session = await requireSession();
+  const project = await findProjectForSession(projectId, session.organizationId);
+  if (!project) {
+    return;
+  }
+
+  const weekAssets = await prisma.asset.findMany({
+    where: {
+      weekId,
+      projectId: project.id
+    },
+    select: {
+      file_path: true
+    }
+  });
+  const deleted = await prisma.week.deleteMany({
+    where: {
+      id: weekId,
+      projectId: project.id
+    }
+  });
+  // Asset rows cascade with the week; the slide PNGs they pointed at are removed here.
+  if (deleted.count > 0 && weekAssets.length > 0) {
+    const { removeWeeklyPngs } = await import("@/lib/weekly-variant-generator");
+    await removeWeeklyPngs(weekAssets.map((asset) => asset.file_path));
+  }
+
+  revalidatePath(`/app/projects/${project.id}/weeks`);
+}
@@ -6,6 +6,11 @@ import path from "path";
 import { revalidatePath } from "next/cache";
 import { z } from "zod";
 import { requireSession } from "@/lib/auth";
+import { matchSiteFontPairing, readSiteFontPairing, type SiteFontPairing } from "@/lib/brand-extraction/site-fonts";
+import { extractSiteBrand } from "@/lib/brand-extraction/site-snapshot";
+import { recordBrandKitVersion } from "@/lib/brand-kit";
+import { MAX_FONT_UPLOAD_BYTES } from "@/lib/lockups/font-files";
+import { deleteOrganizationFont, registerOrganizationFonts, saveOrganizationFontUpload } from "@/lib/organization-fonts";
 import { prisma } from "@/lib/prisma";
 
 export type ChurchBrandKitActionState = {
@@ -13,9 +18,25 @@ export type ChurchBrandKitActionState = {
   success?: string;
 };
 
+export type SiteSnapshotImportState = {
+  error?: string;
+  success?: string;
+  palette?: string[];
+  fontPairing?: SiteFontPairing | null;
+};
+
+export type OrganizationFontActionState = {
+  error?: string;
+  success?: string;
+};
+
 const HEX_COLOR_REGEX = /^#(?:[0-9a-fA-F]{3}|[0-9a-fA-F]{6})$/;
 const ALLOWED_LOGO_EXTENSIONS = new Set([".png", ".jpg", ".jpeg", ".svg"]);
 const ALLOWED_LOGO_MIME_TYPES = new Set(["image/png", "image/jpeg", "image/svg+xml"]);
+const ALLOWED_SNAPSHOT_EXTENSIONS = new Set([".html", ".htm", ".css"]);
+const MAX_SNAPSHOT_BYTES = 5 * 1024 * 1024;
+const ALLOWED_FONT_EXTENSIONS = new Set([".woff2", ".ttf", ".otf"]);
+const MAX_FONT_FILES_PER_UPLOAD = 8;
 const WEBSITE_URL_ERROR_MESSAGE =
   "Please enter a valid website URL (example: https://www.restorationmandeville.com)";
 
@@ -101,6 +122,18 @@ function isAllowedLogoUpload(file: File): boolean {
   return ALLOWED_LOGO_EXTENSIONS.has(ext) || ALLOWED_LOGO_MIME_TYPES.has(file.type);
 }
 
+function parseFontPairingField(raw: FormDataEntryValue | null, organizationId: string): SiteFontPairing | null {
+  if (typeof raw !== "string" || !raw.trim()) {
+    return null;
+  }
+
+  try {
+    return readSiteFontPairing(JSON.parse(raw), organizationId);
+  } catch {
+    return null;
+  }
+}
+
 async function saveLogoUpload(file: File): Promise<string> {
   const uploadDirectory = path.join(process.cwd(), "public", "uploads");
   await mkdir(uploadDirectory, { recursive: true });
@@ -154,28 +187,37 @@ export async function saveChurchBrandKitAction(
     }
   });
 
+  // Pairings may pin uploaded fonts, which only validate once registered.
+  await registerOrganizationFonts(session.organizationId);
+  const fontPairing = parseFontPairingField(formData.get("font_pairing_json"), session.organizationId);
+  const fontPairingJson = fontPairing ? JSON.stringify(fontPairing) : null;
+
   let logoPath = existingBrandKit?.logoPath || null;
   if (logoUpload && logoUpload instanceof File && logoUpload.size > 0) {
     logoPath = await saveLogoUpload(logoUpload);
   }
 
+  const brandKit = {
+    websiteUrl: normalizedWebsiteUrl,
+    logoPath,
+    paletteJson: JSON.stringify(parsed.data.palette),
+    typographyDirection: parsed.data.typographyDirection,
+    fontPairingJson
+  };
   await prisma.organizationBrandKit.upsert({
     where: {
       organizationId: session.organizationId
     },
     create: {
       organizationId: session.organizationId,
-      websiteUrl: normalizedWebsiteUrl,
-      logoPath,
-      paletteJson: JSON.stringify(parsed.data.palette),
-      typographyDirection: parsed.data.typographyDirection
+      ...brandKit
     },
-    update: {
-      websiteUrl: normalizedWebsiteUrl,
-      logoPath,
-      paletteJson: JSON.stringify(parsed.data.palette),
-      typographyDirection: parsed.data.typographyDirection
-    }
+    update: brandKit
+  });
+  await recordBrandKitVersion({
+    organizationId: session.organizationId,
+    projectId: null,
+    brandKit: { ...brandKit, source: "organization" }
   });
 
   revalidatePath("/app/settings");
@@ -185,3 +227,134 @@ export async function saveChurchBrandKitAction(
     success: "Saved church brand kit."
   };
 }
+
+/**
+ * Reads a saved copy of the church website (the page's .html plus any .css files saved with it)
+ * and returns its dominant colors and the lockup fonts matched to its type. Nothing is stored
+ * until the brand kit itself is saved.
+ */
+export async function importSiteSnapshotAction(
+  _: SiteSnapshotImportState,
+  formData: FormData
+): Promise<SiteSnapshotImportState> {
+  const session = await requireSession();
+
+  const files = formData
+    .getAll("site_snapshot")
+    .filter((entry): entry is File => entry instanceof File && entry.size > 0);
+  if (files.length === 0) {
+    return { error: "Choose the saved .html page (and any .css files saved with it)." };
+  }
+  if (files.some((file) => !ALLOWED_SNAPSHOT_EXTENSIONS.has(path.extname(file.name).toLowerCase()))) {
+    return { error: "Website snapshots must be .html or .css files." };
+  }
+  if (files.reduce((total, file) => total + file.size, 0) > MAX_SNAPSHOT_BYTES) {
+    return { error: "Website snapshot is too large (5 MB max)." };
+  }
+
+  const htmlFiles = files.filter((file) => path.extname(file.name).toLowerCase() !== ".css");
+  const cssFiles = files.filter((file) => path.extname(file.name).toLowerCase() === ".css");
+  const extraction = extractSiteBrand({
+    html: (await Promise.all(htmlFiles.map((file) => file.text()))).join("\n"),
+    stylesheets: await Promise.all(cssFiles.map((file) => file.text()))
+  });
+  // Site fonts the church has uploaded match their own files before any library stand-in.
+  await registerOrganizationFonts(session.organizationId);
+  const fontPairing = matchSiteFontPairing(extraction, session.organizationId);
+
+  if (extraction.palette.length === 0 && !fontPairing) {
+    return { error: "No fonts or brand colors were found in that snapshot." };
+  }
+
+  const found = [
+    extraction.palette.length > 0 ? `${extraction.palette.length} colors` : null,
+    fontPairing ? `${fontPairing.title.siteFamily} / ${fontPairing.subtitle.siteFamily} type` : null
+  ].filter(Boolean);
+  return {
+    success: `Found ${found.join(" and ")}. Review them, then save the brand kit.`,
+    palette: extraction.palette,
+    fontPairing
+  };
+}
+
+function parseFontWeightField(raw: FormDataEntryValue | null): number | null {
+  const weight = typeof raw === "string" ? Number.parseInt(raw, 10) : Number.NaN;
+  return Number.isFinite(weight) && weight >= 100 && weight <= 900 ? weight : null;
+}
+
+/**
+ * Uploads licensed brand fonts for the organization. Each file is validated, subset and stored,
+ * then registered so lockups and exports can use it. Family, weight and style default to what the
+ * file declares; the overrides apply to every file in the upload.
+ */
+export async function uploadOrganizationFontsAction(
+  _: OrganizationFontActionState,
+  formData: FormData
+): Promise<OrganizationFontActionState> {
+  const session = await requireSession();
+
+  const files = formData
+    .getAll("font_files")
+    .filter((entry): entry is File => entry instanceof File && entry.size > 0);
+  if (files.length === 0) {
+    return { error: "Choose one or more .woff2, .ttf, or .otf font files." };
+  }
+  if (files.length > MAX_FONT_FILES_PER_UPLOAD) {
+    return { error: `Upload up to ${MAX_FONT_FILES_PER_UPLOAD} font files at a time.` };
+  }
+  if (files.some((file) => !ALLOWED_FONT_EXTENSIONS.has(path.extname(file.name).toLowerCase()))) {
+    return { error: "Fonts must be .woff2, .ttf, or .otf files." };
+  }
+  if (files.some((file) => file.size > MAX_FONT_UPLOAD_BYTES)) {
+    return { error: "Font files must be 10MB or smaller." };
+  }
+
+  const familyField = formData.get("font_family");
+  const styleField = formData.get("font_style");
+  const family = typeof familyField === "string" ? familyField.trim() : "";
+  const weight = parseFontWeightField(formData.get("font_weight"));
+  const style = styleField === "normal" || styleField === "italic" ? styleField : null;
+
+  const saved: string[] = [];
+  const errors: string[] = [];
+  for (const file of files) {
+    const result = await saveOrganizationFontUpload({
+      organizationId: session.organizationId,
+      file,
+      family,
+      weight,
+      style
+    });
+    if (result.ok) {
+      saved.push(`${result.font.family} ${result.font.weight}${result.font.style === "italic" ? " Italic" : ""}`);
+    } else {
+      errors.push(result.error);
+    }
+  }
+
+  if (saved.length > 0) {
+    revalidatePath("/app/settings");
+  }
+  return {
+    error: errors.length > 0 ? errors.join(" ") : undefined,
+    success: saved.length > 0 ? `Added ${saved.join(", ")}.` : undefined
+  };
+}
+
+export async function deleteOrganizationFontAction(
+  _: OrganizationFontActionState,
+  formData: FormData
+): Promise<OrganizationFontActionState> {
+  const session = await requireSession();
+
+  const fontId = formData.get("font_id");
+  if (typeof fontId !== "string" || !fontId) {
+    return { error: "Choose a font to remove." };
+  }
+  if (!(await deleteOrganizationFont(session.organizationId, fontId))) {
+    return { error: "That font was already removed." };
+  }
+
+  revalidatePath("/app/settings");
+  return { success: "Removed font." };
+}
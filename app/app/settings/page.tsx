@@ -1,10 +1,29 @@
-import { ChurchBrandKitForm } from "@/components/church-brand-kit-form";
-import { parsePaletteJson } from "@/lib/brand-kit";
+import { BrandKitHistory } from "@/components/brand-kit-history";
+import { ChurchBrandKitForm, type BrandFontOption } from "@/components/church-brand-kit-form";
+import { OrganizationFontsForm } from "@/components/organization-fonts-form";
+import { matchLibraryFontFamily } from "@/lib/brand-extraction/site-fonts";
+import { listBrandKitVersions, parseFontPairingJson, parsePaletteJson } from "@/lib/brand-kit";
 import { requireSession } from "@/lib/auth";
+import { listOrganizationFonts, registerOrganizationFonts } from "@/lib/organization-fonts";
 import { prisma } from "@/lib/prisma";
 
+function toBrandFontOptions(families: string[], organizationId: string): BrandFontOption[] {
+  const options: BrandFontOption[] = [];
+  for (const family of families) {
+    const title = matchLibraryFontFamily(family, "title", organizationId);
+    const subtitle = matchLibraryFontFamily(family, "subtitle", organizationId);
+    if (title && subtitle) {
+      options.push({ family, title, subtitle });
+    }
+  }
+  return options;
+}
+
 export default async function SettingsPage() {
   const session = await requireSession();
+  const fontRecords = await listOrganizationFonts(session.organizationId);
+  // Registered first: the saved pairing may pin uploaded fonts.
+  const organizationFonts = await registerOrganizationFonts(session.organizationId, fontRecords);
 
   const organizationBrandKit = await prisma.organizationBrandKit.findUnique({
     where: {
@@ -14,9 +33,11 @@ export default async function SettingsPage() {
       websiteUrl: true,
       logoPath: true,
       paletteJson: true,
-      typographyDirection: true
+      typographyDirection: true,
+      fontPairingJson: true
     }
   });
+  const brandKitVersions = await listBrandKitVersions({ organizationId: session.organizationId, projectId: null });
 
   return (
     <section className="mx-auto max-w-2xl space-y-4">
@@ -30,7 +51,13 @@ export default async function SettingsPage() {
         initialLogoPath={organizationBrandKit?.logoPath}
         initialPalette={parsePaletteJson(organizationBrandKit?.paletteJson)}
         initialTypographyDirection={organizationBrandKit?.typographyDirection || "match_site"}
+        initialFontPairing={parseFontPairingJson(organizationBrandKit?.fontPairingJson, session.organizationId)}
+        brandFonts={toBrandFontOptions([...new Set(organizationFonts.map((font) => font.family))], session.organizationId)}
       />
+
+      <BrandKitHistory versions={brandKitVersions} />
+
+      <OrganizationFontsForm fonts={fontRecords} />
     </section>
   );
 }
@@ -1,14 +1,29 @@
 "use client";
 
 import { useActionState, useState } from "react";
+import Image from "next/image";
 import Link from "next/link";
 import { saveBrandKitAction, type BrandKitActionState } from "@/app/app/projects/actions";
+import {
+  BRAND_KIT_FIELD_LABELS,
+  BRAND_KIT_FIELDS,
+  type BrandKitField,
+  type BrandKitFieldMode,
+  type BrandKitFieldModes
+} from "@/lib/brand-kit-inheritance";
 
 type TypographyDirection = "match_site" | "graceled_defaults";
 
 type BrandKitFormProps = {
   projectId: string;
   projectTitle: string;
+  /** Null when the organization has no Church Brand Kit; the series kit then owns every field. */
+  churchBrandKit: {
+    logoPath: string | null;
+    palette: string[];
+    typographyDirection: TypographyDirection;
+  } | null;
+  initialModes: BrandKitFieldModes;
   initialWebsiteUrl?: string;
   initialLogoPath?: string | null;
   initialPalette?: string[];
@@ -18,6 +33,11 @@ type BrandKitFormProps = {
 const HEX_COLOR_REGEX = /^#(?:[0-9A-F]{3}|[0-9A-F]{6})$/;
 const initialState: BrandKitActionState = {};
 
+const TYPOGRAPHY_LABELS: Record<TypographyDirection, string> = {
+  match_site: "Match site",
+  graceled_defaults: "GraceLed defaults"
+};
+
 function normalizeHex(input: string): string {
   const trimmed = input.trim().toUpperCase();
   if (!trimmed) {
@@ -30,19 +50,43 @@ function toPublicPath(relativePath: string): string {
   return relativePath.startsWith("/") ? relativePath : `/${relativePath}`;
 }
 
+function PaletteSwatches({ colors }: { colors: string[] }) {
+  if (colors.length === 0) {
+    return <p className="text-sm text-slate-500">No colors.</p>;
+  }
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {colors.map((color) => (
+        <span key={color} className="inline-flex items-center gap-2 rounded-full border border-slate-300 bg-white px-3 py-1 text-sm">
+          <span className="h-4 w-4 rounded-full border border-slate-300" style={{ backgroundColor: color }} />
+          <span>{color}</span>
+        </span>
+      ))}
+    </div>
+  );
+}
+
 export function BrandKitForm({
   projectId,
   projectTitle,
+  churchBrandKit,
+  initialModes,
   initialWebsiteUrl,
   initialLogoPath,
-  initialPalette = [],
-  initialTypographyDirection = "match_site"
+  initialPalette = churchBrandKit?.palette ?? [],
+  initialTypographyDirection = churchBrandKit?.typographyDirection ?? "match_site"
 }: BrandKitFormProps) {
+  const [modes, setModes] = useState<BrandKitFieldModes>(initialModes);
   const [colors, setColors] = useState<string[]>(initialPalette);
   const [newColor, setNewColor] = useState("");
   const [paletteError, setPaletteError] = useState<string>();
   const [state, action, pending] = useActionState(saveBrandKitAction.bind(null, projectId), initialState);
 
+  const setMode = (field: BrandKitField, mode: BrandKitFieldMode) => {
+    setModes((current) => ({ ...current, [field]: mode }));
+  };
+
   const addColor = () => {
     const normalized = normalizeHex(newColor);
     if (!normalized) {
@@ -67,111 +111,183 @@ export function BrandKitForm({
     setPaletteError(undefined);
   };
 
-  return (
-    <form
-      action={action}
-      className="space-y-5 rounded-xl border border-slate-200 bg-white p-6 shadow-sm"
-    >
-      <p className="text-xs font-semibold uppercase tracking-wide text-slate-500">Step 2 of 2</p>
-      <div>
-        <h1 className="text-xl font-semibold">Brand Kit</h1>
-        <p className="text-sm text-slate-600">Configure the visual direction for {projectTitle}.</p>
-      </div>
-
-      <div className="space-y-2">
-        <label htmlFor="website_url" className="text-sm font-medium text-slate-700">
-          Website URL <span className="text-red-600">*</span>
-        </label>
-        <input
-          id="website_url"
-          name="website_url"
-          type="text"
-          inputMode="url"
-          required
-          defaultValue={initialWebsiteUrl}
-          placeholder="https://yourchurch.org"
-          className="w-full rounded-md border border-slate-300 px-3 py-2"
+  const renderInherited = (field: BrandKitField) => {
+    if (!churchBrandKit) {
+      return null;
+    }
+    if (field === "palette") {
+      return <PaletteSwatches colors={churchBrandKit.palette} />;
+    }
+    if (field === "logo") {
+      return churchBrandKit.logoPath ? (
+        <Image
+          src={toPublicPath(churchBrandKit.logoPath)}
+          alt="Church logo"
+          width={224}
+          height={56}
+          unoptimized
+          className="max-h-14 w-auto object-contain"
         />
-      </div>
+      ) : (
+        <p className="text-sm text-slate-500">No church logo.</p>
+      );
+    }
+    return <p className="text-sm text-slate-700">{TYPOGRAPHY_LABELS[churchBrandKit.typographyDirection]}</p>;
+  };
 
-      <div className="space-y-2">
-        <label htmlFor="logo_upload" className="text-sm font-medium text-slate-700">
-          Logo Upload
-        </label>
-        <input
-          id="logo_upload"
-          name="logo_upload"
-          type="file"
-          accept=".png,.jpg,.jpeg,.svg,image/png,image/jpeg,image/svg+xml"
-          className="block w-full text-sm text-slate-700 file:mr-3 file:rounded-md file:border-0 file:bg-pine file:px-3 file:py-2 file:text-sm file:font-medium file:text-white"
-        />
-        {initialLogoPath ? (
-          <div className="rounded-md border border-slate-200 bg-slate-50 p-3">
-            <p className="text-xs font-medium uppercase tracking-wide text-slate-500">Current Logo</p>
-            <img src={toPublicPath(initialLogoPath)} alt="Current logo" className="mt-2 max-h-14 w-auto" />
+  const renderOverride = (field: BrandKitField) => {
+    if (field === "palette") {
+      return (
+        <div className="space-y-3">
+          <div className="flex gap-2">
+            <input
+              aria-label="New palette color"
+              value={newColor}
+              onChange={(event) => setNewColor(event.target.value)}
+              placeholder="#14532D"
+              className="flex-1 rounded-md border border-slate-300 px-3 py-2"
+            />
+            <button
+              type="button"
+              onClick={addColor}
+              className="rounded-md border border-slate-300 px-4 py-2 text-sm font-medium text-slate-700"
+            >
+              Add
+            </button>
           </div>
-        ) : null}
-      </div>
 
-      <div className="space-y-3">
-        <label htmlFor="new_color" className="text-sm font-medium text-slate-700">
-          Palette
-        </label>
-        <div className="flex gap-2">
+          {colors.length > 0 ? (
+            <div className="flex flex-wrap gap-2">
+              {colors.map((color) => (
+                <button
+                  key={color}
+                  type="button"
+                  onClick={() => removeColor(color)}
+                  className="inline-flex items-center gap-2 rounded-full border border-slate-300 bg-white px-3 py-1 text-sm"
+                  title="Remove color"
+                >
+                  <span className="h-4 w-4 rounded-full border border-slate-300" style={{ backgroundColor: color }} />
+                  <span>{color}</span>
+                </button>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-slate-500">No colors added yet.</p>
+          )}
+          {paletteError ? <p className="text-sm text-red-700">{paletteError}</p> : null}
+        </div>
+      );
+    }
+    if (field === "logo") {
+      return (
+        <div className="space-y-2">
           <input
-            id="new_color"
-            value={newColor}
-            onChange={(event) => setNewColor(event.target.value)}
-            placeholder="#14532D"
-            className="flex-1 rounded-md border border-slate-300 px-3 py-2"
+            name="logo_upload"
+            type="file"
+            aria-label="Series logo upload"
+            accept=".png,.jpg,.jpeg,.svg,image/png,image/jpeg,image/svg+xml"
+            className="block w-full text-sm text-slate-700 file:mr-3 file:rounded-md file:border-0 file:bg-pine file:px-3 file:py-2 file:text-sm file:font-medium file:text-white"
           />
-          <button
-            type="button"
-            onClick={addColor}
-            className="rounded-md border border-slate-300 px-4 py-2 text-sm font-medium text-slate-700"
-          >
-            Add
-          </button>
+          {initialLogoPath ? (
+            <div className="rounded-md border border-slate-200 bg-slate-50 p-3">
+              <p className="text-xs font-medium uppercase tracking-wide text-slate-500">Current Series Logo</p>
+              <Image
+                src={toPublicPath(initialLogoPath)}
+                alt="Current series logo"
+                width={224}
+                height={56}
+                unoptimized
+                className="mt-2 max-h-14 w-auto object-contain"
+              />
+            </div>
+          ) : null}
         </div>
+      );
+    }
+    return (
+      <select
+        name="typography_direction"
+        aria-label="Series typography direction"
+        defaultValue={initialTypographyDirection}
+        className="w-full rounded-md border border-slate-300 px-3 py-2"
+      >
+        <option value="match_site">Match site</option>
+        <option value="graceled_defaults">GraceLed defaults</option>
+      </select>
+    );
+  };
 
-        {colors.length > 0 ? (
-          <div className="flex flex-wrap gap-2">
-            {colors.map((color) => (
-              <button
-                key={color}
-                type="button"
-                onClick={() => removeColor(color)}
-                className="inline-flex items-center gap-2 rounded-full border border-slate-300 bg-white px-3 py-1 text-sm"
-                title="Remove color"
-              >
-                <span className="h-4 w-4 rounded-full border border-slate-300" style={{ backgroundColor: color }} />
-                <span>{color}</span>
-              </button>
-            ))}
-          </div>
+  return (
+    <form action={action} className="space-y-5 rounded-xl border border-slate-200 bg-white p-6 shadow-sm">
+      <div>
+        <h1 className="text-xl font-semibold">Series Brand Kit</h1>
+        {churchBrandKit ? (
+          <p className="text-sm text-slate-600">
+            {projectTitle} uses the Church Brand Kit. Override a field to give this series its own value; inherited fields
+            follow later Church Brand Kit changes.
+          </p>
         ) : (
-          <p className="text-sm text-slate-500">No colors added yet.</p>
+          <p className="text-sm text-slate-600">
+            {projectTitle} has its own brand kit. Set up the Church Brand Kit in{" "}
+            <Link href="/app/settings" className="underline">
+              Settings
+            </Link>{" "}
+            to share one across every series.
+          </p>
         )}
       </div>
 
-      <div className="space-y-2">
-        <label htmlFor="typography_direction" className="text-sm font-medium text-slate-700">
-          Typography Direction
-        </label>
-        <select
-          id="typography_direction"
-          name="typography_direction"
-          defaultValue={initialTypographyDirection}
-          className="w-full rounded-md border border-slate-300 px-3 py-2"
-        >
-          <option value="match_site">Match site</option>
-          <option value="graceled_defaults">GraceLed defaults</option>
-        </select>
-      </div>
+      {churchBrandKit ? null : (
+        <div className="space-y-2">
+          <label htmlFor="website_url" className="text-sm font-medium text-slate-700">
+            Website URL <span className="text-red-600">*</span>
+          </label>
+          <input
+            id="website_url"
+            name="website_url"
+            type="text"
+            inputMode="url"
+            required
+            defaultValue={initialWebsiteUrl}
+            placeholder="https://yourchurch.org"
+            className="w-full rounded-md border border-slate-300 px-3 py-2"
+          />
+        </div>
+      )}
+
+      {BRAND_KIT_FIELDS.map((field) => (
+        <fieldset key={field} className="space-y-3 rounded-lg border border-slate-200 p-4">
+          <legend className="px-1 text-sm font-medium text-slate-700">{BRAND_KIT_FIELD_LABELS[field]}</legend>
+          {churchBrandKit ? (
+            <div className="flex gap-4 text-sm text-slate-700">
+              <label className="flex items-center gap-2">
+                <input
+                  type="radio"
+                  name={`${field}_mode`}
+                  value="inherit"
+                  checked={modes[field] === "inherit"}
+                  onChange={() => setMode(field, "inherit")}
+                />
+                Use Church Brand Kit
+              </label>
+              <label className="flex items-center gap-2">
+                <input
+                  type="radio"
+                  name={`${field}_mode`}
+                  value="override"
+                  checked={modes[field] === "override"}
+                  onChange={() => setMode(field, "override")}
+                />
+                Override for this series
+              </label>
+            </div>
+          ) : null}
+          {!churchBrandKit || modes[field] === "override" ? renderOverride(field) : renderInherited(field)}
+        </fieldset>
+      ))}
 
       <input type="hidden" name="palette_json" value={JSON.stringify(colors)} />
 
-      {paletteError ? <p className="text-sm text-red-700">{paletteError}</p> : null}
       {state.error ? <p className="text-sm text-red-700">{state.error}</p> : null}
 
       <div className="flex items-center gap-4">
@@ -180,7 +296,7 @@ export function BrandKitForm({
           disabled={pending}
           className="rounded-md bg-pine px-4 py-2 font-medium text-white disabled:opacity-60"
         >
-          {pending ? "Saving brand kit..." : "Save Brand Kit"}
+          {pending ? "Saving brand kit..." : "Save Series Brand Kit"}
         </button>
         <Link href={`/app/projects/${projectId}`} className="text-sm text-slate-600">
           Cancel
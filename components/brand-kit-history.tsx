@@ -0,0 +1,64 @@
+import { BRAND_KIT_FIELD_LABELS, BRAND_KIT_FIELDS } from "@/lib/brand-kit-inheritance";
+import { parsePaletteJson, type BrandKitVersionRecord } from "@/lib/brand-kit";
+
+type BrandKitHistoryProps = {
+  versions: BrandKitVersionRecord[];
+  /** Project histories note which fields came from the church brand kit. */
+  showInheritance?: boolean;
+};
+
+const TYPOGRAPHY_LABELS = {
+  match_site: "Match site",
+  graceled_defaults: "GraceLed defaults"
+} as const;
+
+export function BrandKitHistory({ versions, showInheritance = false }: BrandKitHistoryProps) {
+  return (
+    <div className="space-y-3 rounded-xl border border-slate-200 bg-white p-6 shadow-sm">
+      <div>
+        <h2 className="text-lg font-semibold">Version History</h2>
+        <p className="text-sm text-slate-600">
+          Every change is kept. Generations remember the version they used, so older designs re-render with it.
+        </p>
+      </div>
+
+      {versions.length > 0 ? (
+        <ul className="divide-y divide-slate-100 text-sm">
+          {versions.map((version) => (
+            <li key={version.id} className="flex flex-wrap items-center gap-3 py-2">
+              <span className="font-medium text-slate-800">v{version.version}</span>
+              <span className="text-slate-500">
+                {new Intl.DateTimeFormat("en-US", { dateStyle: "medium", timeStyle: "short" }).format(version.createdAt)}
+              </span>
+              <span className="flex gap-1">
+                {parsePaletteJson(version.paletteJson).map((color) => (
+                  <span
+                    key={color}
+                    title={color}
+                    className="h-4 w-4 rounded-full border border-slate-300"
+                    style={{ backgroundColor: color }}
+                  />
+                ))}
+              </span>
+              <span className="text-slate-600">{TYPOGRAPHY_LABELS[version.typographyDirection]}</span>
+              <span className="text-slate-600">{version.logoPath ? "Logo" : "No logo"}</span>
+              {showInheritance ? (
+                <span className="text-slate-500">
+                  {version.source !== "organization"
+                    ? "Series-only brand kit"
+                    : version.overriddenFields.length > 0
+                      ? `Overrides: ${BRAND_KIT_FIELDS.filter((field) => version.overriddenFields.includes(field))
+                          .map((field) => BRAND_KIT_FIELD_LABELS[field])
+                          .join(", ")}`
+                      : "All from Church Brand Kit"}
+                </span>
+              ) : null}
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-sm text-slate-500">No saved versions yet.</p>
+      )}
+    </div>
+  );
+}
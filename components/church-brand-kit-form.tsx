@@ -1,19 +1,35 @@
 "use client";
 
 import { useActionState, useState } from "react";
-import { saveChurchBrandKitAction, type ChurchBrandKitActionState } from "@/app/app/settings/actions";
+import {
+  importSiteSnapshotAction,
+  saveChurchBrandKitAction,
+  type ChurchBrandKitActionState,
+  type SiteSnapshotImportState
+} from "@/app/app/settings/actions";
+import type { SiteFontPairing, SiteFontMatch } from "@/lib/brand-extraction/site-fonts";
 
 type TypographyDirection = "match_site" | "graceled_defaults";
 
+/** An uploaded brand font family, pre-matched to each lockup slot. */
+export type BrandFontOption = {
+  family: string;
+  title: SiteFontMatch;
+  subtitle: SiteFontMatch;
+};
+
 type ChurchBrandKitFormProps = {
   initialWebsiteUrl?: string;
   initialLogoPath?: string | null;
   initialPalette?: string[];
   initialTypographyDirection?: TypographyDirection;
+  initialFontPairing?: SiteFontPairing | null;
+  brandFonts?: BrandFontOption[];
 };
 
 const HEX_COLOR_REGEX = /^#(?:[0-9A-F]{3}|[0-9A-F]{6})$/;
 const initialState: ChurchBrandKitActionState = {};
+const initialImportState: SiteSnapshotImportState = {};
 
 function normalizeHex(input: string): string {
   const trimmed = input.trim().toUpperCase();
@@ -27,16 +43,41 @@ function toPublicPath(relativePath: string): string {
   return relativePath.startsWith("/") ? relativePath : `/${relativePath}`;
 }
 
+function describeFontMatch(match: SiteFontMatch): string {
+  if (match.matchedBy === "generic_fallback") {
+    return `${match.siteFamily} (closest match: ${match.libraryFamily})`;
+  }
+  return match.siteFamily;
+}
+
 export function ChurchBrandKitForm({
   initialWebsiteUrl,
   initialLogoPath,
   initialPalette = [],
-  initialTypographyDirection = "match_site"
+  initialTypographyDirection = "match_site",
+  initialFontPairing = null,
+  brandFonts = []
 }: ChurchBrandKitFormProps) {
   const [colors, setColors] = useState<string[]>(initialPalette);
   const [newColor, setNewColor] = useState("");
   const [paletteError, setPaletteError] = useState<string>();
+  const [fontPairing, setFontPairing] = useState<SiteFontPairing | null>(initialFontPairing);
   const [state, action, pending] = useActionState(saveChurchBrandKitAction, initialState);
+  const [importState, importAction, importing] = useActionState(
+    async (previous: SiteSnapshotImportState, formData: FormData) => {
+      const result = await importSiteSnapshotAction(previous, formData);
+      // Pre-fill the form; nothing is stored until the brand kit is saved.
+      if (result.palette && result.palette.length > 0) {
+        setColors(result.palette);
+        setPaletteError(undefined);
+      }
+      if (result.fontPairing) {
+        setFontPairing(result.fontPairing);
+      }
+      return result;
+    },
+    initialImportState
+  );
 
   const addColor = () => {
     const normalized = normalizeHex(newColor);
@@ -57,6 +98,18 @@ export function ChurchBrandKitForm({
     setPaletteError(undefined);
   };
 
+  const pickBrandFont = (slot: "title" | "subtitle", family: string) => {
+    const option = brandFonts.find((item) => item.family === family);
+    if (!option) {
+      return;
+    }
+    // A first pick fills both slots so the pairing is complete; later picks change one slot.
+    setFontPairing((current) => (current ? { ...current, [slot]: option[slot] } : { title: option.title, subtitle: option.subtitle }));
+  };
+
+  const selectedBrandFont = (match: SiteFontMatch | undefined): string =>
+    match && brandFonts.some((option) => option.family === match.libraryFamily) ? match.libraryFamily : "";
+
   const removeColor = (color: string) => {
     setColors((current) => current.filter((item) => item !== color));
     setPaletteError(undefined);
@@ -104,6 +157,35 @@ export function ChurchBrandKitForm({
         ) : null}
       </div>
 
+      <div className="space-y-2">
+        <label htmlFor="site_snapshot" className="text-sm font-medium text-slate-700">
+          Website Snapshot
+        </label>
+        <p className="text-xs text-slate-500">
+          Save your homepage from the browser (File &rarr; Save Page As) and upload the .html file with its .css files to fill
+          in your palette and match your site&apos;s fonts.
+        </p>
+        <input
+          id="site_snapshot"
+          name="site_snapshot"
+          type="file"
+          multiple
+          accept=".html,.htm,.css,text/html,text/css"
+          className="block w-full text-sm text-slate-700 file:mr-3 file:rounded-md file:border-0 file:bg-slate-200 file:px-3 file:py-2 file:text-sm file:font-medium file:text-slate-800"
+        />
+        <button
+          type="submit"
+          formAction={importAction}
+          formNoValidate
+          disabled={importing}
+          className="rounded-md border border-slate-300 px-4 py-2 text-sm font-medium text-slate-700 disabled:opacity-60"
+        >
+          {importing ? "Reading snapshot..." : "Import from Snapshot"}
+        </button>
+        {importState.error ? <p className="text-sm text-red-700">{importState.error}</p> : null}
+        {importState.success ? <p className="text-sm text-emerald-700">{importState.success}</p> : null}
+      </div>
+
       <div className="space-y-3">
         <label htmlFor="new_color" className="text-sm font-medium text-slate-700">
           Palette
@@ -158,9 +240,46 @@ export function ChurchBrandKitForm({
           <option value="match_site">Match site</option>
           <option value="graceled_defaults">GraceLed defaults</option>
         </select>
+        {brandFonts.length > 0 ? (
+          <div className="grid gap-3 sm:grid-cols-2">
+            {(["title", "subtitle"] as const).map((slot) => (
+              <label key={slot} className="space-y-1 text-sm text-slate-700">
+                <span>{slot === "title" ? "Title brand font" : "Subtitle brand font"}</span>
+                <select
+                  value={selectedBrandFont(fontPairing?.[slot])}
+                  onChange={(event) => pickBrandFont(slot, event.target.value)}
+                  className="w-full rounded-md border border-slate-300 px-3 py-2"
+                >
+                  <option value="" disabled>
+                    Choose an uploaded font
+                  </option>
+                  {brandFonts.map((option) => (
+                    <option key={option.family} value={option.family}>
+                      {option.family}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            ))}
+          </div>
+        ) : null}
+        {fontPairing ? (
+          <div className="flex items-start justify-between gap-3 rounded-md border border-slate-200 bg-slate-50 p-3 text-sm">
+            <div>
+              <p className="font-medium text-slate-700">Lockup fonts</p>
+              <p className="text-slate-600">Titles: {describeFontMatch(fontPairing.title)}</p>
+              <p className="text-slate-600">Subtitles: {describeFontMatch(fontPairing.subtitle)}</p>
+              <p className="text-xs text-slate-500">Used for lockups when Typography Direction is Match site.</p>
+            </div>
+            <button type="button" onClick={() => setFontPairing(null)} className="text-xs text-slate-500 underline">
+              Clear
+            </button>
+          </div>
+        ) : null}
       </div>
 
       <input type="hidden" name="palette_json" value={JSON.stringify(colors)} />
+      <input type="hidden" name="font_pairing_json" value={fontPairing ? JSON.stringify(fontPairing) : ""} />
 
       {paletteError ? <p className="text-sm text-red-700">{paletteError}</p> : null}
       {state.error ? <p className="text-sm text-red-700">{state.error}</p> : null}
@@ -1,17 +1,43 @@
 "use client";
 
-import { useActionState } from "react";
+import { useActionState, useState } from "react";
+import Image from "next/image";
 import { generateRoundOneAction, type GenerationActionState } from "@/app/app/projects/generation-actions";
+import type { DesignMode } from "@/lib/round1-v2/design-modes";
+import { MAX_PINNED_DESIGN_MODES } from "@/lib/round1-v2/design-mode-pins";
+
+export type DesignModeOption = {
+  mode: DesignMode;
+  label: string;
+  description: string;
+  thumbUrls: string[];
+  /** Why the mode cannot be pinned: a flag excludes it, or it is gated and no flag enables it. */
+  unavailable: "excluded_by_flag" | "not_enabled" | null;
+};
 
 type DesignDirectionsFormProps = {
   projectId: string;
   showGlobalBrandKitCallout?: boolean;
+  /** Round 1 V2 only: the modes users can pin. */
+  designModes?: DesignModeOption[];
+  pinnedModes?: DesignMode[];
 };
 
 const initialState: GenerationActionState = {};
 
-export function DesignDirectionsForm({ projectId, showGlobalBrandKitCallout = false }: DesignDirectionsFormProps) {
+export function DesignDirectionsForm({
+  projectId,
+  showGlobalBrandKitCallout = false,
+  designModes,
+  pinnedModes = []
+}: DesignDirectionsFormProps) {
   const [state, action, pending] = useActionState(generateRoundOneAction.bind(null, projectId), initialState);
+  const [pinned, setPinned] = useState<DesignMode[]>(pinnedModes);
+  const pinLimitReached = pinned.length >= MAX_PINNED_DESIGN_MODES;
+
+  const togglePin = (mode: DesignMode, checked: boolean) => {
+    setPinned((current) => (checked ? [...current, mode] : current.filter((item) => item !== mode)));
+  };
 
   return (
     <form action={action} className="space-y-5 rounded-xl border border-slate-200 bg-white p-6 shadow-sm">
@@ -27,6 +53,63 @@ export function DesignDirectionsForm({ projectId, showGlobalBrandKitCallout = fa
         </div>
       ) : null}
 
+      {designModes ? (
+        <fieldset className="space-y-3">
+          <input type="hidden" name="design_mode_picker" value="1" />
+          <legend className="text-sm font-medium text-slate-700">Design modes</legend>
+          <p className="text-xs text-slate-500">
+            Pin up to {MAX_PINNED_DESIGN_MODES} modes to use in Round 1. We choose modes for any options you leave open.
+          </p>
+          <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-3">
+            {designModes.map((option) => {
+              const checked = pinned.includes(option.mode);
+              const disabled = option.unavailable !== null || (!checked && pinLimitReached);
+              return (
+                <label
+                  key={option.mode}
+                  className={`flex flex-col gap-2 rounded-lg border p-3 text-sm ${
+                    checked ? "border-pine bg-emerald-50" : "border-slate-200"
+                  } ${disabled ? "opacity-60" : "cursor-pointer"}`}
+                >
+                  {option.thumbUrls.length > 0 ? (
+                    <div className="grid grid-cols-3 gap-1">
+                      {option.thumbUrls.map((thumbUrl) => (
+                        <Image
+                          key={thumbUrl}
+                          src={thumbUrl}
+                          alt=""
+                          width={160}
+                          height={90}
+                          unoptimized
+                          className="aspect-video w-full rounded object-cover"
+                        />
+                      ))}
+                    </div>
+                  ) : null}
+                  <span className="flex items-center gap-2 font-medium text-slate-800">
+                    <input
+                      type="checkbox"
+                      name="pinned_mode"
+                      value={option.mode}
+                      checked={checked}
+                      disabled={disabled}
+                      onChange={(event) => togglePin(option.mode, event.target.checked)}
+                    />
+                    {option.label}
+                  </span>
+                  <span className="text-xs text-slate-600">{option.description}</span>
+                  {option.unavailable ? (
+                    <span className="text-xs text-amber-700">
+                      {option.unavailable === "excluded_by_flag" ? "Turned off by an admin" : "Experimental — an admin must turn it on"}
+                    </span>
+                  ) : null}
+                </label>
+              );
+            })}
+          </div>
+        </fieldset>
+      ) : null}
+
       {state.error ? <p className="text-sm text-red-700">{state.error}</p> : null}
 
       <button type="submit" disabled={pending} className="rounded-md bg-pine px-4 py-2 font-medium text-white disabled:opacity-60">
@@ -0,0 +1,108 @@
+"use client";
+
+import { useActionState } from "react";
+import { updateDesignModeFlagsAction, type DesignModeFlagActionState } from "@/app/app/admin/design-modes/actions";
+import { DESIGN_MODES, DESIGN_MODE_META, type DesignMode } from "@/lib/round1-v2/design-modes";
+import { DESIGN_MODE_LANES, type DesignModeFlagSettings } from "@/lib/round1-v2/design-mode-flags";
+
+const initialState: DesignModeFlagActionState = {};
+
+type DesignModeFlagsFormProps = {
+  title: string;
+  description: string;
+  initialSettings: DesignModeFlagSettings | null;
+  /** Fixed project scope; null for the organization. */
+  projectId: string | null;
+  /** When set, the form picks its project from this list instead. */
+  projectOptions?: Array<{ id: string; title: string }>;
+};
+
+function modeState(settings: DesignModeFlagSettings | null, mode: DesignMode): string {
+  if (settings?.enabledModes.includes(mode)) return "enabled";
+  if (settings?.excludedModes.includes(mode)) return "excluded";
+  return "default";
+}
+
+function defaultLabel(mode: DesignMode): string {
+  const meta = DESIGN_MODE_META[mode];
+  if (meta.experimental) return "Default (off, experimental)";
+  return meta.defaultEnabled ? "Default (on)" : "Default (signal-gated)";
+}
+
+export function DesignModeFlagsForm({ title, description, initialSettings, projectId, projectOptions }: DesignModeFlagsFormProps) {
+  const [state, action, pending] = useActionState(updateDesignModeFlagsAction, initialState);
+
+  return (
+    <form action={action} className="space-y-4 rounded-xl border border-slate-200 bg-white p-6 shadow-sm">
+      <div>
+        <h2 className="text-lg font-semibold">{title}</h2>
+        <p className="text-sm text-slate-600">{description}</p>
+      </div>
+
+      {projectOptions ? (
+        <div className="space-y-2">
+          <label htmlFor="design_mode_project" className="text-sm font-medium text-slate-700">
+            Project
+          </label>
+          <select id="design_mode_project" name="project_id" required className="w-full rounded-md border border-slate-300 px-3 py-2">
+            <option value="">Choose a project</option>
+            {projectOptions.map((project) => (
+              <option key={project.id} value={project.id}>
+                {project.title}
+              </option>
+            ))}
+          </select>
+        </div>
+      ) : (
+        <input type="hidden" name="project_id" value={projectId ?? ""} />
+      )}
+
+      <div className="grid gap-2 sm:grid-cols-2">
+        {DESIGN_MODES.map((mode) => (
+          <label key={mode} className="flex items-center justify-between gap-3 text-sm">
+            <span>
+              {DESIGN_MODE_META[mode].label}
+              {DESIGN_MODE_META[mode].experimental ? <span className="ml-1 text-xs text-amber-700">experimental</span> : null}
+            </span>
+            <select
+              name={`mode_${mode}`}
+              defaultValue={modeState(initialSettings, mode)}
+              className="rounded-md border border-slate-300 px-2 py-1"
+            >
+              <option value="default">{defaultLabel(mode)}</option>
+              <option value="enabled">Enabled</option>
+              <option value="excluded">Excluded</option>
+            </select>
+          </label>
+        ))}
+      </div>
+
+      <div className="grid gap-2 sm:grid-cols-3">
+        {DESIGN_MODE_LANES.map((lane) => (
+          <label key={lane} className="space-y-1 text-sm">
+            <span className="font-medium text-slate-700">Force lane {lane}</span>
+            <select
+              name={`force_${lane}`}
+              defaultValue={initialSettings?.forcedLaneModes[lane] ?? ""}
+              className="w-full rounded-md border border-slate-300 px-2 py-1"
+            >
+              <option value="">Planner decides</option>
+              {DESIGN_MODES.map((mode) => (
+                <option key={mode} value={mode}>
+                  {DESIGN_MODE_META[mode].label}
+                </option>
+              ))}
+            </select>
+          </label>
+        ))}
+      </div>
+
+      {state.error ? <p className="text-sm text-red-700">{state.error}</p> : null}
+      {state.success ? <p className="text-sm font-medium text-emerald-700">{state.success}</p> : null}
+
+      <button type="submit" disabled={pending} className="rounded-md bg-pine px-4 py-2 font-medium text-white disabled:opacity-60">
+        {pending ? "Saving flags..." : "Save Flags"}
+      </button>
+    </form>
+  );
+}
@@ -10,12 +10,21 @@ import {
   type GenerationOptionStatus,
   isProviderFailureReason
 } from "@/lib/generation-state";
+import type { TextFitReport, TextFitStep } from "@/lib/lockups/renderer";
 import {
   summarizeProductionInvalidReasons,
   type ProductionValidationFailedChecks
 } from "@/lib/production-valid-option";
 
 type DirectionPreviewFormat = "wide" | "square" | "tall";
+
+const TEXT_FIT_STEP_LABELS: Record<TextFitStep, string> = {
+  fit: "fits",
+  resized: "resized",
+  added_lines: "added lines",
+  quote_card: "quote card",
+  legibility_warning: "below minimum size"
+};
 type AspectAssetStatus = "ok" | "missing" | "placeholder";
 type PreviewMode = "canonical_asset" | "fallback_asset" | "fallback_composite" | "fallback_design_doc";
 type DebugFinalistCanonicalization = {
@@ -67,6 +76,7 @@ type DirectionOptionCardProps = {
   isTitleStage?: boolean;
   wantsSeriesMark?: boolean;
   lockupLayout?: string | null;
+  textFit?: TextFitReport | null;
   motifFocus?: string[];
   styleFamilyName?: string | null;
   styleBucket?: string | null;
@@ -149,6 +159,7 @@ export function DirectionOptionCard({
   isTitleStage = false,
   wantsSeriesMark = false,
   lockupLayout = null,
+  textFit = null,
   motifFocus = [],
   styleFamilyName = null,
   styleBucket = null,
@@ -244,6 +255,7 @@ export function DirectionOptionCard({
     motifScope ? `Motif scope: ${motifScope}` : null,
     styleFamilyName ? `Style: ${styleFamilyName}` : null,
     lockupLayout ? `Lockup Layout: ${lockupLayout}` : null,
+    textFit && textFit.step !== "fit" ? `Text fit: ${TEXT_FIT_STEP_LABELS[textFit.step]}` : null,
     motifFocus.length > 0 ? `Motif focus: ${motifFocus.join(" + ")}` : null,
     brandMode ? `Mode: ${brandMode === "brand" ? "Brand-aligned" : "Fresh"}` : null,
     showDebugChips && debugReferenceId ? `Ref ID: ${debugReferenceId}` : null,
@@ -469,6 +481,11 @@ export function DirectionOptionCard({
         </div>
       ) : null}
 
+      {textFit?.warning ? (
+        <div className="rounded-md border border-amber-300 bg-amber-50 px-3 py-2 text-xs font-medium text-amber-900">
+          {textFit.warning}
+        </div>
+      ) : null}
       {showDebugChips && debugWarning ? (
         <div className="rounded-md border border-amber-300 bg-amber-50 px-3 py-2 text-xs font-medium text-amber-900">
           {debugWarning}
@@ -0,0 +1,102 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import {
+  GENERATION_PROGRESS_STAGE_LABELS,
+  getGenerationProgressStages,
+  isGenerationProgressStageReached,
+  type GenerationProgressSnapshot
+} from "@/lib/graphics-domain/generation-progress";
+
+type GenerationProgressProps = {
+  projectId: string;
+  generationId: string;
+  optionLabel: string;
+};
+
+function describeScouts(snapshot: GenerationProgressSnapshot): string | null {
+  if (snapshot.track !== "rebuild" || snapshot.scouts.planned === 0) {
+    return null;
+  }
+  const parts = [`${snapshot.scouts.planned} planned`, `${snapshot.scouts.generated} generated`];
+  if (snapshot.scouts.failed > 0) {
+    parts.push(`${snapshot.scouts.failed} failed`);
+  }
+  if (snapshot.scouts.rejected > 0) {
+    parts.push(`${snapshot.scouts.rejected} rejected`);
+  }
+  return `Scouts: ${parts.join(" · ")}`;
+}
+
+export function GenerationProgress({ projectId, generationId, optionLabel }: GenerationProgressProps) {
+  const router = useRouter();
+  const [snapshot, setSnapshot] = useState<GenerationProgressSnapshot | null>(null);
+  const [disconnected, setDisconnected] = useState(false);
+
+  useEffect(() => {
+    const source = new EventSource(`/api/projects/${projectId}/generations/${generationId}/progress`);
+
+    source.addEventListener("progress", (event) => {
+      const next = JSON.parse((event as MessageEvent<string>).data) as GenerationProgressSnapshot;
+      setSnapshot(next);
+      setDisconnected(false);
+      if (next.settled) {
+        source.close();
+        router.refresh();
+      }
+    });
+    source.addEventListener("gone", () => {
+      source.close();
+      router.refresh();
+    });
+    source.onerror = () => {
+      // EventSource retries on its own; surface the gap without tearing down the checklist.
+      setDisconnected(true);
+    };
+
+    return () => {
+      source.close();
+    };
+  }, [projectId, generationId, router]);
+
+  const stages = snapshot ? getGenerationProgressStages(snapshot.track) : [];
+  const scoutSummary = snapshot ? describeScouts(snapshot) : null;
+
+  return (
+    <div className="rounded-lg border border-sky-200 bg-white px-3 py-2 text-sm">
+      <div className="flex items-center justify-between gap-2">
+        <p className="font-medium text-slate-900">{optionLabel}</p>
+        <p className="text-xs text-slate-500">
+          {snapshot ? GENERATION_PROGRESS_STAGE_LABELS[snapshot.stage] : "Connecting…"}
+          {disconnected ? " (reconnecting)" : ""}
+        </p>
+      </div>
+      {snapshot ? (
+        <ol className="mt-2 space-y-1">
+          {stages.map((stage) => {
+            const reached = isGenerationProgressStageReached(snapshot, stage);
+            const current = stage === snapshot.stage && !snapshot.settled;
+            const skipped = stage === "backfill" && snapshot.settled && snapshot.rebuildAttempts <= 1;
+            return (
+              <li
+                key={stage}
+                className={`flex items-center gap-2 text-xs ${
+                  current ? "font-medium text-sky-800" : reached && !skipped ? "text-slate-700" : "text-slate-400"
+                }`}
+              >
+                <span aria-hidden="true">{current ? "●" : reached && !skipped ? "✓" : "○"}</span>
+                <span>
+                  {GENERATION_PROGRESS_STAGE_LABELS[stage]}
+                  {skipped ? " (not needed)" : ""}
+                  {stage === "settled" && snapshot.outcome === "FAILED" ? " (failed)" : ""}
+                </span>
+              </li>
+            );
+          })}
+        </ol>
+      ) : null}
+      {scoutSummary ? <p className="mt-2 text-xs text-slate-500">{scoutSummary}</p> : null}
+    </div>
+  );
+}
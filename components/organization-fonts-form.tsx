@@ -0,0 +1,136 @@
+"use client";
+
+import { useActionState } from "react";
+import {
+  deleteOrganizationFontAction,
+  uploadOrganizationFontsAction,
+  type OrganizationFontActionState
+} from "@/app/app/settings/actions";
+
+export type OrganizationFontListItem = {
+  id: string;
+  family: string;
+  weight: number;
+  style: string;
+  originalFileName: string;
+  byteSize: number;
+  subset: boolean;
+};
+
+type OrganizationFontsFormProps = {
+  fonts: OrganizationFontListItem[];
+};
+
+const FONT_WEIGHT_OPTIONS = [100, 200, 300, 400, 500, 600, 700, 800, 900];
+const initialState: OrganizationFontActionState = {};
+
+function formatFileSize(byteSize: number): string {
+  return byteSize >= 1024 * 1024 ? `${(byteSize / (1024 * 1024)).toFixed(1)} MB` : `${Math.max(1, Math.round(byteSize / 1024))} KB`;
+}
+
+export function OrganizationFontsForm({ fonts }: OrganizationFontsFormProps) {
+  const [state, action, pending] = useActionState(uploadOrganizationFontsAction, initialState);
+  const [deleteState, deleteAction, deleting] = useActionState(deleteOrganizationFontAction, initialState);
+
+  return (
+    <form action={action} className="space-y-5 rounded-xl border border-slate-200 bg-white p-6 shadow-sm">
+      <div>
+        <h2 className="text-lg font-semibold">Brand Fonts</h2>
+        <p className="text-sm text-slate-600">
+          Upload the licensed fonts your church uses. They can be picked for lockups in the Church Brand Kit and are embedded
+          in every export.
+        </p>
+      </div>
+
+      {fonts.length > 0 ? (
+        <ul className="divide-y divide-slate-200 rounded-md border border-slate-200">
+          {fonts.map((font) => (
+            <li key={font.id} className="flex items-center justify-between gap-3 px-3 py-2 text-sm">
+              <div>
+                <p className="font-medium text-slate-800">
+                  {font.family} {font.weight}
+                  {font.style === "italic" ? " Italic" : ""}
+                </p>
+                <p className="text-xs text-slate-500">
+                  {font.originalFileName} &middot; {formatFileSize(font.byteSize)}
+                  {font.subset ? " (subset)" : ""}
+                </p>
+              </div>
+              <button
+                type="submit"
+                name="font_id"
+                value={font.id}
+                formAction={deleteAction}
+                formNoValidate
+                disabled={deleting}
+                className="text-xs text-slate-500 underline disabled:opacity-60"
+              >
+                Remove
+              </button>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-sm text-slate-500">No brand fonts uploaded yet.</p>
+      )}
+
+      <div className="space-y-2">
+        <label htmlFor="font_files" className="text-sm font-medium text-slate-700">
+          Font Files
+        </label>
+        <input
+          id="font_files"
+          name="font_files"
+          type="file"
+          multiple
+          accept=".woff2,.ttf,.otf,font/woff2,font/ttf,font/otf"
+          className="block w-full text-sm text-slate-700 file:mr-3 file:rounded-md file:border-0 file:bg-slate-200 file:px-3 file:py-2 file:text-sm file:font-medium file:text-slate-800"
+        />
+        <p className="text-xs text-slate-500">
+          WOFF2, TTF, or OTF, up to 10MB each. Family, weight, and style are read from each file; set them below only to
+          override what the files declare.
+        </p>
+      </div>
+
+      <div className="grid gap-3 sm:grid-cols-3">
+        <input
+          name="font_family"
+          placeholder="Family (from file)"
+          aria-label="Font family override"
+          className="rounded-md border border-slate-300 px-3 py-2 text-sm"
+        />
+        <select
+          name="font_weight"
+          defaultValue=""
+          aria-label="Font weight override"
+          className="rounded-md border border-slate-300 px-3 py-2 text-sm"
+        >
+          <option value="">Weight (from file)</option>
+          {FONT_WEIGHT_OPTIONS.map((weight) => (
+            <option key={weight} value={weight}>
+              {weight}
+            </option>
+          ))}
+        </select>
+        <select
+          name="font_style"
+          defaultValue=""
+          aria-label="Font style override"
+          className="rounded-md border border-slate-300 px-3 py-2 text-sm"
+        >
+          <option value="">Style (from file)</option>
+          <option value="normal">Upright</option>
+          <option value="italic">Italic</option>
+        </select>
+      </div>
+
+      {state.error ? <p className="text-sm text-red-700">{state.error}</p> : null}
+      {state.success ? <p className="text-sm font-medium text-emerald-700">{state.success}</p> : null}
+      {deleteState.error ? <p className="text-sm text-red-700">{deleteState.error}</p> : null}
+
+      <button type="submit" disabled={pending} className="rounded-md bg-pine px-4 py-2 font-medium text-white disabled:opacity-60">
+        {pending ? "Uploading fonts..." : "Upload Fonts"}
+      </button>
+    </form>
+  );
+}
@@ -0,0 +1,63 @@
+"use client";
+
+import { useActionState } from "react";
+import { updateOrganizationQuotasAction, type OrganizationQuotaActionState } from "@/app/app/admin/quotas/actions";
+
+const initialState: OrganizationQuotaActionState = {};
+
+type OrganizationQuotaFormProps = {
+  initialMonthlyGenerationQuota: number | null;
+  initialMonthlySpendQuotaUsd: number | null;
+};
+
+export function OrganizationQuotaForm({ initialMonthlyGenerationQuota, initialMonthlySpendQuotaUsd }: OrganizationQuotaFormProps) {
+  const [state, action, pending] = useActionState(updateOrganizationQuotasAction, initialState);
+
+  return (
+    <form action={action} className="space-y-4 rounded-xl border border-slate-200 bg-white p-6 shadow-sm">
+      <div>
+        <h2 className="text-lg font-semibold">Monthly Limits</h2>
+        <p className="text-sm text-slate-600">Leave a field blank for no limit. Limits reset on the first of each month (UTC).</p>
+      </div>
+
+      <div className="space-y-2">
+        <label htmlFor="monthly_generation_quota" className="text-sm font-medium text-slate-700">
+          Generations per month
+        </label>
+        <input
+          id="monthly_generation_quota"
+          name="monthly_generation_quota"
+          type="number"
+          min={0}
+          step={1}
+          defaultValue={initialMonthlyGenerationQuota ?? ""}
+          className="w-full rounded-md border border-slate-300 px-3 py-2"
+          placeholder="Unlimited"
+        />
+      </div>
+
+      <div className="space-y-2">
+        <label htmlFor="monthly_spend_quota_usd" className="text-sm font-medium text-slate-700">
+          Estimated AI spend per month (USD)
+        </label>
+        <input
+          id="monthly_spend_quota_usd"
+          name="monthly_spend_quota_usd"
+          type="number"
+          min={0}
+          step="0.01"
+          defaultValue={initialMonthlySpendQuotaUsd ?? ""}
+          className="w-full rounded-md border border-slate-300 px-3 py-2"
+          placeholder="Unlimited"
+        />
+      </div>
+
+      {state.error ? <p className="text-sm text-red-700">{state.error}</p> : null}
+      {state.success ? <p className="text-sm font-medium text-emerald-700">{state.success}</p> : null}
+
+      <button type="submit" disabled={pending} className="rounded-md bg-pine px-4 py-2 font-medium text-white disabled:opacity-60">
+        {pending ? "Saving quotas..." : "Save Quotas"}
+      </button>
+    </form>
+  );
+}
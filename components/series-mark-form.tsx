@@ -0,0 +1,71 @@
+"use client";
+
+import { useActionState } from "react";
+import Image from "next/image";
+import { generateSeriesMarkAction, type SeriesMarkActionState } from "@/app/app/projects/actions";
+
+type SeriesMarkFormProps = {
+  projectId: string;
+  markIdeas: string[];
+  markPath: string | null;
+};
+
+const initialState: SeriesMarkActionState = {};
+
+export function SeriesMarkForm({ projectId, markIdeas, markPath }: SeriesMarkFormProps) {
+  const [state, action, pending] = useActionState(generateSeriesMarkAction.bind(null, projectId), initialState);
+
+  return (
+    <form action={action} className="space-y-5 rounded-xl border border-slate-200 bg-white p-6 shadow-sm">
+      <div>
+        <h2 className="text-lg font-semibold">Series Mark</h2>
+        <p className="text-sm text-slate-600">
+          A simple one-color icon for this series. It is used in lockups for directions that call for a mark, on the podcast
+          square, and as social avatars in the final bundle.
+        </p>
+      </div>
+
+      {markPath ? (
+        <div className="flex items-center gap-4">
+          <Image
+            src={`/${markPath.replace(/^\/+/, "")}`}
+            alt="Current series mark"
+            width={96}
+            height={96}
+            unoptimized
+            className="h-24 w-24 rounded-md border border-slate-200 bg-slate-50 p-2"
+          />
+          <p className="text-sm text-slate-600">Generating a new mark replaces this one.</p>
+        </div>
+      ) : (
+        <p className="text-sm text-slate-500">No series mark yet.</p>
+      )}
+
+      <fieldset className="space-y-2">
+        <legend className="text-sm font-medium text-slate-700">Mark idea</legend>
+        <div className="grid gap-2 sm:grid-cols-2">
+          {markIdeas.map((idea, index) => (
+            <label key={idea} className="flex items-center gap-2 rounded-md border border-slate-200 px-3 py-2 text-sm text-slate-700">
+              <input type="radio" name="mark_idea" value={idea} defaultChecked={index === 0} />
+              {idea}
+            </label>
+          ))}
+        </div>
+        <input
+          name="custom_mark_idea"
+          placeholder="Or describe your own (e.g. lantern-and-path seal)"
+          aria-label="Custom mark idea"
+          maxLength={120}
+          className="w-full rounded-md border border-slate-300 px-3 py-2 text-sm"
+        />
+      </fieldset>
+
+      {state.error ? <p className="text-sm text-red-700">{state.error}</p> : null}
+      {state.success ? <p className="text-sm font-medium text-emerald-700">{state.success}</p> : null}
+
+      <button type="submit" disabled={pending} className="rounded-md bg-pine px-4 py-2 font-medium text-white disabled:opacity-60">
+        {pending ? "Generating mark..." : markPath ? "Regenerate Mark" : "Generate Mark"}
+      </button>
+    </form>
+  );
+}
@@ -0,0 +1,89 @@
+"use client";
+
+import { useActionState } from "react";
+import { createWeekAction, generateWeekVariantsAction, type WeekActionState } from "@/app/app/projects/week-actions";
+
+const initialState: WeekActionState = {};
+
+type WeekFormProps = {
+  projectId: string;
+};
+
+export function WeekForm({ projectId }: WeekFormProps) {
+  const [state, action, pending] = useActionState(createWeekAction.bind(null, projectId), initialState);
+
+  return (
+    <form action={action} className="space-y-4 rounded-xl border border-slate-200 bg-white p-6 shadow-sm">
+      <div>
+        <h2 className="text-lg font-semibold">Add a Week</h2>
+        <p className="text-sm text-slate-600">Weekly fields are optional. The weekly module only appears when at least one is filled in.</p>
+      </div>
+
+      <div className="space-y-2">
+        <label htmlFor="week_title" className="text-sm font-medium text-slate-700">
+          Week Title
+        </label>
+        <input
+          id="week_title"
+          name="week_title"
+          className="w-full rounded-md border border-slate-300 px-3 py-2"
+          placeholder="Week 1: Called Out"
+        />
+      </div>
+
+      <div className="space-y-2">
+        <label htmlFor="scripture_ref" className="text-sm font-medium text-slate-700">
+          Scripture Reference
+        </label>
+        <input
+          id="scripture_ref"
+          name="scripture_ref"
+          className="w-full rounded-md border border-slate-300 px-3 py-2"
+          placeholder="Exodus 3:1-12"
+        />
+      </div>
+
+      <div className="space-y-2">
+        <label htmlFor="quote" className="text-sm font-medium text-slate-700">
+          Quote
+        </label>
+        <textarea
+          id="quote"
+          name="quote"
+          rows={3}
+          className="w-full rounded-md border border-slate-300 px-3 py-2"
+          placeholder="I will be with you."
+        />
+      </div>
+
+      {state.error ? <p className="text-sm text-red-700">{state.error}</p> : null}
+
+      <button type="submit" disabled={pending} className="rounded-md bg-pine px-4 py-2 font-medium text-white disabled:opacity-60">
+        {pending ? "Adding week..." : "Add week"}
+      </button>
+    </form>
+  );
+}
+
+type WeekVariantsButtonProps = {
+  projectId: string;
+  weekId: string;
+  hasOutput: boolean;
+};
+
+export function WeekVariantsButton({ projectId, weekId, hasOutput }: WeekVariantsButtonProps) {
+  const [state, action, pending] = useActionState(generateWeekVariantsAction.bind(null, projectId, weekId), initialState);
+
+  return (
+    <form action={action} className="space-y-1">
+      <button
+        type="submit"
+        disabled={pending}
+        className="inline-flex rounded-md border border-slate-300 px-3 py-1.5 text-sm font-medium text-slate-700 hover:bg-slate-50 disabled:opacity-60"
+      >
+        {pending ? "Rendering slides..." : hasOutput ? "Regenerate weekly slides" : "Generate weekly slides"}
+      </button>
+      {state.error ? <p className="text-xs text-red-700">{state.error}</p> : null}
+    </form>
+  );
+}
@@ -0,0 +1,26 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { estimateAiCostUsd } from "@/lib/ai-harness/core/pricing";
+
+test("per-image models price by quality when a quality table exists", () => {
+  assert.equal(estimateAiCostUsd("gpt-image-1", { quality: "high" }), 0.25);
+  assert.equal(estimateAiCostUsd("gpt-image-1", { quality: "ultra" }), 0.063);
+  assert.equal(estimateAiCostUsd("fal-ai/nano-banana-pro"), 0.15);
+});
+
+test("megapixel models round partial megapixels up", () => {
+  assert.equal(estimateAiCostUsd("fal-ai/flux/dev", { widthPx: 1536, heightPx: 1024 }), 0.05);
+  assert.equal(estimateAiCostUsd("fal-ai/flux/schnell", { widthPx: 768, heightPx: 432 }), 0.003);
+});
+
+test("token models price input and output tokens separately", () => {
+  assert.equal(estimateAiCostUsd("gpt-4.1-mini", { inputTokens: 2_000, outputTokens: 500 }), 0.0016);
+  assert.equal(estimateAiCostUsd("gpt-4.1-mini", { inputTokens: 1_000_000, outputTokens: 0 }), 0.4);
+  assert.equal(estimateAiCostUsd("gpt-4.1-mini"), null);
+});
+
+test("unknown models are unpriced rather than free", () => {
+  assert.equal(estimateAiCostUsd("some/new-model"), null);
+  assert.equal(estimateAiCostUsd(undefined), null);
+  assert.equal(estimateAiCostUsd("local/procedural-gradient-v1"), 0);
+});
@@ -0,0 +1,70 @@
+// Estimated list prices per provider model, in USD. Keyed by the provider's model id so both the
+// harness (route.model.providerModel) and Round 1 V2 (result.providerModel) price the same way.
+// These are estimates for spend reporting, not invoices — update when provider pricing changes.
+
+export type AiModelPrice =
+  | { unit: "image"; usd: number; usdByQuality?: Partial<Record<"low" | "medium" | "high", number>> }
+  | { unit: "megapixel"; usd: number }
+  | { unit: "token"; inputUsdPerMillion: number; outputUsdPerMillion: number }
+  | { unit: "call"; usd: number };
+
+export const AI_MODEL_PRICES: Readonly<Record<string, AiModelPrice>> = {
+  "gpt-image-1": { unit: "image", usd: 0.063, usdByQuality: { low: 0.016, medium: 0.063, high: 0.25 } },
+  "gpt-4.1-mini": { unit: "token", inputUsdPerMillion: 0.4, outputUsdPerMillion: 1.6 },
+  "fal-ai/flux/dev": { unit: "megapixel", usd: 0.025 },
+  "fal-ai/flux/schnell": { unit: "megapixel", usd: 0.003 },
+  "fal-ai/nano-banana-pro": { unit: "image", usd: 0.15 },
+  "fal-ai/nano-banana": { unit: "image", usd: 0.039 },
+  "local/procedural-gradient-v1": { unit: "call", usd: 0 }
+};
+
+export type AiCostUsage = {
+  widthPx?: number | null;
+  heightPx?: number | null;
+  quality?: string | null;
+  imageCount?: number | null;
+  inputTokens?: number | null;
+  outputTokens?: number | null;
+};
+
+function roundUsd(value: number): number {
+  return Math.round(value * 1_000_000) / 1_000_000;
+}
+
+/**
+ * Estimated cost of one successful provider call. Null when the model has no price entry, so
+ * reports can flag unpriced spend instead of silently counting it as free.
+ */
+export function estimateAiCostUsd(providerModel: string | null | undefined, usage: AiCostUsage = {}): number | null {
+  const price = providerModel ? AI_MODEL_PRICES[providerModel] : undefined;
+  if (!price) {
+    return null;
+  }
+
+  if (price.unit === "call") {
+    return roundUsd(price.usd);
+  }
+
+  if (price.unit === "token") {
+    // Without reported token usage there is nothing to price; leave it unpriced rather than guess.
+    if (usage.inputTokens == null && usage.outputTokens == null) {
+      return null;
+    }
+    return roundUsd(
+      ((usage.inputTokens ?? 0) * price.inputUsdPerMillion + (usage.outputTokens ?? 0) * price.outputUsdPerMillion) /
+        1_000_000
+    );
+  }
+
+  const imageCount = Math.max(1, usage.imageCount ?? 1);
+  if (price.unit === "megapixel") {
+    const megapixels =
+      usage.widthPx && usage.heightPx ? (usage.widthPx * usage.heightPx) / 1_000_000 : 1;
+    // Providers bill partial megapixels up to the next whole one.
+    return roundUsd(price.usd * Math.ceil(megapixels) * imageCount);
+  }
+
+  const quality = usage.quality as keyof NonNullable<typeof price.usdByQuality> | null | undefined;
+  const perImage = (quality && price.usdByQuality?.[quality]) ?? price.usd;
+  return roundUsd(perImage * imageCount);
+}
@@ -1,6 +1,10 @@
 import assert from "node:assert/strict";
 import test from "node:test";
-import { resolveOperationRoute } from "@/lib/ai-harness/core/registry";
+import {
+  parseOperationRoutesEnv,
+  resolveOperationRoute,
+  resolveOperationRoutes
+} from "@/lib/ai-harness/core/registry";
 
 test("background generation still resolves the default OpenAI image route", () => {
   const previousEnv = {
@@ -32,3 +36,105 @@ test("background generation still resolves the default OpenAI image route", () =
     }
   }
 });
+
+function withEnv(overrides: Record<string, string | undefined>, run: () => void) {
+  const previous = Object.fromEntries(Object.keys(overrides).map((key) => [key, process.env[key]]));
+  for (const [key, value] of Object.entries(overrides)) {
+    if (typeof value === "string") {
+      process.env[key] = value;
+    } else {
+      delete process.env[key];
+    }
+  }
+
+  try {
+    run();
+  } finally {
+    for (const [key, value] of Object.entries(previous)) {
+      if (typeof value === "string") {
+        process.env[key] = value;
+      } else {
+        delete process.env[key];
+      }
+    }
+  }
+}
+
+test("route env parsing skips unknown models, duplicates and bad weights", () => {
+  assert.deepEqual(parseOperationRoutesEnv("fal_nano_banana_pro:3, openai_image_default , nope:1, fal_nano_banana:-1, fal_nano_banana_pro:1"), [
+    { modelKey: "fal_nano_banana_pro", weight: 3 },
+    { modelKey: "openai_image_default", weight: 1 }
+  ]);
+  assert.deepEqual(parseOperationRoutesEnv("   "), []);
+});
+
+test("background generation defaults to FAL Flux Dev with an OpenAI fallback route", () => {
+  withEnv({ AI_ROUTES_GENERATE_BACKGROUND_IMAGE: undefined, FAL_IMAGE_PROVIDER_ENABLED: undefined }, () => {
+    const routes = resolveOperationRoutes({ operationKey: "generate_background_image", routingKey: "run-1" });
+
+    assert.deepEqual(
+      routes.map((route) => route.model.key),
+      ["fal_flux_dev", "openai_image_default"]
+    );
+    assert.equal(routes[0].operation.providerKey, "fal_image");
+    assert.equal(routes[0].providerConfigVersion, "fal_image:fal_flux_dev:fal-ai/flux/dev");
+  });
+});
+
+test("weighted routes split traffic deterministically by routing key and keep fallbacks last", () => {
+  withEnv(
+    { AI_ROUTES_GENERATE_BACKGROUND_IMAGE: "fal_nano_banana_pro:1,openai_image_default:1,fal_nano_banana:0" },
+    () => {
+      const primaries = new Map<string, number>();
+      for (let index = 0; index < 200; index += 1) {
+        const routingKey = `run-${index}`;
+        const routes = resolveOperationRoutes({ operationKey: "generate_background_image", routingKey });
+        const again = resolveOperationRoutes({ operationKey: "generate_background_image", routingKey });
+
+        assert.equal(routes[0].model.key, again[0].model.key);
+        assert.equal(routes.length, 3);
+        assert.equal(routes[2].model.key, "fal_nano_banana");
+        primaries.set(routes[0].model.key, (primaries.get(routes[0].model.key) ?? 0) + 1);
+      }
+
+      assert.ok((primaries.get("fal_nano_banana_pro") ?? 0) > 60, JSON.stringify([...primaries]));
+      assert.ok((primaries.get("openai_image_default") ?? 0) > 60, JSON.stringify([...primaries]));
+    }
+  );
+});
+
+test("disabled providers and unsupported models drop out of the route list", () => {
+  withEnv(
+    {
+      AI_ROUTES_GENERATE_BACKGROUND_IMAGE: "fal_nano_banana_pro:1,openai_text_default:1,openai_image_default:0",
+      FAL_IMAGE_PROVIDER_ENABLED: "false"
+    },
+    () => {
+      const routes = resolveOperationRoutes({ operationKey: "generate_background_image", routingKey: "run-1" });
+      assert.deepEqual(
+        routes.map((route) => route.model.key),
+        ["openai_image_default"]
+      );
+    }
+  );
+
+  withEnv({ AI_ROUTES_GENERATE_BACKGROUND_IMAGE: "fal_nano_banana:1", FAL_IMAGE_PROVIDER_ENABLED: "off" }, () => {
+    assert.throws(
+      () => resolveOperationRoutes({ operationKey: "generate_background_image" }),
+      (error: unknown) => (error as { errorClass?: string }).errorClass === "MODEL_UNAVAILABLE"
+    );
+  });
+});
+
+test("a pinned model key resolves to that single route", () => {
+  withEnv({ AI_ROUTES_GENERATE_BACKGROUND_IMAGE: undefined }, () => {
+    const routes = resolveOperationRoutes({
+      operationKey: "generate_background_image",
+      modelKey: "fal_nano_banana_pro"
+    });
+
+    assert.equal(routes.length, 1);
+    assert.equal(routes[0].provider.key, "fal_image");
+    assert.equal(routes[0].model.providerModel, "fal-ai/nano-banana-pro");
+  });
+});
@@ -1,3 +1,4 @@
+import { createHash } from "crypto";
 import {
   createModelUnavailableError,
   createProviderConfigurationError
@@ -9,8 +10,10 @@ import type {
   AiOperationKey,
   AiOperationRoute,
   AiProviderDefinition,
-  AiProviderKey
+  AiProviderKey,
+  AiRouteConfig
 } from "@/lib/ai-harness/core/types";
+import { AI_MODEL_KEYS } from "@/lib/ai-harness/core/types";
 
 const DEFAULT_OPENAI_IMAGE_MODEL = "gpt-image-1";
 const DEFAULT_OPENAI_TEXT_MODEL = "gpt-4.1-mini";
@@ -33,23 +36,55 @@ function readProviderEnabled(providerKey: AiProviderKey): boolean {
     return readBooleanEnvFlag(process.env.OPENAI_IMAGE_PROVIDER_ENABLED, true);
   }
 
+  if (providerKey === "fal_image") {
+    return readBooleanEnvFlag(process.env.FAL_IMAGE_PROVIDER_ENABLED, true);
+  }
+
   return readBooleanEnvFlag(process.env.OPENAI_TEXT_PROVIDER_ENABLED, true);
 }
 
-function resolveProviderModel(modelKey: AiModelKey): string {
-  if (modelKey === "openai_image_default") {
-    return process.env.OPENAI_IMAGE_MODEL?.trim() || DEFAULT_OPENAI_IMAGE_MODEL;
+// Env var names for each model's provider model id and enable flag. FAL defaults match the
+// models Round 1 V2 already calls (lib/round1-v2/providers) plus the V1 Flux Dev background.
+const MODEL_ENV: Record<AiModelKey, { modelEnv: string; enabledEnv: string; defaultModel: string }> = {
+  openai_image_default: {
+    modelEnv: "OPENAI_IMAGE_MODEL",
+    enabledEnv: "OPENAI_IMAGE_MODEL_ENABLED",
+    defaultModel: DEFAULT_OPENAI_IMAGE_MODEL
+  },
+  openai_text_default: {
+    modelEnv: "OPENAI_MAIN_MODEL",
+    enabledEnv: "OPENAI_TEXT_MODEL_ENABLED",
+    defaultModel: DEFAULT_OPENAI_TEXT_MODEL
+  },
+  fal_flux_dev: {
+    modelEnv: "FAL_FLUX_DEV_MODEL",
+    enabledEnv: "FAL_FLUX_DEV_MODEL_ENABLED",
+    defaultModel: "fal-ai/flux/dev"
+  },
+  fal_flux_schnell: {
+    modelEnv: "FAL_FLUX_SCHNELL_MODEL",
+    enabledEnv: "FAL_FLUX_SCHNELL_MODEL_ENABLED",
+    defaultModel: "fal-ai/flux/schnell"
+  },
+  fal_nano_banana_pro: {
+    modelEnv: "FAL_NANO_BANANA_PRO_MODEL",
+    enabledEnv: "FAL_NANO_BANANA_PRO_MODEL_ENABLED",
+    defaultModel: "fal-ai/nano-banana-pro"
+  },
+  fal_nano_banana: {
+    modelEnv: "FAL_NANO_BANANA_MODEL",
+    enabledEnv: "FAL_NANO_BANANA_MODEL_ENABLED",
+    defaultModel: "fal-ai/nano-banana"
   }
+};
 
-  return process.env.OPENAI_MAIN_MODEL?.trim() || DEFAULT_OPENAI_TEXT_MODEL;
+function resolveProviderModel(modelKey: AiModelKey): string {
+  const env = MODEL_ENV[modelKey];
+  return process.env[env.modelEnv]?.trim() || env.defaultModel;
 }
 
 function readModelEnabled(modelKey: AiModelKey): boolean {
-  if (modelKey === "openai_image_default") {
-    return readBooleanEnvFlag(process.env.OPENAI_IMAGE_MODEL_ENABLED, true);
-  }
-
-  return readBooleanEnvFlag(process.env.OPENAI_TEXT_MODEL_ENABLED, true);
+  return readBooleanEnvFlag(process.env[MODEL_ENV[modelKey].enabledEnv], true);
 }
 
 const PROVIDER_METADATA: Record<
@@ -65,6 +100,11 @@ const PROVIDER_METADATA: Record<
     key: "openai_text",
     name: "OpenAI Text",
     supportedOperations: ["generate_lockup_text", "generate_copy"]
+  },
+  fal_image: {
+    key: "fal_image",
+    name: "FAL Image",
+    supportedOperations: ["generate_background_image"]
   }
 };
 
@@ -81,6 +121,26 @@ const MODEL_METADATA: Record<
     key: "openai_text_default",
     providerKey: "openai_text",
     supportedOperations: ["generate_lockup_text", "generate_copy"]
+  },
+  fal_flux_dev: {
+    key: "fal_flux_dev",
+    providerKey: "fal_image",
+    supportedOperations: ["generate_background_image"]
+  },
+  fal_flux_schnell: {
+    key: "fal_flux_schnell",
+    providerKey: "fal_image",
+    supportedOperations: ["generate_background_image"]
+  },
+  fal_nano_banana_pro: {
+    key: "fal_nano_banana_pro",
+    providerKey: "fal_image",
+    supportedOperations: ["generate_background_image"]
+  },
+  fal_nano_banana: {
+    key: "fal_nano_banana",
+    providerKey: "fal_image",
+    supportedOperations: ["generate_background_image"]
   }
 };
 
@@ -102,6 +162,51 @@ const OPERATION_METADATA: Record<AiOperationKey, Omit<AiOperationDefinition, "en
   }
 };
 
+// Ordered routes per operation. The first weighted route wins for a routing key, the rest are
+// tried in order as fallbacks. Override with AI_ROUTES_<OPERATION_KEY>, e.g.
+// AI_ROUTES_GENERATE_BACKGROUND_IMAGE="fal_nano_banana_pro:50,openai_image_default:50,fal_nano_banana:0".
+const DEFAULT_OPERATION_ROUTES: Record<AiOperationKey, readonly AiRouteConfig[]> = {
+  generate_background_image: [
+    { modelKey: "fal_flux_dev", weight: 1 },
+    { modelKey: "openai_image_default", weight: 0 }
+  ],
+  generate_lockup_text: [{ modelKey: "openai_text_default", weight: 1 }],
+  generate_copy: [{ modelKey: "openai_text_default", weight: 1 }]
+};
+
+function isModelKey(value: string): value is AiModelKey {
+  return (AI_MODEL_KEYS as readonly string[]).includes(value);
+}
+
+/** Parses "model_key[:weight],..." — unknown models and bad weights are skipped; weight defaults to 1. */
+export function parseOperationRoutesEnv(value: string | undefined): AiRouteConfig[] {
+  if (!value?.trim()) {
+    return [];
+  }
+
+  const routes: AiRouteConfig[] = [];
+  for (const entry of value.split(",")) {
+    const [rawModelKey, rawWeight] = entry.split(":").map((part) => part.trim());
+    if (!rawModelKey || !isModelKey(rawModelKey) || routes.some((route) => route.modelKey === rawModelKey)) {
+      continue;
+    }
+
+    const weight = typeof rawWeight === "undefined" || rawWeight === "" ? 1 : Number(rawWeight);
+    if (!Number.isFinite(weight) || weight < 0) {
+      continue;
+    }
+
+    routes.push({ modelKey: rawModelKey, weight });
+  }
+
+  return routes;
+}
+
+export function resolveOperationRouteConfig(operationKey: AiOperationKey): readonly AiRouteConfig[] {
+  const override = parseOperationRoutesEnv(process.env[`AI_ROUTES_${operationKey.toUpperCase()}`]);
+  return override.length > 0 ? override : DEFAULT_OPERATION_ROUTES[operationKey];
+}
+
 export function resolveProviderDefinition(providerKey: AiProviderKey): AiProviderDefinition {
   const metadata = PROVIDER_METADATA[providerKey];
   return {
@@ -182,3 +287,99 @@ export function resolveOperationRoute(params: {
     providerConfigVersion: `${provider.key}:${model.key}:${model.providerModel}`
   };
 }
+
+function buildRoute(operationKey: AiOperationKey, modelKey: AiModelKey): AiOperationRoute | null {
+  const model = resolveModelDefinition(modelKey);
+  const provider = resolveProviderDefinition(model.providerKey);
+  if (!provider.enabled || !model.enabled || !model.supportedOperations.includes(operationKey)) {
+    return null;
+  }
+
+  return {
+    operation: {
+      ...OPERATION_METADATA[operationKey],
+      providerKey: provider.key,
+      defaultModelKey: model.key,
+      enabled: true
+    },
+    provider,
+    model,
+    providerConfigVersion: `${provider.key}:${model.key}:${model.providerModel}`
+  };
+}
+
+// Stable [0, 1) bucket so the same routing key (e.g. a run id) always lands on the same route.
+function readRoutingBucket(routingKey: string): number {
+  return createHash("sha256").update(routingKey).digest().readUInt32BE(0) / 0x1_0000_0000;
+}
+
+/**
+ * Ordered routes for an operation: the weighted pick for `routingKey` first, then the other
+ * weighted routes, then weight-0 fallbacks, all in configured order. Disabled or unsupported
+ * routes are dropped. A pinned `modelKey` resolves to that single route.
+ */
+export function resolveOperationRoutes(params: {
+  operationKey: AiOperationKey;
+  modelKey?: AiModelKey | null;
+  routingKey?: string | null;
+}): AiOperationRoute[] {
+  if (params.modelKey) {
+    const pinned = buildRoute(params.operationKey, params.modelKey);
+    if (!pinned) {
+      throw createModelUnavailableError(
+        {
+          providerKey: MODEL_METADATA[params.modelKey].providerKey,
+          modelKey: params.modelKey,
+          operationKey: params.operationKey,
+          providerModel: resolveProviderModel(params.modelKey)
+        },
+        `AI model ${params.modelKey} is unavailable for ${params.operationKey}`
+      );
+    }
+    return [pinned];
+  }
+
+  const configured = resolveOperationRouteConfig(params.operationKey);
+  const available = configured.flatMap((config) => {
+    const route = buildRoute(params.operationKey, config.modelKey);
+    return route ? [{ route, weight: config.weight }] : [];
+  });
+
+  if (available.length === 0) {
+    const first = configured[0];
+    const providerKey = first ? MODEL_METADATA[first.modelKey].providerKey : OPERATION_METADATA[params.operationKey].providerKey;
+    const modelKey = first?.modelKey ?? OPERATION_METADATA[params.operationKey].defaultModelKey;
+    throw createModelUnavailableError(
+      {
+        providerKey,
+        modelKey,
+        operationKey: params.operationKey,
+        providerModel: resolveProviderModel(modelKey)
+      },
+      `No enabled AI route is configured for ${params.operationKey}`
+    );
+  }
+
+  const weighted = available.filter((entry) => entry.weight > 0);
+  const totalWeight = weighted.reduce((sum, entry) => sum + entry.weight, 0);
+  let primaryIndex = 0;
+  if (weighted.length > 1) {
+    const target = (params.routingKey ? readRoutingBucket(params.routingKey) : Math.random()) * totalWeight;
+    let cumulative = 0;
+    primaryIndex = weighted.findIndex((entry) => {
+      cumulative += entry.weight;
+      return target < cumulative;
+    });
+    if (primaryIndex < 0) {
+      primaryIndex = weighted.length - 1;
+    }
+  }
+
+  const primary = weighted[primaryIndex];
+  const ordered = [
+    ...(primary ? [primary] : []),
+    ...weighted.filter((entry) => entry !== primary),
+    ...available.filter((entry) => entry.weight <= 0)
+  ];
+  return ordered.map((entry) => entry.route);
+}
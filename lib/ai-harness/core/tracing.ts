@@ -4,14 +4,25 @@ import {
   completeAiAttemptFailure,
   completeAiAttemptSuccess
 } from "@/lib/ai-harness/storage/attempts";
-import { normalizeProviderError } from "@/lib/ai-harness/core/errors";
+import { isAiProviderError, normalizeProviderError } from "@/lib/ai-harness/core/errors";
+import { estimateAiCostUsd, type AiCostUsage } from "@/lib/ai-harness/core/pricing";
 import type {
   AiAttemptTrace,
+  AiErrorClass,
   AiInputJsonValue,
   AiOperationRoute,
   AiRunRecord
 } from "@/lib/ai-harness/core/types";
 
+// Failures that say nothing about the request itself, so the next route may still succeed.
+const ROUTE_FALLBACK_ERROR_CLASSES: readonly AiErrorClass[] = [
+  "MODEL_UNAVAILABLE",
+  "QUOTA_EXCEEDED",
+  "TRANSIENT_PROVIDER_FAILURE",
+  "MISCONFIGURED_PROVIDER",
+  "TIMEOUT"
+];
+
 const CLAIM_TIMEOUT_ATTEMPT_MESSAGE = "Attempt abandoned after claimed generation execution timed out.";
 
 class AiHarnessStaleExecutionError extends Error {
@@ -68,6 +79,7 @@ export async function traceAiProviderCall<TOutput>(params: {
     output: TOutput;
     providerRequestId?: string | null;
     outputJson?: AiInputJsonValue | null;
+    usage?: AiCostUsage;
   }>;
 }): Promise<AiAttemptTrace<TOutput>> {
   const assertActive = async () => {
@@ -138,7 +150,8 @@ export async function traceAiProviderCall<TOutput>(params: {
     const completedAttempt = await completeAiAttemptSuccess({
       id: attempt.id,
       providerRequestId: result.providerRequestId ?? null,
-      outputJson: result.outputJson ?? null
+      outputJson: result.outputJson ?? null,
+      estimatedCostUsd: estimateAiCostUsd(params.route.model.providerModel, result.usage)
     });
 
     if (!completedAttempt.success) {
@@ -186,3 +199,52 @@ export async function traceAiProviderCall<TOutput>(params: {
     throw normalizedError;
   }
 }
+
+/**
+ * Runs `call` against each route in order, recording one AiAttempt per route tried. Moves to
+ * the next route only on provider-side failures; invalid responses, validation failures and
+ * stale-execution errors are rethrown immediately.
+ */
+export async function traceAiProviderCallWithFallbacks<TOutput>(params: {
+  run: AiRunRecord;
+  routes: readonly AiOperationRoute[];
+  promptVersion: string;
+  requestBody: (route: AiOperationRoute) => unknown;
+  assertActive?: () => Promise<void> | void;
+  call: (route: AiOperationRoute) => Promise<{
+    output: TOutput;
+    providerRequestId?: string | null;
+    outputJson?: AiInputJsonValue | null;
+    usage?: AiCostUsage;
+  }>;
+}): Promise<AiAttemptTrace<TOutput>> {
+  if (params.routes.length === 0) {
+    throw new Error("traceAiProviderCallWithFallbacks requires at least one route");
+  }
+
+  let lastError: unknown = null;
+  for (const [index, route] of params.routes.entries()) {
+    try {
+      return await traceAiProviderCall({
+        run: params.run,
+        route,
+        promptVersion: params.promptVersion,
+        requestBody: params.requestBody(route),
+        assertActive: params.assertActive,
+        call: () => params.call(route)
+      });
+    } catch (error) {
+      const isLastRoute = index === params.routes.length - 1;
+      if (isLastRoute || !isAiProviderError(error) || !ROUTE_FALLBACK_ERROR_CLASSES.includes(error.errorClass)) {
+        throw error;
+      }
+
+      lastError = error;
+      console.warn(
+        `[ai-harness] ${route.operation.key} route ${route.providerConfigVersion} failed with ${error.errorClass}; trying ${params.routes[index + 1]?.providerConfigVersion}`
+      );
+    }
+  }
+
+  throw lastError;
+}
@@ -1,9 +1,16 @@
 import type { Prisma } from "@prisma/client";
 
-export const AI_PROVIDER_KEYS = ["openai_image", "openai_text"] as const;
+export const AI_PROVIDER_KEYS = ["openai_image", "openai_text", "fal_image"] as const;
 export type AiProviderKey = (typeof AI_PROVIDER_KEYS)[number];
 
-export const AI_MODEL_KEYS = ["openai_image_default", "openai_text_default"] as const;
+export const AI_MODEL_KEYS = [
+  "openai_image_default",
+  "openai_text_default",
+  "fal_flux_dev",
+  "fal_flux_schnell",
+  "fal_nano_banana_pro",
+  "fal_nano_banana"
+] as const;
 export type AiModelKey = (typeof AI_MODEL_KEYS)[number];
 
 export const AI_OPERATION_KEYS = ["generate_background_image", "generate_lockup_text", "generate_copy"] as const;
@@ -49,6 +56,13 @@ export type AiOperationDefinition = {
   enabled: boolean;
 };
 
+// One configured route for an operation. Weight is the share of primary traffic the route
+// receives; weight 0 routes are only tried as fallbacks.
+export type AiRouteConfig = {
+  modelKey: AiModelKey;
+  weight: number;
+};
+
 export type AiOperationRoute = {
   operation: AiOperationDefinition;
   provider: AiProviderDefinition;
@@ -87,6 +101,7 @@ export type AiAttemptRecord = {
   errorClass: AiErrorClass | null;
   providerStatusCode: number | null;
   outputJson: AiJsonValue | null;
+  estimatedCostUsd: number | null;
 };
 
 export type AiEvalResultRecord = {
@@ -154,6 +169,7 @@ export type AiAttemptSuccessInput = {
   id: string;
   providerRequestId?: string | null;
   outputJson?: AiInputJsonValue | null;
+  estimatedCostUsd?: number | null;
   completedAt?: Date;
 };
 
@@ -0,0 +1,108 @@
+import "server-only";
+
+import { fal } from "@fal-ai/client";
+import { createInvalidResponseError } from "@/lib/ai-harness/core/errors";
+import type { AiCostUsage } from "@/lib/ai-harness/core/pricing";
+import type { AiInputJsonValue, AiModelKey, AiOperationRoute } from "@/lib/ai-harness/core/types";
+
+type FalImageOutput = {
+  images?: Array<{ url?: string }>;
+};
+
+type FalImageSize = { width: number; height: number };
+
+// Flux models take explicit pixel sizes; the Nano Banana family only takes an aspect ratio.
+function buildFalImageInput(modelKey: AiModelKey, prompt: string, size: FalImageSize): Record<string, unknown> {
+  if (modelKey === "fal_nano_banana_pro" || modelKey === "fal_nano_banana") {
+    const ratio = size.width / size.height;
+    const aspectRatio = ratio > 1.2 ? "3:2" : ratio < 0.83 ? "2:3" : "1:1";
+    return {
+      prompt,
+      aspect_ratio: aspectRatio,
+      num_images: 1,
+      output_format: "png",
+      ...(modelKey === "fal_nano_banana_pro" ? { resolution: "2K" } : {})
+    };
+  }
+
+  if (modelKey === "fal_flux_schnell") {
+    return {
+      prompt,
+      image_size: size,
+      num_inference_steps: 4
+    };
+  }
+
+  return {
+    prompt,
+    image_size: size,
+    num_inference_steps: 28,
+    guidance_scale: 3.5
+  };
+}
+
+async function fetchFalImageBytes(url: string): Promise<Buffer> {
+  let response: Response | null = null;
+  for (let attempt = 1; attempt <= 3; attempt++) {
+    response = await fetch(url);
+    if (response.ok) break;
+    if (attempt < 3) await new Promise((resolve) => setTimeout(resolve, 2000));
+  }
+  if (!response || !response.ok) {
+    throw new Error(`Failed to fetch fal.ai image after 3 attempts: ${response?.status} ${response?.statusText}`);
+  }
+
+  return Buffer.from(await response.arrayBuffer());
+}
+
+export async function runFalImageRequest(params: {
+  route: AiOperationRoute;
+  prompt: string;
+  size: FalImageSize;
+}): Promise<{
+  output: { imagePng: Buffer; providerRequestId: string | null };
+  providerRequestId: string | null;
+  outputJson: AiInputJsonValue;
+  usage: AiCostUsage;
+}> {
+  const { route } = params;
+  fal.config({ credentials: process.env.FAL_API_KEY?.trim() });
+
+  const result = await fal.subscribe(route.model.providerModel, {
+    input: buildFalImageInput(route.model.key, params.prompt, params.size)
+  });
+  const providerRequestId = typeof result.requestId === "string" && result.requestId ? result.requestId : null;
+  const imageUrl = (result.data as FalImageOutput | undefined)?.images?.[0]?.url;
+  if (!imageUrl) {
+    throw createInvalidResponseError(
+      {
+        providerKey: route.provider.key,
+        modelKey: route.model.key,
+        operationKey: route.operation.key,
+        providerModel: route.model.providerModel,
+        providerConfigVersion: route.providerConfigVersion
+      },
+      `fal.ai ${route.model.providerModel} returned no image URL`
+    );
+  }
+
+  const imagePng = await fetchFalImageBytes(imageUrl);
+  return {
+    output: {
+      imagePng,
+      providerRequestId
+    },
+    providerRequestId,
+    outputJson: {
+      mimeType: "image/png",
+      bytes: imagePng.byteLength,
+      width: params.size.width,
+      height: params.size.height
+    },
+    usage: {
+      widthPx: params.size.width,
+      heightPx: params.size.height,
+      imageCount: 1
+    }
+  };
+}
@@ -0,0 +1,109 @@
+import "server-only";
+
+import { createProviderConfigurationError } from "@/lib/ai-harness/core/errors";
+import { resolveOperationRoutes } from "@/lib/ai-harness/core/registry";
+import { traceAiProviderCallWithFallbacks } from "@/lib/ai-harness/core/tracing";
+import type {
+  AiAttemptTrace,
+  AiModelKey,
+  AiOperationKey,
+  AiOperationRoute,
+  AiProviderKey,
+  AiRunRecord
+} from "@/lib/ai-harness/core/types";
+import { runFalImageRequest } from "@/lib/ai-harness/providers/fal-image";
+import {
+  hashOpenAiImageReferences,
+  resolveOpenAiImageQuality,
+  runOpenAiImageRequest,
+  type OpenAiImageQuality,
+  type OpenAiImageReference,
+  type OpenAiImageSize
+} from "@/lib/ai-harness/providers/openai-image";
+import type { GptImageDebugMeta } from "@/lib/gptImageRateLimit";
+
+const PROVIDER_API_KEY_ENV: Partial<Record<AiProviderKey, string>> = {
+  openai_image: "OPENAI_API_KEY",
+  fal_image: "FAL_API_KEY"
+};
+
+function hasProviderCredentials(providerKey: AiProviderKey): boolean {
+  const envName = PROVIDER_API_KEY_ENV[providerKey];
+  return !envName || Boolean(process.env[envName]?.trim());
+}
+
+function parseImageSize(size: OpenAiImageSize): { width: number; height: number } {
+  const [width, height] = size.split("x").map((value) => Number.parseInt(value, 10));
+  return { width, height };
+}
+
+/**
+ * Generates an image over the operation's configured routes (see resolveOperationRoutes).
+ * Routes whose provider has no API key are skipped before any attempt is recorded; the run id
+ * is the routing key, so weighted A/B splits stay stable across retries of the same run.
+ */
+export async function generateImageWithHarness(params: {
+  run: AiRunRecord;
+  operationKey: Extract<AiOperationKey, "generate_background_image">;
+  promptVersion: string;
+  prompt: string;
+  /** Per-route prompt, for providers that expect a differently worded prompt. */
+  promptForRoute?: (route: AiOperationRoute) => string;
+  size: OpenAiImageSize;
+  quality?: OpenAiImageQuality;
+  references?: OpenAiImageReference[];
+  modelKey?: AiModelKey | null;
+  disable429Retry?: boolean;
+  assertActive?: () => Promise<void> | void;
+  meta?: {
+    debug?: GptImageDebugMeta;
+  };
+}): Promise<AiAttemptTrace<{ imagePng: Buffer; providerRequestId: string | null }>> {
+  const resolvedRoutes = resolveOperationRoutes({
+    operationKey: params.operationKey,
+    modelKey: params.modelKey ?? null,
+    routingKey: params.run.id
+  });
+  const routes = resolvedRoutes.filter((route) => hasProviderCredentials(route.provider.key));
+
+  if (routes.length === 0) {
+    const route = resolvedRoutes[0];
+    throw createProviderConfigurationError(
+      {
+        providerKey: route.provider.key,
+        modelKey: route.model.key,
+        operationKey: route.operation.key,
+        providerModel: route.model.providerModel,
+        providerConfigVersion: route.providerConfigVersion
+      },
+      `${PROVIDER_API_KEY_ENV[route.provider.key]} is not configured`
+    );
+  }
+
+  const quality = resolveOpenAiImageQuality(params.quality);
+  const referenceHashes = hashOpenAiImageReferences(params.references);
+  const promptFor = (route: AiOperationRoute) => params.promptForRoute?.(route) ?? params.prompt;
+
+  return traceAiProviderCallWithFallbacks({
+    run: params.run,
+    routes,
+    promptVersion: params.promptVersion,
+    assertActive: params.assertActive,
+    requestBody: (route) =>
+      route.provider.key === "openai_image"
+        ? { prompt: promptFor(route), size: params.size, quality, referenceHashes }
+        : { prompt: promptFor(route), size: params.size },
+    call: (route) =>
+      route.provider.key === "fal_image"
+        ? runFalImageRequest({ route, prompt: promptFor(route), size: parseImageSize(params.size) })
+        : runOpenAiImageRequest({
+            route,
+            prompt: promptFor(route),
+            size: params.size,
+            quality,
+            references: params.references,
+            disable429Retry: params.disable429Retry,
+            meta: params.meta
+          })
+  });
+}
@@ -1,5 +1,5 @@
+export { generateImageWithHarness } from "@/lib/ai-harness/providers/image";
 export {
-  generateImageWithOpenAiHarness,
   type OpenAiImageQuality,
   type OpenAiImageReference,
   type OpenAiImageSize
@@ -3,18 +3,9 @@ import "server-only";
 import { createHash } from "crypto";
 import { runWithGptImage429Retry, runWithGptImageBudget, type GptImageDebugMeta } from "@/lib/gptImageRateLimit";
 import { getOpenAI } from "@/lib/openai";
-import {
-  createInvalidResponseError,
-  createProviderConfigurationError
-} from "@/lib/ai-harness/core/errors";
-import { resolveOperationRoute } from "@/lib/ai-harness/core/registry";
-import { traceAiProviderCall } from "@/lib/ai-harness/core/tracing";
-import type {
-  AiAttemptTrace,
-  AiModelKey,
-  AiOperationKey,
-  AiRunRecord
-} from "@/lib/ai-harness/core/types";
+import { createInvalidResponseError } from "@/lib/ai-harness/core/errors";
+import type { AiCostUsage } from "@/lib/ai-harness/core/pricing";
+import type { AiInputJsonValue, AiOperationRoute } from "@/lib/ai-harness/core/types";
 
 export type OpenAiImageSize = "1024x1024" | "1536x1024" | "1024x1536";
 export type OpenAiImageQuality = "low" | "medium" | "high";
@@ -68,28 +59,51 @@ function extractGeneratedImageB64(response: unknown): string {
   throw new Error("OpenAI images response had no b64_json");
 }
 
-export async function generateImageWithOpenAiHarness(params: {
-  run: AiRunRecord;
-  operationKey: Extract<AiOperationKey, "generate_background_image">;
-  promptVersion: string;
+export function resolveOpenAiImageQuality(requested?: OpenAiImageQuality): OpenAiImageQuality {
+  return normalizeQuality(process.env.OPENAI_IMAGE_QUALITY?.trim(), requested ?? DEFAULT_IMAGE_QUALITY);
+}
+
+export function hashOpenAiImageReferences(references?: OpenAiImageReference[]): string[] {
+  return (references || []).map((reference) => hashReferenceImage(reference.dataUrl));
+}
+
+export async function runOpenAiImageRequest(params: {
+  route: AiOperationRoute;
   prompt: string;
   size: OpenAiImageSize;
-  quality?: OpenAiImageQuality;
+  quality: OpenAiImageQuality;
   references?: OpenAiImageReference[];
-  modelKey?: AiModelKey | null;
   disable429Retry?: boolean;
-  assertActive?: () => Promise<void> | void;
   meta?: {
     debug?: GptImageDebugMeta;
   };
-}): Promise<AiAttemptTrace<{ imagePng: Buffer; providerRequestId: string | null }>> {
-  const route = resolveOperationRoute({
-    operationKey: params.operationKey,
-    modelKey: params.modelKey ?? null
-  });
-
-  if (!process.env.OPENAI_API_KEY?.trim()) {
-    throw createProviderConfigurationError(
+}): Promise<{
+  output: { imagePng: Buffer; providerRequestId: string | null };
+  providerRequestId: string | null;
+  outputJson: AiInputJsonValue;
+  usage: AiCostUsage;
+}> {
+  const { route } = params;
+  const runImageRequest = () =>
+    runWithGptImageBudget(
+      () =>
+        getOpenAI().images.generate({
+          model: route.model.providerModel,
+          prompt: params.prompt,
+          size: params.size,
+          quality: params.quality,
+          background: "opaque",
+          n: 1
+        }),
+      params.meta
+    );
+  const response = params.disable429Retry ? await runImageRequest() : await runWithGptImage429Retry(runImageRequest, params.meta);
+
+  let imageB64 = "";
+  try {
+    imageB64 = extractGeneratedImageB64(response);
+  } catch (error) {
+    throw createInvalidResponseError(
       {
         providerKey: route.provider.key,
         modelKey: route.model.key,
@@ -97,73 +111,30 @@ export async function generateImageWithOpenAiHarness(params: {
         providerModel: route.model.providerModel,
         providerConfigVersion: route.providerConfigVersion
       },
-      "OPENAI_API_KEY is not configured"
+      "OpenAI image response did not include generated image output",
+      error
     );
   }
 
-  const quality = normalizeQuality(process.env.OPENAI_IMAGE_QUALITY?.trim(), params.quality ?? DEFAULT_IMAGE_QUALITY);
+  const imagePng = Buffer.from(imageB64, "base64");
+  const providerRequestId = readProviderRequestId(response);
 
-  return traceAiProviderCall({
-    run: params.run,
-    route,
-    promptVersion: params.promptVersion,
-    assertActive: params.assertActive,
-    requestBody: {
-      prompt: params.prompt,
+  return {
+    output: {
+      imagePng,
+      providerRequestId
+    },
+    providerRequestId,
+    outputJson: {
+      mimeType: "image/png",
+      bytes: imagePng.byteLength,
       size: params.size,
-      quality,
-      referenceHashes: (params.references || []).map((reference) => hashReferenceImage(reference.dataUrl))
+      quality: params.quality,
+      referenceCount: (params.references || []).length
     },
-    call: async () => {
-      const runImageRequest = () =>
-        runWithGptImageBudget(
-          () =>
-            getOpenAI().images.generate({
-              model: route.model.providerModel,
-              prompt: params.prompt,
-              size: params.size,
-              quality,
-              background: "opaque",
-              n: 1
-            }),
-          params.meta
-        );
-      const response = params.disable429Retry ? await runImageRequest() : await runWithGptImage429Retry(runImageRequest, params.meta);
-
-      let imageB64 = "";
-      try {
-        imageB64 = extractGeneratedImageB64(response);
-      } catch (error) {
-        throw createInvalidResponseError(
-          {
-            providerKey: route.provider.key,
-            modelKey: route.model.key,
-            operationKey: route.operation.key,
-            providerModel: route.model.providerModel,
-            providerConfigVersion: route.providerConfigVersion
-          },
-          "OpenAI image response did not include generated image output",
-          error
-        );
-      }
-
-      const imagePng = Buffer.from(imageB64, "base64");
-      const providerRequestId = readProviderRequestId(response);
-
-      return {
-        output: {
-          imagePng,
-          providerRequestId
-        },
-        providerRequestId,
-        outputJson: {
-          mimeType: "image/png",
-          bytes: imagePng.byteLength,
-          size: params.size,
-          quality,
-          referenceCount: (params.references || []).length
-        }
-      };
+    usage: {
+      quality: params.quality,
+      imageCount: 1
     }
-  });
+  };
 }
@@ -122,6 +122,10 @@ export async function generateTextWithOpenAiHarness(params: {
         providerRequestId,
         outputJson: {
           textLength: text.length
+        },
+        usage: {
+          inputTokens: response.usage?.input_tokens ?? null,
+          outputTokens: response.usage?.output_tokens ?? null
         }
       };
     }
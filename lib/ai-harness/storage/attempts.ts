@@ -88,7 +88,8 @@ function mapAiAttempt(record: PrismaAiAttempt): AiAttemptRecord {
     success: record.success,
     errorClass: record.errorClass as AiAttemptRecord["errorClass"],
     providerStatusCode: record.providerStatusCode,
-    outputJson: record.outputJson as AiJsonValue | null
+    outputJson: record.outputJson as AiJsonValue | null,
+    estimatedCostUsd: record.estimatedCostUsd
   };
 }
 
@@ -224,7 +225,8 @@ export async function completeAiAttemptSuccess(input: AiAttemptSuccessInput): Pr
         success: true,
         errorClass: null,
         providerStatusCode: null,
-        outputJson: toNullableJsonInput(input.outputJson ?? null)
+        outputJson: toNullableJsonInput(input.outputJson ?? null),
+        estimatedCostUsd: input.estimatedCostUsd ?? null
       }
     });
 
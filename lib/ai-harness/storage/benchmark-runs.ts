@@ -122,3 +122,53 @@ export async function logBenchmarkRun(params: {
     })
   );
 }
+
+export async function listBenchmarkRunsByCodeVersion(params: {
+  codeVersion: string;
+  featureKey?: string | null;
+}): Promise<BenchmarkRunRecord[]> {
+  const records = await prisma.benchmarkRun.findMany({
+    where: {
+      codeVersion: params.codeVersion,
+      ...(params.featureKey ? { run: { featureKey: params.featureKey } } : {})
+    },
+    orderBy: {
+      createdAt: "asc"
+    }
+  });
+  return records.map(mapBenchmarkRun);
+}
+
+export type BenchmarkCodeVersionSummary = {
+  codeVersion: string;
+  runCount: number;
+  latestAt: Date;
+};
+
+export async function listBenchmarkCodeVersions(params: {
+  featureKey?: string | null;
+} = {}): Promise<BenchmarkCodeVersionSummary[]> {
+  const records = await prisma.benchmarkRun.findMany({
+    where: {
+      codeVersion: { not: null },
+      ...(params.featureKey ? { run: { featureKey: params.featureKey } } : {})
+    },
+    select: {
+      codeVersion: true,
+      createdAt: true
+    }
+  });
+
+  const byVersion = new Map<string, BenchmarkCodeVersionSummary>();
+  for (const record of records) {
+    if (!record.codeVersion) continue;
+    const entry = byVersion.get(record.codeVersion);
+    if (!entry) {
+      byVersion.set(record.codeVersion, { codeVersion: record.codeVersion, runCount: 1, latestAt: record.createdAt });
+    } else {
+      entry.runCount += 1;
+      if (record.createdAt > entry.latestAt) entry.latestAt = record.createdAt;
+    }
+  }
+  return [...byVersion.values()].sort((a, b) => b.latestAt.getTime() - a.latestAt.getTime());
+}
@@ -0,0 +1,91 @@
+import "server-only";
+
+import { buildAiSpendReport, type AiSpendEntry, type AiSpendReport } from "@/lib/ai-spend";
+import { prisma } from "@/lib/prisma";
+
+export type OrganizationSpendReport = AiSpendReport & {
+  since: Date;
+  projectTitles: Record<string, string>;
+};
+
+export async function loadOrganizationSpendReport(params: {
+  organizationId: string;
+  windowDays: number;
+  projectId?: string | null;
+}): Promise<OrganizationSpendReport> {
+  const since = new Date(Date.now() - params.windowDays * 24 * 60 * 60 * 1000);
+  const projects = await prisma.project.findMany({
+    where: {
+      organizationId: params.organizationId,
+      ...(params.projectId ? { id: params.projectId } : {})
+    },
+    select: { id: true, series_title: true }
+  });
+  const projectIds = projects.map((project) => project.id);
+
+  // Sum in the database per parent run / generation, model and outcome, so the report reads a
+  // handful of grouped rows instead of every call in the window.
+  const [attemptGroups, scoutGroups, rebuildGroups] = await Promise.all([
+    prisma.aiAttempt.groupBy({
+      by: ["runId", "modelKey", "success"],
+      where: { startedAt: { gte: since }, run: { projectId: { in: projectIds } } },
+      _count: { _all: true, estimatedCostUsd: true },
+      _sum: { estimatedCostUsd: true }
+    }),
+    prisma.scoutRun.groupBy({
+      by: ["generationId", "providerModel", "status"],
+      where: { createdAt: { gte: since }, generation: { projectId: { in: projectIds } } },
+      _count: { _all: true, estimatedCostUsd: true },
+      _sum: { estimatedCostUsd: true }
+    }),
+    prisma.rebuildAttempt.groupBy({
+      by: ["generationId", "providerModel", "status"],
+      where: { createdAt: { gte: since }, generation: { projectId: { in: projectIds } } },
+      _count: { _all: true, estimatedCostUsd: true },
+      _sum: { estimatedCostUsd: true }
+    })
+  ]);
+
+  const [runs, generations] = await Promise.all([
+    prisma.aiRun.findMany({
+      where: { id: { in: [...new Set(attemptGroups.map((group) => group.runId))] } },
+      select: { id: true, projectId: true }
+    }),
+    prisma.generation.findMany({
+      where: { id: { in: [...new Set([...scoutGroups, ...rebuildGroups].map((group) => group.generationId))] } },
+      select: { id: true, projectId: true }
+    })
+  ]);
+  const runProjectIds = new Map(runs.map((run) => [run.id, run.projectId]));
+  const generationProjectIds = new Map(generations.map((generation) => [generation.id, generation.projectId]));
+
+  const entries: AiSpendEntry[] = [
+    ...attemptGroups.map((group) => ({
+      source: "ai_attempt" as const,
+      projectId: runProjectIds.get(group.runId) ?? "unknown",
+      model: group.modelKey,
+      succeeded: group.success,
+      callCount: group._count._all,
+      pricedCallCount: group._count.estimatedCostUsd,
+      estimatedCostUsd: group._sum.estimatedCostUsd ?? 0
+    })),
+    ...[
+      ...scoutGroups.map((group) => ({ ...group, source: "scout" as const })),
+      ...rebuildGroups.map((group) => ({ ...group, source: "rebuild" as const }))
+    ].map((group) => ({
+      source: group.source,
+      projectId: generationProjectIds.get(group.generationId) ?? "unknown",
+      model: group.providerModel,
+      succeeded: group.status === "SUCCESS",
+      callCount: group._count._all,
+      pricedCallCount: group._count.estimatedCostUsd,
+      estimatedCostUsd: group._sum.estimatedCostUsd ?? 0
+    }))
+  ];
+
+  return {
+    ...buildAiSpendReport(entries),
+    since,
+    projectTitles: Object.fromEntries(projects.map((project) => [project.id, project.series_title]))
+  };
+}
@@ -0,0 +1,55 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { buildAiSpendReport, formatUsd, type AiSpendEntry } from "@/lib/ai-spend";
+
+function entry(overrides: Partial<AiSpendEntry> & Pick<AiSpendEntry, "source" | "projectId" | "model">): AiSpendEntry {
+  return { succeeded: true, callCount: 1, pricedCallCount: 1, estimatedCostUsd: 0, ...overrides };
+}
+
+const ENTRIES: AiSpendEntry[] = [
+  entry({ source: "scout", projectId: "p1", model: "fal-ai/flux/schnell", estimatedCostUsd: 0.003 }),
+  entry({ source: "scout", projectId: "p1", model: "fal-ai/flux/schnell", succeeded: false, pricedCallCount: 0 }),
+  entry({ source: "rebuild", projectId: "p1", model: "fal-ai/nano-banana-pro", estimatedCostUsd: 0.3 }),
+  entry({ source: "ai_attempt", projectId: "p2", model: "openai_image_default", estimatedCostUsd: 0.063 }),
+  entry({ source: "ai_attempt", projectId: "p2", model: "custom_model", pricedCallCount: 0 })
+];
+
+test("spend report totals by source, project and model", () => {
+  const report = buildAiSpendReport(ENTRIES);
+
+  assert.equal(report.totalUsd, 0.366);
+  assert.equal(report.callCount, 5);
+  assert.equal(report.unpricedCount, 1);
+  assert.deepEqual(
+    report.byProject.map((bucket) => [bucket.key, bucket.totalUsd, bucket.callCount]),
+    [
+      ["p1", 0.303, 3],
+      ["p2", 0.063, 2]
+    ]
+  );
+  assert.equal(report.bySource.find((bucket) => bucket.key === "rebuild")?.totalUsd, 0.3);
+  assert.equal(report.byModel[0].key, "fal-ai/nano-banana-pro");
+  assert.equal(report.byModel.find((bucket) => bucket.key === "custom_model")?.unpricedCount, 1);
+});
+
+test("grouped rows count every call and flag only the unpriced successful ones", () => {
+  const report = buildAiSpendReport([
+    entry({ source: "ai_attempt", projectId: "p1", model: "gpt-4.1-mini", callCount: 40, pricedCallCount: 37, estimatedCostUsd: 0.05 }),
+    entry({ source: "ai_attempt", projectId: "p1", model: "gpt-4.1-mini", succeeded: false, callCount: 3, pricedCallCount: 0 })
+  ]);
+  assert.equal(report.callCount, 43);
+  assert.equal(report.unpricedCount, 3);
+  assert.equal(report.totalUsd, 0.05);
+});
+
+test("failed calls without a cost are counted but not flagged as unpriced", () => {
+  const report = buildAiSpendReport(ENTRIES.slice(0, 2));
+  assert.equal(report.callCount, 2);
+  assert.equal(report.unpricedCount, 0);
+});
+
+test("formatUsd keeps sub-dollar precision", () => {
+  assert.equal(formatUsd(0.0034), "$0.003");
+  assert.equal(formatUsd(12.5), "$12.50");
+  assert.equal(formatUsd(0), "$0.00");
+});
@@ -0,0 +1,82 @@
+export type AiSpendSource = "ai_attempt" | "scout" | "rebuild";
+
+export const AI_SPEND_SOURCE_LABELS: Record<AiSpendSource, string> = {
+  ai_attempt: "AI harness calls",
+  scout: "V2 scouts",
+  rebuild: "V2 rebuilds"
+};
+
+// Calls that share a source, project, model and outcome, already summed by the database.
+export type AiSpendEntry = {
+  source: AiSpendSource;
+  projectId: string;
+  model: string | null;
+  succeeded: boolean;
+  callCount: number;
+  // Calls in the group that recorded a cost; estimatedCostUsd is their sum.
+  pricedCallCount: number;
+  estimatedCostUsd: number;
+};
+
+export type AiSpendBucket = {
+  key: string;
+  totalUsd: number;
+  callCount: number;
+  // Successful calls whose model has no price entry; their spend is missing from totalUsd.
+  unpricedCount: number;
+};
+
+export type AiSpendReport = {
+  totalUsd: number;
+  callCount: number;
+  unpricedCount: number;
+  bySource: AiSpendBucket[];
+  byProject: AiSpendBucket[];
+  byModel: AiSpendBucket[];
+};
+
+function roundUsd(value: number): number {
+  return Math.round(value * 1_000_000) / 1_000_000;
+}
+
+function addToBucket(buckets: Map<string, AiSpendBucket>, key: string, entry: AiSpendEntry) {
+  const bucket = buckets.get(key) ?? { key, totalUsd: 0, callCount: 0, unpricedCount: 0 };
+  bucket.callCount += entry.callCount;
+  bucket.totalUsd = roundUsd(bucket.totalUsd + entry.estimatedCostUsd);
+  if (entry.succeeded) {
+    bucket.unpricedCount += entry.callCount - entry.pricedCallCount;
+  }
+  buckets.set(key, bucket);
+}
+
+function sortedBuckets(buckets: Map<string, AiSpendBucket>): AiSpendBucket[] {
+  return [...buckets.values()].sort((a, b) => b.totalUsd - a.totalUsd || b.callCount - a.callCount || a.key.localeCompare(b.key));
+}
+
+export function buildAiSpendReport(entries: readonly AiSpendEntry[]): AiSpendReport {
+  const bySource = new Map<string, AiSpendBucket>();
+  const byProject = new Map<string, AiSpendBucket>();
+  const byModel = new Map<string, AiSpendBucket>();
+  const total: AiSpendBucket = { key: "total", totalUsd: 0, callCount: 0, unpricedCount: 0 };
+  const totals = new Map([["total", total]]);
+
+  for (const entry of entries) {
+    addToBucket(totals, "total", entry);
+    addToBucket(bySource, entry.source, entry);
+    addToBucket(byProject, entry.projectId, entry);
+    addToBucket(byModel, entry.model ?? "unknown", entry);
+  }
+
+  return {
+    totalUsd: total.totalUsd,
+    callCount: total.callCount,
+    unpricedCount: total.unpricedCount,
+    bySource: sortedBuckets(bySource),
+    byProject: sortedBuckets(byProject),
+    byModel: sortedBuckets(byModel)
+  };
+}
+
+export function formatUsd(value: number): string {
+  return `$${value.toFixed(value > 0 && value < 1 ? 3 : 2)}`;
+}
@@ -108,6 +108,23 @@ export async function requireSession() {
   return session;
 }
 
+/**
+ * Platform admins run the product itself rather than one church. Data that is not scoped to an
+ * organization, such as benchmark history, is only shown to OWNER/ADMIN members of an organization
+ * listed in PLATFORM_ADMIN_ORGANIZATION_IDS (comma-separated).
+ */
+export function isPlatformAdmin(session: AppSession) {
+  if (session.role !== "OWNER" && session.role !== "ADMIN") {
+    return false;
+  }
+
+  const organizationIds = (process.env.PLATFORM_ADMIN_ORGANIZATION_IDS || "")
+    .split(",")
+    .map((id) => id.trim())
+    .filter(Boolean);
+  return organizationIds.includes(session.organizationId);
+}
+
 export async function logout() {
   const cookieStore = await cookies();
   const token = cookieStore.get(SESSION_COOKIE_NAME)?.value;
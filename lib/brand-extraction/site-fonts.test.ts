@@ -0,0 +1,95 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { registerFontAssets } from "@/src/design/fonts/font-assets";
+import { matchLibraryFontFamily, matchSiteFont, matchSiteFontPairing, readSiteFontPairing, toLockupFontPairing } from "./site-fonts";
+
+const ORGANIZATION_ID = "org-site-fonts-test";
+import type { ExtractedSiteFont } from "./site-snapshot";
+
+function siteFont(overrides: Partial<ExtractedSiteFont> & { family: string }): ExtractedSiteFont {
+  return { webFont: true, roles: [], weights: [], generic: null, occurrences: 1, ...overrides };
+}
+
+test("matches site fonts onto font assets at the slot's weight", () => {
+  const playfair = siteFont({ family: "Playfair Display", weights: [400, 700] });
+
+  assert.equal(matchSiteFont(playfair, "title")?.fontId, "PlayfairDisplay-Bold");
+  assert.equal(matchSiteFont(playfair, "subtitle")?.fontId, "PlayfairDisplay-Regular");
+  assert.equal(matchSiteFont(siteFont({ family: "Manrope Variable" }), "title")?.fontId, "Manrope-SemiBold");
+});
+
+test("falls back to curated families, then to a library stand-in for the site's generic family", () => {
+  const inter = matchSiteFont(siteFont({ family: "Inter" }), "subtitle");
+  assert.deepEqual(inter, {
+    siteFamily: "Inter",
+    libraryFamily: "Inter",
+    fontId: null,
+    curatedFamily: "Inter",
+    matchedBy: "curated_family"
+  });
+
+  const gotham = matchSiteFont(siteFont({ family: "Gotham", generic: "sans-serif" }), "subtitle");
+  assert.equal(gotham?.fontId, "Manrope-Regular");
+  assert.equal(gotham?.libraryFamily, "Manrope");
+  assert.equal(gotham?.matchedBy, "generic_fallback");
+
+  assert.equal(matchSiteFont(siteFont({ family: "Gotham" }), "title"), null);
+});
+
+test("a pairing borrows the other slot's family when one site font cannot be matched", () => {
+  const pairing = matchSiteFontPairing({
+    headingFont: siteFont({ family: "Brandon Grotesque" }),
+    bodyFont: siteFont({ family: "Source Serif 4" })
+  });
+
+  assert.equal(pairing?.title.fontId, "SourceSerif4-SemiBold");
+  assert.equal(pairing?.subtitle.fontId, "SourceSerif4-Regular");
+  assert.equal(matchSiteFontPairing({ headingFont: siteFont({ family: "Gotham" }), bodyFont: null }), null);
+});
+
+test("stored pairings round-trip into a lockup font pairing", () => {
+  const stored = JSON.parse(
+    JSON.stringify(
+      matchSiteFontPairing({
+        headingFont: siteFont({ family: "Playfair Display", weights: [700] }),
+        bodyFont: siteFont({ family: "Inter" })
+      })
+    )
+  );
+  const pairing = readSiteFontPairing(stored);
+  assert.ok(pairing);
+
+  const lockup = toLockupFontPairing(pairing);
+  assert.equal(lockup.titleFontId, "PlayfairDisplay-Bold");
+  assert.match(lockup.titleFont, /^Playfair Display,/);
+  assert.match(lockup.subtitleFont, /^Inter,/);
+  assert.equal(lockup.profileId, "brand_site");
+});
+
+test("readSiteFontPairing rejects malformed or unknown fonts", () => {
+  assert.equal(readSiteFontPairing(null), null);
+  assert.equal(readSiteFontPairing({ title: { siteFamily: "X", fontId: "Nope-Bold" }, subtitle: {} }), null);
+});
+
+test("uploaded brand fonts match the site's licensed family before any stand-in", () => {
+  registerFontAssets(ORGANIZATION_ID, [
+    { id: "org-gotham-book", family: "Gotham", style: "normal", weight: 400, file: "/uploads/fonts/gotham-book.woff2", displayName: "Gotham Book", tags: [] },
+    { id: "org-gotham-bold", family: "Gotham", style: "normal", weight: 700, file: "/uploads/fonts/gotham-bold.woff2", displayName: "Gotham Bold", tags: [] }
+  ]);
+
+  try {
+    const gotham = matchSiteFont(siteFont({ family: "Gotham", generic: "sans-serif" }), "subtitle", ORGANIZATION_ID);
+    assert.equal(gotham?.fontId, "org-gotham-book");
+    assert.equal(gotham?.matchedBy, "font_asset");
+    assert.equal(matchLibraryFontFamily("Gotham", "title", ORGANIZATION_ID)?.fontId, "org-gotham-bold");
+    assert.equal(readSiteFontPairing({ title: gotham, subtitle: gotham }, ORGANIZATION_ID)?.title.fontId, "org-gotham-book");
+
+    assert.equal(matchLibraryFontFamily("Gotham", "title", "org-other-church"), null);
+    assert.equal(matchLibraryFontFamily("Gotham", "title"), null);
+    assert.equal(readSiteFontPairing({ title: gotham, subtitle: gotham }, "org-other-church"), null);
+  } finally {
+    registerFontAssets(ORGANIZATION_ID, []);
+  }
+
+  assert.equal(matchLibraryFontFamily("Gotham", "title", ORGANIZATION_ID), null);
+});
@@ -0,0 +1,172 @@
+import { resolveCuratedFontFamily, type CuratedFontFamily } from "@/lib/lockups/font-registry";
+import { resolvePinnedFontPairing, type FontPairing } from "@/lib/lockups/fonts";
+import { getFontAssetById, getFontAssetsByFamily, hasFontAssetId, type FontAsset } from "@/src/design/fonts/font-assets";
+import type { ExtractedSiteFont, GenericFontFamily, SiteBrandExtraction } from "./site-snapshot";
+
+export type SiteFontMatchSource = "font_asset" | "curated_family" | "generic_fallback";
+
+export type SiteFontMatch = {
+  /** The family as the site declares it. */
+  siteFamily: string;
+  /** The library family that renders it. */
+  libraryFamily: string;
+  fontId: string | null;
+  curatedFamily: CuratedFontFamily | null;
+  matchedBy: SiteFontMatchSource;
+};
+
+/** The lockup fonts a brand kit pins from its site (stored as OrganizationBrandKit.fontPairingJson). */
+export type SiteFontPairing = {
+  title: SiteFontMatch;
+  subtitle: SiteFontMatch;
+};
+
+export type FontSlot = "title" | "subtitle";
+
+const SITE_FONT_PAIRING_PROFILE_ID = "brand_site";
+const DEFAULT_SLOT_WEIGHT: Record<FontSlot, number> = {
+  title: 700,
+  subtitle: 400
+};
+const FAMILY_SUFFIX_PATTERN = /\s+(variable|vf|web|webfont|pro|std|regular)$/i;
+const MATCH_SOURCES: readonly SiteFontMatchSource[] = ["font_asset", "curated_family", "generic_fallback"];
+
+// Library families that stand in for site fonts we do not ship (e.g. a licensed "Gotham" → Manrope).
+const GENERIC_FALLBACK_FAMILY: Record<GenericFontFamily, string> = {
+  serif: "Source Serif 4",
+  "sans-serif": "Manrope",
+  display: "DM Serif Display",
+  monospace: "Space Grotesk"
+};
+
+function candidateFamilyNames(family: string): string[] {
+  const trimmed = family.trim();
+  const stripped = trimmed.replace(FAMILY_SUFFIX_PATTERN, "");
+  return stripped && stripped !== trimmed ? [trimmed, stripped] : [trimmed];
+}
+
+function targetWeight(font: ExtractedSiteFont, slot: FontSlot): number {
+  if (slot === "title") {
+    const heavy = font.weights.filter((weight) => weight >= 600);
+    return heavy.length > 0 ? Math.max(...heavy) : DEFAULT_SLOT_WEIGHT.title;
+  }
+  return DEFAULT_SLOT_WEIGHT.subtitle;
+}
+
+function closestAsset(assets: readonly FontAsset[], weight: number): FontAsset | null {
+  const upright = assets.filter((asset) => asset.style === "normal");
+  const pool = upright.length > 0 ? upright : assets;
+  return (
+    [...pool].sort((a, b) => Math.abs(a.weight - weight) - Math.abs(b.weight - weight) || b.weight - a.weight)[0] || null
+  );
+}
+
+/** `fontScope` is the organization whose uploaded fonts may match; without it only library fonts do. */
+export function matchSiteFont(font: ExtractedSiteFont, slot: FontSlot, fontScope?: string | null): SiteFontMatch | null {
+  const weight = targetWeight(font, slot);
+
+  for (const name of candidateFamilyNames(font.family)) {
+    const asset = closestAsset(getFontAssetsByFamily(name, fontScope), weight);
+    if (asset) {
+      return {
+        siteFamily: font.family,
+        libraryFamily: asset.family,
+        fontId: asset.id,
+        curatedFamily: resolveCuratedFontFamily(name),
+        matchedBy: "font_asset"
+      };
+    }
+  }
+
+  for (const name of candidateFamilyNames(font.family)) {
+    const curatedFamily = resolveCuratedFontFamily(name);
+    if (curatedFamily) {
+      const asset = closestAsset(getFontAssetsByFamily(curatedFamily), weight);
+      return { siteFamily: font.family, libraryFamily: curatedFamily, fontId: asset?.id ?? null, curatedFamily, matchedBy: "curated_family" };
+    }
+  }
+
+  if (font.generic) {
+    const asset = closestAsset(getFontAssetsByFamily(GENERIC_FALLBACK_FAMILY[font.generic]), weight);
+    if (asset) {
+      return {
+        siteFamily: font.family,
+        libraryFamily: asset.family,
+        fontId: asset.id,
+        curatedFamily: null,
+        matchedBy: "generic_fallback"
+      };
+    }
+  }
+
+  return null;
+}
+
+/** Pins a registered library family (e.g. an uploaded brand font) to a slot, using its closest variant. */
+export function matchLibraryFontFamily(family: string, slot: FontSlot, fontScope?: string | null): SiteFontMatch | null {
+  const assets = getFontAssetsByFamily(family, fontScope);
+  if (assets.length === 0) {
+    return null;
+  }
+  return matchSiteFont(
+    { family, webFont: true, roles: [], weights: assets.map((asset) => asset.weight), generic: null, occurrences: 0 },
+    slot,
+    fontScope
+  );
+}
+
+/**
+ * Maps the site's heading and body fonts onto the lockup's title and subtitle slots. A slot whose
+ * site font cannot be matched borrows the other slot's family; null when neither matches.
+ */
+export function matchSiteFontPairing(
+  extraction: Pick<SiteBrandExtraction, "headingFont" | "bodyFont">,
+  fontScope?: string | null
+): SiteFontPairing | null {
+  const titleFont = extraction.headingFont;
+  const subtitleFont = extraction.bodyFont;
+  const title =
+    (titleFont && matchSiteFont(titleFont, "title", fontScope)) || (subtitleFont && matchSiteFont(subtitleFont, "title", fontScope));
+  const subtitle =
+    (subtitleFont && matchSiteFont(subtitleFont, "subtitle", fontScope)) ||
+    (titleFont && matchSiteFont(titleFont, "subtitle", fontScope));
+
+  if (!title || !subtitle) {
+    return null;
+  }
+  return { title, subtitle };
+}
+
+function readSiteFontMatch(value: unknown, fontScope: string | null | undefined): SiteFontMatch | null {
+  if (!value || typeof value !== "object") {
+    return null;
+  }
+  const record = value as Record<string, unknown>;
+  const fontId = typeof record.fontId === "string" && hasFontAssetId(record.fontId, fontScope) ? record.fontId : null;
+  const curatedFamily = typeof record.curatedFamily === "string" ? resolveCuratedFontFamily(record.curatedFamily) : null;
+  if (typeof record.siteFamily !== "string" || (!fontId && !curatedFamily)) {
+    return null;
+  }
+  const matchedBy = MATCH_SOURCES.find((source) => source === record.matchedBy) || (fontId ? "font_asset" : "curated_family");
+  const libraryFamily = (fontId && getFontAssetById(fontId, fontScope)?.family) || curatedFamily || record.siteFamily;
+  return { siteFamily: record.siteFamily, libraryFamily, fontId, curatedFamily, matchedBy };
+}
+
+export function readSiteFontPairing(value: unknown, fontScope?: string | null): SiteFontPairing | null {
+  if (!value || typeof value !== "object") {
+    return null;
+  }
+  const record = value as Record<string, unknown>;
+  const title = readSiteFontMatch(record.title, fontScope);
+  const subtitle = readSiteFontMatch(record.subtitle, fontScope);
+  return title && subtitle ? { title, subtitle } : null;
+}
+
+export function toLockupFontPairing(pairing: SiteFontPairing, fontScope?: string | null): FontPairing {
+  return resolvePinnedFontPairing({
+    title: { fontId: pairing.title.fontId, curatedFamily: pairing.title.curatedFamily },
+    subtitle: { fontId: pairing.subtitle.fontId, curatedFamily: pairing.subtitle.curatedFamily },
+    profileId: SITE_FONT_PAIRING_PROFILE_ID,
+    fontScope
+  });
+}
@@ -0,0 +1,59 @@
+import assert from "node:assert/strict";
+import { readFileSync } from "node:fs";
+import path from "node:path";
+import test from "node:test";
+import { extractSiteBrand } from "./site-snapshot";
+
+function readFixture(...segments: string[]): string {
+  return readFileSync(path.join(__dirname, "fixtures", ...segments), "utf8");
+}
+
+test("extracts Google Fonts and theme variables from an HTML + CSS snapshot", () => {
+  const extraction = extractSiteBrand({
+    html: readFixture("grace-community", "index.html"),
+    stylesheets: [readFixture("grace-community", "site.css")]
+  });
+
+  assert.equal(extraction.headingFont?.family, "Playfair Display");
+  assert.equal(extraction.headingFont?.webFont, true);
+  assert.deepEqual(extraction.headingFont?.weights, [400, 700, 900]);
+  assert.equal(extraction.bodyFont?.family, "Inter");
+  assert.ok(extraction.bodyFont?.roles.includes("body"));
+  assert.ok(!extraction.fonts.some((font) => /awesome/i.test(font.family)), "icon fonts are ignored");
+
+  assert.deepEqual(extraction.palette, ["#1F4E79", "#E0A458"]);
+  assert.equal(extraction.colors.find((color) => color.hex === "#1B1B1B")?.neutral, true);
+});
+
+test("reads inline styles and licensed @font-face families, ignoring unused theme presets", () => {
+  const extraction = extractSiteBrand({ html: readFixture("wordpress-licensed-fonts", "index.html") });
+
+  assert.equal(extraction.headingFont?.family, "Georgia");
+  assert.equal(extraction.headingFont?.generic, "serif");
+  assert.equal(extraction.bodyFont?.family, "Gotham");
+  assert.equal(extraction.bodyFont?.webFont, true);
+  assert.equal(extraction.bodyFont?.generic, "sans-serif");
+  assert.ok(!extraction.fonts.some((font) => font.family === "dashicons"));
+
+  assert.deepEqual(extraction.palette, ["#7A1F3D"]);
+  assert.ok(!extraction.colors.some((color) => color.hex === "#CF2E2E"), "unused preset colors are not counted");
+});
+
+test("falls back to the most-used font and dominant neutrals when a site declares no roles or brand colors", () => {
+  const extraction = extractSiteBrand({
+    html: "<div style=\"font-family: 'Oswald', sans-serif; color: #444\">Hi</div><span style=\"color:#444;background:#fff\"></span>"
+  });
+
+  assert.equal(extraction.headingFont?.family, "Oswald");
+  assert.equal(extraction.bodyFont?.family, "Oswald");
+  assert.deepEqual(extraction.palette, ["#444444"]);
+});
+
+test("returns an empty extraction for a snapshot without styles", () => {
+  const extraction = extractSiteBrand({ html: "<html><body><p>Hello</p></body></html>" });
+
+  assert.deepEqual(extraction.fonts, []);
+  assert.equal(extraction.headingFont, null);
+  assert.equal(extraction.bodyFont, null);
+  assert.deepEqual(extraction.palette, []);
+});
@@ -0,0 +1,630 @@
+/**
+ * Brand extraction from a saved church-website snapshot (the page HTML plus any stylesheets saved
+ * alongside it). Reads @font-face / font-family / Google Fonts declarations and the colors the site
+ * actually paints with. Pure and offline: nothing is fetched.
+ */
+
+export type SiteSnapshot = {
+  html: string;
+  stylesheets?: readonly string[];
+};
+
+export type SiteFontRole = "heading" | "body";
+
+export type GenericFontFamily = "serif" | "sans-serif" | "monospace" | "display";
+
+export type ExtractedSiteFont = {
+  family: string;
+  /** Declared by an @font-face rule or a Google Fonts link, i.e. a real web font rather than a system stack. */
+  webFont: boolean;
+  roles: SiteFontRole[];
+  weights: number[];
+  generic: GenericFontFamily | null;
+  occurrences: number;
+};
+
+export type ExtractedSiteColor = {
+  hex: string;
+  /** Occurrences weighted by where the color is used (brand variables and buttons count more than borders). */
+  score: number;
+  neutral: boolean;
+};
+
+export type SiteBrandExtraction = {
+  fonts: ExtractedSiteFont[];
+  headingFont: ExtractedSiteFont | null;
+  bodyFont: ExtractedSiteFont | null;
+  colors: ExtractedSiteColor[];
+  /** Dominant brand colors, ready for BrandKit.paletteJson. */
+  palette: string[];
+};
+
+type CssDeclaration = {
+  property: string;
+  value: string;
+};
+
+type CssRule = {
+  selector: string;
+  declarations: CssDeclaration[];
+};
+
+type ParsedCss = {
+  rules: CssRule[];
+  fontFaces: CssDeclaration[][];
+};
+
+const MAX_PALETTE_COLORS = 5;
+const PALETTE_MERGE_DISTANCE = 48;
+const MAX_VAR_DEPTH = 6;
+
+const GENERIC_FAMILY_KEYWORDS: Record<string, GenericFontFamily | null> = {
+  serif: "serif",
+  "sans-serif": "sans-serif",
+  monospace: "monospace",
+  cursive: "display",
+  fantasy: "display",
+  "system-ui": "sans-serif",
+  "ui-sans-serif": "sans-serif",
+  "ui-serif": "serif",
+  "ui-monospace": "monospace",
+  "-apple-system": "sans-serif",
+  blinkmacsystemfont: "sans-serif",
+  inherit: null,
+  initial: null,
+  unset: null,
+  revert: null
+};
+
+const ICON_FONT_PATTERN = /icon|awesome|dashicons|glyph|eicons|fontello|ionicons|material symbols/i;
+const HEADING_SELECTOR_PATTERN = /(^|[\s>+~,(])h[1-6]\b|title|heading|headline|display|hero/i;
+const BODY_SELECTOR_PATTERN = /(^|[\s>+~,(])(html|body|p)\b|:root/i;
+const HEADING_VARIABLE_PATTERN = /heading|headline|display|title/i;
+const BODY_VARIABLE_PATTERN = /body|base|text|copy|paragraph/i;
+const BRAND_VARIABLE_PATTERN = /primary|brand|accent|secondary|highlight/i;
+const PROMINENT_SELECTOR_PATTERN = /button|btn|header|nav|hero|banner|footer|cta|(^|[\s,])a\b/i;
+const COLOR_PROPERTY_PATTERN = /^(color|background|background-color|fill|stroke|border(-[a-z]+)?-color|border|outline-color)$/;
+
+const NAMED_FONT_WEIGHTS: Record<string, number> = {
+  normal: 400,
+  bold: 700,
+  lighter: 300,
+  bolder: 800
+};
+
+// ── CSS collection and parsing ────────────────────────────────────────────────
+
+function stripCssComments(css: string): string {
+  return css.replace(/\/\*[\s\S]*?\*\//g, "");
+}
+
+function decodeHtmlEntities(value: string): string {
+  return value
+    .replace(/&quot;/g, "\"")
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+}
+
+function collectCssSources(snapshot: SiteSnapshot): string[] {
+  const sources: string[] = [];
+  const html = snapshot.html || "";
+
+  for (const match of html.matchAll(/<style\b[^>]*>([\s\S]*?)<\/style>/gi)) {
+    sources.push(match[1]);
+  }
+
+  // Inline styles keep their tag name as the selector so <h1 style="..."> still reads as a heading.
+  for (const match of html.matchAll(/<([a-z][a-z0-9]*)\b[^>]*?\sstyle\s*=\s*(["'])([\s\S]*?)\2/gi)) {
+    sources.push(`${match[1].toLowerCase()}{${decodeHtmlEntities(match[3])}}`);
+  }
+
+  for (const stylesheet of snapshot.stylesheets || []) {
+    sources.push(stylesheet);
+  }
+
+  return sources.map(stripCssComments);
+}
+
+function findMatchingBrace(css: string, openIndex: number): number {
+  let depth = 0;
+  for (let index = openIndex; index < css.length; index += 1) {
+    const char = css[index];
+    if (char === "{") {
+      depth += 1;
+    } else if (char === "}") {
+      depth -= 1;
+      if (depth === 0) {
+        return index;
+      }
+    }
+  }
+  return css.length;
+}
+
+function splitTopLevel(value: string, separator: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let quote: string | null = null;
+  let current = "";
+
+  for (const char of value) {
+    if (quote) {
+      if (char === quote) {
+        quote = null;
+      }
+    } else if (char === "\"" || char === "'") {
+      quote = char;
+    } else if (char === "(") {
+      depth += 1;
+    } else if (char === ")") {
+      depth = Math.max(0, depth - 1);
+    } else if (char === separator && depth === 0) {
+      parts.push(current);
+      current = "";
+      continue;
+    }
+    current += char;
+  }
+
+  parts.push(current);
+  return parts;
+}
+
+function parseDeclarations(body: string): CssDeclaration[] {
+  return splitTopLevel(body, ";").flatMap((chunk) => {
+    const colonIndex = chunk.indexOf(":");
+    if (colonIndex <= 0) {
+      return [];
+    }
+    const property = chunk.slice(0, colonIndex).trim();
+    const value = chunk
+      .slice(colonIndex + 1)
+      .replace(/!important/gi, "")
+      .trim();
+    if (!property || !value) {
+      return [];
+    }
+    // Custom property names are case-sensitive; everything else is not.
+    return [{ property: property.startsWith("--") ? property : property.toLowerCase(), value }];
+  });
+}
+
+function parseCss(css: string, parsed: ParsedCss): void {
+  let cursor = 0;
+
+  while (cursor < css.length) {
+    const openIndex = css.indexOf("{", cursor);
+    if (openIndex === -1) {
+      return;
+    }
+    const closeIndex = findMatchingBrace(css, openIndex);
+    // Statements such as @import or @charset end with ";" and may precede the rule.
+    const prelude = css.slice(cursor, openIndex).split(";").pop()?.trim() || "";
+    const body = css.slice(openIndex + 1, closeIndex);
+    cursor = closeIndex + 1;
+
+    if (/^@font-face\b/i.test(prelude)) {
+      parsed.fontFaces.push(parseDeclarations(body));
+    } else if (/^@(media|supports|layer|document|container)\b/i.test(prelude)) {
+      parseCss(body, parsed);
+    } else if (!prelude.startsWith("@") && prelude) {
+      parsed.rules.push({ selector: prelude, declarations: parseDeclarations(body) });
+    }
+  }
+}
+
+// ── Custom properties ─────────────────────────────────────────────────────────
+
+function collectCustomProperties(rules: readonly CssRule[]): Map<string, string> {
+  const variables = new Map<string, string>();
+  for (const rule of rules) {
+    for (const declaration of rule.declarations) {
+      if (declaration.property.startsWith("--")) {
+        variables.set(declaration.property, declaration.value);
+      }
+    }
+  }
+  return variables;
+}
+
+function resolveVariables(value: string, variables: ReadonlyMap<string, string>, depth = 0): string {
+  if (depth >= MAX_VAR_DEPTH || !value.includes("var(")) {
+    return value;
+  }
+
+  const resolved = value.replace(/var\(\s*(--[\w-]+)\s*(?:,\s*([^()]*(?:\([^()]*\)[^()]*)*))?\)/g, (_, name: string, fallback?: string) => {
+    return variables.get(name) ?? fallback?.trim() ?? "";
+  });
+  return resolveVariables(resolved, variables, depth + 1);
+}
+
+/** The custom properties a value references, e.g. ["--font-heading"]. */
+function referencedVariables(value: string): string[] {
+  return [...value.matchAll(/var\(\s*(--[\w-]+)/g)].map((match) => match[1]);
+}
+
+// ── Fonts ─────────────────────────────────────────────────────────────────────
+
+function unquote(token: string): string {
+  return token.trim().replace(/^['"]+|['"]+$/g, "").trim();
+}
+
+function parseFontStack(value: string): { primary: string | null; generic: GenericFontFamily | null } {
+  const tokens = value
+    .split(",")
+    .map(unquote)
+    .filter(Boolean);
+  let primary: string | null = null;
+  let generic: GenericFontFamily | null = null;
+
+  for (const token of tokens) {
+    const keyword = token.toLowerCase();
+    if (keyword in GENERIC_FAMILY_KEYWORDS) {
+      generic = generic || GENERIC_FAMILY_KEYWORDS[keyword];
+      continue;
+    }
+    if (!primary && !ICON_FONT_PATTERN.test(token) && !/^var\(/.test(token)) {
+      primary = token;
+    }
+  }
+
+  return { primary, generic };
+}
+
+/** The family list of a `font` shorthand: everything after the size (and optional line height). */
+function fontFamilyFromShorthand(value: string): string | null {
+  const match = value.match(/(?:^|\s)(?:[\d.]+(?:px|r?em|pt|%|vw|vh|ch|ex)|xx?-small|x?-?small|medium|x?x?-?large|larger|smaller)(?:\s*\/\s*\S+)?\s+(.+)$/i);
+  return match ? match[1] : null;
+}
+
+function parseFontWeight(value: string | undefined): number | null {
+  if (!value) {
+    return null;
+  }
+  const trimmed = value.trim().toLowerCase();
+  if (trimmed in NAMED_FONT_WEIGHTS) {
+    return NAMED_FONT_WEIGHTS[trimmed];
+  }
+  const numeric = Number.parseInt(trimmed, 10);
+  return Number.isFinite(numeric) && numeric >= 100 && numeric <= 1000 ? numeric : null;
+}
+
+function rolesForSelector(selector: string): SiteFontRole[] {
+  const roles: SiteFontRole[] = [];
+  if (HEADING_SELECTOR_PATTERN.test(selector)) {
+    roles.push("heading");
+  }
+  if (BODY_SELECTOR_PATTERN.test(selector)) {
+    roles.push("body");
+  }
+  return roles;
+}
+
+function rolesForVariable(name: string): SiteFontRole[] {
+  if (HEADING_VARIABLE_PATTERN.test(name)) {
+    return ["heading"];
+  }
+  if (BODY_VARIABLE_PATTERN.test(name)) {
+    return ["body"];
+  }
+  return [];
+}
+
+/** Families requested through Google Fonts <link> tags or @import URLs, with their weights. */
+function collectGoogleFontFamilies(sources: readonly string[]): Array<{ family: string; weights: number[] }> {
+  const families: Array<{ family: string; weights: number[] }> = [];
+
+  for (const source of sources) {
+    for (const match of source.matchAll(/fonts\.googleapis\.com\/css2?\?([^"')\s>]+)/gi)) {
+      const query = decodeHtmlEntities(match[1]);
+      for (const param of query.split("&")) {
+        const [key, rawValue] = param.split("=");
+        if (key !== "family" || !rawValue) {
+          continue;
+        }
+        // css2: family=Playfair+Display:wght@400;700 — css (v1): family=Lato:400,700|Open+Sans
+        for (const entry of decodeURIComponent(rawValue.replace(/\+/g, " ")).split("|")) {
+          const [name, spec = ""] = entry.split(":");
+          const family = name.trim();
+          if (!family) {
+            continue;
+          }
+          const weights = (spec.split("@")[1] ?? spec)
+            .split(/[;,]/)
+            .map((token) => Number.parseInt(token, 10))
+            .filter((weight) => Number.isFinite(weight) && weight >= 100 && weight <= 1000);
+          families.push({ family, weights });
+        }
+      }
+    }
+  }
+
+  return families;
+}
+
+class FontTally {
+  private readonly byKey = new Map<string, ExtractedSiteFont>();
+
+  add(params: {
+    family: string;
+    roles?: SiteFontRole[];
+    weight?: number | null;
+    generic?: GenericFontFamily | null;
+    webFont?: boolean;
+    occurrences?: number;
+  }): void {
+    const key = params.family.toLowerCase();
+    const entry =
+      this.byKey.get(key) ||
+      ({ family: params.family, webFont: false, roles: [], weights: [], generic: null, occurrences: 0 } satisfies ExtractedSiteFont);
+
+    entry.occurrences += params.occurrences ?? 1;
+    entry.webFont = entry.webFont || Boolean(params.webFont);
+    entry.generic = entry.generic || params.generic || null;
+    for (const role of params.roles || []) {
+      if (!entry.roles.includes(role)) {
+        entry.roles.push(role);
+      }
+    }
+    if (params.weight && !entry.weights.includes(params.weight)) {
+      entry.weights.push(params.weight);
+    }
+    this.byKey.set(key, entry);
+  }
+
+  list(): ExtractedSiteFont[] {
+    return [...this.byKey.values()].map((entry) => ({ ...entry, weights: [...entry.weights].sort((a, b) => a - b) }));
+  }
+}
+
+function extractFonts(parsed: ParsedCss, sources: readonly string[], variables: ReadonlyMap<string, string>): ExtractedSiteFont[] {
+  const tally = new FontTally();
+  const usedFamilies = new Set<string>();
+
+  for (const fontFace of parsed.fontFaces) {
+    const family = fontFace.find((declaration) => declaration.property === "font-family");
+    if (!family) {
+      continue;
+    }
+    const { primary } = parseFontStack(family.value);
+    if (primary) {
+      const weight = parseFontWeight(fontFace.find((declaration) => declaration.property === "font-weight")?.value);
+      tally.add({ family: primary, webFont: true, weight, occurrences: 0 });
+    }
+  }
+
+  for (const { family, weights } of collectGoogleFontFamilies(sources)) {
+    tally.add({ family, webFont: true, occurrences: 0 });
+    for (const weight of weights) {
+      tally.add({ family, weight, occurrences: 0 });
+    }
+  }
+
+  for (const rule of parsed.rules) {
+    const weight = parseFontWeight(rule.declarations.find((declaration) => declaration.property === "font-weight")?.value);
+
+    for (const declaration of rule.declarations) {
+      let stackValue: string | null = null;
+      let roles = rolesForSelector(rule.selector);
+
+      if (declaration.property === "font-family") {
+        stackValue = declaration.value;
+      } else if (declaration.property === "font") {
+        stackValue = fontFamilyFromShorthand(resolveVariables(declaration.value, variables));
+      } else if (declaration.property.startsWith("--") && /font/i.test(declaration.property)) {
+        // Theme variables such as --font-heading: "Playfair Display", serif
+        stackValue = declaration.value;
+        roles = rolesForVariable(declaration.property);
+      }
+      if (!stackValue) {
+        continue;
+      }
+
+      if (!declaration.property.startsWith("--")) {
+        for (const name of referencedVariables(declaration.value)) {
+          roles = [...new Set([...roles, ...rolesForVariable(name)])];
+        }
+      }
+
+      const { primary, generic } = parseFontStack(resolveVariables(stackValue, variables));
+      if (!primary) {
+        continue;
+      }
+      usedFamilies.add(primary.toLowerCase());
+      tally.add({ family: primary, roles, weight: declaration.property.startsWith("--") ? null : weight, generic });
+    }
+  }
+
+  // Declared-but-unused web fonts (icon sets, plugin leftovers) are noise.
+  return tally
+    .list()
+    .filter((font) => usedFamilies.has(font.family.toLowerCase()) || font.roles.length > 0)
+    .sort((a, b) => b.occurrences - a.occurrences || a.family.localeCompare(b.family));
+}
+
+function pickFontForRole(fonts: readonly ExtractedSiteFont[], role: SiteFontRole): ExtractedSiteFont | null {
+  const candidates = fonts.filter((font) => font.roles.includes(role));
+  if (candidates.length === 0) {
+    return null;
+  }
+  // Web fonts are deliberate brand choices; system stacks are fallbacks.
+  return [...candidates].sort((a, b) => Number(b.webFont) - Number(a.webFont) || b.occurrences - a.occurrences)[0];
+}
+
+// ── Colors ────────────────────────────────────────────────────────────────────
+
+type Rgb = [number, number, number];
+
+function toHex([red, green, blue]: Rgb): string {
+  return `#${[red, green, blue].map((channel) => Math.round(channel).toString(16).padStart(2, "0")).join("")}`.toUpperCase();
+}
+
+function parseHexColor(token: string): { rgb: Rgb; alpha: number } | null {
+  const hex = token.replace(/^#/, "");
+  if (hex.length === 3 || hex.length === 4) {
+    const [r, g, b, a] = hex.split("").map((char) => Number.parseInt(char + char, 16));
+    return { rgb: [r, g, b], alpha: hex.length === 4 ? a / 255 : 1 };
+  }
+  if (hex.length === 6 || hex.length === 8) {
+    const channels = hex.match(/.{2}/g)!.map((pair) => Number.parseInt(pair, 16));
+    return { rgb: [channels[0], channels[1], channels[2]], alpha: hex.length === 8 ? channels[3] / 255 : 1 };
+  }
+  return null;
+}
+
+function parseAlpha(token: string | undefined): number {
+  if (!token) {
+    return 1;
+  }
+  const value = Number.parseFloat(token);
+  if (!Number.isFinite(value)) {
+    return 1;
+  }
+  return token.trim().endsWith("%") ? value / 100 : value;
+}
+
+function hslToRgb(hue: number, saturation: number, lightness: number): Rgb {
+  const chroma = (1 - Math.abs(2 * lightness - 1)) * saturation;
+  const segment = (((hue % 360) + 360) % 360) / 60;
+  const secondary = chroma * (1 - Math.abs((segment % 2) - 1));
+  const [r, g, b] =
+    segment < 1 ? [chroma, secondary, 0]
+    : segment < 2 ? [secondary, chroma, 0]
+    : segment < 3 ? [0, chroma, secondary]
+    : segment < 4 ? [0, secondary, chroma]
+    : segment < 5 ? [secondary, 0, chroma]
+    : [chroma, 0, secondary];
+  const offset = lightness - chroma / 2;
+  return [(r + offset) * 255, (g + offset) * 255, (b + offset) * 255];
+}
+
+function parseColorTokens(value: string): Array<{ rgb: Rgb; alpha: number }> {
+  const colors: Array<{ rgb: Rgb; alpha: number }> = [];
+
+  for (const match of value.matchAll(/#[0-9a-f]{3,8}\b|rgba?\(([^)]*)\)|hsla?\(([^)]*)\)/gi)) {
+    if (match[0].startsWith("#")) {
+      const parsed = parseHexColor(match[0]);
+      if (parsed) {
+        colors.push(parsed);
+      }
+      continue;
+    }
+
+    const args = (match[1] ?? match[2]).split(/[\s,/]+/).filter(Boolean);
+    if (args.length < 3) {
+      continue;
+    }
+    if (match[1] !== undefined) {
+      const rgb = args.slice(0, 3).map((arg) => (arg.endsWith("%") ? (Number.parseFloat(arg) / 100) * 255 : Number.parseFloat(arg)));
+      if (rgb.every(Number.isFinite)) {
+        colors.push({ rgb: rgb as Rgb, alpha: parseAlpha(args[3]) });
+      }
+    } else {
+      const [hue, saturation, lightness] = [Number.parseFloat(args[0]), Number.parseFloat(args[1]) / 100, Number.parseFloat(args[2]) / 100];
+      if ([hue, saturation, lightness].every(Number.isFinite)) {
+        colors.push({ rgb: hslToRgb(hue, saturation, lightness), alpha: parseAlpha(args[3]) });
+      }
+    }
+  }
+
+  return colors;
+}
+
+function isNeutral([red, green, blue]: Rgb): boolean {
+  const max = Math.max(red, green, blue) / 255;
+  const min = Math.min(red, green, blue) / 255;
+  const lightness = (max + min) / 2;
+  const saturation = max === min ? 0 : (max - min) / (1 - Math.abs(2 * lightness - 1));
+  return saturation < 0.15 || lightness > 0.95 || lightness < 0.07;
+}
+
+function colorDistance(left: string, right: string): number {
+  const a = parseHexColor(left)!.rgb;
+  const b = parseHexColor(right)!.rgb;
+  return Math.sqrt((a[0] - b[0]) ** 2 + (a[1] - b[1]) ** 2 + (a[2] - b[2]) ** 2);
+}
+
+function colorUsageWeight(rule: CssRule, declaration: CssDeclaration): number {
+  if (declaration.property.startsWith("--")) {
+    return 1;
+  }
+  const base =
+    declaration.property.startsWith("border") || declaration.property.startsWith("outline")
+      ? 0.5
+      : PROMINENT_SELECTOR_PATTERN.test(rule.selector) || HEADING_SELECTOR_PATTERN.test(rule.selector)
+        ? 2
+        : 1;
+  return referencedVariables(declaration.value).some((name) => BRAND_VARIABLE_PATTERN.test(name)) ? base + 2 : base;
+}
+
+function extractColors(parsed: ParsedCss, variables: ReadonlyMap<string, string>): ExtractedSiteColor[] {
+  const scores = new Map<string, number>();
+
+  for (const rule of parsed.rules) {
+    for (const declaration of rule.declarations) {
+      // Colors count where they are painted. Theme presets (e.g. WordPress) declare many variables a page
+      // never uses, so only variables named as brand colors count on their own.
+      const isBrandVariable = declaration.property.startsWith("--") && BRAND_VARIABLE_PATTERN.test(declaration.property);
+      if (!isBrandVariable && !COLOR_PROPERTY_PATTERN.test(declaration.property)) {
+        continue;
+      }
+      const value = isBrandVariable ? declaration.value : resolveVariables(declaration.value, variables);
+      for (const color of parseColorTokens(value)) {
+        if (color.alpha < 0.5) {
+          continue;
+        }
+        const hex = toHex(color.rgb);
+        scores.set(hex, (scores.get(hex) || 0) + colorUsageWeight(rule, declaration));
+      }
+    }
+  }
+
+  return [...scores.entries()]
+    .map(([hex, score]) => ({ hex, score, neutral: isNeutral(parseHexColor(hex)!.rgb) }))
+    .sort((a, b) => b.score - a.score || a.hex.localeCompare(b.hex));
+}
+
+function buildPalette(colors: readonly ExtractedSiteColor[]): string[] {
+  const chromatic = colors.filter((color) => !color.neutral);
+  // All-neutral sites still get their dominant non-white/black tones.
+  const candidates =
+    chromatic.length > 0
+      ? chromatic
+      : colors.filter((color) => color.hex !== "#FFFFFF" && color.hex !== "#000000").slice(0, 2);
+
+  const palette: string[] = [];
+  for (const color of candidates) {
+    if (palette.length >= MAX_PALETTE_COLORS) {
+      break;
+    }
+    if (palette.some((hex) => colorDistance(hex, color.hex) < PALETTE_MERGE_DISTANCE)) {
+      continue;
+    }
+    palette.push(color.hex);
+  }
+  return palette;
+}
+
+// ── Public API ────────────────────────────────────────────────────────────────
+
+export function extractSiteBrand(snapshot: SiteSnapshot): SiteBrandExtraction {
+  const sources = collectCssSources(snapshot);
+  const parsed: ParsedCss = { rules: [], fontFaces: [] };
+  for (const source of sources) {
+    parseCss(source, parsed);
+  }
+  const variables = collectCustomProperties(parsed.rules);
+
+  const fonts = extractFonts(parsed, [snapshot.html || "", ...sources], variables);
+  const headingFont = pickFontForRole(fonts, "heading") || fonts[0] || null;
+  const bodyFont = pickFontForRole(fonts, "body") || fonts.find((font) => font !== headingFont) || headingFont;
+  const colors = extractColors(parsed, variables);
+
+  return {
+    fonts,
+    headingFont,
+    bodyFont,
+    colors,
+    palette: buildPalette(colors)
+  };
+}
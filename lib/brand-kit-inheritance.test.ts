@@ -0,0 +1,71 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import {
+  applyBrandKitOverrides,
+  buildBrandKitVersionKey,
+  parseOverriddenFieldsJson,
+  readBrandKitFieldModes
+} from "@/lib/brand-kit-inheritance";
+
+const ORGANIZATION_KIT = {
+  websiteUrl: "https://church.example",
+  logoPath: "uploads/church-logo.svg",
+  paletteJson: '["#14532D","#F5F5F4"]',
+  typographyDirection: "match_site" as const,
+  fontPairingJson: '{"title":{"family":"Fraunces"}}'
+};
+
+const PROJECT_KIT = {
+  websiteUrl: "https://church.example",
+  logoPath: "uploads/advent-logo.png",
+  paletteJson: '["#7C2D12"]',
+  typographyDirection: "graceled_defaults" as const
+};
+
+test("field modes default to inherit and only accept override", () => {
+  assert.deepEqual(readBrandKitFieldModes(null), { palette: "inherit", logo: "inherit", typography: "inherit" });
+  assert.deepEqual(readBrandKitFieldModes({ paletteMode: "override", logoMode: "bogus", typographyMode: undefined }), {
+    palette: "override",
+    logo: "inherit",
+    typography: "inherit"
+  });
+});
+
+test("inherited fields follow the organization kit even when the project stored its own values", () => {
+  assert.deepEqual(applyBrandKitOverrides(ORGANIZATION_KIT, null), { ...ORGANIZATION_KIT, overriddenFields: [] });
+  assert.deepEqual(applyBrandKitOverrides(ORGANIZATION_KIT, PROJECT_KIT), { ...ORGANIZATION_KIT, overriddenFields: [] });
+});
+
+test("overridden fields come from the project kit, and typography overrides drop the site font pairing", () => {
+  const paletteAndLogo = applyBrandKitOverrides(ORGANIZATION_KIT, { ...PROJECT_KIT, paletteMode: "override", logoMode: "override" });
+  assert.equal(paletteAndLogo.paletteJson, PROJECT_KIT.paletteJson);
+  assert.equal(paletteAndLogo.logoPath, PROJECT_KIT.logoPath);
+  assert.equal(paletteAndLogo.typographyDirection, "match_site");
+  assert.equal(paletteAndLogo.fontPairingJson, ORGANIZATION_KIT.fontPairingJson);
+  assert.deepEqual(paletteAndLogo.overriddenFields, ["palette", "logo"]);
+
+  const typography = applyBrandKitOverrides(ORGANIZATION_KIT, { ...PROJECT_KIT, typographyMode: "override" });
+  assert.equal(typography.typographyDirection, "graceled_defaults");
+  assert.equal(typography.fontPairingJson, null);
+  assert.equal(typography.paletteJson, ORGANIZATION_KIT.paletteJson);
+  assert.deepEqual(typography.overriddenFields, ["typography"]);
+});
+
+test("version keys ignore formatting and field order but catch content changes", () => {
+  const base = { ...ORGANIZATION_KIT, source: "organization", overriddenFields: ["logo", "palette"] as const };
+  const key = buildBrandKitVersionKey(base);
+
+  assert.equal(
+    buildBrandKitVersionKey({ ...base, paletteJson: '[ "#14532D", "#F5F5F4" ]', overriddenFields: ["palette", "logo"] }),
+    key
+  );
+  assert.notEqual(buildBrandKitVersionKey({ ...base, overriddenFields: ["palette", "logo"], logoPath: null }), key);
+  assert.notEqual(buildBrandKitVersionKey({ ...base, overriddenFields: ["palette"] }), key);
+  assert.notEqual(buildBrandKitVersionKey({ ...base, overriddenFields: ["palette", "logo"], source: "project" }), key);
+});
+
+test("overridden fields parse defensively", () => {
+  assert.deepEqual(parseOverriddenFieldsJson('["typography","palette","color"]'), ["palette", "typography"]);
+  assert.deepEqual(parseOverriddenFieldsJson("not json"), []);
+  assert.deepEqual(parseOverriddenFieldsJson(null), []);
+});
@@ -0,0 +1,109 @@
+export const BRAND_KIT_FIELDS = ["palette", "logo", "typography"] as const;
+
+export type BrandKitField = (typeof BRAND_KIT_FIELDS)[number];
+export type BrandKitFieldMode = "inherit" | "override";
+export type BrandKitFieldModes = Record<BrandKitField, BrandKitFieldMode>;
+
+export const BRAND_KIT_FIELD_LABELS: Record<BrandKitField, string> = {
+  palette: "Palette",
+  logo: "Logo",
+  typography: "Typography"
+};
+
+type BrandKitValues = {
+  websiteUrl: string;
+  logoPath: string | null;
+  paletteJson: string;
+  typographyDirection: "match_site" | "graceled_defaults";
+  fontPairingJson?: string | null;
+};
+
+type ProjectBrandKitValues = BrandKitValues & {
+  paletteMode?: string | null;
+  logoMode?: string | null;
+  typographyMode?: string | null;
+};
+
+function readFieldMode(value: unknown): BrandKitFieldMode {
+  return value === "override" ? "override" : "inherit";
+}
+
+/** A project brand kit's field modes; anything unset inherits. */
+export function readBrandKitFieldModes(
+  brandKit: Pick<ProjectBrandKitValues, "paletteMode" | "logoMode" | "typographyMode"> | null | undefined
+): BrandKitFieldModes {
+  return {
+    palette: readFieldMode(brandKit?.paletteMode),
+    logo: readFieldMode(brandKit?.logoMode),
+    typography: readFieldMode(brandKit?.typographyMode)
+  };
+}
+
+/**
+ * Layers a project brand kit over the organization kit field by field. Overridden typography drops
+ * the organization's pinned font pairing, since that pairing was matched to the organization's site.
+ */
+export function applyBrandKitOverrides<T extends BrandKitValues>(
+  organizationBrandKit: T,
+  projectBrandKit: ProjectBrandKitValues | null | undefined
+): T & { overriddenFields: BrandKitField[] } {
+  const modes = readBrandKitFieldModes(projectBrandKit);
+  if (!projectBrandKit) {
+    return { ...organizationBrandKit, overriddenFields: [] };
+  }
+
+  const merged: T = { ...organizationBrandKit };
+  if (modes.palette === "override") {
+    merged.paletteJson = projectBrandKit.paletteJson;
+  }
+  if (modes.logo === "override") {
+    merged.logoPath = projectBrandKit.logoPath;
+  }
+  if (modes.typography === "override") {
+    merged.typographyDirection = projectBrandKit.typographyDirection;
+    merged.fontPairingJson = null;
+  }
+
+  return {
+    ...merged,
+    overriddenFields: BRAND_KIT_FIELDS.filter((field) => modes[field] === "override")
+  };
+}
+
+export function parseOverriddenFieldsJson(raw: string | null | undefined): BrandKitField[] {
+  if (!raw) {
+    return [];
+  }
+
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? BRAND_KIT_FIELDS.filter((field) => parsed.includes(field)) : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Identity of a brand kit's content for versioning: two kits with the same key render the same, so
+ * saving or resolving an unchanged kit does not add a version.
+ */
+export function buildBrandKitVersionKey(
+  brandKit: BrandKitValues & { source: string; overriddenFields?: readonly BrandKitField[] }
+): string {
+  let palette: unknown = brandKit.paletteJson;
+  try {
+    palette = JSON.parse(brandKit.paletteJson);
+  } catch {
+    // Unparseable palettes compare by their raw text.
+  }
+
+  return JSON.stringify([
+    brandKit.source,
+    brandKit.websiteUrl,
+    brandKit.logoPath || null,
+    palette,
+    brandKit.typographyDirection,
+    brandKit.fontPairingJson || null,
+    BRAND_KIT_FIELDS.filter((field) => brandKit.overriddenFields?.includes(field))
+  ]);
+}
@@ -1,6 +1,14 @@
 import "server-only";
 
 import { Prisma } from "@prisma/client";
+import { readSiteFontPairing, toLockupFontPairing, type SiteFontPairing } from "@/lib/brand-extraction/site-fonts";
+import {
+  applyBrandKitOverrides,
+  buildBrandKitVersionKey,
+  parseOverriddenFieldsJson,
+  type BrandKitField
+} from "@/lib/brand-kit-inheritance";
+import type { FontPairing } from "@/lib/lockups/fonts";
 import { prisma } from "@/lib/prisma";
 
 export type TypographyDirectionValue = "match_site" | "graceled_defaults";
@@ -10,16 +18,34 @@ export type BrandKitSnapshot = {
   logoPath: string | null;
   paletteJson: string;
   typographyDirection: TypographyDirectionValue;
+  /** Lockup fonts pinned from a site snapshot (organization brand kits only). */
+  fontPairingJson?: string | null;
+};
+
+/** A project's own brand kit row; field modes decide what it overrides on top of the organization kit. */
+export type ProjectBrandKitSnapshot = BrandKitSnapshot & {
+  paletteMode?: string | null;
+  logoMode?: string | null;
+  typographyMode?: string | null;
 };
 
 export type EffectiveBrandKit = BrandKitSnapshot & {
   source: "organization" | "project" | "project_fallback";
+  /** Fields the project overrides on top of the organization brand kit. */
+  overriddenFields: BrandKitField[];
+};
+
+export type BrandKitVersionRecord = EffectiveBrandKit & {
+  id: string;
+  projectId: string | null;
+  version: number;
+  createdAt: Date;
 };
 
 type ResolveEffectiveBrandKitParams = {
   organizationId: string;
   projectId?: string;
-  projectBrandKit?: BrandKitSnapshot | null;
+  projectBrandKit?: ProjectBrandKitSnapshot | null;
 };
 
 type LatestProjectBrandKit = BrandKitSnapshot & {
@@ -46,7 +72,46 @@ export function parsePaletteJson(raw: string | null | undefined): string[] {
   }
 }
 
-async function findProjectBrandKitByProjectId(organizationId: string, projectId: string): Promise<BrandKitSnapshot | null> {
+export function parseFontPairingJson(raw: string | null | undefined, fontScope?: string | null): SiteFontPairing | null {
+  if (!raw) {
+    return null;
+  }
+
+  try {
+    return readSiteFontPairing(JSON.parse(raw), fontScope);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * The lockup pairing a brand kit pins from its site fonts; only match_site kits pin one. Pinned
+ * uploaded fonts resolve only for `fontScope`, the organization that owns the kit.
+ */
+export function readBrandKitLockupFontPairing(
+  brandKit: Pick<BrandKitSnapshot, "typographyDirection" | "fontPairingJson"> | null | undefined,
+  fontScope?: string | null
+): FontPairing | null {
+  if (!brandKit || brandKit.typographyDirection !== "match_site") {
+    return null;
+  }
+
+  const pairing = parseFontPairingJson(brandKit.fontPairingJson, fontScope);
+  return pairing ? toLockupFontPairing(pairing, fontScope) : null;
+}
+
+function isMissingTableError(error: unknown): boolean {
+  return error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2021";
+}
+
+function isUniqueConstraintError(error: unknown): boolean {
+  return error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002";
+}
+
+async function findProjectBrandKitByProjectId(
+  organizationId: string,
+  projectId: string
+): Promise<ProjectBrandKitSnapshot | null> {
   return prisma.brandKit.findFirst({
     where: {
       organizationId,
@@ -56,7 +121,10 @@ async function findProjectBrandKitByProjectId(organizationId: string, projectId:
       websiteUrl: true,
       logoPath: true,
       paletteJson: true,
-      typographyDirection: true
+      typographyDirection: true,
+      paletteMode: true,
+      logoMode: true,
+      typographyMode: true
     }
   });
 }
@@ -109,11 +177,12 @@ export async function resolveEffectiveBrandKit(params: ResolveEffectiveBrandKitP
         websiteUrl: true,
         logoPath: true,
         paletteJson: true,
-        typographyDirection: true
+        typographyDirection: true,
+        fontPairingJson: true
       }
     });
   } catch (error) {
-    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2021") {
+    if (isMissingTableError(error)) {
       if (!hasWarnedMissingOrganizationBrandKitTable) {
         console.warn(
           "[brand-kit] OrganizationBrandKit table is missing. Run Prisma migrations to enable organization brand kits."
@@ -125,21 +194,25 @@ export async function resolveEffectiveBrandKit(params: ResolveEffectiveBrandKitP
     }
   }
 
+  const projectBrandKit =
+    params.projectBrandKit ||
+    (params.projectId ? await findProjectBrandKitByProjectId(params.organizationId, params.projectId) : null);
+
   if (organizationBrandKit) {
     return {
-      ...organizationBrandKit,
+      ...applyBrandKitOverrides(organizationBrandKit, projectBrandKit),
       source: "organization"
     };
   }
 
-  const projectBrandKit =
-    params.projectBrandKit ||
-    (params.projectId ? await findProjectBrandKitByProjectId(params.organizationId, params.projectId) : null);
-
   if (projectBrandKit) {
     return {
-      ...projectBrandKit,
-      source: "project"
+      websiteUrl: projectBrandKit.websiteUrl,
+      logoPath: projectBrandKit.logoPath,
+      paletteJson: projectBrandKit.paletteJson,
+      typographyDirection: projectBrandKit.typographyDirection,
+      source: "project",
+      overriddenFields: []
     };
   }
 
@@ -150,9 +223,168 @@ export async function resolveEffectiveBrandKit(params: ResolveEffectiveBrandKitP
       logoPath: fallbackBrandKit.logoPath,
       paletteJson: fallbackBrandKit.paletteJson,
       typographyDirection: fallbackBrandKit.typographyDirection,
-      source: "project_fallback"
+      source: "project_fallback",
+      overriddenFields: []
     };
   }
 
   return null;
 }
+
+const RECORD_BRAND_KIT_VERSION_ATTEMPTS = 4;
+
+const brandKitVersionSelect = {
+  id: true,
+  projectId: true,
+  version: true,
+  source: true,
+  websiteUrl: true,
+  logoPath: true,
+  paletteJson: true,
+  typographyDirection: true,
+  fontPairingJson: true,
+  overriddenFieldsJson: true,
+  createdAt: true
+} as const;
+
+function readEffectiveBrandKitSource(value: string): EffectiveBrandKit["source"] {
+  return value === "project" || value === "project_fallback" ? value : "organization";
+}
+
+type BrandKitVersionRow = {
+  id: string;
+  projectId: string | null;
+  version: number;
+  source: string;
+  websiteUrl: string;
+  logoPath: string | null;
+  paletteJson: string;
+  typographyDirection: TypographyDirectionValue;
+  fontPairingJson: string | null;
+  overriddenFieldsJson: string;
+  createdAt: Date;
+};
+
+function toVersionedBrandKit(row: BrandKitVersionRow): EffectiveBrandKit {
+  return {
+    source: readEffectiveBrandKitSource(row.source),
+    websiteUrl: row.websiteUrl,
+    logoPath: row.logoPath,
+    paletteJson: row.paletteJson,
+    typographyDirection: row.typographyDirection,
+    fontPairingJson: row.fontPairingJson,
+    overriddenFields: parseOverriddenFieldsJson(row.overriddenFieldsJson)
+  };
+}
+
+function toBrandKitVersionRecord(row: BrandKitVersionRow): BrandKitVersionRecord {
+  return {
+    ...toVersionedBrandKit(row),
+    id: row.id,
+    projectId: row.projectId,
+    version: row.version,
+    createdAt: row.createdAt
+  };
+}
+
+/**
+ * Appends a version to a brand kit's history (the organization kit when projectId is null) unless
+ * the latest version already has the same content, in which case that version is returned.
+ * Concurrent saves race for the next version number; the loser re-reads and retries.
+ * Returns null while the BrandKitVersion table is missing so generation keeps working unversioned.
+ */
+export async function recordBrandKitVersion(params: {
+  organizationId: string;
+  projectId: string | null;
+  brandKit: BrandKitSnapshot & { source: EffectiveBrandKit["source"]; overriddenFields?: BrandKitField[] };
+}): Promise<BrandKitVersionRecord | null> {
+  const overriddenFields = params.brandKit.overriddenFields || [];
+  const versionKey = buildBrandKitVersionKey({ ...params.brandKit, overriddenFields });
+
+  for (let attempt = 1; ; attempt += 1) {
+    try {
+      return await prisma.$transaction(async (tx) => {
+        const latest = await tx.brandKitVersion.findFirst({
+          where: { organizationId: params.organizationId, projectId: params.projectId },
+          orderBy: { version: "desc" },
+          select: brandKitVersionSelect
+        });
+        if (latest) {
+          const latestRecord = toBrandKitVersionRecord(latest);
+          if (buildBrandKitVersionKey(latestRecord) === versionKey) {
+            return latestRecord;
+          }
+        }
+
+        const created = await tx.brandKitVersion.create({
+          data: {
+            organizationId: params.organizationId,
+            projectId: params.projectId,
+            version: (latest?.version || 0) + 1,
+            source: params.brandKit.source,
+            websiteUrl: params.brandKit.websiteUrl,
+            logoPath: params.brandKit.logoPath,
+            paletteJson: params.brandKit.paletteJson,
+            typographyDirection: params.brandKit.typographyDirection,
+            fontPairingJson: params.brandKit.fontPairingJson || null,
+            overriddenFieldsJson: JSON.stringify(overriddenFields)
+          },
+          select: brandKitVersionSelect
+        });
+        return toBrandKitVersionRecord(created);
+      });
+    } catch (error) {
+      if (isUniqueConstraintError(error) && attempt < RECORD_BRAND_KIT_VERSION_ATTEMPTS) {
+        continue;
+      }
+      if (isMissingTableError(error)) {
+        console.warn("[brand-kit] BrandKitVersion table is missing. Run Prisma migrations to enable brand kit history.");
+        return null;
+      }
+      throw error;
+    }
+  }
+}
+
+/** Newest-first history of one brand kit (the organization kit when projectId is null). */
+export async function listBrandKitVersions(params: {
+  organizationId: string;
+  projectId: string | null;
+  take?: number;
+}): Promise<BrandKitVersionRecord[]> {
+  try {
+    const rows = await prisma.brandKitVersion.findMany({
+      where: { organizationId: params.organizationId, projectId: params.projectId },
+      orderBy: { version: "desc" },
+      take: params.take || 10,
+      select: brandKitVersionSelect
+    });
+    return rows.map(toBrandKitVersionRecord);
+  } catch (error) {
+    if (isMissingTableError(error)) {
+      return [];
+    }
+    throw error;
+  }
+}
+
+/**
+ * The brand kit a generation should render with: the version it recorded when it was created, so
+ * re-renders of an old series match it, or the currently resolved kit for generations from before
+ * versioning.
+ */
+export async function resolveGenerationBrandKit(
+  params: ResolveEffectiveBrandKitParams & { brandKitVersionId?: string | null }
+): Promise<EffectiveBrandKit | null> {
+  if (params.brandKitVersionId) {
+    const version = await prisma.brandKitVersion.findFirst({
+      where: { id: params.brandKitVersionId, organizationId: params.organizationId },
+      select: brandKitVersionSelect
+    });
+    if (version) {
+      return toVersionedBrandKit(version);
+    }
+  }
+
+  return resolveEffectiveBrandKit(params);
+}
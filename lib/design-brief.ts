@@ -97,6 +97,13 @@ export const LockupRecipeSchema = z.object({
       kind: z.enum(["none", "rule_dot", "wheat", "grain", "frame"]),
       weight: z.enum(["thin", "med", "bold"])
     })
+    .optional(),
+  logo: z
+    .object({
+      placement: z.enum(["none", "corner_bug", "stacked_above_title", "inline_with_subtitle"]),
+      corner: z.enum(["top_left", "top_right", "bottom_left", "bottom_right"]).optional(),
+      scale: z.number().min(0.5).max(1.5).optional()
+    })
     .optional()
 });
 
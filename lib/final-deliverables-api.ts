@@ -1,21 +1,29 @@
 import { normalizeDesignDoc, type DesignDoc } from "@/lib/design-doc";
 import { getSession } from "@/lib/auth";
+import { resolveGenerationBrandKit } from "@/lib/brand-kit";
 import { findFinalDesignForOrganization } from "@/lib/final-design-store";
+import { registerOrganizationFonts } from "@/lib/organization-fonts";
 import {
   buildProductionBlockedMessage,
   resolveProductionValidOption,
   type GenerationAssetRecord,
   type ProductionValidOptionResult
 } from "@/lib/production-valid-option";
+import { findSeriesMark } from "@/lib/series-mark-generator";
 
 type FinalDesignLookupResult =
   | {
       ok: true;
+      organizationId: string;
       designDoc: DesignDoc;
       generationId: string | null;
+      generationOutput: unknown;
       generationAssets: GenerationAssetRecord[];
       generationValidation: ProductionValidOptionResult;
       optionLabel: string;
+      seriesTitle: string;
+      logoPath: string | null;
+      seriesMarkPath: string | null;
     }
   | {
       ok: false;
@@ -67,12 +75,26 @@ export async function loadAuthorizedFinalDesign(projectId: string): Promise<Fina
     };
   }
 
+  // Exports embed uploaded brand fonts, so they must be registered before any SVG is built.
+  await registerOrganizationFonts(session.organizationId);
+  // The logo comes from the brand kit version the option was generated with, like the option itself.
+  const brandKit = await resolveGenerationBrandKit({
+    organizationId: session.organizationId,
+    projectId,
+    brandKitVersionId: finalDesign.generation.brandKitVersionId
+  });
+
   return {
     ok: true,
+    organizationId: session.organizationId,
     designDoc,
     generationId: finalDesign.generationId,
+    generationOutput: finalDesign.generation.output,
     generationAssets: finalDesign.generation.assets,
     generationValidation,
-    optionLabel: finalDesign.optionLabel
+    optionLabel: finalDesign.optionLabel,
+    seriesTitle: finalDesign.project.series_title,
+    logoPath: brandKit?.logoPath || null,
+    seriesMarkPath: (await findSeriesMark(projectId))?.filePath || null
   };
 }
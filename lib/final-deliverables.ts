@@ -4,6 +4,7 @@ import JSZip from "jszip";
 import PptxGenJS from "pptxgenjs";
 import sharp from "sharp";
 import type { DesignDoc } from "@/lib/design-doc";
+import { findAlphaBounds } from "@/lib/lockup-compositor";
 import { buildEmbeddedFontFaceCss } from "@/lib/lockups/font-registry";
 
 const PX_PER_INCH = 96;
@@ -319,7 +320,12 @@ export async function buildFinalPptx(designDoc: DesignDoc): Promise<Buffer> {
   return Buffer.from(bufferLike);
 }
 
-type BuildFinalSvgOptions = {
+export type FinalRenderOptions = {
+  /** The organization whose uploaded fonts may be embedded; without it only library fonts are. */
+  fontScope?: string | null;
+};
+
+type BuildFinalSvgOptions = FinalRenderOptions & {
   includeBackground?: boolean;
   includeImages?: boolean;
 };
@@ -354,7 +360,8 @@ export async function buildFinalSvg(designDoc: DesignDoc, options: BuildFinalSvg
             }
           ]
         : []
-    )
+    ),
+    options.fontScope
   );
 
   svgParts.push('<?xml version="1.0" encoding="UTF-8"?>');
@@ -456,24 +463,75 @@ export async function buildFinalSvg(designDoc: DesignDoc, options: BuildFinalSvg
   return svgParts.join("\n");
 }
 
-export async function buildFinalPng(designDoc: DesignDoc): Promise<Buffer> {
-  const svg = await buildFinalSvg(designDoc);
+export async function buildFinalPng(designDoc: DesignDoc, options: FinalRenderOptions = {}): Promise<Buffer> {
+  const svg = await buildFinalSvg(designDoc, options);
   const width = normalizeDimension(designDoc.width);
   const height = normalizeDimension(designDoc.height);
   return buildFinalPngFromSvg(svg, width, height);
 }
 
-export async function buildFinalPdf(designDoc: DesignDoc): Promise<Buffer> {
-  const svg = await buildFinalSvg(designDoc);
+function rasterizeSvgAtWidth(svg: string, designDoc: DesignDoc, targetWidth: number): Promise<Buffer> {
+  const scale = normalizeDimension(targetWidth) / normalizeDimension(designDoc.width);
+  // Rasterize the SVG at the target density so text stays crisp instead of upscaling a 1x bitmap.
+  return sharp(Buffer.from(svg), { density: Math.max(1, Math.round(72 * scale)) })
+    .resize({
+      width: normalizeDimension(designDoc.width * scale),
+      height: normalizeDimension(designDoc.height * scale),
+      fit: "fill"
+    })
+    .png()
+    .toBuffer();
+}
+
+export async function buildScaledFinalPng(
+  designDoc: DesignDoc,
+  targetWidth: number,
+  options: FinalRenderOptions = {}
+): Promise<Buffer> {
+  return rasterizeSvgAtWidth(await buildFinalSvg(designDoc, options), designDoc, targetWidth);
+}
+
+export type RenderedTextBounds = {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+};
+
+/**
+ * Rasterizes each text layer on its own at `targetWidth` and returns where its glyphs landed,
+ * in target pixels, or null for a layer that drew nothing. Layer boxes only estimate this: the
+ * embedded (or fallback) font decides the real extent.
+ */
+export async function measureRenderedTextBounds(
+  designDoc: DesignDoc,
+  targetWidth: number,
+  options: FinalRenderOptions = {}
+): Promise<Array<RenderedTextBounds | null>> {
+  const measured: Array<RenderedTextBounds | null> = [];
+  for (const layer of designDoc.layers) {
+    if (isGuideLayer(layer) || layer.type !== "text") {
+      continue;
+    }
+    const textOnlyDoc: DesignDoc = { ...designDoc, backgroundImagePath: null, layers: [layer] };
+    const svg = await buildFinalSvg(textOnlyDoc, { ...options, includeBackground: false });
+    const bounds = await findAlphaBounds(await rasterizeSvgAtWidth(svg, textOnlyDoc, targetWidth));
+    measured.push(bounds ? { left: bounds.left, top: bounds.top, width: bounds.width, height: bounds.height } : null);
+  }
+  return measured;
+}
+
+export async function buildFinalPdf(designDoc: DesignDoc, options: FinalRenderOptions = {}): Promise<Buffer> {
+  const svg = await buildFinalSvg(designDoc, options);
   const width = normalizeDimension(designDoc.width);
   const height = normalizeDimension(designDoc.height);
   return buildFinalPdfFromSvg(svg, width, height);
 }
 
-export async function buildFinalBundle(designDoc: DesignDoc): Promise<Buffer> {
+export async function buildFinalBundle(designDoc: DesignDoc, options: FinalRenderOptions = {}): Promise<Buffer> {
   const width = normalizeDimension(designDoc.width);
   const height = normalizeDimension(designDoc.height);
-  const svgString = await buildFinalSvg(designDoc);
+  const svgString = await buildFinalSvg(designDoc, options);
   const [pptxBuffer, pngBuffer, pdfBuffer] = await Promise.all([
     buildFinalPptx(designDoc),
     buildFinalPngFromSvg(svgString, width, height),
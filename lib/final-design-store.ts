@@ -1,5 +1,20 @@
 import { prisma } from "@/lib/prisma";
+import {
+  LockupRecipeSchema,
+  ResolvedLockupPaletteSchema,
+  type LockupRecipe,
+  type ResolvedLockupPalette
+} from "@/lib/design-brief";
 import { normalizeDesignDoc, type DesignDoc } from "@/lib/design-doc";
+import { getFontPairing, type FontPairing } from "@/lib/lockups/fonts";
+import { getLockupPresetById } from "@/lib/lockups/presets";
+
+export type ApprovedLockupStyle = {
+  recipe: LockupRecipe;
+  lockupPresetId: string | null;
+  fontPairing: FontPairing;
+  resolvedPalette?: ResolvedLockupPalette;
+};
 
 export async function findFinalDesignForOrganization(projectId: string, organizationId: string) {
   return prisma.finalDesign.findFirst({
@@ -14,11 +29,18 @@ export async function findFinalDesignForOrganization(projectId: string, organiza
       generationId: true,
       optionLabel: true,
       designJson: true,
+      project: {
+        select: {
+          series_title: true,
+          series_subtitle: true
+        }
+      },
       generation: {
         select: {
           id: true,
           status: true,
           output: true,
+          brandKitVersionId: true,
           assets: {
             select: {
               kind: true,
@@ -32,6 +54,32 @@ export async function findFinalDesignForOrganization(projectId: string, organiza
   });
 }
 
+function isRecord(input: unknown): input is Record<string, unknown> {
+  return Boolean(input) && typeof input === "object" && !Array.isArray(input);
+}
+
+/**
+ * Recovers the lockup recipe, fonts and palette the approved generation was rendered with,
+ * so derived deliverables (weekly slides, podcast square) match the series art.
+ */
+export function readApprovedLockupStyle(generationOutput: unknown, generationId: string): ApprovedLockupStyle {
+  const debug =
+    isRecord(generationOutput) && isRecord(generationOutput.meta) && isRecord(generationOutput.meta.debug)
+      ? generationOutput.meta.debug
+      : null;
+  const lockupPresetId = typeof debug?.lockupPresetId === "string" ? debug.lockupPresetId : null;
+  const parsedRecipe = LockupRecipeSchema.safeParse(debug?.lockupRecipe);
+  const parsedPalette = ResolvedLockupPaletteSchema.safeParse(debug?.resolvedLockupPalette);
+  const recipe = parsedRecipe.success ? parsedRecipe.data : getLockupPresetById(lockupPresetId);
+
+  return {
+    recipe,
+    lockupPresetId,
+    fontPairing: getFontPairing(recipe, getLockupPresetById(lockupPresetId).styleFamily, lockupPresetId, generationId),
+    resolvedPalette: parsedPalette.success ? parsedPalette.data : undefined
+  };
+}
+
 export function readStoredDesignDoc(input: unknown, optionLabel: string): DesignDoc {
   const normalized = normalizeDesignDoc(input);
   if (normalized) {
@@ -7,7 +7,7 @@ import { buildFallbackDesignDoc, normalizeDesignDoc, type DesignDoc } from "@/li
 import { buildFinalSvg } from "@/lib/final-deliverables";
 import { generateBackgroundPng, type OpenAiImageQuality, type OpenAiImageSize } from "@/lib/ai/openai-images";
 import { resizeCoverWithFocalPoint } from "@/lib/image-cover";
-import { resolveEffectiveBrandKit } from "@/lib/brand-kit";
+import { resolveGenerationBrandKit } from "@/lib/brand-kit";
 import { prisma } from "@/lib/prisma";
 
 const PREVIEW_SHAPES = ["square", "wide", "tall"] as const;
@@ -279,6 +279,7 @@ export async function createGenerationPreviewAssets(params: {
       round: true,
       input: true,
       output: true,
+      brandKitVersionId: true,
       preset: {
         select: {
           key: true
@@ -296,7 +297,10 @@ export async function createGenerationPreviewAssets(params: {
               websiteUrl: true,
               typographyDirection: true,
               logoPath: true,
-              paletteJson: true
+              paletteJson: true,
+              paletteMode: true,
+              logoMode: true,
+              typographyMode: true
             }
           }
         }
@@ -308,10 +312,11 @@ export async function createGenerationPreviewAssets(params: {
     throw new Error(`Generation ${params.generationId} was not found for project ${params.projectId}`);
   }
 
-  const effectiveBrandKit = await resolveEffectiveBrandKit({
+  const effectiveBrandKit = await resolveGenerationBrandKit({
     organizationId: generation.project.organizationId,
     projectId: generation.projectId,
-    projectBrandKit: generation.project.brandKit
+    projectBrandKit: generation.project.brandKit,
+    brandKitVersionId: generation.brandKitVersionId
   });
 
   const uploadDirectory = path.join(process.cwd(), "public", "uploads");
@@ -361,7 +366,8 @@ export async function createGenerationPreviewAssets(params: {
 
     const overlaySvg = await buildFinalSvg(overlayDesignDoc, {
       includeBackground: false,
-      includeImages: true
+      includeImages: true,
+      fontScope: generation.project.organizationId
     });
 
     const resizedBackground = await resizeCoverWithFocalPoint({
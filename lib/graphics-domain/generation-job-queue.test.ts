@@ -0,0 +1,82 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { Prisma, type PrismaClient } from "@prisma/client";
+import { enqueueGenerationJob } from "@/lib/graphics-domain/generation-job-queue";
+
+type JobRow = {
+  id: string;
+  dedupeKey: string;
+  status: string;
+};
+
+// Models the partial unique index: a second active job for a dedupe key is rejected with P2002.
+// `beforeCreate` runs between the lookup and the insert to simulate a concurrent enqueue.
+function createFakePrisma(rows: JobRow[], beforeCreate?: () => void) {
+  let nextId = rows.length + 1;
+  const generationJob = {
+    findFirst: async (args: { where: { dedupeKey: string; status: { in: string[] } } }) => {
+      const row = rows.find((candidate) => candidate.dedupeKey === args.where.dedupeKey && args.where.status.in.includes(candidate.status));
+      return row ? { id: row.id } : null;
+    },
+    create: async (args: { data: { dedupeKey: string } }) => {
+      beforeCreate?.();
+      if (rows.some((row) => row.dedupeKey === args.data.dedupeKey && (row.status === "QUEUED" || row.status === "RUNNING"))) {
+        throw new Prisma.PrismaClientKnownRequestError("Unique constraint failed on the fields: (`dedupeKey`)", {
+          code: "P2002",
+          clientVersion: "test"
+        });
+      }
+      const row = { id: `job-${nextId}`, dedupeKey: args.data.dedupeKey, status: "QUEUED" };
+      nextId += 1;
+      rows.push(row);
+      return { id: row.id };
+    }
+  };
+
+  return {
+    generationJob,
+    $transaction: async (callback: (tx: { generationJob: typeof generationJob }) => Promise<unknown>) => callback({ generationJob })
+  } as unknown as Pick<PrismaClient, "$transaction" | "generationJob">;
+}
+
+const ENQUEUE_PARAMS = {
+  kind: "ROUND_ONE" as const,
+  projectId: "project-1",
+  organizationId: "org-1",
+  dedupeKey: "round-one:project-1"
+};
+
+test("enqueue returns the active job for a dedupe key instead of creating another", async () => {
+  const rows: JobRow[] = [{ id: "job-1", dedupeKey: ENQUEUE_PARAMS.dedupeKey, status: "RUNNING" }];
+  const result = await enqueueGenerationJob({ prisma: createFakePrisma(rows), ...ENQUEUE_PARAMS });
+
+  assert.deepEqual(result, { jobId: "job-1", deduplicated: true });
+  assert.equal(rows.length, 1);
+});
+
+test("enqueue returns the concurrently created job when the unique index rejects its insert", async () => {
+  const rows: JobRow[] = [];
+  let raced = false;
+  const prisma = createFakePrisma(rows, () => {
+    if (raced) {
+      return;
+    }
+    raced = true;
+    rows.push({ id: "job-concurrent", dedupeKey: ENQUEUE_PARAMS.dedupeKey, status: "QUEUED" });
+  });
+
+  const result = await enqueueGenerationJob({ prisma, ...ENQUEUE_PARAMS });
+
+  assert.deepEqual(result, { jobId: "job-concurrent", deduplicated: true });
+  assert.deepEqual(
+    rows.map((row) => row.id),
+    ["job-concurrent"]
+  );
+});
+
+test("enqueue creates a new job once the previous one for the key has finished", async () => {
+  const rows: JobRow[] = [{ id: "job-1", dedupeKey: ENQUEUE_PARAMS.dedupeKey, status: "COMPLETED" }];
+  const result = await enqueueGenerationJob({ prisma: createFakePrisma(rows), ...ENQUEUE_PARAMS });
+
+  assert.deepEqual(result, { jobId: "job-2", deduplicated: false });
+});
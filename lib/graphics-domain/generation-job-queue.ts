@@ -0,0 +1,281 @@
+import { Prisma, type PrismaClient } from "@prisma/client";
+import {
+  GENERATION_JOB_MAX_ATTEMPTS,
+  GENERATION_JOB_STALE_MS,
+  resolveGenerationJobFailure,
+  summarizeGenerationJobError,
+  type GenerationJobKind
+} from "@/lib/graphics-domain/generation-jobs";
+
+const ACTIVE_GENERATION_JOB_STATUSES = ["QUEUED", "RUNNING"] as const;
+const CLAIM_ATTEMPTS = 4;
+const ENQUEUE_ATTEMPTS = 4;
+
+type PrismaLike = Pick<PrismaClient, "$transaction" | "generationJob">;
+
+export type ClaimedGenerationJob = {
+  id: string;
+  kind: string;
+  projectId: string;
+  organizationId: string;
+  payloadJson: Prisma.JsonValue | null;
+  attempts: number;
+  maxAttempts: number;
+  workerId: string;
+};
+
+export type EnqueueGenerationJobResult = {
+  jobId: string;
+  deduplicated: boolean;
+};
+
+export async function enqueueGenerationJob(params: {
+  prisma: PrismaLike;
+  kind: GenerationJobKind;
+  projectId: string;
+  organizationId: string;
+  dedupeKey: string;
+  payload?: Prisma.InputJsonValue;
+  maxAttempts?: number;
+}): Promise<EnqueueGenerationJobResult> {
+  let lastError: unknown = null;
+  for (let attempt = 0; attempt < ENQUEUE_ATTEMPTS; attempt += 1) {
+    try {
+      return await enqueueGenerationJobOnce(params);
+    } catch (error) {
+      // The partial unique index on active dedupe keys rejected a job a concurrent enqueue
+      // created first; the retry finds that job and returns it as the duplicate.
+      if (!isUniqueConstraintError(error)) {
+        throw error;
+      }
+      lastError = error;
+    }
+  }
+
+  throw lastError;
+}
+
+function isUniqueConstraintError(error: unknown): boolean {
+  return error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002";
+}
+
+async function enqueueGenerationJobOnce(params: Parameters<typeof enqueueGenerationJob>[0]): Promise<EnqueueGenerationJobResult> {
+  return params.prisma.$transaction(async (tx) => {
+    const activeJob = await tx.generationJob.findFirst({
+      where: {
+        dedupeKey: params.dedupeKey,
+        status: {
+          in: [...ACTIVE_GENERATION_JOB_STATUSES]
+        }
+      },
+      orderBy: [{ createdAt: "asc" }, { id: "asc" }],
+      select: {
+        id: true
+      }
+    });
+    if (activeJob) {
+      return {
+        jobId: activeJob.id,
+        deduplicated: true
+      };
+    }
+
+    const job = await tx.generationJob.create({
+      data: {
+        kind: params.kind,
+        projectId: params.projectId,
+        organizationId: params.organizationId,
+        dedupeKey: params.dedupeKey,
+        payloadJson: params.payload,
+        maxAttempts: params.maxAttempts ?? GENERATION_JOB_MAX_ATTEMPTS
+      },
+      select: {
+        id: true
+      }
+    });
+
+    return {
+      jobId: job.id,
+      deduplicated: false
+    };
+  });
+}
+
+/**
+ * Claims the oldest runnable job: a QUEUED job whose backoff has elapsed, or a RUNNING job whose
+ * worker stopped heartbeating. The compare-and-set on status/heartbeat makes concurrent workers
+ * race safely; the loser simply looks again.
+ */
+export async function claimNextGenerationJob(params: {
+  prisma: PrismaLike;
+  workerId: string;
+  now?: Date;
+  staleMs?: number;
+}): Promise<ClaimedGenerationJob | null> {
+  const staleMs = params.staleMs ?? GENERATION_JOB_STALE_MS;
+
+  for (let attempt = 0; attempt < CLAIM_ATTEMPTS; attempt += 1) {
+    const now = params.now ?? new Date();
+    const staleBefore = new Date(now.getTime() - staleMs);
+    const candidate = await params.prisma.generationJob.findFirst({
+      where: {
+        OR: [
+          {
+            status: "QUEUED",
+            runAfter: {
+              lte: now
+            }
+          },
+          {
+            status: "RUNNING",
+            heartbeatAt: {
+              lt: staleBefore
+            }
+          }
+        ]
+      },
+      orderBy: [{ runAfter: "asc" }, { createdAt: "asc" }, { id: "asc" }],
+      select: {
+        id: true,
+        kind: true,
+        projectId: true,
+        organizationId: true,
+        payloadJson: true,
+        status: true,
+        attempts: true,
+        maxAttempts: true,
+        heartbeatAt: true
+      }
+    });
+    if (!candidate) {
+      return null;
+    }
+
+    if (candidate.status === "RUNNING" && candidate.attempts >= candidate.maxAttempts) {
+      await params.prisma.generationJob.updateMany({
+        where: {
+          id: candidate.id,
+          status: "RUNNING",
+          heartbeatAt: candidate.heartbeatAt
+        },
+        data: {
+          status: "FAILED",
+          lockedBy: null,
+          completedAt: now,
+          lastError: "worker_heartbeat_lost"
+        }
+      });
+      continue;
+    }
+
+    const claimResult = await params.prisma.generationJob.updateMany({
+      where: {
+        id: candidate.id,
+        status: candidate.status,
+        heartbeatAt: candidate.heartbeatAt
+      },
+      data: {
+        status: "RUNNING",
+        attempts: {
+          increment: 1
+        },
+        lockedBy: params.workerId,
+        lockedAt: now,
+        heartbeatAt: now
+      }
+    });
+    if (claimResult.count !== 1) {
+      continue;
+    }
+
+    return {
+      id: candidate.id,
+      kind: candidate.kind,
+      projectId: candidate.projectId,
+      organizationId: candidate.organizationId,
+      payloadJson: candidate.payloadJson,
+      attempts: candidate.attempts + 1,
+      maxAttempts: candidate.maxAttempts,
+      workerId: params.workerId
+    };
+  }
+
+  return null;
+}
+
+/** Returns false once another worker has reclaimed the job; the caller should stop work. */
+export async function heartbeatGenerationJob(params: {
+  prisma: PrismaLike;
+  job: ClaimedGenerationJob;
+  now?: Date;
+}): Promise<boolean> {
+  const updateResult = await params.prisma.generationJob.updateMany({
+    where: {
+      id: params.job.id,
+      status: "RUNNING",
+      lockedBy: params.job.workerId
+    },
+    data: {
+      heartbeatAt: params.now ?? new Date()
+    }
+  });
+
+  return updateResult.count === 1;
+}
+
+export async function completeGenerationJob(params: {
+  prisma: PrismaLike;
+  job: ClaimedGenerationJob;
+}): Promise<boolean> {
+  const updateResult = await params.prisma.generationJob.updateMany({
+    where: {
+      id: params.job.id,
+      status: "RUNNING",
+      lockedBy: params.job.workerId
+    },
+    data: {
+      status: "COMPLETED",
+      completedAt: new Date(),
+      lastError: null
+    }
+  });
+
+  return updateResult.count === 1;
+}
+
+export async function failGenerationJob(params: {
+  prisma: PrismaLike;
+  job: ClaimedGenerationJob;
+  error: unknown;
+  retryable: boolean;
+  now?: Date;
+}): Promise<boolean> {
+  const now = params.now ?? new Date();
+  const resolution = resolveGenerationJobFailure({
+    attempts: params.job.attempts,
+    maxAttempts: params.job.maxAttempts,
+    retryable: params.retryable,
+    now
+  });
+  const updateResult = await params.prisma.generationJob.updateMany({
+    where: {
+      id: params.job.id,
+      status: "RUNNING",
+      lockedBy: params.job.workerId
+    },
+    data: {
+      status: resolution.status,
+      lastError: summarizeGenerationJobError(params.error),
+      lockedBy: null,
+      ...(resolution.status === "QUEUED"
+        ? {
+            runAfter: resolution.runAfter
+          }
+        : {
+            completedAt: now
+          })
+    }
+  });
+
+  return updateResult.count === 1;
+}
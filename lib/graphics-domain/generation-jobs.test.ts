@@ -0,0 +1,49 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import {
+  buildGenerationJobDedupeKey,
+  resolveGenerationJobFailure,
+  resolveGenerationJobRetryDelayMs,
+  summarizeGenerationJobError
+} from "@/lib/graphics-domain/generation-jobs";
+
+const NOW = new Date("2026-05-05T12:00:00.000Z");
+
+test("dedupe keys collapse repeated launches of the same round", () => {
+  assert.equal(
+    buildGenerationJobDedupeKey({ kind: "ROUND_ONE", projectId: "project-1", round: 1 }),
+    buildGenerationJobDedupeKey({ kind: "ROUND_ONE", projectId: "project-1", round: 1 })
+  );
+  assert.notEqual(
+    buildGenerationJobDedupeKey({ kind: "ROUND_TWO", projectId: "project-1", round: 2 }),
+    buildGenerationJobDedupeKey({ kind: "ROUND_TWO", projectId: "project-1", round: 3 })
+  );
+});
+
+test("retry delay backs off exponentially and is capped", () => {
+  assert.equal(resolveGenerationJobRetryDelayMs(1), 30_000);
+  assert.equal(resolveGenerationJobRetryDelayMs(2), 60_000);
+  assert.equal(resolveGenerationJobRetryDelayMs(3), 120_000);
+  assert.equal(resolveGenerationJobRetryDelayMs(20), 600_000);
+});
+
+test("thrown failures requeue until attempts are exhausted", () => {
+  assert.deepEqual(resolveGenerationJobFailure({ attempts: 1, maxAttempts: 3, retryable: true, now: NOW }), {
+    status: "QUEUED",
+    runAfter: new Date(NOW.getTime() + 30_000)
+  });
+  assert.deepEqual(resolveGenerationJobFailure({ attempts: 3, maxAttempts: 3, retryable: true, now: NOW }), {
+    status: "FAILED"
+  });
+});
+
+test("handler-reported failures are terminal on the first attempt", () => {
+  assert.deepEqual(resolveGenerationJobFailure({ attempts: 1, maxAttempts: 3, retryable: false, now: NOW }), {
+    status: "FAILED"
+  });
+});
+
+test("job errors are flattened and truncated for storage", () => {
+  assert.equal(summarizeGenerationJobError(new Error("provider\n  exploded")), "provider exploded");
+  assert.equal(summarizeGenerationJobError("x".repeat(800)).length, 500);
+});
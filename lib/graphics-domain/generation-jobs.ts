@@ -0,0 +1,71 @@
+export const GENERATION_JOB_KINDS = ["ROUND_ONE", "ROUND_TWO", "ROUND_ONE_V2_SHADOW"] as const;
+export type GenerationJobKind = (typeof GENERATION_JOB_KINDS)[number];
+
+export const GENERATION_JOB_KIND_LABELS: Record<GenerationJobKind, string> = {
+  ROUND_ONE: "Round 1",
+  ROUND_TWO: "Refinement round",
+  ROUND_ONE_V2_SHADOW: "Round 1 V2 shadow"
+};
+
+/** Background-only kinds; their jobs never surface on the project pages. */
+export const SHADOW_GENERATION_JOB_KINDS: readonly GenerationJobKind[] = ["ROUND_ONE_V2_SHADOW"];
+
+export const GENERATION_JOB_MAX_ATTEMPTS = 3;
+export const GENERATION_JOB_HEARTBEAT_INTERVAL_MS = 15_000;
+// A RUNNING job whose worker has not heartbeated for this long is treated as abandoned
+// (worker crash or deploy) and becomes claimable again.
+export const GENERATION_JOB_STALE_MS = 4 * GENERATION_JOB_HEARTBEAT_INTERVAL_MS;
+const GENERATION_JOB_RETRY_BASE_DELAY_MS = 30_000;
+const GENERATION_JOB_RETRY_MAX_DELAY_MS = 10 * 60_000;
+const GENERATION_JOB_ERROR_MAX_LENGTH = 500;
+
+export type GenerationJobFailureResolution =
+  | {
+      status: "QUEUED";
+      runAfter: Date;
+    }
+  | {
+      status: "FAILED";
+    };
+
+export function isGenerationJobKind(value: unknown): value is GenerationJobKind {
+  return typeof value === "string" && (GENERATION_JOB_KINDS as readonly string[]).includes(value);
+}
+
+/**
+ * One active job per round launch: a double-submitted Round 1 or a repeated Round N feedback
+ * submission collapses onto the job already in the queue.
+ */
+export function buildGenerationJobDedupeKey(params: { kind: GenerationJobKind; projectId: string; round: number }): string {
+  return `${params.kind.toLowerCase()}:${params.projectId}:round-${params.round}`;
+}
+
+export function resolveGenerationJobRetryDelayMs(attempts: number): number {
+  const exponent = Math.max(0, attempts - 1);
+  return Math.min(GENERATION_JOB_RETRY_MAX_DELAY_MS, GENERATION_JOB_RETRY_BASE_DELAY_MS * 2 ** exponent);
+}
+
+/**
+ * Thrown errors are retried with backoff until maxAttempts; handler-reported errors (validation,
+ * quota, missing presets) are terminal because a retry would reach the same answer.
+ */
+export function resolveGenerationJobFailure(params: {
+  attempts: number;
+  maxAttempts: number;
+  retryable: boolean;
+  now: Date;
+}): GenerationJobFailureResolution {
+  if (!params.retryable || params.attempts >= params.maxAttempts) {
+    return { status: "FAILED" };
+  }
+
+  return {
+    status: "QUEUED",
+    runAfter: new Date(params.now.getTime() + resolveGenerationJobRetryDelayMs(params.attempts))
+  };
+}
+
+export function summarizeGenerationJobError(error: unknown): string {
+  const message = error instanceof Error ? error.message : typeof error === "string" ? error : "unknown_generation_job_error";
+  return message.replace(/\s+/g, " ").trim().slice(0, GENERATION_JOB_ERROR_MAX_LENGTH);
+}
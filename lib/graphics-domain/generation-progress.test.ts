@@ -0,0 +1,80 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import {
+  deriveGenerationProgress,
+  formatServerSentEvent,
+  isGenerationProgressStageReached,
+  type GenerationProgressSource
+} from "@/lib/graphics-domain/generation-progress";
+
+function rebuildLane(overrides: Partial<GenerationProgressSource> = {}): GenerationProgressSource {
+  return {
+    generation: { id: "gen-a", status: "RUNNING", input: { v2: true, renderer: "ai_rebuild" } },
+    scoutRuns: [],
+    rebuildAttempts: [],
+    ...overrides
+  };
+}
+
+test("rebuild lanes walk from planned scouts through rebuild and backfill", () => {
+  assert.equal(deriveGenerationProgress(rebuildLane()).stage, "queued");
+
+  const planned = deriveGenerationProgress(
+    rebuildLane({
+      scoutRuns: [
+        { status: "PENDING", eval: null },
+        { status: "PENDING", eval: null }
+      ]
+    })
+  );
+  assert.equal(planned.stage, "scouts_planned");
+  assert.equal(planned.scouts.planned, 2);
+
+  const evaluated = deriveGenerationProgress(
+    rebuildLane({
+      scoutRuns: [
+        { status: "SUCCESS", eval: { hardReject: true } },
+        { status: "FAILED", eval: null }
+      ]
+    })
+  );
+  assert.equal(evaluated.stage, "scouts_evaluated");
+  assert.deepEqual(evaluated.scouts, { planned: 2, generated: 1, failed: 1, rejected: 1 });
+
+  assert.equal(
+    deriveGenerationProgress(rebuildLane({ rebuildAttempts: [{ status: "PENDING", attemptOrder: 0 }] })).stage,
+    "lanes_rebuilding"
+  );
+  const backfill = deriveGenerationProgress(rebuildLane({ rebuildAttempts: [{ status: "PENDING", attemptOrder: 2 }] }));
+  assert.equal(backfill.stage, "backfill");
+  assert.equal(backfill.rebuildAttempts, 3);
+});
+
+test("settled lanes report their outcome regardless of lineage", () => {
+  const snapshot = deriveGenerationProgress(
+    rebuildLane({
+      generation: { id: "gen-a", status: "FAILED", input: { renderer: "ai_rebuild" } },
+      rebuildAttempts: [{ status: "PENDING", attemptOrder: 0 }]
+    })
+  );
+  assert.equal(snapshot.stage, "settled");
+  assert.equal(snapshot.settled, true);
+  assert.equal(snapshot.outcome, "FAILED");
+});
+
+test("local and V1 lanes use the single-step render track", () => {
+  const snapshot = deriveGenerationProgress({
+    generation: { id: "gen-c", status: "RUNNING", input: { v2: true, renderer: "deterministic_design_mode_v1" } },
+    scoutRuns: [],
+    rebuildAttempts: []
+  });
+  assert.equal(snapshot.track, "render");
+  assert.equal(snapshot.stage, "rendering");
+  assert.equal(isGenerationProgressStageReached(snapshot, "queued"), true);
+  assert.equal(isGenerationProgressStageReached(snapshot, "settled"), false);
+  assert.equal(isGenerationProgressStageReached(snapshot, "scouts_planned"), false);
+});
+
+test("server-sent events are framed with an event name and JSON data", () => {
+  assert.equal(formatServerSentEvent("progress", { stage: "queued" }), 'event: progress\ndata: {"stage":"queued"}\n\n');
+});
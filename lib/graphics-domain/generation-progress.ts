@@ -0,0 +1,126 @@
+export const REBUILD_PROGRESS_STAGES = [
+  "queued",
+  "scouts_planned",
+  "scouts_evaluated",
+  "lanes_rebuilding",
+  "backfill",
+  "settled"
+] as const;
+export const RENDER_PROGRESS_STAGES = ["queued", "rendering", "settled"] as const;
+
+export type GenerationProgressStage = (typeof REBUILD_PROGRESS_STAGES)[number] | (typeof RENDER_PROGRESS_STAGES)[number];
+
+// "rebuild" lanes go through the V2 scout → eval → rebuild pipeline; "render" lanes (V1 and the
+// local deterministic V2 lanes) render in a single step.
+export type GenerationProgressTrack = "rebuild" | "render";
+
+export const GENERATION_PROGRESS_STAGE_LABELS: Record<GenerationProgressStage, string> = {
+  queued: "Queued",
+  scouts_planned: "Scouts planned",
+  scouts_evaluated: "Scouts evaluated",
+  lanes_rebuilding: "Rebuilding lane",
+  backfill: "Backfilling from next scout",
+  rendering: "Rendering",
+  settled: "Settled"
+};
+
+export type GenerationProgressSource = {
+  generation: {
+    id: string;
+    status: string;
+    input: unknown;
+  };
+  scoutRuns: Array<{
+    status: string;
+    eval: { hardReject: boolean } | null;
+  }>;
+  rebuildAttempts: Array<{
+    status: string;
+    attemptOrder: number;
+  }>;
+};
+
+export type GenerationProgressSnapshot = {
+  generationId: string;
+  track: GenerationProgressTrack;
+  stage: GenerationProgressStage;
+  settled: boolean;
+  outcome: "COMPLETED" | "FAILED" | null;
+  scouts: {
+    planned: number;
+    generated: number;
+    failed: number;
+    rejected: number;
+  };
+  rebuildAttempts: number;
+};
+
+function readRenderer(input: unknown): string | null {
+  if (!input || typeof input !== "object" || Array.isArray(input)) {
+    return null;
+  }
+  const renderer = (input as Record<string, unknown>).renderer;
+  return typeof renderer === "string" ? renderer : null;
+}
+
+export function getGenerationProgressStages(track: GenerationProgressTrack): readonly GenerationProgressStage[] {
+  return track === "rebuild" ? REBUILD_PROGRESS_STAGES : RENDER_PROGRESS_STAGES;
+}
+
+/**
+ * Derives the live stage of one lane from its persisted lineage. The V2 orchestrator writes scout
+ * runs when they are planned, fills them in once evaluated and opens the rebuild attempt before the
+ * lane rebuild starts, so each stage is visible as soon as it begins.
+ */
+export function deriveGenerationProgress(source: GenerationProgressSource): GenerationProgressSnapshot {
+  const { generation, scoutRuns, rebuildAttempts } = source;
+  const track: GenerationProgressTrack =
+    readRenderer(generation.input) === "ai_rebuild" || scoutRuns.length > 0 || rebuildAttempts.length > 0 ? "rebuild" : "render";
+  const scouts = {
+    planned: scoutRuns.length,
+    generated: scoutRuns.filter((run) => run.status === "SUCCESS").length,
+    failed: scoutRuns.filter((run) => run.status === "FAILED").length,
+    rejected: scoutRuns.filter((run) => run.eval?.hardReject === true).length
+  };
+  const settled = generation.status === "COMPLETED" || generation.status === "FAILED";
+  const latestAttemptOrder = rebuildAttempts.reduce((max, attempt) => Math.max(max, attempt.attemptOrder), -1);
+
+  let stage: GenerationProgressStage;
+  if (settled) {
+    stage = "settled";
+  } else if (generation.status === "QUEUED") {
+    stage = "queued";
+  } else if (track === "render") {
+    stage = "rendering";
+  } else if (latestAttemptOrder > 0) {
+    stage = "backfill";
+  } else if (latestAttemptOrder === 0) {
+    stage = "lanes_rebuilding";
+  } else if (scouts.planned > 0 && scouts.generated + scouts.failed === scouts.planned) {
+    stage = "scouts_evaluated";
+  } else if (scouts.planned > 0) {
+    stage = "scouts_planned";
+  } else {
+    stage = "queued";
+  }
+
+  return {
+    generationId: generation.id,
+    track,
+    stage,
+    settled,
+    outcome: settled ? (generation.status as "COMPLETED" | "FAILED") : null,
+    scouts,
+    rebuildAttempts: latestAttemptOrder + 1
+  };
+}
+
+export function isGenerationProgressStageReached(snapshot: GenerationProgressSnapshot, stage: GenerationProgressStage): boolean {
+  const stages = getGenerationProgressStages(snapshot.track);
+  const target = stages.indexOf(stage);
+  return target !== -1 && target <= stages.indexOf(snapshot.stage);
+}
+
+export function formatServerSentEvent(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
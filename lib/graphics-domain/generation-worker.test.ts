@@ -0,0 +1,242 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import type { PrismaClient } from "@prisma/client";
+import type { ClaimedGenerationJob } from "@/lib/graphics-domain/generation-job-queue";
+import {
+  buildGenerationJobHandlers,
+  runClaimedGenerationJob,
+  runGenerationWorker,
+  type GenerationJobHandler
+} from "@/lib/graphics-domain/generation-worker";
+
+type JobRow = {
+  id: string;
+  status: string;
+  lockedBy: string | null;
+  lastError?: string | null;
+  runAfter?: Date;
+  completedAt?: Date;
+};
+
+function createFakePrisma(row: JobRow) {
+  const generationJob = {
+    updateMany: async (args: { where: { id: string; status?: string; lockedBy?: string }; data: Partial<JobRow> }) => {
+      const matches =
+        args.where.id === row.id &&
+        (args.where.status === undefined || args.where.status === row.status) &&
+        (args.where.lockedBy === undefined || args.where.lockedBy === row.lockedBy);
+      if (!matches) {
+        return { count: 0 };
+      }
+      Object.assign(row, args.data);
+      return { count: 1 };
+    }
+  };
+
+  return { generationJob, $transaction: async () => undefined } as unknown as Pick<PrismaClient, "$transaction" | "generationJob">;
+}
+
+function buildJob(overrides: Partial<ClaimedGenerationJob> = {}): ClaimedGenerationJob {
+  return {
+    id: "job-1",
+    kind: "ROUND_ONE",
+    projectId: "project-1",
+    organizationId: "org-1",
+    payloadJson: null,
+    attempts: 1,
+    maxAttempts: 3,
+    workerId: "worker-a",
+    ...overrides
+  };
+}
+
+function handlersFor(handler: GenerationJobHandler) {
+  return { ROUND_ONE: handler, ROUND_TWO: handler, ROUND_ONE_V2_SHADOW: handler };
+}
+
+test("a successful handler completes the job", async () => {
+  const row: JobRow = { id: "job-1", status: "RUNNING", lockedBy: "worker-a" };
+  const outcome = await runClaimedGenerationJob({
+    prisma: createFakePrisma(row),
+    job: buildJob(),
+    handlers: handlersFor(async () => ({}))
+  });
+
+  assert.equal(outcome, "completed");
+  assert.equal(row.status, "COMPLETED");
+});
+
+test("a handler-reported error fails the job without retry", async () => {
+  const row: JobRow = { id: "job-1", status: "RUNNING", lockedBy: "worker-a" };
+  const outcome = await runClaimedGenerationJob({
+    prisma: createFakePrisma(row),
+    job: buildJob(),
+    handlers: handlersFor(async () => ({ error: "At least three presets are required to generate options." }))
+  });
+
+  assert.equal(outcome, "failed");
+  assert.equal(row.status, "FAILED");
+  assert.equal(row.lastError, "At least three presets are required to generate options.");
+});
+
+test("a thrown error requeues the job with backoff until attempts run out", async () => {
+  const row: JobRow = { id: "job-1", status: "RUNNING", lockedBy: "worker-a" };
+  const outcome = await runClaimedGenerationJob({
+    prisma: createFakePrisma(row),
+    job: buildJob(),
+    handlers: handlersFor(async () => {
+      throw new Error("upstream timeout");
+    })
+  });
+
+  assert.equal(outcome, "retrying");
+  assert.equal(row.status, "QUEUED");
+  assert.equal(row.lockedBy, null);
+  assert.ok(row.runAfter instanceof Date);
+
+  const lastRow: JobRow = { id: "job-1", status: "RUNNING", lockedBy: "worker-a" };
+  const lastOutcome = await runClaimedGenerationJob({
+    prisma: createFakePrisma(lastRow),
+    job: buildJob({ attempts: 3 }),
+    handlers: handlersFor(async () => {
+      throw new Error("upstream timeout");
+    })
+  });
+
+  assert.equal(lastOutcome, "failed");
+  assert.equal(lastRow.status, "FAILED");
+});
+
+test("a job reclaimed by another worker is not settled by the original worker", async () => {
+  const row: JobRow = { id: "job-1", status: "RUNNING", lockedBy: "worker-b" };
+  const outcome = await runClaimedGenerationJob({
+    prisma: createFakePrisma(row),
+    job: buildJob(),
+    handlers: handlersFor(async () => ({}))
+  });
+
+  assert.equal(outcome, "lost");
+  assert.equal(row.status, "RUNNING");
+  assert.equal(row.lockedBy, "worker-b");
+});
+
+test("losing the lease mid-run aborts the handler and leaves the job to the reclaiming worker", async () => {
+  const row: JobRow = { id: "job-1", status: "RUNNING", lockedBy: "worker-a" };
+  let handlerSawAbort = false;
+  const outcome = await runClaimedGenerationJob({
+    prisma: createFakePrisma(row),
+    job: buildJob(),
+    heartbeatIntervalMs: 5,
+    handlers: handlersFor(async (_job, { signal }) => {
+      row.lockedBy = "worker-b";
+      await new Promise<void>((resolve) => signal.addEventListener("abort", () => resolve(), { once: true }));
+      handlerSawAbort = signal.aborted;
+      return { error: "settled after the lease was lost" };
+    })
+  });
+
+  assert.equal(outcome, "lost");
+  assert.equal(handlerSawAbort, true);
+  assert.equal(row.status, "RUNNING");
+  assert.equal(row.lockedBy, "worker-b");
+  assert.equal(row.lastError, undefined);
+});
+
+test("unknown job kinds fail immediately", async () => {
+  const row: JobRow = { id: "job-1", status: "RUNNING", lockedBy: "worker-a" };
+  const outcome = await runClaimedGenerationJob({
+    prisma: createFakePrisma(row),
+    job: buildJob({ kind: "ROUND_NINE" }),
+    handlers: handlersFor(async () => ({}))
+  });
+
+  assert.equal(outcome, "failed");
+  assert.equal(row.lastError, "unknown_job_kind:ROUND_NINE");
+});
+
+test("job handlers route every kind to its round action with the job's fields and lease signal", async () => {
+  const calls: Array<{ action: string; params: Record<string, unknown> }> = [];
+  const record = (action: string) => async (params: Record<string, unknown>) => {
+    calls.push({ action, params });
+    return {};
+  };
+  const handlers = buildGenerationJobHandlers({
+    runRoundOneGeneration: record("roundOne"),
+    runRoundTwoGeneration: record("roundTwo"),
+    runRoundOneV2ShadowGeneration: record("shadow")
+  });
+  const signal = new AbortController().signal;
+
+  await handlers.ROUND_ONE(buildJob(), { signal });
+  await handlers.ROUND_TWO(buildJob({ kind: "ROUND_TWO", payloadJson: { feedback: "warmer" } }), { signal });
+  await handlers.ROUND_ONE_V2_SHADOW(buildJob({ kind: "ROUND_ONE_V2_SHADOW", payloadJson: { runSeed: "seed" } }), { signal });
+
+  assert.deepEqual(calls, [
+    { action: "roundOne", params: { projectId: "project-1", organizationId: "org-1", jobId: "job-1", signal } },
+    { action: "roundTwo", params: { projectId: "project-1", organizationId: "org-1", request: { feedback: "warmer" }, signal } },
+    { action: "shadow", params: { projectId: "project-1", payload: { runSeed: "seed" }, signal } }
+  ]);
+});
+
+test("the worker loop claims queued jobs one at a time until its signal aborts", async () => {
+  const rows: Array<JobRow & { kind: string; attempts: number; heartbeatAt: Date | null }> = [
+    { id: "job-1", kind: "ROUND_ONE", status: "QUEUED", lockedBy: null, attempts: 0, heartbeatAt: null },
+    { id: "job-2", kind: "ROUND_TWO", status: "QUEUED", lockedBy: null, attempts: 0, heartbeatAt: null }
+  ];
+  const generationJob = {
+    findFirst: async () => {
+      const row = rows.find((candidate) => candidate.status === "QUEUED");
+      return row
+        ? { ...row, projectId: "project-1", organizationId: "org-1", payloadJson: null, maxAttempts: 3 }
+        : null;
+    },
+    updateMany: async (args: {
+      where: { id: string; status?: string; lockedBy?: string };
+      data: Partial<JobRow> & { attempts?: { increment: number }; heartbeatAt?: Date };
+    }) => {
+      const row = rows.find((candidate) => candidate.id === args.where.id);
+      if (
+        !row ||
+        (args.where.status !== undefined && args.where.status !== row.status) ||
+        (args.where.lockedBy !== undefined && args.where.lockedBy !== row.lockedBy)
+      ) {
+        return { count: 0 };
+      }
+      const { attempts, ...data } = args.data;
+      Object.assign(row, data);
+      if (attempts) {
+        row.attempts += attempts.increment;
+      }
+      return { count: 1 };
+    }
+  };
+  const prisma = { generationJob, $transaction: async () => undefined } as unknown as Pick<
+    PrismaClient,
+    "$transaction" | "generationJob"
+  >;
+  const controller = new AbortController();
+  const handled: string[] = [];
+
+  await runGenerationWorker({
+    prisma,
+    workerId: "worker-a",
+    pollIntervalMs: 5,
+    signal: controller.signal,
+    handlers: handlersFor(async (job) => {
+      handled.push(`${job.id}:${job.attempts}`);
+      if (handled.length === rows.length) {
+        controller.abort();
+      }
+      return {};
+    })
+  });
+
+  assert.deepEqual(handled, ["job-1:1", "job-2:1"]);
+  assert.deepEqual(
+    rows.map((row) => [row.id, row.status, row.lockedBy]),
+    [
+      ["job-1", "COMPLETED", "worker-a"],
+      ["job-2", "COMPLETED", "worker-a"]
+    ]
+  );
+});
@@ -0,0 +1,187 @@
+import type { PrismaClient } from "@prisma/client";
+import {
+  claimNextGenerationJob,
+  completeGenerationJob,
+  failGenerationJob,
+  heartbeatGenerationJob,
+  type ClaimedGenerationJob
+} from "@/lib/graphics-domain/generation-job-queue";
+import {
+  GENERATION_JOB_HEARTBEAT_INTERVAL_MS,
+  isGenerationJobKind,
+  type GenerationJobKind
+} from "@/lib/graphics-domain/generation-jobs";
+
+const DEFAULT_POLL_INTERVAL_MS = 2_000;
+
+type PrismaLike = Pick<PrismaClient, "$transaction" | "generationJob">;
+
+/** A handler-reported error fails the job without retry; a thrown error is retried. */
+export type GenerationJobHandlerResult = {
+  error?: string;
+};
+
+/** The signal aborts once another worker reclaims the job; handlers stop before settling the round. */
+export type GenerationJobHandler = (
+  job: ClaimedGenerationJob,
+  context: { signal: AbortSignal }
+) => Promise<GenerationJobHandlerResult>;
+
+export type GenerationJobOutcome = "completed" | "failed" | "retrying" | "lost";
+
+/** The round actions a worker runs; injected so this module never loads the app graph. */
+export type GenerationJobActions = {
+  runRoundOneGeneration: (params: {
+    projectId: string;
+    organizationId: string;
+    jobId?: string;
+    signal?: AbortSignal;
+  }) => Promise<GenerationJobHandlerResult>;
+  runRoundTwoGeneration: (params: {
+    projectId: string;
+    organizationId: string;
+    request: unknown;
+    signal?: AbortSignal;
+  }) => Promise<GenerationJobHandlerResult>;
+  runRoundOneV2ShadowGeneration: (params: {
+    projectId: string;
+    payload: unknown;
+    signal?: AbortSignal;
+  }) => Promise<GenerationJobHandlerResult>;
+};
+
+export function buildGenerationJobHandlers(actions: GenerationJobActions): Record<GenerationJobKind, GenerationJobHandler> {
+  return {
+    ROUND_ONE: (job, { signal }) =>
+      actions.runRoundOneGeneration({
+        projectId: job.projectId,
+        organizationId: job.organizationId,
+        jobId: job.id,
+        signal
+      }),
+    ROUND_TWO: (job, { signal }) =>
+      actions.runRoundTwoGeneration({
+        projectId: job.projectId,
+        organizationId: job.organizationId,
+        request: job.payloadJson,
+        signal
+      }),
+    ROUND_ONE_V2_SHADOW: (job, { signal }) =>
+      actions.runRoundOneV2ShadowGeneration({
+        projectId: job.projectId,
+        payload: job.payloadJson,
+        signal
+      })
+  };
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) {
+      resolve();
+      return;
+    }
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      resolve();
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+export async function runClaimedGenerationJob(params: {
+  prisma: PrismaLike;
+  job: ClaimedGenerationJob;
+  handlers: Record<GenerationJobKind, GenerationJobHandler>;
+  heartbeatIntervalMs?: number;
+}): Promise<GenerationJobOutcome> {
+  const { job } = params;
+  const leaseController = new AbortController();
+  const heartbeatId = setInterval(() => {
+    void heartbeatGenerationJob({ prisma: params.prisma, job })
+      .then((active) => {
+        if (!active && !leaseController.signal.aborted) {
+          console.warn(`[generation-worker] heartbeat lost job=${job.id} worker=${job.workerId}`);
+          leaseController.abort();
+        }
+      })
+      .catch((error) => {
+        console.warn(`[generation-worker] heartbeat failed job=${job.id}`, error);
+      });
+  }, params.heartbeatIntervalMs ?? GENERATION_JOB_HEARTBEAT_INTERVAL_MS);
+
+  try {
+    if (!isGenerationJobKind(job.kind)) {
+      await failGenerationJob({ prisma: params.prisma, job, error: `unknown_job_kind:${job.kind}`, retryable: false });
+      return "failed";
+    }
+
+    let result: GenerationJobHandlerResult;
+    try {
+      result = await params.handlers[job.kind](job, { signal: leaseController.signal });
+    } catch (error) {
+      if (leaseController.signal.aborted) {
+        return "lost";
+      }
+      console.error(`[generation-worker] job threw job=${job.id} kind=${job.kind} attempt=${job.attempts}`, error);
+      const recorded = await failGenerationJob({ prisma: params.prisma, job, error, retryable: true });
+      if (!recorded) {
+        return "lost";
+      }
+      return job.attempts >= job.maxAttempts ? "failed" : "retrying";
+    }
+
+    // The worker that reclaimed the job owns its outcome now.
+    if (leaseController.signal.aborted) {
+      return "lost";
+    }
+
+    if (result.error) {
+      const recorded = await failGenerationJob({ prisma: params.prisma, job, error: result.error, retryable: false });
+      return recorded ? "failed" : "lost";
+    }
+
+    const recorded = await completeGenerationJob({ prisma: params.prisma, job });
+    return recorded ? "completed" : "lost";
+  } finally {
+    clearInterval(heartbeatId);
+  }
+}
+
+/**
+ * Polls the job table until the signal aborts. One job runs at a time per worker; scale by
+ * running more worker processes. An abort lets the in-flight job finish before returning.
+ */
+export async function runGenerationWorker(params: {
+  prisma: PrismaLike;
+  workerId: string;
+  handlers: Record<GenerationJobKind, GenerationJobHandler>;
+  pollIntervalMs?: number;
+  signal?: AbortSignal;
+}): Promise<void> {
+  const pollIntervalMs = params.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+  console.log(`[generation-worker] started worker=${params.workerId}`);
+
+  while (!params.signal?.aborted) {
+    const job = await claimNextGenerationJob({ prisma: params.prisma, workerId: params.workerId });
+    if (!job) {
+      await sleep(pollIntervalMs, params.signal);
+      continue;
+    }
+
+    const startedAt = Date.now();
+    console.log(`[generation-worker] claimed job=${job.id} kind=${job.kind} project=${job.projectId} attempt=${job.attempts}`);
+    const outcome = await runClaimedGenerationJob({
+      prisma: params.prisma,
+      job,
+      handlers: params.handlers
+    });
+    console.log(`[generation-worker] ${outcome} job=${job.id} durationMs=${Date.now() - startedAt}`);
+  }
+
+  console.log(`[generation-worker] stopped worker=${params.workerId}`);
+}
@@ -2,7 +2,7 @@ import "server-only";
 
 import { abandonAiRuns, completeAiRun, createAiRun } from "@/lib/ai-harness/storage/attempts";
 import { logBenchmarkRun } from "@/lib/ai-harness/storage/benchmark-runs";
-import { generateImageWithOpenAiHarness, type OpenAiImageReference } from "@/lib/ai-harness/providers";
+import { generateImageWithHarness, type OpenAiImageReference } from "@/lib/ai-harness/providers";
 import type {
   AiBenchmarkCaseDefinition,
   AiInputJsonValue,
@@ -10,7 +10,6 @@ import type {
   AiRunStatus
 } from "@/lib/ai-harness/core/types";
 import { readAiErrorClass, readAiProviderErrorMetadata } from "@/lib/ai-harness/core/errors";
-import { generateFalImage } from "@/lib/fal-image";
 import { buildFluxBackgroundPrompt } from "@/lib/graphics-domain/flux-prompt";
 import { resolveGraphicsBackgroundImageSize, type GraphicsPreviewShape } from "@/lib/graphics-domain/assets";
 import {
@@ -161,7 +160,7 @@ export async function runGraphicsBackgroundImageGeneration(params: {
   meta?: {
     debug?: GptImageDebugMeta;
   };
-  // Optional fields used by the Flux prompt builder (ignored by OpenAI path).
+  // Optional fields used by the Flux prompt builder on FAL routes (ignored by OpenAI routes).
   brief?: { title: string; seriesDescription?: string; scripture?: string | null };
   bibleCreativeBrief?: { themes: string[]; motifs: string[]; markIdeas: string[] } | null;
   motifFocus?: string[];
@@ -173,55 +172,33 @@ export async function runGraphicsBackgroundImageGeneration(params: {
   boostMotif?: boolean;
   boostNoText?: boolean;
 }): Promise<{ imagePng: Buffer; aiTrace: GraphicsBackgroundAiAttemptTrace }> {
-  if (process.env.FAL_API_KEY?.trim()) {
-    const sizeStr = resolveGraphicsBackgroundImageSize(params.shape);
-    const [widthStr, heightStr] = sizeStr.split("x");
-    const width = parseInt(widthStr, 10);
-    const height = parseInt(heightStr, 10);
-    const falPrompt = buildFluxBackgroundPrompt({
-      seriesTitle: params.brief?.title ?? "",
-      seriesDescription: params.brief?.seriesDescription,
-      scripturePassages: params.brief?.scripture ?? undefined,
-      bibleCreativeBrief: params.bibleCreativeBrief,
-      motifFocus: params.motifFocus,
-      styleFamily: params.styleFamily?.name,
-      tone: params.tone,
-      lanePrompt: params.directionSpec?.lanePrompt,
-      generationId: params.runHandle?.run?.id ?? "unknown",
-      boostTone: params.boostTone,
-      boostMotif: params.boostMotif,
-      boostNoText: params.boostNoText,
-    });
-    console.log("[FLUX PROMPT]", falPrompt);
-    let b64: string;
-    try {
-      b64 = await generateFalImage(falPrompt, width, height);
-    } catch (falErr) {
-      console.error("[FAL ERROR]", String(falErr));
-      throw falErr;
-    }
-    const imagePng = Buffer.from(b64, "base64");
-    return {
-      imagePng,
-      aiTrace: {
-        runId: params.runHandle.run.id,
-        attemptId: null,
-        providerKey: "fal",
-        modelKey: "flux-dev",
-        providerModel: "fal-ai/flux/dev",
-        providerConfigVersion: "1",
-        operationKey: "generate_background_image",
-        promptVersion: params.promptVersion ?? GRAPHICS_BACKGROUND_PROMPT_VERSION,
-        providerRequestId: null
-      }
-    };
-  }
-
-  const trace = await generateImageWithOpenAiHarness({
+  const trace = await generateImageWithHarness({
     run: params.runHandle.run,
     operationKey: "generate_background_image",
     promptVersion: params.promptVersion ?? GRAPHICS_BACKGROUND_PROMPT_VERSION,
     prompt: params.prompt,
+    // FAL routes take the Flux-style prompt built from the brief rather than the OpenAI prompt.
+    promptForRoute: (route) => {
+      if (route.provider.key !== "fal_image") {
+        return params.prompt;
+      }
+      const falPrompt = buildFluxBackgroundPrompt({
+        seriesTitle: params.brief?.title ?? "",
+        seriesDescription: params.brief?.seriesDescription,
+        scripturePassages: params.brief?.scripture ?? undefined,
+        bibleCreativeBrief: params.bibleCreativeBrief,
+        motifFocus: params.motifFocus,
+        styleFamily: params.styleFamily?.name,
+        tone: params.tone,
+        lanePrompt: params.directionSpec?.lanePrompt,
+        generationId: params.runHandle?.run?.id ?? "unknown",
+        boostTone: params.boostTone,
+        boostMotif: params.boostMotif,
+        boostNoText: params.boostNoText,
+      });
+      console.log("[FLUX PROMPT]", falPrompt);
+      return falPrompt;
+    },
     size: resolveGraphicsBackgroundImageSize(params.shape),
     references: params.references,
     disable429Retry: params.disable429Retry,
@@ -40,6 +40,8 @@ async function createTempPrismaClient(): Promise<{
       "id" TEXT NOT NULL PRIMARY KEY,
       "name" TEXT NOT NULL,
       "slug" TEXT NOT NULL,
+      "monthlyGenerationQuota" INTEGER,
+      "monthlySpendQuotaUsd" REAL,
       "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
       "updatedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
     );
@@ -57,6 +59,9 @@ async function createTempPrismaClient(): Promise<{
       "avoidColors" TEXT,
       "designNotes" TEXT,
       "brandMode" TEXT NOT NULL DEFAULT 'fresh',
+      "round1EngineOverride" TEXT,
+      "round1ProviderOverride" TEXT,
+      "round1DesignModePins" JSONB,
       "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
       "updatedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
     );
@@ -68,8 +73,10 @@ async function createTempPrismaClient(): Promise<{
       "presetId" TEXT,
       "round" INTEGER NOT NULL DEFAULT 1,
       "status" TEXT NOT NULL DEFAULT 'QUEUED',
+      "shadow" BOOLEAN NOT NULL DEFAULT false,
       "input" JSONB,
       "output" JSONB,
+      "brandKitVersionId" TEXT,
       "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
       "updatedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
     );
@@ -214,3 +221,103 @@ test("round 1 launch single-flight blocks duplicate entry before and after the f
     await cleanup();
   }
 });
+
+test("a worker reclaiming a dead worker's job fails its leftover rows and relaunches under the same launch key", async () => {
+  const { prisma, cleanup } = await createTempPrismaClient();
+
+  try {
+    const projectId = "project-round1-reclaim";
+    await seedProject(prisma, projectId);
+
+    const deadWorkerAcquire = await acquireRoundOneLaunchSingleFlight({
+      prisma,
+      projectId,
+      launchKey: "job-round1",
+      now: new Date(Date.now() - 60_000)
+    });
+    if (deadWorkerAcquire.kind !== "acquired") {
+      assert.fail("expected the first worker to acquire the Round 1 launch");
+    }
+
+    // The first worker creates its triplet, starts running it, then dies without settling anything.
+    const leftoverIds = ["gen-dead-a", "gen-dead-b", "gen-dead-c"];
+    for (const generationId of leftoverIds) {
+      await prisma.generation.create({
+        data: {
+          id: generationId,
+          projectId,
+          round: 1,
+          status: "RUNNING"
+        }
+      });
+    }
+    await attachRoundOneLaunchGenerationIds({
+      prisma,
+      lease: deadWorkerAcquire.lease,
+      generationIds: leftoverIds
+    });
+
+    const otherLaunch = await acquireRoundOneLaunchSingleFlight({
+      prisma,
+      projectId,
+      launchKey: "job-other"
+    });
+    assert.equal(otherLaunch.kind, "duplicate");
+
+    const reclaimingAcquire = await acquireRoundOneLaunchSingleFlight({
+      prisma,
+      projectId,
+      launchKey: "job-round1"
+    });
+    if (reclaimingAcquire.kind !== "acquired") {
+      assert.fail("expected the reclaiming worker to resume the launch instead of seeing a duplicate");
+    }
+    assert.deepEqual([...reclaimingAcquire.reclaimedGenerationIds].sort(), leftoverIds);
+    assert.deepEqual(
+      (await prisma.generation.findMany({ where: { projectId }, select: { status: true } })).map((row) => row.status),
+      ["FAILED", "FAILED", "FAILED"]
+    );
+
+    // The dead worker's lease no longer matches, so a late release cannot settle the resumed launch.
+    assert.equal(
+      await finalizeRoundOneLaunchSingleFlight({
+        prisma,
+        lease: deadWorkerAcquire.lease,
+        terminalStatus: "FAILED",
+        note: "late_release"
+      }),
+      false
+    );
+
+    const resumedIds = ["gen-resumed-a", "gen-resumed-b", "gen-resumed-c"];
+    for (const generationId of resumedIds) {
+      await prisma.generation.create({
+        data: {
+          id: generationId,
+          projectId,
+          round: 1,
+          status: "QUEUED"
+        }
+      });
+    }
+    assert.equal(
+      await attachRoundOneLaunchGenerationIds({
+        prisma,
+        lease: reclaimingAcquire.lease,
+        generationIds: resumedIds
+      }),
+      true
+    );
+    assert.equal(
+      await finalizeRoundOneLaunchSingleFlight({
+        prisma,
+        lease: reclaimingAcquire.lease,
+        terminalStatus: "COMPLETED",
+        generationIds: resumedIds
+      }),
+      true
+    );
+  } finally {
+    await cleanup();
+  }
+});
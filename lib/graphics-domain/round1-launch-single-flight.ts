@@ -16,6 +16,7 @@ type RoundOneLaunchTerminalStatus = "COMPLETED" | "FAILED";
 type RoundOneLaunchMarkerMetadata = {
   version: 1;
   launchToken: string;
+  launchKey?: string | null;
   phase: RoundOneLaunchPhase;
   generationIds: string[];
   outcome?: RoundOneLaunchTerminalStatus;
@@ -26,6 +27,8 @@ export type RoundOneLaunchLease = {
   markerId: string;
   projectId: string;
   launchToken: string;
+  /** Identifies the launch across workers (the generation job id); null for one-shot launches. */
+  launchKey: string | null;
   startedAt: Date;
 };
 
@@ -33,11 +36,17 @@ export type RoundOneLaunchAcquireResult =
   | {
       kind: "acquired";
       lease: RoundOneLaunchLease;
+      /** Rows an earlier attempt at the same launch left active; they were failed before relaunching. */
+      reclaimedGenerationIds: string[];
     }
   | {
       kind: "duplicate";
       existingGenerationIds: string[];
       reason: "active-generation-cluster" | "launch-marker-in-flight";
+    }
+  | {
+      kind: "quota_blocked";
+      reasons: string[];
     };
 
 type RoundOneLaunchTransactionResult = RoundOneLaunchAcquireResult | { kind: "retry" };
@@ -48,6 +57,7 @@ function buildMarkerId(projectId: string): string {
 
 function buildMarkerMetadata(params: {
   launchToken: string;
+  launchKey: string | null;
   phase: RoundOneLaunchPhase;
   generationIds?: string[];
   outcome?: RoundOneLaunchTerminalStatus;
@@ -56,6 +66,11 @@ function buildMarkerMetadata(params: {
   const metadata: RoundOneLaunchMarkerMetadata = {
     version: 1,
     launchToken: params.launchToken,
+    ...(params.launchKey
+      ? {
+          launchKey: params.launchKey
+        }
+      : {}),
     phase: params.phase,
     generationIds: params.generationIds || [],
     ...(params.outcome
@@ -90,6 +105,7 @@ function readMarkerMetadata(value: Prisma.JsonValue | null): RoundOneLaunchMarke
   return {
     version: 1,
     launchToken: candidate.launchToken,
+    launchKey: typeof candidate.launchKey === "string" ? candidate.launchKey : null,
     phase:
       candidate.phase === "LAUNCHING" || candidate.phase === "GENERATIONS_CREATED" || candidate.phase === "SETTLED"
         ? candidate.phase
@@ -113,47 +129,82 @@ export async function acquireRoundOneLaunchSingleFlight(params: {
   projectId: string;
   now?: Date;
   staleMs?: number;
+  /**
+   * Stable key for a launch that another worker may pick up (the generation job id). A marker still
+   * running under the same key was left by an earlier attempt at this launch: its active generation
+   * rows are failed and the marker is taken over instead of being reported as a duplicate.
+   */
+  launchKey?: string | null;
+  /** Blocking reason codes for the launch; runs in the lease transaction so concurrent launches see the same usage. */
+  checkQuota?: (tx: Prisma.TransactionClient) => Promise<string[]>;
 }): Promise<RoundOneLaunchAcquireResult> {
   const markerId = buildMarkerId(params.projectId);
   const staleMs = params.staleMs ?? ROUND_ONE_MARKER_STALE_MS;
+  const launchKey = params.launchKey || null;
 
   for (let attempt = 0; attempt < 4; attempt += 1) {
     const startedAt = params.now ?? new Date();
     const launchToken = randomUUID();
     const transactionResult = await params.prisma.$transaction<RoundOneLaunchTransactionResult>(async (tx) => {
+      const existingMarker = await tx.aiRun.findUnique({
+        where: {
+          id: markerId
+        },
+        select: {
+          status: true,
+          startedAt: true,
+          completedAt: true,
+          metadataJson: true
+        }
+      });
+      const existingMetadata = existingMarker ? readMarkerMetadata(existingMarker.metadataJson) : null;
+      const resumingLaunch = Boolean(
+        launchKey && existingMarker?.status === "RUNNING" && existingMetadata?.launchKey === launchKey
+      );
+
       const activeGenerationRows = await tx.generation.findMany({
         where: {
           projectId: params.projectId,
           round: ROUND_ONE,
           status: {
             in: [...ACTIVE_GENERATION_STATUSES]
-          }
+          },
+          shadow: false
         },
         orderBy: [{ createdAt: "asc" }, { id: "asc" }],
         select: {
-          id: true
+          id: true,
+          createdAt: true
         }
       });
-
-      if (activeGenerationRows.length > 0) {
+      const leftoverSince = resumingLaunch ? existingMarker?.startedAt || null : null;
+      const isLeftoverRow = (row: { id: string; createdAt: Date }): boolean =>
+        leftoverSince !== null &&
+        (Boolean(existingMetadata?.generationIds.includes(row.id)) || row.createdAt >= leftoverSince);
+      const blockingGenerationRows = activeGenerationRows.filter((row) => !isLeftoverRow(row));
+      const reclaimedGenerationIds = activeGenerationRows.filter(isLeftoverRow).map((row) => row.id);
+
+      if (blockingGenerationRows.length > 0) {
         return {
           kind: "duplicate" as const,
-          existingGenerationIds: activeGenerationRows.map((row) => row.id),
+          existingGenerationIds: blockingGenerationRows.map((row) => row.id),
           reason: "active-generation-cluster" as const
         };
       }
 
-      const existingMarker = await tx.aiRun.findUnique({
-        where: {
-          id: markerId
-        },
-        select: {
-          status: true,
-          startedAt: true,
-          completedAt: true,
-          metadataJson: true
+      const markerInFlight =
+        existingMarker?.status === "RUNNING" &&
+        !resumingLaunch &&
+        !isMarkerStale(existingMarker.startedAt, startedAt, staleMs);
+      if (!markerInFlight && params.checkQuota) {
+        const quotaReasons = await params.checkQuota(tx);
+        if (quotaReasons.length > 0) {
+          return {
+            kind: "quota_blocked" as const,
+            reasons: quotaReasons
+          };
         }
-      });
+      }
 
       if (!existingMarker) {
         try {
@@ -169,6 +220,7 @@ export async function acquireRoundOneLaunchSingleFlight(params: {
               completedAt: null,
               metadataJson: buildMarkerMetadata({
                 launchToken,
+                launchKey,
                 phase: "LAUNCHING"
               })
             }
@@ -180,8 +232,10 @@ export async function acquireRoundOneLaunchSingleFlight(params: {
               markerId,
               projectId: params.projectId,
               launchToken,
+              launchKey,
               startedAt
-            }
+            },
+            reclaimedGenerationIds: []
           };
         } catch (error) {
           if (isKnownRequestError(error, "P2002")) {
@@ -191,8 +245,7 @@ export async function acquireRoundOneLaunchSingleFlight(params: {
         }
       }
 
-      const existingMetadata = readMarkerMetadata(existingMarker.metadataJson);
-      if (existingMarker.status === "RUNNING" && !isMarkerStale(existingMarker.startedAt, startedAt, staleMs)) {
+      if (markerInFlight) {
         return {
           kind: "duplicate" as const,
           existingGenerationIds: existingMetadata?.generationIds || [],
@@ -220,6 +273,7 @@ export async function acquireRoundOneLaunchSingleFlight(params: {
           completedAt: null,
           metadataJson: buildMarkerMetadata({
             launchToken,
+            launchKey,
             phase: "LAUNCHING"
           })
         }
@@ -229,14 +283,33 @@ export async function acquireRoundOneLaunchSingleFlight(params: {
         return { kind: "retry" as const };
       }
 
+      if (reclaimedGenerationIds.length > 0) {
+        // The attempt that created these rows is gone; failing them also stops any write it still has in flight.
+        await tx.generation.updateMany({
+          where: {
+            id: {
+              in: reclaimedGenerationIds
+            },
+            status: {
+              in: [...ACTIVE_GENERATION_STATUSES]
+            }
+          },
+          data: {
+            status: "FAILED"
+          }
+        });
+      }
+
       return {
         kind: "acquired" as const,
         lease: {
           markerId,
           projectId: params.projectId,
           launchToken,
+          launchKey,
           startedAt
-        }
+        },
+        reclaimedGenerationIds
       };
     });
 
@@ -262,6 +335,7 @@ export async function attachRoundOneLaunchGenerationIds(params: {
     data: {
       metadataJson: buildMarkerMetadata({
         launchToken: params.lease.launchToken,
+        launchKey: params.lease.launchKey,
         phase: "GENERATIONS_CREATED",
         generationIds: params.generationIds
       })
@@ -290,6 +364,7 @@ export async function finalizeRoundOneLaunchSingleFlight(params: {
       completedAt,
       metadataJson: buildMarkerMetadata({
         launchToken: params.lease.launchToken,
+        launchKey: params.lease.launchKey,
         phase: "SETTLED",
         generationIds: params.generationIds || [],
         outcome: params.terminalStatus,
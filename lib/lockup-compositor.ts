@@ -26,6 +26,15 @@ export type LockupSafeRegionRatio = {
   height: number;
 };
 
+/** A logo placed on the canvas outside the trimmed lockup, already sized to its box. */
+export type LockupCornerBug = {
+  png: Buffer;
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+};
+
 export const LOCKUP_SAFE_REGION_RATIOS: Record<PreviewShape, LockupSafeRegionRatio> = {
   wide: {
     left: 0.09,
@@ -373,7 +382,8 @@ async function resizeWithSafeAlpha(inputPng: Buffer, width: number, height: numb
     .toBuffer();
 }
 
-async function findAlphaBounds(inputPng: Buffer): Promise<AlphaBounds | null> {
+/** Bounds of every pixel with any alpha, or null for a fully transparent image. */
+export async function findAlphaBounds(inputPng: Buffer): Promise<AlphaBounds | null> {
   const raw = await toRawRgba(inputPng);
   let minX = raw.width;
   let minY = raw.height;
@@ -577,6 +587,7 @@ export async function composeLockupOnBackground(params: {
   integrationMode?: LockupIntegrationMode;
   safeRegionOverride?: LockupSafeRegionRatio;
   renderDebugGuides?: boolean;
+  cornerBug?: LockupCornerBug | null;
 }): Promise<Buffer> {
   const renderDebugGuides = params.renderDebugGuides ?? false;
   void renderDebugGuides;
@@ -712,8 +723,44 @@ export async function composeLockupOnBackground(params: {
     await applyLegibleNormalBlend(resizedLockup);
   }
 
+  if (params.cornerBug) {
+    overlays.push(await buildCornerBugOverlay(params.cornerBug, params.width, params.height));
+  }
+
   return sharp(backgroundCanvas, { failOn: "none" })
     .composite(overlays)
     .png()
     .toBuffer();
 }
+
+async function buildCornerBugOverlay(cornerBug: LockupCornerBug, width: number, height: number): Promise<sharp.OverlayOptions> {
+  return {
+    input: await sharp(cornerBug.png, { failOn: "none" })
+      .ensureAlpha()
+      .resize({
+        width: Math.max(1, cornerBug.w),
+        height: Math.max(1, cornerBug.h),
+        fit: "contain",
+        background: { r: 0, g: 0, b: 0, alpha: 0 },
+        kernel: sharp.kernel.lanczos3
+      })
+      .png()
+      .toBuffer(),
+    left: clamp(cornerBug.x, 0, Math.max(0, width - cornerBug.w)),
+    top: clamp(cornerBug.y, 0, Math.max(0, height - cornerBug.h)),
+    blend: "over"
+  };
+}
+
+/** Places a corner bug on an already composed image (renderers that draw their own lockup). */
+export async function composeCornerBugOnImage(params: {
+  png: Buffer;
+  width: number;
+  height: number;
+  cornerBug: LockupCornerBug;
+}): Promise<Buffer> {
+  return sharp(params.png, { failOn: "none" })
+    .composite([await buildCornerBugOverlay(params.cornerBug, params.width, params.height)])
+    .png()
+    .toBuffer();
+}
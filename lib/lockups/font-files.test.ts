@@ -0,0 +1,105 @@
+import assert from "node:assert/strict";
+import { readFileSync } from "node:fs";
+import path from "node:path";
+import test from "node:test";
+import { inspectFontFile } from "./font-files";
+
+function buildNameTable(names: Record<number, string>): Buffer {
+  const entries = Object.entries(names).map(([nameId, value]) => ({
+    nameId: Number(nameId),
+    bytes: Buffer.from(value, "utf16le").swap16()
+  }));
+  const header = Buffer.alloc(6 + entries.length * 12);
+  header.writeUInt16BE(entries.length, 2);
+  header.writeUInt16BE(header.length, 4);
+  let stringOffset = 0;
+  entries.forEach((entry, index) => {
+    const recordOffset = 6 + index * 12;
+    header.writeUInt16BE(3, recordOffset);
+    header.writeUInt16BE(1, recordOffset + 2);
+    header.writeUInt16BE(0x0409, recordOffset + 4);
+    header.writeUInt16BE(entry.nameId, recordOffset + 6);
+    header.writeUInt16BE(entry.bytes.length, recordOffset + 8);
+    header.writeUInt16BE(stringOffset, recordOffset + 10);
+    stringOffset += entry.bytes.length;
+  });
+  return Buffer.concat([header, ...entries.map((entry) => entry.bytes)]);
+}
+
+function buildOs2Table(options: { weight: number; fsType?: number; italic?: boolean }): Buffer {
+  const table = Buffer.alloc(78);
+  table.writeUInt16BE(4, 0);
+  table.writeUInt16BE(options.weight, 4);
+  table.writeUInt16BE(options.fsType ?? 0, 8);
+  table.writeUInt16BE(options.italic ? 0x0001 : 0x0040, 62);
+  return table;
+}
+
+function buildSfnt(signature: number, tables: Record<string, Buffer>): Buffer {
+  const tags = Object.keys(tables).sort();
+  const header = Buffer.alloc(12 + tags.length * 16);
+  header.writeUInt32BE(signature, 0);
+  header.writeUInt16BE(tags.length, 4);
+  let offset = header.length;
+  tags.forEach((tag, index) => {
+    const recordOffset = 12 + index * 16;
+    header.write(tag, recordOffset, "latin1");
+    header.writeUInt32BE(offset, recordOffset + 8);
+    header.writeUInt32BE(tables[tag].length, recordOffset + 12);
+    offset += tables[tag].length;
+  });
+  return Buffer.concat([header, ...tags.map((tag) => tables[tag])]);
+}
+
+test("reads family, weight and style from TTF and OTF name and OS/2 tables", () => {
+  const ttf = buildSfnt(0x00010000, {
+    name: buildNameTable({ 1: "Gotham Book", 2: "Italic", 16: "Gotham", 17: "Book Italic" }),
+    "OS/2": buildOs2Table({ weight: 350, italic: true })
+  });
+  assert.deepEqual(inspectFontFile(ttf), {
+    ok: true,
+    font: { format: "truetype", family: "Gotham", subfamily: "Book Italic", weight: 350, style: "italic" }
+  });
+
+  const otf = buildSfnt(0x4f54544f, {
+    name: buildNameTable({ 1: "Brandon Grotesque", 2: "Bold" }),
+    "OS/2": buildOs2Table({ weight: 700, fsType: 0x0008 })
+  });
+  const inspection = inspectFontFile(otf);
+  assert.equal(inspection.ok && inspection.font.format, "opentype");
+  assert.equal(inspection.ok && inspection.font.family, "Brandon Grotesque");
+  assert.equal(inspection.ok && inspection.font.weight, 700);
+});
+
+test("reads WOFF2 tables out of the compressed font stream", () => {
+  const woff2 = readFileSync(path.join(__dirname, "../../public/fonts/google/playfair-display/playfair-display-w400-normal.woff2"));
+  assert.deepEqual(inspectFontFile(woff2), {
+    ok: true,
+    font: { format: "woff2", family: "Playfair Display", subfamily: "Regular", weight: 400, style: "normal" }
+  });
+});
+
+test("rejects fonts licensed without embedding rights", () => {
+  const restricted = buildSfnt(0x00010000, {
+    name: buildNameTable({ 1: "Licensed Serif" }),
+    "OS/2": buildOs2Table({ weight: 400, fsType: 0x0002 })
+  });
+  const inspection = inspectFontFile(restricted);
+  assert.equal(inspection.ok, false);
+  assert.match(!inspection.ok ? inspection.error : "", /without embedding rights/);
+});
+
+test("rejects files that are not single WOFF2, TTF or OTF fonts", () => {
+  const cases: Array<[Buffer, RegExp]> = [
+    [Buffer.from("<svg xmlns='http://www.w3.org/2000/svg'/>"), /not a WOFF2, TTF, or OTF/],
+    [Buffer.from("ttcf\u0000\u0001\u0000\u0000", "latin1"), /collections are not supported/],
+    [Buffer.from("wOFF\u0000\u0001\u0000\u0000", "latin1"), /WOFF files are not supported/],
+    [buildSfnt(0x00010000, { "OS/2": buildOs2Table({ weight: 400 }) }), /no family name/]
+  ];
+
+  for (const [bytes, pattern] of cases) {
+    const inspection = inspectFontFile(bytes);
+    assert.equal(inspection.ok, false);
+    assert.match(!inspection.ok ? inspection.error : "", pattern);
+  }
+});
@@ -0,0 +1,323 @@
+import { mkdtemp, readFile, rm, writeFile } from "fs/promises";
+import os from "os";
+import path from "path";
+import { randomUUID } from "crypto";
+import { execFile } from "child_process";
+import { promisify } from "util";
+import { brotliDecompressSync } from "zlib";
+import type { FontAssetFormat } from "@/src/design/fonts/font-assets";
+
+export type FontFileInfo = {
+  format: FontAssetFormat;
+  family: string;
+  subfamily: string;
+  weight: number;
+  style: "normal" | "italic";
+};
+
+export type FontFileInspection = { ok: true; font: FontFileInfo } | { ok: false; error: string };
+
+export type SubsetFontFileResult = {
+  bytes: Buffer;
+  format: FontAssetFormat;
+  subset: boolean;
+};
+
+export const MAX_FONT_UPLOAD_BYTES = 10 * 1024 * 1024;
+export const FONT_FILE_EXTENSIONS: Record<FontAssetFormat, string> = {
+  woff2: ".woff2",
+  truetype: ".ttf",
+  opentype: ".otf"
+};
+
+// Lockups only set Latin text; keep punctuation, currency and common ligatures.
+const SUBSET_UNICODE_RANGES = "U+0000-024F,U+1E00-1EFF,U+2000-206F,U+20A0-20CF,U+2100-214F,U+2190-21FF,U+FB00-FB06";
+const SUBSET_TIMEOUT_MS = 20_000;
+
+const execFileAsync = promisify(execFile);
+
+const SFNT_TRUETYPE = 0x00010000;
+const SFNT_TRUE = 0x74727565; // "true"
+const SFNT_OPENTYPE = 0x4f54544f; // "OTTO"
+const SFNT_COLLECTION = 0x74746366; // "ttcf"
+const WOFF2_SIGNATURE = 0x774f4632; // "wOF2"
+const WOFF_SIGNATURE = 0x774f4646; // "wOFF"
+const WOFF2_HEADER_BYTES = 48;
+
+const NAME_ID_FAMILY = 1;
+const NAME_ID_SUBFAMILY = 2;
+const NAME_ID_TYPOGRAPHIC_FAMILY = 16;
+const NAME_ID_TYPOGRAPHIC_SUBFAMILY = 17;
+const FS_TYPE_RESTRICTED_LICENSE = 0x0002;
+const FS_TYPE_EMBEDDING_MASK = 0x000f;
+const FS_SELECTION_ITALIC = 0x0001;
+const FS_SELECTION_OBLIQUE = 0x0200;
+const MAC_STYLE_ITALIC = 0x0002;
+
+// WOFF2 known-table tags, indexed by the low six bits of each directory entry's flags.
+const WOFF2_KNOWN_TAGS = [
+  "cmap", "head", "hhea", "hmtx", "maxp", "name", "OS/2", "post", "cvt ", "fpgm", "glyf", "loca", "prep",
+  "CFF ", "VORG", "EBDT", "EBLC", "gasp", "hdmx", "kern", "LTSH", "PCLT", "VDMX", "vhea", "vmtx", "BASE",
+  "GDEF", "GPOS", "GSUB", "EBSC", "JSTF", "MATH", "CBDT", "CBLC", "COLR", "CPAL", "SVG ", "sbix", "acnt",
+  "avar", "bdat", "bloc", "bsln", "cvar", "fdsc", "feat", "fmtx", "fvar", "gvar", "hsty", "just", "lcar",
+  "mort", "morx", "opbd", "prop", "trak", "Zapf", "Silf", "Glat", "Gloc", "Feat", "Sill"
+];
+
+type FontTables = Map<string, Buffer>;
+
+class FontFileFormatError extends Error {}
+
+function readUIntBase128(bytes: Buffer, offset: number): { value: number; next: number } {
+  let value = 0;
+  for (let index = 0; index < 5; index += 1) {
+    if (offset + index >= bytes.length) {
+      break;
+    }
+    const byte = bytes[offset + index];
+    value = value * 128 + (byte & 0x7f);
+    if ((byte & 0x80) === 0) {
+      return { value, next: offset + index + 1 };
+    }
+  }
+  throw new FontFileFormatError("Malformed WOFF2 table directory.");
+}
+
+function readSfntTables(bytes: Buffer): FontTables {
+  if (bytes.length < 12) {
+    throw new FontFileFormatError("Font file is truncated.");
+  }
+  const tables: FontTables = new Map();
+  const numTables = bytes.readUInt16BE(4);
+  for (let index = 0; index < numTables; index += 1) {
+    const recordOffset = 12 + index * 16;
+    if (recordOffset + 16 > bytes.length) {
+      throw new FontFileFormatError("Font table directory is truncated.");
+    }
+    const tag = bytes.toString("latin1", recordOffset, recordOffset + 4);
+    const offset = bytes.readUInt32BE(recordOffset + 8);
+    const length = bytes.readUInt32BE(recordOffset + 12);
+    if (offset + length > bytes.length) {
+      throw new FontFileFormatError(`Font table "${tag.trim()}" runs past the end of the file.`);
+    }
+    tables.set(tag, bytes.subarray(offset, offset + length));
+  }
+  return tables;
+}
+
+/** WOFF2 tables sit back to back in one Brotli stream; name, OS/2 and head are never transformed. */
+function readWoff2Tables(bytes: Buffer): FontTables {
+  if (bytes.length < WOFF2_HEADER_BYTES) {
+    throw new FontFileFormatError("Font file is truncated.");
+  }
+  if (bytes.readUInt32BE(4) === SFNT_COLLECTION) {
+    throw new FontFileFormatError("Font collections are not supported. Upload each style as its own file.");
+  }
+
+  const numTables = bytes.readUInt16BE(12);
+  const totalCompressedSize = bytes.readUInt32BE(20);
+  const entries: Array<{ tag: string; length: number }> = [];
+  let offset = WOFF2_HEADER_BYTES;
+
+  for (let index = 0; index < numTables; index += 1) {
+    if (offset >= bytes.length) {
+      throw new FontFileFormatError("Malformed WOFF2 table directory.");
+    }
+    const flags = bytes[offset];
+    offset += 1;
+    let tag = WOFF2_KNOWN_TAGS[flags & 0x3f];
+    if ((flags & 0x3f) === 0x3f) {
+      tag = bytes.toString("latin1", offset, offset + 4);
+      offset += 4;
+    }
+    const transformVersion = (flags >> 6) & 0x03;
+    const origLength = readUIntBase128(bytes, offset);
+    offset = origLength.next;
+    const transformed = tag === "glyf" || tag === "loca" ? transformVersion === 0 : transformVersion !== 0;
+    let length = origLength.value;
+    if (transformed) {
+      const transformLength = readUIntBase128(bytes, offset);
+      offset = transformLength.next;
+      length = transformLength.value;
+    }
+    entries.push({ tag, length });
+  }
+
+  let stream: Buffer;
+  try {
+    stream = brotliDecompressSync(bytes.subarray(offset, offset + totalCompressedSize));
+  } catch {
+    throw new FontFileFormatError("WOFF2 font data could not be decompressed.");
+  }
+
+  const tables: FontTables = new Map();
+  let streamOffset = 0;
+  for (const entry of entries) {
+    if (streamOffset + entry.length > stream.length) {
+      throw new FontFileFormatError("WOFF2 font data is truncated.");
+    }
+    tables.set(entry.tag, stream.subarray(streamOffset, streamOffset + entry.length));
+    streamOffset += entry.length;
+  }
+  return tables;
+}
+
+function decodeNameRecord(platformId: number, bytes: Buffer): string {
+  if (platformId === 1) {
+    return bytes.toString("latin1");
+  }
+  let output = "";
+  for (let index = 0; index + 1 < bytes.length; index += 2) {
+    output += String.fromCharCode(bytes.readUInt16BE(index));
+  }
+  return output;
+}
+
+function readNames(name: Buffer): Map<number, string> {
+  const names = new Map<number, { value: string; rank: number }>();
+  if (name.length < 6) {
+    return new Map();
+  }
+  const count = name.readUInt16BE(2);
+  const stringOffset = name.readUInt16BE(4);
+
+  for (let index = 0; index < count; index += 1) {
+    const recordOffset = 6 + index * 12;
+    if (recordOffset + 12 > name.length) {
+      break;
+    }
+    const platformId = name.readUInt16BE(recordOffset);
+    const languageId = name.readUInt16BE(recordOffset + 4);
+    const nameId = name.readUInt16BE(recordOffset + 6);
+    const length = name.readUInt16BE(recordOffset + 8);
+    const start = stringOffset + name.readUInt16BE(recordOffset + 10);
+    if (start + length > name.length || (platformId !== 0 && platformId !== 1 && platformId !== 3)) {
+      continue;
+    }
+
+    // Prefer Windows US English, then any Windows/Unicode record, then Macintosh.
+    const rank = platformId === 3 && languageId === 0x0409 ? 0 : platformId === 1 ? 2 : 1;
+    const value = decodeNameRecord(platformId, name.subarray(start, start + length)).replace(/\0/g, "").trim();
+    const existing = names.get(nameId);
+    if (value && (!existing || rank < existing.rank)) {
+      names.set(nameId, { value, rank });
+    }
+  }
+
+  return new Map([...names.entries()].map(([nameId, entry]) => [nameId, entry.value]));
+}
+
+function detectFormat(bytes: Buffer): FontAssetFormat {
+  if (bytes.length < 4) {
+    throw new FontFileFormatError("Font file is truncated.");
+  }
+  const signature = bytes.readUInt32BE(0);
+  if (signature === WOFF2_SIGNATURE) {
+    return "woff2";
+  }
+  if (signature === SFNT_TRUETYPE || signature === SFNT_TRUE) {
+    return "truetype";
+  }
+  if (signature === SFNT_OPENTYPE) {
+    return "opentype";
+  }
+  if (signature === SFNT_COLLECTION) {
+    throw new FontFileFormatError("Font collections are not supported. Upload each style as its own file.");
+  }
+  if (signature === WOFF_SIGNATURE) {
+    throw new FontFileFormatError("WOFF files are not supported. Upload the WOFF2, TTF, or OTF version of the font.");
+  }
+  throw new FontFileFormatError("File is not a WOFF2, TTF, or OTF font.");
+}
+
+/**
+ * Validates an uploaded font and reads the family, weight and style it declares. Fonts whose
+ * license forbids embedding (OS/2 fsType "restricted") are rejected because every export embeds them.
+ */
+export function inspectFontFile(bytes: Buffer): FontFileInspection {
+  try {
+    if (bytes.length > MAX_FONT_UPLOAD_BYTES) {
+      return { ok: false, error: "Font files must be 10MB or smaller." };
+    }
+    const format = detectFormat(bytes);
+    const tables = format === "woff2" ? readWoff2Tables(bytes) : readSfntTables(bytes);
+
+    const name = tables.get("name");
+    const names = name ? readNames(name) : new Map<number, string>();
+    const family = names.get(NAME_ID_TYPOGRAPHIC_FAMILY) || names.get(NAME_ID_FAMILY) || "";
+    if (!family) {
+      return { ok: false, error: "Font file has no family name." };
+    }
+    const subfamily = names.get(NAME_ID_TYPOGRAPHIC_SUBFAMILY) || names.get(NAME_ID_SUBFAMILY) || "Regular";
+
+    const os2 = tables.get("OS/2");
+    const head = tables.get("head");
+    let weight = /bold/i.test(subfamily) ? 700 : 400;
+    let italic = /italic|oblique/i.test(subfamily);
+    if (os2 && os2.length >= 64) {
+      const weightClass = os2.readUInt16BE(4);
+      if (weightClass >= 1 && weightClass <= 1000) {
+        weight = weightClass;
+      }
+      if ((os2.readUInt16BE(8) & FS_TYPE_EMBEDDING_MASK) === FS_TYPE_RESTRICTED_LICENSE) {
+        return { ok: false, error: `${family} is licensed without embedding rights, so it can't be used in exports.` };
+      }
+      italic = italic || (os2.readUInt16BE(62) & (FS_SELECTION_ITALIC | FS_SELECTION_OBLIQUE)) !== 0;
+    } else if (head && head.length >= 46) {
+      italic = italic || (head.readUInt16BE(44) & MAC_STYLE_ITALIC) !== 0;
+    }
+
+    return {
+      ok: true,
+      font: {
+        format,
+        family,
+        subfamily,
+        weight,
+        style: italic ? "italic" : "normal"
+      }
+    };
+  } catch (error) {
+    if (error instanceof FontFileFormatError) {
+      return { ok: false, error: error.message };
+    }
+    throw error;
+  }
+}
+
+/**
+ * Subsets to the Latin ranges lockups use and converts to WOFF2 with fontTools' `pyftsubset`.
+ * When the tool is unavailable or fails, the original file is kept as-is.
+ */
+export async function subsetFontFile(bytes: Buffer, format: FontAssetFormat): Promise<SubsetFontFileResult> {
+  const workDirectory = await mkdtemp(path.join(os.tmpdir(), "font-subset-"));
+  const inputPath = path.join(workDirectory, `${randomUUID()}${FONT_FILE_EXTENSIONS[format]}`);
+  const outputPath = path.join(workDirectory, `${randomUUID()}.woff2`);
+
+  try {
+    await writeFile(inputPath, bytes);
+    await execFileAsync(
+      process.env.FONT_SUBSET_COMMAND || "pyftsubset",
+      [
+        inputPath,
+        `--output-file=${outputPath}`,
+        "--flavor=woff2",
+        `--unicodes=${SUBSET_UNICODE_RANGES}`,
+        "--layout-features=*",
+        "--name-IDs=*",
+        "--notdef-outline"
+      ],
+      { timeout: SUBSET_TIMEOUT_MS }
+    );
+    const subsetBytes = await readFile(outputPath);
+    if (subsetBytes.length === 0) {
+      return { bytes, format, subset: false };
+    }
+    return { bytes: subsetBytes, format: "woff2", subset: true };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.warn(`[font-files] Font subsetting skipped; keeping the original file. ${message}`);
+    return { bytes, format, subset: false };
+  } finally {
+    await rm(workDirectory, { recursive: true, force: true });
+  }
+}
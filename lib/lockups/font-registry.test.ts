@@ -0,0 +1,129 @@
+import assert from "node:assert/strict";
+import { copyFileSync, mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import test, { after } from "node:test";
+import { getFontAssetById, getFontAssetsByFamily, registerFontAssets, type FontAsset } from "@/src/design/fonts/font-assets";
+import { buildEmbeddedFontFaceCss } from "./font-registry";
+
+const ORGANIZATION_ID = "org-font-registry-test";
+
+const FONT_STORAGE_DIR = mkdtempSync(path.join(os.tmpdir(), "graceled-organization-fonts-"));
+process.env.ORGANIZATION_FONT_STORAGE_DIR = FONT_STORAGE_DIR;
+mkdirSync(path.join(FONT_STORAGE_DIR, ORGANIZATION_ID));
+for (const [source, target] of [
+  ["fraunces-w400-normal.woff2", "brand-regular.woff2"],
+  ["fraunces-w600-normal.woff2", "brand-bold.woff2"]
+]) {
+  copyFileSync(path.join(process.cwd(), "public", "fonts", "google", "fraunces", source), path.join(FONT_STORAGE_DIR, ORGANIZATION_ID, target));
+}
+
+after(() => {
+  rmSync(FONT_STORAGE_DIR, { recursive: true, force: true });
+});
+
+function uploadedFont(overrides: Partial<FontAsset> & { id: string; family: string }): FontAsset {
+  return {
+    style: "normal",
+    weight: 400,
+    file: `${ORGANIZATION_ID}/brand-regular.woff2`,
+    displayName: overrides.family,
+    tags: ["organization"],
+    source: "organization",
+    ...overrides
+  };
+}
+
+test("registered organization fonts resolve by id and family and embed in exports", () => {
+  registerFontAssets(ORGANIZATION_ID, [
+    uploadedFont({ id: "org-brand-regular", family: "Grace Brand Serif" }),
+    uploadedFont({ id: "org-brand-bold", family: "Grace Brand Serif", weight: 700, file: `${ORGANIZATION_ID}/brand-bold.woff2` })
+  ]);
+
+  try {
+    assert.equal(getFontAssetById("org-brand-bold", ORGANIZATION_ID)?.weight, 700);
+    assert.deepEqual(
+      getFontAssetsByFamily("grace brand serif", ORGANIZATION_ID).map((asset) => asset.id),
+      ["org-brand-regular", "org-brand-bold"]
+    );
+
+    const css = buildEmbeddedFontFaceCss([{ family: "'Grace Brand Serif', serif", weight: 700 }], ORGANIZATION_ID);
+    assert.match(css, /font-family:'Grace Brand Serif';font-style:normal;font-weight:700;/);
+    assert.match(css, /src:url\(data:font\/woff2;base64,/);
+  } finally {
+    registerFontAssets(ORGANIZATION_ID, []);
+  }
+
+  assert.equal(getFontAssetById("org-brand-bold", ORGANIZATION_ID), undefined);
+  assert.doesNotMatch(buildEmbeddedFontFaceCss([{ family: "Grace Brand Serif", weight: 700 }], ORGANIZATION_ID), /Grace Brand Serif/);
+});
+
+test("organization fonts only resolve for the organization that uploaded them", () => {
+  registerFontAssets(ORGANIZATION_ID, [uploadedFont({ id: "org-brand-regular", family: "Grace Brand Serif" })]);
+
+  try {
+    for (const scope of ["org-other-church", null]) {
+      assert.equal(getFontAssetById("org-brand-regular", scope), undefined);
+      assert.deepEqual(getFontAssetsByFamily("Grace Brand Serif", scope), []);
+      assert.doesNotMatch(buildEmbeddedFontFaceCss([{ family: "Grace Brand Serif", weight: 400 }], scope), /Grace Brand Serif/);
+    }
+  } finally {
+    registerFontAssets(ORGANIZATION_ID, []);
+  }
+});
+
+test("organization fonts never shadow bundled library fonts", () => {
+  const accepted = registerFontAssets(ORGANIZATION_ID, [
+    uploadedFont({ id: "PlayfairDisplay-Bold", family: "Grace Brand Display" }),
+    uploadedFont({ id: "org-playfair", family: "Playfair Display" })
+  ]);
+
+  try {
+    assert.deepEqual(accepted, []);
+    assert.equal(getFontAssetById("PlayfairDisplay-Bold", ORGANIZATION_ID)?.family, "Playfair Display");
+    assert.ok(getFontAssetsByFamily("Playfair Display", ORGANIZATION_ID).every((asset) => asset.source !== "organization"));
+  } finally {
+    registerFontAssets(ORGANIZATION_ID, []);
+  }
+});
+
+test("organization font files only embed from the font storage directory", () => {
+  registerFontAssets(ORGANIZATION_ID, [
+    uploadedFont({ id: "org-public-path", family: "Grace Public Serif", file: "/fonts/google/fraunces/fraunces-w400-normal.woff2" }),
+    uploadedFont({ id: "org-escaped-path", family: "Grace Escaped Serif", file: "../../public/fonts/google/fraunces/fraunces-w400-normal.woff2" })
+  ]);
+
+  try {
+    const css = buildEmbeddedFontFaceCss(
+      [
+        { family: "Grace Public Serif", weight: 400 },
+        { family: "Grace Escaped Serif", weight: 400 }
+      ],
+      ORGANIZATION_ID
+    );
+    assert.doesNotMatch(css, /Grace (Public|Escaped) Serif/);
+  } finally {
+    registerFontAssets(ORGANIZATION_ID, []);
+  }
+});
+
+test("fonts registered by another process load from the organization's manifest on first lookup", () => {
+  const organizationId = "org-font-registry-manifest-test";
+  mkdirSync(path.join(FONT_STORAGE_DIR, organizationId));
+  copyFileSync(
+    path.join(process.cwd(), "public", "fonts", "google", "fraunces", "fraunces-w400-normal.woff2"),
+    path.join(FONT_STORAGE_DIR, organizationId, "brand-regular.woff2")
+  );
+  writeFileSync(
+    path.join(FONT_STORAGE_DIR, organizationId, "fonts.json"),
+    JSON.stringify([uploadedFont({ id: "org-manifest-regular", family: "Grace Manifest Serif", file: `${organizationId}/brand-regular.woff2` })])
+  );
+
+  try {
+    assert.equal(getFontAssetsByFamily("Grace Manifest Serif", organizationId)[0]?.id, "org-manifest-regular");
+    const css = buildEmbeddedFontFaceCss([{ family: "Grace Manifest Serif", weight: 400 }], organizationId);
+    assert.match(css, /font-family:'Grace Manifest Serif';font-style:normal;font-weight:400;/);
+  } finally {
+    registerFontAssets(organizationId, []);
+  }
+});
@@ -1,7 +1,15 @@
 import fs from "fs";
 import path from "path";
 import { execFileSync } from "child_process";
-import { getFontAssetSource, getFontAssetsByFamily, toPublicFontPath, type FontAsset } from "@/src/design/fonts/font-assets";
+import {
+  getFontAssetFormat,
+  getFontAssetSource,
+  getFontAssetsByFamily,
+  getRegisteredFontAssetsRevision,
+  setFontAssetScopeLoader,
+  toPublicFontPath,
+  type FontAsset
+} from "@/src/design/fonts/font-assets";
 
 export const CURATED_FONT_FAMILIES = [
   "Abril Fatface",
@@ -190,6 +198,12 @@ const fontFileIndexCache = new Map<CuratedFontFamily, FontFileIndex>();
 const localFileIndexCache = new Map<string, LocalFontFileIndex>();
 const dataUriCache = new Map<string, string>();
 const warnedMissingGoogleFamilies = new Set<string>();
+const FONT_FORMAT_MIME_TYPE = {
+  woff2: "font/woff2",
+  truetype: "font/ttf",
+  opentype: "font/otf"
+} as const;
+let localFileIndexRevision = getRegisteredFontAssetsRevision();
 
 function escapeCssString(value: string): string {
   return value.replace(/\\/g, "\\\\").replace(/'/g, "\\'");
@@ -252,7 +266,7 @@ function readDataUriFromFile(filePath: string): string {
     return cached;
   }
   const bytes = fs.readFileSync(filePath);
-  const dataUri = `data:font/woff2;base64,${bytes.toString("base64")}`;
+  const dataUri = `data:${FONT_FORMAT_MIME_TYPE[getFontAssetFormat(filePath)]};base64,${bytes.toString("base64")}`;
   dataUriCache.set(filePath, dataUri);
   return dataUri;
 }
@@ -279,6 +293,73 @@ function getPublicFilePathFromUrl(urlPath: string): string | null {
   return absolutePath;
 }
 
+/**
+ * Uploaded organization fonts are licensed to that organization, so they are kept outside `public/`
+ * and only read here to embed them; their asset `file` is relative to this root.
+ */
+export function getOrganizationFontStorageRoot(): string {
+  return process.env.ORGANIZATION_FONT_STORAGE_DIR || path.join(process.cwd(), "storage", "fonts");
+}
+
+export function resolveOrganizationFontFilePath(filePath: string): string | null {
+  const storageRoot = path.resolve(getOrganizationFontStorageRoot());
+  const absolutePath = path.resolve(storageRoot, filePath.replace(/^\/+/, ""));
+  if (!absolutePath.startsWith(`${storageRoot}${path.sep}`)) {
+    return null;
+  }
+  return absolutePath;
+}
+
+/** Where an organization's registered font assets are listed for processes that did not register them. */
+export function resolveOrganizationFontManifestPath(organizationId: string): string | null {
+  return resolveOrganizationFontFilePath(path.posix.join(organizationId, "fonts.json"));
+}
+
+function loadOrganizationFontManifest(organizationId: string): FontAsset[] | null {
+  const manifestPath = resolveOrganizationFontManifestPath(organizationId);
+  if (!manifestPath || !fs.existsSync(manifestPath)) {
+    return null;
+  }
+
+  try {
+    const raw: unknown = JSON.parse(fs.readFileSync(manifestPath, "utf8"));
+    if (!Array.isArray(raw)) {
+      return null;
+    }
+    return raw.flatMap((item): FontAsset[] => {
+      const record = (item || {}) as Partial<FontAsset>;
+      if (typeof record.id !== "string" || typeof record.family !== "string" || typeof record.file !== "string") {
+        return [];
+      }
+      return [
+        {
+          id: record.id,
+          family: record.family,
+          style: record.style === "italic" ? "italic" : "normal",
+          weight: Number(record.weight) || 400,
+          file: record.file,
+          displayName: typeof record.displayName === "string" ? record.displayName : record.family,
+          tags: ["organization"],
+          source: "organization"
+        }
+      ];
+    });
+  } catch (error) {
+    console.warn(`[font-registry] Could not read the font manifest for ${organizationId}: ${String(error)}`);
+    return null;
+  }
+}
+
+// Uploaded fonts resolve in any process that renders: a scope nobody registered here loads from its manifest.
+setFontAssetScopeLoader(loadOrganizationFontManifest);
+
+function getFontAssetFilePath(asset: FontAsset): string | null {
+  if (getFontAssetSource(asset) === "organization") {
+    return resolveOrganizationFontFilePath(asset.file);
+  }
+  return getPublicFilePathFromUrl(toPublicFontPath(asset.file));
+}
+
 function shouldAutoFetchGoogleFonts(): boolean {
   return process.env.GOOGLE_FONTS_AUTO_FETCH === "1";
 }
@@ -336,8 +417,14 @@ function autoFetchGoogleFamily(request: { family: string; weights: number[]; ita
   }
 }
 
-function listLocalFontFiles(family: string): LocalFontFileIndex {
-  const key = family.toLowerCase();
+function listLocalFontFiles(family: string, fontScope: string | null): LocalFontFileIndex {
+  const revision = getRegisteredFontAssetsRevision();
+  if (revision !== localFileIndexRevision) {
+    localFileIndexCache.clear();
+    localFileIndexRevision = revision;
+  }
+
+  const key = `${fontScope || ""}:${family.toLowerCase()}`;
   const cached = localFileIndexCache.get(key);
   if (cached) {
     return cached;
@@ -346,9 +433,8 @@ function listLocalFontFiles(family: string): LocalFontFileIndex {
   const normal = new Map<number, FontAsset>();
   const italic = new Map<number, FontAsset>();
 
-  for (const asset of getFontAssetsByFamily(family)) {
-    const publicPath = toPublicFontPath(asset.file);
-    const absolutePath = getPublicFilePathFromUrl(publicPath);
+  for (const asset of getFontAssetsByFamily(family, fontScope)) {
+    const absolutePath = getFontAssetFilePath(asset);
     if (!absolutePath || !fs.existsSync(absolutePath)) {
       continue;
     }
@@ -434,6 +520,7 @@ function addRequestedWeight(
 
 function buildLocalAssetFontFaceCss(
   requestsByFamily: Map<string, Map<"normal" | "italic", Set<number>>>,
+  fontScope: string | null,
   allowAutoFetch = true
 ): { css: string; unresolvedRequests: RequestedFontFace[] } {
   const rules = new Set<string>();
@@ -446,7 +533,7 @@ function buildLocalAssetFontFaceCss(
       continue;
     }
 
-    const files = listLocalFontFiles(family);
+    const files = listLocalFontFiles(family, fontScope);
     const hasAny = files.normal.size > 0 || files.italic.size > 0;
     if (!hasAny) {
       for (const [style, requestedWeights] of byStyle.entries()) {
@@ -486,7 +573,7 @@ function buildLocalAssetFontFaceCss(
           });
           continue;
         }
-        const absolutePath = getPublicFilePathFromUrl(toPublicFontPath(asset.file));
+        const absolutePath = getFontAssetFilePath(asset);
         if (!absolutePath || !fs.existsSync(absolutePath)) {
           unresolvedRequests.push({
             family,
@@ -497,7 +584,7 @@ function buildLocalAssetFontFaceCss(
         }
         const dataUri = readDataUriFromFile(absolutePath);
         rules.add(
-          `@font-face{font-family:${fontFamilyCssValue(asset.family)};font-style:${style};font-weight:${asset.weight};font-display:block;src:url(${dataUri}) format('woff2');}`
+          `@font-face{font-family:${fontFamilyCssValue(asset.family)};font-style:${style};font-weight:${asset.weight};font-display:block;src:url(${dataUri}) format('${getFontAssetFormat(asset.file)}');}`
         );
       }
     }
@@ -537,7 +624,7 @@ function buildLocalAssetFontFaceCss(
         if (fetchedAny) {
           localFileIndexCache.clear();
           dataUriCache.clear();
-          return buildLocalAssetFontFaceCss(requestsByFamily, false);
+          return buildLocalAssetFontFaceCss(requestsByFamily, fontScope, false);
         }
       } else {
         for (const request of pendingGoogleRequests.values()) {
@@ -615,7 +702,11 @@ export function buildCuratedFontFamilyStack(fontFamily: CuratedFontFamily): stri
   return [fontFamilyCssValue(fontFamily), ...config.fallbacks].join(",");
 }
 
-export function buildEmbeddedFontFaceCss(fontFaces: RequestedFontFace[]): string {
+/**
+ * Embeds the requested faces as data URIs. Fonts an organization uploaded are only embedded when
+ * `fontScope` is that organization's id.
+ */
+export function buildEmbeddedFontFaceCss(fontFaces: RequestedFontFace[], fontScope?: string | null): string {
   const localRequests = new Map<string, Map<"normal" | "italic", Set<number>>>();
 
   for (const fontFace of fontFaces) {
@@ -631,7 +722,7 @@ export function buildEmbeddedFontFaceCss(fontFaces: RequestedFontFace[]): string
     }
   }
 
-  const local = buildLocalAssetFontFaceCss(localRequests);
+  const local = buildLocalAssetFontFaceCss(localRequests, fontScope || null);
   const fallback = buildCuratedFallbackFontFaceCss(local.unresolvedRequests);
 
   if (!local.css) {
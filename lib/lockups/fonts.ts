@@ -306,8 +306,8 @@ function unquoteStack(stack: string): string {
     .join(",");
 }
 
-function sanitizeFontId(id: string): FontId {
-  return hasFontAssetId(id) ? id : hasFontAssetId(FIRST_FONT_ID) ? FIRST_FONT_ID : DEFAULT_FONT_IDS.title;
+function sanitizeFontId(id: string, fontScope?: string | null): FontId {
+  return hasFontAssetId(id, fontScope) ? id : hasFontAssetId(FIRST_FONT_ID) ? FIRST_FONT_ID : DEFAULT_FONT_IDS.title;
 }
 
 function genericFamilyFromTags(tags: string[]): "serif" | "sans-serif" {
@@ -438,19 +438,23 @@ function sortedCandidateProfiles(params: {
     .map((entry) => entry.profile);
 }
 
-function resolveSlotFont(params: { slot: "title" | "subtitle" | "accent"; requestedId?: string }): { id: FontId; family: string } {
+function resolveSlotFont(params: {
+  slot: "title" | "subtitle" | "accent";
+  requestedId?: string;
+  fontScope?: string | null;
+}): { id: FontId; family: string } {
   const fallbackFamily = SLOT_FALLBACK_FAMILY[params.slot];
   const fallbackId = sanitizeFontId(DEFAULT_FONT_IDS[params.slot]);
 
-  if (!params.requestedId || !hasFontAssetId(params.requestedId)) {
+  if (!params.requestedId || !hasFontAssetId(params.requestedId, params.fontScope)) {
     return {
       id: fallbackId,
       family: unquoteStack(buildCuratedFontFamilyStack(fallbackFamily))
     };
   }
 
-  const resolvedId = sanitizeFontId(params.requestedId);
-  const asset = getFontAssetById(resolvedId);
+  const resolvedId = sanitizeFontId(params.requestedId, params.fontScope);
+  const asset = getFontAssetById(resolvedId, params.fontScope);
   if (!asset) {
     return {
       id: fallbackId,
@@ -472,10 +476,14 @@ export function resolveFontPairingFromIds(input: {
   accentFontId?: string;
   profileId?: string;
   vibe?: PairingVibe;
+  /** Organization whose uploaded fonts may be pinned; without it only library fonts resolve. */
+  fontScope?: string | null;
 }): FontPairing {
-  const title = resolveSlotFont({ slot: "title", requestedId: input.titleFontId });
-  const subtitle = resolveSlotFont({ slot: "subtitle", requestedId: input.subtitleFontId });
-  const accent = input.accentFontId ? resolveSlotFont({ slot: "accent", requestedId: input.accentFontId }) : null;
+  const title = resolveSlotFont({ slot: "title", requestedId: input.titleFontId, fontScope: input.fontScope });
+  const subtitle = resolveSlotFont({ slot: "subtitle", requestedId: input.subtitleFontId, fontScope: input.fontScope });
+  const accent = input.accentFontId
+    ? resolveSlotFont({ slot: "accent", requestedId: input.accentFontId, fontScope: input.fontScope })
+    : null;
 
   return {
     titleFontId: title.id,
@@ -489,6 +497,46 @@ export function resolveFontPairingFromIds(input: {
   };
 }
 
+export type PinnedFontSlot = {
+  fontId?: string | null;
+  curatedFamily?: CuratedFontFamily | null;
+};
+
+/**
+ * Builds a pairing from fonts chosen outside the profile library, such as a brand kit's site fonts.
+ * A curated family without a font asset keeps the slot's default id and renders through its curated stack.
+ */
+export function resolvePinnedFontPairing(input: {
+  title: PinnedFontSlot;
+  subtitle: PinnedFontSlot;
+  profileId: string;
+  fontScope?: string | null;
+}): FontPairing {
+  const resolvePinnedSlot = (slot: "title" | "subtitle", pinned: PinnedFontSlot): { id: FontId; family: string } => {
+    if (pinned.fontId && hasFontAssetId(pinned.fontId, input.fontScope)) {
+      return resolveSlotFont({ slot, requestedId: pinned.fontId, fontScope: input.fontScope });
+    }
+    if (pinned.curatedFamily) {
+      return {
+        id: sanitizeFontId(DEFAULT_FONT_IDS[slot]),
+        family: unquoteStack(buildCuratedFontFamilyStack(pinned.curatedFamily))
+      };
+    }
+    return resolveSlotFont({ slot });
+  };
+  const title = resolvePinnedSlot("title", input.title);
+  const subtitle = resolvePinnedSlot("subtitle", input.subtitle);
+
+  return {
+    titleFontId: title.id,
+    subtitleFontId: subtitle.id,
+    titleFont: title.family,
+    subtitleFont: subtitle.family,
+    profileId: input.profileId,
+    vibe: FALLBACK_PROFILE.vibe
+  };
+}
+
 export function getFontPairing(
   lockupRecipe: LockupRecipe,
   styleFamily: StyleFamily = "clean-min",
@@ -0,0 +1,288 @@
+import { createHash } from "crypto";
+import { access, mkdir, readFile, writeFile } from "fs/promises";
+import path from "path";
+import sharp from "sharp";
+import type { LockupRecipe } from "@/lib/design-brief";
+import type { LockupCornerBug, LockupSafeRegionRatio, PreviewShape } from "@/lib/lockup-compositor";
+import {
+  chooseLogoVariant,
+  LOGO_KNOCKOUT_COLOR,
+  LOGO_MONO_COLOR,
+  relativeLuminance,
+  resolveCornerBugBox,
+  type LockupLogo,
+  type LockupLogoLayout,
+  type LockupLogoVariant,
+  type LockupLogoVariantChoice
+} from "@/lib/lockups/logo";
+import { sampleBackgroundLuminance, type CleanMinimalTextRegion } from "@/lib/templates/type-clean-min";
+
+/** An uploaded logo rasterized with a real alpha channel, ready for variant derivation. */
+export type LockupLogoSource = {
+  src: string;
+  png: Buffer;
+  width: number;
+  height: number;
+  /** Alpha-weighted relative luminance of the visible logo pixels. */
+  luminance: number;
+};
+
+export type PreparedLockupLogo = {
+  logo: LockupLogo;
+  png: Buffer;
+  choice: LockupLogoVariantChoice;
+};
+
+/** A corner bug sized for the compositor, with the same placement recorded for the design doc. */
+export type PreparedCornerBug = LockupCornerBug & {
+  variant: LockupLogoVariant;
+  layout: LockupLogoLayout;
+};
+
+const CHANNELS_RGBA = 4;
+const LOGO_MAX_RASTER_SIDE = 1024;
+const LOGO_SVG_DENSITY = 300;
+// Opaque uploads (JPEG, flattened PNG) are keyed against their corner color within this RGB distance.
+const LOGO_KEY_TOLERANCE = 48;
+const LOGO_KEY_SOFTNESS = 32;
+const LOGO_VARIANT_DIRECTORY = path.join("uploads", "logo-variants");
+
+function resolvePublicPath(assetPath: string): string {
+  return path.join(process.cwd(), "public", assetPath.replace(/^\/+/, ""));
+}
+
+function hexToRgb(hex: string): [number, number, number] {
+  const value = Number.parseInt(hex.replace(/^#/, ""), 16);
+  return [(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff];
+}
+
+function isFullyOpaque(data: Buffer): boolean {
+  for (let index = 3; index < data.length; index += CHANNELS_RGBA) {
+    if (data[index] < 255) {
+      return false;
+    }
+  }
+  return true;
+}
+
+function keyOutCornerColor(data: Buffer, width: number, height: number): void {
+  const corners = [0, width - 1, (height - 1) * width, height * width - 1];
+  const key = [0, 1, 2].map(
+    (channel) => corners.reduce((sum, pixel) => sum + data[pixel * CHANNELS_RGBA + channel], 0) / corners.length
+  );
+
+  for (let index = 0; index < data.length; index += CHANNELS_RGBA) {
+    const distance = Math.hypot(data[index] - key[0], data[index + 1] - key[1], data[index + 2] - key[2]);
+    if (distance <= LOGO_KEY_TOLERANCE) {
+      data[index + 3] = 0;
+    } else if (distance < LOGO_KEY_TOLERANCE + LOGO_KEY_SOFTNESS) {
+      data[index + 3] = Math.round(((distance - LOGO_KEY_TOLERANCE) / LOGO_KEY_SOFTNESS) * data[index + 3]);
+    }
+  }
+}
+
+function measureLogoLuminance(data: Buffer): number {
+  let red = 0;
+  let green = 0;
+  let blue = 0;
+  let weight = 0;
+  for (let index = 0; index < data.length; index += CHANNELS_RGBA) {
+    const alpha = data[index + 3] / 255;
+    red += data[index] * alpha;
+    green += data[index + 1] * alpha;
+    blue += data[index + 2] * alpha;
+    weight += alpha;
+  }
+  return weight > 0 ? relativeLuminance(red / weight, green / weight, blue / weight) : 0;
+}
+
+function tintSilhouette(data: Buffer, hex: string): Buffer {
+  const [red, green, blue] = hexToRgb(hex);
+  const tinted = Buffer.from(data);
+  for (let index = 0; index < tinted.length; index += CHANNELS_RGBA) {
+    tinted[index] = red;
+    tinted[index + 1] = green;
+    tinted[index + 2] = blue;
+  }
+  return tinted;
+}
+
+async function toRawRgba(png: Buffer): Promise<{ data: Buffer; width: number; height: number }> {
+  const { data, info } = await sharp(png, { failOn: "none" }).ensureAlpha().raw().toBuffer({ resolveWithObject: true });
+  return { data, width: info.width, height: info.height };
+}
+
+async function fileExists(filePath: string): Promise<boolean> {
+  try {
+    await access(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Reads an uploaded logo from /public and rasterizes it (SVGs at print density) with a transparent
+ * background, keying out the backdrop of logos uploaded without one. Null when the file is missing,
+ * remote, or unreadable, so the lockup simply renders without a logo.
+ */
+export async function loadLockupLogoSource(logoPath: string | null | undefined): Promise<LockupLogoSource | null> {
+  if (!logoPath?.trim() || /^https?:\/\//i.test(logoPath)) {
+    return null;
+  }
+
+  try {
+    const input = await readFile(resolvePublicPath(logoPath));
+    const { data, info } = await sharp(input, { failOn: "none", density: LOGO_SVG_DENSITY })
+      .ensureAlpha()
+      .resize({ width: LOGO_MAX_RASTER_SIDE, height: LOGO_MAX_RASTER_SIDE, fit: "inside", withoutEnlargement: true })
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+    if (isFullyOpaque(data)) {
+      keyOutCornerColor(data, info.width, info.height);
+    }
+    const png = await sharp(data, { raw: { width: info.width, height: info.height, channels: CHANNELS_RGBA } })
+      .trim({ threshold: 0 })
+      .png()
+      .toBuffer({ resolveWithObject: true });
+
+    return {
+      src: `/${logoPath.replace(/^\/+/, "")}`,
+      png: png.data,
+      width: png.info.width,
+      height: png.info.height,
+      luminance: measureLogoLuminance((await toRawRgba(png.data)).data)
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Derives a logo variant: the uploaded colors, or a single-color silhouette tinted dark ("mono") or
+ * white ("knockout"). Silhouettes are written under /uploads/logo-variants so design docs can
+ * reference them; they are keyed by content and reused across renders.
+ */
+export async function renderLockupLogoVariant(
+  source: LockupLogoSource,
+  variant: LockupLogoVariant
+): Promise<{ logo: LockupLogo; png: Buffer }> {
+  let png = source.png;
+  let src = source.src;
+  if (variant !== "original") {
+    const raw = await toRawRgba(source.png);
+    png = await sharp(tintSilhouette(raw.data, variant === "mono" ? LOGO_MONO_COLOR : LOGO_KNOCKOUT_COLOR), {
+      raw: { width: raw.width, height: raw.height, channels: CHANNELS_RGBA }
+    })
+      .png()
+      .toBuffer();
+    const digest = createHash("sha1").update(source.png).digest("hex").slice(0, 16);
+    const relativePath = path.posix.join(LOGO_VARIANT_DIRECTORY, `${digest}-${variant}.png`);
+    const absolutePath = resolvePublicPath(relativePath);
+    if (!(await fileExists(absolutePath))) {
+      await mkdir(path.dirname(absolutePath), { recursive: true });
+      await writeFile(absolutePath, png);
+    }
+    src = `/${relativePath}`;
+  }
+
+  return {
+    logo: {
+      src,
+      dataUri: `data:image/png;base64,${png.toString("base64")}`,
+      width: source.width,
+      height: source.height,
+      variant
+    },
+    png
+  };
+}
+
+/** Picks the logo variant that keeps contrast against the background region it will sit on. */
+export async function prepareLockupLogoForBackground(params: {
+  source: LockupLogoSource;
+  backgroundPng: Buffer;
+  sampleRegion: CleanMinimalTextRegion;
+  width: number;
+  height: number;
+}): Promise<PreparedLockupLogo> {
+  const backgroundLuminance = await sampleBackgroundLuminance({
+    backgroundPng: params.backgroundPng,
+    sampleRegion: params.sampleRegion,
+    width: params.width,
+    height: params.height
+  });
+  const choice = chooseLogoVariant({ logoLuminance: params.source.luminance, backgroundLuminance });
+  return {
+    ...(await renderLockupLogoVariant(params.source, choice.variant)),
+    choice
+  };
+}
+
+/**
+ * Places the recipe's corner bug clear of the lockup safe region and picks the variant that reads
+ * against the background under it. Null when there is no logo, the recipe places it elsewhere, or
+ * no corner has room.
+ */
+export async function prepareCornerBugForBackground(params: {
+  source: LockupLogoSource | null | undefined;
+  lockupRecipe: LockupRecipe;
+  backgroundPng: Buffer;
+  shape: PreviewShape;
+  width: number;
+  height: number;
+  safeRegion: LockupSafeRegionRatio;
+}): Promise<PreparedCornerBug | null> {
+  const settings: NonNullable<LockupRecipe["logo"]> = params.lockupRecipe.logo || { placement: "corner_bug" };
+  if (!params.source || settings.placement !== "corner_bug") {
+    return null;
+  }
+
+  const box = resolveCornerBugBox({
+    width: params.width,
+    height: params.height,
+    shape: params.shape,
+    logo: params.source,
+    safeMarginPct: params.lockupRecipe.placement.safeMarginPct,
+    corner: settings.corner,
+    scale: settings.scale,
+    avoid: [
+      {
+        left: Math.round(params.width * params.safeRegion.left),
+        top: Math.round(params.height * params.safeRegion.top),
+        width: Math.round(params.width * params.safeRegion.width),
+        height: Math.round(params.height * params.safeRegion.height)
+      }
+    ]
+  });
+  if (!box) {
+    return null;
+  }
+
+  const prepared = await prepareLockupLogoForBackground({
+    source: params.source,
+    backgroundPng: params.backgroundPng,
+    sampleRegion: { left: box.x, top: box.y, width: box.w, height: box.h },
+    width: params.width,
+    height: params.height
+  });
+  return {
+    png: prepared.png,
+    x: box.x,
+    y: box.y,
+    w: box.w,
+    h: box.h,
+    variant: prepared.logo.variant,
+    layout: {
+      x: box.x,
+      y: box.y,
+      w: box.w,
+      h: box.h,
+      src: prepared.logo.src,
+      dataUri: prepared.logo.dataUri,
+      variant: prepared.logo.variant,
+      placement: "corner_bug",
+      corner: box.corner
+    }
+  };
+}
@@ -0,0 +1,160 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import type { LockupRecipe } from "@/lib/design-brief";
+import { LOCKUP_SAFE_REGION_RATIOS } from "@/lib/lockup-compositor";
+import { getFontPairing } from "@/lib/lockups/fonts";
+import { chooseLogoVariant, relativeLuminance, resolveCornerBugBox, type LockupLogo } from "@/lib/lockups/logo";
+import { getLockupPresetById } from "@/lib/lockups/presets";
+import { buildLockupDesignLayers, computeLockupLayout, renderLockup, type LockupTextPalette } from "@/lib/lockups/renderer";
+import { renderTemplate } from "@/lib/templates";
+import { buildCleanMinimalDesignDoc } from "@/lib/templates/type-clean-min";
+
+const baseRecipe = getLockupPresetById("editorial_serif_stack");
+const fontPairing = getFontPairing(baseRecipe);
+const logo: LockupLogo = {
+  src: "/uploads/logo.png",
+  dataUri: "data:image/png;base64,AAAA",
+  width: 400,
+  height: 200,
+  variant: "original"
+};
+const palette: LockupTextPalette = {
+  primary: "#FFFFFF",
+  secondary: "#FFFFFF",
+  tertiary: "#E2E8F0",
+  rule: "#FFFFFF",
+  accent: "#FFFFFF",
+  autoScrim: false,
+  scrimTint: "#000000"
+};
+
+function layoutInputs(logoSettings: LockupRecipe["logo"], subtitle = "Finding Rest In Him") {
+  return {
+    backgroundSize: { width: 1920, height: 1080 },
+    aspect: "wide" as const,
+    content: { title: "Abide", subtitle },
+    lockupRecipe: { ...baseRecipe, logo: logoSettings },
+    fontPairing,
+    logo
+  };
+}
+
+function layoutWithLogo(logoSettings: LockupRecipe["logo"], subtitle?: string) {
+  return computeLockupLayout(layoutInputs(logoSettings, subtitle));
+}
+
+function overlaps(a: { x: number; y: number; w: number; h: number }, b: { left: number; top: number; width: number; height: number }) {
+  return a.x < b.left + b.width && a.x + a.w > b.left && a.y < b.top + b.height && a.y + a.h > b.top;
+}
+
+test("keeps the uploaded logo when it contrasts, otherwise picks the stronger silhouette", () => {
+  const navy = relativeLuminance(0x1e, 0x3a, 0x8a);
+  assert.equal(chooseLogoVariant({ logoLuminance: navy, backgroundLuminance: 1 }).variant, "original");
+
+  const dark = chooseLogoVariant({ logoLuminance: navy, backgroundLuminance: relativeLuminance(0x10, 0x18, 0x30) });
+  assert.equal(dark.variant, "knockout");
+  assert.ok(dark.contrast >= 3);
+
+  const light = chooseLogoVariant({ logoLuminance: 0.95, backgroundLuminance: relativeLuminance(0xf1, 0xf5, 0xf9) });
+  assert.equal(light.variant, "mono");
+  assert.ok(light.contrast >= 3);
+});
+
+test("corner bugs stay clear of the lockup safe region and fall through to a free corner", () => {
+  const safe = LOCKUP_SAFE_REGION_RATIOS.wide;
+  const safeRegion = {
+    left: Math.round(1920 * safe.left),
+    top: Math.round(1080 * safe.top),
+    width: Math.round(1920 * safe.width),
+    height: Math.round(1080 * safe.height)
+  };
+  const box = resolveCornerBugBox({ width: 1920, height: 1080, shape: "wide", logo, safeMarginPct: 0.05, corner: "top_left" });
+  assert.ok(box);
+  assert.ok(!overlaps(box, safeRegion));
+
+  const blocked = resolveCornerBugBox({
+    width: 1920,
+    height: 1080,
+    shape: "wide",
+    logo,
+    safeMarginPct: 0.05,
+    corner: "bottom_right",
+    avoid: [{ left: 1200, top: 700, width: 720, height: 380 }]
+  });
+  assert.ok(blocked);
+  assert.notEqual(blocked.corner, "bottom_right");
+
+  assert.equal(
+    resolveCornerBugBox({
+      width: 1920,
+      height: 1080,
+      shape: "wide",
+      logo,
+      safeMarginPct: 0.05,
+      avoid: [{ left: 0, top: 0, width: 1920, height: 1080 }]
+    }),
+    null
+  );
+});
+
+test("a stacked logo sits above the title inside the text region", () => {
+  const layout = layoutWithLogo({ placement: "stacked_above_title" });
+  assert.ok(layout.logo);
+  assert.equal(layout.logo.placement, "stacked_above_title");
+
+  const titleTop = Math.min(...layout.blocks.filter((block) => block.key === "title").map((block) => block.y));
+  assert.ok(layout.logo.y + layout.logo.h <= titleTop);
+  assert.ok(layout.logo.y >= layout.textRegion.top);
+  assert.match(renderLockup({ ...layoutInputs({ placement: "stacked_above_title" }), palette }).overlaySvg, /<image [^>]*href="data:image\/png/);
+});
+
+test("an inline logo shares the subtitle line and falls back to stacking without a subtitle", () => {
+  const withoutLogo = layoutWithLogo({ placement: "none" });
+  const inline = layoutWithLogo({ placement: "inline_with_subtitle" });
+  const subtitle = inline.blocks.find((block) => block.key === "subtitle");
+  const originalSubtitle = withoutLogo.blocks.find((block) => block.key === "subtitle");
+  assert.ok(inline.logo && subtitle && originalSubtitle);
+  assert.equal(inline.logo.placement, "inline_with_subtitle");
+  assert.ok(inline.logo.y < subtitle.y + subtitle.h && inline.logo.y + inline.logo.h > subtitle.y);
+  assert.notDeepEqual({ x: subtitle.x, w: subtitle.w }, { x: originalSubtitle.x, w: originalSubtitle.w });
+
+  assert.equal(layoutWithLogo({ placement: "inline_with_subtitle" }, "").logo?.placement, "stacked_above_title");
+  assert.equal(withoutLogo.logo, undefined);
+});
+
+test("recipes without logo settings get a corner bug that the overlay leaves to the compositor", () => {
+  const layout = layoutWithLogo(undefined);
+  assert.equal(layout.logo?.placement, "corner_bug");
+  assert.ok(layout.logo && !overlaps(layout.logo, layout.textRegion));
+  assert.doesNotMatch(renderLockup({ ...layoutInputs(undefined), palette }).overlaySvg, /<image /);
+
+  const layers = buildLockupDesignLayers({ layout, palette });
+  assert.ok(layers.some((layer) => layer.type === "image" && layer.src === logo.src));
+});
+
+test("design docs keep the logo so exports rebuilt from them still carry it", () => {
+  const cornerBugDoc = buildCleanMinimalDesignDoc({
+    width: 1920,
+    height: 1080,
+    content: { title: "Abide", subtitle: "Finding Rest In Him" },
+    palette,
+    backgroundImagePath: null,
+    lockupRecipe: baseRecipe,
+    logo,
+    logoLayout: { ...logo, x: 1700, y: 40, w: 160, h: 80, placement: "corner_bug", corner: "top_right" }
+  });
+  const cornerBugLayers = cornerBugDoc.layers.filter((layer) => layer.type === "image");
+  assert.deepEqual(
+    cornerBugLayers.map((layer) => [layer.x, layer.y, layer.w, layer.h, layer.type === "image" ? layer.src : null]),
+    [[1700, 40, 160, 80, logo.src]]
+  );
+
+  const stackedDoc = renderTemplate(
+    "clean-min",
+    { title: "Abide", subtitle: "Finding Rest In Him", lockupRecipe: { ...baseRecipe, logo: { placement: "stacked_above_title" } } },
+    0,
+    "wide",
+    { logo }
+  );
+  assert.ok(stackedDoc.layers.some((layer) => layer.type === "image" && layer.src === logo.src));
+});
@@ -0,0 +1,167 @@
+import type { LockupRecipe } from "@/lib/design-brief";
+import { LOCKUP_SAFE_REGION_RATIOS, type PreviewShape } from "@/lib/lockup-compositor";
+
+export type LockupLogoPlacement = NonNullable<LockupRecipe["logo"]>["placement"];
+export type LockupLogoCorner = NonNullable<NonNullable<LockupRecipe["logo"]>["corner"]>;
+
+/**
+ * How the church logo is drawn: as uploaded, as a dark single-color silhouette ("mono"), or as a
+ * white silhouette reversed out of a dark background ("knockout").
+ */
+export type LockupLogoVariant = "original" | "mono" | "knockout";
+
+/** A logo variant ready to place: `src` is a public path for design docs, `dataUri` embeds it in SVG. */
+export type LockupLogo = {
+  src: string;
+  dataUri: string;
+  width: number;
+  height: number;
+  variant: LockupLogoVariant;
+};
+
+export type LockupLogoBox = {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+};
+
+export type LockupLogoLayout = LockupLogoBox & {
+  src: string;
+  dataUri: string;
+  variant: LockupLogoVariant;
+  placement: Exclude<LockupLogoPlacement, "none">;
+  corner?: LockupLogoCorner;
+};
+
+export type LockupLogoVariantChoice = {
+  variant: LockupLogoVariant;
+  /** Contrast ratio of the chosen variant against the background it sits on. */
+  contrast: number;
+};
+
+type Region = {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+};
+
+export const LOGO_MIN_CONTRAST = 3;
+export const LOGO_MONO_COLOR = "#0F172A";
+export const LOGO_KNOCKOUT_COLOR = "#FFFFFF";
+
+const CORNER_ORDER: readonly LockupLogoCorner[] = ["bottom_right", "top_right", "bottom_left", "top_left"];
+const CORNER_BUG_HEIGHT_RATIO = 0.075;
+const CORNER_BUG_MIN_HEIGHT_RATIO = 0.04;
+const CORNER_BUG_MAX_WIDTH_RATIO = 0.2;
+const CORNER_BUG_SHRINK_STEP = 0.8;
+
+function channelToLinear(channel: number): number {
+  const normalized = channel / 255;
+  return normalized <= 0.03928 ? normalized / 12.92 : ((normalized + 0.055) / 1.055) ** 2.4;
+}
+
+export function relativeLuminance(red: number, green: number, blue: number): number {
+  return 0.2126 * channelToLinear(red) + 0.7152 * channelToLinear(green) + 0.0722 * channelToLinear(blue);
+}
+
+export function contrastRatio(a: number, b: number): number {
+  return (Math.max(a, b) + 0.05) / (Math.min(a, b) + 0.05);
+}
+
+const MONO_LUMINANCE = relativeLuminance(0x0f, 0x17, 0x2a);
+const KNOCKOUT_LUMINANCE = 1;
+
+/**
+ * Keeps the uploaded logo when it reads against the background; otherwise switches to whichever
+ * single-color silhouette (dark mono or white knockout) contrasts more.
+ */
+export function chooseLogoVariant(params: {
+  logoLuminance: number;
+  backgroundLuminance: number;
+  minContrast?: number;
+}): LockupLogoVariantChoice {
+  const minContrast = params.minContrast ?? LOGO_MIN_CONTRAST;
+  const originalContrast = contrastRatio(params.logoLuminance, params.backgroundLuminance);
+  if (originalContrast >= minContrast) {
+    return { variant: "original", contrast: originalContrast };
+  }
+
+  const monoContrast = contrastRatio(MONO_LUMINANCE, params.backgroundLuminance);
+  const knockoutContrast = contrastRatio(KNOCKOUT_LUMINANCE, params.backgroundLuminance);
+  return monoContrast >= knockoutContrast
+    ? { variant: "mono", contrast: monoContrast }
+    : { variant: "knockout", contrast: knockoutContrast };
+}
+
+function intersects(box: LockupLogoBox, region: Region, gap: number): boolean {
+  return (
+    box.x < region.left + region.width + gap &&
+    box.x + box.w + gap > region.left &&
+    box.y < region.top + region.height + gap &&
+    box.y + box.h + gap > region.top
+  );
+}
+
+export function fitLogoBox(logo: { width: number; height: number }, maxWidth: number, maxHeight: number): { w: number; h: number } {
+  const scale = Math.min(maxWidth / Math.max(1, logo.width), maxHeight / Math.max(1, logo.height));
+  return {
+    w: Math.max(1, Math.round(logo.width * scale)),
+    h: Math.max(1, Math.round(logo.height * scale))
+  };
+}
+
+function cornerBox(corner: LockupLogoCorner, size: { w: number; h: number }, canvas: { width: number; height: number }, insetX: number, insetY: number): LockupLogoBox {
+  return {
+    x: corner.endsWith("left") ? insetX : canvas.width - insetX - size.w,
+    y: corner.startsWith("top") ? insetY : canvas.height - insetY - size.h,
+    w: size.w,
+    h: size.h
+  };
+}
+
+/**
+ * Places a corner bug inside the canvas margin, in the first corner (preferred one first) that stays
+ * clear of the lockup's safe region from LOCKUP_SAFE_REGION_RATIOS and of any other regions to avoid.
+ * Shrinks toward a minimum size when every corner collides; null when even that does not fit.
+ */
+export function resolveCornerBugBox(params: {
+  width: number;
+  height: number;
+  shape: PreviewShape;
+  logo: { width: number; height: number };
+  safeMarginPct: number;
+  corner?: LockupLogoCorner;
+  scale?: number;
+  avoid?: Region[];
+}): (LockupLogoBox & { corner: LockupLogoCorner }) | null {
+  const minSide = Math.min(params.width, params.height);
+  const safeRatio = LOCKUP_SAFE_REGION_RATIOS[params.shape];
+  const avoid: Region[] = [
+    {
+      left: Math.round(params.width * safeRatio.left),
+      top: Math.round(params.height * safeRatio.top),
+      width: Math.round(params.width * safeRatio.width),
+      height: Math.round(params.height * safeRatio.height)
+    },
+    ...(params.avoid || [])
+  ];
+  const corners = params.corner ? [params.corner, ...CORNER_ORDER.filter((corner) => corner !== params.corner)] : CORNER_ORDER;
+  const insetX = Math.round(params.width * params.safeMarginPct);
+  const insetY = Math.round(params.height * params.safeMarginPct);
+  const gap = Math.round(minSide * 0.02);
+  const minHeight = minSide * CORNER_BUG_MIN_HEIGHT_RATIO;
+
+  for (let maxHeight = minSide * CORNER_BUG_HEIGHT_RATIO * (params.scale ?? 1); maxHeight >= minHeight; maxHeight *= CORNER_BUG_SHRINK_STEP) {
+    const size = fitLogoBox(params.logo, params.width * CORNER_BUG_MAX_WIDTH_RATIO, maxHeight);
+    for (const corner of corners) {
+      const box = cornerBox(corner, size, params, insetX, insetY);
+      if (!avoid.some((region) => intersects(box, region, gap))) {
+        return { ...box, corner };
+      }
+    }
+  }
+
+  return null;
+}
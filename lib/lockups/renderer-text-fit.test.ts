@@ -0,0 +1,83 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { getFontPairing } from "@/lib/lockups/fonts";
+import { getLockupPresetById } from "@/lib/lockups/presets";
+import { TEXT_FIT_LEGIBILITY_WARNING, computeLockupLayout, computeWeeklyModuleLayout } from "@/lib/lockups/renderer";
+import { computeCleanMinimalLayout } from "@/lib/templates/type-clean-min";
+
+const lockupRecipe = getLockupPresetById("editorial_serif_stack");
+const fontPairing = getFontPairing(lockupRecipe);
+
+function layoutFor(title: string, subtitle?: string) {
+  return computeLockupLayout({
+    backgroundSize: { width: 1920, height: 1080 },
+    aspect: "wide",
+    content: { title, subtitle },
+    lockupRecipe,
+    fontPairing
+  });
+}
+
+function visibleTitleText(layout: ReturnType<typeof layoutFor>): string {
+  return layout.blocks
+    .filter((block) => block.key === "title" && !block.isOverprint)
+    .flatMap((block) => block.lines)
+    .join(" ");
+}
+
+test("short titles fit without any fallback", () => {
+  const layout = layoutFor("Grace");
+  assert.deepEqual(layout.textFit, { step: "fit", warning: null });
+});
+
+test("long titles walk the fallback chain instead of truncating", () => {
+  const title = "When The Mountains Tremble And The Rivers Rise We Will Still Sing Of Your Faithfulness";
+  const layout = layoutFor(title);
+
+  assert.ok(layout.textFit);
+  assert.notEqual(layout.textFit.step, "fit");
+  assert.ok(!visibleTitleText(layout).includes("..."), "title must not be truncated with an ellipsis");
+  assert.equal(visibleTitleText(layout).replace(/\s+/g, "").toLowerCase(), title.replace(/\s+/g, "").toLowerCase());
+});
+
+test("titles that overflow even the quote card carry the legibility warning", () => {
+  const title = Array.from({ length: 40 }, (_, index) => `Word${index}`).join(" ");
+  const layout = layoutFor(title);
+
+  assert.equal(layout.textFit?.step, "legibility_warning");
+  assert.equal(layout.textFit?.warning, TEXT_FIT_LEGIBILITY_WARNING);
+});
+
+test("quote-card fallback adds a solid card behind the text", () => {
+  const title = "The Long Obedience In The Same Direction Through Every Valley And Over Every Mountain We Walk Together";
+  const layout = layoutFor(title);
+
+  assert.equal(layout.textFit?.step, "quote_card");
+  assert.ok(layout.shapes.some((shape) => shape.purpose === "box_fill" && shape.fillRole === "scrim"));
+});
+
+test("computeCleanMinimalLayout exposes the text-fit report", () => {
+  const layout = computeCleanMinimalLayout({
+    width: 1080,
+    height: 1080,
+    content: { title: "Hope", subtitle: "Advent" }
+  });
+
+  assert.equal(layout.textFit.step, "fit");
+  assert.equal(layout.textFit.warning, null);
+});
+
+test("weekly modules that still overflow at the font floor carry the legibility warning", () => {
+  const layoutIn = (regionHeight: number) =>
+    computeWeeklyModuleLayout({
+      backgroundSize: { width: 1920, height: 1080 },
+      aspect: "wide",
+      region: { left: 200, top: 700, width: 900, height: regionHeight },
+      content: { weekTitle: "Through The Waters", scriptureRef: "Isaiah 43:2", quote: "When you pass through the waters, I will be with you." },
+      lockupRecipe,
+      fontPairing
+    });
+
+  assert.equal(layoutIn(400)?.textFit?.warning, null);
+  assert.deepEqual(layoutIn(60)?.textFit, { step: "legibility_warning", warning: TEXT_FIT_LEGIBILITY_WARNING });
+});
@@ -2,6 +2,7 @@ import type { Aspect, LockupRecipe } from "@/lib/design-brief";
 import type { DesignLayer } from "@/lib/design-doc";
 import type { FontPairing } from "@/lib/lockups/fonts";
 import { buildEmbeddedFontFaceCss } from "@/lib/lockups/font-registry";
+import { fitLogoBox, resolveCornerBugBox, type LockupLogo, type LockupLogoLayout } from "@/lib/lockups/logo";
 
 export type LockupContent = {
   title: string;
@@ -66,6 +67,20 @@ export type LockupRegion = {
   height: number;
 };
 
+/**
+ * Steps of the PRD text-fitting policy, in the order they are tried:
+ * resize down to the per-format floor, add lines, switch to a quote card,
+ * and finally keep the quote card but flag that legibility may suffer.
+ */
+export type TextFitStep = "fit" | "resized" | "added_lines" | "quote_card" | "legibility_warning";
+
+export type TextFitReport = {
+  step: TextFitStep;
+  warning: string | null;
+};
+
+export const TEXT_FIT_LEGIBILITY_WARNING = "Legibility may suffer: the text is too long to fit at the minimum size.";
+
 export type LockupLayout = {
   width: number;
   height: number;
@@ -75,6 +90,9 @@ export type LockupLayout = {
   backingRegion: LockupRegion;
   blocks: LockupTextBlock[];
   shapes: LockupShape[];
+  textFit?: TextFitReport;
+  /** The church logo, when the recipe places one and it fit. */
+  logo?: LockupLogoLayout;
 };
 
 export type LockupRenderResult = {
@@ -368,20 +386,32 @@ function getTitleLines(params: {
   treatment: LockupRecipe["titleTreatment"];
   aspect: Aspect;
   maxCharsPerLine: number;
+  extraLines?: number;
 }): string[] {
   const normalized = normalizeWhitespace(params.title);
   if (!normalized) {
     return [];
   }
 
-  const maxLines = maxTitleLines(params.treatment, params.aspect, normalized.length);
-  if (params.treatment === "split") {
+  const extraLines = Math.max(0, params.extraLines || 0);
+  const maxLines = maxTitleLines(params.treatment, params.aspect, normalized.length) + extraLines;
+  if (params.treatment === "split" && extraLines === 0) {
     return splitTitleDeterministic(normalized, params.maxCharsPerLine).slice(0, 2);
   }
 
   return wrapWordsDeterministic(normalized, params.maxCharsPerLine, maxLines);
 }
 
+function linesCoverText(lines: string[], text: string): boolean {
+  return lines.join("").replace(/\s+/g, "") === text.replace(/\s+/g, "");
+}
+
+const TEXT_FIT_STEP_ORDER: TextFitStep[] = ["fit", "resized", "added_lines", "quote_card", "legibility_warning"];
+
+function worseTextFitStep(a: TextFitStep, b: TextFitStep): TextFitStep {
+  return TEXT_FIT_STEP_ORDER.indexOf(a) >= TEXT_FIT_STEP_ORDER.indexOf(b) ? a : b;
+}
+
 function resolveColor(role: LockupTextBlock["colorRole"] | LockupShape["fillRole"] | LockupShape["strokeRole"], palette: LockupTextPalette): string {
   if (!role || role === "none") {
     return "none";
@@ -970,6 +1000,197 @@ function applyTitleIntegrationBackdrop(layout: LockupLayout, mode: LockupTitleIn
   }
 }
 
+function logoLayoutFrom(
+  logo: LockupLogo,
+  box: { x: number; y: number; w: number; h: number },
+  placement: LockupLogoLayout["placement"]
+): LockupLogoLayout {
+  return {
+    x: Math.round(box.x),
+    y: Math.round(box.y),
+    w: box.w,
+    h: box.h,
+    src: logo.src,
+    dataUri: logo.dataUri,
+    variant: logo.variant,
+    placement
+  };
+}
+
+function placeLogoAboveTitle(layout: LockupLayout, logo: LockupLogo, scale: number): LockupLogoLayout | null {
+  const titleBounds = boundsFromRects(visibleTitleBlocks(layout.blocks));
+  const lockupBounds = lockupBoundsFromLayout(layout.blocks, layout.shapes);
+  if (!titleBounds || !lockupBounds) {
+    return null;
+  }
+
+  const minSide = Math.min(layout.width, layout.height);
+  const marginY = Math.round(layout.height * layout.recipe.placement.safeMarginPct);
+  const titleFontSize = Math.max(...visibleTitleBlocks(layout.blocks).map((block) => block.fontSize));
+  const maxHeight = clamp(titleFontSize * 1.1 * scale, minSide * 0.05, minSide * 0.14);
+  let size = fitLogoBox(logo, Math.min(titleBounds.width, layout.width * 0.4), maxHeight);
+  const gap = Math.round(size.h * 0.3);
+
+  // Make room above the lockup: push it down while the bottom margin allows, then shrink the logo.
+  const deficit = marginY - (lockupBounds.top - gap - size.h);
+  if (deficit > 0) {
+    const shift = Math.min(deficit, Math.max(0, layout.height - marginY - lockupBounds.bottom));
+    translateLayoutElements(layout.blocks, layout.shapes, 0, shift);
+    const available = lockupBounds.top + shift - gap - marginY;
+    if (available < minSide * 0.04) {
+      return null;
+    }
+    size = fitLogoBox(logo, size.w, Math.min(size.h, available));
+  }
+
+  const shiftedTitleBounds = boundsFromRects(visibleTitleBlocks(layout.blocks)) || titleBounds;
+  const shiftedLockupTop = (lockupBoundsFromLayout(layout.blocks, layout.shapes) || lockupBounds).top;
+  const x =
+    layout.recipe.alignment === "center"
+      ? shiftedTitleBounds.left + (shiftedTitleBounds.width - size.w) / 2
+      : layout.recipe.alignment === "right"
+        ? shiftedTitleBounds.right - size.w
+        : shiftedTitleBounds.left;
+  return logoLayoutFrom(logo, { x, y: shiftedLockupTop - gap - size.h, ...size }, "stacked_above_title");
+}
+
+function placeLogoInlineWithSubtitle(layout: LockupLayout, logo: LockupLogo, scale: number): LockupLogoLayout | null {
+  const subtitle = layout.blocks.find((block) => block.key === "subtitle" && !block.isOverprint && block.lines.length > 0);
+  if (!subtitle) {
+    return null;
+  }
+
+  const size = fitLogoBox(logo, subtitle.w * 0.3, Math.max(12, subtitle.fontSize * 1.2 * scale));
+  const gap = Math.round(subtitle.fontSize * 0.5);
+  const textWidth = Math.min(
+    subtitle.w,
+    Math.max(...subtitle.lines.map((line) => estimateLineWidth(line, subtitle.fontSize, subtitle.letterSpacing, subtitle.fontFamily)))
+  );
+  const y = subtitle.y + (Math.max(subtitle.lineHeight, subtitle.fontSize) - size.h) / 2;
+  let x: number;
+
+  if (subtitle.align === "right") {
+    // The mark trails right-aligned text so the ragged edge stays on the left.
+    x = subtitle.x + subtitle.w - size.w;
+    subtitle.w = Math.max(1, subtitle.w - size.w - gap);
+  } else if (subtitle.align === "center") {
+    const shift = (size.w + gap) / 2;
+    x = subtitle.x + subtitle.w / 2 - textWidth / 2 - shift;
+    subtitle.x += shift;
+  } else {
+    x = subtitle.x;
+    subtitle.x += size.w + gap;
+    subtitle.w = Math.max(1, subtitle.w - size.w - gap);
+  }
+
+  return logoLayoutFrom(logo, { x, y, ...size }, "inline_with_subtitle");
+}
+
+/**
+ * Places the recipe's logo on a computed layout. Stacked and inline logos become part of the
+ * lockup; a corner bug sits on the canvas, clear of the lockup safe region and the text. Recipes that
+ * say nothing about the logo get a corner bug, and an inline logo without a subtitle stacks above
+ * the title instead.
+ */
+function applyLockupLogo(layout: LockupLayout, logo: LockupLogo | null | undefined): void {
+  const settings: NonNullable<LockupRecipe["logo"]> = layout.recipe.logo || { placement: "corner_bug" };
+  if (!logo || settings.placement === "none") {
+    return;
+  }
+
+  const scale = settings.scale ?? 1;
+  let placed: LockupLogoLayout | null = null;
+  if (settings.placement === "corner_bug") {
+    const box = resolveCornerBugBox({
+      width: layout.width,
+      height: layout.height,
+      shape: layout.aspect,
+      logo,
+      safeMarginPct: layout.recipe.placement.safeMarginPct,
+      corner: settings.corner,
+      scale,
+      avoid: [layout.textRegion]
+    });
+    placed = box ? { ...logoLayoutFrom(logo, box, "corner_bug"), corner: box.corner } : null;
+  } else if (settings.placement === "inline_with_subtitle") {
+    placed = placeLogoInlineWithSubtitle(layout, logo, scale) || placeLogoAboveTitle(layout, logo, scale);
+  } else {
+    placed = placeLogoAboveTitle(layout, logo, scale);
+  }
+  if (!placed) {
+    return;
+  }
+
+  layout.logo = placed;
+  if (placed.placement !== "corner_bug") {
+    const regions = normalizeLockupRegions({
+      width: layout.width,
+      height: layout.height,
+      textBounds: boundsFromRects([
+        ...layout.blocks.filter((block) => !block.isOverprint),
+        { x: placed.x, y: placed.y, w: placed.w, h: placed.h }
+      ]),
+      marginX: Math.round(layout.width * layout.recipe.placement.safeMarginPct),
+      marginY: Math.round(layout.height * layout.recipe.placement.safeMarginPct)
+    });
+    layout.textRegion = regions.textRegion;
+    layout.backingRegion = regions.backingRegion;
+  }
+}
+
+/**
+ * Moves a computed lockup into `region` the way the compositor places the trimmed lockup PNG:
+ * scaled to fit, aligned horizontally and centered vertically. Stacked and inline logos move with
+ * the text; a corner bug stays where it is.
+ */
+export function fitLockupLayoutToRegion(layout: LockupLayout, region: LockupRegion, align: "left" | "center" | "right"): void {
+  const inlineLogo = layout.logo && layout.logo.placement !== "corner_bug" ? layout.logo : null;
+  const bounds = boundsFromRects([
+    ...layout.blocks.filter((block) => !block.isOverprint),
+    ...layout.shapes,
+    ...(inlineLogo ? [inlineLogo] : [])
+  ]);
+  if (!bounds) {
+    return;
+  }
+
+  const scale = clamp(Math.min(region.width / bounds.width, region.height / bounds.height), 0.1, 4);
+  const targetWidth = bounds.width * scale;
+  const targetHeight = bounds.height * scale;
+  const left =
+    align === "center"
+      ? region.left + (region.width - targetWidth) / 2
+      : align === "right"
+        ? region.left + region.width - targetWidth
+        : region.left;
+  const top = region.top + (region.height - targetHeight) / 2;
+
+  scaleLayoutElements(layout.blocks, layout.shapes, scale, bounds.left, bounds.top);
+  translateLayoutElements(layout.blocks, layout.shapes, left - bounds.left, top - bounds.top);
+  if (inlineLogo) {
+    layout.logo = {
+      ...inlineLogo,
+      x: Math.round(left + (inlineLogo.x - bounds.left) * scale),
+      y: Math.round(top + (inlineLogo.y - bounds.top) * scale),
+      w: inlineLogo.w * scale,
+      h: inlineLogo.h * scale
+    };
+  }
+
+  const regions = normalizeLockupRegions({
+    width: layout.width,
+    height: layout.height,
+    textBounds: boundsFromRects([
+      ...layout.blocks.filter((block) => !block.isOverprint),
+      ...(layout.logo && layout.logo.placement !== "corner_bug" ? [layout.logo] : [])
+    ]),
+    marginX: Math.round(layout.width * layout.recipe.placement.safeMarginPct),
+    marginY: Math.round(layout.height * layout.recipe.placement.safeMarginPct)
+  });
+  layout.textRegion = regions.textRegion;
+  layout.backingRegion = regions.backingRegion;
+}
+
 export function normalizeRecipeForAspect(recipe: LockupRecipe, aspect: Aspect): LockupRecipe {
   const placement = {
     ...recipe.placement
@@ -1020,6 +1241,7 @@ export function computeLockupLayout(params: {
   lockupRecipe: LockupRecipe;
   fontPairing: FontPairing;
   lockupPresetId?: string | null;
+  logo?: LockupLogo | null;
 }): LockupLayout {
   const width = Math.max(1, Math.round(params.backgroundSize.width));
   const height = Math.max(1, Math.round(params.backgroundSize.height));
@@ -1028,7 +1250,7 @@ export function computeLockupLayout(params: {
   const marginX = Math.round(width * recipe.placement.safeMarginPct);
   const marginY = Math.round(height * recipe.placement.safeMarginPct);
 
-  const textWidth = clamp(
+  let textWidth = clamp(
     Math.round(width * recipe.placement.maxTitleWidthPct),
     Math.round(width * 0.32),
     Math.round(width * 0.82)
@@ -1037,7 +1259,7 @@ export function computeLockupLayout(params: {
     recipe.placement.anchor === "top_center" ||
     recipe.placement.anchor === "bottom_center" ||
     recipe.placement.anchor === "center";
-  const textX = centeredAnchor
+  let textX = centeredAnchor
     ? Math.round((width - textWidth) / 2)
     : recipe.alignment === "left"
       ? marginX
@@ -1063,36 +1285,64 @@ export function computeLockupLayout(params: {
 
   const minSide = Math.min(width, height);
   const aspectFactor = params.aspect === "wide" ? 0.95 : params.aspect === "tall" ? 1.04 : 1;
-  let titleFontSize = clamp(
+  const initialTitleFontSize = clamp(
     Math.round(minSide * 0.108 * recipe.hierarchy.titleScale * aspectFactor),
     titleSizeClamp.minPx,
     titleSizeClamp.maxPx
   );
 
-  let titleLines: string[] = [];
-  let titleTracking = 0;
-
-  for (let attempt = 0; attempt < 22; attempt += 1) {
-    titleTracking = clamp(Math.round(titleFontSize * recipe.hierarchy.tracking), -12, 22);
-    const titleChars = estimateCharsPerLine(textWidth, titleFontSize, titleTracking, params.fontPairing.titleFont);
-    titleLines = usesArcTitle
-      ? [title]
-      : getTitleLines({
-          title,
-          treatment: recipe.titleTreatment,
-          aspect: params.aspect,
-          maxCharsPerLine: titleChars
-        });
+  const fitTitle = (fitWidth: number, extraLines: number) => {
+    let fontSize = initialTitleFontSize;
+    let lines: string[] = [];
+    let tracking = 0;
+    let fits = false;
+
+    for (let attempt = 0; attempt < 22 + extraLines * 4; attempt += 1) {
+      tracking = clamp(Math.round(fontSize * recipe.hierarchy.tracking), -12, 22);
+      const titleChars = estimateCharsPerLine(fitWidth, fontSize, tracking, params.fontPairing.titleFont);
+      lines = usesArcTitle
+        ? [title]
+        : getTitleLines({
+            title,
+            treatment: recipe.titleTreatment,
+            aspect: params.aspect,
+            maxCharsPerLine: titleChars,
+            extraLines
+          });
+
+      const tooWide = lines.some((line) => estimateLineWidth(line, fontSize, tracking, params.fontPairing.titleFont) > fitWidth);
+      fits = !tooWide && linesCoverText(lines, title);
+      if (fits || fontSize <= titleSizeClamp.minPx) {
+        break;
+      }
 
-    const tooWide = titleLines.some(
-      (line) => estimateLineWidth(line, titleFontSize, titleTracking, params.fontPairing.titleFont) > textWidth
-    );
-    if (!tooWide || titleFontSize <= titleSizeClamp.minPx) {
-      break;
+      fontSize = Math.max(titleSizeClamp.minPx, fontSize - 2);
     }
 
-    titleFontSize -= 2;
+    return { fontSize, lines, tracking, fits };
+  };
+
+  // PRD fallback chain: resize to the floor, then add lines, then switch to a quote card.
+  let titleFit = fitTitle(textWidth, 0);
+  let textFitStep: TextFitStep = titleFit.fontSize < initialTitleFontSize ? "resized" : "fit";
+  let usesQuoteCard = false;
+  if (!titleFit.fits) {
+    titleFit = fitTitle(textWidth, 2);
+    textFitStep = "added_lines";
   }
+  if (!titleFit.fits && !usesArcTitle && !usesStaggerTitle) {
+    usesQuoteCard = true;
+    textWidth = Math.max(textWidth, width - marginX * 2);
+    textX = Math.round((width - textWidth) / 2);
+    titleFit = fitTitle(textWidth, 3);
+    textFitStep = titleFit.fits ? "quote_card" : "legibility_warning";
+  } else if (!titleFit.fits) {
+    textFitStep = "legibility_warning";
+  }
+
+  const titleFontSize = titleFit.fontSize;
+  let titleLines = titleFit.lines;
+  const titleTracking = titleFit.tracking;
 
   if (titleLines.length === 0) {
     titleLines = [title || "Untitled Series"];
@@ -1102,17 +1352,34 @@ export function computeLockupLayout(params: {
   const subtitleTrackingBase = recipe.hierarchy.tracking + (/[A-Z]{4,}/.test(subtitle) ? 0.02 : 0.008);
   let subtitleTracking = clamp(Math.round(subtitleFontSize * subtitleTrackingBase), -9, 18);
   let subtitleLines: string[] = [];
-  for (let attempt = 0; attempt < 14; attempt += 1) {
-    subtitleTracking = clamp(Math.round(subtitleFontSize * subtitleTrackingBase), -9, 18);
-    const subtitleChars = estimateCharsPerLine(textWidth, subtitleFontSize, subtitleTracking, params.fontPairing.subtitleFont);
-    subtitleLines = wrapWordsDeterministic(subtitle, subtitleChars, 2);
-    const tooWide = subtitleLines.some(
-      (line) => estimateLineWidth(line, subtitleFontSize, subtitleTracking, params.fontPairing.subtitleFont) > textWidth
-    );
-    if (!tooWide || subtitleFontSize <= 14) {
+  const initialSubtitleFontSize = subtitleFontSize;
+  for (let maxSubtitleLines = 2; maxSubtitleLines <= 3; maxSubtitleLines += 1) {
+    subtitleFontSize = initialSubtitleFontSize;
+    let subtitleFits = false;
+    for (let attempt = 0; attempt < 40; attempt += 1) {
+      subtitleTracking = clamp(Math.round(subtitleFontSize * subtitleTrackingBase), -9, 18);
+      const subtitleChars = estimateCharsPerLine(textWidth, subtitleFontSize, subtitleTracking, params.fontPairing.subtitleFont);
+      subtitleLines = wrapWordsDeterministic(subtitle, subtitleChars, maxSubtitleLines);
+      const tooWide = subtitleLines.some(
+        (line) => estimateLineWidth(line, subtitleFontSize, subtitleTracking, params.fontPairing.subtitleFont) > textWidth
+      );
+      subtitleFits = !tooWide && linesCoverText(subtitleLines, subtitle);
+      if (subtitleFits || subtitleFontSize <= 14) {
+        break;
+      }
+      subtitleFontSize -= 1;
+    }
+
+    if (subtitleFits) {
+      textFitStep = worseTextFitStep(
+        textFitStep,
+        maxSubtitleLines > 2 ? "added_lines" : subtitleFontSize < initialSubtitleFontSize ? "resized" : "fit"
+      );
       break;
     }
-    subtitleFontSize -= 1;
+    if (maxSubtitleLines === 3) {
+      textFitStep = worseTextFitStep(textFitStep, "legibility_warning");
+    }
   }
 
   const passageFontSize = clamp(Math.round(subtitleFontSize * 0.8), 16, 42);
@@ -1512,6 +1779,23 @@ export function computeLockupLayout(params: {
   textRegion = normalizedRegions.textRegion;
   backingRegion = normalizedRegions.backingRegion;
 
+  if (usesQuoteCard) {
+    // Quote-card variant: a solid plate behind the wider text column instead of the light backdrop.
+    const cardPad = Math.max(12, Math.round(minSide * 0.03));
+    const cardLeft = clamp(backingRegion.left - cardPad, 0, width - 1);
+    const cardTop = clamp(backingRegion.top - cardPad, 0, height - 1);
+    shapes.unshift({
+      x: cardLeft,
+      y: cardTop,
+      w: Math.max(1, Math.min(width, backingRegion.left + backingRegion.width + cardPad) - cardLeft),
+      h: Math.max(1, Math.min(height, backingRegion.top + backingRegion.height + cardPad) - cardTop),
+      fillRole: "scrim",
+      opacity: 0.72,
+      radius: Math.max(8, Math.round(minSide * 0.018)),
+      purpose: "box_fill"
+    });
+  }
+
   if (!isTitleLegible({ blocks, width, height })) {
     const safeTitle = applyCaseTreatment(requestedTitle || "Untitled Series", recipe.hierarchy.case);
     const fallbackTitle = normalizeWhitespace(safeTitle) || "Untitled Series";
@@ -1539,7 +1823,7 @@ export function computeLockupLayout(params: {
     backingRegion = safeRegions.backingRegion;
   }
 
-  return {
+  const layout: LockupLayout = {
     width,
     height,
     aspect: params.aspect,
@@ -1547,7 +1831,231 @@ export function computeLockupLayout(params: {
     textRegion,
     backingRegion,
     blocks,
-    shapes
+    shapes,
+    textFit: {
+      step: textFitStep,
+      warning: textFitStep === "legibility_warning" ? TEXT_FIT_LEGIBILITY_WARNING : null
+    }
+  };
+  applyLockupLogo(layout, params.logo);
+  return layout;
+}
+
+export type WeeklyModuleContent = {
+  weekTitle?: string | null;
+  scriptureRef?: string | null;
+  quote?: string | null;
+};
+
+export function computeWeeklyModuleLayout(params: {
+  backgroundSize: { width: number; height: number };
+  aspect: Aspect;
+  region: LockupRegion;
+  content: WeeklyModuleContent;
+  lockupRecipe: LockupRecipe;
+  fontPairing: FontPairing;
+}): LockupLayout | null {
+  const width = Math.max(1, Math.round(params.backgroundSize.width));
+  const height = Math.max(1, Math.round(params.backgroundSize.height));
+  const recipe = normalizeRecipeForAspect(params.lockupRecipe, params.aspect);
+  const weekTitle = applyCaseTreatment(params.content.weekTitle || "", subtitleCaseMode(recipe));
+  const quote = normalizeWhitespace(params.content.quote || "");
+  const scriptureRef = normalizeWhitespace(params.content.scriptureRef || "");
+  if (!weekTitle && !quote && !scriptureRef) {
+    return null;
+  }
+
+  const region: LockupRegion = {
+    left: clamp(Math.round(params.region.left), 0, width - 1),
+    top: clamp(Math.round(params.region.top), 0, height - 1),
+    width: Math.max(1, Math.round(params.region.width)),
+    height: Math.max(1, Math.round(params.region.height))
+  };
+  const minSide = Math.min(width, height);
+  const quoteFontFamily = params.fontPairing.accentFont || params.fontPairing.subtitleFont;
+  const weekTitleFloor = params.aspect === "wide" ? 26 : 24;
+  const initialWeekTitleFontSize = clamp(Math.round(minSide * 0.056), weekTitleFloor, 72);
+  let weekTitleFontSize = initialWeekTitleFontSize;
+  let blocks: LockupTextBlock[] = [];
+  let fits = false;
+
+  // Shrink the whole module in lockstep until the stacked blocks fit inside the reserved region.
+  for (let attempt = 0; attempt < 24; attempt += 1) {
+    const quoteFontSize = clamp(Math.round(weekTitleFontSize * 0.62), 16, 44);
+    const referenceFontSize = clamp(Math.round(weekTitleFontSize * 0.5), 14, 34);
+    const gap = Math.round(weekTitleFontSize * 0.34);
+    const weekTitleTracking = clamp(Math.round(weekTitleFontSize * recipe.hierarchy.tracking), -6, 12);
+    const referenceTracking = clamp(Math.round(referenceFontSize * 0.08), 0, 6);
+    const entries: Array<Omit<LockupTextBlock, "x" | "y" | "w" | "h">> = [];
+
+    if (weekTitle) {
+      const chars = estimateCharsPerLine(region.width, weekTitleFontSize, weekTitleTracking, params.fontPairing.subtitleFont);
+      entries.push({
+        key: "subtitle",
+        fontSize: weekTitleFontSize,
+        fontWeight: 680,
+        lineHeight: Math.round(weekTitleFontSize * 1.14),
+        fontFamily: params.fontPairing.subtitleFont,
+        lines: wrapWordsDeterministic(weekTitle, chars, 2),
+        align: recipe.alignment,
+        letterSpacing: weekTitleTracking,
+        colorRole: "primary"
+      });
+    }
+    if (quote) {
+      const chars = estimateCharsPerLine(region.width, quoteFontSize, 0, quoteFontFamily);
+      entries.push({
+        key: "passage",
+        fontSize: quoteFontSize,
+        fontWeight: 460,
+        lineHeight: Math.round(quoteFontSize * 1.3),
+        fontFamily: quoteFontFamily,
+        lines: wrapWordsDeterministic(`“${quote}”`, chars, 4),
+        align: recipe.alignment,
+        letterSpacing: 0,
+        colorRole: "secondary"
+      });
+    }
+    if (scriptureRef) {
+      const chars = estimateCharsPerLine(region.width, referenceFontSize, referenceTracking, params.fontPairing.subtitleFont);
+      entries.push({
+        key: "passage",
+        fontSize: referenceFontSize,
+        fontWeight: 560,
+        lineHeight: Math.round(referenceFontSize * 1.24),
+        fontFamily: params.fontPairing.subtitleFont,
+        lines: wrapWordsDeterministic(scriptureRef.toUpperCase(), chars, 1),
+        align: recipe.alignment,
+        letterSpacing: referenceTracking,
+        colorRole: "tertiary"
+      });
+    }
+
+    let currentY = region.top;
+    blocks = entries.map((entry) => {
+      const blockHeight = Math.max(entry.fontSize + 6, entry.lines.length * entry.lineHeight);
+      const block: LockupTextBlock = {
+        ...entry,
+        x: region.left,
+        y: currentY,
+        w: region.width,
+        h: blockHeight
+      };
+      currentY += blockHeight + gap;
+      return block;
+    });
+
+    const usedHeight = currentY - gap - region.top;
+    fits = usedHeight <= region.height;
+    if (fits || weekTitleFontSize <= weekTitleFloor) {
+      break;
+    }
+    weekTitleFontSize -= 2;
+  }
+  // At the floor the module keeps its size and runs past the region rather than shrinking further.
+  const textFitStep: TextFitStep = !fits ? "legibility_warning" : weekTitleFontSize < initialWeekTitleFontSize ? "resized" : "fit";
+
+  const bounds = textBoundsFromBlocks(blocks);
+  const textRegion: LockupRegion = bounds
+    ? {
+        left: bounds.left,
+        top: bounds.top,
+        width: bounds.width,
+        height: bounds.height
+      }
+    : region;
+
+  return {
+    width,
+    height,
+    aspect: params.aspect,
+    recipe,
+    textRegion,
+    backingRegion: textRegion,
+    blocks,
+    shapes: [],
+    textFit: {
+      step: textFitStep,
+      warning: textFitStep === "legibility_warning" ? TEXT_FIT_LEGIBILITY_WARNING : null
+    }
+  };
+}
+
+export function computePodcastTitleLayout(params: {
+  backgroundSize: { width: number; height: number };
+  region: LockupRegion;
+  title: string;
+  lockupRecipe: LockupRecipe;
+  fontPairing: FontPairing;
+  minFontSize: number;
+}): LockupLayout | null {
+  const width = Math.max(1, Math.round(params.backgroundSize.width));
+  const height = Math.max(1, Math.round(params.backgroundSize.height));
+  const recipe = normalizeRecipeForAspect(params.lockupRecipe, "square");
+  const title = applyCaseTreatment(params.title, recipe.hierarchy.case);
+  if (!title) {
+    return null;
+  }
+
+  const region: LockupRegion = {
+    left: clamp(Math.round(params.region.left), 0, width - 1),
+    top: clamp(Math.round(params.region.top), 0, height - 1),
+    width: Math.max(1, Math.round(params.region.width)),
+    height: Math.max(1, Math.round(params.region.height))
+  };
+  const fontFamily = params.fontPairing.titleFont;
+  const fontWeight = recipe.layoutIntent === "bold_modern" ? 820 : recipe.layoutIntent === "classic_serif" ? 700 : 740;
+  const floor = Math.max(1, Math.round(params.minFontSize));
+  let fontSize = Math.max(floor, Math.round(Math.min(width, height) * 0.16));
+  let lines: string[] = [];
+  let lineHeight = 0;
+  let tracking = 0;
+
+  // Podcast thumbnails favour one big word per line, so only the font size gives way here.
+  for (let attempt = 0; attempt < 40; attempt += 1) {
+    tracking = clamp(Math.round(fontSize * recipe.hierarchy.tracking), -8, 16);
+    lineHeight = Math.round(fontSize * 1.04);
+    lines = wrapWordsDeterministic(title, estimateCharsPerLine(region.width, fontSize, tracking, fontFamily), 3);
+    const tooWide = lines.some((line) => estimateLineWidth(line, fontSize, tracking, fontFamily) > region.width);
+    const tooTall = lines.length * lineHeight > region.height;
+    if ((!tooWide && !tooTall) || fontSize <= floor) {
+      break;
+    }
+    fontSize = Math.max(floor, fontSize - 4);
+  }
+
+  const blockHeight = Math.max(fontSize + 12, lines.length * lineHeight);
+  const block: LockupTextBlock = {
+    key: "title",
+    x: region.left,
+    y: region.top + Math.max(0, Math.round((region.height - blockHeight) / 2)),
+    w: region.width,
+    h: blockHeight,
+    fontSize,
+    fontWeight,
+    lineHeight,
+    fontFamily,
+    lines,
+    align: "center",
+    letterSpacing: tracking,
+    colorRole: "primary"
+  };
+  const textRegion: LockupRegion = {
+    left: block.x,
+    top: block.y,
+    width: block.w,
+    height: block.h
+  };
+
+  return {
+    width,
+    height,
+    aspect: "square",
+    recipe,
+    textRegion,
+    backingRegion: textRegion,
+    blocks: [block],
+    shapes: []
   };
 }
 
@@ -1560,6 +2068,8 @@ export function renderLockup(params: {
   palette: LockupTextPalette;
   lockupPresetId?: string | null;
   integrationMode?: LockupTitleIntegrationMode;
+  logo?: LockupLogo | null;
+  fontScope?: string | null;
 }): LockupRenderResult {
   const layout = computeLockupLayout({
     backgroundSize: params.backgroundSize,
@@ -1567,7 +2077,8 @@ export function renderLockup(params: {
     content: params.content,
     lockupRecipe: params.lockupRecipe,
     fontPairing: params.fontPairing,
-    lockupPresetId: params.lockupPresetId
+    lockupPresetId: params.lockupPresetId,
+    logo: params.logo
   });
   const integrationMode = params.integrationMode || "PLATE";
   if (integrationMode === "GRID_LOCK" || integrationMode === "TYPE_AS_TEXTURE") {
@@ -1595,7 +2106,8 @@ export function renderLockup(params: {
         },
         ...weightedFaces
       ];
-    })
+    }),
+    params.fontScope
   );
   const blurValues = [...new Set(layout.blocks.map((block) => block.blur || 0).filter((value) => value > 0))]
     .map((value) => clamp(value, 0, 16))
@@ -1639,6 +2151,13 @@ export function renderLockup(params: {
     parts.push(renderShapeNode(shape, params.palette));
   }
 
+  // The overlay is trimmed to the lockup before compositing, so a corner bug is placed by the compositor instead.
+  if (layout.logo && layout.logo.placement !== "corner_bug") {
+    parts.push(
+      `<image x="${layout.logo.x}" y="${layout.logo.y}" width="${layout.logo.w}" height="${layout.logo.h}" href="${escapeXml(layout.logo.dataUri)}" preserveAspectRatio="xMidYMid meet" />`
+    );
+  }
+
   let arcTitleRendered = false;
   let arcTitleIndex = 0;
   const titleShadowOffsetX = Math.max(1, Math.round(layout.width * 0.0028));
@@ -1895,6 +2414,17 @@ export function buildLockupDesignLayers(params: {
     }
   }
 
+  if (params.layout.logo) {
+    layers.push({
+      type: "image",
+      x: params.layout.logo.x,
+      y: params.layout.logo.y,
+      w: params.layout.logo.w,
+      h: params.layout.logo.h,
+      src: params.layout.logo.src
+    });
+  }
+
   for (const block of params.layout.blocks) {
     const color = blockColorForLayer(block, params.palette);
     const textOpacityFloor = !block.isOverprint && !block.isOutline && !block.inlineStroke
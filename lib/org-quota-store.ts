@@ -0,0 +1,65 @@
+import type { Prisma } from "@prisma/client";
+import {
+  evaluateOrganizationQuota,
+  resolveQuotaPeriodStart,
+  type OrganizationQuotaStatus
+} from "@/lib/org-quotas";
+
+type QuotaDb = Pick<
+  Prisma.TransactionClient,
+  "organization" | "project" | "generation" | "aiAttempt" | "scoutRun" | "rebuildAttempt"
+>;
+
+/**
+ * Current-month usage against the organization's quotas. Accepts a transaction client so the
+ * Round 1 single-flight can check quotas inside the same transaction that takes the lease.
+ */
+export async function loadOrganizationQuotaStatus(params: {
+  db: QuotaDb;
+  organizationId: string;
+  now?: Date;
+}): Promise<OrganizationQuotaStatus> {
+  const periodStart = resolveQuotaPeriodStart(params.now ?? new Date());
+  const organization = await params.db.organization.findUniqueOrThrow({
+    where: { id: params.organizationId },
+    select: { monthlyGenerationQuota: true, monthlySpendQuotaUsd: true }
+  });
+  const projects = await params.db.project.findMany({
+    where: { organizationId: params.organizationId },
+    select: { id: true }
+  });
+  const projectIds = projects.map((project) => project.id);
+
+  const [generationCount, attemptSpend, scoutSpend, rebuildSpend] = await Promise.all([
+    params.db.generation.count({
+      where: { projectId: { in: projectIds }, createdAt: { gte: periodStart }, shadow: false }
+    }),
+    params.db.aiAttempt.aggregate({
+      where: { startedAt: { gte: periodStart }, run: { projectId: { in: projectIds } } },
+      _sum: { estimatedCostUsd: true }
+    }),
+    params.db.scoutRun.aggregate({
+      where: { createdAt: { gte: periodStart }, generation: { projectId: { in: projectIds }, shadow: false } },
+      _sum: { estimatedCostUsd: true }
+    }),
+    params.db.rebuildAttempt.aggregate({
+      where: { createdAt: { gte: periodStart }, generation: { projectId: { in: projectIds }, shadow: false } },
+      _sum: { estimatedCostUsd: true }
+    })
+  ]);
+
+  return evaluateOrganizationQuota({
+    periodStart,
+    settings: {
+      monthlyGenerationQuota: organization.monthlyGenerationQuota,
+      monthlySpendQuotaUsd: organization.monthlySpendQuotaUsd
+    },
+    usage: {
+      generationCount,
+      spendUsd:
+        (attemptSpend._sum.estimatedCostUsd ?? 0) +
+        (scoutSpend._sum.estimatedCostUsd ?? 0) +
+        (rebuildSpend._sum.estimatedCostUsd ?? 0)
+    }
+  });
+}
@@ -0,0 +1,61 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { evaluateOrganizationQuota, parseQuotaInput, resolveQuotaPeriodStart } from "@/lib/org-quotas";
+import { buildProductionBlockedMessage } from "@/lib/production-valid-option";
+
+const PERIOD_START = new Date("2026-05-01T00:00:00.000Z");
+
+test("resolveQuotaPeriodStart returns the first of the month in UTC", () => {
+  assert.equal(resolveQuotaPeriodStart(new Date("2026-05-31T23:59:59.000Z")).toISOString(), "2026-05-01T00:00:00.000Z");
+  assert.equal(resolveQuotaPeriodStart(new Date("2026-06-01T00:00:00.000Z")).toISOString(), "2026-06-01T00:00:00.000Z");
+});
+
+test("evaluateOrganizationQuota never blocks unlimited organizations", () => {
+  const status = evaluateOrganizationQuota({
+    periodStart: PERIOD_START,
+    settings: { monthlyGenerationQuota: null, monthlySpendQuotaUsd: null },
+    usage: { generationCount: 500, spendUsd: 1200 }
+  });
+
+  assert.deepEqual(status.blockingReasons, []);
+});
+
+test("evaluateOrganizationQuota blocks once usage reaches a limit", () => {
+  const underLimit = evaluateOrganizationQuota({
+    periodStart: PERIOD_START,
+    settings: { monthlyGenerationQuota: 10, monthlySpendQuotaUsd: 5 },
+    usage: { generationCount: 9, spendUsd: 4.99 }
+  });
+  assert.deepEqual(underLimit.blockingReasons, []);
+
+  const atLimit = evaluateOrganizationQuota({
+    periodStart: PERIOD_START,
+    settings: { monthlyGenerationQuota: 10, monthlySpendQuotaUsd: 5 },
+    usage: { generationCount: 10, spendUsd: 5.2 }
+  });
+  assert.deepEqual(atLimit.blockingReasons, ["generation_quota_exceeded:10/10", "spend_quota_exceeded:$5.20/$5.00"]);
+  assert.equal(
+    buildProductionBlockedMessage("Round 1", atLimit.blockingReasons),
+    "Round 1 blocked: Monthly generation quota reached (10/10 generations); Monthly AI spend quota reached ($5.20/$5.00)."
+  );
+});
+
+test("a zero quota blocks every launch", () => {
+  const status = evaluateOrganizationQuota({
+    periodStart: PERIOD_START,
+    settings: { monthlyGenerationQuota: 0, monthlySpendQuotaUsd: null },
+    usage: { generationCount: 0, spendUsd: 0 }
+  });
+
+  assert.deepEqual(status.blockingReasons, ["generation_quota_exceeded:0/0"]);
+});
+
+test("parseQuotaInput treats blank as unlimited and rejects bad values", () => {
+  assert.equal(parseQuotaInput(null, { integer: true }), null);
+  assert.equal(parseQuotaInput("  ", { integer: true }), null);
+  assert.equal(parseQuotaInput("25", { integer: true }), 25);
+  assert.equal(parseQuotaInput("12.5", { integer: false }), 12.5);
+  assert.equal(parseQuotaInput("12.5", { integer: true }), "invalid");
+  assert.equal(parseQuotaInput("-1", { integer: false }), "invalid");
+  assert.equal(parseQuotaInput("abc", { integer: false }), "invalid");
+});
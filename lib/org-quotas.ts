@@ -0,0 +1,65 @@
+import { formatUsd } from "@/lib/ai-spend";
+
+// Monthly limits are per calendar month in UTC. Null means unlimited.
+export type OrganizationQuotaSettings = {
+  monthlyGenerationQuota: number | null;
+  monthlySpendQuotaUsd: number | null;
+};
+
+export type OrganizationQuotaUsage = {
+  generationCount: number;
+  spendUsd: number;
+};
+
+export type OrganizationQuotaStatus = {
+  periodStart: Date;
+  settings: OrganizationQuotaSettings;
+  usage: OrganizationQuotaUsage;
+  // Reason codes in the production-valid-option style, e.g. "generation_quota_exceeded:12/12".
+  blockingReasons: string[];
+};
+
+export function resolveQuotaPeriodStart(now: Date): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+}
+
+/**
+ * A launch is blocked once usage has reached a limit; the launch that crosses a limit is
+ * allowed to finish, so spend can overshoot by at most one round.
+ */
+export function evaluateOrganizationQuota(params: {
+  settings: OrganizationQuotaSettings;
+  usage: OrganizationQuotaUsage;
+  periodStart: Date;
+}): OrganizationQuotaStatus {
+  const { settings, usage } = params;
+  const blockingReasons: string[] = [];
+
+  if (settings.monthlyGenerationQuota !== null && usage.generationCount >= settings.monthlyGenerationQuota) {
+    blockingReasons.push(`generation_quota_exceeded:${usage.generationCount}/${settings.monthlyGenerationQuota}`);
+  }
+  if (settings.monthlySpendQuotaUsd !== null && usage.spendUsd >= settings.monthlySpendQuotaUsd) {
+    blockingReasons.push(`spend_quota_exceeded:${formatUsd(usage.spendUsd)}/${formatUsd(settings.monthlySpendQuotaUsd)}`);
+  }
+
+  return {
+    periodStart: params.periodStart,
+    settings,
+    usage,
+    blockingReasons
+  };
+}
+
+/** Parses an optional non-negative quota form value; blank means unlimited. */
+export function parseQuotaInput(value: FormDataEntryValue | null, options: { integer: boolean }): number | null | "invalid" {
+  if (typeof value !== "string" || !value.trim()) {
+    return null;
+  }
+
+  const parsed = Number(value.trim());
+  if (!Number.isFinite(parsed) || parsed < 0 || (options.integer && !Number.isInteger(parsed))) {
+    return "invalid";
+  }
+
+  return parsed;
+}
@@ -0,0 +1,169 @@
+import "server-only";
+
+import { randomUUID } from "crypto";
+import { mkdir, rm, writeFile } from "fs/promises";
+import path from "path";
+import { FONT_FILE_EXTENSIONS, inspectFontFile, subsetFontFile } from "@/lib/lockups/font-files";
+import {
+  getOrganizationFontStorageRoot,
+  resolveCuratedFontFamily,
+  resolveOrganizationFontFilePath,
+  resolveOrganizationFontManifestPath
+} from "@/lib/lockups/font-registry";
+import { prisma } from "@/lib/prisma";
+import {
+  buildGoogleFontDisplayName,
+  isBundledFontFamily,
+  registerFontAssets,
+  type FontAsset
+} from "@/src/design/fonts/font-assets";
+
+export type OrganizationFontRecord = {
+  id: string;
+  family: string;
+  weight: number;
+  style: string;
+  filePath: string;
+  originalFileName: string;
+  byteSize: number;
+  subset: boolean;
+};
+
+export type OrganizationFontUpload = {
+  organizationId: string;
+  file: File;
+  /** Overrides for what the font file declares (variable fonts report their default instance). */
+  family?: string | null;
+  weight?: number | null;
+  style?: "normal" | "italic" | null;
+};
+
+export type OrganizationFontUploadResult = { ok: true; font: OrganizationFontRecord } | { ok: false; error: string };
+
+const ORGANIZATION_FONT_SELECT = {
+  id: true,
+  family: true,
+  weight: true,
+  style: true,
+  filePath: true,
+  originalFileName: true,
+  byteSize: true,
+  subset: true
+} as const;
+
+async function removeStoredFontFile(filePath: string): Promise<void> {
+  const absolutePath = resolveOrganizationFontFilePath(filePath);
+  if (absolutePath) {
+    await rm(absolutePath, { force: true });
+  }
+}
+
+export function toOrganizationFontAssetId(fontId: string): string {
+  return `org-${fontId}`;
+}
+
+export function toOrganizationFontAsset(font: OrganizationFontRecord): FontAsset {
+  const style = font.style === "italic" ? "italic" : "normal";
+  return {
+    id: toOrganizationFontAssetId(font.id),
+    family: font.family,
+    style,
+    weight: font.weight,
+    file: font.filePath,
+    displayName: buildGoogleFontDisplayName(font.family, font.weight, style),
+    tags: ["organization"],
+    source: "organization"
+  };
+}
+
+export async function listOrganizationFonts(organizationId: string): Promise<OrganizationFontRecord[]> {
+  return prisma.organizationFont.findMany({
+    where: { organizationId },
+    orderBy: [{ family: "asc" }, { weight: "asc" }, { style: "asc" }],
+    select: ORGANIZATION_FONT_SELECT
+  });
+}
+
+/**
+ * Registers an organization's uploaded fonts with the font asset registry so lockup rendering,
+ * site-font matching and SVG/PDF embedding resolve them like bundled fonts; it replaces whatever
+ * that organization registered before. It also rewrites the organization's font manifest, which
+ * other processes (and this one after a restart) load the first time they see the organization.
+ */
+export async function registerOrganizationFonts(
+  organizationId: string,
+  fonts?: readonly OrganizationFontRecord[]
+): Promise<FontAsset[]> {
+  const records = fonts || (await listOrganizationFonts(organizationId));
+  const assets = records.map(toOrganizationFontAsset);
+  const manifestPath = resolveOrganizationFontManifestPath(organizationId);
+  if (manifestPath) {
+    await mkdir(path.dirname(manifestPath), { recursive: true });
+    await writeFile(manifestPath, JSON.stringify(assets));
+  }
+  return registerFontAssets(organizationId, assets);
+}
+
+export async function saveOrganizationFontUpload(upload: OrganizationFontUpload): Promise<OrganizationFontUploadResult> {
+  const original = Buffer.from(await upload.file.arrayBuffer());
+  const inspection = inspectFontFile(original);
+  if (!inspection.ok) {
+    return { ok: false, error: `${upload.file.name}: ${inspection.error}` };
+  }
+
+  const family = upload.family?.trim() || inspection.font.family;
+  if (isBundledFontFamily(family) || resolveCuratedFontFamily(family)) {
+    return { ok: false, error: `${family} is already in the font library. Pick it from the library instead of uploading it.` };
+  }
+  const weight = upload.weight || inspection.font.weight;
+  const style = upload.style || inspection.font.style;
+
+  const subset = await subsetFontFile(original, inspection.font.format);
+  const uploadDirectory = path.join(getOrganizationFontStorageRoot(), upload.organizationId);
+  await mkdir(uploadDirectory, { recursive: true });
+  const fileName = `${Date.now()}-${randomUUID()}${FONT_FILE_EXTENSIONS[subset.format]}`;
+  await writeFile(path.join(uploadDirectory, fileName), subset.bytes);
+  const filePath = path.posix.join(upload.organizationId, fileName);
+
+  const existing = await prisma.organizationFont.findUnique({
+    where: {
+      organizationId_family_weight_style: { organizationId: upload.organizationId, family, weight, style }
+    },
+    select: { filePath: true }
+  });
+  const data = {
+    filePath,
+    originalFileName: upload.file.name,
+    byteSize: subset.bytes.length,
+    subset: subset.subset
+  };
+  const font = await prisma.organizationFont.upsert({
+    where: {
+      organizationId_family_weight_style: { organizationId: upload.organizationId, family, weight, style }
+    },
+    create: { organizationId: upload.organizationId, family, weight, style, ...data },
+    update: data,
+    select: ORGANIZATION_FONT_SELECT
+  });
+  if (existing) {
+    await removeStoredFontFile(existing.filePath);
+  }
+
+  await registerOrganizationFonts(upload.organizationId);
+  return { ok: true, font };
+}
+
+export async function deleteOrganizationFont(organizationId: string, fontId: string): Promise<boolean> {
+  const font = await prisma.organizationFont.findFirst({
+    where: { id: fontId, organizationId },
+    select: { id: true, filePath: true }
+  });
+  if (!font) {
+    return false;
+  }
+
+  await prisma.organizationFont.delete({ where: { id: font.id } });
+  await removeStoredFontFile(font.filePath);
+  await registerOrganizationFonts(organizationId);
+  return true;
+}
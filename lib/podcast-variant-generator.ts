@@ -0,0 +1,114 @@
+import { readFile } from "fs/promises";
+import path from "path";
+import sharp from "sharp";
+import { buildFinalPng, buildScaledFinalPng, measureRenderedTextBounds } from "@/lib/final-deliverables";
+import { readApprovedLockupStyle } from "@/lib/final-design-store";
+import { PREVIEW_DIMENSIONS } from "@/lib/lockup-compositor";
+import { loadLockupLogoSource, prepareLockupLogoForBackground } from "@/lib/lockups/logo-variants";
+import {
+  PODCAST_LARGE_SIZE,
+  PODCAST_THUMBNAIL_SIZE,
+  resolvePodcastLayoutRegions,
+  resolvePodcastVariant,
+  type PodcastMark,
+  type PodcastVariant
+} from "@/lib/podcast-variant";
+import { chooseTextPaletteForBackground } from "@/lib/templates/type-clean-min";
+
+export type PodcastDeliverable = {
+  variant: PodcastVariant;
+  png: Buffer;
+  thumbnailPng: Buffer;
+  largePng: Buffer;
+};
+
+function resolvePublicPath(assetPath: string): string {
+  return path.join(process.cwd(), "public", assetPath.replace(/^\/+/, ""));
+}
+
+async function readPodcastMark(logoPath: string | null | undefined, backgroundPng: Buffer): Promise<PodcastMark | null> {
+  if (!logoPath?.trim() || /^https?:\/\//i.test(logoPath)) {
+    return null;
+  }
+
+  try {
+    const metadata = await sharp(await readFile(resolvePublicPath(logoPath))).metadata();
+    if (!metadata.width || !metadata.height) {
+      return null;
+    }
+    const mark: PodcastMark = {
+      src: logoPath,
+      width: metadata.width,
+      height: metadata.height,
+      vector: metadata.format === "svg"
+    };
+
+    // Single-color marks (a dark series mark on a dark background) switch to a contrasting silhouette.
+    const source = await loadLockupLogoSource(logoPath);
+    const markRegion = resolvePodcastLayoutRegions(true).markRegion;
+    if (!source || !markRegion) {
+      return mark;
+    }
+    const prepared = await prepareLockupLogoForBackground({
+      source,
+      backgroundPng,
+      sampleRegion: markRegion,
+      width: PREVIEW_DIMENSIONS.square.width,
+      height: PREVIEW_DIMENSIONS.square.height
+    });
+    return prepared.logo.variant === "original"
+      ? mark
+      : { src: prepared.logo.src, width: prepared.logo.width, height: prepared.logo.height, vector: false };
+  } catch {
+    // A missing or unreadable logo just drops the podcast square back to a title-only lockup.
+    return null;
+  }
+}
+
+/**
+ * Renders the `square_podcast` deliverable on the approved `square_main` background,
+ * at 1080px plus the 300px thumbnail and 3000px directory sizes podcast apps expect.
+ */
+export async function renderPodcastDeliverable(params: {
+  seriesTitle: string;
+  squareBackgroundPath: string;
+  logoPath?: string | null;
+  generationId: string;
+  generationOutput: unknown;
+  /** Organization whose uploaded fonts may be embedded. */
+  fontScope?: string | null;
+}): Promise<PodcastDeliverable> {
+  const { recipe, fontPairing, resolvedPalette } = readApprovedLockupStyle(params.generationOutput, params.generationId);
+  const { width, height } = PREVIEW_DIMENSIONS.square;
+  const backgroundPng = await readFile(resolvePublicPath(params.squareBackgroundPath));
+  const palette = await chooseTextPaletteForBackground({
+    backgroundPng,
+    sampleRegion: resolvePodcastLayoutRegions(false).titleRegion,
+    width,
+    height,
+    resolvedPalette
+  });
+  const renderOptions = { fontScope: params.fontScope };
+  const variant = await resolvePodcastVariant({
+    seriesTitle: params.seriesTitle,
+    backgroundImagePath: params.squareBackgroundPath,
+    mark: await readPodcastMark(params.logoPath, backgroundPng),
+    lockupRecipe: recipe,
+    fontPairing,
+    palette,
+    measureText: (designDoc, size) => measureRenderedTextBounds(designDoc, size, renderOptions)
+  });
+
+  const [png, thumbnailPng, largePng] = await Promise.all([
+    buildFinalPng(variant.designDoc, renderOptions),
+    buildScaledFinalPng(variant.designDoc, PODCAST_THUMBNAIL_SIZE, renderOptions),
+    buildScaledFinalPng(variant.designDoc, PODCAST_LARGE_SIZE, renderOptions)
+  ]);
+
+  return {
+    variant,
+    png,
+    thumbnailPng,
+    largePng
+  };
+}
@@ -0,0 +1,125 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import type { DesignDoc } from "@/lib/design-doc";
+import { measureRenderedTextBounds } from "@/lib/final-deliverables";
+import { getFontPairing } from "@/lib/lockups/fonts";
+import { getLockupPresetById } from "@/lib/lockups/presets";
+import type { LockupTextPalette } from "@/lib/lockups/renderer";
+import {
+  PODCAST_LARGE_SIZE,
+  PODCAST_THUMBNAIL_SIZE,
+  deriveShortSeriesTitle,
+  evaluatePodcastLegibility,
+  resolvePodcastVariant
+} from "@/lib/podcast-variant";
+
+const PALETTE: LockupTextPalette = {
+  primary: "#FFFFFF",
+  secondary: "#E2E8F0",
+  tertiary: "#CBD5E1",
+  rule: "#FFFFFF",
+  accent: "#F59E0B",
+  autoScrim: false,
+  scrimTint: "#000000"
+};
+
+const lockupRecipe = getLockupPresetById(null);
+const fontPairing = getFontPairing(lockupRecipe);
+const measureText = (designDoc: DesignDoc, size: number) => measureRenderedTextBounds(designDoc, size);
+
+const TINY_TEXT_DOC: DesignDoc = {
+  width: 1080,
+  height: 1080,
+  background: { color: "#000000" },
+  layers: [
+    {
+      type: "text",
+      x: 200,
+      y: 400,
+      w: 680,
+      h: 40,
+      text: "Tiny",
+      fontSize: 30,
+      fontFamily: "Inter",
+      fontWeight: 600,
+      color: "#FFFFFF",
+      align: "center"
+    }
+  ]
+};
+
+test("deriveShortSeriesTitle keeps the main clause and trims trailing stop words", () => {
+  assert.equal(deriveShortSeriesTitle("Renewed: A Journey Through Romans 12"), "Renewed");
+  assert.equal(deriveShortSeriesTitle("Hope (Advent 2026)"), "Hope");
+  assert.equal(deriveShortSeriesTitle("The Gospel According to the Beloved Disciple"), "The Gospel According");
+  assert.equal(deriveShortSeriesTitle("Grace"), "Grace");
+});
+
+test("resolvePodcastVariant excludes weekly content and passes both legibility sizes", async () => {
+  const variant = await resolvePodcastVariant({
+    seriesTitle: "Renewed: A Journey Through Romans 12",
+    backgroundImagePath: "uploads/square-bg.png",
+    mark: null,
+    lockupRecipe,
+    fontPairing,
+    palette: PALETTE,
+    measureText
+  });
+
+  assert.equal(variant.shortTitle, "Renewed");
+  assert.equal(variant.usesMark, false);
+  assert.equal(variant.designDoc.backgroundImagePath, "uploads/square-bg.png");
+  assert.deepEqual(
+    variant.legibility.checks.map((check) => check.size),
+    [PODCAST_THUMBNAIL_SIZE, PODCAST_LARGE_SIZE]
+  );
+  assert.equal(variant.legibility.ok, true);
+
+  const texts = variant.designDoc.layers.flatMap((layer) => (layer.type === "text" ? [layer.text] : []));
+  assert.ok(texts.every((text) => !/romans/i.test(text)));
+});
+
+test("resolvePodcastVariant drops a low-resolution mark instead of upscaling it", async () => {
+  const variant = await resolvePodcastVariant({
+    seriesTitle: "Grace",
+    backgroundImagePath: "uploads/square-bg.png",
+    mark: { src: "uploads/logo.png", width: 64, height: 64, vector: false },
+    lockupRecipe,
+    fontPairing,
+    palette: PALETTE,
+    measureText
+  });
+
+  assert.equal(variant.usesMark, false);
+  assert.ok(variant.designDoc.layers.every((layer) => layer.type !== "image"));
+});
+
+test("evaluatePodcastLegibility flags rendered glyphs that shrink below the thumbnail floor", async () => {
+  const report = await evaluatePodcastLegibility({ designDoc: TINY_TEXT_DOC, mark: null, measureText });
+
+  assert.equal(report.ok, false);
+  assert.deepEqual(report.checks[0]?.issues, ["text_below_minimum"]);
+  assert.ok((report.checks[0]?.minTextPx ?? 0) > 0);
+  assert.equal(report.checks[1]?.ok, true);
+});
+
+test("evaluatePodcastLegibility judges the safe zone by where the glyphs rendered, not the layer box", async () => {
+  // The layer box sits inside the inset, but the rendered text spills past the right edge at 3000px.
+  const report = await evaluatePodcastLegibility({
+    designDoc: TINY_TEXT_DOC,
+    mark: null,
+    measureText: async (_, size) => [
+      size === PODCAST_LARGE_SIZE ? { left: 1200, top: 1100, width: 1700, height: 90 } : { left: 60, top: 110, width: 180, height: 14 }
+    ]
+  });
+
+  assert.deepEqual(report.checks[0]?.issues, []);
+  assert.deepEqual(report.checks[1]?.issues, ["text_outside_safe_zone"]);
+});
+
+test("evaluatePodcastLegibility fails text that never rendered", async () => {
+  const report = await evaluatePodcastLegibility({ designDoc: TINY_TEXT_DOC, mark: null, measureText: async () => [null] });
+
+  assert.equal(report.ok, false);
+  assert.ok(report.checks.every((check) => check.issues.includes("text_not_rendered") && check.minTextPx === null));
+});
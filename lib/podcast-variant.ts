@@ -0,0 +1,313 @@
+import type { LockupRecipe } from "@/lib/design-brief";
+import type { DesignDoc, DesignLayer } from "@/lib/design-doc";
+import { PREVIEW_DIMENSIONS } from "@/lib/lockup-compositor";
+import type { FontPairing } from "@/lib/lockups/fonts";
+import { buildLockupDesignLayers, computePodcastTitleLayout, type LockupRegion, type LockupTextPalette } from "@/lib/lockups/renderer";
+
+export const PODCAST_OUTPUT_SLOT = "square_podcast";
+export const PODCAST_THUMBNAIL_SIZE = 300;
+export const PODCAST_LARGE_SIZE = 3000;
+
+// Smallest font size (px) the layout may pick, judged at the 300px app thumbnail.
+const MIN_TEXT_PX_AT_THUMBNAIL = 18;
+// Smallest rendered line of glyphs (px, cap top to lowest descender) we accept at any output size:
+// roughly the cap height of 18px type.
+const MIN_TEXT_INK_PX = 12;
+// buildFinalSvg advances each tspan line by this multiple of the font size.
+const SVG_LINE_HEIGHT_RATIO = 1.25;
+// Podcast apps round or crop the corners, so text and marks stay inside this inset.
+const ICON_SAFE_INSET_RATIO = 0.08;
+// A raster mark may be stretched at most this far past its native pixels at 3000px.
+const MAX_MARK_UPSCALE = 2;
+const SHORT_TITLE_MAX_CHARS = 22;
+const SHORTER_TITLE_MAX_CHARS = 12;
+const TRAILING_STOP_WORDS = new Set(["a", "an", "and", "for", "in", "of", "on", "the", "to", "with"]);
+
+export type PodcastMark = {
+  src: string;
+  width: number;
+  height: number;
+  vector: boolean;
+};
+
+export type PodcastLegibilityIssue = "text_not_rendered" | "text_below_minimum" | "text_outside_safe_zone" | "mark_upscaled";
+
+export type PodcastTextBounds = {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+};
+
+/**
+ * Where each text layer's glyphs landed once the doc was rasterized at `size`, in that size's
+ * pixels and in text-layer order; null for a layer that drew nothing.
+ */
+export type MeasurePodcastText = (designDoc: DesignDoc, size: number) => Promise<Array<PodcastTextBounds | null>>;
+
+export type PodcastLegibilityCheck = {
+  size: number;
+  minTextPx: number | null;
+  ok: boolean;
+  issues: PodcastLegibilityIssue[];
+};
+
+export type PodcastLegibilityReport = {
+  ok: boolean;
+  checks: PodcastLegibilityCheck[];
+};
+
+export type PodcastVariant = {
+  designDoc: DesignDoc;
+  shortTitle: string;
+  usesMark: boolean;
+  legibility: PodcastLegibilityReport;
+};
+
+function normalizeWhitespace(value: string): string {
+  return value.replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Reduces a series title to the short form the PRD allows on the podcast square:
+ * the main clause before any subtitle separator, trimmed word-by-word to fit.
+ */
+export function deriveShortSeriesTitle(seriesTitle: string, maxChars = SHORT_TITLE_MAX_CHARS): string {
+  const normalized = normalizeWhitespace(seriesTitle);
+  const mainClause =
+    normalized
+      .split(/\s*[:|–—]\s*|\s+-\s+/)
+      .map((segment) => normalizeWhitespace(segment.replace(/\([^)]*\)/g, "")))
+      .find(Boolean) || normalized;
+  if (mainClause.length <= maxChars) {
+    return mainClause;
+  }
+
+  const words = mainClause.split(" ");
+  const kept: string[] = [];
+  for (const word of words) {
+    const candidate = [...kept, word].join(" ");
+    if (kept.length > 0 && candidate.length > maxChars) {
+      break;
+    }
+    kept.push(word);
+  }
+  while (kept.length > 1 && TRAILING_STOP_WORDS.has(kept[kept.length - 1].toLowerCase())) {
+    kept.pop();
+  }
+
+  return kept.join(" ");
+}
+
+export function resolvePodcastLayoutRegions(hasMark: boolean): { titleRegion: LockupRegion; markRegion: LockupRegion | null } {
+  const { width, height } = PREVIEW_DIMENSIONS.square;
+  // Generous padding keeps the composition icon-safe in circular or rounded podcast crops.
+  const left = Math.round(width * 0.14);
+  const innerWidth = width - left * 2;
+
+  if (!hasMark) {
+    return {
+      titleRegion: {
+        left,
+        top: Math.round(height * 0.22),
+        width: innerWidth,
+        height: Math.round(height * 0.52)
+      },
+      markRegion: null
+    };
+  }
+
+  return {
+    titleRegion: {
+      left,
+      top: Math.round(height * 0.5),
+      width: innerWidth,
+      height: Math.round(height * 0.32)
+    },
+    markRegion: {
+      left,
+      top: Math.round(height * 0.16),
+      width: innerWidth,
+      height: Math.round(height * 0.28)
+    }
+  };
+}
+
+function fitMarkLayer(mark: PodcastMark, region: LockupRegion): DesignLayer {
+  const scale = Math.min(region.width / Math.max(1, mark.width), region.height / Math.max(1, mark.height));
+  const w = Math.max(1, Math.round(mark.width * scale));
+  const h = Math.max(1, Math.round(mark.height * scale));
+  return {
+    type: "image",
+    x: region.left + Math.round((region.width - w) / 2),
+    y: region.top + Math.round((region.height - h) / 2),
+    w,
+    h,
+    src: mark.src
+  };
+}
+
+export function buildPodcastDesignDoc(params: {
+  backgroundImagePath: string;
+  shortTitle: string;
+  mark: PodcastMark | null;
+  lockupRecipe: LockupRecipe;
+  fontPairing: FontPairing;
+  palette: LockupTextPalette;
+}): DesignDoc | null {
+  const { width, height } = PREVIEW_DIMENSIONS.square;
+  const regions = resolvePodcastLayoutRegions(Boolean(params.mark));
+  const layout = computePodcastTitleLayout({
+    backgroundSize: { width, height },
+    region: regions.titleRegion,
+    title: params.shortTitle,
+    lockupRecipe: params.lockupRecipe,
+    fontPairing: params.fontPairing,
+    minFontSize: Math.ceil((MIN_TEXT_PX_AT_THUMBNAIL * width) / PODCAST_THUMBNAIL_SIZE)
+  });
+  if (!layout) {
+    return null;
+  }
+
+  const layers: DesignLayer[] = [];
+  if (params.mark && regions.markRegion) {
+    layers.push(fitMarkLayer(params.mark, regions.markRegion));
+  }
+  layers.push(...buildLockupDesignLayers({ layout, palette: params.palette }));
+
+  return {
+    width,
+    height,
+    backgroundImagePath: params.backgroundImagePath,
+    background: {
+      color: "#0F172A"
+    },
+    layers
+  };
+}
+
+/**
+ * Checks the podcast square at each output size against the text as it actually rendered:
+ * every line of glyphs must stay tall enough to read and inside the icon-safe inset. Marks
+ * are checked from their layer box, since only their raster upscale matters.
+ */
+export async function evaluatePodcastLegibility(params: {
+  designDoc: DesignDoc;
+  mark: PodcastMark | null;
+  measureText: MeasurePodcastText;
+  sizes?: number[];
+}): Promise<PodcastLegibilityReport> {
+  const { designDoc } = params;
+  const contentLayers = designDoc.layers.filter((layer) => layer.purpose !== "guide");
+  const textLayers = contentLayers.flatMap((layer) => (layer.type === "text" ? [layer] : []));
+  const markLayer = params.mark ? contentLayers.find((layer) => layer.type === "image" && layer.src === params.mark?.src) : null;
+  const markOutsideSafeZone = Boolean(
+    markLayer &&
+      (markLayer.x < designDoc.width * ICON_SAFE_INSET_RATIO ||
+        markLayer.y < designDoc.height * ICON_SAFE_INSET_RATIO ||
+        markLayer.x + markLayer.w > designDoc.width * (1 - ICON_SAFE_INSET_RATIO) ||
+        markLayer.y + markLayer.h > designDoc.height * (1 - ICON_SAFE_INSET_RATIO))
+  );
+
+  const checks: PodcastLegibilityCheck[] = [];
+  for (const size of params.sizes || [PODCAST_THUMBNAIL_SIZE, PODCAST_LARGE_SIZE]) {
+    const scale = size / Math.max(1, designDoc.width);
+    const renderedHeight = designDoc.height * scale;
+    const measured = await params.measureText(designDoc, size);
+    const issues: PodcastLegibilityIssue[] = [];
+
+    const inkHeights: number[] = [];
+    let textOutsideSafeZone = false;
+    textLayers.forEach((layer, index) => {
+      const bounds = measured[index];
+      if (!bounds) {
+        return;
+      }
+      // Later lines sit whole line advances below the first, so what remains is one line's glyph height.
+      const lineCount = layer.text.split(/\r?\n/).length;
+      inkHeights.push(bounds.height - (lineCount - 1) * layer.fontSize * SVG_LINE_HEIGHT_RATIO * scale);
+      textOutsideSafeZone ||=
+        bounds.left < size * ICON_SAFE_INSET_RATIO ||
+        bounds.top < renderedHeight * ICON_SAFE_INSET_RATIO ||
+        bounds.left + bounds.width > size * (1 - ICON_SAFE_INSET_RATIO) ||
+        bounds.top + bounds.height > renderedHeight * (1 - ICON_SAFE_INSET_RATIO);
+    });
+    const minTextPx = inkHeights.length > 0 ? Math.round(Math.min(...inkHeights) * 10) / 10 : null;
+
+    if (textLayers.length !== inkHeights.length) {
+      issues.push("text_not_rendered");
+    }
+    if (minTextPx !== null && minTextPx < MIN_TEXT_INK_PX) {
+      issues.push("text_below_minimum");
+    }
+    if (textOutsideSafeZone || markOutsideSafeZone) {
+      issues.push("text_outside_safe_zone");
+    }
+    if (params.mark && markLayer && !params.mark.vector && (markLayer.w * scale) / Math.max(1, params.mark.width) > MAX_MARK_UPSCALE) {
+      issues.push("mark_upscaled");
+    }
+    checks.push({
+      size,
+      minTextPx,
+      ok: issues.length === 0,
+      issues
+    });
+  }
+
+  return {
+    ok: checks.every((check) => check.ok),
+    checks
+  };
+}
+
+/**
+ * Picks the richest podcast composition that passes the legibility checks:
+ * mark plus short title, then short title alone, then an even shorter title.
+ * If nothing passes, the last candidate is returned with its failing report.
+ */
+export async function resolvePodcastVariant(params: {
+  seriesTitle: string;
+  backgroundImagePath: string;
+  mark: PodcastMark | null;
+  lockupRecipe: LockupRecipe;
+  fontPairing: FontPairing;
+  palette: LockupTextPalette;
+  measureText: MeasurePodcastText;
+}): Promise<PodcastVariant> {
+  const shortTitle = deriveShortSeriesTitle(params.seriesTitle) || normalizeWhitespace(params.seriesTitle) || "Series";
+  const shorterTitle = deriveShortSeriesTitle(shortTitle, SHORTER_TITLE_MAX_CHARS) || shortTitle;
+  const candidates: Array<{ shortTitle: string; mark: PodcastMark | null }> = [
+    ...(params.mark ? [{ shortTitle, mark: params.mark }] : []),
+    { shortTitle, mark: null },
+    ...(shorterTitle !== shortTitle ? [{ shortTitle: shorterTitle, mark: null }] : [])
+  ];
+
+  let resolved: PodcastVariant | null = null;
+  for (const candidate of candidates) {
+    const designDoc = buildPodcastDesignDoc({
+      backgroundImagePath: params.backgroundImagePath,
+      shortTitle: candidate.shortTitle,
+      mark: candidate.mark,
+      lockupRecipe: params.lockupRecipe,
+      fontPairing: params.fontPairing,
+      palette: params.palette
+    });
+    if (!designDoc) {
+      continue;
+    }
+    resolved = {
+      designDoc,
+      shortTitle: candidate.shortTitle,
+      usesMark: Boolean(candidate.mark),
+      legibility: await evaluatePodcastLegibility({ designDoc, mark: candidate.mark, measureText: params.measureText })
+    };
+    if (resolved.legibility.ok) {
+      break;
+    }
+  }
+
+  if (!resolved) {
+    throw new Error("Podcast variant could not be laid out.");
+  }
+  return resolved;
+}
@@ -480,6 +480,12 @@ export function formatProductionInvalidReason(reason: string): string {
   if (code === "final_design_invalid") {
     return "Stored final design data is invalid";
   }
+  if (code === "generation_quota_exceeded") {
+    return `Monthly generation quota reached (${detail} generations)`;
+  }
+  if (code === "spend_quota_exceeded") {
+    return `Monthly AI spend quota reached (${detail})`;
+  }
   if (
     code === "generation_output_missing" ||
     code === "generation_db_status_failed" ||
@@ -0,0 +1,138 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import {
+  aggregateBenchmarkSet,
+  compareBenchmarkSets,
+  compareBenchmarkSetsByProviderConfig,
+  formatBenchmarkMetric,
+  readBenchmarkRunMetrics,
+  type BenchmarkSetRun,
+} from "./compare";
+
+function summary(overrides: Record<string, unknown> = {}) {
+  return {
+    fixtureId: "fixture-a",
+    slotCount: 10,
+    generatedCount: 10,
+    acceptedCount: 8,
+    hardRejectCount: 2,
+    rejectReasonCounts: { text_artifact_detected: 1, tone_implausible: 1 },
+    compositeScores: { min: 0.6, median: 0.7, max: 0.8 },
+    meanCompositeScore: 0.7,
+    meanLatencyMs: 1000,
+    ...overrides,
+  };
+}
+
+function run(caseKey: string, overrides: Record<string, unknown> = {}): BenchmarkSetRun {
+  return { caseKey, summaryJson: summary({ fixtureId: caseKey, ...overrides }) };
+}
+
+test("readBenchmarkRunMetrics: derives rates from a fixture summary", () => {
+  assert.deepEqual(readBenchmarkRunMetrics(summary()), {
+    passRate: 0.8,
+    meanCompositeScore: 0.7,
+    textArtifactRate: 0.1,
+    toneImplausibleRate: 0.1,
+    meanLatencyMs: 1000,
+  });
+});
+
+test("readBenchmarkRunMetrics: falls back for summaries without accepted count, mean score or latency", () => {
+  const metrics = readBenchmarkRunMetrics(
+    summary({ acceptedCount: undefined, meanCompositeScore: undefined, meanLatencyMs: undefined })
+  );
+  assert.equal(metrics?.passRate, 0.8);
+  assert.equal(metrics?.meanCompositeScore, 0.7);
+  assert.equal(metrics?.meanLatencyMs, null);
+});
+
+test("readBenchmarkRunMetrics: ignores payloads that are not fixture summaries", () => {
+  assert.equal(readBenchmarkRunMetrics(null), null);
+  assert.equal(readBenchmarkRunMetrics([1, 2]), null);
+  assert.equal(readBenchmarkRunMetrics({ passed: true }), null);
+});
+
+test("aggregateBenchmarkSet: averages repeated runs of a fixture", () => {
+  const aggregated = aggregateBenchmarkSet([
+    run("fixture-a", { acceptedCount: 10, meanLatencyMs: 800 }),
+    run("fixture-a", { acceptedCount: 6, meanLatencyMs: null }),
+    { caseKey: "fixture-a", summaryJson: { unrelated: true } },
+  ]);
+  const metrics = aggregated.get("fixture-a");
+  assert.equal(metrics?.runCount, 2);
+  assert.equal(metrics?.passRate, 0.8);
+  assert.equal(metrics?.meanLatencyMs, 800);
+});
+
+test("compareBenchmarkSets: flags only metrics that moved past their threshold in the bad direction", () => {
+  const comparison = compareBenchmarkSets({
+    baseline: [run("fixture-a"), run("fixture-b")],
+    candidate: [
+      run("fixture-a", {
+        acceptedCount: 5,
+        meanCompositeScore: 0.6,
+        rejectReasonCounts: { text_artifact_detected: 4, tone_implausible: 1 },
+        meanLatencyMs: 1600,
+      }),
+      // Improvements and small drops stay unflagged.
+      run("fixture-b", { acceptedCount: 7, meanCompositeScore: 0.68, meanLatencyMs: 700 }),
+    ],
+  });
+
+  assert.deepEqual(comparison.fixtures.find((f) => f.caseKey === "fixture-a")?.regressions, [
+    "passRate",
+    "meanCompositeScore",
+    "textArtifactRate",
+    "meanLatencyMs",
+  ]);
+  assert.deepEqual(comparison.fixtures.find((f) => f.caseKey === "fixture-b")?.regressions, []);
+  assert.deepEqual(comparison.regressedCaseKeys, ["fixture-a"]);
+});
+
+test("compareBenchmarkSets: threshold overrides and unmatched fixtures", () => {
+  const comparison = compareBenchmarkSets({
+    baseline: [run("fixture-a"), run("only-baseline")],
+    candidate: [run("fixture-a", { meanCompositeScore: 0.68 }), run("only-candidate", { acceptedCount: 0 })],
+    thresholds: { compositeScoreDrop: 0.01 },
+  });
+
+  assert.deepEqual(comparison.regressedCaseKeys, ["fixture-a"]);
+  assert.deepEqual(comparison.unmatchedCaseKeys, ["only-baseline", "only-candidate"]);
+  assert.equal(comparison.thresholds.compositeScoreDrop, 0.01);
+  assert.equal(comparison.thresholds.passRateDrop, 0.15);
+});
+
+test("compareBenchmarkSetsByProviderConfig: only compares runs logged under the same provider config", () => {
+  const groups = compareBenchmarkSetsByProviderConfig({
+    baseline: [
+      { ...run("fixture-a"), providerConfigVersion: "providers-v2" },
+      { ...run("fixture-a", { acceptedCount: 10 }), providerConfigVersion: "providers-v1" },
+      run("fixture-b"),
+    ],
+    candidate: [
+      { ...run("fixture-a", { acceptedCount: 7 }), providerConfigVersion: "providers-v2" },
+      // Against the v1 baseline this would be a pass-rate regression.
+      { ...run("fixture-a", { acceptedCount: 7 }), providerConfigVersion: "providers-v3" },
+      run("fixture-b", { acceptedCount: 2 }),
+    ],
+  });
+
+  assert.deepEqual(
+    groups.map((group) => group.providerConfigVersion),
+    ["providers-v1", "providers-v2", "providers-v3", null],
+  );
+  const [v1, v2, v3, unversioned] = groups.map((group) => group.comparison);
+  assert.deepEqual(v1.unmatchedCaseKeys, ["fixture-a"]);
+  assert.deepEqual(v2.regressedCaseKeys, []);
+  assert.equal(v2.fixtures[0].candidate?.passRate, 0.7);
+  assert.deepEqual(v3.unmatchedCaseKeys, ["fixture-a"]);
+  assert.deepEqual(unversioned.regressedCaseKeys, ["fixture-b"]);
+});
+
+test("formatBenchmarkMetric: formats rates, scores and latency", () => {
+  assert.equal(formatBenchmarkMetric("passRate", 0.825), "82.5%");
+  assert.equal(formatBenchmarkMetric("meanCompositeScore", 0.71234), "0.712");
+  assert.equal(formatBenchmarkMetric("meanLatencyMs", 1234.6), "1235ms");
+  assert.equal(formatBenchmarkMetric("meanLatencyMs", null), "—");
+});
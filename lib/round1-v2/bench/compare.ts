@@ -0,0 +1,241 @@
+// Regression comparison between two benchmark sets (typically the BenchmarkRun
+// rows of two code versions). Pure: callers load the rows and pass the
+// summaryJson payloads written by the benchmark runner.
+
+export interface BenchmarkSetRun {
+  caseKey: string;
+  summaryJson: unknown;
+  /** Provider routing/model config the run used; runs under different configs are not comparable. */
+  providerConfigVersion?: string | null;
+}
+
+/** Per-fixture metrics, averaged over every run of the fixture in a set. */
+export interface BenchmarkFixtureMetrics {
+  runCount: number;
+  /** Accepted scouts / planned scouts. Failed generations count as not passed. */
+  passRate: number;
+  meanCompositeScore: number | null;
+  /** Share of generated scouts rejected for baked-in text. */
+  textArtifactRate: number;
+  /** Share of generated scouts rejected as tonally implausible. */
+  toneImplausibleRate: number;
+  meanLatencyMs: number | null;
+}
+
+export type BenchmarkMetricKey = Exclude<keyof BenchmarkFixtureMetrics, "runCount">;
+
+export interface BenchmarkRegressionThresholds {
+  /** Largest tolerated absolute drop in pass rate. */
+  passRateDrop: number;
+  /** Largest tolerated absolute drop in mean composite score. */
+  compositeScoreDrop: number;
+  /** Largest tolerated absolute rise in text-artifact rate. */
+  textArtifactRateRise: number;
+  /** Largest tolerated absolute rise in tone-implausible rate. */
+  toneImplausibleRateRise: number;
+  /** Largest tolerated relative rise in mean latency (0.5 = 50% slower). */
+  latencyRiseRatio: number;
+}
+
+export const DEFAULT_BENCHMARK_REGRESSION_THRESHOLDS: BenchmarkRegressionThresholds = {
+  passRateDrop: 0.15,
+  compositeScoreDrop: 0.05,
+  textArtifactRateRise: 0.1,
+  toneImplausibleRateRise: 0.1,
+  latencyRiseRatio: 0.5,
+};
+
+export const BENCHMARK_METRIC_LABELS: Record<BenchmarkMetricKey, string> = {
+  passRate: "Pass rate",
+  meanCompositeScore: "Mean composite",
+  textArtifactRate: "Text-artifact rate",
+  toneImplausibleRate: "Tone-implausible rate",
+  meanLatencyMs: "Mean latency",
+};
+
+export interface BenchmarkFixtureComparison {
+  caseKey: string;
+  baseline: BenchmarkFixtureMetrics | null;
+  candidate: BenchmarkFixtureMetrics | null;
+  /** Metrics that moved past their threshold in the bad direction. */
+  regressions: BenchmarkMetricKey[];
+}
+
+export interface BenchmarkSetComparison {
+  fixtures: BenchmarkFixtureComparison[];
+  regressedCaseKeys: string[];
+  /** Fixtures present in only one of the two sets; never flagged as regressions. */
+  unmatchedCaseKeys: string[];
+  thresholds: BenchmarkRegressionThresholds;
+}
+
+// ── Summary parsing ───────────────────────────────────────────────────────────
+
+interface RunMetrics {
+  passRate: number;
+  meanCompositeScore: number | null;
+  textArtifactRate: number;
+  toneImplausibleRate: number;
+  meanLatencyMs: number | null;
+}
+
+function readNumber(value: unknown): number | null {
+  return typeof value === "number" && Number.isFinite(value) ? value : null;
+}
+
+/**
+ * Reads the metrics of one BenchmarkRun summaryJson. Returns null for payloads
+ * that are not benchmark fixture summaries. Summaries written before
+ * acceptedCount / meanCompositeScore / meanLatencyMs existed fall back to what
+ * can be derived from the remaining fields.
+ */
+export function readBenchmarkRunMetrics(summaryJson: unknown): RunMetrics | null {
+  if (!summaryJson || typeof summaryJson !== "object" || Array.isArray(summaryJson)) return null;
+  const summary = summaryJson as Record<string, unknown>;
+  const slotCount = readNumber(summary.slotCount);
+  const generatedCount = readNumber(summary.generatedCount);
+  const hardRejectCount = readNumber(summary.hardRejectCount);
+  if (slotCount === null || generatedCount === null || hardRejectCount === null) return null;
+
+  const reasons = (summary.rejectReasonCounts ?? {}) as Record<string, unknown>;
+  const acceptedCount = readNumber(summary.acceptedCount) ?? Math.max(0, slotCount - hardRejectCount);
+  const compositeScores = (summary.compositeScores ?? {}) as Record<string, unknown>;
+  const rate = (count: number | null) => (generatedCount > 0 ? (count ?? 0) / generatedCount : 0);
+
+  return {
+    passRate: slotCount > 0 ? acceptedCount / slotCount : 0,
+    meanCompositeScore: readNumber(summary.meanCompositeScore) ?? readNumber(compositeScores.median),
+    textArtifactRate: rate(readNumber(reasons.text_artifact_detected)),
+    toneImplausibleRate: rate(readNumber(reasons.tone_implausible)),
+    meanLatencyMs: readNumber(summary.meanLatencyMs),
+  };
+}
+
+function meanOf(values: readonly (number | null)[]): number | null {
+  const present = values.filter((value): value is number => value !== null);
+  return present.length === 0 ? null : present.reduce((sum, value) => sum + value, 0) / present.length;
+}
+
+/** Groups runs by fixture and averages their metrics. Unreadable summaries are skipped. */
+export function aggregateBenchmarkSet(runs: readonly BenchmarkSetRun[]): Map<string, BenchmarkFixtureMetrics> {
+  const byCase = new Map<string, RunMetrics[]>();
+  for (const run of runs) {
+    const metrics = readBenchmarkRunMetrics(run.summaryJson);
+    if (!metrics) continue;
+    const list = byCase.get(run.caseKey) ?? [];
+    list.push(metrics);
+    byCase.set(run.caseKey, list);
+  }
+
+  const aggregated = new Map<string, BenchmarkFixtureMetrics>();
+  for (const [caseKey, list] of byCase) {
+    aggregated.set(caseKey, {
+      runCount: list.length,
+      passRate: meanOf(list.map((m) => m.passRate)) ?? 0,
+      meanCompositeScore: meanOf(list.map((m) => m.meanCompositeScore)),
+      textArtifactRate: meanOf(list.map((m) => m.textArtifactRate)) ?? 0,
+      toneImplausibleRate: meanOf(list.map((m) => m.toneImplausibleRate)) ?? 0,
+      meanLatencyMs: meanOf(list.map((m) => m.meanLatencyMs)),
+    });
+  }
+  return aggregated;
+}
+
+// ── Comparison ────────────────────────────────────────────────────────────────
+
+function findRegressions(
+  baseline: BenchmarkFixtureMetrics,
+  candidate: BenchmarkFixtureMetrics,
+  thresholds: BenchmarkRegressionThresholds
+): BenchmarkMetricKey[] {
+  const regressions: BenchmarkMetricKey[] = [];
+  if (baseline.passRate - candidate.passRate > thresholds.passRateDrop) regressions.push("passRate");
+  if (
+    baseline.meanCompositeScore !== null &&
+    candidate.meanCompositeScore !== null &&
+    baseline.meanCompositeScore - candidate.meanCompositeScore > thresholds.compositeScoreDrop
+  ) {
+    regressions.push("meanCompositeScore");
+  }
+  if (candidate.textArtifactRate - baseline.textArtifactRate > thresholds.textArtifactRateRise) {
+    regressions.push("textArtifactRate");
+  }
+  if (candidate.toneImplausibleRate - baseline.toneImplausibleRate > thresholds.toneImplausibleRateRise) {
+    regressions.push("toneImplausibleRate");
+  }
+  if (
+    baseline.meanLatencyMs !== null &&
+    candidate.meanLatencyMs !== null &&
+    baseline.meanLatencyMs > 0 &&
+    candidate.meanLatencyMs / baseline.meanLatencyMs - 1 > thresholds.latencyRiseRatio
+  ) {
+    regressions.push("meanLatencyMs");
+  }
+  return regressions;
+}
+
+export function compareBenchmarkSets(params: {
+  baseline: readonly BenchmarkSetRun[];
+  candidate: readonly BenchmarkSetRun[];
+  thresholds?: Partial<BenchmarkRegressionThresholds>;
+}): BenchmarkSetComparison {
+  const thresholds = { ...DEFAULT_BENCHMARK_REGRESSION_THRESHOLDS, ...params.thresholds };
+  const baseline = aggregateBenchmarkSet(params.baseline);
+  const candidate = aggregateBenchmarkSet(params.candidate);
+  const caseKeys = [...new Set([...baseline.keys(), ...candidate.keys()])].sort();
+
+  const fixtures = caseKeys.map((caseKey): BenchmarkFixtureComparison => {
+    const before = baseline.get(caseKey) ?? null;
+    const after = candidate.get(caseKey) ?? null;
+    return {
+      caseKey,
+      baseline: before,
+      candidate: after,
+      regressions: before && after ? findRegressions(before, after, thresholds) : [],
+    };
+  });
+
+  return {
+    fixtures,
+    regressedCaseKeys: fixtures.filter((f) => f.regressions.length > 0).map((f) => f.caseKey),
+    unmatchedCaseKeys: fixtures.filter((f) => !f.baseline || !f.candidate).map((f) => f.caseKey),
+    thresholds,
+  };
+}
+
+export interface BenchmarkProviderConfigComparison {
+  providerConfigVersion: string | null;
+  comparison: BenchmarkSetComparison;
+}
+
+/**
+ * Compares the two sets separately for each provider config version, so a
+ * model or routing change never reads as a code regression. Groups are sorted
+ * by version with unversioned runs last.
+ */
+export function compareBenchmarkSetsByProviderConfig(params: {
+  baseline: readonly BenchmarkSetRun[];
+  candidate: readonly BenchmarkSetRun[];
+  thresholds?: Partial<BenchmarkRegressionThresholds>;
+}): BenchmarkProviderConfigComparison[] {
+  const versionOf = (run: BenchmarkSetRun) => run.providerConfigVersion ?? null;
+  const versions = [...new Set([...params.baseline, ...params.candidate].map(versionOf))].sort((a, b) =>
+    a === null ? 1 : b === null ? -1 : a.localeCompare(b),
+  );
+
+  return versions.map((providerConfigVersion) => ({
+    providerConfigVersion,
+    comparison: compareBenchmarkSets({
+      baseline: params.baseline.filter((run) => versionOf(run) === providerConfigVersion),
+      candidate: params.candidate.filter((run) => versionOf(run) === providerConfigVersion),
+      thresholds: params.thresholds,
+    }),
+  }));
+}
+
+export function formatBenchmarkMetric(key: BenchmarkMetricKey, value: number | null): string {
+  if (value === null) return "—";
+  if (key === "meanLatencyMs") return `${Math.round(value)}ms`;
+  if (key === "meanCompositeScore") return value.toFixed(3);
+  return `${(value * 100).toFixed(1)}%`;
+}
@@ -0,0 +1,150 @@
+// Static HTML report for offline benchmark runs. Self-contained apart from the
+// thumbnail files the caller writes next to it.
+
+import {
+  summarizeBenchmarkFixture,
+  type BenchmarkFixtureResult,
+  type BenchmarkPackSummary,
+} from "./run-pack";
+
+export interface BenchmarkReportInput {
+  generatedAt: Date;
+  codeVersion: string | null;
+  providerId: string;
+  results: readonly BenchmarkFixtureResult[];
+  summary: BenchmarkPackSummary;
+  /** Relative image path for a scout thumbnail, or null when none was written. */
+  thumbnailSrc: (fixtureId: string, slotIndex: number) => string | null;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function formatScore(value: number | null): string {
+  return value === null ? "—" : value.toFixed(2);
+}
+
+function renderHistogram(title: string, histogram: readonly number[]): string {
+  const max = Math.max(1, ...histogram);
+  const bars = histogram
+    .map((count, index) => {
+      const from = (index / histogram.length).toFixed(1);
+      const heightPct = Math.round((count / max) * 100);
+      return `<div class="bar" title="${from}+: ${count}"><span style="height:${heightPct}%"></span><em>${from}</em></div>`;
+    })
+    .join("");
+  return `<figure class="histogram"><figcaption>${escapeHtml(title)}</figcaption><div class="bars">${bars}</div></figure>`;
+}
+
+function renderCountTable(caption: string, counts: Record<string, number>): string {
+  const rows = Object.entries(counts)
+    .sort(([, a], [, b]) => b - a)
+    .map(([key, count]) => `<tr><td>${escapeHtml(key)}</td><td>${count}</td></tr>`)
+    .join("");
+  return `<table><caption>${escapeHtml(caption)}</caption><tbody>${rows || `<tr><td colspan="2">None</td></tr>`}</tbody></table>`;
+}
+
+function renderFamilyCoverage(coverage: BenchmarkPackSummary["familyCoverage"]): string {
+  const rows = Object.entries(coverage)
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(
+      ([family, entry]) =>
+        `<tr><td>${escapeHtml(family)}</td><td>${entry.planned}</td><td>${entry.accepted}</td><td>${entry.selected}</td></tr>`
+    )
+    .join("");
+  return `<table><caption>Diversity-family coverage</caption><thead><tr><th>Family</th><th>Planned</th><th>Passed eval</th><th>Selected</th></tr></thead><tbody>${rows}</tbody></table>`;
+}
+
+function renderFixture(result: BenchmarkFixtureResult, thumbnailSrc: BenchmarkReportInput["thumbnailSrc"]): string {
+  const summary = summarizeBenchmarkFixture(result);
+  const cards = result.slots
+    .map((slot) => {
+      const src = thumbnailSrc(result.fixture.id, slot.slotIndex);
+      const image = src ? `<img src="${escapeHtml(src)}" alt="" loading="lazy">` : `<div class="missing">no image</div>`;
+      const status =
+        slot.status === "failed"
+          ? `<span class="bad">generation failed: ${escapeHtml(slot.error ?? "unknown")}</span>`
+          : slot.hardReject
+            ? `<span class="bad">${slot.rejectReasons.map(escapeHtml).join(", ")}</span>`
+            : `<span class="ok">passed</span>`;
+      return [
+        `<div class="card${slot.selectedAs ? " selected" : ""}">`,
+        image,
+        `<p><strong>#${slot.slotIndex}</strong> ${escapeHtml(slot.grammarKey)}${slot.selectedAs ? ` · <b>${escapeHtml(slot.selectedAs)}</b>` : ""}</p>`,
+        `<p class="muted">${escapeHtml(slot.diversityFamily)} · ${escapeHtml(slot.tone)}</p>`,
+        `<p class="muted">composite ${formatScore(slot.compositeScore)} · tone ${formatScore(slot.toneScore)} · structure ${formatScore(slot.structureScore)} · margin ${formatScore(slot.marginScore)}</p>`,
+        `<p>${status}</p>`,
+        `</div>`,
+      ].join("");
+    })
+    .join("");
+
+  return [
+    `<section class="fixture" id="${escapeHtml(result.fixture.id)}">`,
+    `<h2>${escapeHtml(result.fixture.label)}</h2>`,
+    `<p class="muted">${escapeHtml(result.fixture.id)} · ${escapeHtml(result.fixture.category)} · ${result.slots.length} scouts · ${summary.hardRejectCount} rejected · ${result.durationMs}ms</p>`,
+    `<p>Selected: ${summary.selected.map((s) => `${escapeHtml(s.label)}=${escapeHtml(s.grammarKey)}`).join(" ") || "none"}${
+      result.shortfall ? ` <span class="bad">shortfall ${result.shortfallCount}</span>` : ""
+    } · families selected ${summary.familyCoverage.selected.length}/${summary.familyCoverage.planned.length}</p>`,
+    `<div class="grid">${cards}</div>`,
+    `</section>`,
+  ].join("");
+}
+
+export function renderBenchmarkReportHtml(input: BenchmarkReportInput): string {
+  const { summary } = input;
+  const fixtureLinks = input.results
+    .map((result) => `<li><a href="#${escapeHtml(result.fixture.id)}">${escapeHtml(result.fixture.label)}</a></li>`)
+    .join("");
+
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Round 1 V2 benchmark — ${escapeHtml(input.generatedAt.toISOString())}</title>
+<style>
+body{font-family:system-ui,sans-serif;margin:24px;color:#0f172a;background:#f8fafc}
+h1{margin:0 0 4px}h2{margin:0 0 4px;font-size:18px}
+.muted{color:#64748b;font-size:12px;margin:2px 0}
+.ok{color:#047857}.bad{color:#be123c}
+.panel{display:flex;flex-wrap:wrap;gap:24px;margin:16px 0}
+table{border-collapse:collapse;font-size:13px;background:#fff}caption{text-align:left;font-weight:600;padding:4px 0}
+td,th{border:1px solid #e2e8f0;padding:4px 8px;text-align:left}
+.histogram{margin:0;background:#fff;border:1px solid #e2e8f0;padding:8px}
+.bars{display:flex;align-items:flex-end;gap:4px;height:120px}
+.bar{display:flex;flex-direction:column;justify-content:flex-end;align-items:center;width:24px;height:100%}
+.bar span{display:block;width:100%;background:#1f4d3a;min-height:1px}.bar em{font-size:10px;font-style:normal;color:#64748b}
+.fixture{margin:32px 0}
+.grid{display:grid;grid-template-columns:repeat(auto-fill,minmax(220px,1fr));gap:12px;margin-top:8px}
+.card{background:#fff;border:1px solid #e2e8f0;border-radius:8px;padding:8px;font-size:13px}
+.card.selected{border:2px solid #1f4d3a}
+.card img,.card .missing{width:100%;aspect-ratio:768/448;object-fit:cover;border-radius:4px;background:#e2e8f0}
+.card .missing{display:flex;align-items:center;justify-content:center;color:#94a3b8}
+.card p{margin:4px 0}
+</style>
+</head>
+<body>
+<h1>Round 1 V2 benchmark</h1>
+<p class="muted">Generated ${escapeHtml(input.generatedAt.toISOString())} · provider ${escapeHtml(input.providerId)} · code ${escapeHtml(input.codeVersion ?? "unknown")}</p>
+<p>${summary.fixtureCount} fixtures · ${summary.slotCount} scouts · ${summary.generatedCount} generated · ${summary.hardRejectCount} hard-rejected · ${summary.shortfallFixtureCount} fixtures with shortfall</p>
+<div class="panel">
+${renderHistogram("Composite score (passed scouts)", summary.compositeHistogram)}
+${renderHistogram("Tone score (passed scouts)", summary.toneScoreHistogram)}
+${renderHistogram("Margin score (passed scouts)", summary.marginScoreHistogram)}
+</div>
+<div class="panel">
+${renderCountTable("Reject reasons", summary.rejectReasonCounts)}
+${renderFamilyCoverage(summary.familyCoverage)}
+</div>
+<ul>${fixtureLinks}</ul>
+${input.results.map((result) => renderFixture(result, input.thumbnailSrc)).join("\n")}
+</body>
+</html>
+`;
+}
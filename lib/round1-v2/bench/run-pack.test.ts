@@ -0,0 +1,163 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import type { ScoutProvider } from "../providers/scout-provider";
+import type { ScoutEvalResult } from "../eval/evaluate-scout";
+import { BENCHMARK_PACK_V1 } from "./pack-v1";
+import {
+  buildScoreHistogram,
+  runBenchmarkFixture,
+  runBenchmarkPack,
+  summarizeBenchmarkFixture,
+  summarizeBenchmarkPack,
+  SCORE_HISTOGRAM_BUCKETS,
+  type ScoutEvalFn,
+} from "./run-pack";
+import { renderBenchmarkReportHtml } from "./report";
+
+const FIXTURE = BENCHMARK_PACK_V1[0];
+
+const stubProvider: ScoutProvider = {
+  id: "test.stub",
+  async generate(req) {
+    return { imageBytes: Buffer.from(`seed-${req.seed}`), latencyMs: 5, providerModel: "stub", seed: req.seed };
+  },
+};
+
+function stubEval(overrides: Partial<ScoutEvalResult> = {}): ScoutEvalResult {
+  return {
+    hardReject: false,
+    rejectReasons: [],
+    toneScore: 0.8,
+    structureScore: 0.6,
+    marginScore: 0.5,
+    compositeScore: 0.65,
+    imageStats: null,
+    textDetected: false,
+    ...overrides,
+  };
+}
+
+// Rejects every even slot for text so reject reasons and selection both have something to count.
+// Eval calls are issued in slot order, so a call counter stands in for the slot index.
+function alternatingEval(): ScoutEvalFn {
+  let slotIndex = 0;
+  return async () => {
+    const index = slotIndex++;
+    return index % 2 === 0
+      ? stubEval({ hardReject: true, rejectReasons: ["text_artifact_detected"], compositeScore: 0, textDetected: true })
+      : stubEval({ compositeScore: 0.5 + index / 100 });
+  };
+}
+
+test("runBenchmarkFixture: plans, evaluates and selects scouts with an injected provider", async () => {
+  const result = await runBenchmarkFixture({
+    fixture: FIXTURE,
+    runSeed: "bench-test",
+    provider: stubProvider,
+    evalFn: alternatingEval(),
+  });
+
+  assert.equal(result.providerId, "test.stub");
+  assert.ok(result.slots.length > 0);
+  assert.ok(result.slots.every((slot) => slot.status === "success"));
+  for (const slot of result.slots) {
+    assert.equal(slot.hardReject, slot.slotIndex % 2 === 0, `slot ${slot.slotIndex}`);
+    if (slot.selectedAs) assert.equal(slot.hardReject, false, "rejected scouts are never selected");
+  }
+  assert.ok(result.slots.some((slot) => slot.selectedAs === "A"));
+});
+
+test("runBenchmarkFixture: failed generations carry no eval reject reasons", async () => {
+  const failingProvider: ScoutProvider = {
+    id: "test.failing",
+    async generate() {
+      throw new Error("provider down");
+    },
+  };
+  const result = await runBenchmarkFixture({ fixture: FIXTURE, runSeed: "bench-fail", provider: failingProvider });
+
+  assert.ok(result.slots.every((slot) => slot.status === "failed" && slot.hardReject));
+  assert.ok(result.slots.every((slot) => slot.rejectReasons.length === 0));
+  assert.equal(result.shortfall, true);
+  assert.deepEqual(summarizeBenchmarkFixture(result).rejectReasonCounts, {});
+});
+
+test("runBenchmarkPack: runs fixtures in order with per-fixture seeds and callbacks", async () => {
+  const completed: string[] = [];
+  const results = await runBenchmarkPack({
+    fixtures: BENCHMARK_PACK_V1.slice(0, 2),
+    runSeedPrefix: "bench-pack",
+    provider: stubProvider,
+    evalFn: async () => stubEval(),
+    onFixtureComplete: async (result) => {
+      completed.push(result.fixture.id);
+    },
+  });
+
+  assert.deepEqual(completed, [BENCHMARK_PACK_V1[0].id, BENCHMARK_PACK_V1[1].id]);
+  assert.equal(results[0].runSeed, `bench-pack-${BENCHMARK_PACK_V1[0].id}`);
+});
+
+test("summaries: count reject reasons, family coverage and accepted-score histograms", async () => {
+  const result = await runBenchmarkFixture({
+    fixture: FIXTURE,
+    runSeed: "bench-summary",
+    provider: stubProvider,
+    evalFn: alternatingEval(),
+  });
+  const fixtureSummary = summarizeBenchmarkFixture(result);
+  const packSummary = summarizeBenchmarkPack([result]);
+  const rejected = result.slots.filter((slot) => slot.hardReject).length;
+
+  assert.equal(fixtureSummary.hardRejectCount, rejected);
+  assert.equal(fixtureSummary.acceptedCount, result.slots.length - rejected);
+  assert.equal(fixtureSummary.meanLatencyMs, 5);
+  assert.ok(fixtureSummary.meanCompositeScore !== null && fixtureSummary.meanCompositeScore > 0.5);
+  assert.deepEqual(fixtureSummary.rejectReasonCounts, { text_artifact_detected: rejected });
+  assert.deepEqual(packSummary.rejectReasonCounts, { text_artifact_detected: rejected });
+  assert.equal(fixtureSummary.selected.length, 3 - result.shortfallCount);
+
+  const planned = Object.values(packSummary.familyCoverage).reduce((sum, entry) => sum + entry.planned, 0);
+  const selected = Object.values(packSummary.familyCoverage).reduce((sum, entry) => sum + entry.selected, 0);
+  assert.equal(planned, result.slots.length);
+  assert.equal(selected, fixtureSummary.selected.length);
+  assert.equal(
+    packSummary.compositeHistogram.reduce((sum, count) => sum + count, 0),
+    result.slots.length - rejected,
+    "histograms only count accepted scouts"
+  );
+  assert.doesNotThrow(() => JSON.stringify(fixtureSummary));
+});
+
+test("buildScoreHistogram: clamps into equal 0–1 buckets with 1.0 in the top bucket", () => {
+  const histogram = buildScoreHistogram([-0.2, 0, 0.05, 0.55, 0.99, 1, 1.4]);
+  assert.equal(histogram.length, SCORE_HISTOGRAM_BUCKETS);
+  assert.equal(histogram[0], 3);
+  assert.equal(histogram[5], 1);
+  assert.equal(histogram[9], 3);
+});
+
+test("renderBenchmarkReportHtml: escapes fixture text and links written thumbnails", async () => {
+  const result = await runBenchmarkFixture({
+    fixture: { ...FIXTURE, label: `<script>alert("x")</script>` },
+    runSeed: "bench-report",
+    provider: stubProvider,
+    evalFn: alternatingEval(),
+  });
+  const html = renderBenchmarkReportHtml({
+    generatedAt: new Date("2026-01-01T00:00:00Z"),
+    codeVersion: "abc123",
+    providerId: result.providerId,
+    results: [result],
+    summary: summarizeBenchmarkPack([result]),
+    thumbnailSrc: (fixtureId, slotIndex) => (slotIndex === 0 ? `thumbs/${fixtureId}-00.jpg` : null),
+  });
+
+  assert.ok(!html.includes("<script>"));
+  assert.ok(html.includes("&lt;script&gt;alert(&quot;x&quot;)&lt;/script&gt;"));
+  assert.ok(html.includes(`src="thumbs/${FIXTURE.id}-00.jpg"`));
+  assert.ok(html.includes("no image"));
+  assert.ok(html.includes("text_artifact_detected"));
+  assert.ok(html.includes("Diversity-family coverage"));
+  assert.ok(html.includes("code abc123"));
+});
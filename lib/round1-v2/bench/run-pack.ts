@@ -0,0 +1,277 @@
+// Offline benchmark runner for Round 1 V2.
+// Runs fixtures through the scout half of the pipeline (plan → scouts → eval →
+// selection) with an injected provider, so the pack can be scored against the
+// local procedural provider without network access or a database.
+
+import type { ScoutProvider } from "../providers/scout-provider";
+import { buildScoutPlan, type ScoutSlot } from "../orchestrator/build-scout-plan";
+import { runScoutBatch } from "../orchestrator/run-scout-batch";
+import { selectScouts } from "../orchestrator/select-scouts";
+import { evaluateScout, type ScoutEvalResult, type ScoutRejectReason } from "../eval/evaluate-scout";
+import { computeScoutDHashes } from "../eval/near-duplicate";
+import { fixtureToScoutPlanInput, type BenchmarkFixture } from "./pack-v1";
+
+// Mirrors the orchestrator's sentinel for scouts whose generation failed.
+const FAILED_GENERATION_EVAL: ScoutEvalResult = {
+  hardReject: true,
+  rejectReasons: ["stats_unavailable"],
+  toneScore: 0,
+  structureScore: 0,
+  marginScore: 0,
+  compositeScore: 0,
+  imageStats: null,
+  textDetected: false,
+};
+
+export const SCORE_HISTOGRAM_BUCKETS = 10;
+
+/** AiRun.featureKey for benchmark runs; comparisons read BenchmarkRun rows under it. */
+export const ROUND1_V2_BENCHMARK_FEATURE_KEY = "round1_v2_benchmark";
+
+export type ScoutEvalFn = (input: { slot: ScoutSlot; imageBytes: Buffer }) => Promise<ScoutEvalResult>;
+
+export interface BenchmarkSlotResult {
+  slotIndex: number;
+  grammarKey: string;
+  diversityFamily: string;
+  tone: string;
+  status: "success" | "failed";
+  error: string | null;
+  latencyMs: number | null;
+  imageBytes: Buffer | null;
+  hardReject: boolean;
+  rejectReasons: ScoutRejectReason[];
+  toneScore: number;
+  structureScore: number;
+  marginScore: number;
+  compositeScore: number;
+  selectedAs: string | null;
+}
+
+export interface BenchmarkFixtureResult {
+  fixture: BenchmarkFixture;
+  runSeed: string;
+  providerId: string;
+  durationMs: number;
+  slots: BenchmarkSlotResult[];
+  shortfall: boolean;
+  shortfallCount: number;
+  distinctFamilyCount: number;
+}
+
+/** JSON-safe per-fixture summary, stored as BenchmarkRun.summaryJson. */
+export interface BenchmarkFixtureSummary {
+  fixtureId: string;
+  runSeed: string;
+  providerId: string;
+  durationMs: number;
+  slotCount: number;
+  generatedCount: number;
+  acceptedCount: number;
+  hardRejectCount: number;
+  selected: Array<{ label: string; slotIndex: number; grammarKey: string; diversityFamily: string; compositeScore: number }>;
+  shortfall: boolean;
+  shortfallCount: number;
+  rejectReasonCounts: Record<string, number>;
+  familyCoverage: { planned: string[]; accepted: string[]; selected: string[] };
+  compositeScores: { min: number | null; median: number | null; max: number | null };
+  /** Mean composite score of accepted scouts. */
+  meanCompositeScore: number | null;
+  /** Mean provider latency of successful scout generations. */
+  meanLatencyMs: number | null;
+}
+
+export interface BenchmarkPackSummary {
+  fixtureCount: number;
+  slotCount: number;
+  generatedCount: number;
+  hardRejectCount: number;
+  shortfallFixtureCount: number;
+  rejectReasonCounts: Record<string, number>;
+  /** Per diversity family: how often it was planned, passed eval and was selected. */
+  familyCoverage: Record<string, { planned: number; accepted: number; selected: number }>;
+  /** Composite scores of accepted scouts, bucketed into SCORE_HISTOGRAM_BUCKETS equal bins over 0–1. */
+  compositeHistogram: number[];
+  toneScoreHistogram: number[];
+  marginScoreHistogram: number[];
+}
+
+export async function runBenchmarkFixture(params: {
+  fixture: BenchmarkFixture;
+  runSeed: string;
+  provider: ScoutProvider;
+  evalFn?: ScoutEvalFn;
+  concurrency?: number;
+}): Promise<BenchmarkFixtureResult> {
+  const started = Date.now();
+  const evalFn = params.evalFn ?? evaluateScout;
+  const plan = buildScoutPlan(fixtureToScoutPlanInput(params.fixture, params.runSeed));
+  const batch = await runScoutBatch(plan, params.provider, { concurrency: params.concurrency });
+  const evals = await Promise.all(
+    batch.results.map((result) =>
+      result.status === "failed" || !result.imageBytes
+        ? Promise.resolve(FAILED_GENERATION_EVAL)
+        : evalFn({ slot: result.slot, imageBytes: result.imageBytes })
+    )
+  );
+  // Within-run near-duplicate rejection applies as in production; there is no
+  // organization history offline, so no recent-background penalty.
+  const selection = selectScouts(plan, batch.results, evals, {
+    scoutHashes: await computeScoutDHashes(batch.results),
+  });
+  const selectedLabelBySlot = new Map(selection.selected.map((s) => [s.slotIndex, s.label]));
+
+  return {
+    fixture: params.fixture,
+    runSeed: params.runSeed,
+    providerId: params.provider.id,
+    durationMs: Date.now() - started,
+    slots: batch.results.map((result, slotIndex) => ({
+      slotIndex,
+      grammarKey: result.slot.grammarKey,
+      diversityFamily: result.slot.diversityFamily,
+      tone: result.slot.tone,
+      status: result.status,
+      error: result.error ?? null,
+      latencyMs: result.latencyMs ?? null,
+      imageBytes: result.imageBytes ?? null,
+      hardReject: evals[slotIndex].hardReject,
+      // Generation failures are counted via status, not as eval reject reasons.
+      rejectReasons: result.status === "failed" ? [] : evals[slotIndex].rejectReasons,
+      toneScore: evals[slotIndex].toneScore,
+      structureScore: evals[slotIndex].structureScore,
+      marginScore: evals[slotIndex].marginScore,
+      compositeScore: evals[slotIndex].compositeScore,
+      selectedAs: selectedLabelBySlot.get(slotIndex) ?? null,
+    })),
+    shortfall: selection.shortfall,
+    shortfallCount: selection.shortfallCount,
+    distinctFamilyCount: plan.distinctFamilyCount,
+  };
+}
+
+/** Runs fixtures sequentially so provider rate limits and memory stay predictable. */
+export async function runBenchmarkPack(params: {
+  fixtures: readonly BenchmarkFixture[];
+  runSeedPrefix: string;
+  provider: ScoutProvider;
+  evalFn?: ScoutEvalFn;
+  onFixtureComplete?: (result: BenchmarkFixtureResult) => Promise<void>;
+}): Promise<BenchmarkFixtureResult[]> {
+  const results: BenchmarkFixtureResult[] = [];
+  for (const fixture of params.fixtures) {
+    const result = await runBenchmarkFixture({
+      fixture,
+      runSeed: `${params.runSeedPrefix}-${fixture.id}`,
+      provider: params.provider,
+      evalFn: params.evalFn,
+    });
+    results.push(result);
+    await params.onFixtureComplete?.(result);
+  }
+  return results;
+}
+
+// ── Summaries ─────────────────────────────────────────────────────────────────
+
+function countRejectReasons(slots: readonly BenchmarkSlotResult[], into: Record<string, number> = {}): Record<string, number> {
+  for (const slot of slots) {
+    for (const reason of slot.rejectReasons) {
+      into[reason] = (into[reason] ?? 0) + 1;
+    }
+  }
+  return into;
+}
+
+function mean(values: readonly number[]): number | null {
+  return values.length === 0 ? null : values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+function median(values: readonly number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+export function buildScoreHistogram(scores: readonly number[], buckets = SCORE_HISTOGRAM_BUCKETS): number[] {
+  const histogram = Array<number>(buckets).fill(0);
+  for (const score of scores) {
+    const clamped = Math.min(1, Math.max(0, score));
+    histogram[Math.min(buckets - 1, Math.floor(clamped * buckets))] += 1;
+  }
+  return histogram;
+}
+
+function uniqueFamilies(slots: readonly BenchmarkSlotResult[]): string[] {
+  return [...new Set(slots.map((slot) => slot.diversityFamily))].sort();
+}
+
+export function summarizeBenchmarkFixture(result: BenchmarkFixtureResult): BenchmarkFixtureSummary {
+  const accepted = result.slots.filter((slot) => slot.status === "success" && !slot.hardReject);
+  const selected = result.slots
+    .filter((slot) => slot.selectedAs !== null)
+    .sort((a, b) => (a.selectedAs ?? "").localeCompare(b.selectedAs ?? ""));
+  const acceptedScores = accepted.map((slot) => slot.compositeScore);
+  const latencies = result.slots.flatMap((slot) =>
+    slot.status === "success" && slot.latencyMs !== null ? [slot.latencyMs] : []
+  );
+
+  return {
+    fixtureId: result.fixture.id,
+    runSeed: result.runSeed,
+    providerId: result.providerId,
+    durationMs: result.durationMs,
+    slotCount: result.slots.length,
+    generatedCount: result.slots.filter((slot) => slot.status === "success").length,
+    acceptedCount: accepted.length,
+    hardRejectCount: result.slots.filter((slot) => slot.hardReject).length,
+    selected: selected.map((slot) => ({
+      label: slot.selectedAs ?? "",
+      slotIndex: slot.slotIndex,
+      grammarKey: slot.grammarKey,
+      diversityFamily: slot.diversityFamily,
+      compositeScore: slot.compositeScore,
+    })),
+    shortfall: result.shortfall,
+    shortfallCount: result.shortfallCount,
+    rejectReasonCounts: countRejectReasons(result.slots),
+    familyCoverage: {
+      planned: uniqueFamilies(result.slots),
+      accepted: uniqueFamilies(accepted),
+      selected: uniqueFamilies(selected),
+    },
+    compositeScores: {
+      min: acceptedScores.length > 0 ? Math.min(...acceptedScores) : null,
+      median: median(acceptedScores),
+      max: acceptedScores.length > 0 ? Math.max(...acceptedScores) : null,
+    },
+    meanCompositeScore: mean(acceptedScores),
+    meanLatencyMs: mean(latencies),
+  };
+}
+
+export function summarizeBenchmarkPack(results: readonly BenchmarkFixtureResult[]): BenchmarkPackSummary {
+  const slots = results.flatMap((result) => result.slots);
+  const accepted = slots.filter((slot) => slot.status === "success" && !slot.hardReject);
+  const familyCoverage: BenchmarkPackSummary["familyCoverage"] = {};
+  for (const slot of slots) {
+    const entry = (familyCoverage[slot.diversityFamily] ??= { planned: 0, accepted: 0, selected: 0 });
+    entry.planned += 1;
+    if (slot.status === "success" && !slot.hardReject) entry.accepted += 1;
+    if (slot.selectedAs !== null) entry.selected += 1;
+  }
+
+  return {
+    fixtureCount: results.length,
+    slotCount: slots.length,
+    generatedCount: slots.filter((slot) => slot.status === "success").length,
+    hardRejectCount: slots.filter((slot) => slot.hardReject).length,
+    shortfallFixtureCount: results.filter((result) => result.shortfall).length,
+    rejectReasonCounts: countRejectReasons(slots),
+    familyCoverage,
+    compositeHistogram: buildScoreHistogram(accepted.map((slot) => slot.compositeScore)),
+    toneScoreHistogram: buildScoreHistogram(accepted.map((slot) => slot.toneScore)),
+    marginScoreHistogram: buildScoreHistogram(accepted.map((slot) => slot.marginScore)),
+  };
+}
@@ -1,5 +1,6 @@
 // Round 1 V2 engine configuration.
-// Phase 1 scope: wide aspect only, 3 non-fallback backgrounds.
+// Scope: 3 non-fallback backgrounds. The wide rebuild is canonical; square and tall
+// are reframed from it per grammar (see orchestrator/aspect-reframe.ts).
 
 export type Round1Engine = "v1" | "v2";
 
@@ -21,11 +22,40 @@ export const ROUND1_V2_CONFIG = {
   // scouts from the already-generated (not-selected) pool before giving up.
   laneBackfillBudget: 2,
 
+  // AI lanes that end without a usable background (scout stage down, no viable
+  // scout, backfill exhausted) render with the deterministic DesignMode renderer
+  // instead of settling FAILED.
+  localRenderFallback: true,
+
+  // Perceptual near-duplicate suppression — dHash Hamming distance (0–64 bits).
+  scoutNearDuplicateMaxDistance: 6,      // at or below → a second scout in the same run is rejected
+  recentBackgroundSimilarDistance: 12,   // at or below → penalized against the org's recent backgrounds
+  recentBackgroundMaxPenalty: 0.15,      // ranking-score penalty at distance 0, easing to 0 at the limit
+  recentBackgroundLookbackDays: 120,
+  recentBackgroundLimit: 36,             // most recent completed options from other projects
+
   // Shadow mode
   shadowSamplingRate: 0.1, // fraction of V1 launches that also run V2 in shadow
 
+  // Provider profiles — ids resolve through providers/registry.ts. Selected per project
+  // (Project.round1ProviderOverride), then ROUND1_V2_PROVIDERS, then the default below.
+  providerProfiles: {
+    fal: {
+      scout: "fal.flux-schnell",
+      rebuildPrimary: "fal.nano-banana-pro",
+      rebuildFallback: "fal.nano-banana",
+    },
+    local: {
+      scout: "local.procedural",
+      rebuildPrimary: "local.procedural",
+      rebuildFallback: "local.procedural",
+    },
+  },
+  defaultProviderProfile: "fal",
+
   // Aspect constraint
-  supportedAspects: ["wide"] as const,
+  supportedAspects: ["wide", "square", "tall"] as const,
 } as const;
 
 export type SupportedAspect = (typeof ROUND1_V2_CONFIG.supportedAspects)[number];
+export type Round1V2ProviderProfile = keyof typeof ROUND1_V2_CONFIG.providerProfiles;
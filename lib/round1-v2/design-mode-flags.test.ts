@@ -0,0 +1,57 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import {
+  EMPTY_DESIGN_MODE_FLAG_SETTINGS,
+  hasDesignModeFlags,
+  isEmptyDesignModeFlagSettings,
+  readDesignModeFlagSettings,
+  resolveDesignModeFlags,
+} from "./design-mode-flags";
+
+test("readDesignModeFlagSettings: drops unknown modes and lanes; excluded wins within a scope", () => {
+  const settings = readDesignModeFlagSettings({
+    enabledModes: ["retro_print", "not_a_mode", "playful_seasonal"],
+    excludedModes: ["playful_seasonal"],
+    forcedLaneModes: { A: "typography_led", B: "nope", D: "minimal_editorial" },
+  });
+  assert.deepEqual(settings, {
+    enabledModes: ["retro_print"],
+    excludedModes: ["playful_seasonal"],
+    forcedLaneModes: { A: "typography_led" },
+  });
+  assert.deepEqual(readDesignModeFlagSettings(null), EMPTY_DESIGN_MODE_FLAG_SETTINGS);
+  assert.ok(isEmptyDesignModeFlagSettings(readDesignModeFlagSettings("garbage")));
+});
+
+test("resolveDesignModeFlags: project settings override the organization's mode by mode and lane by lane", () => {
+  const flags = resolveDesignModeFlags({
+    organization: {
+      enabledModes: ["retro_print", "playful_seasonal"],
+      excludedModes: ["photo_composite"],
+      forcedLaneModes: { A: "typography_led", C: "graphic_symbol" },
+    },
+    project: {
+      enabledModes: ["photo_composite"],
+      excludedModes: ["retro_print"],
+      forcedLaneModes: { C: "minimal_editorial" },
+    },
+  });
+  assert.deepEqual(flags.enabled, [
+    { mode: "photo_composite", scope: "project" },
+    { mode: "playful_seasonal", scope: "organization" },
+  ]);
+  assert.deepEqual(flags.excluded, [{ mode: "retro_print", scope: "project" }]);
+  assert.deepEqual(flags.forcedLanes, [
+    { lane: "A", mode: "typography_led", scope: "organization" },
+    { lane: "C", mode: "minimal_editorial", scope: "project" },
+  ]);
+});
+
+test("hasDesignModeFlags: false without settings", () => {
+  assert.equal(hasDesignModeFlags(resolveDesignModeFlags({})), false);
+  assert.equal(hasDesignModeFlags(null), false);
+  assert.equal(
+    hasDesignModeFlags(resolveDesignModeFlags({ project: { ...EMPTY_DESIGN_MODE_FLAG_SETTINGS, excludedModes: ["retro_print"] } })),
+    true
+  );
+});
@@ -0,0 +1,125 @@
+/**
+ * Per-organization and per-project design-mode feature flags.
+ *
+ * Admins can turn on modes the planner keeps out of the default pool
+ * (playful_seasonal, retro_print), exclude modes, or force a mode onto a lane.
+ * Settings persist as DesignModeFlag rows (one per organization, plus optional
+ * per-project rows); a project row overrides its organization row mode by mode
+ * and lane by lane. planDesignModes consumes the resolved flags and records
+ * how each one was applied.
+ */
+
+import { DESIGN_MODES, isDesignMode, type DesignMode } from "./design-modes";
+
+// ── Public types ──────────────────────────────────────────────────────────────
+
+export type DesignModeLane = "A" | "B" | "C";
+export type DesignModeFlagScope = "organization" | "project";
+
+export const DESIGN_MODE_LANES: readonly DesignModeLane[] = ["A", "B", "C"];
+
+/** One scope's stored settings (a DesignModeFlag row). */
+export interface DesignModeFlagSettings {
+  enabledModes: DesignMode[];
+  excludedModes: DesignMode[];
+  forcedLaneModes: Partial<Record<DesignModeLane, DesignMode>>;
+}
+
+/** Organization and project settings merged, each entry tagged with the scope it came from. */
+export interface ResolvedDesignModeFlags {
+  enabled: Array<{ mode: DesignMode; scope: DesignModeFlagScope }>;
+  excluded: Array<{ mode: DesignMode; scope: DesignModeFlagScope }>;
+  forcedLanes: Array<{ lane: DesignModeLane; mode: DesignMode; scope: DesignModeFlagScope }>;
+}
+
+export const EMPTY_DESIGN_MODE_FLAG_SETTINGS: DesignModeFlagSettings = {
+  enabledModes: [],
+  excludedModes: [],
+  forcedLaneModes: {},
+};
+
+// ── Parsing ───────────────────────────────────────────────────────────────────
+
+function readModeList(value: unknown): DesignMode[] {
+  if (!Array.isArray(value)) return [];
+  // Canonical order keeps stored rows and traces stable regardless of input order.
+  return DESIGN_MODES.filter((mode) => value.includes(mode));
+}
+
+/**
+ * Reads stored settings, dropping unknown modes and lanes. A mode both enabled
+ * and excluded in the same scope counts as excluded.
+ */
+export function readDesignModeFlagSettings(value: unknown): DesignModeFlagSettings {
+  const record = value && typeof value === "object" && !Array.isArray(value) ? (value as Record<string, unknown>) : {};
+  const excludedModes = readModeList(record.excludedModes);
+  const enabledModes = readModeList(record.enabledModes).filter((mode) => !excludedModes.includes(mode));
+
+  const forcedLaneModes: DesignModeFlagSettings["forcedLaneModes"] = {};
+  const forced = record.forcedLaneModes;
+  if (forced && typeof forced === "object" && !Array.isArray(forced)) {
+    for (const lane of DESIGN_MODE_LANES) {
+      const mode = (forced as Record<string, unknown>)[lane];
+      if (isDesignMode(mode)) forcedLaneModes[lane] = mode;
+    }
+  }
+
+  return { enabledModes, excludedModes, forcedLaneModes };
+}
+
+export function isEmptyDesignModeFlagSettings(settings: DesignModeFlagSettings): boolean {
+  return (
+    settings.enabledModes.length === 0 &&
+    settings.excludedModes.length === 0 &&
+    Object.keys(settings.forcedLaneModes).length === 0
+  );
+}
+
+// ── Resolution ────────────────────────────────────────────────────────────────
+
+/**
+ * Merges organization settings with a project's. The project wins wherever the
+ * two disagree: a project-enabled mode is no longer organization-excluded (and
+ * vice versa), and a project-forced lane replaces the organization's.
+ */
+export function resolveDesignModeFlags(params: {
+  organization?: DesignModeFlagSettings | null;
+  project?: DesignModeFlagSettings | null;
+}): ResolvedDesignModeFlags {
+  const enabled = new Map<DesignMode, DesignModeFlagScope>();
+  const excluded = new Map<DesignMode, DesignModeFlagScope>();
+  const forced = new Map<DesignModeLane, { mode: DesignMode; scope: DesignModeFlagScope }>();
+
+  const layers: Array<[DesignModeFlagScope, DesignModeFlagSettings | null | undefined]> = [
+    ["organization", params.organization],
+    ["project", params.project],
+  ];
+  for (const [scope, settings] of layers) {
+    if (!settings) continue;
+    for (const mode of settings.enabledModes) {
+      excluded.delete(mode);
+      enabled.set(mode, scope);
+    }
+    for (const mode of settings.excludedModes) {
+      enabled.delete(mode);
+      excluded.set(mode, scope);
+    }
+    for (const lane of DESIGN_MODE_LANES) {
+      const mode = settings.forcedLaneModes[lane];
+      if (mode) forced.set(lane, { mode, scope });
+    }
+  }
+
+  return {
+    enabled: DESIGN_MODES.flatMap((mode) => (enabled.has(mode) ? [{ mode, scope: enabled.get(mode)! }] : [])),
+    excluded: DESIGN_MODES.flatMap((mode) => (excluded.has(mode) ? [{ mode, scope: excluded.get(mode)! }] : [])),
+    forcedLanes: DESIGN_MODE_LANES.flatMap((lane) => {
+      const entry = forced.get(lane);
+      return entry ? [{ lane, ...entry }] : [];
+    }),
+  };
+}
+
+export function hasDesignModeFlags(flags: ResolvedDesignModeFlags | null | undefined): boolean {
+  return Boolean(flags && (flags.enabled.length > 0 || flags.excluded.length > 0 || flags.forcedLanes.length > 0));
+}
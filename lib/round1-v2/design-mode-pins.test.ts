@@ -0,0 +1,35 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { EMPTY_DESIGN_MODE_FLAG_SETTINGS, resolveDesignModeFlags } from "./design-mode-flags";
+import { getDesignModePinAvailability, MAX_PINNED_DESIGN_MODES, readDesignModePins } from "./design-mode-pins";
+
+test("readDesignModePins keeps known modes in canonical order", () => {
+  assert.deepEqual(readDesignModePins(["modern_abstract", "nope", "typography_led", "modern_abstract"]), [
+    "typography_led",
+    "modern_abstract",
+  ]);
+});
+
+test("readDesignModePins caps pins at one per lane", () => {
+  const pins = readDesignModePins(["retro_print", "playful_seasonal", "photo_composite", "graphic_symbol"]);
+  assert.equal(pins.length, MAX_PINNED_DESIGN_MODES);
+  assert.deepEqual(pins, ["graphic_symbol", "photo_composite", "playful_seasonal"]);
+});
+
+test("readDesignModePins ignores non-array values", () => {
+  assert.deepEqual(readDesignModePins(null), []);
+  assert.deepEqual(readDesignModePins("typography_led"), []);
+  assert.deepEqual(readDesignModePins({ typography_led: true }), []);
+});
+
+test("getDesignModePinAvailability only offers gated modes a flag enables", () => {
+  assert.equal(getDesignModePinAvailability("typography_led", null), "available");
+  assert.equal(getDesignModePinAvailability("retro_print", null), "not_enabled");
+  assert.equal(getDesignModePinAvailability("playful_seasonal", null), "not_enabled");
+
+  const flags = resolveDesignModeFlags({
+    organization: { ...EMPTY_DESIGN_MODE_FLAG_SETTINGS, enabledModes: ["retro_print"], excludedModes: ["typography_led"] },
+  });
+  assert.equal(getDesignModePinAvailability("retro_print", flags), "available");
+  assert.equal(getDesignModePinAvailability("typography_led", flags), "excluded_by_flag");
+});
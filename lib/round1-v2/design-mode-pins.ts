@@ -0,0 +1,35 @@
+/**
+ * User-pinned design modes for a project's Round 1.
+ *
+ * Users pick modes on the project page; they persist on
+ * Project.round1DesignModePins and planDesignModes places them on the open
+ * lanes before filling the rest itself.
+ */
+
+import { DESIGN_MODES, isDefaultEnabledDesignMode, type DesignMode } from "./design-modes";
+import { DESIGN_MODE_LANES, type ResolvedDesignModeFlags } from "./design-mode-flags";
+
+/** One pin per lane at most. */
+export const MAX_PINNED_DESIGN_MODES = DESIGN_MODE_LANES.length;
+
+/**
+ * Reads stored or submitted pins, dropping unknown modes and duplicates.
+ * Canonical order keeps the lane assignment independent of click order.
+ */
+export function readDesignModePins(value: unknown): DesignMode[] {
+  if (!Array.isArray(value)) return [];
+  return DESIGN_MODES.filter((mode) => value.includes(mode)).slice(0, MAX_PINNED_DESIGN_MODES);
+}
+
+/**
+ * Whether users may pin a mode. Gated and experimental modes need a flag to
+ * enable them first, and a flag exclusion rules a mode out either way.
+ */
+export function getDesignModePinAvailability(
+  mode: DesignMode,
+  flags: ResolvedDesignModeFlags | null | undefined,
+): "available" | "excluded_by_flag" | "not_enabled" {
+  if (flags?.excluded.some((entry) => entry.mode === mode)) return "excluded_by_flag";
+  if (isDefaultEnabledDesignMode(mode) || flags?.enabled.some((entry) => entry.mode === mode)) return "available";
+  return "not_enabled";
+}
@@ -0,0 +1,70 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import sharp from "sharp";
+import { evaluateRebuild, isRebuildOnlyRejectReason } from "./evaluate-rebuild";
+import type { ScoutSlot } from "../orchestrator/build-scout-plan";
+import { GRAMMAR_BANK, type TonalVariant } from "../grammars";
+
+// edge_anchored_motif: focal zone on the left 38%, title-safe zone on the right.
+function makeSlot(tone: TonalVariant = "neutral"): ScoutSlot {
+  const grammar = GRAMMAR_BANK.edge_anchored_motif;
+  return {
+    grammarKey: "edge_anchored_motif",
+    diversityFamily: grammar.diversityFamily,
+    tone,
+    motifBinding: ["light"],
+    seed: 7,
+    promptSpec: { template: grammar.rebuildPromptTemplate, motifBinding: ["light"], tone, negativeHints: [] },
+  };
+}
+
+// Vertical stripes on one side of the frame, flat mid-gray on the other.
+async function halfBusyBuffer(busySide: "left" | "right", w = 64, h = 64): Promise<Buffer> {
+  const pixels = Buffer.alloc(w * h * 3);
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      const busy = busySide === "left" ? x < w * 0.4 : x >= w * 0.4;
+      const v = busy ? (Math.floor(x / 2) % 2 === 0 ? 30 : 220) : 120;
+      const i = (y * w + x) * 3;
+      pixels[i] = v; pixels[i + 1] = v; pixels[i + 2] = v;
+    }
+  }
+  return sharp(pixels, { raw: { width: w, height: h, channels: 3 } }).png().toBuffer();
+}
+
+test("a rebuild that follows its grammar passes with a strong grammar score", async () => {
+  const result = await evaluateRebuild({ slot: makeSlot(), imageBytes: await halfBusyBuffer("left") });
+  assert.ok(!result.rejectReasons.includes("title_safe_zone_obstructed"));
+  assert.ok(result.focalScore > 0.8, `expected an occupied focal zone, got ${result.focalScore}`);
+  assert.ok(result.grammarScore > 0.8, `expected strong grammar adherence, got ${result.grammarScore}`);
+  const grammar = GRAMMAR_BANK.edge_anchored_motif;
+  assert.equal(result.imageStats?.zones.length, grammar.titleSafeZones.length + grammar.focalZones.length);
+});
+
+test("a rebuild whose title-safe zone is busy is hard-rejected", async () => {
+  const result = await evaluateRebuild({ slot: makeSlot(), imageBytes: await halfBusyBuffer("right") });
+  assert.equal(result.hardReject, true);
+  assert.ok(result.rejectReasons.includes("title_safe_zone_obstructed"), result.rejectReasons.join(", "));
+  assert.equal(result.compositeScore, 0);
+});
+
+test("rebuilds are held to the scout tone thresholds", async () => {
+  const dark = await sharp({ create: { width: 64, height: 64, channels: 3, background: { r: 25, g: 25, b: 25 } } })
+    .png()
+    .toBuffer();
+  const result = await evaluateRebuild({ slot: makeSlot("light"), imageBytes: dark });
+  assert.equal(result.hardReject, true);
+  assert.ok(result.rejectReasons.includes("tone_implausible"));
+});
+
+test("unreadable rebuild bytes are rejected without rebuild-only reasons", async () => {
+  const result = await evaluateRebuild({ slot: makeSlot(), imageBytes: Buffer.from("not-an-image") });
+  assert.equal(result.hardReject, true);
+  assert.deepEqual(result.rejectReasons, ["stats_unavailable"]);
+  assert.equal(result.grammarScore, 0);
+});
+
+test("only rebuild-stage reasons are classified as rebuild-only", () => {
+  assert.equal(isRebuildOnlyRejectReason("title_safe_zone_obstructed"), true);
+  assert.equal(isRebuildOnlyRejectReason("text_artifact_detected"), false);
+});
@@ -0,0 +1,92 @@
+import type { ScoutSlot } from "../orchestrator/build-scout-plan";
+import { GRAMMAR_BANK } from "../grammars";
+import { computeScoutImageStats, detectTextArtifact, type ScoutZoneStats } from "./image-stats";
+import { scoreScoutImage, type ScoutEvalResult, type ScoutRejectReason } from "./evaluate-scout";
+
+// ── Thresholds ───────────────────────────────────────────────────────────────
+
+// Below this the calmest title-safe zone is too busy to carry a lockup; the
+// rebuild is rejected so lane backfill can try the next scout.
+const REBUILD_MIN_MARGIN_SCORE = 0.2;
+
+// Focal-zone occupancy — at or above these a focal zone reads as fully occupied.
+const FOCAL_FULL_EDGE_DENSITY = 0.03;
+const FOCAL_FULL_SALIENCY = 0.15;
+
+// ── Public types ─────────────────────────────────────────────────────────────
+
+/** Reject reasons only the rebuild stage raises, on top of the shared scout reasons. */
+export const REBUILD_ONLY_REJECT_REASONS = ["title_safe_zone_obstructed"] as const;
+export type RebuildOnlyRejectReason = (typeof REBUILD_ONLY_REJECT_REASONS)[number];
+export type RebuildRejectReason = ScoutRejectReason | RebuildOnlyRejectReason;
+
+export interface RebuildEvalResult extends Omit<ScoutEvalResult, "rejectReasons"> {
+  rejectReasons: RebuildRejectReason[];
+  // Soft scores — 0 (worst) to 1 (best)
+  focalScore: number;   // grammar focal zones carry the subject (1 when the grammar has none)
+  grammarScore: number; // calm title-safe zone + occupied focal zone
+}
+
+export interface RebuildEvalInput {
+  slot: ScoutSlot;
+  imageBytes: Buffer;
+}
+
+export function isRebuildOnlyRejectReason(reason: string): reason is RebuildOnlyRejectReason {
+  return (REBUILD_ONLY_REJECT_REASONS as readonly string[]).includes(reason);
+}
+
+// ── Scoring helpers ───────────────────────────────────────────────────────────
+
+function scoreFocalOccupancy(zone: ScoutZoneStats): number {
+  const edge = Math.min(1, zone.edgeDensity / FOCAL_FULL_EDGE_DENSITY);
+  const saliency = Math.min(1, zone.saliency / FOCAL_FULL_SALIENCY);
+  return (edge + saliency) / 2;
+}
+
+// ── Main evaluator ────────────────────────────────────────────────────────────
+
+/**
+ * Evaluates a rebuilt background against the grammar and tone of the scout it
+ * was rebuilt from. Runs the full scout evaluation, then checks grammar
+ * adherence: the subject should sit in a focal zone and a title-safe zone
+ * should stay calm enough for the lockup.
+ */
+export async function evaluateRebuild(input: RebuildEvalInput): Promise<RebuildEvalResult> {
+  const grammar = GRAMMAR_BANK[input.slot.grammarKey];
+  const titleSafeZones = grammar?.titleSafeZones ?? [];
+  const focalZones = grammar?.focalZones ?? [];
+
+  const [imageStats, textDetected] = await Promise.all([
+    computeScoutImageStats(input.imageBytes, { zones: [...titleSafeZones, ...focalZones] }),
+    detectTextArtifact(input.imageBytes),
+  ]);
+
+  // Margin scoring reads every sampled zone, so hand it the title-safe zones only.
+  const titleSafeStats = imageStats ? { ...imageStats, zones: imageStats.zones.slice(0, titleSafeZones.length) } : null;
+  const base = scoreScoutImage({ slot: input.slot, imageStats: titleSafeStats, textDetected });
+  const focalStats = imageStats ? imageStats.zones.slice(titleSafeZones.length).filter((zone) => zone.sampleCount > 0) : [];
+
+  const rejectReasons: RebuildRejectReason[] = [...base.rejectReasons];
+  if (imageStats && titleSafeZones.length > 0 && base.marginScore < REBUILD_MIN_MARGIN_SCORE) {
+    rejectReasons.push("title_safe_zone_obstructed");
+  }
+
+  const focalScore = !imageStats ? 0 : focalStats.length === 0 ? 1 : Math.max(...focalStats.map(scoreFocalOccupancy));
+  const grammarScore = focalZones.length > 0 ? (base.marginScore + focalScore) / 2 : base.marginScore;
+  const hardReject = rejectReasons.length > 0;
+  const compositeScore = hardReject
+    ? 0
+    : Math.min(1, base.toneScore * 0.4 + base.structureScore * 0.25 + grammarScore * 0.35);
+
+  return {
+    ...base,
+    hardReject,
+    rejectReasons,
+    focalScore,
+    grammarScore,
+    compositeScore,
+    // Persist every sampled zone (title-safe first, then focal) for benchmark reports.
+    imageStats,
+  };
+}
@@ -29,6 +29,20 @@ async function gradientBuffer(w = 64, h = 64): Promise<Buffer> {
   return sharp(pixels, { raw: { width: w, height: h, channels: 3 } }).png().toBuffer();
 }
 
+// Vertical stripes on one side of the frame, flat mid-gray on the other.
+async function halfBusyBuffer(busySide: "left" | "right", w = 64, h = 64): Promise<Buffer> {
+  const pixels = Buffer.alloc(w * h * 3);
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      const busy = busySide === "left" ? x < w * 0.4 : x >= w * 0.4;
+      const v = busy ? (Math.floor(x / 2) % 2 === 0 ? 30 : 220) : 120;
+      const i = (y * w + x) * 3;
+      pixels[i] = v; pixels[i + 1] = v; pixels[i + 2] = v;
+    }
+  }
+  return sharp(pixels, { raw: { width: w, height: h, channels: 3 } }).png().toBuffer();
+}
+
 function makeSlot(grammarKey: keyof typeof GRAMMAR_BANK, tone: import("../grammars").TonalVariant): ScoutSlot {
   const grammar = GRAMMAR_BANK[grammarKey];
   return {
@@ -91,6 +105,30 @@ test("computeScoutImageStats returns null for invalid bytes", async () => {
   assert.equal(stats, null);
 });
 
+test("computeScoutImageStats samples each requested zone separately", async () => {
+  const img = await halfBusyBuffer("left");
+  const stats = await computeScoutImageStats(img, {
+    zones: [
+      { x: 0, y: 0, w: 0.35, h: 1 },
+      { x: 0.45, y: 0, w: 0.55, h: 1 },
+    ],
+  });
+  assert.ok(stats);
+  assert.equal(stats.zones.length, 2);
+  const [busy, calm] = stats.zones;
+  assert.ok(busy.edgeDensity > 0.3, `expected a busy left zone, got ${busy.edgeDensity}`);
+  assert.ok(busy.luminanceStdDev > 50, `expected high variance in the busy zone, got ${busy.luminanceStdDev}`);
+  assert.ok(calm.edgeDensity < 0.01, `expected a calm right zone, got ${calm.edgeDensity}`);
+  assert.ok(calm.luminanceStdDev < 5, `expected flat luminance in the calm zone, got ${calm.luminanceStdDev}`);
+  assert.ok(calm.saliency < busy.saliency, "busy zone should be more salient than the calm zone");
+});
+
+test("computeScoutImageStats returns no zone stats when no zones are requested", async () => {
+  const stats = await computeScoutImageStats(await gradientBuffer());
+  assert.ok(stats);
+  assert.deepEqual(stats.zones, []);
+});
+
 // ── detectTextArtifact ────────────────────────────────────────────────────────
 
 test("detectTextArtifact returns false for solid color image (no text)", async () => {
@@ -181,3 +219,13 @@ test("eval result always has required fields", async () => {
   assert.ok(typeof result.compositeScore === "number");
   assert.ok(result.compositeScore >= 0 && result.compositeScore <= 1, `score out of range: ${result.compositeScore}`);
 });
+
+test("marginScore rewards a calm title-safe zone and penalises a busy one", async () => {
+  // edge_anchored_motif keeps its lockup zone on the right of the frame.
+  const slot = makeSlot("edge_anchored_motif", "neutral");
+  const calmTitleZone = await evaluateScout({ slot, imageBytes: await halfBusyBuffer("left") });
+  const busyTitleZone = await evaluateScout({ slot, imageBytes: await halfBusyBuffer("right") });
+  assert.ok(calmTitleZone.marginScore > 0.8, `expected a calm title zone, got ${calmTitleZone.marginScore}`);
+  assert.ok(busyTitleZone.marginScore < 0.3, `expected a busy title zone, got ${busyTitleZone.marginScore}`);
+  assert.equal(calmTitleZone.imageStats?.zones.length, GRAMMAR_BANK.edge_anchored_motif.titleSafeZones.length);
+});
@@ -1,6 +1,11 @@
 import type { ScoutSlot } from "../orchestrator/build-scout-plan";
-import type { TonalVariant } from "../grammars";
-import { computeScoutImageStats, detectTextArtifact, type ScoutImageStats } from "./image-stats";
+import { GRAMMAR_BANK, type TonalVariant } from "../grammars";
+import {
+  computeScoutImageStats,
+  detectTextArtifact,
+  type ScoutImageStats,
+  type ScoutZoneStats,
+} from "./image-stats";
 
 // ── Thresholds (explicit, centralised, calibrated to match V1) ───────────────
 
@@ -18,6 +23,19 @@ const DARK_MONO_MIN_LUMINANCE = 30;
 const MONO_MAX_SATURATION = 30;
 const MONO_MAX_LUMINANCE = 125;
 
+// Title-safe zone calmness — values at or above these read as fully busy.
+const ZONE_BUSY_EDGE_DENSITY = 0.08;
+const ZONE_BUSY_LUMINANCE_STD_DEV = 60;
+const ZONE_BUSY_SALIENCY = 0.3;
+
+// Hand-set composite weights. A fitted scout-ranking weight file (see
+// scout-ranking.ts) replaces these for selection when one is available.
+export const SCOUT_COMPOSITE_WEIGHTS = {
+  toneScore: 0.5,
+  structureScore: 0.35,
+  marginScore: 0.15,
+} as const;
+
 // ── Public types ─────────────────────────────────────────────────────────────
 
 export type ScoutRejectReason =
@@ -33,7 +51,7 @@ export interface ScoutEvalResult {
   // Soft scores — 0 (worst) to 1 (best)
   toneScore: number;
   structureScore: number; // design presence strength
-  marginScore: number;    // title-safe region clarity (phase 1: proxy via edge density)
+  marginScore: number;    // calmness of the grammar's best title-safe zone
   compositeScore: number; // weighted final score
   // Raw measurements for debug / benchmark reports
   imageStats: ScoutImageStats | null;
@@ -92,10 +110,8 @@ function scoreStructure(stats: ScoutImageStats): { score: number; scaffoldCollap
   return { score: (stdDevScore + edgeScore) / 2, scaffoldCollapse: false, designAbsent: false };
 }
 
-// Phase-1 proxy: clarity of the "central" region (grammar titleSafeZones are not
-// pixel-sampled yet). Use inverted edge density — lower edge = cleaner region.
-// Real per-bbox sampling arrives when rebuild eval needs it.
-function scoreMargin(stats: ScoutImageStats): number {
+// Whole-image proxy, used only when the grammar declares no title-safe zones.
+function scoreWholeImageMargin(stats: ScoutImageStats): number {
   // We want title-safe regions to be visually calm — not completely empty, but
   // not over-busy either. Score is highest in the low-to-mid edge density range.
   const edge = stats.edgeDensity;
@@ -105,14 +121,34 @@ function scoreMargin(stats: ScoutImageStats): number {
   return Math.max(0, 1 - edge * 10);     // increasingly busy — lower margin safety
 }
 
-// ── Main evaluator ────────────────────────────────────────────────────────────
+// A flat zone is ideal for a lockup (design presence is judged image-wide by
+// scoreStructure), so calmness falls off with edges, contrast and salient detail.
+function scoreZoneCalmness(zone: ScoutZoneStats): number {
+  const edgeCalm = 1 - Math.min(1, zone.edgeDensity / ZONE_BUSY_EDGE_DENSITY);
+  const varianceCalm = 1 - Math.min(1, zone.luminanceStdDev / ZONE_BUSY_LUMINANCE_STD_DEV);
+  const saliencyCalm = 1 - Math.min(1, zone.saliency / ZONE_BUSY_SALIENCY);
+  return edgeCalm * 0.45 + varianceCalm * 0.3 + saliencyCalm * 0.25;
+}
 
-export async function evaluateScout(input: ScoutEvalInput): Promise<ScoutEvalResult> {
-  const [imageStats, textDetected] = await Promise.all([
-    computeScoutImageStats(input.imageBytes),
-    detectTextArtifact(input.imageBytes),
-  ]);
+// The lockup is placed in the best title-safe zone, so the calmest zone decides the score.
+function scoreMargin(stats: ScoutImageStats): number {
+  const sampled = stats.zones.filter((zone) => zone.sampleCount > 0);
+  if (sampled.length === 0) return scoreWholeImageMargin(stats);
+  return Math.max(...sampled.map(scoreZoneCalmness));
+}
 
+// ── Main evaluator ────────────────────────────────────────────────────────────
+
+/**
+ * Scores already-measured stats against the slot's tone. Shared with the rebuild
+ * evaluator so final images are held to the same thresholds as their scouts.
+ */
+export function scoreScoutImage(params: {
+  slot: ScoutSlot;
+  imageStats: ScoutImageStats | null;
+  textDetected: boolean;
+}): ScoutEvalResult {
+  const { imageStats, textDetected } = params;
   const rejectReasons: ScoutRejectReason[] = [];
 
   if (textDetected) rejectReasons.push("text_artifact_detected");
@@ -131,7 +167,7 @@ export async function evaluateScout(input: ScoutEvalInput): Promise<ScoutEvalRes
     };
   }
 
-  const toneResult = scoreTone(input.slot.tone, imageStats);
+  const toneResult = scoreTone(params.slot.tone, imageStats);
   if (toneResult.fail) rejectReasons.push("tone_implausible");
 
   const structureResult = scoreStructure(imageStats);
@@ -144,7 +180,12 @@ export async function evaluateScout(input: ScoutEvalInput): Promise<ScoutEvalRes
   const marginScore = scoreMargin(imageStats);
   const compositeScore = hardReject
     ? 0
-    : Math.min(1, toneScore * 0.5 + structureScore * 0.35 + marginScore * 0.15);
+    : Math.min(
+        1,
+        toneScore * SCOUT_COMPOSITE_WEIGHTS.toneScore +
+          structureScore * SCOUT_COMPOSITE_WEIGHTS.structureScore +
+          marginScore * SCOUT_COMPOSITE_WEIGHTS.marginScore
+      );
 
   return {
     hardReject,
@@ -157,3 +198,14 @@ export async function evaluateScout(input: ScoutEvalInput): Promise<ScoutEvalRes
     textDetected,
   };
 }
+
+export async function evaluateScout(input: ScoutEvalInput): Promise<ScoutEvalResult> {
+  const [imageStats, textDetected] = await Promise.all([
+    computeScoutImageStats(input.imageBytes, {
+      zones: GRAMMAR_BANK[input.slot.grammarKey]?.titleSafeZones ?? [],
+    }),
+    detectTextArtifact(input.imageBytes),
+  ]);
+
+  return scoreScoutImage({ slot: input.slot, imageStats, textDetected });
+}
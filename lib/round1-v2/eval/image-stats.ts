@@ -1,4 +1,5 @@
 import sharp from "sharp";
+import type { Bbox } from "../grammars";
 
 // Sample size for pixel analysis — matches V1 for calibration consistency.
 const SAMPLE_SIZE = 64;
@@ -6,6 +7,20 @@ const SAMPLE_SIZE = 64;
 // Sobel-like gradient threshold — matches V1.
 const EDGE_MAGNITUDE_THRESHOLD = 68;
 
+// Centre-surround saliency: a pixel is salient when it differs from the mean of its
+// (2r+1)² neighbourhood by at least the delta. Radius is in sample pixels (64-px grid).
+const SALIENCY_SURROUND_RADIUS = 4;
+const SALIENCY_LUMINANCE_DELTA = 24;
+
+export interface ScoutZoneStats {
+  zone: Bbox;
+  sampleCount: number;
+  meanLuminance: number;
+  luminanceStdDev: number;
+  edgeDensity: number;  // same threshold as the whole-image edge density
+  saliency: number;     // 0–1 fraction of zone pixels that stand out from their surround
+}
+
 export interface ScoutImageStats {
   sampleCount: number;
   meanLuminance: number;    // 0–255
@@ -13,6 +28,12 @@ export interface ScoutImageStats {
   sepiaLikelihood: number; // 0–1
   luminanceStdDev: number;
   edgeDensity: number;     // fraction of edge-sample pixels above gradient threshold
+  // One entry per requested zone (the grammar's titleSafeZones), in request order.
+  zones: ScoutZoneStats[];
+}
+
+export interface ScoutImageStatsOptions {
+  zones?: readonly Bbox[];
 }
 
 function rgbToHSV(r: number, g: number, b: number): { hue: number; saturation: number } {
@@ -30,7 +51,99 @@ function rgbToHSV(r: number, g: number, b: number): { hue: number; saturation: n
   return { hue, saturation };
 }
 
-export async function computeScoutImageStats(imageBytes: Buffer): Promise<ScoutImageStats | null> {
+function isEdgePixel(lum: Float32Array, opaque: Uint8Array, w: number, h: number, x: number, y: number): boolean | null {
+  if (x < 1 || y < 1 || x >= w - 1 || y >= h - 1) return null;
+  const i = y * w + x;
+  if (!opaque[i] || !opaque[i - 1] || !opaque[i + 1] || !opaque[i - w] || !opaque[i + w]) return null;
+  const gx = Math.abs(lum[i + 1] - lum[i - 1]);
+  const gy = Math.abs(lum[i + w] - lum[i - w]);
+  return gx + gy >= EDGE_MAGNITUDE_THRESHOLD;
+}
+
+// Box-filtered luminance via a summed-area table; opaque pixels only.
+function computeSurroundMeans(lum: Float32Array, opaque: Uint8Array, w: number, h: number): Float32Array {
+  const sums = new Float64Array((w + 1) * (h + 1));
+  const counts = new Uint32Array((w + 1) * (h + 1));
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      const i = y * w + x;
+      const si = (y + 1) * (w + 1) + (x + 1);
+      sums[si] = (opaque[i] ? lum[i] : 0) + sums[si - 1] + sums[si - (w + 1)] - sums[si - (w + 1) - 1];
+      counts[si] = opaque[i] + counts[si - 1] + counts[si - (w + 1)] - counts[si - (w + 1) - 1];
+    }
+  }
+
+  const means = new Float32Array(w * h);
+  const r = SALIENCY_SURROUND_RADIUS;
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      const x0 = Math.max(0, x - r), x1 = Math.min(w, x + r + 1);
+      const y0 = Math.max(0, y - r), y1 = Math.min(h, y + r + 1);
+      const a = y0 * (w + 1) + x0, b = y0 * (w + 1) + x1;
+      const c = y1 * (w + 1) + x0, d = y1 * (w + 1) + x1;
+      const count = counts[d] - counts[b] - counts[c] + counts[a];
+      means[y * w + x] = count > 0 ? (sums[d] - sums[b] - sums[c] + sums[a]) / count : lum[y * w + x];
+    }
+  }
+  return means;
+}
+
+function computeZoneStats(
+  zone: Bbox,
+  lum: Float32Array,
+  opaque: Uint8Array,
+  surround: Float32Array,
+  w: number,
+  h: number
+): ScoutZoneStats {
+  const x0 = Math.max(0, Math.floor(zone.x * w));
+  const y0 = Math.max(0, Math.floor(zone.y * h));
+  const x1 = Math.min(w, Math.max(x0 + 1, Math.ceil((zone.x + zone.w) * w)));
+  const y1 = Math.min(h, Math.max(y0 + 1, Math.ceil((zone.y + zone.h) * h)));
+
+  let sampleCount = 0, lumSum = 0, salientCount = 0;
+  for (let y = y0; y < y1; y++) {
+    for (let x = x0; x < x1; x++) {
+      const i = y * w + x;
+      if (!opaque[i]) continue;
+      sampleCount++;
+      lumSum += lum[i];
+      if (Math.abs(lum[i] - surround[i]) >= SALIENCY_LUMINANCE_DELTA) salientCount++;
+    }
+  }
+  if (sampleCount === 0) {
+    return { zone, sampleCount: 0, meanLuminance: 0, luminanceStdDev: 0, edgeDensity: 0, saliency: 0 };
+  }
+
+  const meanLuminance = lumSum / sampleCount;
+  let varSum = 0, edgeCount = 0, edgeSamples = 0;
+  for (let y = y0; y < y1; y++) {
+    for (let x = x0; x < x1; x++) {
+      const i = y * w + x;
+      if (!opaque[i]) continue;
+      const d = lum[i] - meanLuminance;
+      varSum += d * d;
+      const edge = isEdgePixel(lum, opaque, w, h, x, y);
+      if (edge === null) continue;
+      edgeSamples++;
+      if (edge) edgeCount++;
+    }
+  }
+
+  return {
+    zone,
+    sampleCount,
+    meanLuminance,
+    luminanceStdDev: Math.sqrt(varSum / sampleCount),
+    edgeDensity: edgeSamples > 0 ? edgeCount / edgeSamples : 0,
+    saliency: salientCount / sampleCount,
+  };
+}
+
+export async function computeScoutImageStats(
+  imageBytes: Buffer,
+  options: ScoutImageStatsOptions = {}
+): Promise<ScoutImageStats | null> {
   try {
     const { data, info } = await sharp(imageBytes, { failOn: "none" })
       .resize({ width: SAMPLE_SIZE, height: SAMPLE_SIZE, fit: "fill" })
@@ -78,15 +191,19 @@ export async function computeScoutImageStats(imageBytes: Buffer): Promise<ScoutI
     let edgeCount = 0, edgeSamples = 0;
     for (let y = 1; y < h - 1; y++) {
       for (let x = 1; x < w - 1; x++) {
-        const i = y * w + x;
-        if (!opaque[i] || !opaque[i - 1] || !opaque[i + 1] || !opaque[i - w] || !opaque[i + w]) continue;
+        const edge = isEdgePixel(lum, opaque, w, h, x, y);
+        if (edge === null) continue;
         edgeSamples++;
-        const gx = Math.abs(lum[i + 1] - lum[i - 1]);
-        const gy = Math.abs(lum[i + w] - lum[i - w]);
-        if (gx + gy >= EDGE_MAGNITUDE_THRESHOLD) edgeCount++;
+        if (edge) edgeCount++;
       }
     }
 
+    const requestedZones = options.zones ?? [];
+    const surround = requestedZones.length > 0 ? computeSurroundMeans(lum, opaque, w, h) : null;
+    const zones = surround
+      ? requestedZones.map((zone) => computeZoneStats(zone, lum, opaque, surround, w, h))
+      : [];
+
     return {
       sampleCount,
       meanLuminance,
@@ -94,6 +211,7 @@ export async function computeScoutImageStats(imageBytes: Buffer): Promise<ScoutI
       sepiaLikelihood: sepiaCount / sampleCount,
       luminanceStdDev,
       edgeDensity: edgeSamples > 0 ? edgeCount / edgeSamples : 0,
+      zones,
     };
   } catch {
     return null;
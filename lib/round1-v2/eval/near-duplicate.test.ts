@@ -0,0 +1,67 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import sharp from "sharp";
+import {
+  closestHashDistance,
+  computeScoutDHashes,
+  findNearDuplicate,
+  readBackgroundDHash,
+  scoreRecentSimilarity,
+} from "./near-duplicate";
+import type { ScoutGenerationResult } from "../orchestrator/run-scout-batch";
+import type { ScoutSlot } from "../orchestrator/build-scout-plan";
+
+async function horizontalGradient(reverse: boolean, brightness = 0): Promise<Buffer> {
+  const w = 90;
+  const h = 80;
+  const pixels = Buffer.alloc(w * h * 3);
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      const v = Math.min(255, Math.round(((reverse ? w - x : x) / w) * 200) + brightness);
+      pixels.fill(v, (y * w + x) * 3, (y * w + x) * 3 + 3);
+    }
+  }
+  return sharp(pixels, { raw: { width: w, height: h, channels: 3 } }).png().toBuffer();
+}
+
+const slot = {} as ScoutSlot;
+
+test("computeScoutDHashes: matches look-alikes, separates different images, skips failed scouts", async () => {
+  const results: ScoutGenerationResult[] = [
+    { slot, prompt: "p", status: "success", imageBytes: await horizontalGradient(false) },
+    { slot, prompt: "p", status: "success", imageBytes: await horizontalGradient(false, 30) },
+    { slot, prompt: "p", status: "success", imageBytes: await horizontalGradient(true) },
+    { slot, prompt: "p", status: "failed", error: "boom" },
+  ];
+  const [a, brighter, mirrored, failed] = await computeScoutDHashes(results);
+  assert.ok(a && brighter && mirrored);
+  assert.ok(closestHashDistance(a, [brighter])! <= 6);
+  assert.ok(closestHashDistance(a, [mirrored])! > 32);
+  assert.equal(failed, null);
+});
+
+test("findNearDuplicate: returns the first key within the distance; missing hashes never match", () => {
+  const others = [
+    { key: 4, hash: "ffffffffffffffff" },
+    { key: 7, hash: "000000000000000f" },
+    { key: 9, hash: null },
+  ];
+  assert.equal(findNearDuplicate("0000000000000000", others), 7);
+  assert.equal(findNearDuplicate("0000000000000000", others, 3), null);
+  assert.equal(findNearDuplicate(null, others), null);
+});
+
+test("scoreRecentSimilarity: penalty eases from max at distance 0 to none past the limit", () => {
+  assert.deepEqual(scoreRecentSimilarity("0000000000000000", []), { distance: null, penalty: 0 });
+  assert.equal(scoreRecentSimilarity("0000000000000000", ["0000000000000000"]).penalty, 0.15);
+  const near = scoreRecentSimilarity("0000000000000000", ["000000000000000f", "ffffffffffffffff"]);
+  assert.equal(near.distance, 4);
+  assert.ok(near.penalty > 0 && near.penalty < 0.15);
+  assert.deepEqual(scoreRecentSimilarity("0000000000000000", ["00000000000fffff"]), { distance: 20, penalty: 0 });
+});
+
+test("readBackgroundDHash: reads the hash recorded on a completed V2 output", () => {
+  assert.equal(readBackgroundDHash({ meta: { debug: { backgroundDHash: "00ff00ff00ff00ff" } } }), "00ff00ff00ff00ff");
+  assert.equal(readBackgroundDHash({ meta: { debug: { backgroundDHash: "nope" } } }), null);
+  assert.equal(readBackgroundDHash(null), null);
+});
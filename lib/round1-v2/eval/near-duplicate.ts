@@ -0,0 +1,77 @@
+// Perceptual near-duplicate checks for Round 1 V2 scouts.
+//
+// Scouts are compared by dHash (lib/image-hash.ts). Within a run, a scout whose
+// hash sits within scoutNearDuplicateMaxDistance bits of an already-selected
+// scout is rejected, so A/B/C never read as the same picture. Across projects,
+// scouts close to a background the organization received recently lose ranking
+// score, so a church doesn't get look-alike series from month to month.
+
+import { computeDHashFromBuffer, hammingDistanceHash } from "@/lib/image-hash";
+import { ROUND1_V2_CONFIG } from "../config";
+import type { ScoutGenerationResult } from "../orchestrator/run-scout-batch";
+
+export interface RecentSimilarity {
+  /** Hamming distance to the closest recent background; null when none are known. */
+  distance: number | null;
+  /** Ranking-score penalty, 0 when the closest background is beyond the similarity limit. */
+  penalty: number;
+}
+
+/** One dHash per scout result, null for failed generations or undecodable bytes. */
+export async function computeScoutDHashes(results: readonly ScoutGenerationResult[]): Promise<Array<string | null>> {
+  return Promise.all(
+    results.map((result) =>
+      result.status === "success" && result.imageBytes
+        ? computeDHashFromBuffer(result.imageBytes).catch(() => null)
+        : Promise.resolve(null)
+    )
+  );
+}
+
+export function closestHashDistance(hash: string, others: readonly string[]): number | null {
+  let closest: number | null = null;
+  for (const other of others) {
+    const distance = hammingDistanceHash(hash, other);
+    if (closest === null || distance < closest) closest = distance;
+  }
+  return closest;
+}
+
+/**
+ * Returns the key of the first entry whose hash is within `maxDistance` of
+ * `hash`, or null. Entries (and `hash`) without a hash never match.
+ */
+export function findNearDuplicate<K>(
+  hash: string | null | undefined,
+  others: ReadonlyArray<{ key: K; hash: string | null | undefined }>,
+  maxDistance: number = ROUND1_V2_CONFIG.scoutNearDuplicateMaxDistance
+): K | null {
+  if (!hash) return null;
+  for (const other of others) {
+    if (other.hash && hammingDistanceHash(hash, other.hash) <= maxDistance) return other.key;
+  }
+  return null;
+}
+
+export function scoreRecentSimilarity(
+  hash: string | null | undefined,
+  recentHashes: readonly string[],
+  params: { similarDistance?: number; maxPenalty?: number } = {}
+): RecentSimilarity {
+  const similarDistance = params.similarDistance ?? ROUND1_V2_CONFIG.recentBackgroundSimilarDistance;
+  const maxPenalty = params.maxPenalty ?? ROUND1_V2_CONFIG.recentBackgroundMaxPenalty;
+  const distance = hash ? closestHashDistance(hash, recentHashes) : null;
+  if (distance === null || distance > similarDistance) return { distance, penalty: 0 };
+  return { distance, penalty: maxPenalty * (1 - distance / (similarDistance + 1)) };
+}
+
+/** Reads the background dHash recorded on a completed V2 option (meta.debug.backgroundDHash). */
+export function readBackgroundDHash(output: unknown): string | null {
+  const meta = readRecord(readRecord(output)?.meta);
+  const hash = readRecord(meta?.debug)?.backgroundDHash;
+  return typeof hash === "string" && /^[0-9a-f]{16}$/.test(hash) ? hash : null;
+}
+
+function readRecord(value: unknown): Record<string, unknown> | null {
+  return value && typeof value === "object" && !Array.isArray(value) ? (value as Record<string, unknown>) : null;
+}
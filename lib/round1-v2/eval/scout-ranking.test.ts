@@ -0,0 +1,143 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import {
+  FIXED_SCOUT_RANKING_WEIGHTS,
+  buildScoutRankingFeatures,
+  fitScoutRankingWeights,
+  listScoutRankingWeightVersions,
+  loadScoutRankingWeights,
+  readScoutRankingFeatures,
+  readScoutRankingWeights,
+  scoreScoutRanking,
+  scoutRankingScoreRange,
+  usableScoutChoiceGroups,
+  type ScoutChoiceGroup,
+} from "./scout-ranking";
+
+function features(overrides: { tone?: number; margin?: number; grammarKey?: string; designMode?: string | null } = {}) {
+  return buildScoutRankingFeatures({
+    eval: { toneScore: overrides.tone ?? 0.8, structureScore: 0.6, marginScore: overrides.margin ?? 0.5, imageStats: null },
+    grammarKey: overrides.grammarKey ?? "horizon_band",
+    designMode: overrides.designMode ?? null,
+  });
+}
+
+test("buildScoutRankingFeatures: scales image stats to 0–1 and zeroes them when missing", () => {
+  const scored = buildScoutRankingFeatures({
+    eval: {
+      toneScore: 0.8,
+      structureScore: 0.6,
+      marginScore: 0.5,
+      imageStats: {
+        sampleCount: 100,
+        meanLuminance: 127.5,
+        meanSaturation: 51,
+        sepiaLikelihood: 0.2,
+        luminanceStdDev: 200,
+        edgeDensity: 0.04,
+        zones: [],
+      },
+    },
+    grammarKey: "horizon_band",
+    designMode: "photo_veil",
+  });
+  assert.equal(scored.numeric.meanLuminance, 0.5);
+  assert.equal(scored.numeric.meanSaturation, 0.2);
+  assert.equal(scored.numeric.luminanceStdDev, 1);
+  assert.equal(scored.designMode, "photo_veil");
+  assert.equal(features().numeric.edgeDensity, 0);
+});
+
+test("scoreScoutRanking: fixed weights reproduce the hand-set composite", () => {
+  assert.ok(Math.abs(scoreScoutRanking(features(), FIXED_SCOUT_RANKING_WEIGHTS) - (0.8 * 0.5 + 0.6 * 0.35 + 0.5 * 0.15)) < 1e-9);
+});
+
+test("scoreScoutRanking: adds grammar and design-mode offsets; unseen keys score 0", () => {
+  const weights = { ...FIXED_SCOUT_RANKING_WEIGHTS, grammarKey: { horizon_band: 0.2 }, designMode: { photo_veil: -0.1 } };
+  const base = scoreScoutRanking(features({ grammarKey: "textural_field" }), weights);
+  assert.ok(Math.abs(scoreScoutRanking(features({ designMode: "photo_veil" }), weights) - (base + 0.1)) < 1e-9);
+});
+
+test("readScoutRankingFeatures / readScoutRankingWeights: round-trip and reject malformed payloads", () => {
+  const logged = JSON.parse(JSON.stringify(features({ designMode: "photo_veil" })));
+  assert.deepEqual(readScoutRankingFeatures(logged), features({ designMode: "photo_veil" }));
+  assert.equal(readScoutRankingFeatures({ numeric: { toneScore: 1 }, grammarKey: "horizon_band" }), null);
+
+  const weights = readScoutRankingWeights({ version: 2, numeric: { toneScore: 1, edgeDensity: "high" } });
+  assert.equal(weights, null);
+  const partial = readScoutRankingWeights({ version: 2, numeric: { toneScore: 1 } });
+  assert.equal(partial?.numeric.toneScore, 1);
+  assert.equal(partial?.numeric.marginScore, 0);
+  assert.equal(readScoutRankingWeights({ ...FIXED_SCOUT_RANKING_WEIGHTS, version: 0 }), null);
+});
+
+test("usableScoutChoiceGroups: needs exactly one chosen option and an alternative", () => {
+  const groups: ScoutChoiceGroup[] = [
+    { options: [{ chosen: true, features: features() }] },
+    { options: [{ chosen: false, features: features() }, { chosen: false, features: features() }] },
+    { options: [{ chosen: true, features: features() }, { chosen: false, features: features() }] },
+  ];
+  assert.equal(usableScoutChoiceGroups(groups).length, 1);
+});
+
+test("fitScoutRankingWeights: learns a preference the hand-set weights miss", () => {
+  // Users consistently pick the lane with the wider margin over the better tone match;
+  // the fixed weights rank the tone match first.
+  const groups: ScoutChoiceGroup[] = Array.from({ length: 40 }, (_, i) => ({
+    options: [
+      { chosen: true, features: features({ tone: 0.6, margin: 0.9, grammarKey: i % 2 ? "horizon_band" : "textural_field" }) },
+      { chosen: false, features: features({ tone: 1, margin: 0.1 }) },
+    ],
+  }));
+  const fit = fitScoutRankingWeights(groups);
+  assert.equal(fit.initialTop1Accuracy, 0);
+  assert.equal(fit.weights.groupCount, 40);
+  assert.ok(fit.weights.numeric.marginScore > FIXED_SCOUT_RANKING_WEIGHTS.numeric.marginScore);
+  assert.ok(fit.finalLogLikelihood > fit.initialLogLikelihood);
+  assert.equal(fit.finalTop1Accuracy, 1);
+  assert.deepEqual(fitScoutRankingWeights(groups), fit);
+});
+
+test("loadScoutRankingWeights: loads the highest version, honours the env pin, and falls back to null", async () => {
+  const dir = await mkdtemp(path.join(tmpdir(), "scout-ranking-"));
+  const previous = process.env.ROUND1_V2_SCOUT_RANKING_VERSION;
+  try {
+    delete process.env.ROUND1_V2_SCOUT_RANKING_VERSION;
+    assert.equal(await loadScoutRankingWeights(dir), null);
+    assert.equal(await loadScoutRankingWeights(path.join(dir, "missing")), null);
+
+    for (const version of [1, 2, 10]) {
+      await writeFile(
+        path.join(dir, `scout-ranking-v${version}.json`),
+        JSON.stringify({ ...FIXED_SCOUT_RANKING_WEIGHTS, version })
+      );
+    }
+    await writeFile(path.join(dir, "notes.json"), "{}");
+    assert.deepEqual(await listScoutRankingWeightVersions(dir), [1, 2, 10]);
+    assert.equal((await loadScoutRankingWeights(dir))?.version, 10);
+
+    process.env.ROUND1_V2_SCOUT_RANKING_VERSION = "2";
+    assert.equal((await loadScoutRankingWeights(dir))?.version, 2);
+    process.env.ROUND1_V2_SCOUT_RANKING_VERSION = "fixed";
+    assert.equal(await loadScoutRankingWeights(dir), null);
+  } finally {
+    if (previous === undefined) delete process.env.ROUND1_V2_SCOUT_RANKING_VERSION;
+    else process.env.ROUND1_V2_SCOUT_RANKING_VERSION = previous;
+    await rm(dir, { recursive: true, force: true });
+  }
+});
+
+test("scoutRankingScoreRange: the fixed weights span the 0–1 composite scale and fitted offsets widen it", () => {
+  assert.ok(Math.abs(scoutRankingScoreRange(FIXED_SCOUT_RANKING_WEIGHTS) - 1) < 1e-9);
+  const fitted = {
+    ...FIXED_SCOUT_RANKING_WEIGHTS,
+    version: 2,
+    numeric: { ...FIXED_SCOUT_RANKING_WEIGHTS.numeric, toneScore: 3, structureScore: -2, marginScore: 0 },
+    grammarKey: { horizon_band: 0.5, edge_anchored_motif: -1 },
+    designMode: { typography_led: 0.25 },
+  };
+  assert.equal(scoutRankingScoreRange(fitted), 5 + 1.5 + 0.25);
+});
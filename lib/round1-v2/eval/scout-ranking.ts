@@ -0,0 +1,347 @@
+// Learned scout ranking.
+//
+// selectScouts ranks eligible scouts by the hand-weighted compositeScore unless a
+// fitted weight file is available. Weight files are produced offline by
+// scripts/fit-scout-ranking.ts from ScoutChoiceEvent rows (which option users
+// approve or carry into Round 2) and live in SCOUT_RANKING_WEIGHTS_DIR as
+// scout-ranking-v<N>.json. The highest version is loaded by default;
+// ROUND1_V2_SCOUT_RANKING_VERSION pins a version, and "fixed" (or 0) keeps the
+// hand-set weights.
+//
+// The model is a conditional logit: each choice group (the lanes of one run shown
+// to the user) is scored with a linear function of the scout features, and the
+// softmax over the group gives the probability each lane is picked. Only score
+// order within a run matters, so there is no intercept.
+
+import { readFile, readdir } from "fs/promises";
+import path from "path";
+import { SCOUT_COMPOSITE_WEIGHTS, type ScoutEvalResult } from "./evaluate-scout";
+
+export const SCOUT_RANKING_WEIGHTS_DIR = path.join(process.cwd(), "lib", "round1-v2", "eval", "ranking-weights");
+
+const WEIGHT_FILE_PATTERN = /^scout-ranking-v(\d+)\.json$/;
+
+// ── Features ─────────────────────────────────────────────────────────────────
+
+export const SCOUT_RANKING_NUMERIC_FEATURES = [
+  "toneScore",
+  "structureScore",
+  "marginScore",
+  "meanLuminance",
+  "meanSaturation",
+  "sepiaLikelihood",
+  "luminanceStdDev",
+  "edgeDensity",
+] as const;
+
+export type ScoutRankingNumericFeature = (typeof SCOUT_RANKING_NUMERIC_FEATURES)[number];
+
+/** Scout features logged with each choice and scored at selection time. Image stats are scaled to 0–1. */
+export interface ScoutRankingFeatures {
+  numeric: Record<ScoutRankingNumericFeature, number>;
+  grammarKey: string;
+  designMode: string | null;
+}
+
+export interface ScoutRankingWeights {
+  version: number;
+  fittedAt: string | null;
+  /** Choice groups the weights were fitted on. */
+  groupCount: number;
+  numeric: Record<ScoutRankingNumericFeature, number>;
+  /** Per-grammar and per-design-mode offsets; unseen keys score 0. */
+  grammarKey: Record<string, number>;
+  designMode: Record<string, number>;
+}
+
+/** Version 0: the hand-set composite weights, expressed as a weight file. */
+export const FIXED_SCOUT_RANKING_WEIGHTS: ScoutRankingWeights = {
+  version: 0,
+  fittedAt: null,
+  groupCount: 0,
+  numeric: {
+    toneScore: SCOUT_COMPOSITE_WEIGHTS.toneScore,
+    structureScore: SCOUT_COMPOSITE_WEIGHTS.structureScore,
+    marginScore: SCOUT_COMPOSITE_WEIGHTS.marginScore,
+    meanLuminance: 0,
+    meanSaturation: 0,
+    sepiaLikelihood: 0,
+    luminanceStdDev: 0,
+    edgeDensity: 0,
+  },
+  grammarKey: {},
+  designMode: {},
+};
+
+function clamp01(value: number): number {
+  return Math.min(1, Math.max(0, value));
+}
+
+export function buildScoutRankingFeatures(params: {
+  eval: Pick<ScoutEvalResult, "toneScore" | "structureScore" | "marginScore" | "imageStats">;
+  grammarKey: string;
+  designMode?: string | null;
+}): ScoutRankingFeatures {
+  const stats = params.eval.imageStats;
+  return {
+    numeric: {
+      toneScore: params.eval.toneScore,
+      structureScore: params.eval.structureScore,
+      marginScore: params.eval.marginScore,
+      meanLuminance: stats ? clamp01(stats.meanLuminance / 255) : 0,
+      meanSaturation: stats ? clamp01(stats.meanSaturation / 255) : 0,
+      sepiaLikelihood: stats ? clamp01(stats.sepiaLikelihood) : 0,
+      // Standard deviation of 0–255 luminance tops out near 128.
+      luminanceStdDev: stats ? clamp01(stats.luminanceStdDev / 128) : 0,
+      edgeDensity: stats ? clamp01(stats.edgeDensity) : 0,
+    },
+    grammarKey: params.grammarKey,
+    designMode: params.designMode ?? null,
+  };
+}
+
+/**
+ * Widest score gap the weights can open between two scouts: each numeric feature at opposite
+ * ends of 0–1, plus the spread of the grammar and design-mode offsets (unseen keys score 0).
+ * The fixed weights span 0–1 like compositeScore; fitted weights score in logits, so
+ * adjustments tuned on the composite scale are multiplied by this to keep the same weight.
+ */
+export function scoutRankingScoreRange(weights: ScoutRankingWeights): number {
+  const offsetSpread = (offsets: Record<string, number>): number => {
+    const values = [0, ...Object.values(offsets)];
+    return Math.max(...values) - Math.min(...values);
+  };
+  return (
+    SCOUT_RANKING_NUMERIC_FEATURES.reduce((sum, key) => sum + Math.abs(weights.numeric[key]), 0) +
+    offsetSpread(weights.grammarKey) +
+    offsetSpread(weights.designMode)
+  );
+}
+
+export function scoreScoutRanking(features: ScoutRankingFeatures, weights: ScoutRankingWeights): number {
+  let score = 0;
+  for (const key of SCOUT_RANKING_NUMERIC_FEATURES) {
+    score += features.numeric[key] * weights.numeric[key];
+  }
+  score += weights.grammarKey[features.grammarKey] ?? 0;
+  if (features.designMode) score += weights.designMode[features.designMode] ?? 0;
+  return score;
+}
+
+// ── Parsing ──────────────────────────────────────────────────────────────────
+
+function readRecord(value: unknown): Record<string, unknown> | null {
+  return value && typeof value === "object" && !Array.isArray(value) ? (value as Record<string, unknown>) : null;
+}
+
+function readNumberRecord(value: unknown): Record<string, number> | null {
+  const record = readRecord(value);
+  if (!record) return null;
+  const out: Record<string, number> = {};
+  for (const [key, entry] of Object.entries(record)) {
+    if (typeof entry !== "number" || !Number.isFinite(entry)) return null;
+    out[key] = entry;
+  }
+  return out;
+}
+
+export function readScoutRankingFeatures(value: unknown): ScoutRankingFeatures | null {
+  const record = readRecord(value);
+  const numeric = readNumberRecord(record?.numeric);
+  if (!record || !numeric || typeof record.grammarKey !== "string") return null;
+  if (!SCOUT_RANKING_NUMERIC_FEATURES.every((key) => key in numeric)) return null;
+  return {
+    numeric: numeric as Record<ScoutRankingNumericFeature, number>,
+    grammarKey: record.grammarKey,
+    designMode: typeof record.designMode === "string" ? record.designMode : null,
+  };
+}
+
+export function readScoutRankingWeights(value: unknown): ScoutRankingWeights | null {
+  const record = readRecord(value);
+  const numeric = readNumberRecord(record?.numeric);
+  const grammarKey = readNumberRecord(record?.grammarKey ?? {});
+  const designMode = readNumberRecord(record?.designMode ?? {});
+  if (!record || !numeric || !grammarKey || !designMode) return null;
+  if (typeof record.version !== "number" || !Number.isInteger(record.version) || record.version < 1) return null;
+  return {
+    version: record.version,
+    fittedAt: typeof record.fittedAt === "string" ? record.fittedAt : null,
+    groupCount: typeof record.groupCount === "number" ? record.groupCount : 0,
+    // Features added after a file was fitted contribute nothing.
+    numeric: Object.fromEntries(
+      SCOUT_RANKING_NUMERIC_FEATURES.map((key) => [key, numeric[key] ?? 0])
+    ) as Record<ScoutRankingNumericFeature, number>,
+    grammarKey,
+    designMode,
+  };
+}
+
+// ── Loading ──────────────────────────────────────────────────────────────────
+
+export function scoutRankingWeightsFileName(version: number): string {
+  return `scout-ranking-v${version}.json`;
+}
+
+export async function listScoutRankingWeightVersions(dir: string = SCOUT_RANKING_WEIGHTS_DIR): Promise<number[]> {
+  const names = await readdir(dir).catch(() => [] as string[]);
+  return names
+    .map((name) => WEIGHT_FILE_PATTERN.exec(name)?.[1])
+    .filter((version): version is string => Boolean(version))
+    .map(Number)
+    .sort((a, b) => a - b);
+}
+
+/**
+ * Loads the weight file selectScouts should rank with, or null to keep the
+ * hand-set composite. Unreadable or malformed files also fall back to null.
+ */
+export async function loadScoutRankingWeights(
+  dir: string = SCOUT_RANKING_WEIGHTS_DIR
+): Promise<ScoutRankingWeights | null> {
+  const pinned = process.env.ROUND1_V2_SCOUT_RANKING_VERSION?.trim().toLowerCase();
+  if (pinned === "fixed" || pinned === "0") return null;
+
+  const pinnedVersion = pinned ? Number(pinned) : NaN;
+  const version = Number.isInteger(pinnedVersion) && pinnedVersion > 0
+    ? pinnedVersion
+    : (await listScoutRankingWeightVersions(dir)).at(-1);
+  if (version === undefined) return null;
+
+  const raw = await readFile(path.join(dir, scoutRankingWeightsFileName(version)), "utf-8").catch(() => "");
+  if (!raw.trim()) return null;
+  try {
+    return readScoutRankingWeights(JSON.parse(raw));
+  } catch {
+    return null;
+  }
+}
+
+// ── Fitting ──────────────────────────────────────────────────────────────────
+
+export interface ScoutChoiceGroup {
+  /** One entry per lane shown to the user; exactly one should be chosen. */
+  options: Array<{ chosen: boolean; features: ScoutRankingFeatures }>;
+}
+
+export interface FitScoutRankingOptions {
+  iterations?: number;
+  learningRate?: number;
+  /** L2 penalty; keeps sparse grammar/mode offsets near 0. */
+  l2?: number;
+}
+
+export interface ScoutRankingFit {
+  weights: Omit<ScoutRankingWeights, "version" | "fittedAt">;
+  /** Mean log-likelihood of the chosen option per group, before and after fitting. */
+  initialLogLikelihood: number;
+  finalLogLikelihood: number;
+  /** Share of groups where the chosen option ranks first, before and after fitting. */
+  initialTop1Accuracy: number;
+  finalTop1Accuracy: number;
+}
+
+/** Keeps groups with one chosen option and at least one alternative to compare it with. */
+export function usableScoutChoiceGroups(groups: readonly ScoutChoiceGroup[]): ScoutChoiceGroup[] {
+  return groups.filter(
+    (group) => group.options.length >= 2 && group.options.filter((option) => option.chosen).length === 1
+  );
+}
+
+function evaluateGroups(groups: readonly ScoutChoiceGroup[], weights: ScoutRankingWeights) {
+  let logLikelihood = 0;
+  let top1 = 0;
+  for (const group of groups) {
+    const scores = group.options.map((option) => scoreScoutRanking(option.features, weights));
+    const max = Math.max(...scores);
+    const logSum = max + Math.log(scores.reduce((sum, score) => sum + Math.exp(score - max), 0));
+    const chosenIndex = group.options.findIndex((option) => option.chosen);
+    logLikelihood += scores[chosenIndex] - logSum;
+    if (scores[chosenIndex] === max) top1 += 1;
+  }
+  const count = Math.max(1, groups.length);
+  return { logLikelihood: logLikelihood / count, top1Accuracy: top1 / count };
+}
+
+/**
+ * Fits conditional-logit weights by full-batch gradient ascent, starting from the
+ * hand-set weights so sparse data only nudges them. Deterministic for a given input.
+ */
+export function fitScoutRankingWeights(
+  groupsInput: readonly ScoutChoiceGroup[],
+  options: FitScoutRankingOptions = {}
+): ScoutRankingFit {
+  const groups = usableScoutChoiceGroups(groupsInput);
+  const iterations = options.iterations ?? 500;
+  const learningRate = options.learningRate ?? 0.5;
+  const l2 = options.l2 ?? 0.01;
+
+  const weights: ScoutRankingWeights = {
+    ...FIXED_SCOUT_RANKING_WEIGHTS,
+    numeric: { ...FIXED_SCOUT_RANKING_WEIGHTS.numeric },
+    grammarKey: {},
+    designMode: {},
+  };
+  for (const group of groups) {
+    for (const option of group.options) {
+      weights.grammarKey[option.features.grammarKey] = 0;
+      if (option.features.designMode) weights.designMode[option.features.designMode] = 0;
+    }
+  }
+  const initial = evaluateGroups(groups, weights);
+
+  if (groups.length > 0) {
+    for (let iteration = 0; iteration < iterations; iteration++) {
+      const numericGradient = Object.fromEntries(SCOUT_RANKING_NUMERIC_FEATURES.map((key) => [key, 0])) as Record<
+        ScoutRankingNumericFeature,
+        number
+      >;
+      const grammarGradient: Record<string, number> = {};
+      const modeGradient: Record<string, number> = {};
+
+      for (const group of groups) {
+        const scores = group.options.map((option) => scoreScoutRanking(option.features, weights));
+        const max = Math.max(...scores);
+        const exps = scores.map((score) => Math.exp(score - max));
+        const total = exps.reduce((sum, value) => sum + value, 0);
+        // d(log P(chosen)) / d(w) = x_chosen − Σ p_i x_i
+        group.options.forEach((option, index) => {
+          const residual = (option.chosen ? 1 : 0) - exps[index] / total;
+          for (const key of SCOUT_RANKING_NUMERIC_FEATURES) {
+            numericGradient[key] += residual * option.features.numeric[key];
+          }
+          grammarGradient[option.features.grammarKey] = (grammarGradient[option.features.grammarKey] ?? 0) + residual;
+          if (option.features.designMode) {
+            modeGradient[option.features.designMode] = (modeGradient[option.features.designMode] ?? 0) + residual;
+          }
+        });
+      }
+
+      for (const key of SCOUT_RANKING_NUMERIC_FEATURES) {
+        // Numeric weights are pulled toward the hand-set prior, offsets toward 0.
+        const prior = FIXED_SCOUT_RANKING_WEIGHTS.numeric[key];
+        weights.numeric[key] += learningRate * (numericGradient[key] / groups.length - l2 * (weights.numeric[key] - prior));
+      }
+      for (const key of Object.keys(weights.grammarKey)) {
+        weights.grammarKey[key] += learningRate * ((grammarGradient[key] ?? 0) / groups.length - l2 * weights.grammarKey[key]);
+      }
+      for (const key of Object.keys(weights.designMode)) {
+        weights.designMode[key] += learningRate * ((modeGradient[key] ?? 0) / groups.length - l2 * weights.designMode[key]);
+      }
+    }
+  }
+
+  const final = evaluateGroups(groups, weights);
+  return {
+    weights: {
+      groupCount: groups.length,
+      numeric: weights.numeric,
+      grammarKey: weights.grammarKey,
+      designMode: weights.designMode,
+    },
+    initialLogLikelihood: initial.logLikelihood,
+    finalLogLikelihood: final.logLikelihood,
+    initialTop1Accuracy: initial.top1Accuracy,
+    finalTop1Accuracy: final.top1Accuracy,
+  };
+}
@@ -1,7 +1,8 @@
 // Composition grammar bank for Round 1 V2.
 // Grammars define structural composition decisions — where things live in the frame —
 // independent of style decoration (color, texture, medium).
-// Phase 1: wide aspect only.
+// Bboxes are authored against the wide canonical frame; square/tall reframes map them
+// through orchestrator/aspect-reframe.ts.
 
 export type TonalVariant = "light" | "vivid" | "neutral" | "dark" | "mono";
 
@@ -0,0 +1,64 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import sharp from "sharp";
+import { PREVIEW_DIMENSIONS } from "@/lib/lockup-compositor";
+import { GRAMMAR_KEYS } from "../grammars";
+import { planAspectReframe, reframeBackgroundForAspect, REFRAME_ASPECTS } from "./aspect-reframe";
+
+const WIDE_SOURCE = { sourceWidth: 1344, sourceHeight: 768 };
+
+test("centered focal grammar reframes around the center and keeps the motif", () => {
+  const plan = planAspectReframe({ grammarKey: "centered_focal_motif", aspect: "square", ...WIDE_SOURCE });
+
+  assert.equal(plan.crop.h, 1);
+  assert.ok(Math.abs(plan.crop.x + plan.crop.w / 2 - 0.5) < 0.05, `crop not centered: ${JSON.stringify(plan.crop)}`);
+  assert.equal(plan.focalCoverage, 1);
+  assert.equal(plan.titleSafeCoverage, 1);
+  assert.ok(plan.titleSafeRegion);
+});
+
+test("edge-anchored grammar keeps title room in tall even when the motif is cropped", () => {
+  const plan = planAspectReframe({ grammarKey: "edge_anchored_motif", aspect: "tall", ...WIDE_SOURCE });
+
+  assert.equal(plan.titleSafeCoverage, 1);
+  assert.ok(plan.focalCoverage > 0, "crop should still show part of the edge motif");
+  assert.ok(plan.titleSafeRegion);
+  assert.ok(plan.titleSafeRegion.left > 0.1, "lockup belongs on the open side of the frame");
+});
+
+test("every grammar yields an in-bounds crop with title room for square and tall", () => {
+  for (const grammarKey of GRAMMAR_KEYS) {
+    for (const aspect of REFRAME_ASPECTS) {
+      const plan = planAspectReframe({ grammarKey, aspect, ...WIDE_SOURCE });
+      const target = PREVIEW_DIMENSIONS[aspect];
+      const cropRatio = (plan.crop.w * WIDE_SOURCE.sourceWidth) / (plan.crop.h * WIDE_SOURCE.sourceHeight);
+
+      assert.ok(plan.crop.x >= 0 && plan.crop.x + plan.crop.w <= 1.0001, `${grammarKey}/${aspect} x out of bounds`);
+      assert.ok(plan.crop.y >= 0 && plan.crop.y + plan.crop.h <= 1.0001, `${grammarKey}/${aspect} y out of bounds`);
+      assert.ok(Math.abs(cropRatio - target.width / target.height) < 0.01, `${grammarKey}/${aspect} wrong ratio`);
+      assert.equal(plan.titleSafeCoverage, 1, `${grammarKey}/${aspect} lost title room`);
+    }
+  }
+});
+
+test("unknown grammar keys fall back to a centered crop", () => {
+  const plan = planAspectReframe({ grammarKey: "legacy_grammar", aspect: "tall", ...WIDE_SOURCE });
+
+  assert.ok(Math.abs(plan.crop.x + plan.crop.w / 2 - 0.5) < 0.01);
+  assert.equal(plan.titleSafeRegion, null);
+});
+
+test("reframeBackgroundForAspect outputs the aspect's preview dimensions", async () => {
+  const backgroundPng = await sharp({
+    create: { width: 1344, height: 768, channels: 3, background: { r: 40, g: 60, b: 90 } },
+  })
+    .png()
+    .toBuffer();
+
+  for (const aspect of REFRAME_ASPECTS) {
+    const { png } = await reframeBackgroundForAspect({ backgroundPng, grammarKey: "horizon_band", aspect });
+    const metadata = await sharp(png).metadata();
+    assert.equal(metadata.width, PREVIEW_DIMENSIONS[aspect].width);
+    assert.equal(metadata.height, PREVIEW_DIMENSIONS[aspect].height);
+  }
+});
@@ -0,0 +1,184 @@
+import sharp from "sharp";
+import { PREVIEW_DIMENSIONS, type LockupSafeRegionRatio } from "@/lib/lockup-compositor";
+import { GRAMMAR_BANK, type Bbox } from "../grammars";
+import type { SupportedAspect } from "../config";
+
+// Grammar-aware reframing: square/tall backgrounds are cut from the accepted wide
+// rebuild rather than rebuilt per aspect, so one AI call still covers all three aspects.
+// Grammar bboxes are authored against the wide frame; the crop window slides along the
+// free axis to keep the grammar's title-safe zone and focal subject in frame.
+
+export type ReframeAspect = Exclude<SupportedAspect, "wide">;
+
+export const REFRAME_ASPECTS: readonly ReframeAspect[] = ["square", "tall"];
+
+// Share of the crop's width/height a visible title-safe zone must span for the lockup to have room.
+const MIN_TITLE_ROOM_WIDTH = 0.6;
+const MIN_TITLE_ROOM_HEIGHT = 0.18;
+const CROP_POSITION_STEPS = 40;
+// Inset applied to the remapped title-safe region so the lockup never touches the frame edge.
+const SAFE_REGION_MARGIN = 0.1;
+
+export interface AspectReframePlan {
+  aspect: ReframeAspect;
+  // Crop window in normalized source coordinates.
+  crop: Bbox;
+  // Mean fraction of each focal zone kept in frame (1 when the grammar has no focal zones).
+  focalCoverage: number;
+  // 1 when the best title-safe zone leaves enough room for the lockup in the crop.
+  titleSafeCoverage: number;
+  // Title-safe zone remapped into the reframed aspect; null falls back to the compositor default.
+  titleSafeRegion: LockupSafeRegionRatio | null;
+}
+
+function intersect(a: Bbox, b: Bbox): Bbox | null {
+  const x = Math.max(a.x, b.x);
+  const y = Math.max(a.y, b.y);
+  const right = Math.min(a.x + a.w, b.x + b.w);
+  const bottom = Math.min(a.y + a.h, b.y + b.h);
+  if (right <= x || bottom <= y) return null;
+  return { x, y, w: right - x, h: bottom - y };
+}
+
+function area(box: Bbox | null): number {
+  return box ? box.w * box.h : 0;
+}
+
+function round4(value: number): number {
+  return Math.round(value * 10_000) / 10_000;
+}
+
+function scoreCrop(
+  crop: Bbox,
+  focalZones: readonly Bbox[],
+  titleSafeZones: readonly Bbox[]
+): { focalCoverage: number; titleSafeCoverage: number; bestTitleZone: Bbox | null } {
+  const focalCoverage =
+    focalZones.length === 0
+      ? 1
+      : focalZones.reduce((sum, zone) => sum + area(intersect(zone, crop)) / area(zone), 0) /
+        focalZones.length;
+
+  let titleSafeCoverage = 0;
+  let bestTitleZone: Bbox | null = null;
+  for (const zone of titleSafeZones) {
+    const visible = intersect(zone, crop);
+    if (!visible) continue;
+    const coverage =
+      Math.min(1, visible.w / (MIN_TITLE_ROOM_WIDTH * crop.w)) *
+      Math.min(1, visible.h / (MIN_TITLE_ROOM_HEIGHT * crop.h));
+    if (coverage > titleSafeCoverage) {
+      titleSafeCoverage = coverage;
+      bestTitleZone = visible;
+    }
+  }
+
+  return { focalCoverage, titleSafeCoverage, bestTitleZone };
+}
+
+function remapIntoCrop(zone: Bbox, crop: Bbox): LockupSafeRegionRatio {
+  const left = Math.max(SAFE_REGION_MARGIN, (zone.x - crop.x) / crop.w);
+  const top = Math.max(SAFE_REGION_MARGIN, (zone.y - crop.y) / crop.h);
+  const right = Math.min(1 - SAFE_REGION_MARGIN, (zone.x + zone.w - crop.x) / crop.w);
+  const bottom = Math.min(1 - SAFE_REGION_MARGIN, (zone.y + zone.h - crop.y) / crop.h);
+  return {
+    left: round4(left),
+    top: round4(top),
+    width: round4(Math.max(0, right - left)),
+    height: round4(Math.max(0, bottom - top)),
+  };
+}
+
+/**
+ * Plan the crop window that reframes a wide V2 background into `aspect`.
+ * Unknown grammar keys (e.g. legacy scouts) reframe around the center.
+ */
+export function planAspectReframe(params: {
+  grammarKey: string;
+  sourceWidth: number;
+  sourceHeight: number;
+  aspect: ReframeAspect;
+}): AspectReframePlan {
+  const grammar = GRAMMAR_BANK[params.grammarKey as keyof typeof GRAMMAR_BANK];
+  const focalZones = grammar?.focalZones ?? [];
+  const titleSafeZones = grammar?.titleSafeZones ?? [];
+
+  const target = PREVIEW_DIMENSIONS[params.aspect];
+  const sourceRatio = Math.max(1, params.sourceWidth) / Math.max(1, params.sourceHeight);
+  const targetRatio = target.width / target.height;
+  const cropW = sourceRatio > targetRatio ? targetRatio / sourceRatio : 1;
+  const cropH = sourceRatio > targetRatio ? 1 : sourceRatio / targetRatio;
+  const slideX = 1 - cropW;
+  const slideY = 1 - cropH;
+
+  // Ranked by title room first — a lockup with nowhere to sit fails the option, a
+  // partially cropped motif does not — then focal coverage, then closeness to center.
+  let best: { crop: Bbox; offCenter: number; scored: ReturnType<typeof scoreCrop> } | null = null;
+  for (let step = 0; step <= CROP_POSITION_STEPS; step++) {
+    const t = step / CROP_POSITION_STEPS;
+    const crop: Bbox = { x: slideX * t, y: slideY * t, w: cropW, h: cropH };
+    const scored = scoreCrop(crop, focalZones, titleSafeZones);
+    const offCenter = Math.abs(t - 0.5);
+    const better =
+      !best ||
+      scored.titleSafeCoverage > best.scored.titleSafeCoverage ||
+      (scored.titleSafeCoverage === best.scored.titleSafeCoverage &&
+        (scored.focalCoverage > best.scored.focalCoverage ||
+          (scored.focalCoverage === best.scored.focalCoverage && offCenter < best.offCenter)));
+    if (better) {
+      best = { crop, offCenter, scored };
+    }
+  }
+
+  // CROP_POSITION_STEPS >= 0 guarantees at least one candidate.
+  const { crop, scored } = best!;
+  const titleSafeRegion =
+    scored.bestTitleZone && scored.titleSafeCoverage >= 1
+      ? remapIntoCrop(scored.bestTitleZone, crop)
+      : null;
+
+  return {
+    aspect: params.aspect,
+    crop: { x: round4(crop.x), y: round4(crop.y), w: round4(crop.w), h: round4(crop.h) },
+    focalCoverage: round4(scored.focalCoverage),
+    titleSafeCoverage: round4(scored.titleSafeCoverage),
+    titleSafeRegion:
+      titleSafeRegion && titleSafeRegion.width > 0 && titleSafeRegion.height > 0 ? titleSafeRegion : null,
+  };
+}
+
+/**
+ * Cut the planned crop out of the wide background and scale it to the aspect's
+ * preview dimensions.
+ */
+export async function reframeBackgroundForAspect(params: {
+  backgroundPng: Buffer;
+  grammarKey: string;
+  aspect: ReframeAspect;
+}): Promise<{ png: Buffer; plan: AspectReframePlan }> {
+  const metadata = await sharp(params.backgroundPng, { failOn: "none" }).metadata();
+  const sourceWidth = metadata.width ?? PREVIEW_DIMENSIONS.wide.width;
+  const sourceHeight = metadata.height ?? PREVIEW_DIMENSIONS.wide.height;
+  const plan = planAspectReframe({
+    grammarKey: params.grammarKey,
+    sourceWidth,
+    sourceHeight,
+    aspect: params.aspect,
+  });
+
+  const left = Math.min(sourceWidth - 1, Math.round(plan.crop.x * sourceWidth));
+  const top = Math.min(sourceHeight - 1, Math.round(plan.crop.y * sourceHeight));
+  const { width, height } = PREVIEW_DIMENSIONS[params.aspect];
+  const png = await sharp(params.backgroundPng, { failOn: "none" })
+    .extract({
+      left,
+      top,
+      width: Math.max(1, Math.min(sourceWidth - left, Math.round(plan.crop.w * sourceWidth))),
+      height: Math.max(1, Math.min(sourceHeight - top, Math.round(plan.crop.h * sourceHeight))),
+    })
+    .resize({ width, height, fit: "fill", kernel: sharp.kernel.lanczos3 })
+    .png()
+    .toBuffer();
+
+  return { png, plan };
+}
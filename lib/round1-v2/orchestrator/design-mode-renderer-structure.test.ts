@@ -14,6 +14,7 @@ import assert from "node:assert/strict";
 import test from "node:test";
 import { renderDesignModeDirectionPreview } from "./design-mode-renderer";
 import { evaluateBackgroundAcceptance } from "@/lib/production-valid-option";
+import { DESIGN_MODES } from "../design-modes";
 
 const BASE = {
   tone: "neutral" as const,
@@ -129,6 +130,14 @@ test("graphic_symbol evidence passes evaluateBackgroundAcceptance", async () =>
   assert.equal(acceptance.accepted, true);
 });
 
+test("AI-routed modes' fallback plates pass evaluateBackgroundAcceptance", async () => {
+  for (const mode of ["cinematic_atmospheric", "photo_composite", "illustrative_collage", "playful_seasonal", "retro_print"] as const) {
+    const r = await renderDesignModeDirectionPreview({ ...BASE, designMode: mode });
+    const acceptance = evaluateBackgroundAcceptance({ evidence: r.backgroundEvidence });
+    assert.equal(acceptance.accepted, true, `${mode}: ${acceptance.invalidReasons.join(", ")}`);
+  }
+});
+
 // ── Honesty: synthesized "weak" evidence still fails ────────────────────────
 // We don't have a public API to force a no-motif build, but we can prove the
 // validator still rejects motifPresent=false (no fake-success regression).
@@ -186,7 +195,7 @@ test("background SVG path does not contain title text content", async () => {
 // ── aiCalls debug field ─────────────────────────────────────────────────────
 
 test("debug.aiCalls is 0 for every locally renderable mode", async () => {
-  for (const mode of ["typography_led", "minimal_editorial", "modern_abstract", "graphic_symbol"] as const) {
+  for (const mode of DESIGN_MODES) {
     const r = await renderDesignModeDirectionPreview({ ...BASE, designMode: mode });
     assert.equal(r.debug.aiCalls, 0);
     assert.equal(r.debug.renderer, "deterministic_design_mode_v1");
@@ -4,8 +4,9 @@ import sharp from "sharp";
 import {
   canRenderDesignModeLocally,
   renderDesignModeDirectionPreview,
+  shouldRenderDesignModeLocally,
 } from "./design-mode-renderer";
-import type { DesignMode } from "../design-modes";
+import { DESIGN_MODES, type DesignMode } from "../design-modes";
 
 const BASE_INPUT = {
   tone: "neutral" as const,
@@ -18,19 +19,23 @@ const BASE_INPUT = {
 
 // ── canRenderDesignModeLocally ───────────────────────────────────────────────
 
-test("canRenderDesignModeLocally returns true for the 4 locally renderable modes", () => {
-  assert.equal(canRenderDesignModeLocally("typography_led"), true);
-  assert.equal(canRenderDesignModeLocally("minimal_editorial"), true);
-  assert.equal(canRenderDesignModeLocally("modern_abstract"), true);
-  assert.equal(canRenderDesignModeLocally("graphic_symbol"), true);
+test("canRenderDesignModeLocally returns true for every design mode", () => {
+  for (const mode of DESIGN_MODES) {
+    assert.equal(canRenderDesignModeLocally(mode), true, mode);
+  }
+  assert.equal(canRenderDesignModeLocally("not_a_mode" as DesignMode), false);
 });
 
-test("canRenderDesignModeLocally returns false for AI-only modes", () => {
-  assert.equal(canRenderDesignModeLocally("cinematic_atmospheric"), false);
-  assert.equal(canRenderDesignModeLocally("photo_composite"), false);
-  assert.equal(canRenderDesignModeLocally("illustrative_collage"), false);
-  assert.equal(canRenderDesignModeLocally("playful_seasonal"), false);
-  assert.equal(canRenderDesignModeLocally("retro_print"), false);
+test("shouldRenderDesignModeLocally routes only the 4 plate-native modes locally", () => {
+  assert.equal(shouldRenderDesignModeLocally("typography_led"), true);
+  assert.equal(shouldRenderDesignModeLocally("minimal_editorial"), true);
+  assert.equal(shouldRenderDesignModeLocally("modern_abstract"), true);
+  assert.equal(shouldRenderDesignModeLocally("graphic_symbol"), true);
+  assert.equal(shouldRenderDesignModeLocally("cinematic_atmospheric"), false);
+  assert.equal(shouldRenderDesignModeLocally("photo_composite"), false);
+  assert.equal(shouldRenderDesignModeLocally("illustrative_collage"), false);
+  assert.equal(shouldRenderDesignModeLocally("playful_seasonal"), false);
+  assert.equal(shouldRenderDesignModeLocally("retro_print"), false);
 });
 
 // ── Renderer output shape ────────────────────────────────────────────────────
@@ -139,12 +144,58 @@ test("renderer is deterministic for same inputs (same byte length and metadata)"
 
 // ── Throws for unsupported mode ──────────────────────────────────────────────
 
-test("renderer throws for unsupported mode (cinematic_atmospheric)", async () => {
+// ── AI-routed modes render locally too (provider-outage fallback) ───────────
+
+const FALLBACK_MODE_KINDS: Array<[DesignMode, string]> = [
+  ["cinematic_atmospheric", "layered_atmosphere"],
+  ["photo_composite", "duotone_plate"],
+  ["illustrative_collage", "collage_cutouts"],
+  ["playful_seasonal", "seasonal_confetti"],
+  ["retro_print", "riso_halftone"],
+];
+
+for (const [mode, kind] of FALLBACK_MODE_KINDS) {
+  test(`${mode} renderer uses ${kind} background and reports motifPresent=true`, async () => {
+    const r = await renderDesignModeDirectionPreview({ ...BASE_INPUT, designMode: mode });
+    assert.equal(r.debug.backgroundKind, kind);
+    assert.equal(r.debug.designMode, mode);
+    assert.equal(r.backgroundEvidence.motifPresent, true);
+    const meta = await sharp(r.widePng).metadata();
+    assert.equal(meta.width, 1920);
+    assert.equal(meta.height, 1080);
+  });
+}
+
+test("cinematic_atmospheric picks its accent from the motif", async () => {
+  const light = await renderDesignModeDirectionPreview({ ...BASE_INPUT, designMode: "cinematic_atmospheric", motifs: ["dawn light"] });
+  const water = await renderDesignModeDirectionPreview({ ...BASE_INPUT, designMode: "cinematic_atmospheric", motifs: ["river"] });
+  assert.equal(light.debug.motifStructureKind, "layered_atmosphere_with_glow_rays");
+  assert.equal(water.debug.motifStructureKind, "layered_atmosphere_with_horizon_reflections");
+});
+
+test("retro_print renders stripes for water motifs and a sunburst otherwise", async () => {
+  const water = await renderDesignModeDirectionPreview({ ...BASE_INPUT, designMode: "retro_print", motifs: ["water"] });
+  const other = await renderDesignModeDirectionPreview({ ...BASE_INPUT, designMode: "retro_print", motifs: [] });
+  assert.equal(water.debug.motifStructureKind, "riso_halftone_stripes");
+  assert.equal(other.debug.motifStructureKind, "riso_halftone_sunburst");
+});
+
+test("seeded modes are deterministic per seed", async () => {
+  const a = await renderDesignModeDirectionPreview({ ...BASE_INPUT, designMode: "illustrative_collage", seed: 7 });
+  const b = await renderDesignModeDirectionPreview({ ...BASE_INPUT, designMode: "illustrative_collage", seed: 7 });
+  const c = await renderDesignModeDirectionPreview({ ...BASE_INPUT, designMode: "illustrative_collage", seed: 8 });
+  assert.ok(a.backgroundPng.equals(b.backgroundPng));
+  assert.ok(!a.backgroundPng.equals(c.backgroundPng));
+});
+
+// ── Throws for unknown mode ──────────────────────────────────────────────────
+
+test("renderer throws for an unknown mode", async () => {
   await assert.rejects(
     () =>
       renderDesignModeDirectionPreview({
         ...BASE_INPUT,
-        designMode: "cinematic_atmospheric" as DesignMode,
+        designMode: "not_a_mode" as DesignMode,
       }),
     /not locally renderable/
   );
@@ -7,14 +7,20 @@
  * use the existing clean-minimal lockup pipeline driven by the DesignMode
  * recipe override.
  *
- * Supported modes (v1):
- *   - typography_led
- *   - minimal_editorial
- *   - modern_abstract
- *   - graphic_symbol
+ * Every DesignMode has a plate:
+ *   - typography_led         → type support system (axis, slab, cast shadow)
+ *   - minimal_editorial      → editorial grid with folio label and motif mark
+ *   - modern_abstract        → color blocks with circle accent
+ *   - graphic_symbol         → motif-derived vector mark
+ *   - cinematic_atmospheric  → layered gradients, glow and ridge silhouettes
+ *   - photo_composite        → duotone photo plate with a lit subject silhouette
+ *   - illustrative_collage   → torn-paper cutouts, tape and a hand scribble
+ *   - playful_seasonal       → confetti, blobs and a streamer
+ *   - retro_print            → two-color riso halftone with misregistration
  *
- * Other modes (cinematic_atmospheric, photo_composite, illustrative_collage,
- * playful_seasonal, retro_print) continue to use the AI scout/rebuild path.
+ * Only the first four are routed here by default (shouldRenderDesignModeLocally);
+ * the rest use the AI scout/rebuild path and come here as a fallback when it
+ * produces nothing, so Round 1 still yields a preview with every provider down.
  *
  * The renderer is intentionally simple. It is not the final design system —
  * it exists to break the canary's "cinematic background + title overlay"
@@ -22,9 +28,14 @@
  */
 
 import sharp from "sharp";
-import type { DesignMode } from "../design-modes";
+import { DESIGN_MODES, type DesignMode } from "../design-modes";
 import type { TonalVariant } from "../grammars";
 import type { ProductionBackgroundValidationEvidence } from "@/lib/production-valid-option";
+import type { LockupRecipe } from "@/lib/design-brief";
+import type { LockupSafeRegionRatio } from "@/lib/lockup-compositor";
+import type { TextFitReport } from "@/lib/lockups/renderer";
+import type { LockupLogoLayout } from "@/lib/lockups/logo";
+import type { LockupLogoSource } from "@/lib/lockups/logo-variants";
 import {
   getDesignModeLockupRecipeOverride,
   shouldSuppressAutoScrim,
@@ -45,12 +56,19 @@ export interface RenderDesignModeInput {
   height: number;
   /** Deterministic seed for any non-deterministic visual choices. */
   seed: number;
+  /** The church logo, placed as a corner bug clear of the lockup. */
+  logoSource?: LockupLogoSource | null;
 }
 
 export interface RenderedDesignModePreview {
   backgroundPng: Buffer;
   lockupPng: Buffer;
   widePng: Buffer;
+  /** The corner bug composited into widePng, for the design doc; null without a logo or a free corner. */
+  logoLayout: LockupLogoLayout | null;
+  /** The mode's lockup recipe and where composeWide placed the lockup, as canvas ratios, for the design doc. */
+  lockupRecipe: LockupRecipe;
+  titleRegion: LockupSafeRegionRatio;
   backgroundEvidence: ProductionBackgroundValidationEvidence;
   debug: {
     renderer: "deterministic_design_mode_v1";
@@ -66,6 +84,8 @@ export interface RenderedDesignModePreview {
     motifStructureKind: string | null;
     /** Honest reason motifPresent was set true / false. */
     motifPresentReason: string;
+    /** Which step of the text-fitting fallback chain the lockup layout needed. */
+    textFit: TextFitReport;
   };
 }
 
@@ -82,19 +102,31 @@ type BackgroundKind =
   | "type_support_system"
   | "minimal_editorial_grid"
   | "abstract_blocks"
-  | "symbol_plate";
+  | "symbol_plate"
+  | "layered_atmosphere"
+  | "duotone_plate"
+  | "collage_cutouts"
+  | "seasonal_confetti"
+  | "riso_halftone";
 
 // ── Public API ────────────────────────────────────────────────────────────────
 
-const LOCAL_RENDER_MODES: readonly DesignMode[] = [
+/** Modes whose lanes skip the AI path and render here by default. */
+const LOCAL_ROUTED_MODES: readonly DesignMode[] = [
   "typography_led",
   "minimal_editorial",
   "modern_abstract",
   "graphic_symbol",
 ];
 
+/** Whether the deterministic renderer has a plate for this mode (every DesignMode does). */
 export function canRenderDesignModeLocally(mode: DesignMode): boolean {
-  return LOCAL_RENDER_MODES.includes(mode);
+  return DESIGN_MODES.includes(mode);
+}
+
+/** Whether a lane in this mode should render locally instead of via AI scout/rebuild. */
+export function shouldRenderDesignModeLocally(mode: DesignMode): boolean {
+  return LOCAL_ROUTED_MODES.includes(mode);
 }
 
 export async function renderDesignModeDirectionPreview(
@@ -144,11 +176,11 @@ export async function renderDesignModeDirectionPreview(
     palette: lockupPalette,
     lockupRecipe: recipeOverride,
   });
-  void layout; // computed for future reuse; currently the SVG drives the lockup
+  // The SVG drives the lockup; the layout is kept for its text-fit report.
   const { png: lockupPng } = await renderTrimmedLockupPngFromSvg(overlaySvg);
 
   // 3. Compose wide: background + lockup positioned per recipe alignment.
-  const widePng = await composeWide({
+  const composed = await composeWide({
     backgroundPng,
     lockupPng,
     width: input.width,
@@ -158,25 +190,57 @@ export async function renderDesignModeDirectionPreview(
     safeMarginPct: recipeOverride.placement.safeMarginPct,
   });
 
-  // 4. Evidence — honest by construction. Deterministic SVG plates contain no
+  // 4. Corner bug — the church logo in a corner the lockup left free.
+  const titleRegion: LockupSafeRegionRatio = {
+    left: composed.lockupBox.left / input.width,
+    top: composed.lockupBox.top / input.height,
+    width: composed.lockupBox.width / input.width,
+    height: composed.lockupBox.height / input.height,
+  };
+  let widePng = composed.png;
+  let logoLayout: LockupLogoLayout | null = null;
+  if (input.logoSource) {
+    const { prepareCornerBugForBackground } = await import("@/lib/lockups/logo-variants");
+    const { composeCornerBugOnImage } = await import("@/lib/lockup-compositor");
+    const cornerBug = await prepareCornerBugForBackground({
+      source: input.logoSource,
+      lockupRecipe: recipeOverride,
+      backgroundPng,
+      shape: input.width > input.height ? "wide" : input.width < input.height ? "tall" : "square",
+      width: input.width,
+      height: input.height,
+      safeRegion: titleRegion,
+    });
+    if (cornerBug) {
+      widePng = await composeCornerBugOnImage({
+        png: widePng,
+        width: input.width,
+        height: input.height,
+        cornerBug,
+      });
+      logoLayout = cornerBug.layout;
+    }
+  }
+
+  // 5. Evidence — honest by construction. Deterministic SVG plates contain no
   //    rendered text and no scaffold text. motifPresent reflects whether the
   //    background kind ACTUALLY rendered a non-text design structure.
   //
-  //    All four locally renderable modes now produce visible non-text structure
-  //    by construction:
-  //      - typography_led       → type_support_system (axis + slab + cast shadow [+ motif accent])
-  //      - minimal_editorial    → minimal_editorial_grid (rules + emphasized column + folio label + motif mark)
-  //      - modern_abstract      → abstract_blocks (color blocks + circle accent)
-  //      - graphic_symbol       → symbol_plate (motif-derived vector mark)
+  //    Every mode produces visible non-text structure by construction:
+  //      - typography_led         → type_support_system (axis + slab + cast shadow [+ motif accent])
+  //      - minimal_editorial      → minimal_editorial_grid (rules + emphasized column + folio label + motif mark)
+  //      - modern_abstract        → abstract_blocks (color blocks + circle accent)
+  //      - graphic_symbol         → symbol_plate (motif-derived vector mark)
+  //      - cinematic_atmospheric  → layered_atmosphere (glow + ridge silhouettes [+ rays / reflections])
+  //      - photo_composite        → duotone_plate (framed duotone panel + subject silhouette)
+  //      - illustrative_collage   → collage_cutouts (torn paper + tape + scribble)
+  //      - playful_seasonal       → seasonal_confetti (blobs + confetti + streamer)
+  //      - retro_print            → riso_halftone (halftone spot layers + misregistered shapes)
   //
   //    A renderer that emits "solid_field" would NOT pass; we keep this branch
   //    explicit so honesty is preserved if a future mode forgets to render
   //    structure.
-  const motifPresent =
-    backgroundKind === "type_support_system" ||
-    backgroundKind === "minimal_editorial_grid" ||
-    backgroundKind === "abstract_blocks" ||
-    backgroundKind === "symbol_plate";
+  const motifPresent = backgroundKind !== "solid_field";
   const motifPresentReason = motifPresent
     ? `rendered_${motifStructureKind ?? backgroundKind}`
     : "background_kind_has_no_structure";
@@ -195,6 +259,9 @@ export async function renderDesignModeDirectionPreview(
     backgroundPng,
     lockupPng,
     widePng,
+    logoLayout,
+    lockupRecipe: recipeOverride,
+    titleRegion,
     backgroundEvidence,
     debug: {
       renderer: "deterministic_design_mode_v1",
@@ -208,6 +275,7 @@ export async function renderDesignModeDirectionPreview(
       backgroundKind,
       motifStructureKind,
       motifPresentReason,
+      textFit: layout.textFit,
     },
   };
 }
@@ -281,6 +349,34 @@ function pickModePalette(mode: DesignMode, tone: TonalVariant): ModePalette {
         : tone === "vivid"
         ? baseVivid
         : { ...baseDark, accent: "#F8FAFC" };
+    case "cinematic_atmospheric":
+      // Night/dusk sky with a warm light source.
+      return tone === "light"
+        ? { background: "#E8EEF5", accent: "#F6D7A7", rule: "#9FB3C8", shadow: "#52667E", textOnBackground: "dark" }
+        : tone === "vivid"
+        ? { background: "#2A1245", accent: "#FF9A5A", rule: "#7A3FA0", shadow: "#12061F", textOnBackground: "light" }
+        : { background: "#0B1324", accent: "#F4C98B", rule: "#3B4A6B", shadow: "#020617", textOnBackground: "light" };
+    case "photo_composite":
+      // Duotone: shadow → accent are the two inks of the photo panel.
+      return tone === "light"
+        ? { background: "#EDE7DD", accent: "#C9B79C", rule: "#A89F91", shadow: "#3F3A34", textOnBackground: "dark" }
+        : tone === "vivid"
+        ? { background: "#141033", accent: "#F06A8A", rule: "#5B4FCF", shadow: "#0A0820", textOnBackground: "light" }
+        : { background: "#111827", accent: "#D6B58A", rule: "#4B5563", shadow: "#030712", textOnBackground: "light" };
+    case "illustrative_collage":
+      // Paper stock with cut-paper inks.
+      return tone === "dark" || tone === "mono"
+        ? { background: "#1F2A2E", accent: "#E07A5F", rule: "#81B29A", shadow: "#0B1215", textOnBackground: "light" }
+        : { background: "#F1EADB", accent: "#D9573B", rule: "#2F5D62", shadow: "#1F2937", textOnBackground: "dark" };
+    case "playful_seasonal":
+      return tone === "dark" || tone === "vivid"
+        ? { background: "#1D3557", accent: "#FFD166", rule: "#EF476F", shadow: "#0B1A2E", textOnBackground: "light" }
+        : { background: "#FFF4E0", accent: "#FF5A5F", rule: "#2EC4B6", shadow: "#1D3557", textOnBackground: "dark" };
+    case "retro_print":
+      // Two riso inks on paper: accent and rule are the spot colors.
+      return tone === "dark" || tone === "mono"
+        ? { background: "#1E2A38", accent: "#F2A541", rule: "#E4572E", shadow: "#0E151D", textOnBackground: "light" }
+        : { background: "#F2E8D5", accent: "#E4572E", rule: "#1F6FB2", shadow: "#2B2B2B", textOnBackground: "dark" };
     default:
       return palette;
   }
@@ -342,6 +438,16 @@ function buildBackgroundSvg(input: BuildBgInput): BuildBgResult {
       return buildModernAbstractBackground(input);
     case "graphic_symbol":
       return buildGraphicSymbolBackground(input);
+    case "cinematic_atmospheric":
+      return buildCinematicAtmosphericBackground(input);
+    case "photo_composite":
+      return buildPhotoCompositeBackground(input);
+    case "illustrative_collage":
+      return buildIllustrativeCollageBackground(input);
+    case "playful_seasonal":
+      return buildPlayfulSeasonalBackground(input);
+    case "retro_print":
+      return buildRetroPrintBackground(input);
     default:
       return {
         svg: solidRectSvg(input.width, input.height, input.palette.background),
@@ -717,6 +823,287 @@ function buildGraphicSymbolBackground(i: BuildBgInput): BuildBgResult {
   return { svg, kind: "symbol_plate", motifStructureKind };
 }
 
+function buildCinematicAtmosphericBackground(i: BuildBgInput): BuildBgResult {
+  // Layered gradients: sky falloff, a warm glow off-center, three ridge
+  // silhouettes receding into haze, and a vignette. The lower-left stays
+  // darkest, where the stacked lockup anchors.
+  const w = i.width;
+  const h = i.height;
+  const rand = seededRandom(i.seed);
+  const m = (i.motif ?? "").toLowerCase();
+  const glowX = Math.round(w * 0.68);
+  const glowY = Math.round(h * 0.42);
+
+  const ridges: string[] = [];
+  for (let layer = 0; layer < 3; layer++) {
+    const baseY = h * (0.58 + layer * 0.1);
+    const amplitude = h * (0.09 - layer * 0.02);
+    const steps = 6 + layer * 2;
+    let path = `M 0 ${h} L 0 ${baseY.toFixed(1)}`;
+    for (let step = 1; step <= steps; step++) {
+      const x = (w * step) / steps;
+      const y = baseY - amplitude * (0.3 + rand() * 0.7);
+      path += ` L ${x.toFixed(1)} ${y.toFixed(1)}`;
+    }
+    path += ` L ${w} ${h} Z`;
+    ridges.push(`<path d="${path}" fill="${i.palette.shadow}" fill-opacity="${(0.45 + layer * 0.2).toFixed(2)}"/>`);
+  }
+
+  // Motif accent: light → rays from the glow; water → reflections under the horizon.
+  let accentKind = "ridge_layers";
+  const accents: string[] = [];
+  if (/light|radian|dawn|glory|sun|star/.test(m)) {
+    accentKind = "glow_rays";
+    for (let ray = 0; ray < 9; ray++) {
+      const angle = Math.PI * (0.15 + (ray * 0.7) / 8);
+      const len = Math.max(w, h);
+      accents.push(
+        `<line x1="${glowX}" y1="${glowY}" x2="${(glowX + Math.cos(angle) * len).toFixed(1)}" y2="${(glowY - Math.sin(angle) * len).toFixed(1)}" stroke="${i.palette.accent}" stroke-width="${(h * 0.012).toFixed(1)}" stroke-opacity="0.08"/>`
+      );
+    }
+  } else if (/water|river|wave|sea|ocean|flow/.test(m)) {
+    accentKind = "horizon_reflections";
+    for (let row = 0; row < 6; row++) {
+      const y = h * (0.74 + row * 0.035);
+      const half = w * (0.16 - row * 0.02);
+      accents.push(
+        `<line x1="${(glowX - half).toFixed(1)}" y1="${y.toFixed(1)}" x2="${(glowX + half).toFixed(1)}" y2="${y.toFixed(1)}" stroke="${i.palette.accent}" stroke-width="${(h * 0.006).toFixed(1)}" stroke-opacity="${(0.35 - row * 0.04).toFixed(2)}" stroke-linecap="round"/>`
+      );
+    }
+  }
+
+  const svg = svgWrap(w, h, [
+    `<defs>`,
+    `<linearGradient id="sky" x1="0" y1="0" x2="0" y2="1"><stop offset="0" stop-color="${i.palette.shadow}"/><stop offset="0.65" stop-color="${i.palette.background}"/><stop offset="1" stop-color="${i.palette.rule}"/></linearGradient>`,
+    `<radialGradient id="glow" cx="${glowX}" cy="${glowY}" r="${Math.round(h * 0.6)}" gradientUnits="userSpaceOnUse"><stop offset="0" stop-color="${i.palette.accent}" stop-opacity="0.75"/><stop offset="0.35" stop-color="${i.palette.accent}" stop-opacity="0.25"/><stop offset="1" stop-color="${i.palette.accent}" stop-opacity="0"/></radialGradient>`,
+    `<linearGradient id="haze" x1="0" y1="0" x2="0" y2="1"><stop offset="0" stop-color="${i.palette.rule}" stop-opacity="0"/><stop offset="1" stop-color="${i.palette.rule}" stop-opacity="0.35"/></linearGradient>`,
+    `<radialGradient id="vignette" cx="0.5" cy="0.5" r="0.75"><stop offset="0.55" stop-color="${i.palette.shadow}" stop-opacity="0"/><stop offset="1" stop-color="${i.palette.shadow}" stop-opacity="0.7"/></radialGradient>`,
+    `</defs>`,
+    `<rect width="${w}" height="${h}" fill="url(#sky)"/>`,
+    `<rect width="${w}" height="${h}" fill="url(#glow)"/>`,
+    ...accents,
+    ridges[0],
+    `<rect y="${Math.round(h * 0.5)}" width="${w}" height="${Math.round(h * 0.25)}" fill="url(#haze)"/>`,
+    ridges[1],
+    ridges[2],
+    `<rect width="${w}" height="${h}" fill="url(#vignette)"/>`,
+    subtleNoiseRect(w, h, i.palette.accent, 0.05),
+  ]);
+  return { svg, kind: "layered_atmosphere", motifStructureKind: `layered_atmosphere_with_${accentKind}` };
+}
+
+function buildPhotoCompositeBackground(i: BuildBgInput): BuildBgResult {
+  // Stand-in for a photograph: a framed duotone panel on the right with a lit
+  // subject silhouette and a light leak. The left field stays flat for the
+  // bottom-left titleplate.
+  const w = i.width;
+  const h = i.height;
+  const panelX = Math.round(w * 0.42);
+  const panelY = Math.round(h * 0.08);
+  const panelW = Math.round(w * 0.52);
+  const panelH = Math.round(h * 0.84);
+  const subject = buildSymbolMark({
+    motif: i.motif,
+    cx: Math.round(panelX + panelW * 0.5),
+    cy: Math.round(panelY + panelH * 0.55),
+    scale: Math.round(panelH * 0.32),
+    color: i.palette.shadow,
+    accent: i.palette.shadow,
+  });
+  const svg = svgWrap(w, h, [
+    `<defs>`,
+    `<linearGradient id="duotone" x1="0" y1="0" x2="1" y2="1"><stop offset="0" stop-color="${i.palette.accent}"/><stop offset="1" stop-color="${i.palette.shadow}"/></linearGradient>`,
+    `<radialGradient id="keylight" cx="0.5" cy="0.4" r="0.55"><stop offset="0" stop-color="#FFFFFF" stop-opacity="0.35"/><stop offset="1" stop-color="#FFFFFF" stop-opacity="0"/></radialGradient>`,
+    `<clipPath id="panel"><rect x="${panelX}" y="${panelY}" width="${panelW}" height="${panelH}"/></clipPath>`,
+    `</defs>`,
+    `<rect width="${w}" height="${h}" fill="${i.palette.background}"/>`,
+    `<g clip-path="url(#panel)">`,
+    `<rect x="${panelX}" y="${panelY}" width="${panelW}" height="${panelH}" fill="url(#duotone)"/>`,
+    `<rect x="${panelX}" y="${panelY}" width="${panelW}" height="${panelH}" fill="url(#keylight)"/>`,
+    `<g opacity="0.85">${subject}</g>`,
+    `<polygon points="${panelX},${panelY} ${panelX + Math.round(panelW * 0.35)},${panelY} ${panelX},${panelY + Math.round(panelH * 0.6)}" fill="${i.palette.accent}" fill-opacity="0.25"/>`,
+    subtleNoiseRect(w, h, i.palette.shadow, 0.12),
+    `</g>`,
+    `<rect x="${panelX}" y="${panelY}" width="${panelW}" height="${panelH}" fill="none" stroke="${i.palette.rule}" stroke-width="${Math.max(2, Math.round(h * 0.004))}"/>`,
+  ]);
+  return {
+    svg,
+    kind: "duotone_plate",
+    motifStructureKind: i.motif ? `duotone_plate_with_${i.motif.toLowerCase().replace(/[^a-z0-9]+/g, "_")}` : "duotone_plate_with_generic_subject",
+  };
+}
+
+function buildIllustrativeCollageBackground(i: BuildBgInput): BuildBgResult {
+  // Collage cutouts: torn-paper pieces around the edges (center kept open for
+  // the framed lockup), tape strips, a hand scribble and a stamp ring.
+  const w = i.width;
+  const h = i.height;
+  const rand = seededRandom(i.seed);
+  const inks = [i.palette.accent, i.palette.rule, i.palette.shadow, i.palette.accent, i.palette.rule];
+  const anchors: Array<[number, number]> = [
+    [0.12, 0.2],
+    [0.86, 0.18],
+    [0.1, 0.82],
+    [0.88, 0.8],
+    [0.52, 0.9],
+  ];
+
+  const pieces: string[] = [];
+  const tapes: string[] = [];
+  anchors.forEach(([ax, ay], index) => {
+    const cx = w * ax;
+    const cy = h * ay;
+    const pw = w * (0.16 + rand() * 0.1);
+    const ph = h * (0.2 + rand() * 0.14);
+    const rotation = (rand() - 0.5) * 24;
+    pieces.push(
+      `<polygon points="${tornRectPoints(cx, cy, pw, ph, rand)}" fill="${inks[index]}" fill-opacity="${(0.7 + rand() * 0.25).toFixed(2)}" transform="rotate(${rotation.toFixed(1)} ${cx.toFixed(1)} ${cy.toFixed(1)})"/>`
+    );
+    tapes.push(
+      `<rect x="${(cx - pw * 0.18).toFixed(1)}" y="${(cy - ph / 2 - h * 0.02).toFixed(1)}" width="${(pw * 0.36).toFixed(1)}" height="${(h * 0.04).toFixed(1)}" fill="#FFFFFF" fill-opacity="0.45" transform="rotate(${(rotation + (rand() - 0.5) * 16).toFixed(1)} ${cx.toFixed(1)} ${(cy - ph / 2).toFixed(1)})"/>`
+    );
+  });
+
+  let scribble = `M ${(w * 0.2).toFixed(1)} ${(h * 0.5).toFixed(1)}`;
+  for (let step = 1; step <= 8; step++) {
+    const x = w * (0.2 + step * 0.075);
+    const y = h * (0.5 + (step % 2 === 0 ? -1 : 1) * (0.03 + rand() * 0.03));
+    scribble += ` Q ${(x - w * 0.035).toFixed(1)} ${(y + (rand() - 0.5) * h * 0.08).toFixed(1)} ${x.toFixed(1)} ${y.toFixed(1)}`;
+  }
+
+  const stampX = w * 0.76;
+  const stampY = h * 0.52;
+  const svg = svgWrap(w, h, [
+    `<rect width="${w}" height="${h}" fill="${i.palette.background}"/>`,
+    subtleNoiseRect(w, h, i.palette.shadow, 0.1),
+    ...pieces,
+    ...tapes,
+    `<path d="${scribble}" fill="none" stroke="${i.palette.shadow}" stroke-width="${(h * 0.005).toFixed(1)}" stroke-opacity="0.55" stroke-linecap="round" stroke-linejoin="round"/>`,
+    `<circle cx="${stampX.toFixed(1)}" cy="${stampY.toFixed(1)}" r="${(h * 0.07).toFixed(1)}" fill="none" stroke="${i.palette.accent}" stroke-width="${(h * 0.006).toFixed(1)}" stroke-opacity="0.6" stroke-dasharray="${(h * 0.02).toFixed(1)} ${(h * 0.008).toFixed(1)}"/>`,
+  ]);
+  return { svg, kind: "collage_cutouts", motifStructureKind: "torn_paper_cutouts_with_scribble" };
+}
+
+function buildPlayfulSeasonalBackground(i: BuildBgInput): BuildBgResult {
+  // Celebratory field: two soft corner blobs, a streamer across the top and
+  // seeded confetti that thins out over the bottom-center titleplate.
+  const w = i.width;
+  const h = i.height;
+  const rand = seededRandom(i.seed);
+  const colors = [i.palette.accent, i.palette.rule, i.palette.shadow];
+
+  const confetti: string[] = [];
+  for (let piece = 0; piece < 48; piece++) {
+    const x = rand() * w;
+    const y = rand() * h;
+    if (y > h * 0.5 && Math.abs(x - w / 2) < w * 0.32) continue; // keep the titleplate clear
+    const color = colors[piece % colors.length];
+    const size = h * (0.012 + rand() * 0.018);
+    const rotation = (rand() * 180).toFixed(1);
+    const shape = piece % 3;
+    if (shape === 0) {
+      confetti.push(`<circle cx="${x.toFixed(1)}" cy="${y.toFixed(1)}" r="${(size / 2).toFixed(1)}" fill="${color}"/>`);
+    } else if (shape === 1) {
+      confetti.push(
+        `<rect x="${(x - size).toFixed(1)}" y="${(y - size / 3).toFixed(1)}" width="${(size * 2).toFixed(1)}" height="${(size / 1.5).toFixed(1)}" rx="${(size / 3).toFixed(1)}" fill="${color}" transform="rotate(${rotation} ${x.toFixed(1)} ${y.toFixed(1)})"/>`
+      );
+    } else {
+      confetti.push(
+        `<polygon points="${x.toFixed(1)},${(y - size).toFixed(1)} ${(x + size).toFixed(1)},${(y + size).toFixed(1)} ${(x - size).toFixed(1)},${(y + size).toFixed(1)}" fill="${color}" transform="rotate(${rotation} ${x.toFixed(1)} ${y.toFixed(1)})"/>`
+      );
+    }
+  }
+
+  const streamerY = h * 0.16;
+  const segment = w / 8;
+  let streamer = `M 0 ${streamerY.toFixed(1)}`;
+  for (let step = 0; step < 8; step++) {
+    streamer += ` q ${(segment / 2).toFixed(1)} ${((step % 2 === 0 ? -1 : 1) * h * 0.06).toFixed(1)} ${segment.toFixed(1)} 0`;
+  }
+
+  const svg = svgWrap(w, h, [
+    `<rect width="${w}" height="${h}" fill="${i.palette.background}"/>`,
+    `<circle cx="${Math.round(w * 0.05)}" cy="${Math.round(h * 0.95)}" r="${Math.round(h * 0.42)}" fill="${i.palette.rule}" fill-opacity="0.22"/>`,
+    `<circle cx="${Math.round(w * 0.95)}" cy="${Math.round(h * 0.08)}" r="${Math.round(h * 0.36)}" fill="${i.palette.accent}" fill-opacity="0.22"/>`,
+    `<path d="${streamer}" fill="none" stroke="${i.palette.accent}" stroke-width="${(h * 0.012).toFixed(1)}" stroke-linecap="round"/>`,
+    ...confetti,
+  ]);
+  return { svg, kind: "seasonal_confetti", motifStructureKind: "confetti_with_streamer" };
+}
+
+function buildRetroPrintBackground(i: BuildBgInput): BuildBgResult {
+  // Two-color riso print: each ink is a halftone dot screen at its own angle.
+  // A sunburst (light/generic motifs) or stacked stripes (water/horizon) in
+  // the first ink, a misregistered circle in the second, on paper with specks.
+  const w = i.width;
+  const h = i.height;
+  const m = (i.motif ?? "").toLowerCase();
+  const dot = Math.max(6, Math.round(h * 0.012));
+  const cx = Math.round(w * 0.5);
+  const cy = Math.round(h * 0.56);
+  const radius = Math.round(h * 0.34);
+  // Misregistration: the second ink is offset a few pixels, as on a real drum.
+  const offset = Math.max(3, Math.round(h * 0.006));
+
+  let shapeKind: "sunburst" | "stripes";
+  const firstInk: string[] = [];
+  if (/water|river|wave|sea|ocean|flow|mountain|horizon/.test(m)) {
+    shapeKind = "stripes";
+    for (let stripe = 0; stripe < 5; stripe++) {
+      const y = Math.round(h * (0.52 + stripe * 0.085));
+      firstInk.push(`<rect x="0" y="${y}" width="${w}" height="${Math.round(h * 0.05)}" fill="url(#inkA)"/>`);
+    }
+  } else {
+    shapeKind = "sunburst";
+    const rays = 18;
+    for (let ray = 0; ray < rays; ray += 2) {
+      const a0 = (ray * Math.PI * 2) / rays;
+      const a1 = ((ray + 1) * Math.PI * 2) / rays;
+      const len = Math.max(w, h);
+      firstInk.push(
+        `<polygon points="${cx},${cy} ${(cx + Math.cos(a0) * len).toFixed(1)},${(cy + Math.sin(a0) * len).toFixed(1)} ${(cx + Math.cos(a1) * len).toFixed(1)},${(cy + Math.sin(a1) * len).toFixed(1)}" fill="url(#inkA)"/>`
+      );
+    }
+  }
+
+  const svg = svgWrap(w, h, [
+    `<defs>`,
+    `<pattern id="inkA" width="${dot}" height="${dot}" patternUnits="userSpaceOnUse" patternTransform="rotate(15)"><circle cx="${dot / 2}" cy="${dot / 2}" r="${(dot * 0.38).toFixed(1)}" fill="${i.palette.accent}"/></pattern>`,
+    `<pattern id="inkB" width="${dot}" height="${dot}" patternUnits="userSpaceOnUse" patternTransform="rotate(75)"><circle cx="${dot / 2}" cy="${dot / 2}" r="${(dot * 0.42).toFixed(1)}" fill="${i.palette.rule}"/></pattern>`,
+    `</defs>`,
+    `<rect width="${w}" height="${h}" fill="${i.palette.background}"/>`,
+    `<g opacity="0.55">${firstInk.join("")}</g>`,
+    `<circle cx="${cx}" cy="${cy}" r="${radius}" fill="url(#inkB)" fill-opacity="0.9"/>`,
+    `<circle cx="${cx + offset}" cy="${cy - offset}" r="${radius}" fill="none" stroke="${i.palette.accent}" stroke-width="${Math.max(2, Math.round(h * 0.006))}" stroke-opacity="0.8"/>`,
+    `<rect x="${offset}" y="${Math.round(h * 0.9) + offset}" width="${w}" height="${Math.round(h * 0.1)}" fill="${i.palette.rule}" fill-opacity="0.75"/>`,
+    subtleNoiseRect(w, h, i.palette.shadow, 0.12),
+  ]);
+  return { svg, kind: "riso_halftone", motifStructureKind: `riso_halftone_${shapeKind}` };
+}
+
+/** Jagged "torn paper" outline around a rectangle centered at (cx, cy). */
+function tornRectPoints(cx: number, cy: number, width: number, height: number, rand: () => number): string {
+  const points: string[] = [];
+  const edge = (x0: number, y0: number, x1: number, y1: number, steps: number) => {
+    for (let step = 0; step < steps; step++) {
+      const t = step / steps;
+      const jitter = (rand() - 0.5) * Math.min(width, height) * 0.08;
+      const x = x0 + (x1 - x0) * t + (y0 === y1 ? 0 : jitter);
+      const y = y0 + (y1 - y0) * t + (y0 === y1 ? jitter : 0);
+      points.push(`${x.toFixed(1)},${y.toFixed(1)}`);
+    }
+  };
+  const left = cx - width / 2;
+  const right = cx + width / 2;
+  const top = cy - height / 2;
+  const bottom = cy + height / 2;
+  edge(left, top, right, top, 10);
+  edge(right, top, right, bottom, 8);
+  edge(right, bottom, left, bottom, 10);
+  edge(left, bottom, left, top, 8);
+  return points.join(" ");
+}
+
 // ── Symbol mark library (motif → simple vector form) ────────────────────────
 
 function buildSymbolMark(input: {
@@ -833,6 +1220,18 @@ function svgWrap(width: number, height: number, parts: string[]): string {
   ].join("");
 }
 
+/** Deterministic PRNG (mulberry32) so seeded plates render identically every time. */
+function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
 function solidRectSvg(width: number, height: number, color: string): string {
   return svgWrap(width, height, [`<rect width="${width}" height="${height}" fill="${color}"/>`]);
 }
@@ -873,7 +1272,7 @@ async function composeWide(params: {
     | "bottom_left"
     | "bottom_center";
   safeMarginPct: number;
-}): Promise<Buffer> {
+}): Promise<{ png: Buffer; lockupBox: { left: number; top: number; width: number; height: number } }> {
   const { width, height, safeMarginPct, anchor, alignment } = params;
 
   // Lockup may have been rendered at higher pixel scale than canvas.
@@ -924,8 +1323,9 @@ async function composeWide(params: {
   left = Math.max(0, Math.min(left, width - lockupW));
   top = Math.max(0, Math.min(top, height - lockupH));
 
-  return sharp(params.backgroundPng, { failOn: "none" })
+  const png = await sharp(params.backgroundPng, { failOn: "none" })
     .composite([{ input: lockupBuf, left, top }])
     .png()
     .toBuffer();
+  return { png, lockupBox: { left, top, width: lockupW, height: lockupH } };
 }
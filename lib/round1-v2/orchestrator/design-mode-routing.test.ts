@@ -1,11 +1,11 @@
 import assert from "node:assert/strict";
 import test from "node:test";
-import { canRenderDesignModeLocally } from "./design-mode-renderer";
+import { shouldRenderDesignModeLocally } from "./design-mode-renderer";
 import { planDesignModes } from "./plan-design-modes";
 
 // These tests prove the routing decision the orchestrator makes per lane.
 // They do not exercise FAL or DB — the orchestrator's actual routing path
-// is a single line: `if (canRenderDesignModeLocally(mode))`.
+// is a single line: `if (shouldRenderDesignModeLocally(mode))`.
 
 test("routing partitions a Gospel of John plan into local + AI lanes", () => {
   const plan = planDesignModes({
@@ -15,8 +15,8 @@ test("routing partitions a Gospel of John plan into local + AI lanes", () => {
     motifHints: ["light", "water"],
     runSeed: "routing-test-1",
   });
-  const local = plan.lanes.filter((l) => canRenderDesignModeLocally(l.mode));
-  const ai = plan.lanes.filter((l) => !canRenderDesignModeLocally(l.mode));
+  const local = plan.lanes.filter((l) => shouldRenderDesignModeLocally(l.mode));
+  const ai = plan.lanes.filter((l) => !shouldRenderDesignModeLocally(l.mode));
   // We should have at least one of each for a balanced expository plan.
   assert.ok(local.length >= 1, `expected at least 1 local lane, got ${local.length}`);
   assert.ok(ai.length >= 1, `expected at least 1 AI lane, got ${ai.length}`);
@@ -24,12 +24,12 @@ test("routing partitions a Gospel of John plan into local + AI lanes", () => {
 });
 
 test("routing: typography_led + minimal_editorial route locally; cinematic_atmospheric routes to AI", () => {
-  assert.equal(canRenderDesignModeLocally("typography_led"), true);
-  assert.equal(canRenderDesignModeLocally("minimal_editorial"), true);
-  assert.equal(canRenderDesignModeLocally("modern_abstract"), true);
-  assert.equal(canRenderDesignModeLocally("graphic_symbol"), true);
-  assert.equal(canRenderDesignModeLocally("cinematic_atmospheric"), false);
-  assert.equal(canRenderDesignModeLocally("photo_composite"), false);
+  assert.equal(shouldRenderDesignModeLocally("typography_led"), true);
+  assert.equal(shouldRenderDesignModeLocally("minimal_editorial"), true);
+  assert.equal(shouldRenderDesignModeLocally("modern_abstract"), true);
+  assert.equal(shouldRenderDesignModeLocally("graphic_symbol"), true);
+  assert.equal(shouldRenderDesignModeLocally("cinematic_atmospheric"), false);
+  assert.equal(shouldRenderDesignModeLocally("photo_composite"), false);
 });
 
 test("routing: an all-cinematic-tone plan still routes through AI for cinematic lanes", () => {
@@ -44,7 +44,7 @@ test("routing: an all-cinematic-tone plan still routes through AI for cinematic
   // We don't require all 3 to be cinematic — just that any cinematic lane is AI.
   for (const lane of plan.lanes) {
     if (lane.mode === "cinematic_atmospheric") {
-      assert.equal(canRenderDesignModeLocally(lane.mode), false);
+      assert.equal(shouldRenderDesignModeLocally(lane.mode), false);
     }
   }
 });
@@ -57,7 +57,7 @@ test("routing: orchestrator-level invariant — every lane is either local OR AI
     runSeed: "routing-invariant",
   });
   for (const lane of plan.lanes) {
-    const isLocal = canRenderDesignModeLocally(lane.mode);
+    const isLocal = shouldRenderDesignModeLocally(lane.mode);
     // The boolean is well-defined; this asserts the contract is total.
     assert.ok(typeof isLocal === "boolean");
   }
@@ -0,0 +1,110 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { PREVIEW_DIMENSIONS } from "@/lib/lockup-compositor";
+import type { LockupTextPalette } from "@/lib/lockups/renderer";
+import { validateExportPackageContract } from "@/lib/production-valid-option";
+import { buildCleanMinimalDesignDoc } from "@/lib/templates/type-clean-min";
+import { planAspectReframe, REFRAME_ASPECTS, type AspectReframePlan, type ReframeAspect } from "./aspect-reframe";
+import { buildV2ExportPackage, type V2AspectFiles } from "./export-package";
+
+const content = { title: "Abide", subtitle: "Finding Rest In Him", passage: null };
+const palette: LockupTextPalette = {
+  primary: "#FFFFFF",
+  secondary: "#F1F5F9",
+  tertiary: "#E2E8F0",
+  rule: "#FFFFFF",
+  accent: "#FFFFFF",
+  autoScrim: false,
+  scrimTint: "#000000",
+};
+const backgroundEvidence = {
+  source: "generated" as const,
+  sourceGenerationId: null,
+  textFree: true,
+  scaffoldFree: true,
+  motifPresent: true,
+  toneFit: true,
+  referenceFit: null,
+};
+const lockupEvidence = {
+  source: "generated" as const,
+  sourceGenerationId: null,
+  textIntegrity: true,
+  fitPass: true,
+  insideTitleSafeWithMargin: null,
+  notTooSmall: null,
+};
+
+function reframedAspectFiles(plans: Record<ReframeAspect, AspectReframePlan>): Record<ReframeAspect, V2AspectFiles> {
+  const files = {} as Record<ReframeAspect, V2AspectFiles>;
+  for (const aspect of REFRAME_ASPECTS) {
+    const { width, height } = PREVIEW_DIMENSIONS[aspect];
+    files[aspect] = {
+      bgPath: `uploads/gen-1-${aspect}-bg.png`,
+      finPath: `uploads/gen-1-${aspect}.png`,
+      designDoc: buildCleanMinimalDesignDoc({
+        width,
+        height,
+        content,
+        palette,
+        backgroundImagePath: `uploads/gen-1-${aspect}-bg.png`,
+        titleSafeRegion: plans[aspect].titleSafeRegion,
+        lockupAlign: "left",
+      }),
+    };
+  }
+  return files;
+}
+
+test("reframed V2 aspects pass the export package contract with docs inside the reframed title region", () => {
+  const plans = {} as Record<ReframeAspect, AspectReframePlan>;
+  for (const aspect of REFRAME_ASPECTS) {
+    plans[aspect] = planAspectReframe({ grammarKey: "edge_anchored_motif", aspect, sourceWidth: 1344, sourceHeight: 768 });
+  }
+  const { output, assets } = buildV2ExportPackage({
+    projectId: "project-1",
+    generationId: "gen-1",
+    lockupPath: "uploads/gen-1-lockup.png",
+    wide: {
+      bgPath: "uploads/gen-1-wide-bg.png",
+      finPath: "uploads/gen-1-wide.png",
+      designDoc: buildCleanMinimalDesignDoc({
+        ...PREVIEW_DIMENSIONS.wide,
+        content,
+        palette,
+        backgroundImagePath: "uploads/gen-1-wide-bg.png",
+      }),
+    },
+    aspects: reframedAspectFiles(plans),
+    dimensions: PREVIEW_DIMENSIONS,
+    backgroundEvidence,
+    lockupEvidence,
+  });
+  const { productionValidation, ...rest } = output;
+
+  const contract = validateExportPackageContract({
+    output: { ...rest, meta: { productionValidation } },
+    assets: assets.map((asset) => ({ kind: String(asset.kind), slot: asset.slot ?? null, file_path: asset.file_path })),
+  });
+  assert.deepEqual(contract, { valid: true, invalidReasons: [], missingSlots: [] });
+
+  for (const aspect of REFRAME_ASPECTS) {
+    const region = plans[aspect].titleSafeRegion;
+    assert.ok(region, `${aspect} should have a reframed title region`);
+    const { width, height } = PREVIEW_DIMENSIONS[aspect];
+    const textLayers = output.designDocByShape[aspect].layers.filter((layer) => layer.type === "text");
+    assert.ok(textLayers.length > 0);
+    for (const layer of textLayers) {
+      assert.ok(layer.x >= Math.round(width * region.left) - 1, `${aspect} text starts left of the title region`);
+      assert.ok(layer.y >= Math.round(height * region.top) - 1, `${aspect} text starts above the title region`);
+      assert.ok(
+        layer.x + layer.w <= Math.round(width * (region.left + region.width)) + 1,
+        `${aspect} text runs past the title region`
+      );
+      assert.ok(
+        layer.y + layer.h <= Math.round(height * (region.top + region.height)) + 1,
+        `${aspect} text runs below the title region`
+      );
+    }
+  }
+});
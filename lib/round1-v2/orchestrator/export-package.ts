@@ -0,0 +1,67 @@
+import type { Prisma } from "@prisma/client";
+import type { DesignDoc } from "@/lib/design-doc";
+import type {
+  ProductionBackgroundValidationEvidence,
+  ProductionLockupValidationEvidence,
+} from "@/lib/production-valid-option";
+import type { ReframeAspect } from "./aspect-reframe";
+
+// The export-package half of a completed V2 lane: design docs, previews, evidence and asset
+// rows for all three aspects. Both the AI rebuild and the deterministic lanes settle through
+// this so their outputs satisfy the same export contract. Sizes are passed in because
+// lockup-compositor is only loaded lazily inside runRoundOneV2.
+
+export interface V2AspectFiles {
+  bgPath: string;
+  finPath: string;
+  designDoc: DesignDoc;
+}
+
+export function buildV2ExportPackage(params: {
+  projectId: string;
+  generationId: string;
+  lockupPath: string;
+  wide: V2AspectFiles;
+  aspects: Record<ReframeAspect, V2AspectFiles>;
+  dimensions: Record<"wide" | ReframeAspect, { width: number; height: number }>;
+  backgroundEvidence: ProductionBackgroundValidationEvidence;
+  lockupEvidence: ProductionLockupValidationEvidence;
+}) {
+  const { projectId, generationId, wide, aspects, dimensions } = params;
+  const output = {
+    status: "COMPLETED" as const,
+    designDoc: wide.designDoc,
+    designDocByShape: {
+      wide: wide.designDoc,
+      square: aspects.square.designDoc,
+      tall: aspects.tall.designDoc,
+    },
+    preview: {
+      widescreen_main: wide.finPath,
+      square_main: aspects.square.finPath,
+      vertical_main: aspects.tall.finPath,
+    },
+    productionValidation: {
+      stage: "export_package" as const,
+      background: params.backgroundEvidence,
+      lockup: params.lockupEvidence,
+      aspects: {
+        widescreen: { provenance: "rendered" as const },
+        square: { provenance: "rendered" as const },
+        vertical: { provenance: "rendered" as const },
+      },
+    },
+  };
+
+  const assets: Prisma.AssetCreateManyInput[] = [
+    { projectId, generationId, kind: "BACKGROUND", slot: "wide_bg", file_path: wide.bgPath, mime_type: "image/png", ...dimensions.wide },
+    { projectId, generationId, kind: "LOCKUP", slot: "series_lockup", file_path: params.lockupPath, mime_type: "image/png", width: null, height: null },
+    { projectId, generationId, kind: "IMAGE", slot: "wide", file_path: wide.finPath, mime_type: "image/png", ...dimensions.wide },
+    ...(["square", "tall"] as const).flatMap((aspect): Prisma.AssetCreateManyInput[] => [
+      { projectId, generationId, kind: "BACKGROUND", slot: `${aspect}_bg`, file_path: aspects[aspect].bgPath, mime_type: "image/png", ...dimensions[aspect] },
+      { projectId, generationId, kind: "IMAGE", slot: aspect, file_path: aspects[aspect].finPath, mime_type: "image/png", ...dimensions[aspect] },
+    ]),
+  ];
+
+  return { output, assets };
+}
@@ -8,15 +8,18 @@ import type { Prisma } from "@prisma/client";
 import type { ScoutGenerationResult } from "./run-scout-batch";
 import type { ScoutEvalResult } from "../eval/evaluate-scout";
 import type { Round1Engine, Round1V2Result } from "../types";
+import type { Round1V2ShadowPayload } from "../shadow";
 import type { ProductionBackgroundValidationEvidence } from "@/lib/production-valid-option";
 import type { BackfillDebugMeta, TextRetryMeta } from "./lane-backfill";
+import type { SelectedScout } from "./select-scouts";
+import type { ResolvedDesignModeFlags } from "../design-mode-flags";
 import { ROUND1_V2_CONFIG } from "../config";
 
 // ── Constants ─────────────────────────────────────────────────────────────────
 
 const WIDE_WIDTH = 1920;
 const WIDE_HEIGHT = 1080;
-// Square/tall assets are generated at export time, not during Round 1 direction preview.
+// Square/tall are produced alongside wide so V2 options are export-ready without a V1 pass.
 
 // ── Internal helpers ──────────────────────────────────────────────────────────
 
@@ -58,25 +61,39 @@ export class RoundOneV2NotImplementedError extends Error {
   }
 }
 
-export async function runRoundOneV2(projectId: string): Promise<Round1V2Result> {
-  console.log(`[v2] start project=${projectId}`);
+export interface RunRoundOneV2Options {
+  /** Run as a shadow of a V1 launch: lanes are stored with Generation.shadow and never shown. */
+  shadow?: Round1V2ShadowPayload | null;
+  /** Aborts when the generation worker loses the job's lease; lanes not yet settled are left alone. */
+  signal?: AbortSignal;
+}
+
+export async function runRoundOneV2(projectId: string, options: RunRoundOneV2Options = {}): Promise<Round1V2Result> {
+  const shadow = options.shadow ?? null;
+  console.log(`[v2] start project=${projectId}${shadow ? ` shadow v1=[${shadow.v1GenerationIds.join(",")}]` : ""}`);
 
   // All heavy runtime imports are deferred to here so they never land on the
   // startup module graph. They load once on first invocation and are cached.
   const { prisma } = await import("@/lib/prisma");
   const { normalizeBrief } = await import("../briefs/normalize-brief");
   const { buildScoutPlan } = await import("./build-scout-plan");
+  const { buildScoutPrompt } = await import("./build-scout-prompt");
   const { runScoutBatch } = await import("./run-scout-batch");
   const { evaluateScout } = await import("../eval/evaluate-scout");
+  const { evaluateRebuild } = await import("../eval/evaluate-rebuild");
   const { selectScouts } = await import("./select-scouts");
+  const { loadScoutRankingWeights } = await import("../eval/scout-ranking");
+  const { computeScoutDHashes } = await import("../eval/near-duplicate");
+  const { computeDHashFromBuffer } = await import("@/lib/image-hash");
   const { buildBackfillPool, selectEligibleBackfill, runLaneWithBackfill } = await import("./lane-backfill");
   const { planDesignModes } = await import("./plan-design-modes");
+  const { readDesignModePins } = await import("../design-mode-pins");
   const {
     getDesignModeLockupRecipe,
     getDesignModeLockupRecipeOverride,
     shouldSuppressAutoScrim,
   } = await import("./design-mode-lockup-recipes");
-  const { canRenderDesignModeLocally, renderDesignModeDirectionPreview } = await import(
+  const { shouldRenderDesignModeLocally, renderDesignModeDirectionPreview } = await import(
     "./design-mode-renderer"
   );
   const { planBriefSignals } = await import("../briefs/plan-brief-signals");
@@ -85,12 +102,23 @@ export async function runRoundOneV2(projectId: string): Promise<Round1V2Result>
     chooseTextPaletteForBackground,
     buildCleanMinimalOverlaySvg,
     buildCleanMinimalDesignDoc,
+    resolveCleanMinimalLockupRecipe,
   } = await import("@/lib/templates/type-clean-min");
-  const { renderTrimmedLockupPngFromSvg, composeLockupOnBackground } = await import(
-    "@/lib/lockup-compositor"
+  const {
+    renderTrimmedLockupPngFromSvg,
+    composeLockupOnBackground,
+    PREVIEW_DIMENSIONS,
+    LOCKUP_SAFE_REGION_RATIOS,
+  } = await import("@/lib/lockup-compositor");
+  const { loadLockupLogoSource, prepareCornerBugForBackground, prepareLockupLogoForBackground } = await import(
+    "@/lib/lockups/logo-variants"
   );
+  const { resolveEffectiveBrandKit } = await import("@/lib/brand-kit");
+  const { REFRAME_ASPECTS, reframeBackgroundForAspect } = await import("./aspect-reframe");
+  const { buildV2ExportPackage } = await import("./export-package");
   const { evaluateBackgroundAcceptance } = await import("@/lib/production-valid-option");
   const storage = await import("../storage");
+  const { resolveRound1V2ProviderProfile, loadRound1V2Providers } = await import("../providers/registry");
 
   // ── 1. Look up project ─────────────────────────────────────────────────────
 
@@ -104,6 +132,10 @@ export async function runRoundOneV2(projectId: string): Promise<Round1V2Result>
       series_description: true,
       designNotes: true,
       avoidColors: true,
+      round1ProviderOverride: true,
+      round1DesignModePins: true,
+      organizationId: true,
+      brandMode: true,
     },
   });
 
@@ -111,6 +143,21 @@ export async function runRoundOneV2(projectId: string): Promise<Round1V2Result>
     return { error: "Project not found" };
   }
 
+  // Brand-mode projects carry the church logo like V1 finalists: a corner bug
+  // unless the lane's lockup recipe stacks it or sets it inline.
+  let brandLogoSource: Awaited<ReturnType<typeof loadLockupLogoSource>> = null;
+  if (project.brandMode === "brand") {
+    try {
+      const brandKit = await resolveEffectiveBrandKit({
+        organizationId: project.organizationId,
+        projectId: project.id,
+      });
+      brandLogoSource = await loadLockupLogoSource(brandKit?.logoPath);
+    } catch (err) {
+      console.warn(`[v2] brand logo unavailable: ${String(err)}`);
+    }
+  }
+
   // ── 2. Plan brief signals + normalize brief ────────────────────────────────
 
   // Deterministic tone/motif planner — no LLM calls.
@@ -146,8 +193,29 @@ export async function runRoundOneV2(projectId: string): Promise<Round1V2Result>
 
   const runSeed = randomUUID();
 
+  // Providers resolve by profile (project override → env → config); `local` runs offline.
+  const providers = await loadRound1V2Providers(
+    resolveRound1V2ProviderProfile(project.round1ProviderOverride)
+  );
+  console.log(
+    `[v2] providers: profile=${providers.profile} scout=${providers.scout.id}` +
+    ` rebuild=${providers.rebuildPrimary.id}→${providers.rebuildFallback.id}`
+  );
+
   // ── 2b. Plan design modes (A/B/C lane identity) ───────────────────────────
   // Metadata only in phase 1 — does not change prompt or compositor behavior.
+  // Organization/project design-mode flags widen, narrow or pin the lanes;
+  // modes the user pinned on the project page take the open lanes next.
+
+  let designModeFlags: ResolvedDesignModeFlags | null = null;
+  try {
+    designModeFlags = await storage.loadResolvedDesignModeFlags({
+      organizationId: project.organizationId,
+      projectId: project.id,
+    });
+  } catch (err) {
+    console.warn(`[v2] design-mode flags unavailable: ${String(err)}`);
+  }
 
   const designModePlan = planDesignModes({
     title: project.series_title,
@@ -158,28 +226,247 @@ export async function runRoundOneV2(projectId: string): Promise<Round1V2Result>
     toneHint: briefSignals.toneHint,
     motifHints: briefSignals.motifHints,
     runSeed,
+    flags: designModeFlags,
+    pinnedModes: readDesignModePins(project.round1DesignModePins),
   });
 
   console.log(`[v2] design modes: ${designModePlan.summary} distinct=${designModePlan.allDistinct}`);
+  if (designModePlan.flagDecisions.length > 0) {
+    console.log(
+      `[v2] design-mode flags: ${designModePlan.flagDecisions
+        .map((d) => `${d.flag}${d.lane ? `(${d.lane})` : ""}=${d.mode}@${d.scope}:${d.effect}`)
+        .join(" ")}`
+    );
+  }
+  if (designModePlan.pinDecisions.length > 0) {
+    console.log(
+      `[v2] design-mode pins: ${designModePlan.pinDecisions
+        .map((d) => `${d.mode}:${d.effect}${d.lanes.length > 0 ? `(${d.lanes.join(",")})` : ""}`)
+        .join(" ")}`
+    );
+  }
 
   // ── 3. Partition lanes into local-render vs AI-generation ─────────────────
-  // Lanes whose designMode supports deterministic SVG rendering bypass FAL
-  // entirely. Only the remaining lanes become scouts.
+  // Lanes whose designMode is routed to deterministic SVG rendering bypass FAL
+  // entirely. Only the remaining lanes become scouts (and fall back to the
+  // deterministic renderer if the AI path yields nothing).
 
   const aiLaneSpecs = designModePlan.lanes
-    .filter((l) => !canRenderDesignModeLocally(l.mode))
+    .filter((l) => !shouldRenderDesignModeLocally(l.mode))
     .map((l) => ({ laneKey: l.lane, designMode: l.mode }));
   const localLaneCount = designModePlan.lanes.length - aiLaneSpecs.length;
   console.log(
     `[v2] lane routing: aiLanes=${aiLaneSpecs.length} localLanes=${localLaneCount}`
   );
 
+  // ── 3b. Create one Generation record per planned lane (A/B/C) ─────────────
+  //
+  // Lane records are keyed by lane label — independent of whether the lane
+  // ultimately renders deterministically or via AI rebuild. They are created
+  // before any provider call so scout and rebuild lineage can attach to them
+  // as it happens (the generations page streams that lineage as progress).
+  // AI lanes gain their scout metadata once selection picks a winner.
+
+  const lanePlanItems = designModePlan.lanes.map((lp) => ({
+    label: lp.lane,
+    mode: lp.mode,
+    isLocal: shouldRenderDesignModeLocally(lp.mode),
+    aiScout: null as SelectedScout | null,
+    generationId: randomUUID(),
+  }));
+
+  const buildLaneInput = (item: (typeof lanePlanItems)[number]): Prisma.InputJsonValue =>
+    ({
+      v2: true,
+      runSeed,
+      optionLabel: item.label,
+      grammarKey: item.aiScout?.grammarKey ?? null,
+      diversityFamily: item.aiScout?.diversityFamily ?? null,
+      compositeScore: item.aiScout?.compositeScore ?? null,
+      plannedTone: briefSignals.toneHint,
+      plannedMotifs: briefSignals.motifHints,
+      plannerDebug: briefSignals.debug,
+      designMode: item.mode,
+      designModePlan: {
+        summary: designModePlan.summary,
+        allDistinct: designModePlan.allDistinct,
+        lane: designModePlan.lanes.find((l) => l.lane === item.label) ?? null,
+        flagDecisions: designModePlan.flagDecisions,
+        pinDecisions: designModePlan.pinDecisions,
+      },
+      renderer: item.isLocal ? "deterministic_design_mode_v1" : "ai_rebuild",
+      providerProfile: providers.profile,
+      ...(shadow ? { shadowOf: { engine: "v1", generationIds: shadow.v1GenerationIds } } : {}),
+    }) as unknown as Prisma.InputJsonValue;
+
+  await prisma.$transaction(
+    lanePlanItems.map((item) =>
+      prisma.generation.create({
+        data: {
+          id: item.generationId,
+          projectId,
+          round: 1,
+          status: "RUNNING",
+          shadow: shadow !== null,
+          input: buildLaneInput(item),
+        },
+      })
+    )
+  );
+
+  console.log(`[v2] created ${lanePlanItems.length} generation records (lane-keyed)`);
+
+  const DEFAULT_PALETTE: {
+    primary: string;
+    secondary: string;
+    tertiary: string;
+    rule: string;
+    accent: string;
+    autoScrim: boolean;
+    scrimTint: "#FFFFFF" | "#000000";
+    forceTitleOutline: boolean;
+    forceTitleShadow: boolean;
+    forceSubtitleShadow: boolean;
+    safeVariantApplied: boolean;
+  } = {
+    primary: "#F8FAFC",
+    secondary: "#E2E8F0",
+    tertiary: "#CBD5E1",
+    rule: "#F8FAFC",
+    accent: "#F8FAFC",
+    autoScrim: false,
+    scrimTint: "#000000",
+    forceTitleOutline: false,
+    forceTitleShadow: false,
+    forceSubtitleShadow: false,
+    safeVariantApplied: false,
+  };
+
+  const buildV2FailedOutput = (
+    reason: string,
+    label: string,
+    bgEvidence?: ProductionBackgroundValidationEvidence
+  ): object => {
+    const content = { title: brief.title, subtitle: brief.subtitle, passage: brief.scripturePassages };
+    const designDoc = buildCleanMinimalDesignDoc({
+      width: WIDE_WIDTH,
+      height: WIDE_HEIGHT,
+      content,
+      palette: DEFAULT_PALETTE,
+      backgroundImagePath: null,
+    });
+    return {
+      status: "FAILED",
+      designDoc,
+      designDocByShape: { wide: designDoc },
+      notes: `V2 lane ${label} failed: ${reason}`,
+      meta: {
+        styleRefCount: 0,
+        usedStylePaths: [],
+        // Persist real background evidence when available so the UI shows the
+        // honest failure reason (e.g. background_text_detected) rather than
+        // background_text_check_missing.
+        ...(bgEvidence ? { productionValidation: { background: bgEvidence } } : {}),
+        debug: { v2: true, failureReason: reason },
+      },
+    };
+  };
+
+  // Settles every lane record this run created (step 3b) when the run ends
+  // before any lane settles, so a scout-stage failure cannot leave RUNNING
+  // generations — local lanes included — blocking the next Round 1 launch.
+  const settleCreatedLanesFailed = async (reason: string): Promise<void> => {
+    for (const item of lanePlanItems) {
+      try {
+        await prisma.generation.update({
+          where: { id: item.generationId },
+          data: {
+            status: "FAILED",
+            output: buildV2FailedOutput(reason, item.label) as unknown as Prisma.InputJsonValue,
+          },
+        });
+      } catch (settleErr) {
+        console.error(`[v2] lane ${item.label} settle error: ${String(settleErr)}`);
+      }
+    }
+  };
+
+  // ── 3c. Scout lineage persistence (best-effort; non-blocking) ─────────────
+
+  const scoutRunIdBySlotIndex = new Map<number, string>();
+  const persistedResultSlotIndices = new Set<number>();
+
+  // A lane-aware slot belongs to the lane that planned it. A slot without a
+  // laneKey only belongs to a lane once selection picks it for that label, so
+  // its lineage waits for selection (and is skipped when no lane chose it).
+  const laneItemForSlot = (
+    slot: ReturnType<typeof buildScoutPlan>["slots"][number],
+    slotIndex: number,
+    selected: SelectedScout[] | null
+  ): (typeof lanePlanItems)[number] | null => {
+    const label = slot.laneKey ?? selected?.find((s) => s.slotIndex === slotIndex)?.label;
+    if (!label) return null;
+    return lanePlanItems.find((it) => !it.isLocal && it.label === label) ?? null;
+  };
+
+  const persistPlannedScoutRuns = async (
+    scoutPlan: ReturnType<typeof buildScoutPlan>,
+    selected: SelectedScout[] | null
+  ): Promise<void> => {
+    for (const [slotIndex, slot] of scoutPlan.slots.entries()) {
+      if (scoutRunIdBySlotIndex.has(slotIndex)) continue;
+      const item = laneItemForSlot(slot, slotIndex, selected);
+      if (!item) continue;
+      try {
+        const scoutRun = await storage.createScoutRun(
+          storage.buildCreateScoutRunInput({
+            generationId: item.generationId,
+            runSeed,
+            slotIndex,
+            slot,
+            providerId: providers.scout.id,
+            prompt: buildScoutPrompt(slot, slot.designMode),
+          })
+        );
+        scoutRunIdBySlotIndex.set(slotIndex, scoutRun.id);
+      } catch (err) {
+        console.warn(`[v2] scout run persistence failed for slot ${slotIndex}: ${String(err)}`);
+      }
+    }
+  };
+
+  const persistScoutResults = async (
+    results: ScoutGenerationResult[],
+    scoutEvals: ScoutEvalResult[]
+  ): Promise<void> => {
+    for (const [slotIndex, result] of results.entries()) {
+      const scoutRunId = scoutRunIdBySlotIndex.get(slotIndex);
+      if (!scoutRunId || persistedResultSlotIndices.has(slotIndex)) continue;
+      persistedResultSlotIndices.add(slotIndex);
+      try {
+        await storage.updateScoutRunResult(storage.buildUpdateScoutRunResultInput(scoutRunId, result));
+        // Failed generations carry a sentinel eval; only real evaluations are persisted.
+        if (result.status === "success") {
+          await storage.createScoutEval(storage.buildCreateScoutEvalInput(scoutRunId, scoutEvals[slotIndex]));
+        }
+      } catch (err) {
+        console.warn(`[v2] scout result persistence failed for slot ${slotIndex}: ${String(err)}`);
+      }
+    }
+  };
+
   // Empty default plan / batch / selection structures for the all-local case.
   type EmptyPlan = ReturnType<typeof buildScoutPlan>;
   let plan: EmptyPlan;
   let scoutBatch: { results: ScoutGenerationResult[]; successCount: number; totalLatencyMs: number };
   let evals: ScoutEvalResult[];
   let selection: ReturnType<typeof selectScouts>;
+  // Perceptual hashes per scout slot, and of the backgrounds this organization
+  // received on other projects recently — for near-duplicate suppression.
+  let scoutHashes: Array<string | null> = [];
+  let recentBackgroundHashes: string[] = [];
+  // Set when the scout stage itself failed (e.g. every image provider is down).
+  let scoutStageFailure: string | null = null;
 
   if (aiLaneSpecs.length > 0) {
     plan = buildScoutPlan({
@@ -194,41 +481,86 @@ export async function runRoundOneV2(projectId: string): Promise<Round1V2Result>
       `[v2] scout plan: ${plan.slots.length} slots tone=${plan.tone} laneAware=${plan.laneAware}`
     );
 
-    // ── 4. Generate scouts (Flux Schnell via FAL) ────────────────────────────
-    const { falFluxSchnellProvider } = await import("../providers/fal-flux-schnell");
-    scoutBatch = await runScoutBatch(plan, falFluxSchnellProvider);
-    console.log(
-      `[v2] scouts: ${scoutBatch.successCount}/${scoutBatch.results.length} succeeded in ${scoutBatch.totalLatencyMs}ms`
-    );
+    await persistPlannedScoutRuns(plan, null);
 
-    // ── 5. Evaluate scouts ───────────────────────────────────────────────────
-    evals = await Promise.all(
-      scoutBatch.results.map((result: ScoutGenerationResult) => {
-        if (result.status === "failed" || !result.imageBytes) {
-          return Promise.resolve(makeFailedGenerationEval());
-        }
-        return evaluateScout({ slot: result.slot, imageBytes: result.imageBytes });
-      })
-    );
+    try {
+      // ── 4. Generate scouts (profile scout provider) ────────────────────────
+      scoutBatch = await runScoutBatch(plan, providers.scout);
+      console.log(
+        `[v2] scouts: ${scoutBatch.successCount}/${scoutBatch.results.length} succeeded in ${scoutBatch.totalLatencyMs}ms`
+      );
+
+      // ── 5. Evaluate scouts ─────────────────────────────────────────────────
+      evals = await Promise.all(
+        scoutBatch.results.map((result: ScoutGenerationResult) => {
+          if (result.status === "failed" || !result.imageBytes) {
+            return Promise.resolve(makeFailedGenerationEval());
+          }
+          return evaluateScout({ slot: result.slot, imageBytes: result.imageBytes });
+        })
+      );
+    } catch (err) {
+      const reason = `scout_stage_error: ${err instanceof Error ? err.message : String(err)}`;
+      if (!ROUND1_V2_CONFIG.localRenderFallback) {
+        await settleCreatedLanesFailed(reason);
+        throw err;
+      }
+      // Every scout counts as failed; the AI lanes fall back to local rendering below.
+      console.warn(`[v2] ${reason} — AI lanes will render locally`);
+      scoutStageFailure = reason;
+      scoutBatch = {
+        results: plan.slots.map((slot) => ({
+          slot,
+          prompt: buildScoutPrompt(slot, slot.designMode),
+          status: "failed" as const,
+          error: reason,
+        })),
+        successCount: 0,
+        totalLatencyMs: 0,
+      };
+      evals = scoutBatch.results.map(() => makeFailedGenerationEval());
+    }
+    await persistScoutResults(scoutBatch.results, evals);
     const acceptedCount = evals.filter((e) => !e.hardReject).length;
     console.log(`[v2] eval: ${acceptedCount}/${evals.length} passed`);
 
     // ── 6. Select A/B/C from the AI lane scouts ──────────────────────────────
-    selection = selectScouts(plan, scoutBatch.results, evals);
+    scoutHashes = await computeScoutDHashes(scoutBatch.results);
+    try {
+      recentBackgroundHashes = await storage.loadRecentOrganizationBackgroundHashes({
+        organizationId: project.organizationId,
+        excludeProjectId: project.id,
+      });
+    } catch (err) {
+      console.warn(`[v2] recent background hashes unavailable: ${String(err)}`);
+    }
+    const rankingWeights = await loadScoutRankingWeights();
+    selection = selectScouts(plan, scoutBatch.results, evals, {
+      rankingWeights,
+      scoutHashes,
+      recentBackgroundHashes,
+    });
+    // Scouts planned without a laneKey now know their lane.
+    await persistPlannedScoutRuns(plan, selection.selected);
+    await persistScoutResults(scoutBatch.results, evals);
     console.log(
       `[v2] selected (AI): [${selection.selected
         .map((s) => `${s.label}=${s.grammarKey}`)
         .join(" ")}]` +
-        ` shortfall=${selection.shortfall} rejected=${selection.rejected.length}`
+        ` shortfall=${selection.shortfall} rejected=${selection.rejected.length}` +
+        ` ranking=${rankingWeights ? `v${rankingWeights.version}` : "fixed"}` +
+        ` recentBackgrounds=${recentBackgroundHashes.length}`
     );
 
     // Only fail the whole run if AI lanes existed and none of them produced a
     // viable scout. Local-render lanes proceed regardless.
     if (selection.selected.length === 0) {
       console.warn(`[v2] AI lane shortfall — no viable scouts after evaluation`);
-      // We still try to settle local-render lanes below; only fail the run
-      // entirely if there are also no local lanes.
-      if (localLaneCount === 0) {
+      // We still try to settle local-render lanes below (and render the AI
+      // lanes locally when the fallback is on); only fail the run entirely
+      // if there is nothing left to render.
+      if (localLaneCount === 0 && !ROUND1_V2_CONFIG.localRenderFallback) {
+        await settleCreatedLanesFailed("no_viable_scout_for_lane");
         return { error: "Round 1 V2: all scouts failed evaluation — shortfall=3" };
       }
     }
@@ -255,94 +587,21 @@ export async function runRoundOneV2(projectId: string): Promise<Round1V2Result>
     console.log(`[v2] no AI lanes — skipping scout generation (FAL calls=0)`);
   }
 
-  // ── 7. Create one Generation record per planned lane (A/B/C) ──────────────
-  //
-  // Lane records are keyed by lane label — independent of whether the lane
-  // ultimately renders deterministically or via AI rebuild. Local-render
-  // lanes have no associated scout; AI lanes carry the matching scout
-  // metadata when a winner exists.
+  // ── 7. Attach selected scouts to their lanes ──────────────────────────────
 
-  const lanePlanItems = designModePlan.lanes.map((lp) => {
-    const isLocal = canRenderDesignModeLocally(lp.mode);
-    const aiScout = isLocal ? null : selection.selected.find((s) => s.label === lp.lane) ?? null;
-    return {
-      label: lp.lane,
-      mode: lp.mode,
-      isLocal,
-      aiScout,
-      generationId: randomUUID(),
-    };
-  });
-
-  await prisma.$transaction(
-    lanePlanItems.map((item) =>
-      prisma.generation.create({
-        data: {
-          id: item.generationId,
-          projectId,
-          round: 1,
-          status: "RUNNING",
-          input: {
-            v2: true,
-            runSeed,
-            optionLabel: item.label,
-            grammarKey: item.aiScout?.grammarKey ?? null,
-            diversityFamily: item.aiScout?.diversityFamily ?? null,
-            compositeScore: item.aiScout?.compositeScore ?? null,
-            plannedTone: briefSignals.toneHint,
-            plannedMotifs: briefSignals.motifHints,
-            plannerDebug: briefSignals.debug,
-            designMode: item.mode,
-            designModePlan: {
-              summary: designModePlan.summary,
-              allDistinct: designModePlan.allDistinct,
-              lane: designModePlan.lanes.find((l) => l.lane === item.label) ?? null,
-            },
-            renderer: item.isLocal ? "deterministic_design_mode_v1" : "ai_rebuild",
-          } as unknown as Prisma.InputJsonValue,
-        },
-      })
-    )
-  );
-
-  console.log(`[v2] created ${lanePlanItems.length} generation records (lane-keyed)`);
-
-  // ── 8. Persist scout runs + evals for AI lanes (best-effort; non-blocking) ─
-
-  const scoutRunIdBySlotIndex = new Map<number, string>();
-
-  for (const scout of selection.selected) {
-    const item = lanePlanItems.find((it) => it.label === scout.label);
-    if (!item) continue;
-    try {
-      const scoutRun = await storage.createScoutRun(
-        storage.buildCreateScoutRunInput({
-          generationId: item.generationId,
-          runSeed,
-          slotIndex: scout.slotIndex,
-          slot: scout.slot,
-          providerId: "fal.flux-schnell",
-          prompt: scout.result.prompt,
-        })
-      );
-      await storage.updateScoutRunResult(
-        storage.buildUpdateScoutRunResultInput(scoutRun.id, scout.result)
-      );
-      await storage.createScoutEval(
-        storage.buildCreateScoutEvalInput(scoutRun.id, scout.eval)
-      );
-      scoutRunIdBySlotIndex.set(scout.slotIndex, scoutRun.id);
-    } catch (err) {
-      console.warn(`[v2] scout run persistence failed for ${scout.label}: ${String(err)}`);
-    }
+  for (const item of lanePlanItems) {
+    if (item.isLocal) continue;
+    item.aiScout = selection.selected.find((s) => s.label === item.label) ?? null;
+    if (!item.aiScout) continue;
+    await prisma.generation.update({
+      where: { id: item.generationId },
+      data: { input: buildLaneInput(item) },
+    });
   }
 
-  // ── 9. Rebuild selected scouts (Nano Banana Pro → Nano Banana fallback) ────
+  // ── 9. Rebuild selected scouts (profile primary → fallback rebuild provider) ─
   //      Backfill loop: if a lane fails, try eligible non-selected scouts.
 
-  const { falNanaBananaPro } = await import("../providers/fal-nano-banana-pro");
-  const { falNanaBanana } = await import("../providers/fal-nano-banana");
-
   // Build the backfill pool from non-selected scouts that passed eval.
   const selectedSlotIndices = new Set(selection.selected.map((s) => s.slotIndex));
   const backfillPool = buildBackfillPool({
@@ -350,6 +609,8 @@ export async function runRoundOneV2(projectId: string): Promise<Round1V2Result>
     results: scoutBatch.results,
     evals,
     selectedSlotIndices,
+    scoutHashes,
+    recentBackgroundHashes,
   });
 
   console.log(`[v2] backfill pool: ${backfillPool.length} candidates available`);
@@ -360,78 +621,64 @@ export async function runRoundOneV2(projectId: string): Promise<Round1V2Result>
 
   // ── 10. Per-lane: backfill loop + lockup composition + settle ──────────────
 
-  const DEFAULT_PALETTE: {
-    primary: string;
-    secondary: string;
-    tertiary: string;
-    rule: string;
-    accent: string;
-    autoScrim: boolean;
-    scrimTint: "#FFFFFF" | "#000000";
-    forceTitleOutline: boolean;
-    forceTitleShadow: boolean;
-    forceSubtitleShadow: boolean;
-    safeVariantApplied: boolean;
-  } = {
-    primary: "#F8FAFC",
-    secondary: "#E2E8F0",
-    tertiary: "#CBD5E1",
-    rule: "#F8FAFC",
-    accent: "#F8FAFC",
-    autoScrim: false,
-    scrimTint: "#000000",
-    forceTitleOutline: false,
-    forceTitleShadow: false,
-    forceSubtitleShadow: false,
-    safeVariantApplied: false,
-  };
-
-  const buildV2FailedOutput = (
-    reason: string,
-    label: string,
-    bgEvidence?: ProductionBackgroundValidationEvidence
-  ): object => {
-    const content = { title: brief.title, subtitle: brief.subtitle, passage: brief.scripturePassages };
-    const designDoc = buildCleanMinimalDesignDoc({
-      width: WIDE_WIDTH,
-      height: WIDE_HEIGHT,
-      content,
-      palette: DEFAULT_PALETTE,
-      backgroundImagePath: null,
-    });
-    return {
-      status: "FAILED",
-      designDoc,
-      designDocByShape: { wide: designDoc },
-      notes: `V2 lane ${label} failed: ${reason}`,
-      meta: {
-        styleRefCount: 0,
-        usedStylePaths: [],
-        // Persist real background evidence when available so the UI shows the
-        // honest failure reason (e.g. background_text_detected) rather than
-        // background_text_check_missing.
-        ...(bgEvidence ? { productionValidation: { background: bgEvidence } } : {}),
-        debug: { v2: true, failureReason: reason },
-      },
-    };
-  };
-
   const laneLog: string[] = [];
 
-  // Iterate ALL planned lanes (A, B, C). Local-render lanes branch off here.
-  for (let i = 0; i < lanePlanItems.length; i++) {
-    const item = lanePlanItems[i];
+  // Renders a lane with the deterministic DesignMode renderer and settles it.
+  // Local-routed lanes come here directly; AI lanes come here as a fallback
+  // (localFallback set) when they end without a usable background, so a
+  // provider outage still yields a direction preview.
+  const settleLaneLocally = async (
+    item: (typeof lanePlanItems)[number],
+    i: number,
+    localFallback: { reason: string; debug?: Record<string, unknown> } | null
+  ): Promise<void> => {
     const generationId = item.generationId;
     const laneDesignMode = item.mode;
-    const lockupRecipe = getDesignModeLockupRecipe(laneDesignMode);
+    console.log(
+      `[v2] lane ${item.label} mode=${laneDesignMode} renderer=deterministic_design_mode_v1 aiCalls=0` +
+        (localFallback ? ` fallbackFrom=ai_rebuild reason=${localFallback.reason}` : "")
+    );
+    try {
+      const rendered = await renderDesignModeDirectionPreview({
+        designMode: laneDesignMode,
+        tone: brief.toneTarget,
+        motifs: brief.motifs,
+        content: {
+          title: brief.title,
+          subtitle: brief.subtitle,
+          passage: brief.scripturePassages,
+        },
+        width: WIDE_WIDTH,
+        height: WIDE_HEIGHT,
+        seed: i + 1,
+        logoSource: brandLogoSource,
+      });
 
-    // ── Local-render branch (no FAL calls) ───────────────────────────────────
-    if (item.isLocal) {
-      console.log(
-        `[v2] lane ${item.label} mode=${laneDesignMode} renderer=deterministic_design_mode_v1 aiCalls=0`
-      );
-      try {
-        const rendered = await renderDesignModeDirectionPreview({
+      const prefix = generationId;
+      const bgPath = await writeV2File(`${prefix}-wide-bg.png`, rendered.backgroundPng);
+      const lockupPath = await writeV2File(`${prefix}-lockup.png`, rendered.lockupPng);
+      const wideFinPath = await writeV2File(`${prefix}-wide.png`, rendered.widePng);
+
+      const wideDesignDoc = buildCleanMinimalDesignDoc({
+        width: WIDE_WIDTH,
+        height: WIDE_HEIGHT,
+        content: { title: brief.title, subtitle: brief.subtitle, passage: brief.scripturePassages },
+        palette: DEFAULT_PALETTE,
+        backgroundImagePath: bgPath,
+        lockupRecipe: rendered.lockupRecipe,
+        logoLayout: rendered.logoLayout,
+        titleSafeRegion: rendered.titleRegion,
+        lockupAlign: rendered.lockupRecipe.alignment,
+      });
+
+      // Deterministic modes render natively at every aspect — same seed, same mode palette.
+      const localAspects = {} as Record<
+        (typeof REFRAME_ASPECTS)[number],
+        { bgPath: string; finPath: string; designDoc: ReturnType<typeof buildCleanMinimalDesignDoc> }
+      >;
+      for (const aspect of REFRAME_ASPECTS) {
+        const { width, height } = PREVIEW_DIMENSIONS[aspect];
+        const aspectRendered = await renderDesignModeDirectionPreview({
           designMode: laneDesignMode,
           tone: brief.toneTarget,
           motifs: brief.motifs,
@@ -440,116 +687,144 @@ export async function runRoundOneV2(projectId: string): Promise<Round1V2Result>
             subtitle: brief.subtitle,
             passage: brief.scripturePassages,
           },
-          width: WIDE_WIDTH,
-          height: WIDE_HEIGHT,
+          width,
+          height,
           seed: i + 1,
+          logoSource: brandLogoSource,
         });
-
-        const prefix = generationId;
-        const bgPath = await writeV2File(`${prefix}-wide-bg.png`, rendered.backgroundPng);
-        const lockupPath = await writeV2File(`${prefix}-lockup.png`, rendered.lockupPng);
-        const wideFinPath = await writeV2File(`${prefix}-wide.png`, rendered.widePng);
-
-        const wideDesignDoc = buildCleanMinimalDesignDoc({
-          width: WIDE_WIDTH,
-          height: WIDE_HEIGHT,
-          content: { title: brief.title, subtitle: brief.subtitle, passage: brief.scripturePassages },
-          palette: DEFAULT_PALETTE,
-          backgroundImagePath: bgPath,
-        });
-
-        const lockupEvidence = {
-          source: "generated" as const,
-          sourceGenerationId: null,
-          textIntegrity: true,
-          fitPass: true,
-          insideTitleSafeWithMargin: null,
-          notTooSmall: null,
+        const aspectBgPath = await writeV2File(`${prefix}-${aspect}-bg.png`, aspectRendered.backgroundPng);
+        localAspects[aspect] = {
+          bgPath: aspectBgPath,
+          finPath: await writeV2File(`${prefix}-${aspect}.png`, aspectRendered.widePng),
+          designDoc: buildCleanMinimalDesignDoc({
+            width,
+            height,
+            content: { title: brief.title, subtitle: brief.subtitle, passage: brief.scripturePassages },
+            palette: DEFAULT_PALETTE,
+            backgroundImagePath: aspectBgPath,
+            lockupRecipe: aspectRendered.lockupRecipe,
+            logoLayout: aspectRendered.logoLayout,
+            titleSafeRegion: aspectRendered.titleRegion,
+            lockupAlign: aspectRendered.lockupRecipe.alignment,
+          }),
         };
+      }
 
-        const completedOutput = {
-          status: "COMPLETED",
-          designDoc: wideDesignDoc,
-          designDocByShape: { wide: wideDesignDoc },
-          notes: `V2 lane ${item.label} (deterministic ${laneDesignMode})`,
-          preview: { widescreen_main: wideFinPath },
-          meta: {
-            styleRefCount: 0,
-            usedStylePaths: [],
-            productionValidation: {
-              stage: "direction_preview",
-              background: rendered.backgroundEvidence,
-              lockup: lockupEvidence,
-              aspects: { widescreen: { provenance: "rendered" } },
-            },
-            debug: {
-              v2: true,
-              ...rendered.debug,
-              aiCalls: 0,
-              designModePlan: {
-                summary: designModePlan.summary,
-                allDistinct: designModePlan.allDistinct,
-                lane: designModePlan.lanes[i] ?? null,
-              },
-              backgroundSource: "deterministic",
-              lockupSource: "generated",
-              generationLifecycleState: "GENERATION_COMPLETED",
-              backgroundFailureReason: null,
-              planner: briefSignals.debug,
-              plannedTone: briefSignals.toneHint,
-              plannedMotifs: briefSignals.motifHints,
-              aspectAssets: { widescreen: "ok" },
-              squareVerticalNotGenerated: "round1_direction_preview_only",
+      const lockupEvidence = {
+        source: "generated" as const,
+        sourceGenerationId: null,
+        textIntegrity: true,
+        fitPass: true,
+        insideTitleSafeWithMargin: null,
+        notTooSmall: null,
+      };
+
+      const exportPackage = buildV2ExportPackage({
+        projectId,
+        generationId,
+        lockupPath,
+        wide: { bgPath, finPath: wideFinPath, designDoc: wideDesignDoc },
+        aspects: localAspects,
+        dimensions: PREVIEW_DIMENSIONS,
+        backgroundEvidence: rendered.backgroundEvidence,
+        lockupEvidence,
+      });
+      const { productionValidation, ...exportOutput } = exportPackage.output;
+      const completedOutput = {
+        ...exportOutput,
+        notes: localFallback
+          ? `V2 lane ${item.label} (deterministic ${laneDesignMode}, local fallback: ${localFallback.reason})`
+          : `V2 lane ${item.label} (deterministic ${laneDesignMode})`,
+        meta: {
+          styleRefCount: 0,
+          usedStylePaths: [],
+          productionValidation,
+          debug: {
+            v2: true,
+            ...rendered.debug,
+            aiCalls: 0,
+            designModePlan: {
+              summary: designModePlan.summary,
+              allDistinct: designModePlan.allDistinct,
+              lane: designModePlan.lanes[i] ?? null,
+              flagDecisions: designModePlan.flagDecisions,
+              pinDecisions: designModePlan.pinDecisions,
             },
+            backgroundSource: "deterministic",
+            lockupSource: "generated",
+            generationLifecycleState: "GENERATION_COMPLETED",
+            backgroundFailureReason: null,
+            planner: briefSignals.debug,
+            plannedTone: briefSignals.toneHint,
+            plannedMotifs: briefSignals.motifHints,
+            aspectAssets: { widescreen: "ok", square: "ok", vertical: "ok" },
+            ...(localFallback
+              ? { ...localFallback.debug, localFallback: { from: "ai_rebuild", reason: localFallback.reason } }
+              : {}),
           },
-        };
+        },
+      };
 
-        await prisma.$transaction(async (tx) => {
-          await tx.generation.update({
-            where: { id: generationId },
-            data: {
-              status: "COMPLETED",
-              output: completedOutput as unknown as Prisma.InputJsonValue,
-            },
-          });
-          await tx.asset.createMany({
-            data: [
-              { projectId, generationId, kind: "BACKGROUND", slot: "wide_bg", file_path: bgPath, mime_type: "image/png", width: WIDE_WIDTH, height: WIDE_HEIGHT },
-              { projectId, generationId, kind: "LOCKUP", slot: "series_lockup", file_path: lockupPath, mime_type: "image/png", width: null, height: null },
-              { projectId, generationId, kind: "IMAGE", slot: "wide", file_path: wideFinPath, mime_type: "image/png", width: WIDE_WIDTH, height: WIDE_HEIGHT },
-            ],
-          });
+      await prisma.$transaction(async (tx) => {
+        await tx.generation.update({
+          where: { id: generationId },
+          data: {
+            status: "COMPLETED",
+            output: completedOutput as unknown as Prisma.InputJsonValue,
+          },
         });
+        await tx.asset.createMany({ data: exportPackage.assets });
+      });
 
-        laneLog.push(`${item.label}=completed(local:${laneDesignMode})`);
-        console.log(`[v2] lane ${item.label} settled (deterministic): wide=${wideFinPath}`);
-      } catch (err) {
-        const reason = err instanceof Error ? err.message : String(err);
-        console.error(`[v2] lane ${item.label} deterministic render failed: ${reason}`);
-        try {
-          await prisma.generation.update({
-            where: { id: generationId },
-            data: {
-              status: "FAILED",
-              output: buildV2FailedOutput(
-                `Deterministic render failed: ${reason}`,
-                item.label
-              ) as unknown as Prisma.InputJsonValue,
-            },
-          });
-        } catch (settleErr) {
-          console.error(`[v2] lane ${item.label} failed to settle: ${String(settleErr)}`);
-        }
-        laneLog.push(`${item.label}=failed(local:${reason.slice(0, 40)})`);
+      laneLog.push(`${item.label}=completed(${localFallback ? "local_fallback" : "local"}:${laneDesignMode})`);
+      console.log(`[v2] lane ${item.label} settled (deterministic): wide=${wideFinPath}`);
+    } catch (err) {
+      const reason = err instanceof Error ? err.message : String(err);
+      console.error(`[v2] lane ${item.label} deterministic render failed: ${reason}`);
+      try {
+        await prisma.generation.update({
+          where: { id: generationId },
+          data: {
+            status: "FAILED",
+            output: buildV2FailedOutput(
+              `Deterministic render failed: ${reason}`,
+              item.label
+            ) as unknown as Prisma.InputJsonValue,
+          },
+        });
+      } catch (settleErr) {
+        console.error(`[v2] lane ${item.label} failed to settle: ${String(settleErr)}`);
       }
+      laneLog.push(`${item.label}=failed(local:${reason.slice(0, 40)})`);
+    }
+  };
+
+  // Iterate ALL planned lanes (A, B, C). Local-render lanes branch off here.
+  for (let i = 0; i < lanePlanItems.length; i++) {
+    if (options.signal?.aborted) {
+      console.warn(`[v2] job lease lost, skipping remaining lanes project=${projectId}`);
+      return { error: "Round 1 V2: generation job lease lost" };
+    }
+    const item = lanePlanItems[i];
+    const generationId = item.generationId;
+    const laneDesignMode = item.mode;
+    const lockupRecipe = getDesignModeLockupRecipe(laneDesignMode);
+
+    // ── Local-render branch (no FAL calls) ───────────────────────────────────
+    if (item.isLocal) {
+      await settleLaneLocally(item, i, null);
       continue;
     }
 
     // ── AI rebuild branch (existing scout/rebuild/backfill path) ─────────────
     const scout = item.aiScout;
     if (!scout) {
-      // AI lane planned but no scout was selectable — settle FAILED honestly.
+      // AI lane planned but no scout was selectable — render it locally, or settle FAILED honestly.
       console.warn(`[v2] lane ${item.label} mode=${laneDesignMode} has no selectable scout`);
+      if (ROUND1_V2_CONFIG.localRenderFallback) {
+        await settleLaneLocally(item, i, { reason: scoutStageFailure ?? "no_viable_scout_for_lane" });
+        continue;
+      }
       try {
         await prisma.generation.update({
           where: { id: generationId },
@@ -590,6 +865,11 @@ export async function runRoundOneV2(projectId: string): Promise<Round1V2Result>
       completedSlotIndices,
       preferNotGrammarKeys,
       laneLabel: scout.label,
+      // Scouts the other lanes show (or will show); a backfill must not repeat them.
+      avoidHashes: [
+        ...selection.selected.filter((s) => s.label !== scout.label).map((s) => s.slotIndex),
+        ...completedSlotIndices,
+      ].flatMap((si) => (scoutHashes[si] ? [scoutHashes[si]] : [])),
       maxCount: ROUND1_V2_CONFIG.laneBackfillBudget,
     });
 
@@ -597,50 +877,88 @@ export async function runRoundOneV2(projectId: string): Promise<Round1V2Result>
       `[v2] lane ${scout.label}: primary slot=${scout.slotIndex} backfill_pool=${eligibleBackfills.length} diversityRelaxed=${poolDiversityRelaxed} modeRelaxed=${poolModeRelaxed}`
     );
 
+    // One rebuild attempt record per lane, opened before the first provider
+    // call and moved along as backfill candidates are tried (best-effort).
+    let rebuildAttemptId: string | null = null;
+    try {
+      const rebuildAttempt = await storage.createRebuildAttempt(
+        storage.buildCreateRebuildAttemptInput({
+          generationId,
+          selected: scout,
+          scoutRunId: scoutRunIdBySlotIndex.get(scout.slotIndex),
+          providerId: providers.rebuildPrimary.id,
+          attemptOrder: 0,
+        })
+      );
+      rebuildAttemptId = rebuildAttempt.id;
+    } catch (err) {
+      console.warn(`[v2] rebuild attempt persistence failed for ${scout.label}: ${String(err)}`);
+    }
+
     const laneResult = await runLaneWithBackfill({
       laneLabel: scout.label,
       primaryScout: scout,
       backfillCandidates: eligibleBackfills,
       budget: ROUND1_V2_CONFIG.laneBackfillBudget,
       negativeHints: brief.negativeHints,
-      primaryProvider: falNanaBananaPro,
-      fallbackProvider: falNanaBanana,
+      primaryProvider: providers.rebuildPrimary,
+      fallbackProvider: providers.rebuildFallback,
       rebuildFallbackBudget: ROUND1_V2_CONFIG.rebuildFallbackBudget,
       preferNotGrammarKeys,
       designMode: laneDesignMode,
-      evalFn: (args) => evaluateScout(args),
+      evalFn: (args) => evaluateRebuild(args),
       acceptanceFn: (args) => evaluateBackgroundAcceptance(args),
+      onAttemptStart: async ({ slotIndex, attemptOrder }) => {
+        if (!rebuildAttemptId || attemptOrder === 0) return;
+        try {
+          await storage.updateRebuildAttemptProgress({
+            id: rebuildAttemptId,
+            attemptOrder,
+            scoutRunId: scoutRunIdBySlotIndex.get(slotIndex),
+          });
+        } catch (err) {
+          console.warn(`[v2] rebuild attempt progress failed for ${scout.label}: ${String(err)}`);
+        }
+      },
+      onAttemptEvaluated: async ({ slotIndex, attemptOrder, textRetry, accepted, eval: rebuildEval }) => {
+        if (!rebuildAttemptId) return;
+        try {
+          await storage.createRebuildEval(
+            storage.buildCreateRebuildEvalInput({
+              rebuildAttemptId,
+              scoutRunId: scoutRunIdBySlotIndex.get(slotIndex),
+              attemptOrder,
+              textRetry,
+              accepted,
+              ev: rebuildEval,
+            })
+          );
+        } catch (err) {
+          console.warn(`[v2] rebuild eval persistence failed for ${scout.label}: ${String(err)}`);
+        }
+      },
     });
 
-    // Persist a rebuild attempt record (best-effort; reflects the accepted/last attempt)
-    try {
-      const usedSlotIndex =
-        laneResult.status === "accepted" ? laneResult.usedScoutSlotIndex : scout.slotIndex;
-      const providerId =
-        laneResult.status === "accepted"
-          ? laneResult.providerId
-          : laneResult.status === "exhausted" && laneResult.backfillDebug.attemptCount === 0
-          ? "fal.nano-banana-pro"
-          : "fal.nano-banana-pro";
-      const rebuildAttempt = await storage.createRebuildAttempt(
-        storage.buildCreateRebuildAttemptInput({
-          generationId,
-          selected: scout,
+    if (rebuildAttemptId) {
+      try {
+        const usedSlotIndex =
+          laneResult.status === "accepted" ? laneResult.usedScoutSlotIndex : scout.slotIndex;
+        await storage.updateRebuildAttemptResult({
+          id: rebuildAttemptId,
+          status: laneResult.status === "accepted" ? "SUCCESS" : "FAILED",
+          failureReason:
+            laneResult.status === "exhausted" ? laneResult.lastFailureReason : undefined,
+          providerId:
+            laneResult.status === "accepted" ? laneResult.providerId : providers.rebuildPrimary.id,
           scoutRunId: scoutRunIdBySlotIndex.get(usedSlotIndex),
-          providerId,
-          attemptOrder: 0,
-        })
-      );
-      await storage.updateRebuildAttemptResult({
-        id: rebuildAttempt.id,
-        status: laneResult.status === "accepted" ? "SUCCESS" : "FAILED",
-        failureReason:
-          laneResult.status === "exhausted" ? laneResult.lastFailureReason : undefined,
-        providerModel:
-          laneResult.status === "accepted" ? laneResult.providerModel : undefined,
-      });
-    } catch (err) {
-      console.warn(`[v2] rebuild attempt persistence failed for ${scout.label}: ${String(err)}`);
+          providerModel:
+            laneResult.status === "accepted" ? laneResult.providerModel : undefined,
+          // One record per lane, so it carries the whole lane's spend (backfills and text retries).
+          estimatedCostUsd: laneResult.estimatedCostUsd,
+        });
+      } catch (err) {
+        console.warn(`[v2] rebuild attempt persistence failed for ${scout.label}: ${String(err)}`);
+      }
     }
 
     if (laneResult.status === "exhausted") {
@@ -649,6 +967,14 @@ export async function runRoundOneV2(projectId: string): Promise<Round1V2Result>
         `[v2] lane ${scout.label} exhausted all candidates: ${reason} attempts=${laneResult.backfillDebug.attemptCount}`
       );
 
+      if (ROUND1_V2_CONFIG.localRenderFallback) {
+        await settleLaneLocally(item, i, {
+          reason,
+          debug: { textRetry: laneResult.textRetryMeta, backfill: laneResult.backfillDebug },
+        });
+        continue;
+      }
+
       const failedOutput = buildV2FailedOutput(reason, scout.label, laneResult.lastFailureEvidence);
       const failedOutputWithBackfill = {
         ...failedOutput,
@@ -722,6 +1048,21 @@ export async function runRoundOneV2(projectId: string): Promise<Round1V2Result>
       const widePalette = suppressScrim
         ? { ...sampledPalette, autoScrim: false }
         : sampledPalette;
+      // Stacked and inline logos render inside the lockup; a corner bug is placed per aspect below.
+      const laneLockupRecipe = resolveCleanMinimalLockupRecipe({ lockupRecipe: fullRecipeOverride, lockupPresetId });
+      const logoPlacement = laneLockupRecipe.logo?.placement || "corner_bug";
+      const lockupLogo =
+        brandLogoSource && logoPlacement !== "corner_bug" && logoPlacement !== "none"
+          ? (
+              await prepareLockupLogoForBackground({
+                source: brandLogoSource,
+                backgroundPng: acceptedBackgroundPng,
+                sampleRegion: wideLayout.textRegion,
+                width: WIDE_WIDTH,
+                height: WIDE_HEIGHT,
+              })
+            ).logo
+          : null;
       const wideLockupSvg = buildCleanMinimalOverlaySvg({
         width: WIDE_WIDTH,
         height: WIDE_HEIGHT,
@@ -729,8 +1070,18 @@ export async function runRoundOneV2(projectId: string): Promise<Round1V2Result>
         palette: widePalette,
         lockupRecipe: fullRecipeOverride,
         lockupPresetId,
+        logo: lockupLogo,
       });
       const { png: lockupPng } = await renderTrimmedLockupPngFromSvg(wideLockupSvg);
+      const wideCornerBug = await prepareCornerBugForBackground({
+        source: brandLogoSource,
+        lockupRecipe: laneLockupRecipe,
+        backgroundPng: acceptedBackgroundPng,
+        shape: "wide",
+        width: WIDE_WIDTH,
+        height: WIDE_HEIGHT,
+        safeRegion: LOCKUP_SAFE_REGION_RATIOS.wide,
+      });
       const wideFinalPng = await composeLockupOnBackground({
         backgroundPng: acceptedBackgroundPng,
         lockupPng,
@@ -739,19 +1090,92 @@ export async function runRoundOneV2(projectId: string): Promise<Round1V2Result>
         height: WIDE_HEIGHT,
         align: lockupAlign,
         integrationMode: lockupIntegrationMode,
+        cornerBug: wideCornerBug,
       });
 
-      // Write wide-only files (3 assets — direction preview contract)
+      // Write wide files (background, lockup, final)
       const prefix = generationId;
       const bgPath = await writeV2File(`${prefix}-wide-bg.png`, acceptedBackgroundPng);
+      // Recorded so later projects of this organization can steer away from it.
+      const backgroundDHash = await computeDHashFromBuffer(acceptedBackgroundPng).catch(() => null);
       const lockupPath = await writeV2File(`${prefix}-lockup.png`, lockupPng);
       const wideFinPath = await writeV2File(`${prefix}-wide.png`, wideFinalPng);
 
       // Wide design doc
       const wideDesignDoc = buildCleanMinimalDesignDoc({
-        width: WIDE_WIDTH, height: WIDE_HEIGHT, content, palette: widePalette, backgroundImagePath: bgPath,
+        width: WIDE_WIDTH,
+        height: WIDE_HEIGHT,
+        content,
+        palette: widePalette,
+        backgroundImagePath: bgPath,
+        lockupRecipe: laneLockupRecipe,
+        lockupPresetId,
+        logo: lockupLogo,
+        logoLayout: wideCornerBug?.layout ?? null,
+        titleSafeRegion: LOCKUP_SAFE_REGION_RATIOS.wide,
+        lockupAlign,
       });
 
+      // Square/tall: grammar-aware reframe of the accepted wide rebuild, with the same
+      // lockup placed inside the grammar's remapped title-safe zone. No extra AI calls.
+      const reframedAspects = {} as Record<
+        (typeof REFRAME_ASPECTS)[number],
+        {
+          bgPath: string;
+          finPath: string;
+          designDoc: ReturnType<typeof buildCleanMinimalDesignDoc>;
+          plan: Awaited<ReturnType<typeof reframeBackgroundForAspect>>["plan"];
+        }
+      >;
+      for (const aspect of REFRAME_ASPECTS) {
+        const { width, height } = PREVIEW_DIMENSIONS[aspect];
+        const { png: aspectBackgroundPng, plan } = await reframeBackgroundForAspect({
+          backgroundPng: acceptedBackgroundPng,
+          grammarKey: laneResult.usedGrammarKey,
+          aspect,
+        });
+        const aspectCornerBug = await prepareCornerBugForBackground({
+          source: brandLogoSource,
+          lockupRecipe: laneLockupRecipe,
+          backgroundPng: aspectBackgroundPng,
+          shape: aspect,
+          width,
+          height,
+          safeRegion: plan.titleSafeRegion ?? LOCKUP_SAFE_REGION_RATIOS[aspect],
+        });
+        const aspectFinalPng = await composeLockupOnBackground({
+          backgroundPng: aspectBackgroundPng,
+          lockupPng,
+          shape: aspect,
+          width,
+          height,
+          align: lockupAlign,
+          integrationMode: lockupIntegrationMode,
+          safeRegionOverride: plan.titleSafeRegion ?? undefined,
+          cornerBug: aspectCornerBug,
+        });
+        const aspectBgPath = await writeV2File(`${prefix}-${aspect}-bg.png`, aspectBackgroundPng);
+        reframedAspects[aspect] = {
+          bgPath: aspectBgPath,
+          finPath: await writeV2File(`${prefix}-${aspect}.png`, aspectFinalPng),
+          designDoc: buildCleanMinimalDesignDoc({
+            width,
+            height,
+            content,
+            palette: widePalette,
+            backgroundImagePath: aspectBgPath,
+            lockupRecipe: laneLockupRecipe,
+            lockupPresetId,
+            logo: lockupLogo,
+            logoLayout: aspectCornerBug?.layout ?? null,
+            // Same region the compositor used above, so exports rebuilt from the doc match the preview.
+            titleSafeRegion: plan.titleSafeRegion ?? LOCKUP_SAFE_REGION_RATIOS[aspect],
+            lockupAlign,
+          }),
+          plan,
+        };
+      }
+
       const lockupEvidence = {
         source: "generated" as const,
         sourceGenerationId: null,
@@ -767,26 +1191,30 @@ export async function runRoundOneV2(projectId: string): Promise<Round1V2Result>
       const usedCompositeScore = laneResult.usedCompositeScore;
       const usedBackfill = laneResult.backfillDebug.finalOutcome === "backfill";
 
+      const exportPackage = buildV2ExportPackage({
+        projectId,
+        generationId,
+        lockupPath,
+        wide: { bgPath, finPath: wideFinPath, designDoc: wideDesignDoc },
+        aspects: reframedAspects,
+        dimensions: PREVIEW_DIMENSIONS,
+        backgroundEvidence: finalBackgroundEvidence,
+        lockupEvidence,
+      });
+      const { productionValidation, ...exportOutput } = exportPackage.output;
       const completedOutput = {
-        status: "COMPLETED",
-        designDoc: wideDesignDoc,
-        designDocByShape: { wide: wideDesignDoc },
+        ...exportOutput,
         notes: `V2 lane ${scout.label} (${usedGrammarKey}) score=${usedCompositeScore.toFixed(3)} usedBackfill=${usedBackfill}`,
-        preview: { widescreen_main: wideFinPath },
         meta: {
           styleRefCount: 0,
           usedStylePaths: [],
-          productionValidation: {
-            stage: "direction_preview",
-            background: finalBackgroundEvidence,
-            lockup: lockupEvidence,
-            aspects: { widescreen: { provenance: "rendered" } },
-          },
+          productionValidation,
           debug: {
             v2: true,
             grammarKey: usedGrammarKey,
             diversityFamily: usedDiversityFamily,
             compositeScore: usedCompositeScore,
+            backgroundDHash,
             usedFallback: laneResult.usedFallback,
             providerModel: laneResult.providerModel,
             backgroundSource: "generated",
@@ -803,6 +1231,8 @@ export async function runRoundOneV2(projectId: string): Promise<Round1V2Result>
               summary: designModePlan.summary,
               allDistinct: designModePlan.allDistinct,
               lane: designModePlan.lanes[i] ?? null,
+              flagDecisions: designModePlan.flagDecisions,
+              pinDecisions: designModePlan.pinDecisions,
             },
             lockupRecipe: lockupRecipe
               ? {
@@ -816,10 +1246,14 @@ export async function runRoundOneV2(projectId: string): Promise<Round1V2Result>
                 }
               : null,
             backfillModeRelaxed: poolModeRelaxed,
+            textFit: wideLayout.textFit,
             renderer: "ai_rebuild",
             aiCalls: 1 + (laneResult.backfillDebug.attemptCount ?? 0),
-            aspectAssets: { widescreen: "ok" },
-            squareVerticalNotGenerated: "round1_direction_preview_only",
+            aspectAssets: { widescreen: "ok", square: "ok", vertical: "ok" },
+            aspectReframe: {
+              square: reframedAspects.square.plan,
+              tall: reframedAspects.tall.plan,
+            },
           },
         },
       };
@@ -832,20 +1266,17 @@ export async function runRoundOneV2(projectId: string): Promise<Round1V2Result>
             output: completedOutput as unknown as Prisma.InputJsonValue,
           },
         });
-        await tx.asset.createMany({
-          data: [
-            { projectId, generationId, kind: "BACKGROUND", slot: "wide_bg",       file_path: bgPath,      mime_type: "image/png", width: WIDE_WIDTH, height: WIDE_HEIGHT },
-            { projectId, generationId, kind: "LOCKUP",     slot: "series_lockup", file_path: lockupPath,  mime_type: "image/png", width: null,       height: null        },
-            { projectId, generationId, kind: "IMAGE",      slot: "wide",          file_path: wideFinPath, mime_type: "image/png", width: WIDE_WIDTH, height: WIDE_HEIGHT },
-          ],
-        });
+        await tx.asset.createMany({ data: exportPackage.assets });
       });
 
       const backfillNote = usedBackfill
         ? `backfill[slot=${laneResult.usedScoutSlotIndex}]`
         : laneResult.usedFallback ? "fallback" : "primary";
       laneLog.push(`${scout.label}=completed(${backfillNote})`);
-      console.log(`[v2] lane ${scout.label} settled: wide=${wideFinPath} backfill=${usedBackfill}`);
+      console.log(
+        `[v2] lane ${scout.label} settled: wide=${wideFinPath} square=${reframedAspects.square.finPath} ` +
+        `tall=${reframedAspects.tall.finPath} backfill=${usedBackfill}`
+      );
     } catch (err) {
       const reason = err instanceof Error ? err.message : String(err);
       console.error(`[v2] lane ${scout.label} composition/settlement error: ${reason}`);
@@ -869,7 +1300,7 @@ export async function runRoundOneV2(projectId: string): Promise<Round1V2Result>
   }
 
   const completedCount = laneLog.filter((l) => l.includes("=completed")).length;
-  console.log(`[v2] done: ${completedCount}/${selection.selected.length} lanes completed [${laneLog.join(" ")}]`);
+  console.log(`[v2] done: ${completedCount}/${lanePlanItems.length} lanes completed [${laneLog.join(" ")}]`);
 
   return {};
 }
@@ -101,3 +101,22 @@ test("backfill respects completedSlotIndices (does not return already-used scout
   assert.equal(candidates.length, 1);
   assert.equal(candidates[0].slotIndex, 1);
 });
+
+test("backfill excludes near-duplicates of the scouts other lanes show", () => {
+  const pool: BackfillCandidate[] = [
+    { ...makeCandidate(0, "A", "textural_field", 0.9), dHash: "00000000000000ff" },
+    { ...makeCandidate(1, "A", "horizon_band", 0.7), dHash: "ffffffff00000000" },
+    { ...makeCandidate(2, "A", "centered_focal_motif", 0.6) },
+  ];
+  const { candidates } = selectEligibleBackfill({
+    pool,
+    completedSlotIndices: new Set(),
+    laneLabel: "A",
+    avoidHashes: ["00000000000000fe"],
+    maxCount: 3,
+  });
+  assert.deepEqual(
+    candidates.map((c) => c.slotIndex),
+    [1, 2]
+  );
+});
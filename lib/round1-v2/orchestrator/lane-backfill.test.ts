@@ -47,7 +47,8 @@ function makeEval(overrides: Partial<ScoutEvalResult> = {}): ScoutEvalResult {
   } as ScoutEvalResult;
 }
 
-function makeResult(overrides: Partial<ScoutGenerationResult> = {}): ScoutGenerationResult {
+// Cases tag results with their slotIndex for readability; batch results themselves are keyed by position.
+function makeResult(overrides: Partial<ScoutGenerationResult> & { slotIndex?: number } = {}): ScoutGenerationResult {
   return {
     status: "success",
     slotIndex: 0,
@@ -155,6 +156,29 @@ test("buildBackfillPool excludes selected scouts", () => {
   assert.ok(pool.every((c) => c.slotIndex >= 3));
 });
 
+test("buildBackfillPool ranks scouts resembling recent organization backgrounds lower", () => {
+  const plan = makePlan(5);
+  const results = plan.slots.map((s, i) => makeResult({ slotIndex: i, slot: s }));
+  const evals = plan.slots.map((_, i) => makeEval({ compositeScore: i === 3 ? 0.8 : 0.75 }));
+
+  const pool = buildBackfillPool({
+    plan,
+    results,
+    evals,
+    selectedSlotIndices: new Set([0, 1, 2]),
+    scoutHashes: [null, null, null, "00000000000000ff", "ffffffffffffff00"],
+    recentBackgroundHashes: ["00000000000000fe"],
+  });
+
+  assert.deepEqual(
+    pool.map((c) => c.slotIndex),
+    [4, 3]
+  );
+  assert.ok((pool[1].recentSimilarityPenalty ?? 0) > 0.05);
+  assert.equal(pool[0].recentSimilarityPenalty, 0);
+  assert.equal(pool[1].dHash, "00000000000000ff");
+});
+
 test("buildBackfillPool excludes hard-rejected scouts", () => {
   const plan = makePlan(5);
   const results = plan.slots.map((s, i) => makeResult({ slotIndex: i, slot: s }));
@@ -800,3 +824,57 @@ test("lane failure after exhausted timeout attempts has honest specific reason",
       "should have at least one rejected candidate logged");
   }
 });
+
+test("rebuild-only eval rejects move the lane to the next candidate and every evaluation is reported", async () => {
+  const primaryScout = makeSelectedScout({ slotIndex: 0 });
+  const backfillCandidate: BackfillCandidate = {
+    slotIndex: 3,
+    slot: makeSlot({ seed: 3000, grammarKey: "edge_anchored_motif" } as Partial<ScoutSlot>),
+    result: makeResult({ slotIndex: 3 }),
+    eval: makeEval(),
+    grammarKey: "edge_anchored_motif",
+    diversityFamily: "frame",
+    compositeScore: 0.75,
+  };
+
+  let callCount = 0;
+  const evalFn = async (_input: { slot: ScoutSlot; imageBytes: Buffer }) => {
+    callCount++;
+    // Primary rebuild passes background acceptance but its title-safe zone is obstructed.
+    if (callCount === 1) return { rejectReasons: ["title_safe_zone_obstructed"], grammarScore: 0.1 };
+    return { rejectReasons: [], grammarScore: 0.9 };
+  };
+  const evaluations: Array<{ slotIndex: number; attemptOrder: number; accepted: boolean; grammarScore: number }> = [];
+
+  const result = await runLaneWithBackfill({
+    laneLabel: "A",
+    primaryScout,
+    backfillCandidates: [backfillCandidate],
+    budget: 2,
+    negativeHints: [],
+    primaryProvider: makeOkProvider(),
+    fallbackProvider: makeOkProvider(),
+    rebuildFallbackBudget: 1,
+    evalFn,
+    acceptanceFn: alwaysAccept,
+    onAttemptEvaluated: async ({ slotIndex, attemptOrder, accepted, eval: ev }) => {
+      evaluations.push({ slotIndex, attemptOrder, accepted, grammarScore: ev.grammarScore });
+    },
+  });
+
+  assert.equal(result.status, "accepted");
+  if (result.status === "accepted") {
+    assert.equal(result.usedScoutSlotIndex, 3);
+    assert.equal(result.backfillDebug.finalOutcome, "backfill");
+    assert.equal(
+      result.backfillDebug.rejectedCandidates[0]?.failureReason,
+      "rebuild_eval_rejected: title_safe_zone_obstructed"
+    );
+    // Text retry is reserved for text rejects.
+    assert.equal(result.textRetryMeta.attempted, false);
+  }
+  assert.deepEqual(evaluations, [
+    { slotIndex: 0, attemptOrder: 0, accepted: false, grammarScore: 0.1 },
+    { slotIndex: 3, attemptOrder: 1, accepted: true, grammarScore: 0.9 },
+  ]);
+});
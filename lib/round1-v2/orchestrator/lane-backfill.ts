@@ -11,20 +11,24 @@
  * - No new scout generation — only scouts from the existing pool.
  * - Text retry still runs for `background_text_detected` within each attempt.
  * - Budget is bounded; no unbounded loops.
- * - Does not weaken any validation gate.
+ * - Does not weaken any validation gate; rebuild-only eval rejects (e.g. an
+ *   obstructed title-safe zone) move the lane on to the next candidate.
  * - Failed lanes remain honestly failed with specific reasons.
  */
 
 import type { ScoutPlan, ScoutSlot } from "./build-scout-plan";
 import type { ScoutGenerationResult } from "./run-scout-batch";
 import type { ScoutEvalResult } from "../eval/evaluate-scout";
+import { isRebuildOnlyRejectReason } from "../eval/evaluate-rebuild";
 import type { SelectedScout, SelectionLabel } from "./select-scouts";
 import type { RebuildProvider } from "../providers/rebuild-provider";
 import { RebuildProviderError, REBUILD_WIDE_WIDTH_PX, REBUILD_WIDE_HEIGHT_PX } from "../providers/rebuild-provider";
 import type { ProductionBackgroundValidationEvidence } from "@/lib/production-valid-option";
+import { estimateAiCostUsd } from "@/lib/ai-harness/core/pricing";
 import type { GrammarKey } from "../grammars";
 import { buildRebuildPrompt, buildTextPurgedRebuildPrompt } from "./build-rebuild-prompt";
 import type { DesignMode } from "../design-modes";
+import { findNearDuplicate, scoreRecentSimilarity } from "../eval/near-duplicate";
 
 // ── Public types ──────────────────────────────────────────────────────────────
 
@@ -36,6 +40,10 @@ export interface BackfillCandidate {
   grammarKey: string;
   diversityFamily: string;
   compositeScore: number;
+  /** Perceptual hash of the scout image, when computed. */
+  dHash?: string | null;
+  /** Ranking penalty for resembling one of the organization's recent backgrounds. */
+  recentSimilarityPenalty?: number;
 }
 
 export interface BackfillRejectedAttempt {
@@ -58,6 +66,21 @@ export interface BackfillDebugMeta {
   modeRelaxed?: boolean;
 }
 
+/** Anything lane acceptance can be derived from — scout or rebuild eval results. */
+export type LaneEvalResult = {
+  rejectReasons: readonly string[];
+};
+
+export interface LaneAttemptEvaluation<TEval extends LaneEvalResult> {
+  slotIndex: number;
+  /** 0 for the lane's primary scout; N for the Nth backfill candidate. */
+  attemptOrder: number;
+  textRetry: boolean;
+  /** True when this image passed background acceptance and the rebuild-only gates. */
+  accepted: boolean;
+  eval: TEval;
+}
+
 export interface TextRetryMeta {
   attempted: boolean;
   originalRejectionReason: string | null;
@@ -83,6 +106,8 @@ export type LaneWithBackfillResult =
       usedDiversityFamily: string;
       /** Composite score of the accepted scout. */
       usedCompositeScore: number;
+      /** Estimated spend across every successful rebuild call in the lane, rejected ones included. */
+      estimatedCostUsd: number;
     }
   | {
       status: "exhausted";
@@ -90,6 +115,7 @@ export type LaneWithBackfillResult =
       lastFailureEvidence?: ProductionBackgroundValidationEvidence;
       textRetryMeta: TextRetryMeta;
       backfillDebug: BackfillDebugMeta;
+      estimatedCostUsd: number;
     };
 
 // ── Seed helpers ──────────────────────────────────────────────────────────────
@@ -112,13 +138,17 @@ function textRetryRebuildSeed(scoutSeed: number): number {
  * Eligible = generation succeeded + scout eval passed (not hardReject)
  *            + not in the initially selected set.
  *
- * Sorted by compositeScore descending (best first).
+ * Sorted by compositeScore descending (best first), less any penalty for
+ * resembling the organization's recent backgrounds.
  */
 export function buildBackfillPool(params: {
   plan: ScoutPlan;
   results: ScoutGenerationResult[];
   evals: ScoutEvalResult[];
   selectedSlotIndices: ReadonlySet<number>;
+  /** dHash per plan slot (null when unavailable). */
+  scoutHashes?: ReadonlyArray<string | null>;
+  recentBackgroundHashes?: readonly string[];
 }): BackfillCandidate[] {
   const { plan, results, evals, selectedSlotIndices } = params;
   const candidates: BackfillCandidate[] = [];
@@ -132,6 +162,7 @@ export function buildBackfillPool(params: {
     if (result.status === "failed" || !result.imageBytes) continue; // generation failed
     if (ev.hardReject) continue;                    // structural quality failure
 
+    const dHash = params.scoutHashes?.[i] ?? null;
     candidates.push({
       slotIndex: i,
       slot,
@@ -140,10 +171,13 @@ export function buildBackfillPool(params: {
       grammarKey: slot.grammarKey,
       diversityFamily: slot.diversityFamily,
       compositeScore: ev.compositeScore,
+      dHash,
+      recentSimilarityPenalty: scoreRecentSimilarity(dHash, params.recentBackgroundHashes ?? []).penalty,
     });
   }
 
-  candidates.sort((a, b) => b.compositeScore - a.compositeScore);
+  const rank = (c: BackfillCandidate) => c.compositeScore - (c.recentSimilarityPenalty ?? 0);
+  candidates.sort((a, b) => rank(b) - rank(a));
   return candidates;
 }
 
@@ -151,6 +185,8 @@ export function buildBackfillPool(params: {
  * Select up to `maxCount` backfill candidates for a failing lane.
  *
  * - Excludes scouts already used by another completed lane.
+ * - Excludes perceptual near-duplicates of `avoidHashes` (the scouts other
+ *   lanes are showing), so a backfilled lane cannot repeat a sibling.
  * - Prefers candidates whose grammarKey is NOT in `preferNotGrammarKeys`
  *   (diversity preference), but falls back to same-grammar if needed.
  *
@@ -163,11 +199,15 @@ export function selectEligibleBackfill(params: {
   preferNotGrammarKeys?: ReadonlySet<string>;
   /** Lane label — when present, prefer same-lane candidates first. */
   laneLabel?: string;
+  avoidHashes?: readonly string[];
   maxCount: number;
 }): { candidates: BackfillCandidate[]; diversityRelaxed: boolean; modeRelaxed: boolean } {
   const { pool, completedSlotIndices, preferNotGrammarKeys, laneLabel, maxCount } = params;
+  const avoid = (params.avoidHashes ?? []).map((hash) => ({ key: hash, hash }));
 
-  const available = pool.filter((c) => !completedSlotIndices.has(c.slotIndex));
+  const available = pool.filter(
+    (c) => !completedSlotIndices.has(c.slotIndex) && findNearDuplicate(c.dHash, avoid) === null
+  );
   if (available.length === 0) return { candidates: [], diversityRelaxed: false, modeRelaxed: false };
 
   // Bucket 1 — same lane (when laneLabel provided), otherwise everything.
@@ -226,6 +266,7 @@ interface GenerateResult {
   providerId: string;
   providerModel: string | undefined;
   usedFallback: boolean;
+  estimatedCostUsd: number;
 }
 
 type AttemptGenerateOutcome =
@@ -272,6 +313,12 @@ async function attemptGenerate(
           providerId: provider.id,
           providerModel: res.providerModel,
           usedFallback: !isFirst,
+          // Unpriced models count as zero toward the lane total.
+          estimatedCostUsd:
+            estimateAiCostUsd(res.providerModel, {
+              widthPx: REBUILD_WIDE_WIDTH_PX,
+              heightPx: REBUILD_WIDE_HEIGHT_PX,
+            }) ?? 0,
         },
       };
     } catch (err) {
@@ -291,7 +338,7 @@ async function attemptGenerate(
 }
 
 /** Build background evidence from an eval result. */
-function buildBackgroundEvidence(ev: ScoutEvalResult): ProductionBackgroundValidationEvidence {
+function buildBackgroundEvidence(ev: LaneEvalResult): ProductionBackgroundValidationEvidence {
   return {
     source: "generated",
     sourceGenerationId: null,
@@ -303,6 +350,12 @@ function buildBackgroundEvidence(ev: ScoutEvalResult): ProductionBackgroundValid
   };
 }
 
+/** Failure reason for rebuild-only rejects, which background acceptance does not see. */
+function rebuildGateRejection(ev: LaneEvalResult): string | null {
+  const reasons = ev.rejectReasons.filter(isRebuildOnlyRejectReason);
+  return reasons.length > 0 ? `rebuild_eval_rejected: ${reasons.join("; ")}` : null;
+}
+
 // ── Main backfill runner ──────────────────────────────────────────────────────
 
 /**
@@ -319,7 +372,7 @@ function buildBackgroundEvidence(ev: ScoutEvalResult): ProductionBackgroundValid
  *   4. If `background_text_detected`, run one text-purge retry
  *   5. Accept or mark failed and move to next candidate
  */
-export async function runLaneWithBackfill(params: {
+export async function runLaneWithBackfill<TEval extends LaneEvalResult = ScoutEvalResult>(params: {
   laneLabel: SelectionLabel;
   primaryScout: SelectedScout;
   backfillCandidates: BackfillCandidate[];
@@ -332,10 +385,14 @@ export async function runLaneWithBackfill(params: {
   preferNotGrammarKeys?: ReadonlySet<string>;
   /** Optional planned DesignMode for this lane — threaded into rebuild prompts. */
   designMode?: DesignMode;
-  evalFn: (input: { slot: ScoutSlot; imageBytes: Buffer }) => Promise<ScoutEvalResult>;
+  evalFn: (input: { slot: ScoutSlot; imageBytes: Buffer }) => Promise<TEval>;
   acceptanceFn: (params: {
     evidence: ProductionBackgroundValidationEvidence;
   }) => { accepted: boolean; invalidReasons: string[] };
+  /** Called before each candidate is rebuilt; attemptOrder 0 is the primary scout. */
+  onAttemptStart?: (attempt: { slotIndex: number; attemptOrder: number }) => Promise<void>;
+  /** Called after every rebuilt image is evaluated, text retries included. */
+  onAttemptEvaluated?: (evaluation: LaneAttemptEvaluation<TEval>) => Promise<void>;
 }): Promise<LaneWithBackfillResult> {
   const {
     primaryScout,
@@ -349,6 +406,8 @@ export async function runLaneWithBackfill(params: {
     designMode,
     evalFn,
     acceptanceFn,
+    onAttemptStart,
+    onAttemptEvaluated,
   } = params;
 
   // Build attempt queue: primary scout + up to budget backfills
@@ -391,9 +450,11 @@ export async function runLaneWithBackfill(params: {
   let lastFailureReason = "no_candidates";
   let lastFailureEvidence: ProductionBackgroundValidationEvidence | undefined;
   let backfillAttemptCount = 0; // counts attempts beyond the primary
+  let estimatedCostUsd = 0;
 
   for (const attempt of attemptQueue) {
     if (!attempt.isPrimary) backfillAttemptCount++;
+    await onAttemptStart?.({ slotIndex: attempt.slotIndex, attemptOrder: backfillAttemptCount });
 
     // ── 1. Rebuild ────────────────────────────────────────────────────────────
     const rebuildPrompt = buildRebuildPrompt({
@@ -424,14 +485,36 @@ export async function runLaneWithBackfill(params: {
       continue;
     }
     const gen = genOutcome.gen;
+    estimatedCostUsd += gen.estimatedCostUsd;
 
     // ── 2. Evaluate ───────────────────────────────────────────────────────────
     const rebuildEval = await evalFn({ slot: attempt.slot, imageBytes: gen.imageBytes });
     const evidence = buildBackgroundEvidence(rebuildEval);
     const acceptance = acceptanceFn({ evidence });
+    const gateRejection = rebuildGateRejection(rebuildEval);
+    await onAttemptEvaluated?.({
+      slotIndex: attempt.slotIndex,
+      attemptOrder: backfillAttemptCount,
+      textRetry: false,
+      accepted: acceptance.accepted && !gateRejection,
+      eval: rebuildEval,
+    });
+
+    if (acceptance.accepted && !gateRejection) {
+      return buildAccepted(attempt, gen, evidence, false, textRetryMeta, rejectedCandidates, backfillAttemptCount, primaryScout.slotIndex, estimatedCostUsd, preferNotGrammarKeys);
+    }
 
-    if (acceptance.accepted) {
-      return buildAccepted(attempt, gen, evidence, false, textRetryMeta, rejectedCandidates, backfillAttemptCount, primaryScout.slotIndex, preferNotGrammarKeys);
+    if (acceptance.accepted && gateRejection) {
+      lastFailureReason = gateRejection;
+      lastFailureEvidence = evidence;
+      rejectedCandidates.push({
+        slotIndex: attempt.slotIndex,
+        grammarKey: attempt.grammarKey,
+        diversityFamily: attempt.diversityFamily,
+        failureReason: gateRejection,
+        textRetryAttempted: false,
+      });
+      continue;
     }
 
     // ── 3. Text retry for background_text_detected ────────────────────────────
@@ -467,19 +550,30 @@ export async function runLaneWithBackfill(params: {
 
       if (retryOutcome.ok) {
         const retryGen = retryOutcome.gen;
+        estimatedCostUsd += retryGen.estimatedCostUsd;
         const retryEval = await evalFn({ slot: attempt.slot, imageBytes: retryGen.imageBytes });
         const retryEvidence = buildBackgroundEvidence(retryEval);
         const retryAcceptance = acceptanceFn({ evidence: retryEvidence });
+        const retryGateRejection = rebuildGateRejection(retryEval);
+        await onAttemptEvaluated?.({
+          slotIndex: attempt.slotIndex,
+          attemptOrder: backfillAttemptCount,
+          textRetry: true,
+          accepted: retryAcceptance.accepted && !retryGateRejection,
+          eval: retryEval,
+        });
 
-        if (retryAcceptance.accepted) {
+        if (retryAcceptance.accepted && !retryGateRejection) {
           if (isFirstTextRetry) {
             textRetryMeta = { ...textRetryMeta, retryBecameAccepted: true };
           }
-          return buildAccepted(attempt, retryGen, retryEvidence, false, textRetryMeta, rejectedCandidates, backfillAttemptCount, primaryScout.slotIndex, preferNotGrammarKeys);
+          return buildAccepted(attempt, retryGen, retryEvidence, false, textRetryMeta, rejectedCandidates, backfillAttemptCount, primaryScout.slotIndex, estimatedCostUsd, preferNotGrammarKeys);
         }
 
         // Retry also rejected
-        const retryRejectionReason = retryAcceptance.invalidReasons.join("; ");
+        const retryRejectionReason = retryAcceptance.accepted
+          ? retryGateRejection ?? ""
+          : retryAcceptance.invalidReasons.join("; ");
         if (isFirstTextRetry) {
           textRetryMeta = { ...textRetryMeta, retryRejectionReason, retryBecameAccepted: false };
         }
@@ -541,6 +635,7 @@ export async function runLaneWithBackfill(params: {
     lastFailureEvidence,
     textRetryMeta,
     backfillDebug,
+    estimatedCostUsd,
   };
 }
 
@@ -562,6 +657,7 @@ function buildAccepted(
   rejectedCandidates: BackfillRejectedAttempt[],
   backfillAttemptCount: number,
   primarySlotIndex: number,
+  estimatedCostUsd: number,
   preferNotGrammarKeys?: ReadonlySet<string>
 ): Extract<LaneWithBackfillResult, { status: "accepted" }> {
   const finalOutcome = attempt.isPrimary ? "primary" : "backfill";
@@ -593,5 +689,6 @@ function buildAccepted(
     usedGrammarKey: attempt.grammarKey,
     usedDiversityFamily: attempt.diversityFamily,
     usedCompositeScore: attempt.compositeScore,
+    estimatedCostUsd,
   };
 }
@@ -8,6 +8,7 @@ import {
   DESIGN_MODES,
   DEFAULT_ENABLED_MODES,
 } from "../design-modes";
+import { EMPTY_DESIGN_MODE_FLAG_SETTINGS, resolveDesignModeFlags } from "../design-mode-flags";
 
 // ── Type helper tests ─────────────────────────────────────────────────────────
 
@@ -235,3 +236,162 @@ test("different seeds can produce different mode ordering", () => {
     seedA2.lanes.map((l) => l.mode)
   );
 });
+
+// ── Planner: design-mode flags ───────────────────────────────────────────────
+
+const RETRO_INPUT = {
+  title: "Messy Church",
+  designNotes: "retro vintage poster risograph print style",
+  toneHint: "neutral" as const,
+  motifHints: [],
+  runSeed: "test-seed-005",
+};
+
+test("without flags the plan records no flag decisions", () => {
+  assert.deepEqual(planDesignModes(BASE_INPUT).flagDecisions, []);
+  assert.deepEqual(planDesignModes({ ...BASE_INPUT, flags: resolveDesignModeFlags({}) }), planDesignModes(BASE_INPUT));
+});
+
+test("an organization flag unlocks retro_print like allowRetroPrint and traces it", () => {
+  const flags = resolveDesignModeFlags({
+    organization: { ...EMPTY_DESIGN_MODE_FLAG_SETTINGS, enabledModes: ["retro_print"] },
+  });
+  const plan = planDesignModes({ ...RETRO_INPUT, flags });
+  const lane = plan.lanes.find((l) => l.mode === "retro_print");
+  assert.ok(lane, `Expected retro_print when flagged on: ${plan.summary}`);
+  assert.deepEqual(plan.flagDecisions, [
+    { flag: "enabled", mode: "retro_print", scope: "organization", effect: "added_to_pool", lanes: [lane.lane] },
+  ]);
+});
+
+test("a flag lifts the playful_seasonal signal gate without forcing it in", () => {
+  const flags = resolveDesignModeFlags({
+    organization: { ...EMPTY_DESIGN_MODE_FLAG_SETTINGS, enabledModes: ["playful_seasonal"] },
+  });
+  const plan = planDesignModes({ title: "Foundations", toneHint: "vivid", motifHints: ["stone"], runSeed: "s", flags });
+  const scored = plan.scored.find((s) => s.mode === "playful_seasonal");
+  assert.ok(scored && scored.score > -50 && scored.reasons.includes("flag_enabled"));
+});
+
+test("excluded modes never fill a lane", () => {
+  const unflagged = planDesignModes(BASE_INPUT);
+  const excludedModes = unflagged.lanes.slice(0, 2).map((l) => l.mode);
+  const plan = planDesignModes({
+    ...BASE_INPUT,
+    flags: resolveDesignModeFlags({ project: { ...EMPTY_DESIGN_MODE_FLAG_SETTINGS, excludedModes } }),
+  });
+  for (const mode of excludedModes) {
+    assert.ok(!plan.lanes.some((l) => l.mode === mode), `${mode} is excluded: ${plan.summary}`);
+    assert.ok(!plan.scored.some((s) => s.mode === mode));
+  }
+  assert.ok(plan.allDistinct);
+  assert.ok(plan.flagDecisions.every((d) => d.flag === "excluded" && d.effect === "removed_from_pool" && d.scope === "project"));
+});
+
+test("forced lanes take their mode even when gated or excluded; other lanes stay distinct", () => {
+  const flags = resolveDesignModeFlags({
+    organization: { ...EMPTY_DESIGN_MODE_FLAG_SETTINGS, excludedModes: ["retro_print"] },
+    project: { ...EMPTY_DESIGN_MODE_FLAG_SETTINGS, forcedLaneModes: { B: "retro_print" } },
+  });
+  const plan = planDesignModes({ ...BASE_INPUT, flags });
+  assert.equal(plan.lanes[1].mode, "retro_print");
+  assert.equal(plan.lanes[1].forced, true);
+  assert.equal(plan.lanes[1].rationale, "forced_by_project_flag");
+  assert.equal(plan.lanes[0].forced, false);
+  assert.ok(plan.allDistinct);
+  assert.deepEqual(
+    plan.flagDecisions.map((d) => [d.flag, d.mode, d.effect, d.lanes]),
+    [
+      ["forced_lane", "retro_print", "forced", ["B"]],
+      ["excluded", "retro_print", "overridden_by_forced_lane", ["B"]],
+    ]
+  );
+});
+
+test("unforced lanes avoid co-presence conflicts with a forced mode", () => {
+  const flags = resolveDesignModeFlags({
+    organization: { ...EMPTY_DESIGN_MODE_FLAG_SETTINGS, forcedLaneModes: { A: "illustrative_collage" } },
+  });
+  const plan = planDesignModes({ ...BASE_INPUT, flags });
+  const avoid = getDesignModeMeta("illustrative_collage").avoidIfCoPresent;
+  assert.equal(plan.lanes[0].mode, "illustrative_collage");
+  assert.ok(plan.lanes.slice(1).every((l) => !avoid.includes(l.mode)), plan.summary);
+});
+
+// ── Pinned modes ──────────────────────────────────────────────────────────────
+
+test("pinned modes take the first lanes and the planner fills the rest", () => {
+  const plan = planDesignModes({ ...BASE_INPUT, pinnedModes: ["illustrative_collage"] });
+  assert.equal(plan.lanes[0].mode, "illustrative_collage");
+  assert.equal(plan.lanes[0].rationale, "pinned_by_user");
+  assert.equal(plan.lanes[0].forced, true);
+  assert.equal(plan.lanes[1].forced, false);
+  assert.ok(plan.allDistinct, plan.summary);
+  assert.deepEqual(plan.pinDecisions, [{ mode: "illustrative_collage", effect: "pinned", lanes: ["A"] }]);
+});
+
+test("three pins fill every lane", () => {
+  const pinnedModes = ["graphic_symbol", "photo_composite", "illustrative_collage"] as const;
+  const plan = planDesignModes({ ...BASE_INPUT, pinnedModes });
+  assert.deepEqual(plan.lanes.map((l) => l.mode), [...pinnedModes]);
+  assert.ok(plan.pinDecisions.every((d) => d.effect === "pinned"));
+});
+
+test("pins skip forced lanes and never override a flag exclusion", () => {
+  const flags = resolveDesignModeFlags({
+    organization: {
+      ...EMPTY_DESIGN_MODE_FLAG_SETTINGS,
+      excludedModes: ["modern_abstract"],
+      forcedLaneModes: { A: "typography_led" },
+    },
+  });
+  const plan = planDesignModes({
+    ...BASE_INPUT,
+    flags,
+    pinnedModes: ["typography_led", "modern_abstract", "graphic_symbol"],
+  });
+  assert.equal(plan.lanes[0].mode, "typography_led");
+  assert.equal(plan.lanes[1].mode, "graphic_symbol");
+  assert.ok(!plan.lanes.some((l) => l.mode === "modern_abstract"), plan.summary);
+  assert.deepEqual(
+    plan.pinDecisions.map((d) => [d.mode, d.effect, d.lanes]),
+    [
+      ["typography_led", "already_placed", ["A"]],
+      ["modern_abstract", "excluded_by_flag", []],
+      ["graphic_symbol", "pinned", ["B"]],
+    ]
+  );
+});
+
+test("pins beyond the open lanes are traced as unplaced", () => {
+  const flags = resolveDesignModeFlags({
+    project: { ...EMPTY_DESIGN_MODE_FLAG_SETTINGS, forcedLaneModes: { A: "typography_led", B: "graphic_symbol" } },
+  });
+  const plan = planDesignModes({ ...BASE_INPUT, flags, pinnedModes: ["photo_composite", "modern_abstract"] });
+  assert.equal(plan.lanes[2].mode, "photo_composite");
+  assert.deepEqual(plan.pinDecisions.map((d) => d.effect), ["pinned", "no_open_lane"]);
+});
+
+test("gated and experimental pins need a flag that enables them", () => {
+  const unflagged = planDesignModes({ ...BASE_INPUT, pinnedModes: ["retro_print", "playful_seasonal"] });
+  assert.ok(!unflagged.lanes.some((l) => l.mode === "retro_print" || l.mode === "playful_seasonal"), unflagged.summary);
+  assert.deepEqual(
+    unflagged.pinDecisions.map((d) => [d.mode, d.effect, d.lanes]),
+    [
+      ["retro_print", "not_enabled", []],
+      ["playful_seasonal", "not_enabled", []],
+    ]
+  );
+
+  const flags = resolveDesignModeFlags({
+    organization: { ...EMPTY_DESIGN_MODE_FLAG_SETTINGS, enabledModes: ["retro_print"] },
+  });
+  const flagged = planDesignModes({ ...BASE_INPUT, flags, pinnedModes: ["retro_print"] });
+  assert.equal(flagged.lanes[0].mode, "retro_print");
+  assert.deepEqual(flagged.pinDecisions, [{ mode: "retro_print", effect: "pinned", lanes: ["A"] }]);
+});
+
+test("no pins leaves the plan untouched", () => {
+  assert.deepEqual(planDesignModes({ ...BASE_INPUT, pinnedModes: [] }), planDesignModes(BASE_INPUT));
+  assert.deepEqual(planDesignModes(BASE_INPUT).pinDecisions, []);
+});
@@ -14,6 +14,13 @@ import {
   isDefaultEnabledDesignMode,
 } from "../design-modes";
 import type { TonalVariant } from "../grammars";
+import {
+  DESIGN_MODE_LANES,
+  type DesignModeFlagScope,
+  type DesignModeLane,
+  type ResolvedDesignModeFlags,
+} from "../design-mode-flags";
+import { getDesignModePinAvailability } from "../design-mode-pins";
 
 // ── Public types ──────────────────────────────────────────────────────────────
 
@@ -41,6 +48,18 @@ export interface DesignModePlanInput {
    * Normal planner never picks it.
    */
   allowRetroPrint?: boolean;
+  /**
+   * Organization/project design-mode flags. Enabled modes join the pool with
+   * their signal gates lifted, excluded modes leave it, and forced lanes take
+   * their mode regardless of score, gates or exclusion.
+   */
+  flags?: ResolvedDesignModeFlags | null;
+  /**
+   * Modes the user pinned on the project page. Each takes the first open lane
+   * after forced lanes, regardless of score or signal gates; flag-excluded
+   * modes, and gated or experimental modes no flag enables, are never pinned. The planner fills whatever lanes remain.
+   */
+  pinnedModes?: readonly DesignMode[] | null;
 }
 
 export interface LaneDesignMode {
@@ -66,6 +85,46 @@ export interface DesignModePlan {
   detectedCharacteristics: string[];
   /** Debug: modes considered and their scores */
   scored: Array<{ mode: DesignMode; score: number; reasons: string[] }>;
+  /** Decision trace: how each design-mode flag was applied (empty without flags) */
+  flagDecisions: DesignModeFlagDecision[];
+  /** Decision trace: how each pinned mode was applied (empty without pins) */
+  pinDecisions: DesignModePinDecision[];
+}
+
+export interface DesignModeFlagDecision {
+  flag: "enabled" | "excluded" | "forced_lane";
+  mode: DesignMode;
+  scope: DesignModeFlagScope;
+  /** The forced lane (forced_lane only) */
+  lane?: DesignModeLane;
+  /**
+   * enabled: added_to_pool | already_in_pool
+   * excluded: removed_from_pool | not_in_pool | overridden_by_forced_lane
+   * forced_lane: forced
+   */
+  effect:
+    | "added_to_pool"
+    | "already_in_pool"
+    | "removed_from_pool"
+    | "not_in_pool"
+    | "overridden_by_forced_lane"
+    | "forced";
+  /** Lanes that ended up with this mode */
+  lanes: DesignModeLane[];
+}
+
+export interface DesignModePinDecision {
+  mode: DesignMode;
+  /**
+   * pinned: took an open lane
+   * already_placed: a forced lane (or an earlier pin) already has the mode
+   * excluded_by_flag: an organization/project flag excludes the mode
+   * not_enabled: a gated or experimental mode that no flag enables
+   * no_open_lane: forced lanes and earlier pins left no lane free
+   */
+  effect: "pinned" | "already_placed" | "excluded_by_flag" | "not_enabled" | "no_open_lane";
+  /** Lanes that ended up with this mode */
+  lanes: DesignModeLane[];
 }
 
 // ── Characteristic detection ──────────────────────────────────────────────────
@@ -149,7 +208,8 @@ function scoreMode(
   mode: DesignMode,
   ch: BriefCharacteristics,
   toneHint: TonalVariant,
-  allowRetroPrint = false
+  allowRetroPrint = false,
+  flagEnabled = false
 ): ScoredMode {
   const meta = DESIGN_MODE_META[mode];
   let score = 0;
@@ -216,13 +276,16 @@ function scoreMode(
     case "playful_seasonal":
       // Only score meaningfully if seasonal
       if (ch.isSeasonal) { score += 5; reasons.push("seasonal"); }
+      else if (flagEnabled) { reasons.push("flag_enabled"); }
       else { score = -99; reasons.push("no_seasonal_signal_gated"); }
       break;
 
     case "retro_print":
-      if (allowRetroPrint && ch.isRetroSignal) {
+      if ((allowRetroPrint || flagEnabled) && ch.isRetroSignal) {
         score += 5;
         reasons.push("retro_signal_unlocked");
+      } else if (flagEnabled) {
+        reasons.push("flag_enabled");
       } else {
         score = -99;
         reasons.push("gated_experimental");
@@ -252,8 +315,12 @@ function fnv1a(str: string): number {
  * Behavior guarantees:
  * - Always returns exactly 3 lanes.
  * - Prefers 3 distinct modes; falls back to repeating with variant note if pool is exhausted.
- * - Never selects retro_print unless allowRetroPrint is true.
- * - Never selects playful_seasonal unless brief contains seasonal signals.
+ * - Never selects retro_print unless allowRetroPrint is true or a flag enables it.
+ * - Never selects playful_seasonal unless brief contains seasonal signals or a flag enables it.
+ * - Never selects an excluded mode, except on a lane that forces it.
+ * - Forced lanes always get their forced mode.
+ * - Pinned modes take the open lanes next, in A→B→C order, unless a flag excludes them or
+ *   they are gated/experimental and no flag enables them.
  */
 export function planDesignModes(input: DesignModePlanInput): DesignModePlan {
   const ch = detectCharacteristics(input);
@@ -261,16 +328,26 @@ export function planDesignModes(input: DesignModePlanInput): DesignModePlan {
     .filter(([, v]) => v === true)
     .map(([k]) => k);
 
+  const flags = input.flags ?? null;
+  const enabledByFlag = new Set((flags?.enabled ?? []).map((entry) => entry.mode));
+  const excludedByFlag = new Set((flags?.excluded ?? []).map((entry) => entry.mode));
+  const forcedByLane = new Map((flags?.forcedLanes ?? []).map((entry) => [entry.lane, entry]));
+
   // Build pool: default-enabled modes, plus conditionally unlocked modes.
-  // playful_seasonal and retro_print are not in DEFAULT_ENABLED_MODES; add them only when signals justify.
-  const pool: DesignMode[] = [
+  // playful_seasonal and retro_print are not in DEFAULT_ENABLED_MODES; add them only when signals justify
+  // or a flag turns them on. Flag-excluded modes leave the pool.
+  const basePool: DesignMode[] = [
     ...DEFAULT_ENABLED_MODES,
     ...(ch.isSeasonal ? ["playful_seasonal" as DesignMode] : []),
     ...(input.allowRetroPrint ? ["retro_print" as DesignMode] : []),
   ];
+  const pool: DesignMode[] = [
+    ...basePool,
+    ...[...enabledByFlag].filter((mode) => !basePool.includes(mode)),
+  ].filter((mode) => !excludedByFlag.has(mode));
 
   const scored = pool
-    .map((mode) => scoreMode(mode, ch, input.toneHint, input.allowRetroPrint))
+    .map((mode) => scoreMode(mode, ch, input.toneHint, input.allowRetroPrint, enabledByFlag.has(mode)))
     .sort((a, b) => {
       if (b.score !== a.score) return b.score - a.score;
       // Deterministic tie-breaking via seed
@@ -280,49 +357,78 @@ export function planDesignModes(input: DesignModePlanInput): DesignModePlan {
       return (ai + seedVal) % pool.length - (bi + seedVal) % pool.length;
     });
 
-  // Pick top 3 distinct modes, respecting avoidIfCoPresent constraints
-  const pickedModes: DesignMode[] = [];
-  const pickedScored: ScoredMode[] = [];
+  // Forced lanes are filled first; the remaining lanes take the top distinct
+  // modes in A→B→C order, respecting avoidIfCoPresent constraints.
+  const slots: Array<{ mode: DesignMode; scored: ScoredMode; forced: boolean } | null> = DESIGN_MODE_LANES.map((lane) => {
+    const forced = forcedByLane.get(lane);
+    if (!forced) return null;
+    return {
+      mode: forced.mode,
+      scored: { mode: forced.mode, score: 0, reasons: [`forced_by_${forced.scope}_flag`] },
+      forced: true,
+    };
+  });
+  const pickedModes = () => slots.flatMap((slot) => (slot ? [slot.mode] : []));
+
+  // Pins come next: user choices bypass scoring and signal gates, but not flag exclusions, and
+  // gated or experimental modes still need a flag to enable them.
+  const pinEffects: Array<{ mode: DesignMode; effect: DesignModePinDecision["effect"] }> = [];
+  for (const mode of input.pinnedModes ?? []) {
+    const open = slots.indexOf(null);
+    const availability = getDesignModePinAvailability(mode, flags);
+    if (pickedModes().includes(mode)) {
+      pinEffects.push({ mode, effect: "already_placed" });
+    } else if (availability !== "available") {
+      pinEffects.push({ mode, effect: availability });
+    } else if (open === -1) {
+      pinEffects.push({ mode, effect: "no_open_lane" });
+    } else {
+      slots[open] = { mode, scored: { mode, score: 0, reasons: ["pinned_by_user"] }, forced: true };
+      pinEffects.push({ mode, effect: "pinned" });
+    }
+  }
 
   for (const s of scored) {
-    if (pickedModes.length >= 3) break;
+    const open = slots.indexOf(null);
+    if (open === -1) break;
     if (s.score < -50) continue; // gated/ineligible
+    if (pickedModes().includes(s.mode)) continue;
     // Avoid co-presence conflicts
     const meta = DESIGN_MODE_META[s.mode];
-    const conflicts = meta.avoidIfCoPresent.some((m) => pickedModes.includes(m));
+    const conflicts = meta.avoidIfCoPresent.some((m) => pickedModes().includes(m));
     if (conflicts) continue;
-    if (!pickedModes.includes(s.mode)) {
-      pickedModes.push(s.mode);
-      pickedScored.push(s);
-    }
+    slots[open] = { mode: s.mode, scored: s, forced: false };
   }
 
-  // Safety fallback: if we couldn't get 3 distinct modes, repeat from scored list
-  // (this can only happen if the default pool is very small, which is a config error)
+  // Safety fallback: if we couldn't fill every lane, use the emergency modes
+  // (this can only happen if the pool is very small — a config error or heavy exclusion).
+  // Excluded fallbacks are a last resort so every lane still gets a mode.
   let usedFallback = false;
-  if (pickedModes.length < 3) {
+  if (slots.includes(null)) {
     usedFallback = true;
     const fallbacks: DesignMode[] = ["cinematic_atmospheric", "minimal_editorial", "modern_abstract"];
-    for (const fb of fallbacks) {
-      if (pickedModes.length >= 3) break;
-      if (!pickedModes.includes(fb)) {
-        pickedModes.push(fb);
-        pickedScored.push({ mode: fb, score: 0, reasons: ["emergency_fallback"] });
+    const ordered = [
+      ...fallbacks.filter((fb) => !excludedByFlag.has(fb)),
+      ...fallbacks.filter((fb) => excludedByFlag.has(fb)),
+    ];
+    for (const fb of ordered) {
+      const open = slots.indexOf(null);
+      if (open === -1) break;
+      if (!pickedModes().includes(fb)) {
+        slots[open] = { mode: fb, scored: { mode: fb, score: 0, reasons: ["emergency_fallback"] }, forced: false };
       }
     }
   }
 
-  const labels = ["A", "B", "C"] as const;
-  const lanes = labels.map((lane, i) => {
-    const mode = pickedModes[i];
-    const s = pickedScored[i];
-    const meta = DESIGN_MODE_META[mode];
+  const lanes = DESIGN_MODE_LANES.map((lane, i) => {
+    const slot = slots[i]!;
+    const meta = DESIGN_MODE_META[slot.mode];
     return {
       lane,
-      mode,
-      rationale: s.reasons.join(", "),
+      mode: slot.mode,
+      rationale: slot.scored.reasons.join(", "),
       referenceAnchors: meta.referenceAnchors,
-      forced: false,
+      forced: slot.forced,
       usedFallback,
     } satisfies LaneDesignMode;
   }) as [LaneDesignMode, LaneDesignMode, LaneDesignMode];
@@ -336,5 +442,48 @@ export function planDesignModes(input: DesignModePlanInput): DesignModePlan {
     allDistinct,
     detectedCharacteristics,
     scored,
+    flagDecisions: flags ? traceFlagDecisions(flags, basePool, lanes) : [],
+    pinDecisions: pinEffects.map(({ mode, effect }) => ({
+      mode,
+      effect,
+      lanes: lanes.filter((l) => l.mode === mode).map((l) => l.lane),
+    })),
   };
 }
+
+function traceFlagDecisions(
+  flags: ResolvedDesignModeFlags,
+  basePool: readonly DesignMode[],
+  lanes: readonly LaneDesignMode[]
+): DesignModeFlagDecision[] {
+  const lanesWith = (mode: DesignMode) => lanes.filter((l) => l.mode === mode).map((l) => l.lane);
+  const forcedModes = new Set(flags.forcedLanes.map((entry) => entry.mode));
+  return [
+    ...flags.forcedLanes.map(({ lane, mode, scope }): DesignModeFlagDecision => ({
+      flag: "forced_lane",
+      mode,
+      scope,
+      lane,
+      effect: "forced",
+      lanes: lanesWith(mode),
+    })),
+    ...flags.enabled.map(({ mode, scope }): DesignModeFlagDecision => ({
+      flag: "enabled",
+      mode,
+      scope,
+      effect: basePool.includes(mode) ? "already_in_pool" : "added_to_pool",
+      lanes: lanesWith(mode),
+    })),
+    ...flags.excluded.map(({ mode, scope }): DesignModeFlagDecision => ({
+      flag: "excluded",
+      mode,
+      scope,
+      effect: forcedModes.has(mode)
+        ? "overridden_by_forced_lane"
+        : basePool.includes(mode)
+          ? "removed_from_pool"
+          : "not_in_pool",
+      lanes: lanesWith(mode),
+    })),
+  ];
+}
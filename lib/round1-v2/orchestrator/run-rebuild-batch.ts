@@ -6,6 +6,7 @@ import { REBUILD_WIDE_WIDTH_PX, REBUILD_WIDE_HEIGHT_PX } from "../providers/rebu
 import { buildRebuildPrompt } from "./build-rebuild-prompt";
 import type { GrammarKey } from "../grammars";
 import { ROUND1_V2_CONFIG } from "../config";
+import { estimateAiCostUsd } from "@/lib/ai-harness/core/pricing";
 
 export interface RebuildLaneResult {
   label: SelectionLabel;
@@ -126,6 +127,10 @@ export async function runRebuildBatch(
               status: "SUCCESS",
               latencyMs: res.latencyMs,
               providerModel: res.providerModel,
+              estimatedCostUsd: estimateAiCostUsd(res.providerModel, {
+                widthPx: REBUILD_WIDE_WIDTH_PX,
+                heightPx: REBUILD_WIDE_HEIGHT_PX,
+              }),
             });
           } catch { /* non-blocking */ }
         }
@@ -148,3 +148,65 @@ test("legacy non-lane-aware plan still uses grammar-diversity selection (back-co
   const sel = selectScouts(plan, results, evals);
   assert.equal(sel.selected.length, 3);
 });
+
+// ── Perceptual near-duplicates ────────────────────────────────────────────────
+
+// Pairwise at least 32 bits apart — nowhere near duplicates of each other.
+const DISTINCT_HASHES = [
+  "0000000000000000",
+  "ffffffffffffffff",
+  "00000000ffffffff",
+  "ffffffff00000000",
+  "0000ffff0000ffff",
+  "ffff0000ffff0000",
+  "00ff00ff00ff00ff",
+  "ff00ff00ff00ff00",
+  "0f0f0f0f0f0f0f0f",
+];
+
+function makeLanePlan() {
+  return buildScoutPlan({
+    runSeed: RUN_SEED,
+    tone: "neutral",
+    motifs: ["light"],
+    negativeHints: [],
+    lanes: [
+      { laneKey: "A", designMode: "minimal_editorial" },
+      { laneKey: "B", designMode: "cinematic_atmospheric" },
+      { laneKey: "C", designMode: "typography_led" },
+    ],
+  });
+}
+
+test("lane-aware selection skips a lane winner that near-duplicates an earlier lane's pick", () => {
+  const plan = makeLanePlan();
+  const { results, evals } = makeBatch(plan, { A: [0.9, 0.5, 0.4], B: [0.8, 0.7, 0.3], C: [0.6, 0.5, 0.4] });
+  const laneASlot = plan.slots.findIndex((s) => s.laneKey === "A");
+  const laneBFirst = plan.slots.findIndex((s) => s.laneKey === "B");
+  // B's best scout is one bit away from A's winner; everything else is far apart.
+  const scoutHashes = plan.slots.map((_, i) => DISTINCT_HASHES[i]);
+  scoutHashes[laneBFirst] = scoutHashes[laneASlot].slice(0, 15) + "1";
+  const sel = selectScouts(plan, results, evals, { scoutHashes });
+  const b = sel.selected.find((s) => s.label === "B");
+  assert.ok(b);
+  assert.notEqual(b.slotIndex, laneBFirst);
+  assert.equal(b.slot.laneKey, "B");
+  assert.equal(
+    sel.rejected.find((r) => r.slotIndex === laneBFirst)?.rejectionReason,
+    `not_selected: near_duplicate_of_slot=${laneASlot}`
+  );
+});
+
+test("lane-aware selection penalizes scouts resembling the organization's recent backgrounds", () => {
+  const plan = makeLanePlan();
+  const { results, evals } = makeBatch(plan, { A: [0.72, 0.7, 0.3] });
+  const [first, second] = plan.slots.flatMap((s, i) => (s.laneKey === "A" ? [i] : []));
+  const scoutHashes = plan.slots.map((_, i) => DISTINCT_HASHES[i]);
+  // A's top scout sits one bit from a background the organization already received.
+  const recentBackgroundHashes = [scoutHashes[first].slice(0, 15) + (scoutHashes[first][15] === "0" ? "1" : "e")];
+  const sel = selectScouts(plan, results, evals, { scoutHashes, recentBackgroundHashes });
+  const a = sel.selected.find((s) => s.label === "A");
+  assert.equal(a?.slotIndex, second);
+  assert.doesNotMatch(a?.selectionReason ?? "", /similar_recent/);
+  assert.equal(sel.rejected.find((r) => r.slotIndex === first)?.rejectionReason, "not_selected: lane_winner_chosen");
+});
@@ -5,6 +5,7 @@ import { buildScoutPlan, type ScoutPlan, type ScoutSlot } from "./build-scout-pl
 import { selectScouts } from "./select-scouts";
 import type { ScoutGenerationResult } from "./run-scout-batch";
 import type { ScoutEvalResult } from "../eval/evaluate-scout";
+import { FIXED_SCOUT_RANKING_WEIGHTS } from "../eval/scout-ranking";
 
 // ── Fixture builders ──────────────────────────────────────────────────────────
 
@@ -84,6 +85,50 @@ test("selected scouts are ordered by composite score descending", () => {
   assert.ok(sel.selected[1].compositeScore >= sel.selected[2].compositeScore);
 });
 
+test("learned ranking weights reorder candidates and are named in the selection reason", () => {
+  const plan = makePlan(6);
+  // Composite favours slot 0; the learned weights only value margin, which favours slot 3.
+  const { results, evals } = makeResultsAndEvals(plan, (i) =>
+    makePassingEval({ compositeScore: i === 0 ? 0.95 : 0.5, marginScore: i === 3 ? 0.9 : 0.1 })
+  );
+  const rankingWeights = {
+    ...FIXED_SCOUT_RANKING_WEIGHTS,
+    version: 4,
+    numeric: { ...FIXED_SCOUT_RANKING_WEIGHTS.numeric, toneScore: 0, structureScore: 0, marginScore: 1 },
+  };
+  const sel = selectScouts(plan, results, evals, { rankingWeights });
+  assert.equal(sel.selected[0].slotIndex, 3);
+  assert.equal(sel.selected[0].compositeScore, 0.5);
+  assert.match(sel.selected[0].selectionReason, /rank=v4:0\.900/);
+
+  const fixed = selectScouts(plan, results, evals);
+  assert.equal(fixed.selected[0].slotIndex, 0);
+  assert.doesNotMatch(fixed.selected[0].selectionReason, /rank=/);
+});
+
+test("the recent-background penalty scales with learned weights that score in logits", () => {
+  const plan = makePlan(6);
+  const { results, evals } = makeResultsAndEvals(plan, (i) =>
+    makePassingEval({ marginScore: i === 0 ? 0.9 : i === 3 ? 0.8 : 0.1 })
+  );
+  const rankingWeights = {
+    ...FIXED_SCOUT_RANKING_WEIGHTS,
+    version: 5,
+    numeric: { ...FIXED_SCOUT_RANKING_WEIGHTS.numeric, toneScore: 0, structureScore: 0, marginScore: 8 },
+  };
+  const scoutHashes = [
+    "0000000000000000",
+    "ffffffffffffffff",
+    "00000000ffffffff",
+    "ffffffff00000000",
+    "0f0f0f0f0f0f0f0f",
+    "f0f0f0f0f0f0f0f0",
+  ];
+  // Slot 0 leads by 0.8 logits; an unscaled 0.15 penalty would leave it on top.
+  const sel = selectScouts(plan, results, evals, { rankingWeights, scoutHashes, recentBackgroundHashes: [scoutHashes[0]] });
+  assert.equal(sel.selected[0].slotIndex, 3);
+});
+
 // ── Distinctiveness enforcement ───────────────────────────────────────────────
 
 test("no two selected scouts share the same grammarKey (when pool is large enough)", () => {
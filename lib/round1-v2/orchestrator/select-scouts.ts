@@ -2,6 +2,14 @@ import type { ScoutPlan, ScoutSlot, LaneKey } from "./build-scout-plan";
 import { LANE_KEYS } from "./build-scout-plan";
 import type { ScoutGenerationResult } from "./run-scout-batch";
 import type { ScoutEvalResult } from "../eval/evaluate-scout";
+import {
+  FIXED_SCOUT_RANKING_WEIGHTS,
+  buildScoutRankingFeatures,
+  scoreScoutRanking,
+  scoutRankingScoreRange,
+  type ScoutRankingWeights,
+} from "../eval/scout-ranking";
+import { findNearDuplicate, scoreRecentSimilarity } from "../eval/near-duplicate";
 
 export type SelectionLabel = "A" | "B" | "C";
 
@@ -35,12 +43,22 @@ export interface ScoutSelection {
   distinctFamilyCount: number;
 }
 
+export interface SelectScoutsOptions {
+  /** Fitted ranking weights; when absent, candidates rank by eval compositeScore. */
+  rankingWeights?: ScoutRankingWeights | null;
+  /** dHash per plan slot (null when unavailable). Enables near-duplicate rejection within the run. */
+  scoutHashes?: ReadonlyArray<string | null>;
+  /** dHashes of backgrounds the organization received recently; similar scouts lose ranking score. */
+  recentBackgroundHashes?: readonly string[];
+}
+
 const SELECTION_LABELS: SelectionLabel[] = ["A", "B", "C"];
 
 export function selectScouts(
   plan: ScoutPlan,
   results: ScoutGenerationResult[],
-  evals: ScoutEvalResult[]
+  evals: ScoutEvalResult[],
+  options: SelectScoutsOptions = {}
 ): ScoutSelection {
   if (results.length !== plan.slots.length || evals.length !== plan.slots.length) {
     throw new Error(
@@ -54,8 +72,15 @@ export function selectScouts(
     slot: ScoutSlot;
     result: ScoutGenerationResult;
     eval: ScoutEvalResult;
+    rankingScore: number;
+    hash: string | null;
+    recentDistance: number | null;
   }> = [];
 
+  // The recent-background penalty is tuned on the 0–1 composite scale; fitted weights score in
+  // logits, so it is rescaled to keep the same share of the active scorer's range.
+  const recentPenaltyScale = scoutRankingScoreRange(options.rankingWeights ?? FIXED_SCOUT_RANKING_WEIGHTS);
+
   // Partition into candidates vs hard-rejected
   for (let i = 0; i < plan.slots.length; i++) {
     const slot = plan.slots[i];
@@ -82,11 +107,42 @@ export function selectScouts(
       continue;
     }
 
-    candidates.push({ slotIndex: i, slot, result, eval: ev });
+    const hash = options.scoutHashes?.[i] ?? null;
+    const recent = scoreRecentSimilarity(hash, options.recentBackgroundHashes ?? []);
+    const rankingScore =
+      (options.rankingWeights
+        ? scoreScoutRanking(
+            buildScoutRankingFeatures({ eval: ev, grammarKey: slot.grammarKey, designMode: slot.designMode }),
+            options.rankingWeights
+          )
+        : ev.compositeScore) - recent.penalty * recentPenaltyScale;
+    candidates.push({
+      slotIndex: i,
+      slot,
+      result,
+      eval: ev,
+      rankingScore,
+      hash,
+      recentDistance: recent.penalty > 0 ? recent.distance : null,
+    });
   }
 
-  // Sort by composite score descending
-  candidates.sort((a, b) => b.eval.compositeScore - a.eval.compositeScore);
+  // Sort by ranking score descending (composite score unless learned weights are
+  // loaded, less any penalty for resembling the organization's recent backgrounds)
+  candidates.sort((a, b) => b.rankingScore - a.rankingScore);
+  const rankSuffix = (candidate: (typeof candidates)[number]): string =>
+    (options.rankingWeights
+      ? ` rank=v${options.rankingWeights.version}:${candidate.rankingScore.toFixed(3)}`
+      : "") + (candidate.recentDistance !== null ? ` similar_recent=d${candidate.recentDistance}` : "");
+  // Slot index of the selected scout this candidate near-duplicates, or null.
+  const nearDuplicateOf = (
+    candidate: (typeof candidates)[number],
+    chosen: ReadonlyArray<{ slotIndex: number }>
+  ): number | null =>
+    findNearDuplicate(
+      candidate.hash,
+      chosen.map((s) => ({ key: s.slotIndex, hash: options.scoutHashes?.[s.slotIndex] }))
+    );
 
   // ── Lane-aware path ──────────────────────────────────────────────────────
   // When the plan is lane-aware (slots carry laneKey), pick one winner per
@@ -99,11 +155,14 @@ export function selectScouts(
     const remainderForFallback: typeof candidates = [];
 
     for (const laneKey of LANE_KEYS) {
-      const laneCandidates = candidates.filter(
-        (c) => c.slot.laneKey === laneKey && !consumedSlotIndices.has(c.slotIndex)
+      // Already sorted by ranking score; skip look-alikes of earlier lane winners.
+      const winner = candidates.find(
+        (c) =>
+          c.slot.laneKey === laneKey &&
+          !consumedSlotIndices.has(c.slotIndex) &&
+          nearDuplicateOf(c, laneAwareSelected) === null
       );
-      if (laneCandidates.length === 0) continue;
-      const winner = laneCandidates[0]; // already sorted by composite score
+      if (!winner) continue;
       laneAwareSelected.push({
         label: laneKey as SelectionLabel,
         slotIndex: winner.slotIndex,
@@ -113,7 +172,7 @@ export function selectScouts(
         grammarKey: winner.slot.grammarKey,
         diversityFamily: winner.slot.diversityFamily,
         compositeScore: winner.eval.compositeScore,
-        selectionReason: `score=${winner.eval.compositeScore.toFixed(3)} grammar=${winner.slot.grammarKey} lane=${laneKey} mode=${winner.slot.designMode ?? "(none)"}`,
+        selectionReason: `score=${winner.eval.compositeScore.toFixed(3)} grammar=${winner.slot.grammarKey} lane=${laneKey} mode=${winner.slot.designMode ?? "(none)"}${rankSuffix(winner)}`,
       });
       consumedSlotIndices.add(winner.slotIndex);
     }
@@ -125,12 +184,11 @@ export function selectScouts(
       (lk) => !laneAwareSelected.some((s) => s.label === lk)
     );
     if (missingLanes.length > 0) {
-      const crossLaneRemainder = candidates.filter(
-        (c) => !consumedSlotIndices.has(c.slotIndex)
-      );
       for (const laneKey of missingLanes) {
-        if (crossLaneRemainder.length === 0) break;
-        const fallback = crossLaneRemainder.shift()!;
+        const fallback = candidates.find(
+          (c) => !consumedSlotIndices.has(c.slotIndex) && nearDuplicateOf(c, laneAwareSelected) === null
+        );
+        if (!fallback) break;
         laneAwareSelected.push({
           label: laneKey as SelectionLabel,
           slotIndex: fallback.slotIndex,
@@ -140,7 +198,7 @@ export function selectScouts(
           grammarKey: fallback.slot.grammarKey,
           diversityFamily: fallback.slot.diversityFamily,
           compositeScore: fallback.eval.compositeScore,
-          selectionReason: `score=${fallback.eval.compositeScore.toFixed(3)} grammar=${fallback.slot.grammarKey} lane=${laneKey} mode=${fallback.slot.designMode ?? "(none)"} (mode-relaxed)`,
+          selectionReason: `score=${fallback.eval.compositeScore.toFixed(3)} grammar=${fallback.slot.grammarKey} lane=${laneKey} mode=${fallback.slot.designMode ?? "(none)"}${rankSuffix(fallback)} (mode-relaxed)`,
         });
         consumedSlotIndices.add(fallback.slotIndex);
       }
@@ -158,11 +216,15 @@ export function selectScouts(
       }
     }
     for (const c of remainderForFallback) {
+      const duplicateOf = nearDuplicateOf(c, laneAwareSelected);
       rejected.push({
         slotIndex: c.slotIndex,
         slot: c.slot,
         eval: c.eval,
-        rejectionReason: "not_selected: lane_winner_chosen",
+        rejectionReason:
+          duplicateOf !== null
+            ? `not_selected: near_duplicate_of_slot=${duplicateOf}`
+            : "not_selected: lane_winner_chosen",
       });
     }
 
@@ -200,7 +262,7 @@ export function selectScouts(
     const grammarKey = candidate.slot.grammarKey;
     const diversityFamily = candidate.slot.diversityFamily;
 
-    if (usedGrammarKeys.has(grammarKey)) {
+    if (usedGrammarKeys.has(grammarKey) || nearDuplicateOf(candidate, selected) !== null) {
       // Grammar already selected — defer to later unless no better option exists
       remainderRejected.push(candidate);
       continue;
@@ -216,7 +278,7 @@ export function selectScouts(
       grammarKey,
       diversityFamily,
       compositeScore: candidate.eval.compositeScore,
-      selectionReason: `score=${candidate.eval.compositeScore.toFixed(3)} grammar=${grammarKey}`,
+      selectionReason: `score=${candidate.eval.compositeScore.toFixed(3)} grammar=${grammarKey}${rankSuffix(candidate)}`,
     });
     usedGrammarKeys.add(grammarKey);
     usedDiversityFamilies.add(diversityFamily);
@@ -226,6 +288,8 @@ export function selectScouts(
   if (selected.length < 3) {
     for (const candidate of remainderRejected) {
       if (selected.length >= 3) break;
+      // Uniqueness relaxes to grammar only — near-duplicates stay rejected.
+      if (nearDuplicateOf(candidate, selected) !== null) continue;
       const label = SELECTION_LABELS[selected.length];
       selected.push({
         label,
@@ -236,7 +300,7 @@ export function selectScouts(
         grammarKey: candidate.slot.grammarKey,
         diversityFamily: candidate.slot.diversityFamily,
         compositeScore: candidate.eval.compositeScore,
-        selectionReason: `score=${candidate.eval.compositeScore.toFixed(3)} grammar=${candidate.slot.grammarKey} (relaxed-uniqueness)`,
+        selectionReason: `score=${candidate.eval.compositeScore.toFixed(3)} grammar=${candidate.slot.grammarKey}${rankSuffix(candidate)} (relaxed-uniqueness)`,
       });
     }
   }
@@ -245,13 +309,17 @@ export function selectScouts(
   const selectedIndices = new Set(selected.map((s) => s.slotIndex));
   for (const candidate of remainderRejected) {
     if (!selectedIndices.has(candidate.slotIndex)) {
+      const duplicateOf = nearDuplicateOf(candidate, selected);
       rejected.push({
         slotIndex: candidate.slotIndex,
         slot: candidate.slot,
         eval: candidate.eval,
-        rejectionReason: usedGrammarKeys.has(candidate.slot.grammarKey)
-          ? `not_selected: duplicate_grammar_key=${candidate.slot.grammarKey}`
-          : "not_selected: lower_score",
+        rejectionReason:
+          duplicateOf !== null
+            ? `not_selected: near_duplicate_of_slot=${duplicateOf}`
+            : usedGrammarKeys.has(candidate.slot.grammarKey)
+              ? `not_selected: duplicate_grammar_key=${candidate.slot.grammarKey}`
+              : "not_selected: lower_score",
       });
     }
   }
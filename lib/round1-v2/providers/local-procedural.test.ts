@@ -0,0 +1,47 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import sharp from "sharp";
+import { localProceduralProvider } from "./local-procedural";
+import { SCOUT_WIDE_HEIGHT_PX, SCOUT_WIDE_WIDTH_PX } from "./scout-provider";
+import { evaluateScout } from "../eval/evaluate-scout";
+import { TONE_DESCRIPTIONS } from "../orchestrator/build-scout-prompt";
+import { TONAL_VARIANTS } from "../grammars";
+import type { ScoutSlot } from "../orchestrator/build-scout-plan";
+
+function scoutRequest(tone: keyof typeof TONE_DESCRIPTIONS, seed: number) {
+  return {
+    prompt: `Cinematic background plate. ${TONE_DESCRIPTIONS[tone]} light and atmosphere.`,
+    widthPx: SCOUT_WIDE_WIDTH_PX,
+    heightPx: SCOUT_WIDE_HEIGHT_PX,
+    seed,
+  };
+}
+
+test("same request produces identical bytes; different seeds differ", async () => {
+  const a = await localProceduralProvider.generate(scoutRequest("dark", 42));
+  const b = await localProceduralProvider.generate(scoutRequest("dark", 42));
+  const c = await localProceduralProvider.generate(scoutRequest("dark", 43));
+
+  assert.ok(a.imageBytes.equals(b.imageBytes));
+  assert.ok(!a.imageBytes.equals(c.imageBytes));
+  assert.equal(a.seed, 42);
+  assert.equal(a.providerModel, "local/procedural-gradient-v1");
+});
+
+test("output matches the requested dimensions", async () => {
+  const result = await localProceduralProvider.generate({ ...scoutRequest("light", 7), widthPx: 1344, heightPx: 768 });
+  const metadata = await sharp(result.imageBytes).metadata();
+
+  assert.equal(metadata.width, 1344);
+  assert.equal(metadata.height, 768);
+});
+
+test("plates pass the scout eval gates for every tone", async () => {
+  for (const tone of TONAL_VARIANTS) {
+    for (const seed of [1, 2, 3]) {
+      const { imageBytes } = await localProceduralProvider.generate(scoutRequest(tone, seed));
+      const evaluation = await evaluateScout({ slot: { tone } as ScoutSlot, imageBytes });
+      assert.equal(evaluation.hardReject, false, `${tone}/${seed}: ${evaluation.rejectReasons.join(",")}`);
+    }
+  }
+});
@@ -0,0 +1,141 @@
+// Local procedural provider: deterministic gradient + texture plates built from the
+// request seed. Stands in for both the scout and rebuild providers so the whole V2
+// pipeline runs offline (dev, CI) with zero FAL calls. Same seed + prompt → same bytes.
+
+import sharp from "sharp";
+import type { TonalVariant } from "../grammars";
+import { TONE_DESCRIPTIONS } from "../orchestrator/build-scout-prompt";
+import type { RebuildProvider, RebuildRequest, RebuildResult } from "./rebuild-provider";
+import type { ScoutProvider } from "./scout-provider";
+
+export const LOCAL_PROCEDURAL_PROVIDER_ID = "local.procedural";
+const MODEL_ID = "local/procedural-gradient-v1";
+
+interface TonePalette {
+  from: [number, number, number];
+  to: [number, number, number];
+  form: [number, number, number];
+}
+
+// Each palette clears the scout eval tone gates for its tone (see eval/evaluate-scout.ts).
+const TONE_PALETTES: Record<TonalVariant, readonly TonePalette[]> = {
+  light: [
+    { from: [240, 243, 248], to: [150, 176, 206], form: [92, 120, 160] },
+    { from: [248, 244, 238], to: [160, 184, 166], form: [100, 134, 112] },
+  ],
+  vivid: [
+    { from: [255, 196, 0], to: [236, 64, 122], form: [255, 240, 80] },
+    { from: [0, 214, 255], to: [120, 60, 255], form: [40, 255, 200] },
+  ],
+  neutral: [
+    { from: [168, 160, 150], to: [96, 100, 108], form: [210, 204, 196] },
+    { from: [140, 150, 156], to: [74, 80, 90], form: [196, 204, 210] },
+  ],
+  dark: [
+    { from: [34, 44, 72], to: [10, 14, 28], form: [120, 140, 190] },
+    { from: [56, 30, 40], to: [16, 10, 16], form: [180, 120, 110] },
+  ],
+  mono: [
+    { from: [118, 118, 118], to: [40, 40, 40], form: [180, 180, 180] },
+    { from: [96, 96, 96], to: [34, 34, 34], form: [160, 160, 160] },
+  ],
+};
+
+// Tone is inferred from the prompt's tone phrase; anything unrecognized renders neutral.
+function resolvePromptTone(prompt: string): TonalVariant {
+  for (const tone of Object.keys(TONE_DESCRIPTIONS) as TonalVariant[]) {
+    if (prompt.includes(TONE_DESCRIPTIONS[tone])) return tone;
+  }
+  return "neutral";
+}
+
+// Small deterministic PRNG (mulberry32) — no global Math.random.
+function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function rgb([r, g, b]: [number, number, number]): string {
+  return `rgb(${r},${g},${b})`;
+}
+
+export function buildProceduralPlateSvg(params: {
+  prompt: string;
+  seed: number;
+  width: number;
+  height: number;
+}): string {
+  const { width: w, height: h } = params;
+  const random = createSeededRandom(params.seed);
+  const palettes = TONE_PALETTES[resolvePromptTone(params.prompt)];
+  const palette = palettes[Math.floor(random() * palettes.length)] ?? palettes[0];
+
+  const angle = random() * Math.PI * 2;
+  const x1 = (0.5 - Math.cos(angle) / 2).toFixed(3);
+  const y1 = (0.5 - Math.sin(angle) / 2).toFixed(3);
+  const x2 = (0.5 + Math.cos(angle) / 2).toFixed(3);
+  const y2 = (0.5 + Math.sin(angle) / 2).toFixed(3);
+
+  // Two hard-edged forms give the plate real structure (edge density) without
+  // anything glyph-like; the turbulence layer adds a seeded surface texture.
+  const forms: string[] = [];
+  for (let index = 0; index < 2; index++) {
+    const r = Math.round(Math.min(w, h) * (0.18 + random() * 0.16));
+    const cx = Math.round(w * (0.15 + random() * 0.7));
+    const cy = Math.round(h * (0.2 + random() * 0.6));
+    forms.push(
+      `<circle cx="${cx}" cy="${cy}" r="${r}" fill="${rgb(palette.form)}" fill-opacity="${(0.55 + random() * 0.3).toFixed(2)}"/>`
+    );
+  }
+  const turbulenceSeed = Math.floor(random() * 10_000);
+  const baseFrequency = (0.004 + random() * 0.006).toFixed(4);
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${w}" height="${h}" viewBox="0 0 ${w} ${h}">`,
+    `<defs>`,
+    `<linearGradient id="plate" x1="${x1}" y1="${y1}" x2="${x2}" y2="${y2}">`,
+    `<stop offset="0" stop-color="${rgb(palette.from)}"/>`,
+    `<stop offset="1" stop-color="${rgb(palette.to)}"/>`,
+    `</linearGradient>`,
+    `<filter id="grain" x="0" y="0" width="100%" height="100%">`,
+    `<feTurbulence type="fractalNoise" baseFrequency="${baseFrequency}" numOctaves="3" seed="${turbulenceSeed}"/>`,
+    `<feColorMatrix type="saturate" values="0"/>`,
+    `</filter>`,
+    `</defs>`,
+    `<rect width="${w}" height="${h}" fill="url(#plate)"/>`,
+    ...forms,
+    `<rect width="${w}" height="${h}" filter="url(#grain)" opacity="0.12"/>`,
+    `</svg>`,
+  ].join("");
+}
+
+export const localProceduralProvider: ScoutProvider & RebuildProvider = {
+  id: LOCAL_PROCEDURAL_PROVIDER_ID,
+
+  async generate(req: RebuildRequest): Promise<RebuildResult> {
+    const started = Date.now();
+    const svg = buildProceduralPlateSvg({
+      prompt: req.prompt,
+      seed: req.seed,
+      width: req.widthPx,
+      height: req.heightPx,
+    });
+    const imageBytes = await sharp(Buffer.from(svg), { failOn: "none" })
+      .resize({ width: req.widthPx, height: req.heightPx, fit: "fill" })
+      .png()
+      .toBuffer();
+
+    return {
+      imageBytes,
+      latencyMs: Date.now() - started,
+      providerModel: MODEL_ID,
+      seed: req.seed,
+    };
+  },
+};
@@ -1,4 +1,4 @@
-// Phase 1: wide canonical background rebuilds only.
+// Rebuilds are wide-only: the wide background is canonical and square/tall are reframed from it.
 
 export interface RebuildRequest {
   prompt: string;
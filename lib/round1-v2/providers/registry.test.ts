@@ -0,0 +1,63 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import {
+  UnknownProviderError,
+  loadRebuildProvider,
+  loadRound1V2Providers,
+  loadScoutProvider,
+  registerScoutProvider,
+  resolveRound1V2ProviderProfile,
+} from "./registry";
+import { LOCAL_PROCEDURAL_PROVIDER_ID } from "./local-procedural";
+
+function withProvidersEnv(value: string | undefined, fn: () => void): void {
+  const previous = process.env.ROUND1_V2_PROVIDERS;
+  if (value === undefined) delete process.env.ROUND1_V2_PROVIDERS;
+  else process.env.ROUND1_V2_PROVIDERS = value;
+  try {
+    fn();
+  } finally {
+    if (previous === undefined) delete process.env.ROUND1_V2_PROVIDERS;
+    else process.env.ROUND1_V2_PROVIDERS = previous;
+  }
+}
+
+test("profile resolves project override first, then env, then config default", () => {
+  withProvidersEnv("local", () => {
+    assert.equal(resolveRound1V2ProviderProfile("FAL"), "fal");
+    assert.equal(resolveRound1V2ProviderProfile(null), "local");
+    assert.equal(resolveRound1V2ProviderProfile("unknown"), "local");
+  });
+  withProvidersEnv(undefined, () => {
+    assert.equal(resolveRound1V2ProviderProfile(null), "fal");
+  });
+});
+
+test("local profile loads the procedural provider for every role", async () => {
+  const providers = await loadRound1V2Providers("local");
+
+  assert.equal(providers.profile, "local");
+  assert.equal(providers.scout.id, LOCAL_PROCEDURAL_PROVIDER_ID);
+  assert.equal(providers.rebuildPrimary.id, LOCAL_PROCEDURAL_PROVIDER_ID);
+  assert.equal(providers.rebuildFallback.id, LOCAL_PROCEDURAL_PROVIDER_ID);
+});
+
+test("unknown provider ids raise UnknownProviderError", async () => {
+  await assert.rejects(loadScoutProvider("nope"), UnknownProviderError);
+  await assert.rejects(loadRebuildProvider("nope"), (err: unknown) => {
+    assert.ok(err instanceof UnknownProviderError);
+    assert.equal(err.kind, "rebuild");
+    assert.equal(err.providerId, "nope");
+    return true;
+  });
+});
+
+test("registered providers resolve by id", async () => {
+  registerScoutProvider("test.stub", async () => ({
+    id: "test.stub",
+    generate: async (req) => ({ imageBytes: Buffer.alloc(0), latencyMs: 0, providerModel: "stub", seed: req.seed }),
+  }));
+
+  const provider = await loadScoutProvider("test.stub");
+  assert.equal(provider.id, "test.stub");
+});
@@ -0,0 +1,80 @@
+// Provider registry for Round 1 V2, keyed by provider id.
+// Loaders are lazy so FAL clients (and their credentials checks) never load when a
+// run is configured for the local procedural provider.
+
+import { ROUND1_V2_CONFIG, type Round1V2ProviderProfile } from "../config";
+import type { RebuildProvider } from "./rebuild-provider";
+import type { ScoutProvider } from "./scout-provider";
+
+type ProviderLoader<T> = () => Promise<T>;
+
+const scoutProviders = new Map<string, ProviderLoader<ScoutProvider>>([
+  ["fal.flux-schnell", async () => (await import("./fal-flux-schnell")).falFluxSchnellProvider],
+  ["local.procedural", async () => (await import("./local-procedural")).localProceduralProvider],
+]);
+
+const rebuildProviders = new Map<string, ProviderLoader<RebuildProvider>>([
+  ["fal.nano-banana-pro", async () => (await import("./fal-nano-banana-pro")).falNanaBananaPro],
+  ["fal.nano-banana", async () => (await import("./fal-nano-banana")).falNanaBanana],
+  ["local.procedural", async () => (await import("./local-procedural")).localProceduralProvider],
+]);
+
+export class UnknownProviderError extends Error {
+  constructor(
+    public readonly kind: "scout" | "rebuild",
+    public readonly providerId: string
+  ) {
+    super(`Unknown ${kind} provider: ${providerId}`);
+    this.name = "UnknownProviderError";
+  }
+}
+
+export function registerScoutProvider(id: string, loader: ProviderLoader<ScoutProvider>): void {
+  scoutProviders.set(id, loader);
+}
+
+export function registerRebuildProvider(id: string, loader: ProviderLoader<RebuildProvider>): void {
+  rebuildProviders.set(id, loader);
+}
+
+export async function loadScoutProvider(id: string): Promise<ScoutProvider> {
+  const loader = scoutProviders.get(id);
+  if (!loader) throw new UnknownProviderError("scout", id);
+  return loader();
+}
+
+export async function loadRebuildProvider(id: string): Promise<RebuildProvider> {
+  const loader = rebuildProviders.get(id);
+  if (!loader) throw new UnknownProviderError("rebuild", id);
+  return loader();
+}
+
+function isProviderProfile(value: string | undefined): value is Round1V2ProviderProfile {
+  return Boolean(value && Object.prototype.hasOwnProperty.call(ROUND1_V2_CONFIG.providerProfiles, value));
+}
+
+/** Project override → ROUND1_V2_PROVIDERS env → config default. Unknown names are ignored. */
+export function resolveRound1V2ProviderProfile(projectOverride?: string | null): Round1V2ProviderProfile {
+  const override = projectOverride?.trim().toLowerCase();
+  if (isProviderProfile(override)) return override;
+  const env = process.env.ROUND1_V2_PROVIDERS?.trim().toLowerCase();
+  if (isProviderProfile(env)) return env;
+  return ROUND1_V2_CONFIG.defaultProviderProfile;
+}
+
+export interface Round1V2Providers {
+  profile: Round1V2ProviderProfile;
+  scout: ScoutProvider;
+  rebuildPrimary: RebuildProvider;
+  rebuildFallback: RebuildProvider;
+}
+
+export async function loadRound1V2Providers(profile: Round1V2ProviderProfile): Promise<Round1V2Providers> {
+  const ids = ROUND1_V2_CONFIG.providerProfiles[profile];
+  const [scout, rebuildPrimary, rebuildFallback] = await Promise.all([
+    loadScoutProvider(ids.scout),
+    loadRebuildProvider(ids.rebuildPrimary),
+    loadRebuildProvider(ids.rebuildFallback),
+  ]);
+  return { profile, scout, rebuildPrimary, rebuildFallback };
+}
@@ -1,4 +1,4 @@
-// Phase 1: wide aspect only.
+// Scouts are wide-only: selection and rebuild happen on the wide canonical frame.
 
 export interface ScoutRequest {
   prompt: string;
@@ -0,0 +1,125 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import {
+  buildShadowComparisons,
+  readRound1V2ShadowMarker,
+  readRound1V2ShadowPayload,
+  resolveRound1V2ShadowSamplingRate,
+  shouldSampleRound1V2Shadow,
+  summarizeShadowOption,
+} from "./shadow";
+
+function outputWithValidation(params: { valid: boolean; textFree: boolean; toneFit: boolean | null; reasons?: string[] }) {
+  return {
+    meta: {
+      productionValidation: {
+        version: 1,
+        isProductionValid: params.valid,
+        invalidReasons: params.reasons ?? [],
+        background: {
+          source: "generated",
+          sourceGenerationId: null,
+          textFree: params.textFree,
+          scaffoldFree: true,
+          motifPresent: true,
+          toneFit: params.toneFit,
+          referenceFit: null,
+        },
+      },
+    },
+  };
+}
+
+test("shouldSampleRound1V2Shadow: samples below the rate and never at rate 0", () => {
+  assert.equal(shouldSampleRound1V2Shadow(() => 0.05, 0.1), true);
+  assert.equal(shouldSampleRound1V2Shadow(() => 0.1, 0.1), false);
+  assert.equal(shouldSampleRound1V2Shadow(() => 0, 0), false);
+});
+
+test("resolveRound1V2ShadowSamplingRate: env override is clamped; invalid values fall back to config", () => {
+  const previous = process.env.ROUND1_V2_SHADOW_SAMPLING_RATE;
+  try {
+    process.env.ROUND1_V2_SHADOW_SAMPLING_RATE = "0";
+    assert.equal(resolveRound1V2ShadowSamplingRate(), 0);
+    process.env.ROUND1_V2_SHADOW_SAMPLING_RATE = "2";
+    assert.equal(resolveRound1V2ShadowSamplingRate(), 1);
+    process.env.ROUND1_V2_SHADOW_SAMPLING_RATE = "often";
+    assert.equal(resolveRound1V2ShadowSamplingRate(), 0.1);
+  } finally {
+    if (previous === undefined) delete process.env.ROUND1_V2_SHADOW_SAMPLING_RATE;
+    else process.env.ROUND1_V2_SHADOW_SAMPLING_RATE = previous;
+  }
+});
+
+test("readRound1V2ShadowPayload: requires a non-empty list of V1 generation ids", () => {
+  assert.deepEqual(readRound1V2ShadowPayload({ v1GenerationIds: ["a", "b"] }), { v1GenerationIds: ["a", "b"] });
+  assert.equal(readRound1V2ShadowPayload({ v1GenerationIds: [] }), null);
+  assert.equal(readRound1V2ShadowPayload({ v1GenerationIds: ["a", 2] }), null);
+  assert.equal(readRound1V2ShadowPayload(null), null);
+});
+
+test("readRound1V2ShadowMarker: reads the shadowOf marker from lane input", () => {
+  assert.deepEqual(readRound1V2ShadowMarker({ v2: true, shadowOf: { engine: "v1", generationIds: ["a"] } }), {
+    engine: "v1",
+    generationIds: ["a"],
+  });
+  assert.equal(readRound1V2ShadowMarker({ v2: true }), null);
+});
+
+test("summarizeShadowOption: scores background checks and keeps the latest rebuild eval", () => {
+  const summary = summarizeShadowOption(
+    {
+      id: "v2-a",
+      status: "COMPLETED",
+      input: { optionLabel: "A", designMode: "photo_veil", compositeScore: 0.71 },
+      output: outputWithValidation({ valid: false, textFree: false, toneFit: null, reasons: ["background_text_detected"] }),
+      rebuildEvals: [
+        { accepted: false, compositeScore: 0, toneScore: 0.4, grammarScore: 0.3 },
+        { accepted: true, compositeScore: 0.66, toneScore: 0.8, grammarScore: 0.6 },
+      ],
+    },
+    "Z"
+  );
+
+  assert.equal(summary.label, "A");
+  assert.equal(summary.designMode, "photo_veil");
+  assert.equal(summary.productionValid, false);
+  assert.deepEqual(summary.invalidReasons, ["background_text_detected"]);
+  // textFree fails; an unknown toneFit counts as passing, like the background eligibility eval.
+  assert.equal(summary.backgroundScore, 0.75);
+  assert.equal(summary.scoutCompositeScore, 0.71);
+  assert.equal(summary.rebuildEval?.compositeScore, 0.66);
+});
+
+test("buildShadowComparisons: pairs each shadow run with its V1 triplet, labelled by payload position", () => {
+  const marker = { engine: "v1", generationIds: ["v1-a", "v1-b", "v1-c"] };
+  const comparisons = buildShadowComparisons({
+    shadowGenerations: [
+      { id: "v2-b", projectId: "p1", createdAt: new Date("2026-05-07T10:00:00Z"), status: "COMPLETED", input: { runSeed: "run-1", optionLabel: "B", shadowOf: marker }, output: null },
+      { id: "v2-a", projectId: "p1", createdAt: new Date("2026-05-07T10:00:00Z"), status: "COMPLETED", input: { runSeed: "run-1", optionLabel: "A", shadowOf: marker }, output: null },
+      { id: "v2-old", projectId: "p2", createdAt: new Date("2026-05-01T10:00:00Z"), status: "FAILED", input: { runSeed: "run-0", optionLabel: "A" }, output: null },
+    ],
+    v1GenerationsById: new Map([
+      ["v1-a", { id: "v1-a", status: "COMPLETED", input: { optionLabel: "ignored" }, output: outputWithValidation({ valid: true, textFree: true, toneFit: true }) }],
+      ["v1-c", { id: "v1-c", status: "FAILED", input: null, output: null }],
+    ]),
+  });
+
+  assert.deepEqual(
+    comparisons.map((c) => c.key),
+    ["run-1", "run-0"]
+  );
+  assert.deepEqual(
+    comparisons[0].v2.map((o) => o.generationId),
+    ["v2-a", "v2-b"]
+  );
+  assert.deepEqual(
+    comparisons[0].v1.map((o) => [o.label, o.generationId]),
+    [
+      ["A", "v1-a"],
+      ["C", "v1-c"],
+    ]
+  );
+  assert.equal(comparisons[0].v1[0].backgroundScore, 1);
+  assert.deepEqual(comparisons[1].v1, []);
+});
@@ -0,0 +1,179 @@
+// Shadow mode: a sampled share of V1 Round 1 launches also runs the V2 engine in
+// the background. Shadow generations carry Generation.shadow = true, so they never
+// surface on the project and never count toward launch single-flight or quotas;
+// the admin shadow page lines them up against the V1 triplet they shadowed.
+
+import { ROUND1_V2_CONFIG } from "./config";
+import { readProductionValidationEvidence } from "../production-valid-option";
+
+export interface Round1V2ShadowPayload {
+  /** V1 Round 1 generations of the launch being shadowed, in option order (A, B, C). */
+  v1GenerationIds: string[];
+}
+
+/** Recorded on each shadow lane's Generation.input. */
+export interface Round1V2ShadowMarker {
+  engine: "v1";
+  generationIds: string[];
+}
+
+export interface ShadowBackgroundChecks {
+  textFree: boolean | null;
+  scaffoldFree: boolean | null;
+  motifPresent: boolean | null;
+  toneFit: boolean | null;
+}
+
+export interface ShadowRebuildEvalScores {
+  accepted: boolean;
+  compositeScore: number;
+  toneScore: number;
+  grammarScore: number;
+}
+
+export interface ShadowOptionSummary {
+  generationId: string;
+  label: string;
+  status: string;
+  designMode: string | null;
+  productionValid: boolean | null;
+  invalidReasons: string[];
+  background: ShadowBackgroundChecks | null;
+  /** Share of background checks that passed — the score the background eligibility eval records. */
+  backgroundScore: number | null;
+  /** V2 only: composite of the scout the lane was rebuilt from. */
+  scoutCompositeScore: number | null;
+  /** V2 only: eval of the last evaluated rebuild attempt. */
+  rebuildEval: ShadowRebuildEvalScores | null;
+}
+
+export interface ShadowGenerationRow {
+  id: string;
+  status: string;
+  input: unknown;
+  output: unknown;
+  rebuildEvals?: ShadowRebuildEvalScores[];
+}
+
+// ── Sampling ─────────────────────────────────────────────────────────────────
+
+/** ROUND1_V2_SHADOW_SAMPLING_RATE (0–1) overrides the config rate; 0 disables shadow runs. */
+export function resolveRound1V2ShadowSamplingRate(): number {
+  const raw = process.env.ROUND1_V2_SHADOW_SAMPLING_RATE?.trim();
+  const parsed = raw ? Number(raw) : NaN;
+  const rate = Number.isFinite(parsed) ? parsed : ROUND1_V2_CONFIG.shadowSamplingRate;
+  return Math.min(1, Math.max(0, rate));
+}
+
+export function shouldSampleRound1V2Shadow(
+  random: () => number = Math.random,
+  rate: number = resolveRound1V2ShadowSamplingRate()
+): boolean {
+  return rate > 0 && random() < rate;
+}
+
+// ── Payload ──────────────────────────────────────────────────────────────────
+
+export function readRound1V2ShadowPayload(value: unknown): Round1V2ShadowPayload | null {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return null;
+  const ids = (value as { v1GenerationIds?: unknown }).v1GenerationIds;
+  if (!Array.isArray(ids) || ids.length === 0 || !ids.every((id) => typeof id === "string" && id.length > 0)) {
+    return null;
+  }
+  return { v1GenerationIds: ids as string[] };
+}
+
+export function readRound1V2ShadowMarker(input: unknown): Round1V2ShadowMarker | null {
+  const record = readRecord(input);
+  const marker = readRecord(record?.shadowOf);
+  if (!marker || marker.engine !== "v1" || !Array.isArray(marker.generationIds)) return null;
+  return { engine: "v1", generationIds: marker.generationIds.filter((id): id is string => typeof id === "string") };
+}
+
+// ── Side-by-side summaries ───────────────────────────────────────────────────
+
+function readRecord(value: unknown): Record<string, unknown> | null {
+  return value && typeof value === "object" && !Array.isArray(value) ? (value as Record<string, unknown>) : null;
+}
+
+function readNumber(value: unknown): number | null {
+  return typeof value === "number" && Number.isFinite(value) ? value : null;
+}
+
+export function summarizeShadowOption(row: ShadowGenerationRow, fallbackLabel: string): ShadowOptionSummary {
+  const input = readRecord(row.input);
+  const evidence = readProductionValidationEvidence(row.output);
+  const background = evidence?.background
+    ? {
+        textFree: evidence.background.textFree,
+        scaffoldFree: evidence.background.scaffoldFree,
+        motifPresent: evidence.background.motifPresent,
+        toneFit: evidence.background.toneFit,
+      }
+    : null;
+  const checks = background
+    ? [background.textFree === true, background.scaffoldFree === true, background.motifPresent === true, background.toneFit !== false]
+    : [];
+  const rebuildEvals = row.rebuildEvals ?? [];
+
+  return {
+    generationId: row.id,
+    label: typeof input?.optionLabel === "string" ? input.optionLabel : fallbackLabel,
+    status: row.status,
+    designMode: typeof input?.designMode === "string" ? input.designMode : null,
+    productionValid: evidence?.isProductionValid ?? null,
+    invalidReasons: evidence?.invalidReasons ?? [],
+    background,
+    backgroundScore: background ? checks.filter(Boolean).length / checks.length : null,
+    scoutCompositeScore: readNumber(input?.compositeScore),
+    rebuildEval: rebuildEvals.length > 0 ? rebuildEvals[rebuildEvals.length - 1] : null,
+  };
+}
+
+export interface ShadowComparison {
+  /** runSeed of the shadow V2 run. */
+  key: string;
+  projectId: string;
+  createdAt: Date;
+  v1: ShadowOptionSummary[];
+  v2: ShadowOptionSummary[];
+}
+
+/**
+ * Groups shadow V2 lanes by run and pairs each run with the V1 triplet it
+ * shadowed. V1 options are labelled by their position in the shadow payload.
+ */
+export function buildShadowComparisons(params: {
+  shadowGenerations: ReadonlyArray<ShadowGenerationRow & { projectId: string; createdAt: Date }>;
+  v1GenerationsById: ReadonlyMap<string, ShadowGenerationRow>;
+}): ShadowComparison[] {
+  const byRun = new Map<string, ShadowComparison & { v1Ids: string[] }>();
+  for (const generation of params.shadowGenerations) {
+    const input = readRecord(generation.input);
+    const key = typeof input?.runSeed === "string" ? input.runSeed : generation.id;
+    let comparison = byRun.get(key);
+    if (!comparison) {
+      comparison = {
+        key,
+        projectId: generation.projectId,
+        createdAt: generation.createdAt,
+        v1: [],
+        v2: [],
+        v1Ids: readRound1V2ShadowMarker(generation.input)?.generationIds ?? [],
+      };
+      byRun.set(key, comparison);
+    }
+    comparison.v2.push(summarizeShadowOption(generation, String.fromCharCode(65 + comparison.v2.length)));
+  }
+
+  return [...byRun.values()]
+    .map(({ v1Ids, ...comparison }) => ({
+      ...comparison,
+      v1: v1Ids.flatMap((id, index) => {
+        const row = params.v1GenerationsById.get(id);
+        return row ? [summarizeShadowOption({ ...row, input: null }, String.fromCharCode(65 + index))] : [];
+      }),
+      v2: [...comparison.v2].sort((a, b) => a.label.localeCompare(b.label)),
+    }))
+    .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+}
@@ -0,0 +1,95 @@
+import "server-only";
+
+import type { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import {
+  isEmptyDesignModeFlagSettings,
+  readDesignModeFlagSettings,
+  resolveDesignModeFlags,
+  type DesignModeFlagSettings,
+  type ResolvedDesignModeFlags,
+} from "../design-mode-flags";
+
+export interface ProjectDesignModeFlagSettings {
+  projectId: string;
+  projectTitle: string;
+  settings: DesignModeFlagSettings;
+}
+
+/** The organization's flags merged with the project's, ready for planDesignModes. */
+export async function loadResolvedDesignModeFlags(params: {
+  organizationId: string;
+  projectId: string;
+}): Promise<ResolvedDesignModeFlags> {
+  const rows = await prisma.designModeFlag.findMany({
+    where: {
+      organizationId: params.organizationId,
+      OR: [{ projectId: null }, { projectId: params.projectId }],
+    },
+    select: { projectId: true, settingsJson: true },
+  });
+  const organization = rows.find((row) => row.projectId === null);
+  const project = rows.find((row) => row.projectId === params.projectId);
+  return resolveDesignModeFlags({
+    organization: organization ? readDesignModeFlagSettings(organization.settingsJson) : null,
+    project: project ? readDesignModeFlagSettings(project.settingsJson) : null,
+  });
+}
+
+/** Every stored flag row of an organization, for the admin page. */
+export async function listDesignModeFlagSettings(organizationId: string): Promise<{
+  organization: DesignModeFlagSettings | null;
+  projects: ProjectDesignModeFlagSettings[];
+}> {
+  const rows = await prisma.designModeFlag.findMany({
+    where: { organizationId },
+    orderBy: { updatedAt: "desc" },
+    select: { projectId: true, settingsJson: true, project: { select: { series_title: true } } },
+  });
+  const organization = rows.find((row) => row.projectId === null);
+  return {
+    organization: organization ? readDesignModeFlagSettings(organization.settingsJson) : null,
+    projects: rows.flatMap((row) =>
+      row.projectId && row.project
+        ? [
+            {
+              projectId: row.projectId,
+              projectTitle: row.project.series_title,
+              settings: readDesignModeFlagSettings(row.settingsJson),
+            },
+          ]
+        : []
+    ),
+  };
+}
+
+/**
+ * Replaces the flags of one scope (the organization when projectId is null).
+ * Empty settings delete the row so the scope falls back to its parent.
+ */
+export async function saveDesignModeFlagSettings(params: {
+  organizationId: string;
+  projectId: string | null;
+  settings: DesignModeFlagSettings;
+}): Promise<void> {
+  const settings = readDesignModeFlagSettings(params.settings);
+  // SQLite treats NULL projectIds as distinct, so the organization row can't be upserted by the unique key.
+  const existing = await prisma.designModeFlag.findFirst({
+    where: { organizationId: params.organizationId, projectId: params.projectId },
+    select: { id: true },
+  });
+
+  if (isEmptyDesignModeFlagSettings(settings)) {
+    if (existing) await prisma.designModeFlag.delete({ where: { id: existing.id } });
+    return;
+  }
+
+  const settingsJson = settings as unknown as Prisma.InputJsonValue;
+  if (existing) {
+    await prisma.designModeFlag.update({ where: { id: existing.id }, data: { settingsJson } });
+  } else {
+    await prisma.designModeFlag.create({
+      data: { organizationId: params.organizationId, projectId: params.projectId, settingsJson },
+    });
+  }
+}
@@ -4,19 +4,40 @@ export type {
   ScoutRunRecord,
   ScoutEvalRecord,
   RebuildAttemptRecord,
+  RebuildEvalRecord,
   CreateScoutRunInput,
   UpdateScoutRunResultInput,
   CreateScoutEvalInput,
   CreateRebuildAttemptInput,
+  UpdateRebuildAttemptProgressInput,
   UpdateRebuildAttemptResultInput,
+  CreateRebuildEvalInput,
+  CreateScoutChoiceEventInput,
+  ScoutChoiceSource,
 } from "./types";
 
 export { createScoutRun, updateScoutRunResult, getScoutRunsByGenerationId } from "./scout-run-repo";
 export { createScoutEval, getScoutEvalByRunId } from "./scout-eval-repo";
-export { createRebuildAttempt, updateRebuildAttemptResult, getRebuildAttemptsByGenerationId } from "./rebuild-attempt-repo";
+export {
+  createRebuildAttempt,
+  updateRebuildAttemptProgress,
+  updateRebuildAttemptResult,
+  getRebuildAttemptsByGenerationId,
+} from "./rebuild-attempt-repo";
+export { createRebuildEval, getRebuildEvalsByAttemptId } from "./rebuild-eval-repo";
+export { recordScoutChoice, listScoutChoiceGroups } from "./scout-choice-repo";
+export { loadRecentOrganizationBackgroundHashes } from "./recent-background-hashes";
+export {
+  loadResolvedDesignModeFlags,
+  listDesignModeFlagSettings,
+  saveDesignModeFlagSettings,
+  type ProjectDesignModeFlagSettings,
+} from "./design-mode-flag-repo";
 export {
   buildCreateScoutRunInput,
   buildUpdateScoutRunResultInput,
   buildCreateScoutEvalInput,
   buildCreateRebuildAttemptInput,
+  buildCreateRebuildEvalInput,
+  buildCreateScoutChoiceEventInputs,
 } from "./input-builders";
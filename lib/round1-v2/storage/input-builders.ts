@@ -1,15 +1,22 @@
 // Pure helpers: map V2 domain objects → storage input types.
 // These have no Prisma dependency and can be used in tests and scripts alike.
 
+import { estimateAiCostUsd } from "@/lib/ai-harness/core/pricing";
+import { SCOUT_WIDE_HEIGHT_PX, SCOUT_WIDE_WIDTH_PX } from "../providers/scout-provider";
 import type { ScoutSlot } from "../orchestrator/build-scout-plan";
 import type { ScoutGenerationResult } from "../orchestrator/run-scout-batch";
 import type { ScoutEvalResult } from "../eval/evaluate-scout";
+import type { RebuildEvalResult } from "../eval/evaluate-rebuild";
 import type { SelectedScout } from "../orchestrator/select-scouts";
+import { buildScoutRankingFeatures } from "../eval/scout-ranking";
 import type {
   CreateScoutRunInput,
   UpdateScoutRunResultInput,
   CreateScoutEvalInput,
   CreateRebuildAttemptInput,
+  CreateRebuildEvalInput,
+  CreateScoutChoiceEventInput,
+  ScoutChoiceSource,
 } from "./types";
 
 export function buildCreateScoutRunInput(opts: {
@@ -45,6 +52,10 @@ export function buildUpdateScoutRunResultInput(
       status: "SUCCESS",
       latencyMs: result.latencyMs,
       providerModel: result.providerModel,
+      estimatedCostUsd: estimateAiCostUsd(result.providerModel, {
+        widthPx: SCOUT_WIDE_WIDTH_PX,
+        heightPx: SCOUT_WIDE_HEIGHT_PX,
+      }),
     };
   }
   return {
@@ -86,3 +97,68 @@ export function buildCreateRebuildAttemptInput(opts: {
     attemptOrder: opts.attemptOrder,
   };
 }
+
+export function buildCreateRebuildEvalInput(opts: {
+  rebuildAttemptId: string;
+  scoutRunId?: string;
+  attemptOrder: number;
+  textRetry: boolean;
+  accepted: boolean;
+  ev: RebuildEvalResult;
+}): CreateRebuildEvalInput {
+  return {
+    rebuildAttemptId: opts.rebuildAttemptId,
+    scoutRunId: opts.scoutRunId,
+    attemptOrder: opts.attemptOrder,
+    textRetry: opts.textRetry,
+    accepted: opts.accepted,
+    hardReject: opts.ev.hardReject,
+    rejectReasons: opts.ev.rejectReasons,
+    textDetected: opts.ev.textDetected,
+    toneScore: opts.ev.toneScore,
+    structureScore: opts.ev.structureScore,
+    marginScore: opts.ev.marginScore,
+    focalScore: opts.ev.focalScore,
+    grammarScore: opts.ev.grammarScore,
+    compositeScore: opts.ev.compositeScore,
+    imageStats: opts.ev.imageStats,
+  };
+}
+
+/**
+ * One row per lane of the run that has a scout eval (deterministic lanes have
+ * none). Returns no rows unless the chosen lane and at least one sibling have
+ * features — a group without an alternative carries no ranking signal.
+ */
+export function buildCreateScoutChoiceEventInputs(opts: {
+  groupId: string;
+  source: ScoutChoiceSource;
+  projectId: string;
+  runSeed: string;
+  chosenGenerationId: string;
+  lanes: Array<{
+    generationId: string;
+    scoutRunId: string;
+    grammarKey: string;
+    designMode: string | null;
+    eval: Pick<ScoutEvalResult, "toneScore" | "structureScore" | "marginScore" | "imageStats">;
+  }>;
+}): CreateScoutChoiceEventInput[] {
+  if (opts.lanes.length < 2 || !opts.lanes.some((lane) => lane.generationId === opts.chosenGenerationId)) {
+    return [];
+  }
+  return opts.lanes.map((lane) => ({
+    groupId: opts.groupId,
+    source: opts.source,
+    projectId: opts.projectId,
+    generationId: lane.generationId,
+    scoutRunId: lane.scoutRunId,
+    runSeed: opts.runSeed,
+    chosen: lane.generationId === opts.chosenGenerationId,
+    features: buildScoutRankingFeatures({
+      eval: lane.eval,
+      grammarKey: lane.grammarKey,
+      designMode: lane.designMode,
+    }),
+  }));
+}
@@ -5,6 +5,7 @@ import { prisma } from "@/lib/prisma";
 import type {
   RebuildAttemptRecord,
   CreateRebuildAttemptInput,
+  UpdateRebuildAttemptProgressInput,
   UpdateRebuildAttemptResultInput,
 } from "./types";
 
@@ -21,6 +22,7 @@ function mapRebuildAttempt(r: PrismaRebuildAttempt): RebuildAttemptRecord {
     assetPath: r.assetPath,
     latencyMs: r.latencyMs,
     providerModel: r.providerModel,
+    estimatedCostUsd: r.estimatedCostUsd,
     createdAt: r.createdAt,
   };
 }
@@ -40,6 +42,18 @@ export async function createRebuildAttempt(input: CreateRebuildAttemptInput): Pr
   );
 }
 
+export async function updateRebuildAttemptProgress(input: UpdateRebuildAttemptProgressInput): Promise<RebuildAttemptRecord> {
+  return mapRebuildAttempt(
+    await prisma.rebuildAttempt.update({
+      where: { id: input.id },
+      data: {
+        attemptOrder: input.attemptOrder,
+        ...(input.scoutRunId ? { scoutRunId: input.scoutRunId } : {}),
+      },
+    })
+  );
+}
+
 export async function updateRebuildAttemptResult(input: UpdateRebuildAttemptResultInput): Promise<RebuildAttemptRecord> {
   return mapRebuildAttempt(
     await prisma.rebuildAttempt.update({
@@ -47,9 +61,12 @@ export async function updateRebuildAttemptResult(input: UpdateRebuildAttemptResu
       data: {
         status: input.status,
         failureReason: input.failureReason ?? null,
+        ...(input.providerId ? { providerId: input.providerId } : {}),
+        ...(input.scoutRunId ? { scoutRunId: input.scoutRunId } : {}),
         assetPath: input.assetPath ?? null,
         latencyMs: input.latencyMs ?? null,
         providerModel: input.providerModel ?? null,
+        estimatedCostUsd: input.estimatedCostUsd ?? null,
       },
     })
   );
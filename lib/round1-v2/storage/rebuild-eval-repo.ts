@@ -0,0 +1,61 @@
+import "server-only";
+
+import type { Prisma, RebuildEval as PrismaRebuildEval } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import type { RebuildEvalRecord, CreateRebuildEvalInput } from "./types";
+import type { RebuildRejectReason } from "../eval/evaluate-rebuild";
+import type { ScoutImageStats } from "../eval/image-stats";
+
+function mapRebuildEval(r: PrismaRebuildEval): RebuildEvalRecord {
+  return {
+    id: r.id,
+    rebuildAttemptId: r.rebuildAttemptId,
+    scoutRunId: r.scoutRunId,
+    attemptOrder: r.attemptOrder,
+    textRetry: r.textRetry,
+    accepted: r.accepted,
+    hardReject: r.hardReject,
+    rejectReasons: r.rejectReasons as RebuildRejectReason[],
+    textDetected: r.textDetected,
+    toneScore: r.toneScore,
+    structureScore: r.structureScore,
+    marginScore: r.marginScore,
+    focalScore: r.focalScore,
+    grammarScore: r.grammarScore,
+    compositeScore: r.compositeScore,
+    imageStats: r.imageStatsJson as ScoutImageStats | null,
+    createdAt: r.createdAt,
+  };
+}
+
+export async function createRebuildEval(input: CreateRebuildEvalInput): Promise<RebuildEvalRecord> {
+  return mapRebuildEval(
+    await prisma.rebuildEval.create({
+      data: {
+        rebuildAttemptId: input.rebuildAttemptId,
+        scoutRunId: input.scoutRunId ?? null,
+        attemptOrder: input.attemptOrder,
+        textRetry: input.textRetry,
+        accepted: input.accepted,
+        hardReject: input.hardReject,
+        rejectReasons: input.rejectReasons,
+        textDetected: input.textDetected,
+        toneScore: input.toneScore,
+        structureScore: input.structureScore,
+        marginScore: input.marginScore,
+        focalScore: input.focalScore,
+        grammarScore: input.grammarScore,
+        compositeScore: input.compositeScore,
+        imageStatsJson: (input.imageStats ?? undefined) as unknown as Prisma.InputJsonValue | undefined,
+      },
+    })
+  );
+}
+
+export async function getRebuildEvalsByAttemptId(rebuildAttemptId: string): Promise<RebuildEvalRecord[]> {
+  const rows = await prisma.rebuildEval.findMany({
+    where: { rebuildAttemptId },
+    orderBy: [{ attemptOrder: "asc" }, { createdAt: "asc" }],
+  });
+  return rows.map(mapRebuildEval);
+}
@@ -0,0 +1,61 @@
+import "server-only";
+
+import { readFile } from "fs/promises";
+import path from "path";
+import { prisma } from "@/lib/prisma";
+import { computeDHashFromBuffer } from "@/lib/image-hash";
+import { ROUND1_V2_CONFIG } from "../config";
+import { readBackgroundDHash } from "../eval/near-duplicate";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * dHashes of the wide backgrounds an organization received on its other
+ * projects recently (V1 and V2 options alike; shadow runs excluded). Uses the
+ * hash recorded on V2 outputs and hashes the wide_bg asset otherwise;
+ * backgrounds whose file is gone are skipped.
+ */
+export async function loadRecentOrganizationBackgroundHashes(params: {
+  organizationId: string;
+  excludeProjectId: string;
+  now?: Date;
+}): Promise<string[]> {
+  const since = new Date((params.now ?? new Date()).getTime() - ROUND1_V2_CONFIG.recentBackgroundLookbackDays * DAY_MS);
+  const generations = await prisma.generation.findMany({
+    where: {
+      shadow: false,
+      status: "COMPLETED",
+      projectId: { not: params.excludeProjectId },
+      project: { organizationId: params.organizationId },
+      createdAt: { gte: since },
+    },
+    orderBy: { createdAt: "desc" },
+    take: ROUND1_V2_CONFIG.recentBackgroundLimit,
+    select: {
+      output: true,
+      assets: {
+        where: { kind: "BACKGROUND", slot: "wide_bg" },
+        select: { file_path: true },
+        take: 1,
+      },
+    },
+  });
+
+  const hashes: string[] = [];
+  for (const generation of generations) {
+    const recorded = readBackgroundDHash(generation.output);
+    if (recorded) {
+      hashes.push(recorded);
+      continue;
+    }
+    const filePath = generation.assets[0]?.file_path;
+    if (!filePath) continue;
+    try {
+      const bytes = await readFile(path.join(process.cwd(), "public", filePath.replace(/^\/+/, "")));
+      hashes.push(await computeDHashFromBuffer(bytes));
+    } catch {
+      // Missing or unreadable background files just drop out of the comparison set.
+    }
+  }
+  return hashes;
+}
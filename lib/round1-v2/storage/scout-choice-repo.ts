@@ -0,0 +1,132 @@
+import "server-only";
+
+import { randomUUID } from "crypto";
+import type { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { buildCreateScoutChoiceEventInputs } from "./input-builders";
+import type { ScoutChoiceSource } from "./types";
+import type { ScoutImageStats } from "../eval/image-stats";
+import { readScoutRankingFeatures, type ScoutChoiceGroup } from "../eval/scout-ranking";
+
+function readLaneInput(input: unknown): { runSeed: string; designMode: string | null } | null {
+  if (!input || typeof input !== "object" || Array.isArray(input)) return null;
+  const record = input as Record<string, unknown>;
+  if (record.v2 !== true || typeof record.runSeed !== "string") return null;
+  return { runSeed: record.runSeed, designMode: typeof record.designMode === "string" ? record.designMode : null };
+}
+
+/**
+ * Logs the lanes of the chosen option's Round 1 V2 run as one choice group:
+ * the chosen lane and its siblings, each with the eval features of the scout it
+ * was rebuilt from. V1 and shadow generations, and runs without a scored
+ * alternative, record nothing. Returns the number of rows written.
+ */
+export async function recordScoutChoice(params: {
+  projectId: string;
+  chosenGenerationId: string;
+  source: ScoutChoiceSource;
+}): Promise<number> {
+  const chosen = await prisma.generation.findFirst({
+    where: { id: params.chosenGenerationId, projectId: params.projectId, shadow: false },
+    select: { id: true, round: true, input: true },
+  });
+  const chosenLane = chosen?.round === 1 ? readLaneInput(chosen.input) : null;
+  if (!chosenLane) return 0;
+
+  const roundGenerations = await prisma.generation.findMany({
+    where: { projectId: params.projectId, round: 1, shadow: false },
+    select: { id: true, input: true },
+  });
+  const lanes = roundGenerations.flatMap((generation) => {
+    const lane = readLaneInput(generation.input);
+    return lane?.runSeed === chosenLane.runSeed ? [{ generationId: generation.id, designMode: lane.designMode }] : [];
+  });
+
+  // The settled (last successful) rebuild attempt names the scout each lane used.
+  const attempts = await prisma.rebuildAttempt.findMany({
+    where: {
+      generationId: { in: lanes.map((lane) => lane.generationId) },
+      status: "SUCCESS",
+      scoutRunId: { not: null },
+    },
+    orderBy: [{ attemptOrder: "asc" }, { createdAt: "asc" }],
+    select: {
+      generationId: true,
+      scoutRun: {
+        select: {
+          id: true,
+          grammarKey: true,
+          eval: {
+            select: { toneScore: true, structureScore: true, marginScore: true, imageStatsJson: true },
+          },
+        },
+      },
+    },
+  });
+  const scoutByGenerationId = new Map<string, NonNullable<(typeof attempts)[number]["scoutRun"]>>();
+  for (const attempt of attempts) {
+    if (attempt.scoutRun?.eval) scoutByGenerationId.set(attempt.generationId, attempt.scoutRun);
+  }
+
+  const inputs = buildCreateScoutChoiceEventInputs({
+    groupId: randomUUID(),
+    source: params.source,
+    projectId: params.projectId,
+    runSeed: chosenLane.runSeed,
+    chosenGenerationId: params.chosenGenerationId,
+    lanes: lanes.flatMap((lane) => {
+      const scoutRun = scoutByGenerationId.get(lane.generationId);
+      if (!scoutRun?.eval) return [];
+      return [
+        {
+          generationId: lane.generationId,
+          scoutRunId: scoutRun.id,
+          grammarKey: scoutRun.grammarKey,
+          designMode: lane.designMode,
+          eval: {
+            toneScore: scoutRun.eval.toneScore,
+            structureScore: scoutRun.eval.structureScore,
+            marginScore: scoutRun.eval.marginScore,
+            imageStats: scoutRun.eval.imageStatsJson as ScoutImageStats | null,
+          },
+        },
+      ];
+    }),
+  });
+  if (inputs.length === 0) return 0;
+
+  await prisma.scoutChoiceEvent.createMany({
+    data: inputs.map((input) => ({
+      groupId: input.groupId,
+      source: input.source,
+      projectId: input.projectId,
+      generationId: input.generationId,
+      scoutRunId: input.scoutRunId,
+      runSeed: input.runSeed,
+      chosen: input.chosen,
+      featuresJson: input.features as unknown as Prisma.InputJsonValue,
+    })),
+  });
+  return inputs.length;
+}
+
+/** Choice groups logged since `since` (all when omitted), oldest first, for offline fitting. */
+export async function listScoutChoiceGroups(params: { since?: Date } = {}): Promise<ScoutChoiceGroup[]> {
+  const rows = await prisma.scoutChoiceEvent.findMany({
+    where: params.since ? { createdAt: { gte: params.since } } : {},
+    orderBy: [{ createdAt: "asc" }, { id: "asc" }],
+    select: { groupId: true, chosen: true, featuresJson: true },
+  });
+  const groups = new Map<string, ScoutChoiceGroup>();
+  for (const row of rows) {
+    const features = readScoutRankingFeatures(row.featuresJson);
+    if (!features) continue;
+    let group = groups.get(row.groupId);
+    if (!group) {
+      group = { options: [] };
+      groups.set(row.groupId, group);
+    }
+    group.options.push({ chosen: row.chosen, features });
+  }
+  return [...groups.values()];
+}
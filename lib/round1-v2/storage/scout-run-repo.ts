@@ -28,6 +28,7 @@ function mapScoutRun(r: PrismaScoutRun): ScoutRunRecord {
     assetPath: r.assetPath,
     latencyMs: r.latencyMs,
     providerModel: r.providerModel,
+    estimatedCostUsd: r.estimatedCostUsd,
     createdAt: r.createdAt,
   };
 }
@@ -63,6 +64,7 @@ export async function updateScoutRunResult(input: UpdateScoutRunResultInput): Pr
         assetPath: input.assetPath ?? null,
         latencyMs: input.latencyMs ?? null,
         providerModel: input.providerModel ?? null,
+        estimatedCostUsd: input.estimatedCostUsd ?? null,
       },
     })
   );
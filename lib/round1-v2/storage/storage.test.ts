@@ -10,6 +10,8 @@ import {
   buildUpdateScoutRunResultInput,
   buildCreateScoutEvalInput,
   buildCreateRebuildAttemptInput,
+  buildCreateRebuildEvalInput,
+  buildCreateScoutChoiceEventInputs,
 } from "./input-builders";
 
 // ── Fixtures ──────────────────────────────────────────────────────────────────
@@ -121,6 +123,7 @@ test("success result maps to SUCCESS status with latency", () => {
   assert.equal(update.status, "SUCCESS");
   assert.equal(update.latencyMs, 850);
   assert.equal(update.providerModel, "fal-ai/flux/schnell");
+  assert.equal(update.estimatedCostUsd, 0.003);
   assert.equal(update.failureReason, undefined);
 });
 
@@ -206,6 +209,79 @@ test("buildCreateRebuildAttemptInput handles missing scoutRunId", () => {
   assert.equal(input.attemptOrder, 1);
 });
 
+// ── buildCreateRebuildEvalInput ───────────────────────────────────────────────
+
+test("buildCreateRebuildEvalInput maps rebuild scores and attempt context", () => {
+  const input = buildCreateRebuildEvalInput({
+    rebuildAttemptId: "rebuild_1",
+    scoutRunId: "scout_run_3",
+    attemptOrder: 1,
+    textRetry: true,
+    accepted: false,
+    ev: {
+      ...makePassingEval(),
+      hardReject: true,
+      rejectReasons: ["title_safe_zone_obstructed"],
+      compositeScore: 0,
+      focalScore: 0.9,
+      grammarScore: 0.5,
+    },
+  });
+  assert.equal(input.rebuildAttemptId, "rebuild_1");
+  assert.equal(input.scoutRunId, "scout_run_3");
+  assert.equal(input.attemptOrder, 1);
+  assert.equal(input.textRetry, true);
+  assert.equal(input.accepted, false);
+  assert.deepEqual(input.rejectReasons, ["title_safe_zone_obstructed"]);
+  assert.equal(input.focalScore, 0.9);
+  assert.equal(input.grammarScore, 0.5);
+  assert.equal(input.imageStats, null);
+});
+
+// ── buildCreateScoutChoiceEventInputs ─────────────────────────────────────────
+
+function makeChoiceLane(generationId: string, grammarKey: string) {
+  return { generationId, scoutRunId: `scout_${generationId}`, grammarKey, designMode: "photo_veil", eval: makePassingEval() };
+}
+
+test("buildCreateScoutChoiceEventInputs marks the chosen lane and shares one group", () => {
+  const inputs = buildCreateScoutChoiceEventInputs({
+    groupId: "group_1",
+    source: "approve_final",
+    projectId: "project_1",
+    runSeed: "run_1",
+    chosenGenerationId: "gen_b",
+    lanes: [makeChoiceLane("gen_a", "centered_focal_motif"), makeChoiceLane("gen_b", "horizon_band")],
+  });
+  assert.deepEqual(
+    inputs.map((input) => [input.generationId, input.chosen, input.groupId]),
+    [
+      ["gen_a", false, "group_1"],
+      ["gen_b", true, "group_1"],
+    ]
+  );
+  assert.equal(inputs[1].scoutRunId, "scout_gen_b");
+  assert.equal(inputs[1].features.grammarKey, "horizon_band");
+  assert.equal(inputs[1].features.designMode, "photo_veil");
+  assert.equal(inputs[1].features.numeric.toneScore, makePassingEval().toneScore);
+});
+
+test("buildCreateScoutChoiceEventInputs records nothing without a scored chosen lane and sibling", () => {
+  const base = { groupId: "group_1", source: "round_two_carry" as const, projectId: "project_1", runSeed: "run_1" };
+  assert.deepEqual(
+    buildCreateScoutChoiceEventInputs({ ...base, chosenGenerationId: "gen_a", lanes: [makeChoiceLane("gen_a", "horizon_band")] }),
+    []
+  );
+  assert.deepEqual(
+    buildCreateScoutChoiceEventInputs({
+      ...base,
+      chosenGenerationId: "gen_local",
+      lanes: [makeChoiceLane("gen_a", "horizon_band"), makeChoiceLane("gen_b", "horizon_band")],
+    }),
+    []
+  );
+});
+
 // ── Type contract sanity checks ───────────────────────────────────────────────
 
 test("ScoutRunRecord status values are a closed set", () => {
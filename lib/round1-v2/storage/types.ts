@@ -1,5 +1,7 @@
 import type { ScoutRejectReason } from "../eval/evaluate-scout";
+import type { RebuildRejectReason } from "../eval/evaluate-rebuild";
 import type { ScoutImageStats } from "../eval/image-stats";
+import type { ScoutRankingFeatures } from "../eval/scout-ranking";
 
 // Domain-level record types returned by the storage layer.
 // These are plain objects — callers never see raw Prisma types.
@@ -24,6 +26,7 @@ export interface ScoutRunRecord {
   assetPath: string | null;
   latencyMs: number | null;
   providerModel: string | null;
+  estimatedCostUsd: number | null;
   createdAt: Date;
 }
 
@@ -53,6 +56,27 @@ export interface RebuildAttemptRecord {
   assetPath: string | null;
   latencyMs: number | null;
   providerModel: string | null;
+  estimatedCostUsd: number | null;
+  createdAt: Date;
+}
+
+export interface RebuildEvalRecord {
+  id: string;
+  rebuildAttemptId: string;
+  scoutRunId: string | null;
+  attemptOrder: number;
+  textRetry: boolean;
+  accepted: boolean;
+  hardReject: boolean;
+  rejectReasons: RebuildRejectReason[];
+  textDetected: boolean;
+  toneScore: number;
+  structureScore: number;
+  marginScore: number;
+  focalScore: number;
+  grammarScore: number;
+  compositeScore: number;
+  imageStats: ScoutImageStats | null;
   createdAt: Date;
 }
 
@@ -79,6 +103,7 @@ export interface UpdateScoutRunResultInput {
   assetPath?: string;
   latencyMs?: number;
   providerModel?: string;
+  estimatedCostUsd?: number | null;
 }
 
 export interface CreateScoutEvalInput {
@@ -101,11 +126,54 @@ export interface CreateRebuildAttemptInput {
   attemptOrder: number;
 }
 
+export interface UpdateRebuildAttemptProgressInput {
+  id: string;
+  /** 0 for the lane's primary scout; N for the Nth backfill candidate. */
+  attemptOrder: number;
+  scoutRunId?: string;
+}
+
 export interface UpdateRebuildAttemptResultInput {
   id: string;
   status: "SUCCESS" | "FAILED" | "SKIPPED";
   failureReason?: string;
+  /** Provider/scout that produced the settled result, when it differs from the opening attempt. */
+  providerId?: string;
+  scoutRunId?: string;
   assetPath?: string;
   latencyMs?: number;
   providerModel?: string;
+  estimatedCostUsd?: number | null;
+}
+
+export interface CreateRebuildEvalInput {
+  rebuildAttemptId: string;
+  scoutRunId?: string;
+  attemptOrder: number;
+  textRetry: boolean;
+  accepted: boolean;
+  hardReject: boolean;
+  rejectReasons: RebuildRejectReason[];
+  textDetected: boolean;
+  toneScore: number;
+  structureScore: number;
+  marginScore: number;
+  focalScore: number;
+  grammarScore: number;
+  compositeScore: number;
+  imageStats: ScoutImageStats | null;
+}
+
+/** Where a Round 1 option was picked: final approval, or chosen as the Round 2 direction. */
+export type ScoutChoiceSource = "approve_final" | "round_two_carry";
+
+export interface CreateScoutChoiceEventInput {
+  groupId: string;
+  source: ScoutChoiceSource;
+  projectId: string;
+  generationId: string;
+  scoutRunId: string | null;
+  runSeed: string;
+  chosen: boolean;
+  features: ScoutRankingFeatures;
 }
@@ -1,5 +1,5 @@
 // Shared types for the Round 1 V2 engine.
-// Phase 1 scope: wide aspect only, 3 non-fallback backgrounds, no square/tall.
+// Scope: 3 non-fallback backgrounds, each delivered in wide, square, and tall.
 
 export type { Round1Engine } from "./config";
 
@@ -0,0 +1,226 @@
+import "server-only";
+
+import { randomUUID } from "crypto";
+import { mkdir, readFile, rm, writeFile } from "fs/promises";
+import path from "path";
+import sharp from "sharp";
+import { loadLockupLogoSource, prepareLockupLogoForBackground } from "@/lib/lockups/logo-variants";
+import { getOpenAI } from "@/lib/openai";
+import { prisma } from "@/lib/prisma";
+import {
+  buildFallbackSeriesMarkSvg,
+  buildSeriesMarkPrompt,
+  normalizeSeriesMarkSvg,
+  SERIES_MARK_ASSET_SLOT,
+  validateSeriesMarkSvg,
+  type SeriesMarkValidationReason
+} from "@/lib/series-mark";
+
+export type SeriesMarkRecord = {
+  id: string;
+  filePath: string;
+};
+
+export type SeriesMarkGenerationResult = SeriesMarkRecord & {
+  markIdea: string;
+  source: "ai" | "fallback";
+  /** Validation failures of AI attempts that were discarded on the way. */
+  rejectedReasons: SeriesMarkValidationReason[];
+};
+
+export type SeriesMarkAvatars = {
+  png: Buffer;
+  smallPng: Buffer;
+};
+
+const SERIES_MARK_AI_ATTEMPTS = 2;
+const SERIES_MARK_RASTER_SIZE = 1024;
+const AVATAR_SIZE = 1080;
+const AVATAR_SMALL_SIZE = 400;
+// Circular avatar crops keep roughly the inner 70% of the square, so the mark stays well inside it.
+const AVATAR_MARK_RATIO = 0.52;
+
+function resolvePublicPath(assetPath: string): string {
+  return path.join(process.cwd(), "public", assetPath.replace(/^\/+/, ""));
+}
+
+function parseResponseText(response: unknown): string {
+  if (!response || typeof response !== "object") {
+    return "";
+  }
+
+  const outputText = (response as { output_text?: unknown }).output_text;
+  if (typeof outputText === "string" && outputText.trim()) {
+    return outputText;
+  }
+
+  const output = (response as { output?: unknown }).output;
+  if (!Array.isArray(output)) {
+    return "";
+  }
+
+  const chunks: string[] = [];
+  for (const item of output) {
+    const content = item && typeof item === "object" ? (item as { content?: unknown }).content : null;
+    if (!Array.isArray(content)) {
+      continue;
+    }
+    for (const segment of content) {
+      const textValue = segment && typeof segment === "object" ? (segment as { text?: unknown }).text : null;
+      if (typeof textValue === "string" && textValue.trim()) {
+        chunks.push(textValue.trim());
+      }
+    }
+  }
+  return chunks.join("\n");
+}
+
+async function requestAiSeriesMarkSvg(params: {
+  markIdea: string;
+  seriesTitle: string;
+  motifs?: readonly string[];
+  rejectedReasons: SeriesMarkValidationReason[];
+}): Promise<string | null> {
+  if (!process.env.OPENAI_API_KEY?.trim()) {
+    return null;
+  }
+
+  for (let attempt = 0; attempt < SERIES_MARK_AI_ATTEMPTS; attempt += 1) {
+    try {
+      const response = await getOpenAI().responses.create({
+        model: process.env.OPENAI_MAIN_MODEL?.trim() || "gpt-4.1-mini",
+        temperature: 0.4,
+        input: buildSeriesMarkPrompt({
+          markIdea: params.markIdea,
+          seriesTitle: params.seriesTitle,
+          motifs: params.motifs,
+          rejectedReasons: params.rejectedReasons
+        })
+      });
+      const svg = parseResponseText(response).match(/<svg\b[\s\S]*<\/svg>/i)?.[0];
+      if (!svg) {
+        params.rejectedReasons.push("missing_svg_root");
+        continue;
+      }
+      const validation = validateSeriesMarkSvg(svg);
+      if (validation.valid) {
+        return svg;
+      }
+      params.rejectedReasons.push(...validation.reasons);
+    } catch {
+      return null;
+    }
+  }
+
+  return null;
+}
+
+export async function findSeriesMark(projectId: string): Promise<SeriesMarkRecord | null> {
+  const asset = await prisma.asset.findFirst({
+    where: { projectId, generationId: null, kind: "LOCKUP", slot: SERIES_MARK_ASSET_SLOT },
+    orderBy: { createdAt: "desc" },
+    select: { id: true, file_path: true }
+  });
+  if (!asset) {
+    return null;
+  }
+
+  return { id: asset.id, filePath: asset.file_path };
+}
+
+/**
+ * Generates the project's series mark from one mark idea: an AI-drawn SVG when it passes
+ * validateSeriesMarkSvg (one retry with the rejection reasons), otherwise the procedural fallback.
+ * The normalized SVG replaces any earlier mark as the project's `series_mark` LOCKUP asset.
+ */
+export async function generateSeriesMark(params: {
+  projectId: string;
+  seriesTitle: string;
+  markIdea: string;
+  motifs?: readonly string[];
+}): Promise<SeriesMarkGenerationResult> {
+  const rejectedReasons: SeriesMarkValidationReason[] = [];
+  const aiSvg = await requestAiSeriesMarkSvg({ ...params, rejectedReasons });
+  const svg = normalizeSeriesMarkSvg(aiSvg || buildFallbackSeriesMarkSvg(params.markIdea));
+  const rasterized = await sharp(Buffer.from(svg), { density: 300 })
+    .resize({ width: SERIES_MARK_RASTER_SIZE, height: SERIES_MARK_RASTER_SIZE, fit: "inside" })
+    .png()
+    .toBuffer({ resolveWithObject: true });
+
+  const uploadDirectory = path.join(process.cwd(), "public", "uploads", "marks", params.projectId);
+  await mkdir(uploadDirectory, { recursive: true });
+  const fileName = `${Date.now()}-${randomUUID()}.svg`;
+  await writeFile(path.join(uploadDirectory, fileName), svg);
+  const filePath = path.posix.join("uploads", "marks", params.projectId, fileName);
+
+  const previous = await prisma.asset.findMany({
+    where: { projectId: params.projectId, generationId: null, kind: "LOCKUP", slot: SERIES_MARK_ASSET_SLOT },
+    select: { id: true, file_path: true }
+  });
+  const asset = await prisma.asset.create({
+    data: {
+      projectId: params.projectId,
+      kind: "LOCKUP",
+      slot: SERIES_MARK_ASSET_SLOT,
+      file_path: filePath,
+      mime_type: "image/svg+xml",
+      width: rasterized.info.width,
+      height: rasterized.info.height
+    },
+    select: { id: true }
+  });
+  if (previous.length > 0) {
+    await prisma.asset.deleteMany({ where: { id: { in: previous.map((entry) => entry.id) } } });
+    await Promise.all(previous.map((entry) => rm(resolvePublicPath(entry.file_path), { force: true })));
+  }
+
+  return {
+    id: asset.id,
+    filePath,
+    markIdea: params.markIdea,
+    source: aiSvg ? "ai" : "fallback",
+    rejectedReasons
+  };
+}
+
+/**
+ * Renders circle-safe social avatars: the series mark centered on a softened crop of the approved
+ * square background, in whichever mark variant contrasts with it.
+ */
+export async function renderSeriesMarkAvatars(params: {
+  markPath: string;
+  squareBackgroundPath: string;
+}): Promise<SeriesMarkAvatars | null> {
+  const source = await loadLockupLogoSource(params.markPath);
+  if (!source) {
+    return null;
+  }
+
+  const backgroundPng = await sharp(await readFile(resolvePublicPath(params.squareBackgroundPath)), { failOn: "none" })
+    .resize({ width: AVATAR_SIZE, height: AVATAR_SIZE, fit: "cover" })
+    .blur(18)
+    .png()
+    .toBuffer();
+  const markSize = Math.round(AVATAR_SIZE * AVATAR_MARK_RATIO);
+  const markOffset = Math.round((AVATAR_SIZE - markSize) / 2);
+  const prepared = await prepareLockupLogoForBackground({
+    source,
+    backgroundPng,
+    sampleRegion: { left: markOffset, top: markOffset, width: markSize, height: markSize },
+    width: AVATAR_SIZE,
+    height: AVATAR_SIZE
+  });
+  const markPng = await sharp(prepared.png)
+    .resize({ width: markSize, height: markSize, fit: "contain", background: { r: 0, g: 0, b: 0, alpha: 0 } })
+    .png()
+    .toBuffer();
+  const png = await sharp(backgroundPng)
+    .composite([{ input: markPng, left: markOffset, top: markOffset }])
+    .png()
+    .toBuffer();
+
+  return {
+    png,
+    smallPng: await sharp(png).resize({ width: AVATAR_SMALL_SIZE, height: AVATAR_SMALL_SIZE }).png().toBuffer()
+  };
+}
@@ -0,0 +1,89 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { GENRE_FALLBACKS } from "@/lib/bible-motif-bank";
+import {
+  buildFallbackSeriesMarkSvg,
+  normalizeSeriesMarkSvg,
+  SERIES_MARK_INK,
+  validateSeriesMarkSvg,
+  type SeriesMarkValidationReason
+} from "@/lib/series-mark";
+
+const VALID_MARK = '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 100 100"><circle cx="50" cy="50" r="40" fill="none" stroke="#1E3A8A" stroke-width="4"/><path d="M30 50h40" stroke="#1e3a8a"/></svg>';
+
+test("accepts a single-color scalable mark", () => {
+  assert.deepEqual(validateSeriesMarkSvg(VALID_MARK), { valid: true, reasons: [] });
+});
+
+test("rejects marks with words, rasters, extra colors, or no viewBox", () => {
+  const cases: Array<[string, SeriesMarkValidationReason]> = [
+    ['<svg viewBox="0 0 100 100"><text x="10" y="50">HOPE</text></svg>', "contains_text"],
+    ['<svg viewBox="0 0 100 100"><image href="data:image/png;base64,AAAA" width="100" height="100"/></svg>', "contains_raster"],
+    ['<svg viewBox="0 0 100 100"><rect width="50" height="50" fill="#000"/><rect x="50" width="50" height="50" fill="#C2410C"/></svg>', "not_single_color"],
+    ['<svg viewBox="0 0 100 100"><defs><linearGradient id="g"/></defs><rect width="100" height="100" fill="url(#g)"/></svg>', "not_single_color"],
+    ['<svg width="100" height="100"><rect width="100" height="100"/></svg>', "missing_viewbox"],
+    ['<svg viewBox="0 0 100 100" onload="alert(1)"><rect width="100" height="100"/></svg>', "unsafe_content"],
+    [`<svg viewBox="0 0 100 100">${'<circle cx="50" cy="50" r="1"/>'.repeat(120)}</svg>`, "too_complex"],
+    ["<div>no svg</div>", "missing_svg_root"]
+  ];
+
+  for (const [svg, reason] of cases) {
+    const validation = validateSeriesMarkSvg(svg);
+    assert.equal(validation.valid, false, svg);
+    assert.ok(validation.reasons.includes(reason), `${reason} missing for ${svg}`);
+  }
+});
+
+test("rejects links, animation, and anything outside the shape and paint allowlist", () => {
+  const unsafeMarks = [
+    '<svg viewBox="0 0 100 100"><a href="javascript:alert(1)"><rect width="100" height="100"/></a></svg>',
+    '<svg viewBox="0 0 100 100"><a><set attributeName="href" to="javascript:alert(1)"/><rect width="100" height="100"/></a></svg>',
+    '<svg viewBox="0 0 100 100"><rect width="100" height="100"><animate attributeName="x" values="0;10" dur="1s"/></rect></svg>',
+    '<svg viewBox="0 0 100 100"><use xlink:href="https://example.com/mark.svg#shape"/></svg>',
+    '<svg viewBox="0 0 100 100"><use href="&#106;avascript:alert(1)"/></svg>',
+    '<svg viewBox="0 0 100 100"><rect width="100" height="100" style="fill:url(https://example.com/track)"/></svg>',
+    '<svg viewBox="0 0 100 100"><rect width="100" height="100" fill="url(https://example.com/p.svg#g)"/></svg>',
+    '<svg viewBox="0 0 100 100"><svg:script>alert(1)</svg:script></svg>',
+    '<!DOCTYPE svg [<!ENTITY x "y">]><svg viewBox="0 0 100 100"><rect width="100" height="100"/></svg>',
+    '<svg viewBox="0 0 100 100"><rect width="100" height="100" data-x="1"/></svg>'
+  ];
+
+  for (const svg of unsafeMarks) {
+    const validation = validateSeriesMarkSvg(svg);
+    assert.equal(validation.valid, false, svg);
+    assert.ok(validation.reasons.includes("unsafe_content"), `unsafe_content missing for ${svg}`);
+  }
+
+  assert.deepEqual(
+    validateSeriesMarkSvg(
+      '<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" viewBox="0 0 100 100"><defs><path id="arc" d="M10 50a40 40 0 0 1 80 0"/></defs><use xlink:href="#arc" stroke="#0F172A"/><use href="#arc" transform="rotate(180 50 50)" style="stroke:#0F172A;fill:none"/></svg>'
+    ),
+    { valid: true, reasons: [] }
+  );
+});
+
+test("normalizes marks to the stored ink without fixed dimensions", () => {
+  const normalized = normalizeSeriesMarkSvg(
+    `<?xml version="1.0"?><!-- editor --><svg width="512" height="512" viewBox="0 0 100 100"><path d="M0 0h10" style="stroke:#1E3A8A;fill:none"/>${VALID_MARK.slice(VALID_MARK.indexOf("<circle"))}`
+  );
+
+  assert.match(normalized, /^<svg xmlns="http:\/\/www\.w3\.org\/2000\/svg" viewBox="0 0 100 100" fill="#0F172A">/);
+  assert.doesNotMatch(normalized, /width="512"|<!--|<\?xml/);
+  assert.doesNotMatch(normalized, /#1e3a8a/i);
+  assert.match(normalized, new RegExp(`stroke:${SERIES_MARK_INK}`));
+  assert.ok(validateSeriesMarkSvg(normalized).valid);
+});
+
+test("fallback marks are valid for every seeded mark idea and follow the idea's words", () => {
+  const markIdeas = Object.values(GENRE_FALLBACKS).flatMap((entry) => entry.markIdeas);
+  for (const markIdea of [...markIdeas, "something unrelated"]) {
+    assert.deepEqual(validateSeriesMarkSvg(buildFallbackSeriesMarkSvg(markIdea)), { valid: true, reasons: [] }, markIdea);
+  }
+
+  assert.match(buildFallbackSeriesMarkSvg("gate-arch emblem"), /a34 34 0 0 1 68 0/);
+  assert.match(buildFallbackSeriesMarkSvg("watchtower crest"), /M38 74V40l12-10/);
+  assert.notEqual(buildFallbackSeriesMarkSvg("vessel-and-wave icon"), buildFallbackSeriesMarkSvg("desert-route seal"));
+  // "seal" and "tablet" must not read as "sea" or "table".
+  assert.match(buildFallbackSeriesMarkSvg("stacked-stones seal"), /M30 70h40/);
+  assert.doesNotMatch(buildFallbackSeriesMarkSvg("covenant tablet icon"), /M30 42h40/);
+});
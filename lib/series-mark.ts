@@ -0,0 +1,306 @@
+/** Project-level `LOCKUP` asset slot holding the series mark SVG. */
+export const SERIES_MARK_ASSET_SLOT = "series_mark";
+export const SERIES_MARK_INK = "#0F172A";
+export const SERIES_MARK_MAX_BYTES = 24 * 1024;
+export const SERIES_MARK_MAX_ELEMENTS = 80;
+
+export type SeriesMarkValidationReason =
+  | "missing_svg_root"
+  | "missing_viewbox"
+  | "contains_text"
+  | "contains_raster"
+  | "unsafe_content"
+  | "not_single_color"
+  | "too_complex";
+
+export type SeriesMarkValidation = {
+  valid: boolean;
+  reasons: SeriesMarkValidationReason[];
+};
+
+const SHAPE_ELEMENT_PATTERN = /<(path|circle|ellipse|rect|line|polyline|polygon|g|use)\b/gi;
+// Marks are served as standalone SVG files, so only inert geometry and paint survive validation:
+// anything outside these lists (links, animation, scripts, styles, foreign content) is rejected.
+const ALLOWED_ELEMENTS = new Set([
+  "svg",
+  "g",
+  "defs",
+  "title",
+  "desc",
+  "path",
+  "circle",
+  "ellipse",
+  "rect",
+  "line",
+  "polyline",
+  "polygon",
+  "use"
+]);
+const TEXT_ELEMENTS = new Set(["text", "tspan", "textpath"]);
+const RASTER_ELEMENTS = new Set(["image"]);
+const PAINT_SERVER_ELEMENTS = new Set(["lineargradient", "radialgradient", "stop", "pattern", "filter", "mask"]);
+const PAINT_PROPERTIES = [
+  "fill",
+  "fill-rule",
+  "fill-opacity",
+  "stroke",
+  "stroke-width",
+  "stroke-linecap",
+  "stroke-linejoin",
+  "stroke-miterlimit",
+  "stroke-dasharray",
+  "stroke-dashoffset",
+  "stroke-opacity",
+  "opacity",
+  "clip-rule",
+  "color",
+  "vector-effect"
+];
+const ALLOWED_ATTRIBUTES = new Set([
+  "xmlns",
+  "xmlns:xlink",
+  "version",
+  "viewbox",
+  "preserveaspectratio",
+  "id",
+  "width",
+  "height",
+  "x",
+  "y",
+  "x1",
+  "y1",
+  "x2",
+  "y2",
+  "cx",
+  "cy",
+  "r",
+  "rx",
+  "ry",
+  "d",
+  "points",
+  "pathlength",
+  "transform",
+  "style",
+  "href",
+  "xlink:href",
+  ...PAINT_PROPERTIES
+]);
+const STYLE_PROPERTIES = new Set(PAINT_PROPERTIES);
+const LOCAL_REFERENCE_PATTERN = /^#[A-Za-z_][\w.-]*$/;
+const TAG_PATTERN = /<(\/?)([A-Za-z][\w:.-]*)((?:\s+[^\s=/>]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'=<>`]+))?)*)\s*(\/?)>/g;
+const ATTRIBUTE_PATTERN = /([^\s=/>]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g;
+
+const COLOR_ATTRIBUTE_PATTERN = /\b(fill|stroke|stop-color|color)\s*=\s*["']([^"']+)["']/gi;
+const COLOR_STYLE_PATTERN = /\b(fill|stroke|stop-color|color)\s*:\s*([^;"']+)/gi;
+const NON_INK_COLOR_VALUES = new Set(["none", "transparent", "inherit"]);
+
+function normalizeColorValue(value: string): string {
+  const normalized = value.trim().toLowerCase();
+  const shortHex = normalized.match(/^#([0-9a-f])([0-9a-f])([0-9a-f])$/);
+  if (shortHex) {
+    return `#${shortHex[1]}${shortHex[1]}${shortHex[2]}${shortHex[2]}${shortHex[3]}${shortHex[3]}`;
+  }
+  return normalized;
+}
+
+function collectInkColors(svg: string): Set<string> {
+  const colors = new Set<string>();
+  for (const pattern of [COLOR_ATTRIBUTE_PATTERN, COLOR_STYLE_PATTERN]) {
+    for (const match of svg.matchAll(pattern)) {
+      const color = normalizeColorValue(match[2]);
+      if (!NON_INK_COLOR_VALUES.has(color) && !color.startsWith("url(")) {
+        colors.add(color);
+      }
+    }
+  }
+  return colors;
+}
+
+function hasOnlyLocalUrls(value: string): boolean {
+  for (const match of value.matchAll(/url\(([^)]*)\)/gi)) {
+    if (!LOCAL_REFERENCE_PATTERN.test(match[1].trim().replace(/^["']|["']$/g, ""))) {
+      return false;
+    }
+  }
+  return !/url\(/i.test(value.replace(/url\([^)]*\)/gi, ""));
+}
+
+function isSafeStyle(style: string): boolean {
+  return style
+    .split(";")
+    .map((declaration) => declaration.trim())
+    .filter(Boolean)
+    .every((declaration) => {
+      const separator = declaration.indexOf(":");
+      if (separator <= 0) {
+        return false;
+      }
+      const property = declaration.slice(0, separator).trim().toLowerCase();
+      return STYLE_PROPERTIES.has(property) && hasOnlyLocalUrls(declaration.slice(separator + 1));
+    });
+}
+
+function isSafeAttribute(name: string, value: string): boolean {
+  if (!ALLOWED_ATTRIBUTES.has(name)) {
+    return false;
+  }
+  if (name === "href" || name === "xlink:href") {
+    return LOCAL_REFERENCE_PATTERN.test(value.trim());
+  }
+  if (name === "style") {
+    return isSafeStyle(value);
+  }
+  return hasOnlyLocalUrls(value);
+}
+
+/**
+ * Walks every tag against the element and attribute allowlists. Markup the tag pattern cannot read
+ * (doctype, CDATA, processing instructions past the XML declaration) counts as unsafe.
+ */
+function collectMarkupReasons(svg: string): Set<SeriesMarkValidationReason> {
+  const reasons = new Set<SeriesMarkValidationReason>();
+  const markup = svg.replace(/^\s*<\?xml\b[^>]*\?>/i, "").replace(/<!--[\s\S]*?-->/g, "");
+  for (const [, , rawName, rawAttributes] of markup.matchAll(TAG_PATTERN)) {
+    const name = rawName.toLowerCase();
+    if (TEXT_ELEMENTS.has(name)) {
+      reasons.add("contains_text");
+    } else if (RASTER_ELEMENTS.has(name)) {
+      reasons.add("contains_raster");
+    } else if (PAINT_SERVER_ELEMENTS.has(name)) {
+      reasons.add("not_single_color");
+    } else if (!ALLOWED_ELEMENTS.has(name)) {
+      reasons.add("unsafe_content");
+    }
+    for (const [, rawAttributeName, doubleQuoted, singleQuoted, unquoted] of rawAttributes.matchAll(ATTRIBUTE_PATTERN)) {
+      if (!isSafeAttribute(rawAttributeName.toLowerCase(), doubleQuoted ?? singleQuoted ?? unquoted ?? "")) {
+        reasons.add(RASTER_ELEMENTS.has(name) ? "contains_raster" : "unsafe_content");
+      }
+    }
+  }
+  if (/[<>]/.test(markup.replace(TAG_PATTERN, ""))) {
+    reasons.add("unsafe_content");
+  }
+  return reasons;
+}
+
+/**
+ * Checks that an SVG can serve as a reusable series mark: a scalable vector (viewBox), one ink color,
+ * no words, and small enough to stay a simple mark. Elements and attributes are allowlisted (shapes,
+ * geometry, paint, and `#id` references only), so links, animation, and scripts never get through.
+ */
+export function validateSeriesMarkSvg(svg: string): SeriesMarkValidation {
+  const reasons: SeriesMarkValidationReason[] = [];
+  const rootMatch = svg.match(/<svg\b[^>]*>/i);
+  if (!rootMatch) {
+    return { valid: false, reasons: ["missing_svg_root"] };
+  }
+
+  if (!/\bviewBox\s*=\s*["'][^"']+["']/i.test(rootMatch[0])) {
+    reasons.push("missing_viewbox");
+  }
+  const markupReasons = collectMarkupReasons(svg);
+  for (const reason of ["contains_text", "contains_raster", "unsafe_content"] as const) {
+    if (markupReasons.has(reason)) {
+      reasons.push(reason);
+    }
+  }
+  if (markupReasons.has("not_single_color") || collectInkColors(svg).size > 1) {
+    reasons.push("not_single_color");
+  }
+  const elementCount = svg.match(SHAPE_ELEMENT_PATTERN)?.length || 0;
+  if (Buffer.byteLength(svg, "utf8") > SERIES_MARK_MAX_BYTES || elementCount > SERIES_MARK_MAX_ELEMENTS) {
+    reasons.push("too_complex");
+  }
+
+  return { valid: reasons.length === 0, reasons };
+}
+
+/**
+ * Rewrites a validated mark into the stored form: comments and fixed dimensions stripped, every ink
+ * color set to `ink`, and the root filled with it so unfilled shapes do not fall back to black.
+ */
+export function normalizeSeriesMarkSvg(svg: string, ink = SERIES_MARK_INK): string {
+  const body = svg
+    .slice(svg.search(/<svg\b/i))
+    .replace(/<!--[\s\S]*?-->/g, "")
+    .replace(COLOR_ATTRIBUTE_PATTERN, (match, attribute: string, value: string) =>
+      NON_INK_COLOR_VALUES.has(normalizeColorValue(value)) ? match : `${attribute}="${ink}"`
+    )
+    .replace(COLOR_STYLE_PATTERN, (match, property: string, value: string) =>
+      NON_INK_COLOR_VALUES.has(normalizeColorValue(value)) ? match : `${property}:${ink}`
+    );
+
+  return body
+    .replace(/<svg\b[^>]*>/i, (root) => {
+      let normalizedRoot = root.replace(/\s(width|height)\s*=\s*["'][^"']*["']/gi, "");
+      if (!/\bxmlns\s*=/.test(normalizedRoot)) {
+        normalizedRoot = normalizedRoot.replace(/^<svg\b/i, '<svg xmlns="http://www.w3.org/2000/svg"');
+      }
+      if (!/\bfill\s*=/.test(normalizedRoot)) {
+        normalizedRoot = normalizedRoot.replace(/>$/, ` fill="${ink}">`);
+      }
+      return normalizedRoot;
+    })
+    .trim();
+}
+
+type MarkPart = {
+  pattern: RegExp;
+  svg: string;
+};
+
+const STROKE = `fill="none" stroke="${SERIES_MARK_INK}" stroke-width="4" stroke-linecap="round" stroke-linejoin="round"`;
+
+const MARK_FRAMES: readonly MarkPart[] = [
+  { pattern: /\b(arch|gate|door|tabernacle|window|temple|sanctuary)/i, svg: `<path d="M16 92V46a34 34 0 0 1 68 0v46Z" ${STROKE}/>` },
+  { pattern: /\b(shield|crest|banner|standard)/i, svg: `<path d="M50 6 86 18v30c0 22-15 38-36 46C29 86 14 70 14 48V18Z" ${STROKE}/>` },
+  { pattern: /\b(tablet|monogram|frame|block|square|scroll)/i, svg: `<rect x="10" y="10" width="80" height="80" rx="10" ${STROKE}/>` },
+  { pattern: /\b(seal|ring|medallion|badge|coin|sundial|emblem|circle|wreath)/i, svg: `<circle cx="50" cy="50" r="42" ${STROKE}/>` }
+];
+const DEFAULT_MARK_FRAME = `<path d="M50 6 94 50 50 94 6 50Z" ${STROKE}/>`;
+
+const MARK_GLYPHS: readonly MarkPart[] = [
+  { pattern: /\b(wave|water|river|sea\b|flood|storm|rain|well\b)/i, svg: `<path d="M26 44c6-6 12-6 18 0s12 6 18 0 12-6 12-6M26 58c6-6 12-6 18 0s12 6 18 0 12-6 12-6" ${STROKE}/>` },
+  { pattern: /\b(path|route|road|journey|way|wilderness|desert)/i, svg: `<path d="M38 76c0-12 24-10 24-22S40 42 40 30s10-8 14-8" ${STROKE}/>` },
+  { pattern: /\b(stone|rock|wall|altar|brick|foundation)/i, svg: `<path d="M30 70h40M34 58h32M38 46h24M42 34h16" ${STROKE}/>` },
+  { pattern: /\b(sun|light|dawn|star|ray|dial|lamp|fire|flame)/i, svg: `<circle cx="50" cy="50" r="10" ${STROKE}/><path d="M50 26v8M50 66v8M26 50h8M66 50h8M33 33l6 6M61 61l6 6M33 67l6-6M61 39l6-6" ${STROKE}/>` },
+  { pattern: /\b(lyre|string|line|law|word|psalm|song|harp)/i, svg: `<path d="M38 30v40M50 26v48M62 30v40M32 30h36" ${STROKE}/>` },
+  { pattern: /\b(vessel|cup|jar|bowl|table\b|bread|oil\b)/i, svg: `<path d="M30 42h40c0 14-8 24-20 24S30 56 30 42ZM42 74h16M50 66v8" ${STROKE}/>` },
+  { pattern: /\b(spiral|clay|potter|seed|growth|vine|trellis)/i, svg: `<path d="M50 50c0-3 4-4 6-2s1 8-4 9-11-3-10-9 8-12 15-10 12 9 10 16-10 14-18 13" ${STROKE}/>` },
+  { pattern: /\b(tower|watch|city|fortress|refuge)/i, svg: `<path d="M38 74V40l12-10 12 10v34ZM46 74V62h8v12M38 48h24" ${STROKE}/>` },
+  { pattern: /\b(plumb|measur|weight|balance|scale)/i, svg: `<path d="M50 26v30M50 56l-8 10h16ZM34 26h32" ${STROKE}/>` },
+  { pattern: /\b(mountain|hill|peak|summit|zion|sinai)/i, svg: `<path d="M26 68 42 44l8 10 10-18 14 32Z" ${STROKE}/>` }
+];
+const DEFAULT_MARK_GLYPH = `<path d="M32 64 50 36 68 64M40 64h20" ${STROKE}/>`;
+
+/**
+ * Builds a monoline geometric mark from a mark idea ("desert-route seal", "watchtower crest") by
+ * matching its words to a frame and an inner glyph. Used when no AI mark is available or valid.
+ */
+export function buildFallbackSeriesMarkSvg(markIdea: string): string {
+  const frame = MARK_FRAMES.find((part) => part.pattern.test(markIdea))?.svg || DEFAULT_MARK_FRAME;
+  const glyph = MARK_GLYPHS.find((part) => part.pattern.test(markIdea))?.svg || DEFAULT_MARK_GLYPH;
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 100 100" fill="none">${frame}${glyph}</svg>`;
+}
+
+export function buildSeriesMarkPrompt(params: {
+  markIdea: string;
+  seriesTitle: string;
+  motifs?: readonly string[];
+  rejectedReasons?: readonly SeriesMarkValidationReason[];
+}): string {
+  return [
+    "Return a single SVG document only. No markdown, no prose.",
+    `Design a reusable series mark (icon) for a church sermon series titled "${params.seriesTitle}".`,
+    `Mark idea: ${params.markIdea}.`,
+    params.motifs && params.motifs.length > 0 ? `Related motifs: ${params.motifs.slice(0, 6).join(", ")}.` : "",
+    `Use viewBox="0 0 100 100", one ink color (${SERIES_MARK_INK}) for every fill and stroke, and no gradients, filters, masks, or opacity effects.`,
+    "Keep it simple and bold enough to read at 48px: geometric or monoline, at most a dozen shapes.",
+    "Never include letters, words, numbers, <text>, embedded images, or scripts.",
+    params.rejectedReasons && params.rejectedReasons.length > 0
+      ? `The previous SVG was rejected for: ${params.rejectedReasons.join(", ")}. Fix those problems.`
+      : ""
+  ]
+    .filter(Boolean)
+    .join("\n");
+}
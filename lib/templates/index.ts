@@ -1,6 +1,7 @@
 import type { LockupRecipe, StyleFamily, TemplateStyleFamily } from "@/lib/design-brief";
 import { canonicalizeStyleFamily } from "@/lib/design-brief";
 import type { DesignDoc, DesignLayer } from "@/lib/design-doc";
+import type { LockupLogo, LockupLogoLayout } from "@/lib/lockups/logo";
 import {
   buildCleanMinimalDesignDoc,
   type CleanMinimalShape,
@@ -22,6 +23,10 @@ export type TemplateBrief = {
 export type RenderTemplateOptions = {
   backgroundImagePath?: string | null;
   textPalette?: CleanMinimalTextPalette;
+  /** The church logo or series mark, placed where the brief's lockup recipe puts it. */
+  logo?: LockupLogo | null;
+  /** A logo already placed on the canvas (the finalist corner bug), kept at that box. */
+  logoLayout?: LockupLogoLayout | null;
 };
 
 type TemplateRenderer = (params: {
@@ -170,7 +175,9 @@ function buildBaseDesignDoc(params: {
     lockupRecipe: params.brief.lockupRecipe,
     lockupPresetId: params.brief.lockupPresetId,
     styleFamily: params.styleFamily,
-    fontSeed
+    fontSeed,
+    logo: params.options.logo,
+    logoLayout: params.options.logoLayout
   });
 }
 
@@ -1,14 +1,18 @@
 import sharp from "sharp";
 import type { LockupRecipe, ResolvedLockupPalette, StyleFamily } from "@/lib/design-brief";
 import type { DesignDoc } from "@/lib/design-doc";
+import type { LockupSafeRegionRatio } from "@/lib/lockup-compositor";
 import { buildOverlayDisplayContent } from "@/lib/overlay-lines";
-import { getFontPairing } from "@/lib/lockups/fonts";
+import { getFontPairing, type FontPairing } from "@/lib/lockups/fonts";
+import type { LockupLogo, LockupLogoLayout } from "@/lib/lockups/logo";
 import { getLockupPresetById } from "@/lib/lockups/presets";
 import {
   buildLockupDesignLayers,
   computeLockupLayout,
+  fitLockupLayoutToRegion,
   type LockupTitleIntegrationMode,
   type LockupTextPalette,
+  type TextFitReport,
   renderLockup
 } from "@/lib/lockups/renderer";
 
@@ -54,6 +58,8 @@ export type CleanMinimalLayout = {
   textRegion: CleanMinimalTextRegion;
   backingRegion: CleanMinimalTextRegion;
   blocks: TextBlockLayout[];
+  textFit: TextFitReport;
+  logo?: LockupLogoLayout;
 };
 
 const DEFAULT_LOCKUP_RECIPE: LockupRecipe = getLockupPresetById("editorial_serif_stack");
@@ -230,12 +236,14 @@ function resolveRenderConfig(params: {
   lockupPresetId?: string | null;
   styleFamily?: StyleFamily;
   fontSeed?: string | null;
+  fontPairing?: FontPairing | null;
 }) {
   const preset = params.lockupPresetId ? getLockupPresetById(params.lockupPresetId) : null;
   const recipe = params.lockupRecipe || preset || DEFAULT_LOCKUP_RECIPE;
   const styleFamily = params.styleFamily || preset?.styleFamily || "clean-min";
   const lockupPresetId = preset?.id || undefined;
-  const fontPairing = getFontPairing(recipe, styleFamily, lockupPresetId, params.fontSeed);
+  // A pinned pairing (e.g. a brand kit's site fonts) replaces the seeded pick.
+  const fontPairing = params.fontPairing || getFontPairing(recipe, styleFamily, lockupPresetId, params.fontSeed);
 
   return {
     recipe,
@@ -245,6 +253,14 @@ function resolveRenderConfig(params: {
   };
 }
 
+/** The lockup recipe a layout resolves to when no explicit recipe is given (preset, then default). */
+export function resolveCleanMinimalLockupRecipe(params: {
+  lockupRecipe?: LockupRecipe;
+  lockupPresetId?: string | null;
+}): LockupRecipe {
+  return resolveRenderConfig(params).recipe;
+}
+
 export function computeCleanMinimalLayout(params: {
   width: number;
   height: number;
@@ -253,6 +269,8 @@ export function computeCleanMinimalLayout(params: {
   lockupPresetId?: string | null;
   styleFamily?: StyleFamily;
   fontSeed?: string | null;
+  fontPairing?: FontPairing | null;
+  logo?: LockupLogo | null;
 }): CleanMinimalLayout {
   const shape = shapeFromDimensions(params.width, params.height);
   const displayContent = buildOverlayDisplayContent({
@@ -265,7 +283,8 @@ export function computeCleanMinimalLayout(params: {
     lockupRecipe: params.lockupRecipe,
     lockupPresetId: params.lockupPresetId,
     styleFamily: params.styleFamily,
-    fontSeed: params.fontSeed
+    fontSeed: params.fontSeed,
+    fontPairing: params.fontPairing
   });
 
   const layout = computeLockupLayout({
@@ -281,7 +300,8 @@ export function computeCleanMinimalLayout(params: {
     },
     lockupRecipe: renderConfig.recipe,
     fontPairing: renderConfig.fontPairing,
-    lockupPresetId: renderConfig.lockupPresetId
+    lockupPresetId: renderConfig.lockupPresetId,
+    logo: params.logo
   });
 
   return {
@@ -306,11 +326,16 @@ export function computeCleanMinimalLayout(params: {
       align: block.align,
       letterSpacing: block.letterSpacing,
       lineWeights: block.lineWeights
-    }))
+    })),
+    textFit: layout.textFit || {
+      step: "fit",
+      warning: null
+    },
+    logo: layout.logo
   };
 }
 
-async function sampleBackgroundLuminance(params: {
+export async function sampleBackgroundLuminance(params: {
   backgroundPng: Buffer;
   sampleRegion: CleanMinimalTextRegion;
   width: number;
@@ -430,7 +455,10 @@ export function buildCleanMinimalOverlaySvg(params: {
   lockupPresetId?: string | null;
   styleFamily?: StyleFamily;
   fontSeed?: string | null;
+  fontPairing?: FontPairing | null;
   integrationMode?: LockupTitleIntegrationMode;
+  logo?: LockupLogo | null;
+  fontScope?: string | null;
 }): string {
   const shape = shapeFromDimensions(params.width, params.height);
   const displayContent = buildOverlayDisplayContent({
@@ -443,7 +471,8 @@ export function buildCleanMinimalOverlaySvg(params: {
     lockupRecipe: params.lockupRecipe,
     lockupPresetId: params.lockupPresetId,
     styleFamily: params.styleFamily,
-    fontSeed: params.fontSeed
+    fontSeed: params.fontSeed,
+    fontPairing: params.fontPairing
   });
 
   return renderLockup({
@@ -461,7 +490,9 @@ export function buildCleanMinimalOverlaySvg(params: {
     fontPairing: renderConfig.fontPairing,
     palette: params.palette,
     lockupPresetId: renderConfig.lockupPresetId,
-    integrationMode: params.integrationMode
+    integrationMode: params.integrationMode,
+    logo: params.logo,
+    fontScope: params.fontScope
   }).overlaySvg;
 }
 
@@ -475,6 +506,13 @@ export function buildCleanMinimalDesignDoc(params: {
   lockupPresetId?: string | null;
   styleFamily?: StyleFamily;
   fontSeed?: string | null;
+  fontPairing?: FontPairing | null;
+  logo?: LockupLogo | null;
+  /** A logo the compositor already placed (a corner bug); recorded as-is instead of `logo`'s placement. */
+  logoLayout?: LockupLogoLayout | null;
+  /** The region the preview composited the lockup into, when it was not the recipe's own placement. */
+  titleSafeRegion?: LockupSafeRegionRatio | null;
+  lockupAlign?: "left" | "center" | "right";
 }): DesignDoc {
   const shape = shapeFromDimensions(params.width, params.height);
   const displayContent = buildOverlayDisplayContent({
@@ -487,7 +525,8 @@ export function buildCleanMinimalDesignDoc(params: {
     lockupRecipe: params.lockupRecipe,
     lockupPresetId: params.lockupPresetId,
     styleFamily: params.styleFamily,
-    fontSeed: params.fontSeed
+    fontSeed: params.fontSeed,
+    fontPairing: params.fontPairing
   });
 
   const layout = computeLockupLayout({
@@ -503,8 +542,24 @@ export function buildCleanMinimalDesignDoc(params: {
     },
     lockupRecipe: renderConfig.recipe,
     fontPairing: renderConfig.fontPairing,
-    lockupPresetId: renderConfig.lockupPresetId
+    lockupPresetId: renderConfig.lockupPresetId,
+    logo: params.logoLayout ? null : params.logo
   });
+  if (params.titleSafeRegion) {
+    fitLockupLayoutToRegion(
+      layout,
+      {
+        left: Math.round(params.width * params.titleSafeRegion.left),
+        top: Math.round(params.height * params.titleSafeRegion.top),
+        width: Math.round(params.width * params.titleSafeRegion.width),
+        height: Math.round(params.height * params.titleSafeRegion.height)
+      },
+      params.lockupAlign || "left"
+    );
+  }
+  if (params.logoLayout) {
+    layout.logo = params.logoLayout;
+  }
 
   return {
     width: params.width,
@@ -0,0 +1,223 @@
+import { mkdir, readFile, rm, writeFile } from "fs/promises";
+import path from "path";
+import { Prisma } from "@prisma/client";
+import sharp from "sharp";
+import type { DesignDoc } from "@/lib/design-doc";
+import { buildFinalPng } from "@/lib/final-deliverables";
+import { readApprovedLockupStyle } from "@/lib/final-design-store";
+import { PREVIEW_DIMENSIONS, PREVIEW_SHAPES, type PreviewShape } from "@/lib/lockup-compositor";
+import { registerOrganizationFonts } from "@/lib/organization-fonts";
+import { prisma } from "@/lib/prisma";
+import { buildProductionBlockedMessage, resolveProductionValidOption } from "@/lib/production-valid-option";
+import { chooseTextPaletteForBackground } from "@/lib/templates/type-clean-min";
+import {
+  WEEKLY_OUTPUT_SLOT_BY_SHAPE,
+  buildWeeklyDesignDoc,
+  readWeeklyModuleContent,
+  resolveWeeklyLayoutRegions,
+  type WeeklyOutputSlot,
+  type WeeklyVariantOutput
+} from "@/lib/weekly-variants";
+
+const BACKGROUND_SLOT_BY_SHAPE: Record<PreviewShape, string> = {
+  square: "square_bg",
+  wide: "wide_bg",
+  tall: "tall_bg"
+};
+const SERIES_LOCKUP_SLOT = "series_lockup";
+
+function resolvePublicPath(assetPath: string): string {
+  return path.join(process.cwd(), "public", assetPath.replace(/^\/+/, ""));
+}
+
+/** Removes weekly slide files from public uploads; missing files are ignored. */
+export async function removeWeeklyPngs(filePaths: string[]): Promise<void> {
+  await Promise.all(filePaths.map((filePath) => rm(resolvePublicPath(filePath), { force: true })));
+}
+
+async function writeWeeklyPng(fileName: string, png: Buffer): Promise<string> {
+  const uploadDirectory = path.join(process.cwd(), "public", "uploads");
+  await mkdir(uploadDirectory, { recursive: true });
+  await writeFile(path.join(uploadDirectory, fileName), png);
+  return path.posix.join("uploads", fileName);
+}
+
+/**
+ * Renders the three weekly slides for one week from the approved series art.
+ *
+ * The approved FinalDesign's per-aspect backgrounds and series lockup are reused
+ * unchanged; only the weekly text module is laid out fresh for each aspect.
+ */
+export async function generateWeeklyVariants(params: {
+  organizationId: string;
+  projectId: string;
+  weekId: string;
+}): Promise<WeeklyVariantOutput> {
+  const week = await prisma.week.findFirst({
+    where: {
+      id: params.weekId,
+      projectId: params.projectId,
+      project: {
+        organizationId: params.organizationId
+      }
+    },
+    select: {
+      id: true,
+      week_title: true,
+      scripture_ref: true,
+      quote: true,
+      project: {
+        select: {
+          id: true,
+          finalDesign: {
+            select: {
+              id: true,
+              generationId: true,
+              generation: {
+                select: {
+                  id: true,
+                  status: true,
+                  output: true,
+                  assets: {
+                    select: {
+                      kind: true,
+                      slot: true,
+                      file_path: true
+                    }
+                  }
+                }
+              }
+            }
+          }
+        }
+      }
+    }
+  });
+
+  if (!week) {
+    throw new Error("Week not found.");
+  }
+
+  const finalDesign = week.project.finalDesign;
+  const generation = finalDesign?.generation;
+  if (!finalDesign || !generation) {
+    throw new Error("Approve a final series design before generating weekly slides.");
+  }
+
+  const validation = resolveProductionValidOption({
+    output: generation.output,
+    dbStatus: generation.status,
+    assets: generation.assets
+  });
+  if (!validation.export.eligible) {
+    throw new Error(buildProductionBlockedMessage("Weekly slides", validation.export.invalidReasons));
+  }
+
+  const findAssetPath = (slot: string): string | null =>
+    generation.assets.find((asset) => (asset.slot || "").trim().toLowerCase() === slot && asset.file_path.trim())?.file_path ||
+    null;
+  const lockupPath = findAssetPath(SERIES_LOCKUP_SLOT);
+  if (!lockupPath) {
+    throw new Error(buildProductionBlockedMessage("Weekly slides", ["missing_lockup_asset"]));
+  }
+
+  const { recipe, fontPairing, resolvedPalette } = readApprovedLockupStyle(generation.output, generation.id);
+  await registerOrganizationFonts(params.organizationId);
+  const weekly = readWeeklyModuleContent(week);
+  const lockupMetadata = await sharp(await readFile(resolvePublicPath(lockupPath))).metadata();
+  const lockup = {
+    src: lockupPath,
+    width: Math.max(1, lockupMetadata.width || 1),
+    height: Math.max(1, lockupMetadata.height || 1)
+  };
+
+  const designDocByShape = {} as Record<PreviewShape, DesignDoc>;
+  const preview = {} as Record<WeeklyOutputSlot, string>;
+  const textFitWarnings: Partial<Record<PreviewShape, string>> = {};
+  const assetRows: Prisma.AssetCreateManyInput[] = [];
+
+  for (const shape of PREVIEW_SHAPES) {
+    const backgroundPath = findAssetPath(BACKGROUND_SLOT_BY_SHAPE[shape]);
+    if (!backgroundPath) {
+      throw new Error(buildProductionBlockedMessage("Weekly slides", [`missing_${shape}_background`]));
+    }
+
+    const dimensions = PREVIEW_DIMENSIONS[shape];
+    const regions = resolveWeeklyLayoutRegions(shape, Boolean(weekly));
+    const palette = await chooseTextPaletteForBackground({
+      backgroundPng: await readFile(resolvePublicPath(backgroundPath)),
+      sampleRegion: regions.moduleRegion || regions.lockupRegion,
+      width: dimensions.width,
+      height: dimensions.height,
+      resolvedPalette
+    });
+    const { designDoc, textFit } = buildWeeklyDesignDoc({
+      shape,
+      backgroundImagePath: backgroundPath,
+      lockup,
+      weekly,
+      lockupRecipe: recipe,
+      fontPairing,
+      palette
+    });
+    const slot = WEEKLY_OUTPUT_SLOT_BY_SHAPE[shape];
+    const filePath = await writeWeeklyPng(`${week.id}-${slot}-${Date.now()}.png`, await buildFinalPng(designDoc, { fontScope: params.organizationId }));
+
+    designDocByShape[shape] = designDoc;
+    preview[slot] = filePath;
+    if (textFit?.warning) {
+      textFitWarnings[shape] = textFit.warning;
+    }
+    assetRows.push({
+      projectId: params.projectId,
+      weekId: week.id,
+      kind: "IMAGE",
+      slot,
+      file_path: filePath,
+      mime_type: "image/png",
+      width: dimensions.width,
+      height: dimensions.height
+    });
+  }
+
+  const output: WeeklyVariantOutput = {
+    sourceFinalDesignId: finalDesign.id,
+    sourceGenerationId: generation.id,
+    generatedAt: new Date().toISOString(),
+    designDocByShape,
+    preview,
+    textFitWarnings
+  };
+
+  const supersededAssets = await prisma.asset.findMany({
+    where: {
+      weekId: week.id
+    },
+    select: {
+      file_path: true
+    }
+  });
+  await prisma.$transaction(async (tx) => {
+    await tx.asset.deleteMany({
+      where: {
+        weekId: week.id
+      }
+    });
+    await tx.asset.createMany({
+      data: assetRows
+    });
+    await tx.week.update({
+      where: {
+        id: week.id
+      },
+      data: {
+        output: output as unknown as Prisma.InputJsonValue
+      }
+    });
+  });
+  // Only after the new rows commit, so a failed save never leaves the week pointing at deleted files.
+  const currentPaths = new Set(assetRows.map((row) => row.file_path));
+  await removeWeeklyPngs(supersededAssets.map((asset) => asset.file_path).filter((filePath) => !currentPaths.has(filePath)));
+
+  return output;
+}
@@ -0,0 +1,87 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { PREVIEW_DIMENSIONS, PREVIEW_SHAPES } from "@/lib/lockup-compositor";
+import { getFontPairing } from "@/lib/lockups/fonts";
+import { getLockupPresetById } from "@/lib/lockups/presets";
+import type { LockupTextPalette } from "@/lib/lockups/renderer";
+import {
+  buildWeeklyDesignDoc,
+  readWeeklyModuleContent,
+  readWeeklyTextFitWarnings,
+  resolveWeeklyLayoutRegions
+} from "@/lib/weekly-variants";
+
+const PALETTE: LockupTextPalette = {
+  primary: "#FFFFFF",
+  secondary: "#E2E8F0",
+  tertiary: "#CBD5E1",
+  rule: "#FFFFFF",
+  accent: "#F59E0B",
+  autoScrim: true,
+  scrimTint: "#000000"
+};
+
+const LOCKUP = {
+  src: "uploads/series-lockup.png",
+  width: 1200,
+  height: 600
+};
+
+test("readWeeklyModuleContent returns null when every weekly field is blank", () => {
+  assert.equal(readWeeklyModuleContent({ week_title: "  ", scripture_ref: null, quote: "" }), null);
+  assert.deepEqual(readWeeklyModuleContent({ week_title: " Week   One ", scripture_ref: "John 3:16", quote: null }), {
+    weekTitle: "Week One",
+    scriptureRef: "John 3:16",
+    quote: null
+  });
+});
+
+test("weekly module region never overlaps the series lockup region", () => {
+  for (const shape of PREVIEW_SHAPES) {
+    const { width, height } = PREVIEW_DIMENSIONS[shape];
+    const { lockupRegion, moduleRegion } = resolveWeeklyLayoutRegions(shape, true);
+    assert.ok(moduleRegion, `${shape} should reserve a module region`);
+    assert.ok(moduleRegion.top >= lockupRegion.top + lockupRegion.height, `${shape} module starts below the lockup`);
+    assert.ok(moduleRegion.top + moduleRegion.height <= height, `${shape} module stays inside the canvas`);
+    assert.ok(moduleRegion.left + moduleRegion.width <= width, `${shape} module stays inside the canvas`);
+  }
+
+  assert.equal(resolveWeeklyLayoutRegions("wide", false).moduleRegion, null);
+});
+
+test("buildWeeklyDesignDoc reuses the approved background and lockup for each shape", () => {
+  const lockupRecipe = getLockupPresetById(null);
+  const fontPairing = getFontPairing(lockupRecipe);
+  const weekly = readWeeklyModuleContent({ week_title: "Faith Over Fear", scripture_ref: "Psalm 23:4", quote: null });
+
+  for (const shape of PREVIEW_SHAPES) {
+    const { designDoc: doc, textFit } = buildWeeklyDesignDoc({
+      shape,
+      backgroundImagePath: `uploads/${shape}-bg.png`,
+      lockup: LOCKUP,
+      weekly,
+      lockupRecipe,
+      fontPairing,
+      palette: PALETTE
+    });
+
+    assert.equal(doc.width, PREVIEW_DIMENSIONS[shape].width);
+    assert.equal(doc.height, PREVIEW_DIMENSIONS[shape].height);
+    assert.equal(doc.backgroundImagePath, `uploads/${shape}-bg.png`);
+    assert.equal(textFit?.warning, null);
+
+    const imageLayers = doc.layers.filter((layer) => layer.type === "image");
+    assert.equal(imageLayers.length, 1);
+    assert.equal(imageLayers[0]?.type === "image" ? imageLayers[0].src : null, LOCKUP.src);
+
+    const texts = doc.layers.flatMap((layer) => (layer.type === "text" ? [layer.text] : []));
+    assert.ok(texts.some((text) => /faith over fear/i.test(text)), `${shape} renders the week title`);
+    assert.ok(texts.some((text) => /psalm 23:4/i.test(text)), `${shape} renders the scripture reference`);
+  }
+});
+
+test("readWeeklyTextFitWarnings keeps string warnings for known shapes", () => {
+  assert.deepEqual(readWeeklyTextFitWarnings({ textFitWarnings: { wide: "Too long", tall: 3, poster: "x" } }), { wide: "Too long" });
+  assert.deepEqual(readWeeklyTextFitWarnings({ designDocByShape: {} }), {});
+  assert.deepEqual(readWeeklyTextFitWarnings(null), {});
+});
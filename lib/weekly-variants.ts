@@ -0,0 +1,231 @@
+import type { LockupRecipe } from "@/lib/design-brief";
+import type { DesignDoc, DesignLayer } from "@/lib/design-doc";
+import { LOCKUP_SAFE_REGION_RATIOS, PREVIEW_DIMENSIONS, type PreviewShape } from "@/lib/lockup-compositor";
+import type { FontPairing } from "@/lib/lockups/fonts";
+import {
+  buildLockupDesignLayers,
+  computeWeeklyModuleLayout,
+  type LockupRegion,
+  type LockupTextPalette,
+  type TextFitReport,
+  type WeeklyModuleContent
+} from "@/lib/lockups/renderer";
+
+export type WeeklyOutputSlot = "square_weekly" | "widescreen_weekly" | "vertical_weekly";
+
+export const WEEKLY_OUTPUT_SLOT_BY_SHAPE: Record<PreviewShape, WeeklyOutputSlot> = {
+  square: "square_weekly",
+  wide: "widescreen_weekly",
+  tall: "vertical_weekly"
+};
+
+export type WeeklyFields = {
+  week_title: string | null;
+  scripture_ref: string | null;
+  quote: string | null;
+};
+
+export type WeeklyLockupImage = {
+  src: string;
+  width: number;
+  height: number;
+};
+
+export type WeeklyLayoutRegions = {
+  lockupRegion: LockupRegion;
+  moduleRegion: LockupRegion | null;
+};
+
+export type WeeklyVariantOutput = {
+  sourceFinalDesignId: string;
+  sourceGenerationId: string;
+  generatedAt: string;
+  designDocByShape: Record<PreviewShape, DesignDoc>;
+  preview: Record<WeeklyOutputSlot, string>;
+  /** Shapes whose weekly text still overflowed its region at the minimum font size. */
+  textFitWarnings: Partial<Record<PreviewShape, string>>;
+};
+
+export type WeeklyDesignDocResult = {
+  designDoc: DesignDoc;
+  /** How the weekly module fit its region; null when the week has no module text. */
+  textFit: TextFitReport | null;
+};
+
+// Share of the series safe region kept for the lockup when a weekly module is present.
+const LOCKUP_SHARE_WITH_MODULE: Record<PreviewShape, number> = {
+  square: 0.6,
+  wide: 0.6,
+  tall: 1
+};
+
+function cleanField(value: string | null | undefined): string {
+  return typeof value === "string" ? value.replace(/\s+/g, " ").trim() : "";
+}
+
+export function readWeeklyModuleContent(fields: WeeklyFields): WeeklyModuleContent | null {
+  const weekTitle = cleanField(fields.week_title);
+  const scriptureRef = cleanField(fields.scripture_ref);
+  const quote = cleanField(fields.quote);
+  if (!weekTitle && !scriptureRef && !quote) {
+    return null;
+  }
+
+  return {
+    weekTitle: weekTitle || null,
+    scriptureRef: scriptureRef || null,
+    quote: quote || null
+  };
+}
+
+export function resolveWeeklyLayoutRegions(shape: PreviewShape, hasModule: boolean): WeeklyLayoutRegions {
+  const { width, height } = PREVIEW_DIMENSIONS[shape];
+  const ratio = LOCKUP_SAFE_REGION_RATIOS[shape];
+  const safeRegion: LockupRegion = {
+    left: Math.round(width * ratio.left),
+    top: Math.round(height * ratio.top),
+    width: Math.round(width * ratio.width),
+    height: Math.round(height * ratio.height)
+  };
+
+  if (!hasModule) {
+    return {
+      lockupRegion: safeRegion,
+      moduleRegion: null
+    };
+  }
+
+  const gap = Math.round(height * 0.03);
+  if (shape === "tall") {
+    // The tall safe region only covers the upper third, so the module sits directly beneath it.
+    const moduleTop = safeRegion.top + safeRegion.height + gap;
+    return {
+      lockupRegion: safeRegion,
+      moduleRegion: {
+        left: safeRegion.left,
+        top: moduleTop,
+        width: safeRegion.width,
+        height: Math.round(height * 0.22)
+      }
+    };
+  }
+
+  const lockupHeight = Math.round(safeRegion.height * LOCKUP_SHARE_WITH_MODULE[shape]);
+  return {
+    lockupRegion: {
+      ...safeRegion,
+      height: lockupHeight
+    },
+    moduleRegion: {
+      left: safeRegion.left,
+      top: safeRegion.top + lockupHeight + gap,
+      width: safeRegion.width,
+      height: Math.max(1, safeRegion.height - lockupHeight - gap)
+    }
+  };
+}
+
+function fitLockupImageLayer(params: {
+  lockup: WeeklyLockupImage;
+  region: LockupRegion;
+  align: LockupRecipe["alignment"];
+}): DesignLayer {
+  const scale = Math.min(
+    params.region.width / Math.max(1, params.lockup.width),
+    params.region.height / Math.max(1, params.lockup.height)
+  );
+  const w = Math.max(1, Math.round(params.lockup.width * scale));
+  const h = Math.max(1, Math.round(params.lockup.height * scale));
+  const x =
+    params.align === "center"
+      ? params.region.left + Math.round((params.region.width - w) / 2)
+      : params.align === "right"
+        ? params.region.left + params.region.width - w
+        : params.region.left;
+
+  return {
+    type: "image",
+    x,
+    y: params.region.top + Math.round((params.region.height - h) / 2),
+    w,
+    h,
+    src: params.lockup.src
+  };
+}
+
+export function buildWeeklyDesignDoc(params: {
+  shape: PreviewShape;
+  backgroundImagePath: string;
+  lockup: WeeklyLockupImage;
+  weekly: WeeklyModuleContent | null;
+  lockupRecipe: LockupRecipe;
+  fontPairing: FontPairing;
+  palette: LockupTextPalette;
+}): WeeklyDesignDocResult {
+  const { width, height } = PREVIEW_DIMENSIONS[params.shape];
+  const regions = resolveWeeklyLayoutRegions(params.shape, Boolean(params.weekly));
+  const layers: DesignLayer[] = [
+    fitLockupImageLayer({
+      lockup: params.lockup,
+      region: regions.lockupRegion,
+      align: params.lockupRecipe.alignment
+    })
+  ];
+
+  const moduleLayout =
+    params.weekly && regions.moduleRegion
+      ? computeWeeklyModuleLayout({
+          backgroundSize: { width, height },
+          aspect: params.shape,
+          region: regions.moduleRegion,
+          content: params.weekly,
+          lockupRecipe: params.lockupRecipe,
+          fontPairing: params.fontPairing
+        })
+      : null;
+  if (moduleLayout) {
+    layers.push(
+      ...buildLockupDesignLayers({
+        layout: moduleLayout,
+        // The series art is already approved; the weekly module must not re-scrim the whole frame.
+        palette: {
+          ...params.palette,
+          autoScrim: false
+        }
+      })
+    );
+  }
+
+  return {
+    designDoc: {
+      width,
+      height,
+      backgroundImagePath: params.backgroundImagePath,
+      background: {
+        color: "#0F172A"
+      },
+      layers
+    },
+    textFit: moduleLayout?.textFit || null
+  };
+}
+
+/** Reads the per-shape text-fit warnings stored on Week.output; older outputs have none. */
+export function readWeeklyTextFitWarnings(output: unknown): Partial<Record<PreviewShape, string>> {
+  if (!output || typeof output !== "object" || Array.isArray(output)) {
+    return {};
+  }
+  const warnings = (output as { textFitWarnings?: unknown }).textFitWarnings;
+  if (!warnings || typeof warnings !== "object" || Array.isArray(warnings)) {
+    return {};
+  }
+
+  const result: Partial<Record<PreviewShape, string>> = {};
+  for (const shape of Object.keys(WEEKLY_OUTPUT_SLOT_BY_SHAPE) as PreviewShape[]) {
+    const warning = (warnings as Record<string, unknown>)[shape];
+    if (typeof warning === "string" && warning.trim()) {
+      result[shape] = warning;
+    }
+  }
+  return result;
+}
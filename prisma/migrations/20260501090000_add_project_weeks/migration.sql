@@ -0,0 +1,43 @@
+-- CreateTable
+CREATE TABLE "Week" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "projectId" TEXT NOT NULL,
+    "sortOrder" INTEGER NOT NULL DEFAULT 0,
+    "week_title" TEXT,
+    "scripture_ref" TEXT,
+    "quote" TEXT,
+    "output" JSONB,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "Week_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_Asset" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "projectId" TEXT NOT NULL,
+    "generationId" TEXT,
+    "weekId" TEXT,
+    "kind" TEXT NOT NULL DEFAULT 'IMAGE',
+    "slot" TEXT,
+    "file_path" TEXT NOT NULL,
+    "mime_type" TEXT,
+    "width" INTEGER,
+    "height" INTEGER,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "Asset_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "Asset_generationId_fkey" FOREIGN KEY ("generationId") REFERENCES "Generation" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "Asset_weekId_fkey" FOREIGN KEY ("weekId") REFERENCES "Week" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+INSERT INTO "new_Asset" ("id", "projectId", "generationId", "kind", "slot", "file_path", "mime_type", "width", "height", "createdAt", "updatedAt")
+SELECT "id", "projectId", "generationId", "kind", "slot", "file_path", "mime_type", "width", "height", "createdAt", "updatedAt" FROM "Asset";
+DROP TABLE "Asset";
+ALTER TABLE "new_Asset" RENAME TO "Asset";
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
+-- CreateIndex
+CREATE INDEX "Week_projectId_sortOrder_idx" ON "Week"("projectId", "sortOrder");
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "AiAttempt" ADD COLUMN "estimatedCostUsd" REAL;
+
+-- AlterTable
+ALTER TABLE "ScoutRun" ADD COLUMN "estimatedCostUsd" REAL;
+
+-- AlterTable
+ALTER TABLE "RebuildAttempt" ADD COLUMN "estimatedCostUsd" REAL;
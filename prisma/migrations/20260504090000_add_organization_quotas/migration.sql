@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Organization" ADD COLUMN "monthlyGenerationQuota" INTEGER;
+ALTER TABLE "Organization" ADD COLUMN "monthlySpendQuotaUsd" REAL;
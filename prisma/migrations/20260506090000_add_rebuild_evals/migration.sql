@@ -0,0 +1,28 @@
+-- CreateTable
+CREATE TABLE "RebuildEval" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "rebuildAttemptId" TEXT NOT NULL,
+    "scoutRunId" TEXT,
+    "attemptOrder" INTEGER NOT NULL,
+    "textRetry" BOOLEAN NOT NULL DEFAULT false,
+    "accepted" BOOLEAN NOT NULL,
+    "hardReject" BOOLEAN NOT NULL,
+    "rejectReasons" JSONB NOT NULL,
+    "textDetected" BOOLEAN NOT NULL,
+    "toneScore" REAL NOT NULL,
+    "structureScore" REAL NOT NULL,
+    "marginScore" REAL NOT NULL,
+    "focalScore" REAL NOT NULL,
+    "grammarScore" REAL NOT NULL,
+    "compositeScore" REAL NOT NULL,
+    "imageStatsJson" JSONB,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "RebuildEval_rebuildAttemptId_fkey" FOREIGN KEY ("rebuildAttemptId") REFERENCES "RebuildAttempt" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "RebuildEval_scoutRunId_fkey" FOREIGN KEY ("scoutRunId") REFERENCES "ScoutRun" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "RebuildEval_rebuildAttemptId_idx" ON "RebuildEval"("rebuildAttemptId");
+
+-- CreateIndex
+CREATE INDEX "RebuildEval_scoutRunId_idx" ON "RebuildEval"("scoutRunId");
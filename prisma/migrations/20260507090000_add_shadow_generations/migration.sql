@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Generation" ADD COLUMN "shadow" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateIndex
+CREATE INDEX "Generation_shadow_createdAt_idx" ON "Generation"("shadow", "createdAt");
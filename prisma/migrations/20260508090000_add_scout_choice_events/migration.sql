@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "ScoutChoiceEvent" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "groupId" TEXT NOT NULL,
+    "source" TEXT NOT NULL,
+    "projectId" TEXT NOT NULL,
+    "generationId" TEXT NOT NULL,
+    "scoutRunId" TEXT,
+    "runSeed" TEXT NOT NULL,
+    "chosen" BOOLEAN NOT NULL,
+    "featuresJson" JSONB NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "ScoutChoiceEvent_generationId_fkey" FOREIGN KEY ("generationId") REFERENCES "Generation" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "ScoutChoiceEvent_scoutRunId_fkey" FOREIGN KEY ("scoutRunId") REFERENCES "ScoutRun" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "ScoutChoiceEvent_groupId_idx" ON "ScoutChoiceEvent"("groupId");
+
+-- CreateIndex
+CREATE INDEX "ScoutChoiceEvent_generationId_idx" ON "ScoutChoiceEvent"("generationId");
+
+-- CreateIndex
+CREATE INDEX "ScoutChoiceEvent_createdAt_idx" ON "ScoutChoiceEvent"("createdAt");
@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "DesignModeFlag" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "organizationId" TEXT NOT NULL,
+    "projectId" TEXT,
+    "settingsJson" JSONB NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "DesignModeFlag_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "DesignModeFlag_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DesignModeFlag_organizationId_projectId_key" ON "DesignModeFlag"("organizationId", "projectId");
+
+-- CreateIndex
+CREATE INDEX "DesignModeFlag_projectId_idx" ON "DesignModeFlag"("projectId");
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "OrganizationBrandKit" ADD COLUMN "fontPairingJson" TEXT;
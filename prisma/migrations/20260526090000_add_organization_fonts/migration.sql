@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "OrganizationFont" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "organizationId" TEXT NOT NULL,
+    "family" TEXT NOT NULL,
+    "weight" INTEGER NOT NULL,
+    "style" TEXT NOT NULL,
+    "filePath" TEXT NOT NULL,
+    "originalFileName" TEXT NOT NULL,
+    "byteSize" INTEGER NOT NULL,
+    "subset" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "OrganizationFont_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "OrganizationFont_organizationId_family_weight_style_key" ON "OrganizationFont"("organizationId", "family", "weight", "style");
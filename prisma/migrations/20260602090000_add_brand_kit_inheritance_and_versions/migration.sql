@@ -0,0 +1,31 @@
+-- AlterTable
+ALTER TABLE "BrandKit" ADD COLUMN "paletteMode" TEXT NOT NULL DEFAULT 'inherit';
+ALTER TABLE "BrandKit" ADD COLUMN "logoMode" TEXT NOT NULL DEFAULT 'inherit';
+ALTER TABLE "BrandKit" ADD COLUMN "typographyMode" TEXT NOT NULL DEFAULT 'inherit';
+
+-- CreateTable
+CREATE TABLE "BrandKitVersion" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "organizationId" TEXT NOT NULL,
+    "projectId" TEXT,
+    "version" INTEGER NOT NULL,
+    "source" TEXT NOT NULL,
+    "websiteUrl" TEXT NOT NULL,
+    "logoPath" TEXT,
+    "paletteJson" TEXT NOT NULL,
+    "typographyDirection" TEXT NOT NULL,
+    "fontPairingJson" TEXT,
+    "overriddenFieldsJson" TEXT NOT NULL DEFAULT '[]',
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "BrandKitVersion_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "BrandKitVersion_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- AlterTable
+ALTER TABLE "Generation" ADD COLUMN "brandKitVersionId" TEXT REFERENCES "BrandKitVersion" ("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "BrandKitVersion_organizationId_projectId_version_key" ON "BrandKitVersion"("organizationId", "projectId", "version");
+
+-- CreateIndex
+CREATE INDEX "BrandKitVersion_projectId_createdAt_idx" ON "BrandKitVersion"("projectId", "createdAt");
@@ -0,0 +1,4 @@
+-- The composite unique index treats NULL projectIds as distinct, so organization brand kit
+-- versions need their own index to keep version numbers unique per organization.
+-- CreateIndex
+CREATE UNIQUE INDEX "BrandKitVersion_organizationId_version_organization_key" ON "BrandKitVersion"("organizationId", "version") WHERE "projectId" IS NULL;
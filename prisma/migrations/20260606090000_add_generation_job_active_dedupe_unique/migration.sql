@@ -0,0 +1,15 @@
+-- Concurrent enqueues could both pass the active-job lookup and create duplicate jobs for one
+-- dedupe key. Settle any existing duplicates (keeping the oldest) before enforcing uniqueness.
+UPDATE "GenerationJob"
+SET "status" = 'FAILED', "lockedBy" = NULL, "lastError" = 'duplicate_active_job', "completedAt" = CURRENT_TIMESTAMP
+WHERE "status" IN ('QUEUED', 'RUNNING')
+  AND EXISTS (
+    SELECT 1 FROM "GenerationJob" AS "older"
+    WHERE "older"."dedupeKey" = "GenerationJob"."dedupeKey"
+      AND "older"."status" IN ('QUEUED', 'RUNNING')
+      AND ("older"."createdAt" < "GenerationJob"."createdAt"
+        OR ("older"."createdAt" = "GenerationJob"."createdAt" AND "older"."id" < "GenerationJob"."id"))
+  );
+
+-- CreateIndex
+CREATE UNIQUE INDEX "GenerationJob_dedupeKey_active_key" ON "GenerationJob"("dedupeKey") WHERE "status" IN ('QUEUED', 'RUNNING');
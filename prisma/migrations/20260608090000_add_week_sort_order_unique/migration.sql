@@ -0,0 +1,26 @@
+-- Concurrent week adds could both read the same last sortOrder. Move any duplicates (keeping the
+-- oldest in place) after the project's last week before enforcing uniqueness.
+CREATE TEMP TABLE "WeekSortOrderFix" AS
+SELECT "id", "maxSortOrder" + ROW_NUMBER() OVER (PARTITION BY "projectId" ORDER BY "createdAt", "id") AS "sortOrder"
+FROM (
+  SELECT
+    "id",
+    "projectId",
+    "createdAt",
+    MAX("sortOrder") OVER (PARTITION BY "projectId") AS "maxSortOrder",
+    ROW_NUMBER() OVER (PARTITION BY "projectId", "sortOrder" ORDER BY "createdAt", "id") AS "duplicateRank"
+  FROM "Week"
+)
+WHERE "duplicateRank" > 1;
+
+UPDATE "Week"
+SET "sortOrder" = (SELECT "fix"."sortOrder" FROM "WeekSortOrderFix" AS "fix" WHERE "fix"."id" = "Week"."id")
+WHERE "id" IN (SELECT "id" FROM "WeekSortOrderFix");
+
+DROP TABLE "WeekSortOrderFix";
+
+-- DropIndex
+DROP INDEX "Week_projectId_sortOrder_idx";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Week_projectId_sortOrder_key" ON "Week"("projectId", "sortOrder");
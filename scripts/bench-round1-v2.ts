@@ -0,0 +1,226 @@
+/**
+ * Offline benchmark runner for Round 1 V2.
+ *
+ * Runs every BENCHMARK_PACK_V1 fixture through scout planning, scout generation, eval
+ * and selection, then writes a static HTML report (thumbnails, reject reasons,
+ * diversity-family coverage, score distributions) plus summary.json.
+ *
+ * Usage:
+ *   node --import tsx scripts/bench-round1-v2.ts
+ *   node --import tsx scripts/bench-round1-v2.ts --provider fal.flux-schnell --out /tmp/v2-bench/flux
+ *   node --import tsx scripts/bench-round1-v2.ts --fixture rest-light-short-abstract --no-db
+ *
+ * Options:
+ *   --provider <id>   Scout provider id from the V2 registry (default: local.procedural)
+ *   --out <dir>       Output directory (default: /tmp/v2-bench/<timestamp>)
+ *   --fixture <id>    Run only this fixture; repeatable
+ *   --no-db           Skip logging AiRun/BenchmarkRun rows
+ *
+ * Each fixture is logged as a BenchmarkRun (with codeVersion from GIT_COMMIT_SHA or
+ * `git rev-parse`) unless --no-db is passed.
+ */
+
+import { execFileSync } from "node:child_process";
+import { mkdirSync, writeFileSync } from "node:fs";
+import path from "node:path";
+import sharp from "sharp";
+import type { AiJsonValue } from "../lib/ai-harness/core/types";
+import { BENCHMARK_PACK_V1, type BenchmarkFixture } from "../lib/round1-v2/bench/pack-v1";
+import {
+  ROUND1_V2_BENCHMARK_FEATURE_KEY,
+  runBenchmarkPack,
+  summarizeBenchmarkFixture,
+  summarizeBenchmarkPack,
+  type BenchmarkFixtureResult,
+} from "../lib/round1-v2/bench/run-pack";
+import { renderBenchmarkReportHtml } from "../lib/round1-v2/bench/report";
+import { loadScoutProvider } from "../lib/round1-v2/providers/registry";
+import { LOCAL_PROCEDURAL_PROVIDER_ID } from "../lib/round1-v2/providers/local-procedural";
+
+const THUMBNAIL_WIDTH_PX = 384;
+
+type BenchOptions = {
+  providerId: string;
+  outDir: string;
+  fixtureIds: string[];
+  logToDb: boolean;
+};
+
+function parseArgs(argv: string[]): BenchOptions {
+  const options: BenchOptions = {
+    providerId: LOCAL_PROCEDURAL_PROVIDER_ID,
+    outDir: path.join("/tmp/v2-bench", new Date().toISOString().replace(/[:.]/g, "-")),
+    fixtureIds: [],
+    logToDb: true,
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const next = () => {
+      const value = argv[++i];
+      if (!value) throw new Error(`Missing value for ${arg}`);
+      return value;
+    };
+    if (arg === "--provider") options.providerId = next();
+    else if (arg === "--out") options.outDir = path.resolve(next());
+    else if (arg === "--fixture") options.fixtureIds.push(next());
+    else if (arg === "--no-db") options.logToDb = false;
+    else throw new Error(`Unknown argument: ${arg}`);
+  }
+
+  return options;
+}
+
+function readCodeVersion(): string | null {
+  const fromEnv = process.env.VERCEL_GIT_COMMIT_SHA?.trim() || process.env.GIT_COMMIT_SHA?.trim();
+  if (fromEnv) return fromEnv;
+  try {
+    return execFileSync("git", ["rev-parse", "--short", "HEAD"], { encoding: "utf8" }).trim() || null;
+  } catch {
+    return null;
+  }
+}
+
+function thumbnailFileName(fixtureId: string, slotIndex: number): string {
+  return `thumbs/${fixtureId}-${String(slotIndex).padStart(2, "0")}.jpg`;
+}
+
+async function writeThumbnails(outDir: string, result: BenchmarkFixtureResult): Promise<void> {
+  for (const slot of result.slots) {
+    if (!slot.imageBytes) continue;
+    const thumbnail = await sharp(slot.imageBytes, { failOn: "none" })
+      .resize({ width: THUMBNAIL_WIDTH_PX })
+      .jpeg({ quality: 78 })
+      .toBuffer();
+    writeFileSync(path.join(outDir, thumbnailFileName(result.fixture.id, slot.slotIndex)), thumbnail);
+  }
+}
+
+async function logFixtureRun(result: BenchmarkFixtureResult, codeVersion: string | null): Promise<void> {
+  // Dynamic imports keep --no-db runs free of the Prisma client.
+  const { createAiRun, completeAiRun } = await import("../lib/ai-harness/storage/attempts");
+  const { logBenchmarkRun } = await import("../lib/ai-harness/storage/benchmark-runs");
+  const { GRAPHICS_PRODUCT_KEY } = await import("../lib/graphics-domain/prompts");
+  const summary = summarizeBenchmarkFixture(result);
+
+  const run = await createAiRun({
+    productKey: GRAPHICS_PRODUCT_KEY,
+    featureKey: ROUND1_V2_BENCHMARK_FEATURE_KEY,
+    benchmarkCaseKey: result.fixture.id,
+    metadataJson: { runSeed: result.runSeed, providerId: result.providerId },
+  });
+  const completedRun = await completeAiRun({
+    id: run.id,
+    status: "COMPLETED",
+    metadataJson: { runSeed: result.runSeed, providerId: result.providerId },
+  });
+  await logBenchmarkRun({
+    run: completedRun,
+    benchmarkCase: {
+      caseKey: result.fixture.id,
+      name: result.fixture.label,
+      inputJson: fixtureCaseInput(result.fixture),
+    },
+    codeVersion,
+    providerConfigVersion: result.providerId,
+    summaryJson: summary as unknown as AiJsonValue,
+  });
+}
+
+function fixtureCaseInput(fixture: BenchmarkFixture) {
+  return {
+    tone: fixture.tone,
+    category: fixture.category,
+    titleLength: fixture.titleLength,
+    motifDensity: fixture.motifDensity,
+    rawInput: {
+      title: fixture.rawInput.title,
+      subtitle: fixture.rawInput.subtitle ?? null,
+      description: fixture.rawInput.description ?? null,
+      toneHint: fixture.rawInput.toneHint ?? null,
+      motifHints: fixture.rawInput.motifHints ?? [],
+    },
+  };
+}
+
+async function main(): Promise<void> {
+  const options = parseArgs(process.argv.slice(2));
+  const fixtures =
+    options.fixtureIds.length > 0
+      ? options.fixtureIds.map((id) => {
+          const fixture = BENCHMARK_PACK_V1.find((f) => f.id === id);
+          if (!fixture) {
+            throw new Error(`Unknown fixture ID: ${id}. Available: ${BENCHMARK_PACK_V1.map((f) => f.id).join(", ")}`);
+          }
+          return fixture;
+        })
+      : BENCHMARK_PACK_V1;
+
+  const provider = await loadScoutProvider(options.providerId);
+  const codeVersion = readCodeVersion();
+  mkdirSync(path.join(options.outDir, "thumbs"), { recursive: true });
+
+  console.log(`[v2-bench] ${fixtures.length} fixtures provider=${provider.id} code=${codeVersion ?? "unknown"}`);
+  console.log(`[v2-bench] output ${options.outDir}`);
+
+  try {
+    const results = await runBenchmarkPack({
+      fixtures,
+      runSeedPrefix: `bench-${codeVersion ?? "local"}`,
+      provider,
+      onFixtureComplete: async (result) => {
+        await writeThumbnails(options.outDir, result);
+        if (options.logToDb) await logFixtureRun(result, codeVersion);
+        const summary = summarizeBenchmarkFixture(result);
+        console.log(
+          `[v2-bench] ${result.fixture.id}: generated=${summary.generatedCount}/${summary.slotCount} rejected=${summary.hardRejectCount} selected=[${summary.selected
+            .map((s) => `${s.label}=${s.grammarKey}`)
+            .join(" ")}] ${result.durationMs}ms`
+        );
+      },
+    });
+
+    const generatedAt = new Date();
+    const summary = summarizeBenchmarkPack(results);
+    writeFileSync(
+      path.join(options.outDir, "report.html"),
+      renderBenchmarkReportHtml({
+        generatedAt,
+        codeVersion,
+        providerId: provider.id,
+        results,
+        summary,
+        thumbnailSrc: (fixtureId, slotIndex) => {
+          const slot = results.find((r) => r.fixture.id === fixtureId)?.slots[slotIndex];
+          return slot?.imageBytes ? thumbnailFileName(fixtureId, slotIndex) : null;
+        },
+      })
+    );
+    writeFileSync(
+      path.join(options.outDir, "summary.json"),
+      JSON.stringify(
+        {
+          generatedAt: generatedAt.toISOString(),
+          codeVersion,
+          providerId: provider.id,
+          summary,
+          fixtures: results.map(summarizeBenchmarkFixture),
+        },
+        null,
+        2
+      )
+    );
+
+    console.log(`[v2-bench] report ${path.join(options.outDir, "report.html")}`);
+  } finally {
+    if (options.logToDb) {
+      const { prisma } = await import("../lib/prisma");
+      await prisma.$disconnect();
+    }
+  }
+}
+
+main().catch((error) => {
+  console.error("[v2-bench] fatal", error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,142 @@
+/**
+ * Compares two Round 1 V2 benchmark sets and flags fixtures that regressed.
+ *
+ * A set is either a code version (all BenchmarkRun rows logged under it by
+ * `npm run bench:v2`) or the path to a summary.json written by a --no-db run.
+ *
+ * Usage:
+ *   node --import tsx scripts/compare-bench-round1-v2.ts --base a1b2c3d --head e4f5a6b
+ *   node --import tsx scripts/compare-bench-round1-v2.ts --base /tmp/v2-bench/a/summary.json --head /tmp/v2-bench/b/summary.json
+ *   node --import tsx scripts/compare-bench-round1-v2.ts --base a1b2c3d --head e4f5a6b --composite-drop 0.02
+ *
+ * Runs are compared only against runs logged under the same provider config
+ * version (the provider id for summary.json files, as when the runs were logged).
+ *
+ * Threshold overrides (defaults in lib/round1-v2/bench/compare.ts):
+ *   --pass-rate-drop <n>   --composite-drop <n>   --text-rate-rise <n>
+ *   --tone-rate-rise <n>   --latency-rise <ratio>
+ *
+ * Exits with code 1 when any fixture regressed, so it can gate a deploy.
+ */
+
+import { existsSync, readFileSync } from "node:fs";
+import {
+  BENCHMARK_METRIC_LABELS,
+  compareBenchmarkSetsByProviderConfig,
+  formatBenchmarkMetric,
+  type BenchmarkMetricKey,
+  type BenchmarkRegressionThresholds,
+  type BenchmarkSetRun,
+} from "../lib/round1-v2/bench/compare";
+import { ROUND1_V2_BENCHMARK_FEATURE_KEY } from "../lib/round1-v2/bench/run-pack";
+
+const THRESHOLD_FLAGS: Record<string, keyof BenchmarkRegressionThresholds> = {
+  "--pass-rate-drop": "passRateDrop",
+  "--composite-drop": "compositeScoreDrop",
+  "--text-rate-rise": "textArtifactRateRise",
+  "--tone-rate-rise": "toneImplausibleRateRise",
+  "--latency-rise": "latencyRiseRatio",
+};
+
+type CompareOptions = {
+  base: string;
+  head: string;
+  thresholds: Partial<BenchmarkRegressionThresholds>;
+};
+
+function parseArgs(argv: string[]): CompareOptions {
+  let base: string | null = null;
+  let head: string | null = null;
+  const thresholds: Partial<BenchmarkRegressionThresholds> = {};
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const value = argv[++i];
+    if (!value) throw new Error(`Missing value for ${arg}`);
+    if (arg === "--base") base = value;
+    else if (arg === "--head") head = value;
+    else if (THRESHOLD_FLAGS[arg]) {
+      const parsed = Number(value);
+      if (!Number.isFinite(parsed) || parsed < 0) throw new Error(`${arg} must be a non-negative number`);
+      thresholds[THRESHOLD_FLAGS[arg]] = parsed;
+    } else throw new Error(`Unknown argument: ${arg}`);
+  }
+
+  if (!base || !head) throw new Error("Both --base and --head are required");
+  return { base, head, thresholds };
+}
+
+function isSummaryFile(ref: string): boolean {
+  return ref.endsWith(".json") && existsSync(ref);
+}
+
+async function loadSet(ref: string): Promise<BenchmarkSetRun[]> {
+  if (isSummaryFile(ref)) {
+    const parsed = JSON.parse(readFileSync(ref, "utf8")) as {
+      fixtures?: Array<{ fixtureId: string; providerId?: string | null }>;
+    };
+    return (parsed.fixtures ?? []).map((summary) => ({
+      caseKey: summary.fixtureId,
+      summaryJson: summary,
+      providerConfigVersion: summary.providerId ?? null,
+    }));
+  }
+
+  const { listBenchmarkRunsByCodeVersion } = await import("../lib/ai-harness/storage/benchmark-runs");
+  const runs = await listBenchmarkRunsByCodeVersion({ codeVersion: ref, featureKey: ROUND1_V2_BENCHMARK_FEATURE_KEY });
+  if (runs.length === 0) throw new Error(`No benchmark runs logged for code version ${ref}`);
+  return runs.map((run) => ({
+    caseKey: run.caseKey,
+    summaryJson: run.summaryJson,
+    providerConfigVersion: run.providerConfigVersion,
+  }));
+}
+
+const METRIC_KEYS = Object.keys(BENCHMARK_METRIC_LABELS) as BenchmarkMetricKey[];
+
+async function main(): Promise<void> {
+  const options = parseArgs(process.argv.slice(2));
+  const usedDb = !isSummaryFile(options.base) || !isSummaryFile(options.head);
+
+  try {
+    const [baseline, candidate] = await Promise.all([loadSet(options.base), loadSet(options.head)]);
+    const groups = compareBenchmarkSetsByProviderConfig({ baseline, candidate, thresholds: options.thresholds });
+
+    console.log(`[v2-bench-compare] base=${options.base} head=${options.head}`);
+    const regressed: string[] = [];
+    for (const { providerConfigVersion, comparison } of groups) {
+      const group = providerConfigVersion ?? "unversioned";
+      console.log(`\n== provider config ${group} ==`);
+      for (const fixture of comparison.fixtures) {
+        const flag = fixture.regressions.length > 0 ? "REGRESSED" : !fixture.baseline || !fixture.candidate ? "unmatched" : "ok";
+        console.log(`\n${fixture.caseKey} [${flag}]`);
+        for (const key of METRIC_KEYS) {
+          const before = formatBenchmarkMetric(key, fixture.baseline?.[key] ?? null);
+          const after = formatBenchmarkMetric(key, fixture.candidate?.[key] ?? null);
+          const marker = fixture.regressions.includes(key) ? "  <-- regression" : "";
+          console.log(`  ${BENCHMARK_METRIC_LABELS[key].padEnd(22)} ${before.padStart(9)} → ${after.padStart(9)}${marker}`);
+        }
+      }
+
+      console.log(
+        `\n[v2-bench-compare] provider config ${group}: ${comparison.fixtures.length} fixtures, ${comparison.regressedCaseKeys.length} regressed, ${comparison.unmatchedCaseKeys.length} unmatched`
+      );
+      regressed.push(...comparison.regressedCaseKeys.map((caseKey) => `${caseKey} (${group})`));
+    }
+
+    if (regressed.length > 0) {
+      console.log(`[v2-bench-compare] regressed: ${regressed.join(", ")}`);
+      process.exitCode = 1;
+    }
+  } finally {
+    if (usedDb) {
+      const { prisma } = await import("../lib/prisma");
+      await prisma.$disconnect();
+    }
+  }
+}
+
+main().catch((error) => {
+  console.error("[v2-bench-compare] fatal", error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,111 @@
+/**
+ * Fits scout-ranking weights from logged user choices and writes the next
+ * versioned weight file, which Round 1 V2 selectScouts loads in place of the
+ * hand-set composite weights.
+ *
+ * Choices are ScoutChoiceEvent rows: every time a user approves a Round 1 V2
+ * option or carries it into Round 2, the run's lanes are logged with the eval
+ * features of the scouts they were rebuilt from.
+ *
+ * Usage:
+ *   node --import tsx scripts/fit-scout-ranking.ts
+ *   node --import tsx scripts/fit-scout-ranking.ts --since 2026-05-01 --min-groups 50
+ *   node --import tsx scripts/fit-scout-ranking.ts --dry-run
+ *
+ * Flags:
+ *   --since <date>       only use choices logged on or after this date
+ *   --min-groups <n>     refuse to write weights from fewer choice groups (default 30)
+ *   --out-dir <dir>      weight file directory (default lib/round1-v2/eval/ranking-weights)
+ *   --dry-run            fit and print, but do not write a file
+ *
+ * Pin or roll back a version with ROUND1_V2_SCOUT_RANKING_VERSION=<n> (or "fixed").
+ */
+
+import { mkdir, writeFile } from "node:fs/promises";
+import path from "node:path";
+import {
+  SCOUT_RANKING_NUMERIC_FEATURES,
+  SCOUT_RANKING_WEIGHTS_DIR,
+  fitScoutRankingWeights,
+  listScoutRankingWeightVersions,
+  scoutRankingWeightsFileName,
+  usableScoutChoiceGroups,
+  type ScoutRankingWeights,
+} from "../lib/round1-v2/eval/scout-ranking";
+
+type FitOptions = {
+  since: Date | null;
+  minGroups: number;
+  outDir: string;
+  dryRun: boolean;
+};
+
+function parseArgs(argv: string[]): FitOptions {
+  const options: FitOptions = { since: null, minGroups: 30, outDir: SCOUT_RANKING_WEIGHTS_DIR, dryRun: false };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === "--dry-run") {
+      options.dryRun = true;
+      continue;
+    }
+    const value = argv[++i];
+    if (!value) throw new Error(`Missing value for ${arg}`);
+    if (arg === "--since") {
+      const since = new Date(value);
+      if (Number.isNaN(since.getTime())) throw new Error(`--since must be a date, got ${value}`);
+      options.since = since;
+    } else if (arg === "--min-groups") {
+      const parsed = Number(value);
+      if (!Number.isInteger(parsed) || parsed < 1) throw new Error("--min-groups must be a positive integer");
+      options.minGroups = parsed;
+    } else if (arg === "--out-dir") {
+      options.outDir = path.resolve(value);
+    } else throw new Error(`Unknown argument: ${arg}`);
+  }
+
+  return options;
+}
+
+async function main(): Promise<void> {
+  const options = parseArgs(process.argv.slice(2));
+  const { listScoutChoiceGroups } = await import("../lib/round1-v2/storage/scout-choice-repo");
+
+  try {
+    const groups = usableScoutChoiceGroups(await listScoutChoiceGroups({ since: options.since ?? undefined }));
+    console.log(`[fit-scout-ranking] ${groups.length} usable choice groups${options.since ? ` since ${options.since.toISOString()}` : ""}`);
+    if (groups.length < options.minGroups) {
+      console.log(`[fit-scout-ranking] need at least ${options.minGroups} groups; keeping current weights`);
+      return;
+    }
+
+    const fit = fitScoutRankingWeights(groups);
+    console.log(
+      `[fit-scout-ranking] log-likelihood ${fit.initialLogLikelihood.toFixed(4)} → ${fit.finalLogLikelihood.toFixed(4)}, ` +
+        `top-1 ${(fit.initialTop1Accuracy * 100).toFixed(1)}% → ${(fit.finalTop1Accuracy * 100).toFixed(1)}%`
+    );
+    for (const key of SCOUT_RANKING_NUMERIC_FEATURES) {
+      console.log(`  ${key.padEnd(16)} ${fit.weights.numeric[key].toFixed(4).padStart(9)}`);
+    }
+
+    if (options.dryRun) {
+      console.log("[fit-scout-ranking] dry run; no file written");
+      return;
+    }
+
+    const version = ((await listScoutRankingWeightVersions(options.outDir)).at(-1) ?? 0) + 1;
+    const weights: ScoutRankingWeights = { version, fittedAt: new Date().toISOString(), ...fit.weights };
+    const outPath = path.join(options.outDir, scoutRankingWeightsFileName(version));
+    await mkdir(options.outDir, { recursive: true });
+    await writeFile(outPath, `${JSON.stringify(weights, null, 2)}\n`);
+    console.log(`[fit-scout-ranking] wrote ${path.relative(process.cwd(), outPath)}`);
+  } finally {
+    const { prisma } = await import("../lib/prisma");
+    await prisma.$disconnect();
+  }
+}
+
+main().catch((error) => {
+  console.error("[fit-scout-ranking] fatal", error);
+  process.exitCode = 1;
+});
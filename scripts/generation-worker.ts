@@ -0,0 +1,56 @@
+/**
+ * Generation job worker.
+ *
+ * Claims QUEUED GenerationJob rows enqueued by the Round 1 / refinement server actions and runs
+ * them outside the request cycle, heartbeating while a round is in flight. A worker killed by a
+ * deploy stops heartbeating and its job is reclaimed by the next worker after the stale window.
+ * Sampled V1 Round 1 launches also queue a Round 1 V2 shadow job, run here like any other.
+ *
+ * Usage:
+ *   node --import tsx scripts/generation-worker.ts
+ *
+ * SIGINT/SIGTERM stop claiming new jobs and exit after the in-flight job settles.
+ */
+
+import "./register-server-only";
+import { randomUUID } from "node:crypto";
+import os from "node:os";
+import { prisma } from "../lib/prisma";
+import { buildGenerationJobHandlers, runGenerationWorker } from "../lib/graphics-domain/generation-worker";
+import {
+  runRoundOneGeneration,
+  runRoundOneV2ShadowGeneration,
+  runRoundTwoGeneration
+} from "../app/app/projects/generation-actions.impl";
+
+async function main(): Promise<void> {
+  const workerId = `${os.hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+  const abortController = new AbortController();
+
+  for (const signal of ["SIGINT", "SIGTERM"] as const) {
+    process.once(signal, () => {
+      console.log(`[generation-worker] ${signal} received, finishing in-flight job`);
+      abortController.abort();
+    });
+  }
+
+  try {
+    await runGenerationWorker({
+      prisma,
+      workerId,
+      signal: abortController.signal,
+      handlers: buildGenerationJobHandlers({
+        runRoundOneGeneration,
+        runRoundTwoGeneration,
+        runRoundOneV2ShadowGeneration
+      })
+    });
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+main().catch((error) => {
+  console.error("[generation-worker] fatal", error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,20 @@
+/**
+ * Lets a plain Node entry point load modules that start with `import "server-only"`.
+ *
+ * Next.js aliases `server-only` to an empty module when bundling server code; outside Next the
+ * package resolves to a module that throws (or is not installed at all). This applies the same
+ * alias, so it must be imported before anything that pulls in a server-only module.
+ */
+
+import Module from "node:module";
+
+const SERVER_ONLY_EMPTY_MODULE = "next/dist/compiled/server-only/empty";
+
+type ResolveFilename = (request: string, ...rest: unknown[]) => string;
+
+const moduleWithResolver = Module as unknown as { _resolveFilename: ResolveFilename };
+const resolveFilename = moduleWithResolver._resolveFilename;
+
+moduleWithResolver._resolveFilename = function (this: unknown, request: string, ...rest: unknown[]) {
+  return resolveFilename.call(this, request === "server-only" ? SERVER_ONLY_EMPTY_MODULE : request, ...rest);
+};
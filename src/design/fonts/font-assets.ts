@@ -1,6 +1,8 @@
 import googleFontAssetsManifest from "./font-assets.google.json";
 
-export type FontAssetSource = "local" | "google";
+export type FontAssetSource = "local" | "google" | "organization";
+
+export type FontAssetFormat = "woff2" | "truetype" | "opentype";
 
 export type FontAsset = {
   id: string;
@@ -354,7 +356,18 @@ export function inferFontTagsFromFamilyName(family: string): string[] {
 }
 
 export function getFontAssetSource(asset: FontAsset): FontAssetSource {
-  return asset.source === "google" ? "google" : "local";
+  return asset.source === "google" || asset.source === "organization" ? asset.source : "local";
+}
+
+export function getFontAssetFormat(file: string): FontAssetFormat {
+  const normalized = file.trim().toLowerCase();
+  if (normalized.endsWith(".ttf")) {
+    return "truetype";
+  }
+  if (normalized.endsWith(".otf")) {
+    return "opentype";
+  }
+  return "woff2";
 }
 
 function sanitizeManifestAssets(raw: unknown): FontAsset[] {
@@ -442,6 +455,101 @@ for (const asset of FONT_ASSETS) {
   FONT_ASSETS_BY_FAMILY.set(key, list);
 }
 
+// Uploaded organization fonts register at runtime under a scope (the organization id), on top of the
+// bundled library. They never shadow a bundled id or family, and only lookups for the same scope see them.
+type RegisteredFontAssetScope = {
+  assets: FontAsset[];
+  byId: Map<string, FontAsset>;
+  byFamily: Map<string, FontAsset[]>;
+};
+
+const REGISTERED_FONT_ASSETS_BY_SCOPE = new Map<string, RegisteredFontAssetScope>();
+// Scopes registered or loaded in this process; anything else goes through the scope loader on first lookup.
+const LOADED_FONT_ASSET_SCOPES = new Set<string>();
+let registeredFontAssetsRevision = 0;
+let fontAssetScopeLoader: ((scope: string) => readonly FontAsset[] | null) | null = null;
+
+function buildRegisteredFontAssetScope(assets: FontAsset[]): RegisteredFontAssetScope {
+  const byId = new Map<string, FontAsset>();
+  const byVariantKey = new Map<string, FontAsset>();
+  for (const asset of assets) {
+    byId.set(asset.id, asset);
+    byVariantKey.set(toVariantKey(asset.family, asset.weight, asset.style), asset);
+  }
+
+  const byFamily = new Map<string, FontAsset[]>();
+  for (const asset of byVariantKey.values()) {
+    const key = asset.family.toLowerCase();
+    const list = byFamily.get(key) || [];
+    list.push(asset);
+    byFamily.set(key, list);
+  }
+  return { assets, byId, byFamily };
+}
+
+function getRegisteredFontAssetScope(scope: string | null | undefined): RegisteredFontAssetScope | undefined {
+  if (!scope) {
+    return undefined;
+  }
+  if (!LOADED_FONT_ASSET_SCOPES.has(scope) && fontAssetScopeLoader) {
+    LOADED_FONT_ASSET_SCOPES.add(scope);
+    const assets = fontAssetScopeLoader(scope);
+    if (assets) {
+      registerFontAssets(scope, assets);
+    }
+  }
+  return REGISTERED_FONT_ASSETS_BY_SCOPE.get(scope);
+}
+
+/**
+ * Sets how a scope nobody registered in this process is loaded on its first lookup, so a worker or
+ * a restarted server still resolves fonts another process registered. Lookups stay synchronous.
+ */
+export function setFontAssetScopeLoader(loader: ((scope: string) => readonly FontAsset[] | null) | null): void {
+  fontAssetScopeLoader = loader;
+}
+
+export function isBundledFontFamily(family: string): boolean {
+  return FONT_ASSETS_BY_FAMILY.has(family.trim().toLowerCase());
+}
+
+/** Replaces every asset previously registered under `scope`; an empty list unregisters the scope. */
+export function registerFontAssets(scope: string, assets: readonly FontAsset[]): FontAsset[] {
+  const accepted: FontAsset[] = [];
+  for (const asset of assets) {
+    const family = asset.family.trim();
+    if (!family || FONT_ASSET_BY_ID.has(asset.id) || isBundledFontFamily(family)) {
+      continue;
+    }
+    accepted.push({
+      ...asset,
+      family,
+      style: sanitizeStyle(asset.style),
+      weight: toSafeWeight(asset.weight),
+      tags: normalizeTags(asset.tags),
+      source: "organization"
+    });
+  }
+
+  LOADED_FONT_ASSET_SCOPES.add(scope);
+  if (accepted.length > 0) {
+    REGISTERED_FONT_ASSETS_BY_SCOPE.set(scope, buildRegisteredFontAssetScope(accepted));
+  } else {
+    REGISTERED_FONT_ASSETS_BY_SCOPE.delete(scope);
+  }
+  registeredFontAssetsRevision += 1;
+  return accepted;
+}
+
+export function getRegisteredFontAssets(scope: string): readonly FontAsset[] {
+  return REGISTERED_FONT_ASSETS_BY_SCOPE.get(scope)?.assets || [];
+}
+
+/** Bumps whenever registrations change so file-index caches keyed by family can be dropped. */
+export function getRegisteredFontAssetsRevision(): number {
+  return registeredFontAssetsRevision;
+}
+
 function escapeCssString(value: string): string {
   return value.replace(/\\/g, "\\\\").replace(/'/g, "\\'");
 }
@@ -466,16 +574,18 @@ export function toPublicFontPath(file: string): string {
   return `/fonts/${trimmed}`;
 }
 
-export function getFontAssetById(id: string): FontAsset | undefined {
-  return FONT_ASSET_BY_ID.get(id);
+/** Bundled fonts resolve for every caller; fonts registered under `scope` only when that scope is passed. */
+export function getFontAssetById(id: string, scope?: string | null): FontAsset | undefined {
+  return FONT_ASSET_BY_ID.get(id) || getRegisteredFontAssetScope(scope)?.byId.get(id);
 }
 
-export function hasFontAssetId(id: string): id is FontAssetId {
-  return FONT_ASSET_BY_ID.has(id);
+export function hasFontAssetId(id: string, scope?: string | null): id is FontAssetId {
+  return FONT_ASSET_BY_ID.has(id) || Boolean(getRegisteredFontAssetScope(scope)?.byId.has(id));
 }
 
-export function getFontAssetsByFamily(family: string): readonly FontAsset[] {
-  return FONT_ASSETS_BY_FAMILY.get(family.trim().toLowerCase()) || [];
+export function getFontAssetsByFamily(family: string, scope?: string | null): readonly FontAsset[] {
+  const key = family.trim().toLowerCase();
+  return FONT_ASSETS_BY_FAMILY.get(key) || getRegisteredFontAssetScope(scope)?.byFamily.get(key) || [];
 }
 
 export function upsertFontFamilyVariants(params: UpsertFontFamilyVariantsParams): FontAsset[] {
@@ -548,7 +658,7 @@ export function getFontFaceCSS(assets: readonly FontAsset[] = FONT_ASSETS): stri
   return assets
     .map((asset) => {
       const family = `'${escapeCssString(asset.family)}'`;
-      const src = `url('${toPublicFontPath(asset.file)}') format('woff2')`;
+      const src = `url('${toPublicFontPath(asset.file)}') format('${getFontAssetFormat(asset.file)}')`;
       return `@font-face{font-family:${family};font-style:${asset.style};font-weight:${asset.weight};font-display:block;src:${src};}`;
     })
     .join("\n");
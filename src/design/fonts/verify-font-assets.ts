@@ -1,13 +1,13 @@
 import fs from "fs";
 import path from "path";
-import { FONT_ASSETS, getFontAssetSource, toPublicFontPath } from "@/src/design/fonts/font-assets";
+import { FONT_ASSETS, getFontAssetSource, toPublicFontPath, type FontAssetSource } from "@/src/design/fonts/font-assets";
 
 type MissingEntry = {
   id: string;
   family: string;
   style: "normal" | "italic";
   weight: number;
-  source: "local" | "google";
+  source: FontAssetSource;
   file: string;
   absolutePath: string;
 };